@@ -1,11 +1,13 @@
 import { defineBackend } from "@aws-amplify/backend";
-import { CustomResource, Stack } from "aws-cdk-lib";
+import { CustomResource, RemovalPolicy, Stack } from "aws-cdk-lib";
 import { HttpUserPoolAuthorizer } from "aws-cdk-lib/aws-apigatewayv2-authorizers";
 import { CorsHttpMethod, HttpApi, HttpMethod } from "aws-cdk-lib/aws-apigatewayv2";
 import { HttpLambdaIntegration } from "aws-cdk-lib/aws-apigatewayv2-integrations";
 import { PolicyStatement, ServicePrincipal } from "aws-cdk-lib/aws-iam";
 import { Provider } from "aws-cdk-lib/custom-resources";
+import { AttributeType, BillingMode, Table, TableEncryption } from "aws-cdk-lib/aws-dynamodb";
 import { Code, Function as LambdaFunction, Runtime } from "aws-cdk-lib/aws-lambda";
+import { BlockPublicAccess, Bucket, BucketEncryption } from "aws-cdk-lib/aws-s3";
 import { auth } from "./auth/resource";
 import { data } from "./data/resource";
 import { createCheckoutSession } from "./functions/createCheckoutSession/resource";
@@ -15,6 +17,9 @@ import { sendInvites } from "./functions/sendInvites/resource";
 import { inventoryApi } from "./functions/inventoryApi/resource";
 import { createBillingPortalSession } from "./functions/createBillingPortalSession/resource";
 import { postConfirmationLambda } from "./functions/postConfirmationLambda/resource";
+import { alertDigest } from "./functions/alertDigest/resource";
+import { webhookRetry } from "./functions/webhookRetry/resource";
+import { auditArchive } from "./functions/auditArchive/resource";
 
 const backend = defineBackend({
   auth,
@@ -26,6 +31,9 @@ const backend = defineBackend({
   inventoryApi,
   createBillingPortalSession,
   postConfirmationLambda,
+  alertDigest,
+  webhookRetry,
+  auditArchive,
 });
 
 const deploymentEnv = String(process.env.AMPLIFY_ENV ?? process.env.ENV ?? "")
@@ -40,7 +48,9 @@ const corsAllowedOrigins = isDeployed
 // operator is viewing a customer org. It's a custom header, so it must be in
 // the CORS allowlist or the browser's preflight blocks every impersonation
 // request (see SUPPORT_ORG_HEADER in inventoryApi/userSubscriptionCheck).
-const corsAllowedHeaders = ["Authorization", "Content-Type", "x-wickops-support-org"];
+// `Idempotency-Key` rides on mutations the offline queue may replay (see
+// inventoryApi/idempotency.ts).
+const corsAllowedHeaders = ["Authorization", "Content-Type", "x-wickops-support-org", "Idempotency-Key"];
 const browserCorsMethods = [
   CorsHttpMethod.GET,
   CorsHttpMethod.POST,
@@ -114,6 +124,15 @@ inventoryHttpApi.addRoutes({
   integration: inventoryLambdaIntegration,
   authorizer: inventoryAuthorizer,
 });
+// The public /v1 API is for machine clients holding an org API key, not a
+// Cognito session, so it has no authorizer here; the Lambda authenticates the
+// key itself (getApiKeyAccessContext) and 401s anything else. The more
+// specific path wins over /{proxy+} in API Gateway's route matching.
+inventoryHttpApi.addRoutes({
+  path: "/v1/{proxy+}",
+  methods: inventoryMethods,
+  integration: inventoryLambdaIntegration,
+});
 
 coreHttpApi.addRoutes({
   path: "/user-subscription",
@@ -180,6 +199,22 @@ const organizationTable = (backend.data.resources as any)?.tables?.organization;
 const inviteTable = (backend.data.resources as any)?.tables?.invite;
 const supportAccessGrantTable = (backend.data.resources as any)?.tables?.supportAccessGrant;
 
+// Org-scoped credentials for the public /v1 API. PK = SHA-256 of the secret,
+// so the inventoryApi Lambda authenticates a request with one GetItem; the
+// secret itself is shown to the OWNER once and never stored. Deliberately a
+// plain CDK table rather than a data model: nothing but inventoryApi may read
+// or write it — an AppSync model would let any signed-in user list other
+// orgs' keys or mint a row for an org they don't belong to. Revoking flips
+// status and keeps the row so the key list and audit trail still name it.
+const apiKeyTable = new Table(apiStack, "ApiKeyTable", {
+  partitionKey: { name: "id", type: AttributeType.STRING },
+  billingMode: BillingMode.PAY_PER_REQUEST,
+  encryption: TableEncryption.AWS_MANAGED,
+  pointInTimeRecovery: true,
+  deletionProtection: true,
+  removalPolicy: RemovalPolicy.RETAIN,
+});
+
 // defineData uses the AMPLIFY_TABLE strategy (Custom::AmplifyDynamoDBTable),
 // not a plain CfnTable, so PITR + deletion protection must be set via the
 // AmplifyDynamoDbTableWrapper exposed at cfnResources.amplifyDynamoDbTables.
@@ -204,6 +239,8 @@ if (supportAccessGrantTable) {
   inventoryApiLambda.addEnvironment("SUPPORT_GRANT_TABLE", supportAccessGrantTable.tableName);
   supportAccessGrantTable.grantReadWriteData(inventoryApiLambda);
 }
+inventoryApiLambda.addEnvironment("API_KEY_TABLE", apiKeyTable.tableName);
+apiKeyTable.grantReadWriteData(inventoryApiLambda);
 
 const inventoryApiStack = Stack.of(inventoryApiLambda);
 const inventoryDynamicTableArn = `arn:aws:dynamodb:${inventoryApiStack.region}:${inventoryApiStack.account}:table/${inventoryOrgTablePrefix}-*`;
@@ -232,6 +269,8 @@ inventoryApiLambda.addToRolePolicy(
     actions: [
       "dynamodb:CreateTable", "dynamodb:DeleteTable", "dynamodb:DescribeTable",
       "dynamodb:UpdateContinuousBackups", "dynamodb:UpdateTimeToLive",
+      // Adds GSIs to existing per-org tables (ensureItemIndexes).
+      "dynamodb:UpdateTable",
     ],
     resources: [inventoryDynamicTableArn],
   }),
@@ -291,6 +330,61 @@ userSubscriptionLambda.addToRolePolicy(
   }),
 );
 
+// Scheduled email digest: reads subscriptions off the user table, stamps
+// lastSentAt back, and reads (never creates) the per-org inventory tables.
+// Same USER_TABLE + prefix as inventoryApi so the org table names hash alike.
+wireCoreDataTables(backend.alertDigest.resources.lambda, {
+  user: "readwrite",
+  organization: "read",
+});
+backend.alertDigest.addEnvironment("INVENTORY_ORG_TABLE_PREFIX", inventoryOrgTablePrefix);
+backend.alertDigest.resources.lambda.addToRolePolicy(
+  new PolicyStatement({
+    actions: ["dynamodb:GetItem", "dynamodb:Query", "dynamodb:Scan"],
+    resources: [inventoryDynamicTableArn, `${inventoryDynamicTableArn}/index/*`],
+  }),
+);
+
+// Scheduled webhook retry sweep: lists orgs, then reads and updates delivery
+// rows in each org's webhooks table. Never creates tables.
+wireCoreDataTables(backend.webhookRetry.resources.lambda, {
+  organization: "read",
+});
+backend.webhookRetry.addEnvironment("INVENTORY_ORG_TABLE_PREFIX", inventoryOrgTablePrefix);
+backend.webhookRetry.resources.lambda.addToRolePolicy(
+  new PolicyStatement({
+    actions: ["dynamodb:GetItem", "dynamodb:PutItem", "dynamodb:UpdateItem", "dynamodb:Query", "dynamodb:Scan"],
+    resources: [inventoryDynamicTableArn, `${inventoryDynamicTableArn}/index/*`],
+  }),
+);
+
+// Audit archive: events older than hot retention (AUDIT_TTL_DAYS) for orgs
+// that keep records longer. The daily sweep moves them out of the per-org
+// audit tables and prunes past each org's retention; inventoryApi only reads
+// (feed / item history reach back into it). Retained on stack deletion —
+// these are compliance records.
+const auditArchiveBucket = new Bucket(apiStack, "AuditArchiveBucket", {
+  encryption: BucketEncryption.S3_MANAGED,
+  blockPublicAccess: BlockPublicAccess.BLOCK_ALL,
+  enforceSSL: true,
+});
+inventoryApiLambda.addEnvironment("AUDIT_ARCHIVE_BUCKET", auditArchiveBucket.bucketName);
+auditArchiveBucket.grantRead(inventoryApiLambda);
+
+wireCoreDataTables(backend.auditArchive.resources.lambda, {
+  organization: "read",
+});
+backend.auditArchive.addEnvironment("INVENTORY_ORG_TABLE_PREFIX", inventoryOrgTablePrefix);
+backend.auditArchive.addEnvironment("AUDIT_ARCHIVE_BUCKET", auditArchiveBucket.bucketName);
+auditArchiveBucket.grantReadWrite(backend.auditArchive.resources.lambda);
+auditArchiveBucket.grantDelete(backend.auditArchive.resources.lambda);
+backend.auditArchive.resources.lambda.addToRolePolicy(
+  new PolicyStatement({
+    actions: ["dynamodb:GetItem", "dynamodb:UpdateItem", "dynamodb:Query", "dynamodb:BatchWriteItem"],
+    resources: [inventoryDynamicTableArn, `${inventoryDynamicTableArn}/index/*`],
+  }),
+);
+
 wireCoreDataTables(backend.sendInvites.resources.lambda, {
   user: "read",
   organization: "read",
@@ -0,0 +1,20 @@
+import { defineFunction, secret } from "@aws-amplify/backend";
+
+export const alertDigest = defineFunction({
+  name: "alertDigest",
+  entry: "./src/handler.ts",
+  resourceGroupName: "data",
+  // Daily at 12:00 UTC; weekly subscribers are skipped until their lastSentAt
+  // is a week old (see isDigestDue).
+  schedule: "0 12 * * *",
+  environment: {
+    // SES SMTP interface (or any relay). Unset SMTP_HOST falls back to the log
+    // transport, so a sandbox without mail credentials still runs cleanly.
+    SMTP_HOST: secret("SMTP_HOST"),
+    SMTP_USER: secret("SMTP_USER"),
+    SMTP_PASS: secret("SMTP_PASS"),
+    DIGEST_FROM_ADDRESS: secret("DIGEST_FROM_ADDRESS"),
+  },
+  runtime: 22,
+  timeoutSeconds: 300,
+});
@@ -0,0 +1,216 @@
+// ── alertDigest: digest.ts ──────────────────────────────────────────────────
+// Pure digest composition: which subscribers are due, which alerts fall in
+// their location filter, and the subject/text/html of the email. No I/O, so
+// a local run can feed it fixture items and assert on the output.
+
+import type {
+  ExpirationAlertItem,
+  InventoryAlertSummary,
+  LowStockAlertItem,
+} from "../../inventoryApi/src/alerts";
+import type { AlertDigestSubscription, InventoryLocation } from "../../inventoryApi/src/types";
+
+/** Minimum gap between digests per cadence. Slightly under a full period so a
+ *  daily schedule that fires a few minutes early still counts as due. */
+const MIN_INTERVAL_MS: Record<AlertDigestSubscription["cadence"], number> = {
+  daily: 20 * 60 * 60 * 1000,
+  weekly: (7 * 24 - 4) * 60 * 60 * 1000,
+};
+
+/** Items listed per section before collapsing to "…and N more". */
+const MAX_ITEMS_PER_SECTION = 25;
+
+export const isDigestDue = (subscription: AlertDigestSubscription, now: Date): boolean => {
+  if (!subscription.enabled) return false;
+  if (!subscription.lastSentAt) return true;
+  const last = Date.parse(subscription.lastSentAt);
+  if (!Number.isFinite(last)) return true;
+  return now.getTime() - last >= MIN_INTERVAL_MS[subscription.cadence];
+};
+
+/** Expand a subscriber's location filter to the leaves it covers. A station
+ *  id covers its children (2-level tree). Empty filter = every location,
+ *  returned as null so callers can skip filtering entirely. */
+export const resolveDigestScope = (
+  locations: InventoryLocation[],
+  locationIds: string[],
+): Set<string> | null => {
+  if (locationIds.length === 0) return null;
+  const ids = new Set(locationIds);
+  for (const loc of locations) {
+    const parent = String(loc.parentLocationId ?? "").trim();
+    if (parent && ids.has(parent)) ids.add(loc.id);
+  }
+  return ids;
+};
+
+const locationLabel = (locations: InventoryLocation[], id: string): string => {
+  const loc = locations.find((l) => l.id === id);
+  if (!loc) return "Unassigned";
+  const parent = loc.parentLocationId
+    ? locations.find((l) => l.id === loc.parentLocationId)
+    : undefined;
+  return parent ? `${parent.name} / ${loc.name}` : loc.name;
+};
+
+type LocationSection = {
+  locationId: string;
+  label: string;
+  expired: ExpirationAlertItem[];
+  expiringSoon: ExpirationAlertItem[];
+  lowStock: LowStockAlertItem[];
+};
+
+const groupByLocation = (
+  summary: InventoryAlertSummary,
+  locations: InventoryLocation[],
+  scope: Set<string> | null,
+): LocationSection[] => {
+  const sections = new Map<string, LocationSection>();
+  const sectionFor = (locationId: string) => {
+    let section = sections.get(locationId);
+    if (!section) {
+      section = {
+        locationId,
+        label: locationLabel(locations, locationId),
+        expired: [],
+        expiringSoon: [],
+        lowStock: [],
+      };
+      sections.set(locationId, section);
+    }
+    return section;
+  };
+  const inScope = (locationId: string) => !scope || scope.has(locationId);
+  for (const lot of summary.expired) if (inScope(lot.locationId)) sectionFor(lot.locationId).expired.push(lot);
+  for (const lot of summary.expiringSoon) if (inScope(lot.locationId)) sectionFor(lot.locationId).expiringSoon.push(lot);
+  for (const item of summary.lowStock) if (inScope(item.locationId)) sectionFor(item.locationId).lowStock.push(item);
+  return Array.from(sections.values()).sort((a, b) => a.label.localeCompare(b.label));
+};
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? "" : "s"}`;
+
+const describeExpiration = (lot: ExpirationAlertItem): string => {
+  if (lot.daysUntil < 0) return `expired ${lot.expirationDate}`;
+  if (lot.daysUntil === 0) return "expires today";
+  return `expires ${lot.expirationDate} (${plural(lot.daysUntil, "day")})`;
+};
+
+const itemLabel = (name: string) => name || "Unnamed item";
+
+type DigestLine = { text: string };
+
+const sectionLines = (section: LocationSection): Array<{ heading: string; lines: DigestLine[] }> => {
+  const groups: Array<{ heading: string; lines: DigestLine[] }> = [];
+  if (section.expired.length > 0) {
+    groups.push({
+      heading: "Expired",
+      lines: section.expired.map((lot) => ({
+        text: `${itemLabel(lot.itemName)} — qty ${lot.quantity}, ${describeExpiration(lot)}`,
+      })),
+    });
+  }
+  if (section.expiringSoon.length > 0) {
+    groups.push({
+      heading: "Expiring soon",
+      lines: section.expiringSoon.map((lot) => ({
+        text: `${itemLabel(lot.itemName)} — qty ${lot.quantity}, ${describeExpiration(lot)}`,
+      })),
+    });
+  }
+  if (section.lowStock.length > 0) {
+    groups.push({
+      heading: "Low stock",
+      lines: section.lowStock.map((item) => ({
+        text: `${itemLabel(item.itemName)} — ${item.totalQty} on hand, min ${item.minQuantity}`,
+      })),
+    });
+  }
+  return groups;
+};
+
+export type DigestInput = {
+  orgName: string;
+  cadence: AlertDigestSubscription["cadence"];
+  summary: InventoryAlertSummary;
+  locations: InventoryLocation[];
+  locationIds: string[];
+  appUrl: string;
+};
+
+export type DigestContent = {
+  subject: string;
+  text: string;
+  html: string;
+  counts: { expired: number; expiringSoon: number; lowStock: number };
+};
+
+/** Compose one subscriber's digest, or null when nothing in their scope needs
+ *  attention — an all-clear email every morning just trains people to ignore
+ *  the real ones. */
+export const buildDigestContent = (input: DigestInput): DigestContent | null => {
+  const scope = resolveDigestScope(input.locations, input.locationIds);
+  const sections = groupByLocation(input.summary, input.locations, scope);
+  if (sections.length === 0) return null;
+
+  const counts = sections.reduce(
+    (acc, s) => ({
+      expired: acc.expired + s.expired.length,
+      expiringSoon: acc.expiringSoon + s.expiringSoon.length,
+      lowStock: acc.lowStock + s.lowStock.length,
+    }),
+    { expired: 0, expiringSoon: 0, lowStock: 0 },
+  );
+  const countParts = [
+    counts.expired > 0 ? `${counts.expired} expired` : "",
+    counts.expiringSoon > 0 ? `${counts.expiringSoon} expiring soon` : "",
+    counts.lowStock > 0 ? `${counts.lowStock} low stock` : "",
+  ].filter(Boolean);
+  const period = input.cadence === "weekly" ? "Weekly" : "Daily";
+  const subject = `${period} inventory alerts for ${input.orgName}: ${countParts.join(", ")}`;
+
+  const text: string[] = [
+    `${period} inventory alerts — ${input.orgName}`,
+    countParts.join(" · "),
+    "",
+  ];
+  const html: string[] = [
+    '<div style="font-family:Arial,sans-serif;max-width:640px;margin:0 auto;padding:20px;color:#333">',
+    `<h2 style="color:#2472B1;margin:0 0 4px">${escapeHtml(`${period} inventory alerts`)}</h2>`,
+    `<p style="margin:0 0 16px;color:#555">${escapeHtml(input.orgName)} — ${escapeHtml(countParts.join(" · "))}</p>`,
+  ];
+
+  for (const section of sections) {
+    text.push(section.label, "-".repeat(section.label.length));
+    html.push(`<h3 style="margin:20px 0 6px;border-bottom:1px solid #eee;padding-bottom:4px">${escapeHtml(section.label)}</h3>`);
+    for (const group of sectionLines(section)) {
+      const shown = group.lines.slice(0, MAX_ITEMS_PER_SECTION);
+      const hidden = group.lines.length - shown.length;
+      text.push(`${group.heading}:`);
+      for (const line of shown) text.push(`  • ${line.text}`);
+      if (hidden > 0) text.push(`  …and ${hidden} more`);
+      html.push(`<p style="margin:8px 0 2px;font-weight:bold">${escapeHtml(group.heading)}</p><ul style="margin:0;padding-left:20px">`);
+      for (const line of shown) html.push(`<li>${escapeHtml(line.text)}</li>`);
+      if (hidden > 0) html.push(`<li style="color:#777">…and ${hidden} more</li>`);
+      html.push("</ul>");
+    }
+    text.push("");
+  }
+
+  const manageLine = "Manage this digest in WickOps under Settings → Email Digest.";
+  text.push(`Open WickOps: ${input.appUrl}`, manageLine);
+  html.push(
+    `<p style="margin:24px 0 8px"><a href="${escapeHtml(input.appUrl)}" style="color:#2472B1">Open WickOps</a></p>`,
+    `<p style="color:#999;font-size:13px">${escapeHtml(manageLine)}</p>`,
+    "</div>",
+  );
+
+  return { subject, text: text.join("\n"), html: html.join("\n"), counts };
+};
@@ -0,0 +1,184 @@
+// ── alertDigest: handler.ts ─────────────────────────────────────────────────
+// Scheduled (daily) entry point for the expiration / low-stock email digest.
+// One run:
+//   1. Scan the user table for records carrying an `alertDigest` subscription.
+//   2. Keep the ones that are enabled and due for their cadence.
+//   3. Per org, load items + locations once and run the same aggregation the
+//      dashboard's alert summary uses (inventoryApi/src/alerts.ts).
+//   4. Filter to each subscriber's locations, send, and stamp lastSentAt.
+//
+// Subscribers whose scope has nothing to report get no email and keep their
+// old lastSentAt, so they're re-checked on the next run.
+//
+// Local run against an SMTP catcher or the in-memory transport:
+//   runAlertDigests({ now, transport: createMemoryTransport() })
+
+import { ScanCommand, GetCommand, UpdateCommand } from "@aws-sdk/lib-dynamodb";
+import { ddb } from "../../inventoryApi/src/clients";
+import { USER_TABLE, ORG_TABLE } from "../../inventoryApi/src/config";
+import { storageTablesForOrganization } from "../../inventoryApi/src/storage";
+import { listAllItems } from "../../inventoryApi/src/items";
+import { listLocations } from "../../inventoryApi/src/columns";
+import { normalizeAlertDigestSubscription, summarizeInventoryAlerts } from "../../inventoryApi/src/alerts";
+import { getExpirationSettings } from "../../inventoryApi/src/routes/expiration-settings";
+import type { AlertDigestSubscription, UserRecord } from "../../inventoryApi/src/types";
+import { buildDigestContent, isDigestDue } from "./digest";
+import { createTransportFromEnv } from "./mail";
+import type { MailTransport } from "./mail";
+
+const DEFAULT_FROM_ADDRESS = "WickOps <alerts@wickops.com>";
+const DEFAULT_APP_URL = "https://systems.wickops.com";
+
+type Subscriber = {
+  userId: string;
+  email: string;
+  organizationId: string;
+  subscription: AlertDigestSubscription;
+};
+
+export type AlertDigestRunResult = {
+  subscribers: number;
+  due: number;
+  sent: number;
+  empty: number;
+  failed: number;
+};
+
+const listSubscribers = async (): Promise<Subscriber[]> => {
+  const out: Subscriber[] = [];
+  let lastEvaluatedKey: Record<string, unknown> | undefined;
+  do {
+    const page = await ddb.send(
+      new ScanCommand({
+        TableName: USER_TABLE,
+        FilterExpression: "attribute_exists(alertDigest)",
+        ProjectionExpression: "id, email, organizationId, accessSuspended, alertDigest",
+        ExclusiveStartKey: lastEvaluatedKey,
+      }),
+    );
+    for (const raw of (page.Items ?? []) as UserRecord[]) {
+      const email = String(raw.email ?? "").trim();
+      const organizationId = String(raw.organizationId ?? "").trim();
+      if (!email || !organizationId || raw.accessSuspended) continue;
+      out.push({
+        userId: raw.id,
+        email,
+        organizationId,
+        subscription: normalizeAlertDigestSubscription(raw.alertDigest),
+      });
+    }
+    lastEvaluatedKey = page.LastEvaluatedKey as Record<string, unknown> | undefined;
+  } while (lastEvaluatedKey);
+  return out;
+};
+
+const loadOrganizationName = async (organizationId: string): Promise<string> => {
+  const res = await ddb.send(new GetCommand({ TableName: ORG_TABLE, Key: { id: organizationId } }));
+  return String((res.Item as { name?: unknown } | undefined)?.name ?? "").trim() || "your organization";
+};
+
+const markSent = async (subscriber: Subscriber, sentAt: string) => {
+  await ddb.send(
+    new UpdateCommand({
+      TableName: USER_TABLE,
+      Key: { id: subscriber.userId },
+      UpdateExpression: "SET alertDigest.lastSentAt = :sentAt",
+      // Skip if the user switched orgs or unsubscribed mid-run.
+      ConditionExpression: "organizationId = :org AND alertDigest.enabled = :true",
+      ExpressionAttributeValues: { ":sentAt": sentAt, ":org": subscriber.organizationId, ":true": true },
+    }),
+  );
+};
+
+export const runAlertDigests = async (options: {
+  now?: Date;
+  transport?: MailTransport;
+} = {}): Promise<AlertDigestRunResult> => {
+  const now = options.now ?? new Date();
+  const transport = options.transport ?? createTransportFromEnv();
+  const from = String(process.env.DIGEST_FROM_ADDRESS ?? "").trim() || DEFAULT_FROM_ADDRESS;
+  const appUrl = String(process.env.DIGEST_APP_URL ?? "").trim() || DEFAULT_APP_URL;
+
+  const subscribers = await listSubscribers();
+  const due = subscribers.filter((s) => isDigestDue(s.subscription, now));
+  const result: AlertDigestRunResult = { subscribers: subscribers.length, due: due.length, sent: 0, empty: 0, failed: 0 };
+
+  const byOrg = new Map<string, Subscriber[]>();
+  for (const subscriber of due) {
+    const list = byOrg.get(subscriber.organizationId) ?? [];
+    list.push(subscriber);
+    byOrg.set(subscriber.organizationId, list);
+  }
+
+  for (const [organizationId, orgSubscribers] of byOrg) {
+    let summary;
+    let locations;
+    let orgName;
+    try {
+      // Names only — an org that hasn't provisioned inventory yet has no
+      // tables, and so nothing to report.
+      const storage = storageTablesForOrganization(organizationId);
+      const [items, locs, expirationSettings, name] = await Promise.all([
+        listAllItems(storage, organizationId),
+        listLocations(storage),
+        getExpirationSettings(storage),
+        loadOrganizationName(organizationId),
+      ]);
+      summary = summarizeInventoryAlerts(items, locs, expirationSettings);
+      locations = locs;
+      orgName = name;
+    } catch (err) {
+      if ((err as { name?: string })?.name === "ResourceNotFoundException") {
+        result.empty += orgSubscribers.length;
+        continue;
+      }
+      console.error("[alertDigest] failed to load org inventory", { organizationId, err });
+      result.failed += orgSubscribers.length;
+      continue;
+    }
+
+    for (const subscriber of orgSubscribers) {
+      const content = buildDigestContent({
+        orgName,
+        cadence: subscriber.subscription.cadence,
+        summary,
+        locations,
+        locationIds: subscriber.subscription.locationIds,
+        appUrl,
+      });
+      if (!content) {
+        result.empty += 1;
+        continue;
+      }
+      try {
+        await transport.send({
+          from,
+          to: subscriber.email,
+          subject: content.subject,
+          text: content.text,
+          html: content.html,
+        });
+      } catch (err) {
+        console.error("[alertDigest] send failed", { userId: subscriber.userId, organizationId, err });
+        result.failed += 1;
+        continue;
+      }
+      result.sent += 1;
+      try {
+        await markSent(subscriber, now.toISOString());
+      } catch (err) {
+        if ((err as { name?: string })?.name !== "ConditionalCheckFailedException") {
+          console.error("[alertDigest] failed to record lastSentAt", { userId: subscriber.userId, err });
+        }
+      }
+    }
+  }
+
+  return result;
+};
+
+export const handler = async () => {
+  const result = await runAlertDigests();
+  console.info("[alertDigest] run complete", result);
+  return result;
+};
@@ -0,0 +1,256 @@
+// ── alertDigest: mail.ts ────────────────────────────────────────────────────
+// Minimal mail transport for the digest. Deliberately dependency-free: the
+// SMTP client speaks just enough of RFC 5321 (EHLO, STARTTLS, AUTH LOGIN,
+// MAIL/RCPT/DATA) to deliver through SES's SMTP endpoint in production and a
+// local catcher (MailHog, Mailpit, `smtp4dev`) in development. The in-memory
+// transport backs local runs and tests without any network at all.
+//
+// Selected by env (see createTransportFromEnv):
+//   DIGEST_MAIL_TRANSPORT  smtp | memory | log   (default: smtp when SMTP_HOST
+//                                                 is set, else log)
+//   SMTP_HOST, SMTP_PORT (587), SMTP_SECURE ("true" = implicit TLS, port 465),
+//   SMTP_USER, SMTP_PASS, DIGEST_FROM_ADDRESS
+
+import { randomUUID } from "node:crypto";
+import net from "node:net";
+import tls from "node:tls";
+
+export type MailMessage = {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+};
+
+export type MailTransport = {
+  readonly kind: "smtp" | "memory" | "log";
+  send: (message: MailMessage) => Promise<void>;
+};
+
+export type SmtpConfig = {
+  host: string;
+  port: number;
+  /** Implicit TLS from the first byte (port 465). Otherwise STARTTLS is used
+   *  when the server offers it. */
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  /** Hostname announced in EHLO. */
+  clientName?: string;
+  timeoutMs?: number;
+};
+
+/** Collects messages instead of sending them. `sent` is the inspection hook. */
+export const createMemoryTransport = (): MailTransport & { sent: MailMessage[] } => {
+  const sent: MailMessage[] = [];
+  return {
+    kind: "memory",
+    sent,
+    send: async (message) => {
+      sent.push(message);
+    },
+  };
+};
+
+/** Logs a one-line summary per message. Default when no SMTP host is set so a
+ *  misconfigured environment degrades to "visible in CloudWatch", not a crash. */
+export const createLogTransport = (): MailTransport => ({
+  kind: "log",
+  send: async (message) => {
+    console.info("[alertDigest] mail (log transport)", { to: message.to, subject: message.subject });
+  },
+});
+
+// ── MIME encoding ───────────────────────────────────────────────────────────
+
+const encodeHeader = (value: string): string =>
+  /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+
+const base64Lines = (value: string): string =>
+  (Buffer.from(value, "utf8").toString("base64").match(/.{1,76}/g) ?? []).join("\r\n");
+
+/** RFC 5322 message with a text + html multipart/alternative body. Both parts
+ *  are base64 so item names with non-ASCII characters survive any relay. */
+export const buildMimeMessage = (message: MailMessage, now = new Date()): string => {
+  const boundary = `wickops-${randomUUID()}`;
+  const domain = message.from.split("@")[1]?.replace(/>.*$/, "") || "wickops.com";
+  return [
+    `From: ${message.from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${now.toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    "Content-Type: text/plain; charset=UTF-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Lines(message.text),
+    `--${boundary}`,
+    "Content-Type: text/html; charset=UTF-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Lines(message.html),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n");
+};
+
+/** SMTP dot-stuffing (RFC 5321 §4.5.2): inside DATA a line starting with "."
+ *  gets a second one, so only the terminating "." on its own line ends the
+ *  message. Expects CRLF line endings. */
+export const dotStuff = (data: string): string => data.replace(/(^|\r\n)\./g, "$1..");
+
+/** Strip any display name: "WickOps <alerts@x.com>" → "alerts@x.com". */
+const bareAddress = (address: string): string => {
+  const match = /<([^>]+)>/.exec(address);
+  return (match ? match[1] : address).trim();
+};
+
+// ── SMTP client ─────────────────────────────────────────────────────────────
+
+type SmtpReply = { code: number; text: string };
+
+/** Wraps a socket with a reply reader: each `read()` resolves with the next
+ *  complete (possibly multi-line) SMTP reply. */
+const createSmtpSession = (socket: net.Socket, timeoutMs: number) => {
+  let buffer = "";
+  let lines: string[] = [];
+  const replies: SmtpReply[] = [];
+  const waiters: Array<{ resolve: (r: SmtpReply) => void; reject: (e: Error) => void }> = [];
+  let failure: Error | null = null;
+
+  const flush = () => {
+    while (replies.length > 0 && waiters.length > 0) waiters.shift()!.resolve(replies.shift()!);
+    if (failure) while (waiters.length > 0) waiters.shift()!.reject(failure);
+  };
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString("utf8");
+    let idx: number;
+    while ((idx = buffer.indexOf("\r\n")) >= 0) {
+      const line = buffer.slice(0, idx);
+      buffer = buffer.slice(idx + 2);
+      lines.push(line);
+      // "250-..." continues a multi-line reply; "250 ..." ends it.
+      if (/^\d{3}(?: |$)/.test(line)) {
+        replies.push({ code: Number(line.slice(0, 3)), text: lines.join("\n") });
+        lines = [];
+      }
+    }
+    flush();
+  };
+  const onError = (err: Error) => {
+    failure = err;
+    flush();
+  };
+  const onClose = () => onError(new Error("SMTP connection closed"));
+  socket.on("data", onData);
+  socket.on("error", onError);
+  socket.on("close", onClose);
+  socket.setTimeout(timeoutMs, () => socket.destroy(new Error("SMTP timeout")));
+
+  const read = () =>
+    new Promise<SmtpReply>((resolve, reject) => {
+      waiters.push({ resolve, reject });
+      flush();
+    });
+
+  /** Send one command (null = just read the greeting) and require one of the
+   *  expected reply codes. `label` replaces the line in error messages so
+   *  AUTH payloads and message bodies never end up in logs. */
+  const command = async (line: string | null, expect: number[], label?: string): Promise<SmtpReply> => {
+    if (line !== null) socket.write(`${line}\r\n`);
+    const reply = await read();
+    if (!expect.includes(reply.code)) {
+      throw new Error(`SMTP ${label ?? line ?? "greeting"} → ${reply.text}`);
+    }
+    return reply;
+  };
+
+  const detach = () => {
+    socket.off("data", onData);
+    socket.off("error", onError);
+    socket.off("close", onClose);
+    socket.setTimeout(0);
+  };
+
+  return { command, detach };
+};
+
+const connect = (config: SmtpConfig): Promise<net.Socket> =>
+  new Promise((resolve, reject) => {
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host }, () => resolve(socket))
+      : net.connect({ host: config.host, port: config.port }, () => resolve(socket));
+    socket.once("error", reject);
+  });
+
+const upgradeToTls = (socket: net.Socket, host: string): Promise<net.Socket> =>
+  new Promise((resolve, reject) => {
+    const secured = tls.connect({ socket, servername: host }, () => resolve(secured));
+    secured.once("error", reject);
+  });
+
+export const sendViaSmtp = async (config: SmtpConfig, message: MailMessage): Promise<void> => {
+  const timeoutMs = config.timeoutMs ?? 20_000;
+  const clientName = config.clientName ?? "wickops-digest";
+  let socket = await connect(config);
+  let session = createSmtpSession(socket, timeoutMs);
+  try {
+    await session.command(null, [220]);
+    const ehlo = await session.command(`EHLO ${clientName}`, [250]);
+
+    if (!config.secure && /\bSTARTTLS\b/i.test(ehlo.text)) {
+      await session.command("STARTTLS", [220]);
+      session.detach();
+      socket = await upgradeToTls(socket, config.host);
+      session = createSmtpSession(socket, timeoutMs);
+      await session.command(`EHLO ${clientName}`, [250]);
+    }
+
+    if (config.user) {
+      await session.command("AUTH LOGIN", [334]);
+      await session.command(Buffer.from(config.user, "utf8").toString("base64"), [334], "AUTH user");
+      await session.command(Buffer.from(config.pass ?? "", "utf8").toString("base64"), [235], "AUTH pass");
+    }
+
+    await session.command(`MAIL FROM:<${bareAddress(message.from)}>`, [250]);
+    await session.command(`RCPT TO:<${bareAddress(message.to)}>`, [250, 251]);
+    await session.command("DATA", [354]);
+    // The MIME text already ends in CRLF, so "." on its own line terminates it.
+    const body = dotStuff(buildMimeMessage(message));
+    await session.command(`${body}.`, [250], "message body");
+    await session.command("QUIT", [221]).catch(() => undefined);
+  } finally {
+    session.detach();
+    socket.destroy();
+  }
+};
+
+export const createSmtpTransport = (config: SmtpConfig): MailTransport => ({
+  kind: "smtp",
+  send: (message) => sendViaSmtp(config, message),
+});
+
+export const createTransportFromEnv = (env: NodeJS.ProcessEnv = process.env): MailTransport => {
+  const host = String(env.SMTP_HOST ?? "").trim();
+  const requested = String(env.DIGEST_MAIL_TRANSPORT ?? "").trim().toLowerCase();
+  const kind = requested || (host ? "smtp" : "log");
+  if (kind === "memory") return createMemoryTransport();
+  if (kind === "smtp" && host) {
+    const secure = String(env.SMTP_SECURE ?? "").trim().toLowerCase() === "true";
+    return createSmtpTransport({
+      host,
+      port: Number(env.SMTP_PORT) || (secure ? 465 : 587),
+      secure,
+      user: String(env.SMTP_USER ?? "").trim() || undefined,
+      pass: String(env.SMTP_PASS ?? "") || undefined,
+    });
+  }
+  return createLogTransport();
+};
@@ -0,0 +1,12 @@
+import { defineFunction } from "@aws-amplify/backend";
+
+export const auditArchive = defineFunction({
+  name: "auditArchive",
+  entry: "./src/handler.ts",
+  resourceGroupName: "data",
+  // Events are archived AUDIT_ARCHIVE_LEAD_DAYS before their TTL, so a daily
+  // sweep has a week of slack.
+  schedule: "every day",
+  runtime: 22,
+  timeoutSeconds: 900,
+});
@@ -0,0 +1,58 @@
+// ── auditArchive: handler.ts ────────────────────────────────────────────────
+// Daily sweep that moves each org's audit events into the archive shortly
+// before DynamoDB's TTL would delete them, and prunes archived days past the
+// org's retention (see archiveAgedAuditEvents in inventoryApi/src/
+// audit-archive.ts). Orgs without an audit table yet are skipped inside that
+// call; an org left unfinished at the deadline carries on tomorrow.
+
+import { ScanCommand } from "@aws-sdk/lib-dynamodb";
+import { ddb } from "../../inventoryApi/src/clients";
+import { ORG_TABLE } from "../../inventoryApi/src/config";
+import { archiveAgedAuditEvents } from "../../inventoryApi/src/audit-archive";
+
+/** Stop starting new work this long before the 15-minute Lambda timeout. */
+const RUN_BUDGET_MS = 13 * 60 * 1000;
+
+const listOrganizationIds = async (): Promise<string[]> => {
+  const out: string[] = [];
+  let lastEvaluatedKey: Record<string, unknown> | undefined;
+  do {
+    const page = await ddb.send(
+      new ScanCommand({
+        TableName: ORG_TABLE,
+        ProjectionExpression: "id",
+        ExclusiveStartKey: lastEvaluatedKey,
+      }),
+    );
+    for (const row of page.Items ?? []) {
+      const id = String(row.id ?? "").trim();
+      if (id) out.push(id);
+    }
+    lastEvaluatedKey = page.LastEvaluatedKey as Record<string, unknown> | undefined;
+  } while (lastEvaluatedKey);
+  return out;
+};
+
+export const runAuditArchive = async ({ now = new Date() }: { now?: Date } = {}) => {
+  const deadline = Date.now() + RUN_BUDGET_MS;
+  const result = { organizations: 0, archived: 0, pruned: 0, failedOrganizations: 0 };
+  for (const organizationId of await listOrganizationIds()) {
+    if (Date.now() >= deadline) break;
+    result.organizations += 1;
+    try {
+      const { archived, pruned } = await archiveAgedAuditEvents(organizationId, { now, deadline });
+      result.archived += archived;
+      result.pruned += pruned;
+    } catch (err) {
+      result.failedOrganizations += 1;
+      console.error("[auditArchive] org sweep failed", { organizationId, err });
+    }
+  }
+  return result;
+};
+
+export const handler = async () => {
+  const result = await runAuditArchive();
+  console.info("[auditArchive] run complete", result);
+  return result;
+};
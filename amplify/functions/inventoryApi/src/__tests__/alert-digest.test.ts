@@ -0,0 +1,293 @@
+// Digest scheduling and composition, then the mail side: the memory
+// transport, MIME building, dot-stuffing and one SMTP exchange on loopback.
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import net from "node:net";
+import type { AddressInfo } from "node:net";
+import {
+  buildDigestContent,
+  isDigestDue,
+  resolveDigestScope,
+  type DigestInput,
+} from "../../../alertDigest/src/digest.js";
+import {
+  buildMimeMessage,
+  createMemoryTransport,
+  createTransportFromEnv,
+  dotStuff,
+  sendViaSmtp,
+  type MailMessage,
+} from "../../../alertDigest/src/mail.js";
+import type { ExpirationAlertItem, InventoryAlertSummary, LowStockAlertItem } from "../alerts.js";
+import type { AlertDigestSubscription } from "../types.js";
+import { location } from "./fixtures.js";
+
+const NOW = new Date("2026-05-01T07:00:00.000Z");
+const HOUR = 60 * 60 * 1000;
+
+const LOCATIONS = [
+  location("st1", undefined, "Station 1"),
+  location("med1", "st1", "Med Cabinet"),
+  location("st2", undefined, "Station 2"),
+];
+
+const lot = (overrides: Partial<ExpirationAlertItem> = {}): ExpirationAlertItem => ({
+  itemId: "item-1",
+  itemName: "Saline Flush",
+  locationId: "med1",
+  quantity: 4,
+  expirationDate: "2026-04-20",
+  daysUntil: -11,
+  ...overrides,
+});
+
+const low = (overrides: Partial<LowStockAlertItem> = {}): LowStockAlertItem => ({
+  itemName: "IV Start Kit",
+  locationId: "st2",
+  totalQty: 1,
+  minQuantity: 5,
+  ...overrides,
+});
+
+const summary = (overrides: Partial<InventoryAlertSummary> = {}): InventoryAlertSummary => ({
+  expiredCount: 0,
+  expiringSoonCount: 0,
+  lowStockCount: 0,
+  byLocation: [],
+  expired: [],
+  expiringSoon: [],
+  lowStock: [],
+  ...overrides,
+});
+
+const input = (overrides: Partial<DigestInput> = {}): DigestInput => ({
+  orgName: "Acme EMS",
+  cadence: "daily",
+  summary: summary(),
+  locations: LOCATIONS,
+  locationIds: [],
+  appUrl: "https://app.example.com",
+  ...overrides,
+});
+
+const subscription = (overrides: Partial<AlertDigestSubscription> = {}): AlertDigestSubscription => ({
+  enabled: true,
+  cadence: "daily",
+  locationIds: [],
+  ...overrides,
+});
+
+describe("isDigestDue", () => {
+  it("never sends a disabled subscription", () => {
+    assert.equal(isDigestDue(subscription({ enabled: false }), NOW), false);
+  });
+
+  it("sends when nothing has gone out yet", () => {
+    assert.equal(isDigestDue(subscription(), NOW), true);
+  });
+
+  it("lets a daily digest go a little early but not twice in a day", () => {
+    const sent = (hoursAgo: number) => new Date(NOW.getTime() - hoursAgo * HOUR).toISOString();
+    assert.equal(isDigestDue(subscription({ lastSentAt: sent(23.9) }), NOW), true);
+    assert.equal(isDigestDue(subscription({ lastSentAt: sent(6) }), NOW), false);
+  });
+
+  it("holds a weekly digest for most of a week", () => {
+    const sent = (days: number) => new Date(NOW.getTime() - days * 24 * HOUR).toISOString();
+    assert.equal(isDigestDue(subscription({ cadence: "weekly", lastSentAt: sent(3) }), NOW), false);
+    assert.equal(isDigestDue(subscription({ cadence: "weekly", lastSentAt: sent(6.9) }), NOW), true);
+  });
+});
+
+describe("resolveDigestScope", () => {
+  it("treats an empty filter as every location", () => {
+    assert.equal(resolveDigestScope(LOCATIONS, []), null);
+  });
+
+  it("expands a station to its children", () => {
+    assert.deepEqual([...(resolveDigestScope(LOCATIONS, ["st1"]) ?? [])].sort(), ["med1", "st1"]);
+  });
+});
+
+describe("buildDigestContent", () => {
+  it("returns null when nothing needs attention", () => {
+    assert.equal(buildDigestContent(input()), null);
+  });
+
+  it("lists expired lots under their location with quantity and date", () => {
+    const content = buildDigestContent(input({ summary: summary({ expired: [lot()] }) }));
+    assert.ok(content);
+    assert.deepEqual(content.counts, { expired: 1, expiringSoon: 0, lowStock: 0 });
+    assert.equal(content.subject, "Daily inventory alerts for Acme EMS: 1 expired");
+    assert.match(content.text, /Station 1 \/ Med Cabinet\n-+\nExpired:\n {2}• Saline Flush — qty 4, expired 2026-04-20/);
+  });
+
+  it("describes lots expiring today and in the coming days", () => {
+    const content = buildDigestContent(input({
+      summary: summary({
+        expiringSoon: [
+          lot({ itemName: "Gauze", daysUntil: 0, expirationDate: "2026-05-01" }),
+          lot({ itemName: "Tape", daysUntil: 1, expirationDate: "2026-05-02" }),
+          lot({ itemName: "Gloves", daysUntil: 12, expirationDate: "2026-05-13" }),
+        ],
+      }),
+    }));
+    assert.ok(content);
+    assert.match(content.text, /Expiring soon:/);
+    assert.match(content.text, /Gauze — qty 4, expires today/);
+    assert.match(content.text, /Tape — qty 4, expires 2026-05-02 \(1 day\)/);
+    assert.match(content.text, /Gloves — qty 4, expires 2026-05-13 \(12 days\)/);
+  });
+
+  it("lists low stock with on-hand and min", () => {
+    const content = buildDigestContent(input({ cadence: "weekly", summary: summary({ lowStock: [low()] }) }));
+    assert.ok(content);
+    assert.equal(content.subject, "Weekly inventory alerts for Acme EMS: 1 low stock");
+    assert.match(content.text, /Station 2\n-+\nLow stock:\n {2}• IV Start Kit — 1 on hand, min 5/);
+    assert.match(content.html, /<li>IV Start Kit — 1 on hand, min 5<\/li>/);
+  });
+
+  it("keeps alerts outside the subscriber's locations out of the email", () => {
+    const content = buildDigestContent(input({
+      locationIds: ["st1"],
+      summary: summary({ expired: [lot()], lowStock: [low()] }),
+    }));
+    assert.ok(content);
+    assert.deepEqual(content.counts, { expired: 1, expiringSoon: 0, lowStock: 0 });
+    assert.doesNotMatch(content.text, /IV Start Kit/);
+    assert.equal(buildDigestContent(input({ locationIds: ["st1"], summary: summary({ lowStock: [low()] }) })), null);
+  });
+
+  it("collapses long sections", () => {
+    const expired = Array.from({ length: 30 }, (_, i) => lot({ itemId: `item-${i}`, itemName: `Item ${i}` }));
+    const content = buildDigestContent(input({ summary: summary({ expired }) }));
+    assert.ok(content);
+    assert.equal((content.text.match(/ {2}• /g) ?? []).length, 25);
+    assert.match(content.text, /…and 5 more/);
+  });
+
+  it("escapes item names in the html body", () => {
+    const content = buildDigestContent(input({ summary: summary({ expired: [lot({ itemName: "<b>Tape & Gauze</b>" })] }) }));
+    assert.ok(content);
+    assert.match(content.html, /&lt;b&gt;Tape &amp; Gauze&lt;\/b&gt;/);
+    assert.doesNotMatch(content.html, /<b>Tape/);
+  });
+});
+
+describe("dotStuff", () => {
+  it("doubles a leading dot on the first and later lines", () => {
+    assert.equal(dotStuff(".first\r\nplain\r\n.second\r\n"), "..first\r\nplain\r\n..second\r\n");
+  });
+
+  it("keeps a lone dot line from ending DATA early", () => {
+    assert.equal(dotStuff("a\r\n.\r\nb"), "a\r\n..\r\nb");
+  });
+
+  it("doubles an already-doubled dot again", () => {
+    assert.equal(dotStuff("x\r\n..y"), "x\r\n...y");
+  });
+
+  it("leaves dots elsewhere in a line alone", () => {
+    assert.equal(dotStuff("v1.2 costs $3.50.\r\nend."), "v1.2 costs $3.50.\r\nend.");
+  });
+});
+
+const MESSAGE: MailMessage = {
+  from: "WickOps <alerts@example.com>",
+  to: "crew@example.com",
+  subject: "Daily alerts — Ångström Station",
+  text: "Saline Flush — qty 4\n.hidden",
+  html: "<p>Saline Flush</p>",
+};
+
+describe("mail transports", () => {
+  it("memory transport collects what was sent", async () => {
+    const transport = createMemoryTransport();
+    await transport.send(MESSAGE);
+    assert.equal(transport.kind, "memory");
+    assert.deepEqual(transport.sent, [MESSAGE]);
+  });
+
+  it("picks the transport from env", () => {
+    assert.equal(createTransportFromEnv({}).kind, "log");
+    assert.equal(createTransportFromEnv({ DIGEST_MAIL_TRANSPORT: "memory" }).kind, "memory");
+    assert.equal(createTransportFromEnv({ SMTP_HOST: "smtp.example.com" }).kind, "smtp");
+    // smtp without a host degrades to logging rather than failing every send.
+    assert.equal(createTransportFromEnv({ DIGEST_MAIL_TRANSPORT: "smtp" }).kind, "log");
+  });
+
+  it("builds a multipart message with encoded subject and base64 parts", () => {
+    const mime = buildMimeMessage(MESSAGE, NOW);
+    assert.match(mime, /^Subject: =\?UTF-8\?B\?[A-Za-z0-9+/=]+\?=$/m);
+    assert.match(mime, /^Date: Fri, 01 May 2026 07:00:00 GMT$/m);
+    assert.match(mime, /@example\.com>$/m);
+    const parts = mime.split(/--wickops-[0-9a-f-]+/);
+    const textPart = parts[1].split("\r\n\r\n")[1].replace(/\r\n/g, "");
+    assert.equal(Buffer.from(textPart, "base64").toString("utf8"), MESSAGE.text);
+  });
+});
+
+/** A scripted SMTP server on loopback: answers each command and records the
+ *  conversation, with the DATA payload kept whole. */
+const startFakeSmtp = async () => {
+  const commands: string[] = [];
+  let data = "";
+  const server = net.createServer((socket) => {
+    let buffer = "";
+    let inData = false;
+    socket.write("220 fake ESMTP\r\n");
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString("utf8");
+      if (inData) {
+        const end = buffer.indexOf("\r\n.\r\n");
+        if (end < 0) return;
+        data = buffer.slice(0, end + 2);
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        socket.write("250 queued\r\n");
+      }
+      let idx: number;
+      while (!inData && (idx = buffer.indexOf("\r\n")) >= 0) {
+        const line = buffer.slice(0, idx);
+        buffer = buffer.slice(idx + 2);
+        commands.push(line);
+        if (line.startsWith("EHLO")) socket.write("250-fake\r\n250 SIZE 1000000\r\n");
+        else if (line === "DATA") {
+          inData = true;
+          socket.write("354 go ahead\r\n");
+        } else if (line === "QUIT") socket.end("221 bye\r\n");
+        else socket.write("250 ok\r\n");
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  return {
+    port: (server.address() as AddressInfo).port,
+    commands,
+    data: () => data,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+};
+
+describe("sendViaSmtp", () => {
+  it("delivers with bare envelope addresses and a terminated DATA block", async () => {
+    const smtp = await startFakeSmtp();
+    try {
+      await sendViaSmtp({ host: "127.0.0.1", port: smtp.port, secure: false, timeoutMs: 5000 }, MESSAGE);
+      assert.deepEqual(smtp.commands, [
+        "EHLO wickops-digest",
+        "MAIL FROM:<alerts@example.com>",
+        "RCPT TO:<crew@example.com>",
+        "DATA",
+        "QUIT",
+      ]);
+      assert.match(smtp.data(), /^From: WickOps <alerts@example\.com>\r\n/);
+      assert.ok(smtp.data().endsWith(`--\r\n`));
+      // No unstuffed dot line can appear inside the payload.
+      assert.doesNotMatch(smtp.data(), /\r\n\.(?!\.)/);
+    } finally {
+      await smtp.close();
+    }
+  });
+});
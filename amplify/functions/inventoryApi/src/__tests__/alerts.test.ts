@@ -0,0 +1,97 @@
+// Expiring-soon windows: parsing and normalizing the org settings, which tier
+// sets a lot's window, and how summarizeInventoryAlerts counts against it.
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  DEFAULT_EXPIRATION_WARNING_DAYS,
+  normalizeExpirationSettings,
+  parseWarningDays,
+  resolveExpirationWarningDays,
+  summarizeInventoryAlerts,
+} from "../alerts.js";
+import { daysFromToday, inventoryItem } from "./fixtures.js";
+
+describe("parseWarningDays", () => {
+  it("takes whole days from numbers and numeric strings", () => {
+    assert.equal(parseWarningDays(14), 14);
+    assert.equal(parseWarningDays("90"), 90);
+    assert.equal(parseWarningDays(7.9), 7);
+  });
+
+  it("returns null for blanks, junk and out-of-range values", () => {
+    for (const raw of [null, undefined, "", "soon", 0, -5, 1826]) {
+      assert.equal(parseWarningDays(raw), null, String(raw));
+    }
+  });
+});
+
+describe("normalizeExpirationSettings", () => {
+  it("defaults to the org-wide window with no rules", () => {
+    assert.deepEqual(normalizeExpirationSettings(undefined), { defaultWarningDays: DEFAULT_EXPIRATION_WARNING_DAYS, rules: [] });
+  });
+
+  it("trims keys and drops rules missing a column, value or valid days", () => {
+    const settings = normalizeExpirationSettings({
+      defaultWarningDays: "45",
+      itemColumnKey: " warnDays ",
+      rules: [
+        { columnKey: " category ", value: " Drugs ", warningDays: 90 },
+        { columnKey: "", value: "x", warningDays: 10 },
+        { columnKey: "category", value: "", warningDays: 10 },
+        { columnKey: "category", value: "Airway", warningDays: 0 },
+      ],
+    });
+    assert.deepEqual(settings, {
+      defaultWarningDays: 45,
+      itemColumnKey: "warnDays",
+      rules: [{ columnKey: "category", value: "Drugs", warningDays: 90 }],
+    });
+  });
+});
+
+describe("resolveExpirationWarningDays", () => {
+  const settings = normalizeExpirationSettings({
+    defaultWarningDays: 30,
+    itemColumnKey: "warnDays",
+    rules: [
+      { columnKey: "category", value: "drugs", warningDays: 90 },
+      { columnKey: "vendor", value: "Acme", warningDays: 60 },
+    ],
+  });
+
+  it("prefers the lot's own column, then the first matching rule, then the default", () => {
+    assert.equal(resolveExpirationWarningDays({ warnDays: 7, category: "Drugs" }, settings), 7);
+    assert.equal(resolveExpirationWarningDays({ category: " DRUGS ", vendor: "Acme" }, settings), 90);
+    assert.equal(resolveExpirationWarningDays({ vendor: "acme" }, settings), 60);
+    assert.equal(resolveExpirationWarningDays({ category: "Airway" }, settings), 30);
+  });
+
+  it("falls through an invalid per-lot value", () => {
+    assert.equal(resolveExpirationWarningDays({ warnDays: "n/a", category: "drugs" }, settings), 90);
+  });
+});
+
+describe("summarizeInventoryAlerts expiration counts", () => {
+  const lot = (id: string, days: number, values: Record<string, unknown> = {}) =>
+    inventoryItem(id, { itemName: id, quantity: 1, expirationDate: daysFromToday(days), ...values });
+
+  it("counts today as expired and stops expiring-soon at each lot's window", () => {
+    const summary = summarizeInventoryAlerts(
+      [lot("today", 0), lot("past", -3), lot("edge", 30), lot("beyond", 31), lot("drug", 80, { category: "Drugs" })],
+      [],
+      normalizeExpirationSettings({ rules: [{ columnKey: "category", value: "Drugs", warningDays: 90 }] }),
+    );
+    assert.deepEqual(summary.expired.map((l) => l.itemId), ["past", "today"]);
+    assert.deepEqual(summary.expiringSoon.map((l) => l.itemId), ["edge", "drug"]);
+    assert.equal(summary.expiringSoonCount, 2);
+  });
+
+  it("leaves retired and undated lots out", () => {
+    const summary = summarizeInventoryAlerts(
+      [lot("retired", -1, { retiredAt: "2026-01-01T00:00:00.000Z" }), inventoryItem("undated", { itemName: "x", quantity: 1 })],
+      [],
+    );
+    assert.equal(summary.expiredCount + summary.expiringSoonCount, 0);
+  });
+});
@@ -0,0 +1,32 @@
+// The archive sweep with no archive configured (neither AUDIT_ARCHIVE_BUCKET
+// nor AUDIT_ARCHIVE_DIR is set here): nothing may leave the table.
+
+import { afterEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { BatchWriteCommand, GetCommand } from "@aws-sdk/lib-dynamodb";
+import { archiveAgedAuditEvents, readArchivedAuditEvents } from "../audit-archive.js";
+import { ORG_ID, stubDdb } from "./fixtures.js";
+
+describe("archiveAgedAuditEvents without an archive", () => {
+  afterEach(() => mock.restoreAll());
+
+  it("refuses to move events for an org that keeps them past the TTL", async () => {
+    const sent = stubDdb((command) => {
+      assert.ok(command instanceof GetCommand, "only the retention setting may be read");
+      return {};
+    });
+    await assert.rejects(archiveAgedAuditEvents(ORG_ID), /refusing to move events/);
+    assert.ok(!sent.mock.calls.some((call) => call.arguments[0] instanceof BatchWriteCommand));
+  });
+
+  it("has nothing to do for an org on 1-year retention", async () => {
+    stubDdb((command) => (command instanceof GetCommand ? { Item: { retentionYears: 1 } } : assert.fail("unexpected write")));
+    assert.deepEqual(await archiveAgedAuditEvents(ORG_ID), { archived: 0, pruned: 0 });
+  });
+});
+
+describe("readArchivedAuditEvents without an archive", () => {
+  it("finds nothing", async () => {
+    assert.deepEqual(await readArchivedAuditEvents(ORG_ID, { match: () => true, limit: 10 }), { items: [], next: null });
+  });
+});
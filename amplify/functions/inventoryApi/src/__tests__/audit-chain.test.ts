@@ -0,0 +1,343 @@
+// appendToAuditChain against an in-memory audit table with writers racing
+// for the head; verifyAuditChainPage over an in-memory ByTimestamp index:
+// broken links, edited events, expired gaps, ties, and undo markers written
+// after the fact.
+
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { GetCommand, PutCommand, QueryCommand, TransactWriteCommand, UpdateCommand } from "@aws-sdk/lib-dynamodb";
+import {
+  appendToAuditChain,
+  auditEventHash,
+  startAuditChainWalk,
+  verifyAuditChainPage,
+  type AuditChainHead,
+} from "../audit-chain.js";
+import { ORG_ID, stubDdb } from "./fixtures.js";
+
+const NOW = new Date("2026-05-01T12:00:00.000Z");
+const GENESIS_HASH = "0".repeat(64);
+const FAR_DEADLINE = Number.MAX_SAFE_INTEGER;
+
+type Event = Record<string, unknown>;
+
+const event = (n: number, action: string, details: Record<string, unknown> = {}, eventId = `evt-${n}`): Event => {
+  const timestamp = new Date(Date.parse("2026-04-01T00:00:00.000Z") + n * 60_000).toISOString();
+  return {
+    pk: `ORG#${ORG_ID}`,
+    sk: `TS#${timestamp}#${eventId.slice(-8)}`,
+    eventId,
+    action,
+    timestamp,
+    orgId: ORG_ID,
+    userId: "user-1",
+    detailsJson: JSON.stringify(details),
+  };
+};
+
+/** Link events the way appendToAuditChain does: seq, prevHash, then hash. */
+const chain = (events: Event[]): Event[] => {
+  let prevHash = GENESIS_HASH;
+  return events.map((e, i) => {
+    const linked: Event = { ...e, seq: i + 1, prevHash };
+    linked.hash = auditEventHash(linked);
+    prevHash = String(linked.hash);
+    return linked;
+  });
+};
+
+const headOf = (events: Event[]): AuditChainHead => {
+  const last = events[events.length - 1];
+  return {
+    seq: Number(last.seq),
+    hash: String(last.hash),
+    timestamp: String(last.timestamp),
+    startedAt: String(events[0].timestamp),
+  };
+};
+
+/** Serve `events` to the verifier's query, `pageSize` per page. */
+const serve = (events: Event[], pageSize = 500) => {
+  stubDdb((command) => {
+    const start = (command.input.ExclusiveStartKey as { page: number } | undefined)?.page ?? 0;
+    const end = start + pageSize;
+    return {
+      Items: events.slice(start, end),
+      ...(end < events.length ? { LastEvaluatedKey: { page: end } } : {}),
+    };
+  });
+};
+
+const verify = async (events: Event[], head: AuditChainHead | null = headOf(events)) =>
+  verifyAuditChainPage("audit", ORG_ID, startAuditChainWalk(head), FAR_DEADLINE, NOW);
+
+/** A USAGE_APPROVE marked undone by a USAGE_UNDO that carries the marker's id. */
+const undonePair = (): Event[] => {
+  const [approve, undo] = chain([
+    event(1, "USAGE_APPROVE", { quantityUsed: 2 }),
+    event(2, "USAGE_UNDO", { undoneEventId: "evt-1" }, "undo-1"),
+  ]);
+  return [
+    { ...approve, undoneAt: undo.timestamp, undoneByUserId: "user-1", undoneByEventId: "undo-1" },
+    undo,
+  ];
+};
+
+describe("verifyAuditChainPage", () => {
+  beforeEach(() => mock.restoreAll());
+  afterEach(() => mock.restoreAll());
+
+  it("passes an intact chain and checks every event", async () => {
+    const events = chain([event(1, "ITEM_CREATE"), event(2, "ITEM_EDIT"), event(3, "USAGE_APPROVE")]);
+    serve(events);
+    const page = await verify(events);
+    assert.equal(page.checked, 3);
+    assert.deepEqual(page.issues, []);
+    assert.equal(page.walk, null);
+  });
+
+  it("reports an event whose content changed after it was chained", async () => {
+    const events = chain([event(1, "ITEM_CREATE"), event(2, "ITEM_QTY_ADJUST", { quantityAfter: 5 })]);
+    events[1] = { ...events[1], detailsJson: JSON.stringify({ quantityAfter: 50 }) };
+    serve(events);
+    const page = await verify(events);
+    assert.deepEqual(page.issues.map((i) => [i.kind, i.seq]), [["altered", 2]]);
+  });
+
+  it("reports a removed event inside hot retention as missing", async () => {
+    const events = chain([event(1, "ITEM_CREATE"), event(2, "ITEM_EDIT"), event(3, "ITEM_EDIT")]);
+    serve([events[0], events[2]]);
+    const page = await verify(events);
+    assert.deepEqual(page.issues.map((i) => [i.kind, i.fromSeq, i.toSeq]), [["missing", 2, 2]]);
+  });
+
+  it("counts a gap older than the TTL as expired, not missing", async () => {
+    const old = (n: number, action: string): Event => ({
+      ...event(n, action),
+      timestamp: `2025-01-0${n}T00:00:00.000Z`,
+    });
+    const events = chain([old(1, "ITEM_CREATE"), old(2, "ITEM_EDIT"), old(3, "ITEM_EDIT"), event(4, "ITEM_EDIT")]);
+    serve(events.slice(2));
+    const page = await verify(events);
+    assert.equal(page.expired, 2);
+    assert.deepEqual(page.issues, []);
+  });
+
+  it("reports an event inserted after the chain started without a seq", async () => {
+    const events = chain([event(1, "ITEM_CREATE"), event(3, "ITEM_EDIT")]);
+    serve([events[0], event(2, "ITEM_DELETE"), events[1]]);
+    const page = await verify(events);
+    assert.deepEqual(page.issues.map((i) => [i.kind, i.eventId]), [["unchained", "evt-2"]]);
+  });
+
+  it("reports a head that doesn't match the newest event", async () => {
+    const events = chain([event(1, "ITEM_CREATE"), event(2, "ITEM_EDIT")]);
+    serve(events);
+    const page = await verify(events, { ...headOf(events), hash: "f".repeat(64) });
+    assert.deepEqual(page.issues.map((i) => i.kind), ["head_mismatch"]);
+  });
+
+  it("links events that share a timestamp by seq, whatever their index order", async () => {
+    const tied = (n: number): Event => ({ ...event(n, "ITEM_EDIT"), timestamp: "2026-04-02T00:00:00.000Z" });
+    const events = chain([event(1, "ITEM_CREATE"), tied(2), tied(3)]);
+    serve([events[0], events[2], events[1]]);
+    const page = await verify(events);
+    assert.deepEqual(page.issues, []);
+  });
+
+  describe("undo markers", () => {
+    it("accepts a marker backed by the chained undo event it points at", async () => {
+      const events = undonePair();
+      serve(events);
+      const page = await verify(events);
+      assert.deepEqual(page.issues, []);
+    });
+
+    it("reports a marker with no undo event", async () => {
+      const [approve] = undonePair();
+      serve([approve]);
+      const page = await verify([approve]);
+      assert.deepEqual(page.issues.map((i) => [i.kind, i.eventId]), [["unbacked_undo", "evt-1"]]);
+    });
+
+    it("reports a marker pointing at a different event than the undo", async () => {
+      const [approve, undo] = undonePair();
+      const events = [{ ...approve, undoneByEventId: "someone-else" }, undo];
+      serve(events);
+      const page = await verify(events);
+      assert.deepEqual(page.issues.map((i) => [i.kind, i.eventId]), [["unbacked_undo", "evt-1"]]);
+    });
+
+    it("reports an undo of the wrong kind", async () => {
+      const [approveRaw, undoRaw] = chain([
+        event(1, "USAGE_APPROVE"),
+        event(2, "ITEM_UNRETIRE", { undoneEventId: "evt-1" }, "undo-1"),
+      ]);
+      const events = [{ ...approveRaw, undoneAt: undoRaw.timestamp, undoneByEventId: "undo-1" }, undoRaw];
+      serve(events);
+      const page = await verify(events);
+      assert.deepEqual(page.issues.map((i) => i.kind), ["unbacked_undo"]);
+    });
+
+    it("reports a marker with no pointer at all", async () => {
+      const [approve] = chain([event(1, "USAGE_APPROVE")]);
+      const events = [{ ...approve, undoneAt: "2026-04-02T00:00:00.000Z" }];
+      serve(events);
+      const page = await verify(events);
+      assert.deepEqual(page.issues.map((i) => i.kind), ["unbacked_undo"]);
+    });
+
+    it("carries an unmatched marker across pages until its undo arrives", async () => {
+      const events = chain([
+        event(1, "USAGE_APPROVE", { quantityUsed: 2 }),
+        event(2, "ITEM_EDIT"),
+        event(3, "USAGE_UNDO", { undoneEventId: "evt-1" }, "undo-1"),
+      ]);
+      events[0] = { ...events[0], undoneAt: events[2].timestamp, undoneByEventId: "undo-1" };
+      // The first page ends after ITEM_EDIT, so the approve is linked but its
+      // undo hasn't been read yet.
+      serve(events, 2);
+
+      const head = headOf(events);
+      const first = await verifyAuditChainPage("audit", ORG_ID, startAuditChainWalk(head), 0, NOW);
+      assert.ok(first.walk);
+      assert.deepEqual(Object.keys(first.walk.pendingUndos ?? {}), ["evt-1"]);
+      const rest = await verifyAuditChainPage("audit", ORG_ID, first.walk, FAR_DEADLINE, NOW);
+      assert.deepEqual(rest.issues, []);
+      assert.equal(rest.walk, null);
+    });
+
+    it("doesn't count the marker itself as an alteration", async () => {
+      const events = undonePair();
+      serve(events);
+      const page = await verify(events);
+      assert.equal(page.issues.filter((i) => i.kind === "altered").length, 0);
+    });
+  });
+});
+
+describe("appendToAuditChain", () => {
+  type Key = { pk: string; sk: string };
+  type Input = {
+    Key?: Key;
+    Item?: Event;
+    ExpressionAttributeValues?: Record<string, unknown>;
+    ExpressionAttributeNames?: Record<string, string>;
+    Limit?: number;
+    TransactItems?: Array<{
+      Put?: { Item: Event };
+      Delete?: { Key: Key };
+      Update?: { Key: Key; ConditionExpression?: string; ExpressionAttributeValues: Record<string, unknown> };
+    }>;
+  };
+
+  let table: Map<string, Event>;
+  /** Transactions that fail as though another writer moved the head first. */
+  let racesToLose: number;
+
+  const keyOf = (key: Key) => `${key.pk}|${key.sk}`;
+  const headRow = () => table.get(keyOf({ pk: `CHAIN#${ORG_ID}`, sk: "HEAD" }));
+  const parkedRows = () => [...table.values()].filter((row) => String(row.pk).startsWith("CHAINPENDING#"));
+  const chained = () =>
+    [...table.values()].filter((row) => row.orgId && typeof row.seq === "number").sort((a, b) => Number(a.seq) - Number(b.seq));
+  const canceled = () => Object.assign(new Error("Transaction cancelled"), { name: "TransactionCanceledException" });
+
+  const update = (key: Key, values: Record<string, unknown>) => {
+    const row: Event = { ...(table.get(keyOf(key)) ?? key) };
+    if (":seq" in values) Object.assign(row, { seq: values[":seq"], hash: values[":hash"], timestamp: values[":ts"] });
+    if (":started" in values) row.startedAt = values[":started"];
+    const added = Number(values[":drained"] ?? values[":n"] ?? 0);
+    if (added) row.pendingCount = Number(row.pendingCount ?? 0) + added;
+    table.set(keyOf(key), row);
+  };
+
+  const assertIntactChain = (eventIds: string[]) => {
+    const rows = chained();
+    assert.deepEqual(rows.map((row) => row.eventId).sort(), [...eventIds].sort());
+    let prevHash = GENESIS_HASH;
+    rows.forEach((row, i) => {
+      assert.equal(row.seq, i + 1);
+      assert.equal(row.prevHash, prevHash);
+      assert.equal(row.hash, auditEventHash(row));
+      if (i > 0) assert.ok(String(row.timestamp) >= String(rows[i - 1].timestamp));
+      prevHash = String(row.hash);
+    });
+    assert.equal(headRow()?.seq, rows.length);
+    assert.equal(headRow()?.hash, prevHash);
+  };
+
+  beforeEach(() => {
+    table = new Map();
+    racesToLose = 0;
+    stubDdb(async (command) => {
+      const input = command.input as Input;
+      // Yield on every call, so concurrent appends interleave between their
+      // head read and their write.
+      await new Promise((resolve) => setImmediate(resolve));
+      if (command instanceof GetCommand) {
+        const row = table.get(keyOf(input.Key as Key));
+        return row ? { Item: { ...row } } : {};
+      }
+      if (command instanceof QueryCommand) {
+        const pk = input.ExpressionAttributeValues?.[":pk"];
+        const rows = [...table.values()].filter((row) => row.pk === pk).sort((a, b) => (String(a.sk) < String(b.sk) ? -1 : 1));
+        return { Items: rows.slice(0, input.Limit) };
+      }
+      if (command instanceof PutCommand) {
+        table.set(keyOf(input.Item as Key), { ...input.Item });
+        return {};
+      }
+      if (command instanceof UpdateCommand) {
+        update(input.Key as Key, input.ExpressionAttributeValues ?? {});
+        return {};
+      }
+      if (command instanceof TransactWriteCommand) {
+        if (racesToLose > 0) {
+          racesToLose -= 1;
+          throw canceled();
+        }
+        const items = input.TransactItems ?? [];
+        for (const { Delete, Update } of items) {
+          if (Delete && !table.has(keyOf(Delete.Key))) throw canceled();
+          if (Update) {
+            const seq = table.get(keyOf(Update.Key))?.seq;
+            const held = Update.ConditionExpression === "attribute_not_exists(seq)"
+              ? seq === undefined
+              : seq === Update.ExpressionAttributeValues[":headSeq"];
+            if (!held) throw canceled();
+          }
+        }
+        for (const { Put, Delete, Update } of items) {
+          if (Delete) table.delete(keyOf(Delete.Key));
+          if (Put) table.set(keyOf(Put.Item as Key), { ...Put.Item });
+          if (Update) update(Update.Key, Update.ExpressionAttributeValues);
+        }
+        return {};
+      }
+      assert.fail("unexpected command");
+    });
+  });
+  afterEach(() => mock.restoreAll());
+
+  it("serializes concurrent appends into one unbroken chain", async () => {
+    await Promise.all(
+      Array.from({ length: 6 }, (_, w) => appendToAuditChain("audit", [event(w * 2 + 1, "ITEM_EDIT"), event(w * 2 + 2, "ITEM_EDIT")])),
+    );
+    assertIntactChain(Array.from({ length: 12 }, (_, i) => `evt-${i + 1}`));
+  });
+
+  it("parks events after losing every race and links them on the next append", async () => {
+    mock.method(console, "warn", () => {});
+    racesToLose = 8;
+    await appendToAuditChain("audit", [event(1, "ITEM_EDIT"), event(2, "ITEM_EDIT")]);
+    assert.deepEqual(chained(), []);
+    assert.equal(parkedRows().length, 2);
+    assert.equal(headRow()?.pendingCount, 2);
+
+    await appendToAuditChain("audit", [event(3, "ITEM_EDIT")]);
+    assertIntactChain(["evt-1", "evt-2", "evt-3"]);
+    assert.deepEqual(chained().map((row) => row.eventId), ["evt-1", "evt-2", "evt-3"]);
+    assert.deepEqual(parkedRows(), []);
+    assert.equal(headRow()?.pendingCount, 0);
+  });
+});
@@ -0,0 +1,65 @@
+// Audit export rows: reading each action's detail keys into the shared
+// columns, and CSV quoting that keeps cells from running as formulas.
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { AUDIT_EXPORT_COLUMNS, auditExportCsvHeader, auditExportCsvLine, flattenAuditEvent } from "../audit-export.js";
+
+const event = (action: string, details: Record<string, unknown>, fields: Record<string, unknown> = {}) => ({
+  eventId: `evt-${action}`,
+  timestamp: "2026-03-01T12:00:00.000Z",
+  action,
+  userName: "Pat",
+  userEmail: "pat@example.com",
+  itemName: "Saline",
+  itemId: "item-1",
+  detailsJson: JSON.stringify(details),
+  ...fields,
+});
+
+const LOCATIONS = new Map([["st1", "Station 1"]]);
+const flatten = (item: Record<string, unknown>) => flattenAuditEvent(item, LOCATIONS).row;
+
+describe("flattenAuditEvent", () => {
+  it("reads the amount and before/after from whichever keys the action wrote", () => {
+    const usage = flatten(event("USAGE_SUBMIT", { quantityUsed: 2, quantityBefore: 5, quantityAfter: 3, locationId: "st1" }));
+    assert.deepEqual([usage.quantity, usage.qtyBefore, usage.qtyAfter, usage.location], ["2", "5", "3", "Station 1"]);
+
+    const transfer = flatten(event("ITEM_TRANSFER", { quantity: 4, sourceQtyBefore: 10, sourceQtyAfter: 6, fromLocationName: "Station 1", toLocationName: "Medic 3" }));
+    assert.deepEqual([transfer.quantity, transfer.qtyBefore, transfer.qtyAfter, transfer.location], ["4", "10", "6", "Station 1 → Medic 3"]);
+
+    const adjust = flatten(event("ITEM_QTY_ADJUST", { delta: -1, qtyBefore: 3, qtyAfter: 2, reason: "Damaged", locationId: "gone" }));
+    assert.deepEqual([adjust.quantity, adjust.reason, adjust.location], ["-1", "Damaged", "gone"]);
+  });
+
+  it("describes edit diffs and keeps the amended event's id", () => {
+    const row = flatten(event(
+      "ITEM_EDIT",
+      { changes: [{ field: "lotNumber", from: "", to: "L-9" }, { field: "quantity", from: 3, to: 4 }, { to: "ignored" }] },
+      { amendsEventId: "evt-original" },
+    ));
+    assert.equal(row.changes, "lotNumber: (blank) → L-9; quantity: 3 → 4");
+    assert.equal(row.amendsEventId, "evt-original");
+  });
+
+  it("leaves blanks for missing or unreadable details", () => {
+    const row = flatten(event("ITEM_DELETE", {}, { detailsJson: "{not json" }));
+    assert.equal(row.itemName, "Saline");
+    assert.equal([row.location, row.quantity, row.changes].join(""), "");
+  });
+});
+
+describe("audit export CSV", () => {
+  it("writes the header in column order", () => {
+    assert.equal(auditExportCsvHeader().split(",").length, AUDIT_EXPORT_COLUMNS.length);
+    assert.ok(auditExportCsvHeader().startsWith("timestamp,action,userName"));
+  });
+
+  it("quotes commas and quotes, and defuses formulas but not negative numbers", () => {
+    const row = flatten(event("ITEM_QTY_ADJUST", { delta: -3, notes: '=HYPERLINK("x")', reason: "Lost, then found" }));
+    const cells = auditExportCsvLine(row);
+    assert.ok(cells.includes('"\'=HYPERLINK(""x"")"'));
+    assert.ok(cells.includes('"Lost, then found"'));
+    assert.ok(cells.includes(",-3,"));
+  });
+});
@@ -0,0 +1,101 @@
+// summarizeBudgets: period, location-subtree and column scoping, status
+// thresholds and pace, against a fixed clock.
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { summarizeBudgets, type BudgetSpendLine } from "../budgets.js";
+import type { InventoryBudget } from "../types.js";
+import { STATION_LOCATIONS } from "./fixtures.js";
+
+const NOW = new Date("2026-02-15T00:00:00.000Z");
+
+const budget = (fields: Partial<InventoryBudget> = {}): InventoryBudget => ({
+  id: "b-1",
+  name: "Q1 supplies",
+  periodStart: "2026-01-01",
+  periodEnd: "2026-03-31",
+  amount: 1000,
+  ...fields,
+});
+
+const spend = (at: string, amount: number, locationId = "station-a", values: Record<string, unknown> = {}): BudgetSpendLine => ({
+  at: `${at}T12:00:00.000Z`,
+  locationId,
+  values,
+  amount,
+});
+
+const summarize = (budgets: InventoryBudget[], received: BudgetSpendLine[], committed: BudgetSpendLine[] = []) =>
+  summarizeBudgets(budgets, received, committed, STATION_LOCATIONS, NOW);
+
+describe("summarizeBudgets", () => {
+  it("totals received spend in the period by month", () => {
+    const [status] = summarize([budget()], [
+      spend("2026-01-05", 100),
+      spend("2026-01-20", 50),
+      spend("2026-03-31", 25),
+      spend("2025-12-31", 999),
+      spend("2026-04-01", 999),
+    ]);
+    assert.equal(status.actual, 175);
+    assert.deepEqual(status.byMonth, [
+      { month: "2026-01", actual: 150 },
+      { month: "2026-02", actual: 0 },
+      { month: "2026-03", actual: 25 },
+    ]);
+  });
+
+  it("lists every month of a period that spans a year end", () => {
+    const [status] = summarize([budget({ periodStart: "2025-11-15", periodEnd: "2026-02-10" })], []);
+    assert.deepEqual(status.byMonth.map((m) => m.month), ["2025-11", "2025-12", "2026-01", "2026-02"]);
+  });
+
+  it("counts spend at the budget's location and its children only", () => {
+    const [status] = summarize([budget({ locationId: "station" })], [
+      spend("2026-01-05", 100, "station"),
+      spend("2026-01-06", 40, "station-a"),
+      spend("2026-01-07", 500, "elsewhere"),
+    ]);
+    assert.equal(status.actual, 140);
+  });
+
+  it("matches a column scope case-insensitively and skips blank cells", () => {
+    const [status] = summarize([budget({ columnKey: "category", columnValue: "Airway" })], [
+      spend("2026-01-05", 100, "station-a", { category: " airway " }),
+      spend("2026-01-06", 40, "station-a", { category: "Trauma" }),
+      spend("2026-01-07", 70, "station-a", {}),
+    ]);
+    assert.equal(status.actual, 100);
+  });
+
+  it("warns at the warning ratio and goes over once committed spend passes the amount", () => {
+    const [ok, warning, over] = summarize(
+      [budget({ id: "ok" }), budget({ id: "warning", amount: 500 }), budget({ id: "over", amount: 400 })],
+      [spend("2026-01-05", 300)],
+      [spend("2026-02-01", 150)],
+    );
+    assert.deepEqual([ok.status, warning.status, over.status], ["ok", "warning", "over"]);
+    assert.equal(ok.committed, 150);
+    assert.equal(ok.remaining, 550);
+    assert.equal(over.remaining, -50);
+  });
+
+  it("leaves committed spend placed outside the period out", () => {
+    const [status] = summarize([budget()], [], [spend("2025-12-20", 300), spend("2026-01-02", 20)]);
+    assert.equal(status.committed, 20);
+  });
+
+  it("reports how much of the period has gone by", () => {
+    const [future, current, past] = summarize(
+      [
+        budget({ id: "future", periodStart: "2026-03-01", periodEnd: "2026-03-31" }),
+        budget({ id: "current", periodStart: "2026-02-01", periodEnd: "2026-02-28" }),
+        budget({ id: "past", periodStart: "2025-01-01", periodEnd: "2025-12-31" }),
+      ],
+      [],
+    );
+    assert.equal(future.elapsed, 0);
+    assert.ok(Math.abs(current.elapsed - 14 / 28) < 0.001);
+    assert.equal(past.elapsed, 1);
+  });
+});
@@ -0,0 +1,76 @@
+// Builders shared by the *.test.ts files: rows shaped the way the tables
+// hold them, an admin caller, and a stand-in for the DynamoDB client. Not a
+// test file itself — the runner only picks up *.test.ts.
+
+import { mock } from "node:test";
+import { ddb } from "../clients.js";
+import type { AccessContext, InventoryItem, InventoryLocation } from "../types.js";
+
+export const ORG_ID = "org-1";
+
+export const location = (id: string, parentLocationId?: string, name = id): InventoryLocation => ({
+  id,
+  organizationId: ORG_ID,
+  module: "inventory",
+  kind: "location",
+  name,
+  ...(parentLocationId ? { parentLocationId } : {}),
+  sortOrder: 0,
+  createdAt: "2026-01-01T00:00:00.000Z",
+});
+
+/** A station with one child location, and an unrelated top-level one. */
+export const STATION_LOCATIONS = [location("station"), location("station-a", "station"), location("elsewhere")];
+
+/** An inventory row at loc-a holding `values`. */
+export const inventoryItem = (
+  id: string,
+  values: Record<string, unknown>,
+  fields: Partial<InventoryItem> = {},
+): InventoryItem => ({
+  id,
+  organizationId: ORG_ID,
+  module: "inventory",
+  position: 1,
+  locationId: "loc-a",
+  valuesJson: JSON.stringify(values),
+  createdAt: "2026-01-01T00:00:00.000Z",
+  updatedAtCustom: "2026-01-01T00:00:00.000Z",
+  ...fields,
+});
+
+/** Local calendar date `days` from today, as an expirationDate cell. Expiry
+ *  is counted against the real clock in local time, so tests that care
+ *  about windows date their lots relative to it. */
+export const daysFromToday = (days: number): string => {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const adminAccess = (fields: Partial<AccessContext> = {}): AccessContext => ({
+  userId: "user-1",
+  email: "admin@example.com",
+  displayName: "Admin",
+  organizationId: ORG_ID,
+  role: "ADMIN",
+  orgEnabledModules: ["inventory"],
+  allowedModules: ["inventory"],
+  canEditInventory: true,
+  canManageColumns: true,
+  columnVisibilityOverrides: {},
+  ...fields,
+});
+
+/** What a stubbed send sees: the command object, whose class tells the kind
+ *  (`instanceof QueryCommand`…) and whose input is what the code sent. */
+export type SentCommand = { input: Record<string, unknown> };
+
+/** Answer every ddb.send with `respond`. Undo with mock.restoreAll(). */
+export const stubDdb = (respond: (command: SentCommand) => unknown) =>
+  mock.method(ddb, "send", async (command: SentCommand) => respond(command));
+
+/** The error a failed ConditionExpression raises. */
+export const conditionFailure = (): Error =>
+  Object.assign(new Error("The conditional request failed"), { name: "ConditionalCheckFailedException" });
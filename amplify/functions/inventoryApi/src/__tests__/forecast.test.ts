@@ -0,0 +1,108 @@
+// dailyRate and forecastConsumption: usage windows, weighting, grouping and
+// order cycles from receipt history, against a fixed clock.
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  DEFAULT_ORDER_CYCLE_DAYS,
+  dailyRate,
+  forecastConsumption,
+  type ForecastSample,
+} from "../forecast.js";
+
+const NOW = new Date("2026-04-30T18:00:00.000Z");
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** ISO timestamp `days` before NOW. */
+const daysAgo = (days: number): string => new Date(NOW.getTime() - days * DAY_MS).toISOString();
+
+const sample = (itemName: string, locationId: string, days: number, qty = 1): ForecastSample => ({
+  itemName,
+  locationId,
+  at: daysAgo(days),
+  qty,
+});
+
+describe("dailyRate", () => {
+  it("averages usage inside the window over the window's days", () => {
+    const result = dailyRate([{ at: daysAgo(0), qty: 6 }, { at: daysAgo(9), qty: 4 }], "moving-average", 10, NOW);
+    assert.deepEqual(result, { rate: 1, used: 10 });
+  });
+
+  it("leaves out usage at or beyond the window and in the future", () => {
+    const result = dailyRate(
+      [{ at: daysAgo(10), qty: 50 }, { at: daysAgo(-1), qty: 50 }, { at: "not a date", qty: 50 }, { at: daysAgo(3), qty: 5 }],
+      "moving-average",
+      10,
+      NOW,
+    );
+    assert.equal(result.used, 5);
+  });
+
+  it("weights recent days more under weighted-trend", () => {
+    const recent = dailyRate([{ at: daysAgo(0), qty: 10 }], "weighted-trend", 4, NOW);
+    const old = dailyRate([{ at: daysAgo(3), qty: 10 }], "weighted-trend", 4, NOW);
+    // Weights run 4 (today) … 1 (oldest day) over a total of 10.
+    assert.equal(recent.rate, 4);
+    assert.equal(old.rate, 1);
+    assert.equal(recent.used, old.used);
+  });
+
+  it("matches the moving average when usage is steady", () => {
+    const steady = Array.from({ length: 5 }, (_, day) => ({ at: daysAgo(day), qty: 2 }));
+    assert.equal(dailyRate(steady, "weighted-trend", 5, NOW).rate, dailyRate(steady, "moving-average", 5, NOW).rate);
+  });
+});
+
+describe("forecastConsumption", () => {
+  it("groups usage by trimmed, case-insensitive name per location", () => {
+    const forecast = forecastConsumption(
+      [sample("Gauze", "loc-a", 1, 3), sample(" gauze ", "loc-a", 2, 3), sample("Gauze", "loc-b", 1, 1)],
+      [],
+      "moving-average",
+      3,
+      NOW,
+    );
+    assert.deepEqual(
+      forecast.rates.map((r) => [r.itemName, r.locationId, r.usedInWindow]),
+      [["Gauze", "loc-a", 6], ["Gauze", "loc-b", 1]],
+    );
+  });
+
+  it("drops items with no usage in the window", () => {
+    const forecast = forecastConsumption([sample("Gauze", "loc-a", 40)], [], "moving-average", 30, NOW);
+    assert.deepEqual(forecast.rates, []);
+  });
+
+  it("takes each item's order cycle from the median gap between receipt days", () => {
+    const forecast = forecastConsumption(
+      [sample("Gauze", "loc-a", 1)],
+      [
+        sample("Gauze", "loc-a", 30),
+        sample("Gauze", "loc-a", 20),
+        // A second receipt the same day isn't a new cycle.
+        sample("Gauze", "loc-a", 20),
+        sample("Gauze", "loc-a", 14),
+      ],
+      "moving-average",
+      30,
+      NOW,
+    );
+    assert.equal(forecast.rates[0].orderCycleDays, 8);
+  });
+
+  it("falls back to the org's cycle, then to the default", () => {
+    const withOrgCycle = forecastConsumption(
+      [sample("Tape", "loc-a", 1)],
+      [sample("Gauze", "loc-a", 21), sample("Gauze", "loc-a", 14), sample("Gauze", "loc-a", 7), sample("Tape", "loc-a", 3)],
+      "moving-average",
+      30,
+      NOW,
+    );
+    assert.equal(withOrgCycle.orderCycleDays, 7);
+    assert.equal(withOrgCycle.rates[0].orderCycleDays, 7);
+
+    const withNothing = forecastConsumption([sample("Tape", "loc-a", 1)], [], "moving-average", 30, NOW);
+    assert.equal(withNothing.orderCycleDays, DEFAULT_ORDER_CYCLE_DAYS);
+  });
+});
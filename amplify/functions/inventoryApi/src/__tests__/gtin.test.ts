@@ -0,0 +1,39 @@
+// Barcode validation and matching: the GTIN lengths and check digit accepted,
+// and the 14-digit key that lets a UPC-A match its EAN-13 form.
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { gtinMatchKey, invalidGtinMessage, normalizeGtin } from "../gtin.js";
+
+describe("normalizeGtin", () => {
+  it("accepts EAN-8, UPC-A, EAN-13 and GTIN-14 with a good check digit", () => {
+    for (const code of ["96385074", "036000291452", "4006381333931", "10036000291459"]) {
+      assert.equal(normalizeGtin(code), code);
+    }
+  });
+
+  it("strips the spaces and dashes copied off packaging", () => {
+    assert.equal(normalizeGtin(" 0 36000-29145 2 "), "036000291452");
+    assert.equal(normalizeGtin(36000291452), null);
+  });
+
+  it("rejects a bad check digit, other lengths and non-digits", () => {
+    for (const raw of ["036000291453", "1234567", "123456789", "03600029145X", "", null, undefined]) {
+      assert.equal(normalizeGtin(raw), null, String(raw));
+    }
+  });
+});
+
+describe("gtinMatchKey", () => {
+  it("pads to 14 digits so a UPC-A and its EAN-13 share a key", () => {
+    assert.equal(gtinMatchKey("036000291452"), "00036000291452");
+    assert.equal(gtinMatchKey("0036000291452"), gtinMatchKey("036000291452"));
+    assert.equal(gtinMatchKey("10036000291459"), "10036000291459");
+  });
+});
+
+describe("invalidGtinMessage", () => {
+  it("quotes the trimmed input", () => {
+    assert.equal(invalidGtinMessage(" 123 "), '"123" isn\'t a valid UPC/EAN/GTIN barcode.');
+  });
+});
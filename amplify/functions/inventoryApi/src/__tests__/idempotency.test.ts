@@ -0,0 +1,122 @@
+// runIdempotent against an in-memory table that applies the claim condition:
+// replays of finished requests, repeats during a run, lapsed claims, and which
+// outcomes keep or release the key.
+
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { DeleteCommand, GetCommand, PutCommand, UpdateCommand } from "@aws-sdk/lib-dynamodb";
+import { runIdempotent } from "../idempotency.js";
+import { json } from "../http.js";
+import { adminAccess, conditionFailure, stubDdb } from "./fixtures.js";
+
+type Row = Record<string, unknown>;
+
+const TABLE = "idempotency";
+const REQUEST = { method: "POST", path: "/inventory/usage" };
+const access = adminAccess();
+
+describe("runIdempotent", () => {
+  let rows: Map<string, Row>;
+
+  beforeEach(() => {
+    rows = new Map();
+    stubDdb((command) => {
+      const input = command.input as {
+        Item?: Row;
+        Key?: { id: string };
+        ExpressionAttributeValues?: Record<string, unknown>;
+      };
+      if (command instanceof PutCommand) {
+        const item = input.Item as Row & { id: string };
+        const existing = rows.get(item.id);
+        const values = input.ExpressionAttributeValues ?? {};
+        const lapsed =
+          existing?.state === "pending" &&
+          existing.method === values[":method"] &&
+          existing.path === values[":path"] &&
+          String(existing.createdAt) < String(values[":leaseStart"]);
+        if (existing && !lapsed) throw conditionFailure();
+        rows.set(item.id, item);
+      }
+      if (command instanceof GetCommand) return { Item: rows.get(String(input.Key?.id)) };
+      if (command instanceof UpdateCommand) {
+        const row = rows.get(String(input.Key?.id));
+        if (row) Object.assign(row, { state: "done", response: input.ExpressionAttributeValues?.[":response"] });
+      }
+      if (command instanceof DeleteCommand) rows.delete(String(input.Key?.id));
+      return {};
+    });
+  });
+  afterEach(() => mock.restoreAll());
+
+  const run = (key: string, handler: () => Promise<ReturnType<typeof json>>, request = REQUEST) =>
+    runIdempotent(TABLE, access, key, request, handler);
+
+  it("runs once and replays the stored response for every repeat", async () => {
+    let calls = 0;
+    const handler = async () => json(200, { ok: true, call: ++calls });
+    const first = await run("k1", handler);
+    const second = await run("k1", handler);
+    assert.equal(calls, 1);
+    assert.deepEqual(second, first);
+  });
+
+  it("scopes keys to the caller", async () => {
+    let calls = 0;
+    const handler = async () => json(200, { call: ++calls });
+    await run("k1", handler);
+    await runIdempotent(TABLE, adminAccess({ userId: "user-2" }), "k1", REQUEST, handler);
+    assert.equal(calls, 2);
+  });
+
+  it("tells a repeat during the first run to retry", async () => {
+    let release!: () => void;
+    const first = run("k1", () => new Promise((resolve) => { release = () => resolve(json(200, { ok: true })); }));
+    await new Promise((resolve) => setImmediate(resolve));
+    const repeat = await run("k1", async () => json(200, { ok: "twice" }));
+    assert.equal(repeat.statusCode, 409);
+    assert.equal(JSON.parse(repeat.body).code, "IDEMPOTENCY_IN_PROGRESS");
+    release();
+    assert.equal((await first).statusCode, 200);
+  });
+
+  it("lets a repeat take over a claim whose lease has lapsed", async () => {
+    rows.set(`${access.userId}#k1`, {
+      id: `${access.userId}#k1`,
+      state: "pending",
+      ...REQUEST,
+      createdAt: new Date(Date.now() - 3 * 60 * 1000).toISOString(),
+    });
+    const res = await run("k1", async () => json(200, { ok: true }));
+    assert.equal(res.statusCode, 200);
+    assert.equal(rows.get(`${access.userId}#k1`)?.state, "done");
+  });
+
+  it("rejects a key reused for a different request", async () => {
+    await run("k1", async () => json(200, { ok: true }));
+    const res = await run("k1", async () => json(200, { ok: true }), { method: "POST", path: "/inventory/transfer" });
+    assert.equal(res.statusCode, 422);
+  });
+
+  it("releases the key after a 5xx, a 202 or a throw so the retry runs", async () => {
+    let calls = 0;
+    await run("k1", async () => { calls += 1; return json(503, { error: "busy" }); });
+    await run("k1", async () => { calls += 1; return json(202, { provisioning: true }); });
+    await assert.rejects(run("k1", async () => { calls += 1; throw new Error("boom"); }), /boom/);
+    const res = await run("k1", async () => { calls += 1; return json(200, { ok: true }); });
+    assert.equal(res.statusCode, 200);
+    assert.equal(calls, 4);
+  });
+
+  it("keeps 4xx answers, so a rejected request isn't retried into success", async () => {
+    await run("k1", async () => json(400, { error: "Nope" }));
+    const res = await run("k1", async () => json(200, { ok: true }));
+    assert.equal(res.statusCode, 400);
+  });
+
+  it("rejects an over-long key without touching the table", async () => {
+    const res = await run("k".repeat(201), async () => json(200, { ok: true }));
+    assert.equal(res.statusCode, 400);
+    assert.equal(rows.size, 0);
+  });
+});
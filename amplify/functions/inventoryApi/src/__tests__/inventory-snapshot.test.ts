@@ -0,0 +1,169 @@
+// replayInventoryAsOf: each replayed action rewound from the current rows,
+// newest event first, back to a fixed instant.
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { replayInventoryAsOf } from "../inventory-snapshot.js";
+import { inventoryItem as item } from "./fixtures.js";
+
+const AT = "2026-04-10T00:00:00.000Z";
+
+let eventCounter = 0;
+const event = (
+  day: number,
+  action: string,
+  itemId: string,
+  details: Record<string, unknown> = {},
+  extra: Record<string, unknown> = {},
+): Record<string, unknown> => ({
+  eventId: `evt-${++eventCounter}`,
+  timestamp: `2026-04-${String(day).padStart(2, "0")}T12:00:00.000Z`,
+  action,
+  itemId,
+  itemName: "Gauze",
+  detailsJson: JSON.stringify(details),
+  ...extra,
+});
+
+const valuesOf = (snapshot: ReturnType<typeof replayInventoryAsOf>) =>
+  Object.fromEntries(snapshot.items.map((i) => [i.id, JSON.parse(i.valuesJson) as Record<string, unknown>]));
+
+describe("replayInventoryAsOf", () => {
+  it("returns the current rows when nothing happened since", () => {
+    const snapshot = replayInventoryAsOf([item("a", { itemName: "Gauze", quantity: 4 })], [], AT);
+    assert.equal(snapshot.replayed, 0);
+    assert.deepEqual(valuesOf(snapshot), { a: { itemName: "Gauze", quantity: 4 } });
+    assert.equal(snapshot.items[0].updatedAtCustom, AT);
+  });
+
+  it("rewinds quantities to the oldest before-figure after the instant", () => {
+    const snapshot = replayInventoryAsOf(
+      [item("a", { quantity: 1 })],
+      [
+        event(15, "ITEM_QTY_ADJUST", "a", { qtyBefore: 7 }),
+        event(12, "ITEM_QTY_ADJUST", "a", { qtyBefore: 10 }),
+        event(5, "ITEM_QTY_ADJUST", "a", { qtyBefore: 99 }),
+      ],
+      AT,
+    );
+    assert.equal(snapshot.replayed, 2);
+    assert.equal(valuesOf(snapshot).a.quantity, 10);
+  });
+
+  it("skips events that a later correction amends", () => {
+    const original = event(12, "ITEM_QTY_ADJUST", "a", { qtyBefore: 10 });
+    const snapshot = replayInventoryAsOf(
+      [item("a", { quantity: 1 })],
+      [original, event(13, "ITEM_QTY_ADJUST", "a", { qtyBefore: 8 }, { amendsEventId: original.eventId })],
+      AT,
+    );
+    assert.equal(valuesOf(snapshot).a.quantity, 8);
+  });
+
+  it("drops rows created after the instant and revives rows deleted since", () => {
+    const snapshot = replayInventoryAsOf(
+      [item("new", { quantity: 3 })],
+      [
+        event(11, "ITEM_CREATE", "new"),
+        event(12, "ITEM_DELETE", "gone", { deletedValues: { itemName: "Tape", quantity: 6 }, locationId: "loc-b" }),
+      ],
+      AT,
+    );
+    assert.deepEqual(snapshot.items.map((i) => [i.id, i.locationId]), [["gone", "loc-b"]]);
+    assert.deepEqual(valuesOf(snapshot).gone, { itemName: "Tape", quantity: 6 });
+  });
+
+  it("leaves out rows whose own createdAt is after the instant", () => {
+    const snapshot = replayInventoryAsOf(
+      [item("a", { quantity: 1 }), item("imported", { quantity: 2 }, { createdAt: "2026-04-15T00:00:00.000Z" })],
+      [],
+      AT,
+    );
+    assert.deepEqual(snapshot.items.map((i) => i.id), ["a"]);
+  });
+
+  it("restores edited fields and the location a move left", () => {
+    const snapshot = replayInventoryAsOf(
+      [item("a", { itemName: "Gauze 4x4", vendor: "Acme", quantity: 2 }, { locationId: "loc-b" })],
+      [
+        event(12, "ITEM_EDIT", "a", {
+          changes: [
+            { field: "itemName", from: "Gauze", to: "Gauze 4x4" },
+            { field: "vendor", from: null, to: "Acme" },
+          ],
+        }),
+        event(13, "ITEM_MOVE", "a", { fromLocationId: "loc-a", toLocationId: "loc-b" }),
+      ],
+      AT,
+    );
+    assert.equal(snapshot.items[0].locationId, "loc-a");
+    assert.deepEqual(valuesOf(snapshot).a, { itemName: "Gauze", quantity: 2 });
+  });
+
+  it("undoes a split transfer by dropping the new row and refilling the source", () => {
+    const snapshot = replayInventoryAsOf(
+      [item("src", { quantity: 3 }), item("dest", { quantity: 2 }, { position: 2, locationId: "loc-b" })],
+      [event(12, "ITEM_TRANSFER", "src", { sourceQtyBefore: 5, toItemId: "dest", toLocationId: "loc-b" })],
+      AT,
+    );
+    assert.deepEqual(valuesOf(snapshot), { src: { quantity: 5 } });
+  });
+
+  it("brings back a retired row and hides one unretired since", () => {
+    const snapshot = replayInventoryAsOf(
+      [
+        item("retired", { quantity: 0, retiredAt: "2026-04-12T12:00:00.000Z", retiredQty: 4, retirementReason: "expired" }),
+        item("unretired", { quantity: 2 }, { position: 2 }),
+      ],
+      [
+        event(12, "ITEM_RETIRE", "retired", { qtyBefore: 4 }),
+        event(13, "ITEM_UNRETIRE", "unretired", { quantityBefore: 0 }),
+      ],
+      AT,
+    );
+    assert.deepEqual(valuesOf(snapshot), { retired: { quantity: 4 } });
+  });
+
+  it("refills each lot a FEFO usage drew from, reviving pruned lots", () => {
+    const snapshot = replayInventoryAsOf(
+      [item("lot-2", { quantity: 1, expirationDate: "2026-09-01" })],
+      [
+        event(12, "USAGE_APPROVE", "lot-2", {
+          locationId: "loc-a",
+          lots: [
+            { itemId: "lot-1", quantityBefore: 2, expirationDate: "2026-06-01", lotNumber: "L1" },
+            { itemId: "lot-2", quantityBefore: 4, expirationDate: "2026-09-01" },
+          ],
+        }),
+      ],
+      AT,
+    );
+    const values = valuesOf(snapshot);
+    assert.equal(values["lot-1"].quantity, 2);
+    assert.equal(values["lot-1"].lotNumber, "L1");
+    assert.equal(values["lot-2"].quantity, 4);
+    assert.deepEqual(snapshot.items.map((i) => i.id), ["lot-2", "lot-1"]);
+  });
+
+  it("takes a usage undo back off the restored quantity", () => {
+    const snapshot = replayInventoryAsOf(
+      [item("a", { quantity: 9 })],
+      [event(12, "USAGE_UNDO", "a", { quantityRestored: 3 })],
+      AT,
+    );
+    assert.equal(valuesOf(snapshot).a.quantity, 6);
+  });
+
+  it("counts CSV imports that updated rows in place without replaying them", () => {
+    const snapshot = replayInventoryAsOf(
+      [item("a", { quantity: 1 })],
+      [
+        event(12, "CSV_IMPORT", "", { rowsUpdated: 3 }),
+        event(13, "CSV_IMPORT", "", { rowsUpdated: 0, rowsCreated: 2 }),
+      ],
+      AT,
+    );
+    assert.equal(snapshot.importsWithUpdates, 1);
+    assert.equal(snapshot.replayed, 0);
+  });
+});
@@ -0,0 +1,128 @@
+// GET /inventory/items/query rules: reading the query string, checking its
+// columns, and the grid's search, tab, column-filter and sort behavior.
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { checkItemQueryColumns, itemQueryFingerprint, parseItemQuery, runItemQuery, type ItemQuery } from "../item-query.js";
+import { normalizeExpirationSettings } from "../alerts.js";
+import type { InventoryColumn, InventoryColumnType } from "../types.js";
+import { ORG_ID, daysFromToday, inventoryItem } from "./fixtures.js";
+
+const column = (key: string, type: InventoryColumnType, isGroupable = false): InventoryColumn => ({
+  id: `col-${key}`,
+  organizationId: ORG_ID,
+  module: "inventory",
+  key,
+  label: key,
+  type,
+  isCore: false,
+  isRequired: false,
+  isVisible: true,
+  isEditable: true,
+  isGroupable,
+  sortOrder: 0,
+  createdAt: "2026-01-01T00:00:00.000Z",
+});
+
+const COLUMNS = [column("itemName", "text"), column("quantity", "number"), column("category", "text", true), column("expirationDate", "date")];
+const CONTEXT = { columns: COLUMNS, expirationSettings: normalizeExpirationSettings(undefined) };
+
+const query = (fields: Partial<ItemQuery> = {}): ItemQuery => ({
+  search: "",
+  locationId: null,
+  tab: "all",
+  filters: {},
+  sort: null,
+  ...fields,
+});
+
+const row = (id: string, position: number, values: Record<string, unknown>) => inventoryItem(id, values, { position });
+
+const ids = (q: ItemQuery, items: ReturnType<typeof row>[]) => runItemQuery(items, q, CONTEXT).map((i) => i.id);
+
+describe("parseItemQuery", () => {
+  it("reads search, tab, filters and sort off the query string", () => {
+    assert.deepEqual(
+      parseItemQuery({ q: " Gauze ", locationId: "st1", tab: "lowStock", "filter.category": " Airway ", "filter.vendor": "", sort: "quantity", direction: "DESC" }),
+      query({ search: "gauze", locationId: "st1", tab: "lowStock", filters: { category: "Airway" }, sort: { key: "quantity", direction: "desc" } }),
+    );
+    assert.deepEqual(parseItemQuery({}), query());
+  });
+
+  it("rejects an unknown tab or direction", () => {
+    assert.equal(typeof parseItemQuery({ tab: "recent" }), "string");
+    assert.equal(typeof parseItemQuery({ sort: "quantity", direction: "up" }), "string");
+  });
+});
+
+describe("checkItemQueryColumns", () => {
+  it("accepts known sort columns and groupable filters only", () => {
+    assert.equal(checkItemQueryColumns(query({ sort: { key: "quantity", direction: "asc" }, filters: { category: "x" } }), COLUMNS), null);
+    assert.match(String(checkItemQueryColumns(query({ sort: { key: "nope", direction: "asc" } }), COLUMNS)), /Unknown sort column/);
+    assert.match(String(checkItemQueryColumns(query({ filters: { quantity: "3" } }), COLUMNS)), /can't be filtered/);
+  });
+});
+
+describe("itemQueryFingerprint", () => {
+  it("ignores filter order and changes with anything else", () => {
+    const a = query({ filters: { category: "x", vendor: "y" } });
+    const b = query({ filters: { vendor: "y", category: "x" } });
+    assert.equal(itemQueryFingerprint(a), itemQueryFingerprint(b));
+    assert.notEqual(itemQueryFingerprint(a), itemQueryFingerprint({ ...a, tab: "expired" }));
+  });
+});
+
+describe("runItemQuery", () => {
+  it("matches the search in the name, keeps grid order and leaves retired rows out", () => {
+    const items = [
+      row("b", 2, { itemName: "Gauze 4x4" }),
+      row("a", 1, { itemName: "Rolled gauze" }),
+      row("c", 3, { itemName: "Tape" }),
+      row("r", 0, { itemName: "Gauze", retiredAt: "2026-01-01T00:00:00.000Z" }),
+    ];
+    assert.deepEqual(ids(query({ search: "gauze" }), items), ["a", "b"]);
+  });
+
+  it("lets blank cells through a column filter, as the grid does", () => {
+    const items = [
+      row("airway", 1, { category: "Airway" }),
+      row("trauma", 2, { category: "Trauma" }),
+      row("blank", 3, {}),
+    ];
+    assert.deepEqual(ids(query({ filters: { category: "Airway" } }), items), ["airway", "blank"]);
+  });
+
+  it("lists one lot per low item, the lowest on hand first", () => {
+    const items = [
+      row("gauze-1", 1, { itemName: "Gauze", quantity: 3, minQuantity: 10 }),
+      row("gauze-2", 2, { itemName: "gauze", quantity: 1 }),
+      row("tape", 3, { itemName: "Tape", quantity: 2, minQuantity: 1 }),
+      row("saline", 4, { itemName: "Saline", quantity: 0, minQuantity: 5 }),
+    ];
+    // gauze-2 has no min of its own, so gauze-1 stands for Gauze.
+    assert.deepEqual(ids(query({ tab: "lowStock" }), items), ["saline", "gauze-1"]);
+  });
+
+  it("splits expired from expiring soon at today and sorts both by date", () => {
+    const items = [
+      row("soon", 1, { expirationDate: daysFromToday(20) }),
+      row("today", 2, { expirationDate: daysFromToday(0) }),
+      row("past", 3, { expirationDate: daysFromToday(-5) }),
+      row("later", 4, { expirationDate: daysFromToday(45) }),
+      row("sooner", 5, { expirationDate: daysFromToday(2) }),
+    ];
+    assert.deepEqual(ids(query({ tab: "expired" }), items), ["past", "today"]);
+    assert.deepEqual(ids(query({ tab: "exp30" }), items), ["sooner", "soon"]);
+    assert.deepEqual(ids(query({ tab: "exp60" }), items), ["sooner", "soon", "later"]);
+  });
+
+  it("sorts by a column with blanks last ascending and first descending", () => {
+    const items = [
+      row("ten", 1, { quantity: 10 }),
+      row("blank", 2, {}),
+      row("two", 3, { quantity: "2" }),
+    ];
+    assert.deepEqual(ids(query({ sort: { key: "quantity", direction: "asc" } }), items), ["two", "ten", "blank"]);
+    assert.deepEqual(ids(query({ sort: { key: "quantity", direction: "desc" } }), items), ["blank", "ten", "two"]);
+  });
+});
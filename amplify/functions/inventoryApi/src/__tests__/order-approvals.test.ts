@@ -0,0 +1,133 @@
+// Which orders need sign-off: order totals, rule matching, and the rule and
+// settings validation an admin save goes through.
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  DEFAULT_APPROVER_ROLES,
+  canApproveOrders,
+  matchApprovalRules,
+  normalizeApprovalRule,
+  normalizeApprovalSettings,
+  orderTotal,
+} from "../order-approvals.js";
+import type { OrderApprovalRule, RestockOrderItem } from "../types.js";
+import { STATION_LOCATIONS } from "./fixtures.js";
+
+const line = (fields: Partial<RestockOrderItem>): RestockOrderItem => ({
+  itemId: "a",
+  itemName: "Gauze",
+  qtyOrdered: 1,
+  qtyReceived: 0,
+  ...fields,
+});
+
+const rule = (fields: Partial<OrderApprovalRule>): OrderApprovalRule => ({ id: "r-1", name: "Rule", ...fields });
+
+const order = (fields: Partial<{ total: number; vendor: string; locationIds: string[] }> = {}) => ({
+  total: 100,
+  vendor: "Acme",
+  locationIds: ["station-a"],
+  ...fields,
+});
+
+describe("orderTotal", () => {
+  const ct = () => "ct";
+
+  it("uses a line's purchase price over its unit cost", () => {
+    assert.equal(orderTotal([line({ qtyOrdered: 3, purchasePrice: 20, unitCost: 100 })], ct), 20);
+  });
+
+  it("prices the rest by unit cost times quantity and rounds to cents", () => {
+    const total = orderTotal([
+      line({ qtyOrdered: 3, unitCost: 0.333 }),
+      line({ itemId: "b", qtyOrdered: 2, packCost: 10, packSize: 4 }),
+    ], ct);
+    assert.equal(total, 6);
+  });
+
+  it("adds nothing for unpriced lines or ones with no quantity", () => {
+    assert.equal(orderTotal([line({ qtyOrdered: 5 }), line({ qtyOrdered: 0, purchasePrice: 50 })], ct), 0);
+  });
+
+  it("scales a canonical price by the item's unit", () => {
+    const total = orderTotal([line({ qtyOrdered: 2, pricePerCanonical: 0.5, dimension: "weight" })], () => "lb");
+    assert.equal(total, 16);
+  });
+});
+
+describe("matchApprovalRules", () => {
+  it("matches a total rule at or above its threshold", () => {
+    const rules = [rule({ minTotal: 100 })];
+    assert.equal(matchApprovalRules(rules, order({ total: 100 }), STATION_LOCATIONS).length, 1);
+    assert.equal(matchApprovalRules(rules, order({ total: 99.99 }), STATION_LOCATIONS).length, 0);
+  });
+
+  it("matches a vendor regardless of case and surrounding space", () => {
+    const rules = [rule({ vendor: " acme " })];
+    assert.equal(matchApprovalRules(rules, order({ vendor: "ACME" }), STATION_LOCATIONS).length, 1);
+    assert.equal(matchApprovalRules(rules, order({ vendor: "Other" }), STATION_LOCATIONS).length, 0);
+  });
+
+  it("matches a location rule when any line lands in its subtree", () => {
+    const rules = [rule({ locationId: "station" })];
+    assert.equal(matchApprovalRules(rules, order({ locationIds: ["elsewhere", "station-a"] }), STATION_LOCATIONS).length, 1);
+    assert.equal(matchApprovalRules(rules, order({ locationIds: ["elsewhere"] }), STATION_LOCATIONS).length, 0);
+  });
+
+  it("requires every condition a rule sets", () => {
+    const rules = [rule({ minTotal: 50, vendor: "Acme", locationId: "station" })];
+    assert.equal(matchApprovalRules(rules, order(), STATION_LOCATIONS).length, 1);
+    assert.equal(matchApprovalRules(rules, order({ total: 10 }), STATION_LOCATIONS).length, 0);
+    assert.equal(matchApprovalRules(rules, order({ vendor: "Other" }), STATION_LOCATIONS).length, 0);
+  });
+
+  it("returns every matching rule in order", () => {
+    const rules = [rule({ id: "big", minTotal: 50 }), rule({ id: "other", vendor: "Other" }), rule({ id: "acme", vendor: "acme" })];
+    assert.deepEqual(matchApprovalRules(rules, order(), STATION_LOCATIONS).map((r) => r.id), ["big", "acme"]);
+  });
+});
+
+describe("normalizeApprovalRule", () => {
+  it("trims the rule and rounds the total to cents", () => {
+    assert.deepEqual(
+      normalizeApprovalRule({ name: " Large ", minTotal: "250.456", vendor: " Acme ", locationId: "" }, "r-1"),
+      { id: "r-1", name: "Large", minTotal: 250.46, vendor: "Acme" },
+    );
+  });
+
+  it("rejects a rule with no name, a bad total, or nothing to match on", () => {
+    assert.equal(typeof normalizeApprovalRule({ minTotal: 10 }, "r-1"), "string");
+    assert.equal(typeof normalizeApprovalRule({ name: "x", minTotal: -1 }, "r-1"), "string");
+    assert.equal(typeof normalizeApprovalRule({ name: "x", minTotal: "" }, "r-1"), "string");
+  });
+
+  it("accepts a zero total — every order matches", () => {
+    assert.deepEqual(normalizeApprovalRule({ name: "All", minTotal: 0 }, "r-1"), { id: "r-1", name: "All", minTotal: 0 });
+  });
+});
+
+describe("normalizeApprovalSettings", () => {
+  it("drops invalid rules and unknown roles, and dedupes roles", () => {
+    const settings = normalizeApprovalSettings({
+      rules: [{ id: "r-1", name: "Big", minTotal: 500 }, { id: "r-2", name: "" }, { name: "No id", vendor: "Acme" }],
+      approverRoles: ["admin", "ADMIN", "viewer", "Editor"],
+    });
+    assert.deepEqual(settings.rules.map((r) => r.id), ["r-1"]);
+    assert.deepEqual(settings.approverRoles, ["ADMIN", "EDITOR"]);
+  });
+
+  it("defaults the approver roles when none are stored", () => {
+    assert.deepEqual(normalizeApprovalSettings(undefined), { rules: [], approverRoles: DEFAULT_APPROVER_ROLES });
+  });
+});
+
+describe("canApproveOrders", () => {
+  const settings = { rules: [], approverRoles: ["OWNER", "EDITOR"] };
+
+  it("lets the account owner approve wherever owners can", () => {
+    assert.equal(canApproveOrders("account_owner", settings), true);
+    assert.equal(canApproveOrders("editor", settings), true);
+    assert.equal(canApproveOrders("ADMIN", settings), false);
+  });
+});
@@ -0,0 +1,196 @@
+// Lead times and reorder-point recommendations, then the accept handler
+// against an in-memory item table where other saves can land mid-accept.
+
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { GetCommand, QueryCommand, UpdateCommand } from "@aws-sdk/lib-dynamodb";
+import {
+  DEFAULT_LEAD_TIME_DAYS,
+  orderLeadTimes,
+  recommendReorderPoints,
+  type LeadTimeSample,
+  type ReorderItemSummary,
+} from "../reorder-points.js";
+import { handleAcceptReorderRecommendations } from "../routes/reorder-points.js";
+import type { ForecastSample } from "../forecast.js";
+import type { InventoryItem, InventoryStorage, RouteContext } from "../types.js";
+import { adminAccess, conditionFailure, inventoryItem as row, stubDdb } from "./fixtures.js";
+
+const NOW = new Date("2026-04-30T18:00:00.000Z");
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysAgo = (days: number): string => new Date(NOW.getTime() - days * DAY_MS).toISOString();
+
+const summary = (fields: Partial<ReorderItemSummary> = {}): ReorderItemSummary => ({
+  itemName: "Gauze",
+  locationId: "loc-a",
+  currentMin: 0,
+  currentPar: 0,
+  unitCost: null,
+  vendor: "Acme",
+  ...fields,
+});
+
+/** `qty` used every day of the last `days`. */
+const steadyUsage = (qty: number, days: number): ForecastSample[] =>
+  Array.from({ length: days }, (_, day) => ({ itemName: "Gauze", locationId: "loc-a", at: daysAgo(day), qty }));
+
+const lead = (days: number, fields: Partial<LeadTimeSample> = {}): LeadTimeSample => ({
+  itemName: "Gauze",
+  locationId: "loc-a",
+  vendor: "Acme",
+  days,
+  ...fields,
+});
+
+describe("orderLeadTimes", () => {
+  it("takes each line's first receive after the order was placed", () => {
+    const leads = orderLeadTimes("2026-04-01T00:00:00.000Z", [
+      { receivedAt: "2026-04-09T00:00:00.000Z", itemIds: ["a"] },
+      { receivedAt: "2026-04-04T00:00:00.000Z", itemIds: ["a", "b"] },
+      { receivedAt: "2026-03-30T00:00:00.000Z", itemIds: ["c"] },
+    ]);
+    assert.deepEqual([...leads], [["a", 3], ["b", 3]]);
+  });
+
+  it("returns nothing for an order without a readable createdAt", () => {
+    assert.equal(orderLeadTimes("", [{ receivedAt: "2026-04-04T00:00:00.000Z", itemIds: ["a"] }]).size, 0);
+  });
+});
+
+describe("recommendReorderPoints", () => {
+  it("sets the reorder point to usage over the lead time when both are steady", () => {
+    const [rec] = recommendReorderPoints([summary()], steadyUsage(2, 90), [lead(5), lead(5)], 90, NOW);
+    assert.equal(rec.dailyUsage, 2);
+    assert.equal(rec.leadTimeDays, 5);
+    assert.equal(rec.leadTimeSource, "item");
+    assert.equal(rec.safetyStock, 0);
+    assert.equal(rec.reorderPoint, 10);
+    assert.equal(rec.orderQuantity, null);
+    assert.equal(rec.recommendedPar, null);
+  });
+
+  it("adds safety stock when the lead time varies", () => {
+    const [rec] = recommendReorderPoints([summary()], steadyUsage(2, 90), [lead(3), lead(7)], 90, NOW);
+    assert.ok(rec.safetyStock > 0);
+    assert.equal(rec.reorderPoint, Math.ceil(10 + rec.safetyStock));
+  });
+
+  it("falls back from the item's lead time to the vendor's, the org's, then the default", () => {
+    const usage = steadyUsage(1, 90);
+    const vendorOnly = [lead(4, { itemName: "Tape" })];
+    const orgOnly = [lead(6, { itemName: "Tape", vendor: "Other" })];
+    assert.equal(recommendReorderPoints([summary()], usage, vendorOnly, 90, NOW)[0].leadTimeSource, "vendor");
+    assert.equal(recommendReorderPoints([summary()], usage, orgOnly, 90, NOW)[0].leadTimeSource, "org");
+    const [fallback] = recommendReorderPoints([summary()], usage, [], 90, NOW);
+    assert.equal(fallback.leadTimeSource, "default");
+    assert.equal(fallback.leadTimeDays, DEFAULT_LEAD_TIME_DAYS);
+  });
+
+  it("adds the economic order quantity to the par when the unit cost is known", () => {
+    const [rec] = recommendReorderPoints([summary({ unitCost: 1 })], steadyUsage(1, 90), [lead(5)], 90, NOW);
+    // √(2 × 365 × 25 ÷ (0.25 × 1)) ≈ 270.2
+    assert.equal(rec.orderQuantity, 271);
+    assert.equal(rec.recommendedPar, rec.reorderPoint + 271);
+  });
+
+  it("skips items with no usage in the window", () => {
+    const stale = [{ itemName: "Gauze", locationId: "loc-a", at: daysAgo(120), qty: 50 }];
+    assert.deepEqual(recommendReorderPoints([summary()], stale, [], 90, NOW), []);
+  });
+});
+
+describe("handleAcceptReorderRecommendations", () => {
+  const storage = { itemTable: "items", auditTable: "audit" } as InventoryStorage;
+  const access = adminAccess();
+
+  let rows: Map<string, InventoryItem>;
+  /** Runs just before the store applies an update to a row — a concurrent save. */
+  let beforeUpdate: (id: string, attempt: number) => void;
+  let updateAttempts: Map<string, number>;
+
+  const valuesOf = (id: string) => JSON.parse(rows.get(id)?.valuesJson ?? "{}") as Record<string, unknown>;
+
+  const accept = async (items: unknown[]) => {
+    const res = await handleAcceptReorderRecommendations({ access, storage, body: { items }, path: "", query: {} } as RouteContext);
+    return { status: res.statusCode, body: JSON.parse(String(res.body)) as Record<string, unknown> };
+  };
+
+  beforeEach(() => {
+    rows = new Map();
+    beforeUpdate = () => {};
+    updateAttempts = new Map();
+    type Input = { TableName?: string; Key?: { id: string }; ExpressionAttributeValues?: Record<string, string> };
+    stubDdb((command) => {
+      const input = command.input as Input;
+      if (input.TableName !== storage.itemTable) return { Items: [] };
+      if (command instanceof QueryCommand) return { Items: [...rows.values()].map((r) => ({ ...r })) };
+      if (command instanceof GetCommand) {
+        const found = rows.get(String(input.Key?.id));
+        return found ? { Item: { ...found } } : {};
+      }
+      if (command instanceof UpdateCommand) {
+        const id = String(input.Key?.id);
+        const attempt = (updateAttempts.get(id) ?? 0) + 1;
+        updateAttempts.set(id, attempt);
+        beforeUpdate(id, attempt);
+        const current = rows.get(id);
+        const vals = input.ExpressionAttributeValues ?? {};
+        if (!current || current.valuesJson !== vals[":prevValues"]) {
+          throw conditionFailure();
+        }
+        rows.set(id, { ...current, valuesJson: vals[":values"], updatedAtCustom: vals[":updatedAtCustom"] });
+      }
+      return {};
+    });
+  });
+  afterEach(() => mock.restoreAll());
+
+  it("writes the accepted min and par onto every lot of the item at that location", async () => {
+    rows.set("lot-1", row("lot-1", { itemName: "Gauze", minQuantity: 2 }));
+    rows.set("lot-2", row("lot-2", { itemName: "gauze", minQuantity: 5, parQuantity: 12 }));
+    rows.set("other", row("other", { itemName: "Tape", minQuantity: 1 }));
+    const res = await accept([{ itemName: "Gauze", locationId: "loc-a", minQuantity: 5, parQuantity: 12 }]);
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body, { ok: true, updatedCount: 1, busyCount: 0 });
+    assert.deepEqual(valuesOf("lot-1"), { itemName: "Gauze", minQuantity: 5, parQuantity: 12 });
+    assert.equal(valuesOf("other").minQuantity, 1);
+  });
+
+  it("re-reads a row saved mid-accept and keeps the other save's changes", async () => {
+    rows.set("lot-1", row("lot-1", { itemName: "Gauze", quantity: 10, minQuantity: 2 }));
+    beforeUpdate = (id, attempt) => {
+      if (attempt !== 1) return;
+      const current = rows.get(id) as InventoryItem;
+      rows.set(id, { ...current, valuesJson: JSON.stringify({ ...JSON.parse(current.valuesJson), quantity: 7 }) });
+    };
+    const res = await accept([{ itemName: "Gauze", locationId: "loc-a", minQuantity: 4 }]);
+    assert.deepEqual(res.body, { ok: true, updatedCount: 1, busyCount: 0 });
+    assert.deepEqual(valuesOf("lot-1"), { itemName: "Gauze", quantity: 7, minQuantity: 4 });
+  });
+
+  it("leaves a row that already took the values in between alone", async () => {
+    rows.set("lot-1", row("lot-1", { itemName: "Gauze", minQuantity: 2 }));
+    beforeUpdate = (id, attempt) => {
+      if (attempt === 1) rows.set(id, row(id, { itemName: "Gauze", minQuantity: 4 }));
+    };
+    const res = await accept([{ itemName: "Gauze", locationId: "loc-a", minQuantity: 4 }]);
+    assert.deepEqual(res.body, { ok: true, updatedCount: 0, busyCount: 0 });
+    assert.equal(updateAttempts.get("lot-1"), 1);
+  });
+
+  it("reports a row that keeps changing as busy instead of overwriting it", async () => {
+    rows.set("lot-1", row("lot-1", { itemName: "Gauze", quantity: 10, minQuantity: 2 }));
+    beforeUpdate = (id, attempt) => {
+      rows.set(id, row(id, { itemName: "Gauze", quantity: 10 - attempt, minQuantity: 2 }));
+    };
+    const res = await accept([{ itemName: "Gauze", locationId: "loc-a", minQuantity: 4 }]);
+    assert.deepEqual(res.body, { ok: true, updatedCount: 0, busyCount: 1 });
+    assert.equal(valuesOf("lot-1").minQuantity, 2);
+  });
+
+  it("rejects a par below the min", async () => {
+    const res = await accept([{ itemName: "Gauze", locationId: "loc-a", minQuantity: 5, parQuantity: 3 }]);
+    assert.equal(res.status, 400);
+  });
+});
@@ -0,0 +1,105 @@
+// applyUsageEntries for item-level (FEFO) entries: which lots are drawn and in
+// what order, the per-lot breakdown it records, and emptied-lot cleanup.
+// Expiration dates sit far either side of today, since expiry reads the clock.
+
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { DeleteCommand, QueryCommand, UpdateCommand } from "@aws-sdk/lib-dynamodb";
+import { applyUsageEntries } from "../routes/usage.js";
+import type { InventoryItem, InventoryStorage, PendingEntry } from "../types.js";
+import { adminAccess, inventoryItem, stubDdb } from "./fixtures.js";
+
+const storage = { itemTable: "items", columnTable: "columns" } as InventoryStorage;
+
+const lot = (id: string, quantity: number, expirationDate: string | null, fields: Partial<InventoryItem> = {}) =>
+  inventoryItem(id, { itemName: "Saline", quantity, ...(expirationDate ? { expirationDate } : {}) }, fields);
+
+const entry = (itemId: string, quantityUsed: number): PendingEntry => ({ itemId, itemName: "Saline", quantityUsed, fefo: true });
+
+describe("applyUsageEntries (FEFO)", () => {
+  let rows: InventoryItem[];
+  let written: Map<string, number>;
+  let deleted: string[];
+
+  beforeEach(() => {
+    rows = [];
+    written = new Map();
+    deleted = [];
+    stubDdb((command) => {
+      const input = command.input as { TableName?: string; Key?: { id: string }; ExpressionAttributeValues?: Record<string, string> };
+      if (command instanceof QueryCommand) return { Items: input.TableName === storage.itemTable ? rows : [] };
+      if (command instanceof UpdateCommand) {
+        const values = JSON.parse(String(input.ExpressionAttributeValues?.[":values"])) as { quantity: number };
+        written.set(String(input.Key?.id), values.quantity);
+      }
+      if (command instanceof DeleteCommand) deleted.push(String(input.Key?.id));
+      return {};
+    });
+  });
+  afterEach(() => mock.restoreAll());
+
+  it("draws the earliest-expiring lot first and undated lots last", async () => {
+    rows = [
+      lot("undated", 10, null),
+      lot("late", 3, "2099-06-01"),
+      lot("early", 2, "2099-01-01"),
+    ];
+    const { error, appliedDetails } = await applyUsageEntries(storage, adminAccess(), [entry("undated", 6)]);
+    assert.equal(error, undefined);
+    assert.deepEqual([...written], [["early", 0], ["late", 0], ["undated", 9]]);
+    const [detail] = appliedDetails ?? [];
+    assert.equal(detail.itemId, "early");
+    assert.deepEqual(detail.lots?.map((d) => [d.itemId, d.quantityUsed, d.quantityBefore, d.quantityAfter]), [
+      ["early", 2, 2, 0],
+      ["late", 3, 3, 0],
+      ["undated", 1, 10, 9],
+    ]);
+    assert.equal(detail.quantityBefore, 15);
+    assert.equal(detail.quantityAfter, 9);
+  });
+
+  it("groups lots by name case-insensitively at the anchor's location only", async () => {
+    rows = [
+      lot("a", 1, "2099-01-01"),
+      inventoryItem("b", { itemName: " saline ", quantity: 1, expirationDate: "2099-02-01" }),
+      lot("elsewhere", 5, "2098-01-01", { locationId: "loc-b" }),
+      inventoryItem("other", { itemName: "Gauze", quantity: 5, expirationDate: "2098-01-01" }),
+    ];
+    await applyUsageEntries(storage, adminAccess(), [entry("a", 2)]);
+    assert.deepEqual([...written.keys()], ["a", "b"]);
+  });
+
+  it("skips expired, retired and empty lots, breaking date ties by the oldest row", async () => {
+    rows = [
+      lot("expired", 5, "2020-01-01"),
+      inventoryItem("retired", { itemName: "Saline", quantity: 4, expirationDate: "2098-01-01", retiredAt: "2026-01-05T00:00:00.000Z" }),
+      lot("empty", 0, "2098-01-01"),
+      lot("newer", 4, "2099-01-01", { createdAt: "2026-03-01T00:00:00.000Z" }),
+      lot("older", 4, "2099-01-01", { createdAt: "2026-02-01T00:00:00.000Z" }),
+    ];
+    await applyUsageEntries(storage, adminAccess(), [entry("expired", 5)]);
+    assert.deepEqual([...written], [["older", 0], ["newer", 3]]);
+  });
+
+  it("rejects more than the unexpired stock and writes nothing", async () => {
+    rows = [lot("expired", 50, "2020-01-01"), lot("good", 3, "2099-01-01")];
+    const { error } = await applyUsageEntries(storage, adminAccess(), [entry("good", 4)]);
+    assert.match(String(error), /exceeds unexpired quantity on hand \(3\)/);
+    assert.equal(written.size, 0);
+  });
+
+  it("counts earlier lines in the batch against the same lots", async () => {
+    rows = [lot("a", 2, "2099-01-01"), lot("b", 2, "2099-02-01")];
+    const { error } = await applyUsageEntries(storage, adminAccess(), [
+      { itemId: "a", itemName: "Saline", quantityUsed: 1 },
+      entry("b", 4),
+    ]);
+    assert.match(String(error), /Entry 2 .*\(3\)/);
+  });
+
+  it("deletes lots it emptied while the item still has stock", async () => {
+    rows = [lot("early", 2, "2099-01-01"), lot("late", 5, "2099-06-01")];
+    await applyUsageEntries(storage, adminAccess(), [entry("late", 3)]);
+    assert.deepEqual(deleted, ["early"]);
+  });
+});
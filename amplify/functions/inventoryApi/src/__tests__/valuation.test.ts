@@ -0,0 +1,187 @@
+// Stock valuation under each method (FIFO, average, vendor), cost sharing
+// across lots, and the order-line price fallbacks receipts lean on.
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { orderLineUnitCost, valueInventory, type ValuationReceipt } from "../valuation.js";
+import type { InventoryItemVendorPricing, RestockOrderItem } from "../types.js";
+import { ORG_ID, inventoryItem as item } from "./fixtures.js";
+
+const receipt = (parentItemId: string, day: number, qty: number, unitCost: number | null): ValuationReceipt => ({
+  parentItemId,
+  receivedAt: `2026-03-${String(day).padStart(2, "0")}T00:00:00.000Z`,
+  qty,
+  unitCost,
+});
+
+const pricing = (itemId: string, fields: Partial<InventoryItemVendorPricing>, lastUpdatedAt: string): InventoryItemVendorPricing => ({
+  id: `${itemId}#acme`,
+  orgId: ORG_ID,
+  module: "inventory",
+  itemId,
+  vendor: "Acme",
+  vendorLower: "acme",
+  lastUpdatedAt,
+  lastUpdatedByUserId: "user-1",
+  ...fields,
+});
+
+const line = (fields: Partial<RestockOrderItem>): RestockOrderItem => ({
+  itemId: "a",
+  itemName: "Gauze",
+  qtyOrdered: 10,
+  qtyReceived: 10,
+  ...fields,
+});
+
+describe("valueInventory", () => {
+  it("values FIFO from the newest receipt back, the rest at the row's cost", () => {
+    const valuation = valueInventory(
+      [item("a", { itemName: "Gauze", quantity: 15, unitCost: 1 })],
+      [receipt("a", 1, 10, 2), receipt("a", 5, 10, 3)],
+      [],
+      "fifo",
+      "category",
+    );
+    // 10 from the newest receipt at $3, then 5 from the older one at $2.
+    assert.equal(valuation.totalValue, 40);
+    assert.equal(valuation.rows[0].costSource, "receipts");
+
+    const beyondReceipts = valueInventory(
+      [item("a", { itemName: "Gauze", quantity: 12, unitCost: 1 })],
+      [receipt("a", 5, 10, 3)],
+      [],
+      "fifo",
+      "category",
+    );
+    assert.equal(beyondReceipts.totalValue, 32);
+  });
+
+  it("ignores unpriced receipts for FIFO and falls back to the row's cost", () => {
+    const valuation = valueInventory(
+      [item("a", { quantity: 4, packCost: 20, packSize: 10 })],
+      [receipt("a", 5, 10, null)],
+      [],
+      "fifo",
+      "category",
+    );
+    assert.equal(valuation.rows[0].unitCost, 2);
+    assert.equal(valuation.rows[0].costSource, "item");
+  });
+
+  it("uses the weighted average of priced receipts", () => {
+    const valuation = valueInventory(
+      [item("a", { quantity: 2 })],
+      [receipt("a", 1, 1, 1), receipt("a", 2, 3, 5), receipt("a", 3, 6, null)],
+      [],
+      "average",
+      "category",
+    );
+    assert.equal(valuation.rows[0].unitCost, 4);
+    assert.equal(valuation.totalValue, 8);
+  });
+
+  it("takes the most recently updated vendor price across an item's lots", () => {
+    const valuation = valueInventory(
+      [
+        item("a", { quantity: 1 }),
+        item("a-lot", { quantity: 1, parentItemId: "a" }),
+      ],
+      [],
+      [
+        pricing("a", { unitCost: 9 }, "2026-01-01T00:00:00.000Z"),
+        pricing("a-lot", { packCost: 12, packCount: 4 }, "2026-02-01T00:00:00.000Z"),
+      ],
+      "vendor",
+      "category",
+    );
+    assert.deepEqual(valuation.rows.map((r) => [r.itemId, r.unitCost, r.costSource]), [
+      ["a", 3, "vendor"],
+      ["a-lot", 3, "vendor"],
+    ]);
+  });
+
+  it("shares one FIFO cost across lots and reports each at its own location", () => {
+    const valuation = valueInventory(
+      [
+        item("a", { itemName: "Gauze", quantity: 5 }),
+        item("a-lot", { itemName: "Gauze", quantity: 5, parentItemId: "a" }, { locationId: "loc-b" }),
+      ],
+      [receipt("a", 1, 5, 1), receipt("a", 2, 5, 3)],
+      [],
+      "fifo",
+      "category",
+    );
+    assert.deepEqual(valuation.rows.map((r) => r.unitCost), [2, 2]);
+    assert.deepEqual(valuation.byLocation.map((b) => [b.key, b.value]), [["loc-a", 10], ["loc-b", 10]]);
+  });
+
+  it("limits the reported rows to the given locations without changing costs", () => {
+    const valuation = valueInventory(
+      [
+        item("a", { quantity: 5 }),
+        item("a-lot", { quantity: 5, parentItemId: "a" }, { locationId: "loc-b" }),
+      ],
+      [receipt("a", 1, 5, 1), receipt("a", 2, 5, 3)],
+      [],
+      "fifo",
+      "category",
+      new Set(["loc-b"]),
+    );
+    assert.deepEqual(valuation.rows.map((r) => [r.itemId, r.value]), [["a-lot", 10]]);
+    assert.equal(valuation.totalValue, 10);
+  });
+
+  it("skips retired and empty rows and counts unpriced units separately", () => {
+    const valuation = valueInventory(
+      [
+        item("retired", { quantity: 3, unitCost: 1, retiredAt: "2026-02-01T00:00:00.000Z" }),
+        item("empty", { quantity: 0, unitCost: 1 }),
+        item("unpriced", { quantity: 7 }),
+        item("priced", { quantity: 2, unitCost: 5 }),
+      ],
+      [],
+      [],
+      "average",
+      "category",
+    );
+    assert.deepEqual(valuation.rows.map((r) => r.itemId), ["priced", "unpriced"]);
+    assert.equal(valuation.totalQuantity, 9);
+    assert.equal(valuation.unvaluedQuantity, 7);
+    assert.equal(valuation.totalValue, 10);
+  });
+
+  it("groups totals by the chosen column, blank values under an empty key", () => {
+    const valuation = valueInventory(
+      [
+        item("a", { quantity: 1, unitCost: 4, category: "Airway" }),
+        item("b", { quantity: 1, unitCost: 1, category: "Airway" }),
+        item("c", { quantity: 1, unitCost: 2 }),
+      ],
+      [],
+      [],
+      "average",
+      "category",
+    );
+    assert.deepEqual(valuation.byGroup, [
+      { key: "Airway", quantity: 2, value: 5, rows: 2 },
+      { key: "", quantity: 1, value: 2, rows: 1 },
+    ]);
+  });
+});
+
+describe("orderLineUnitCost", () => {
+  it("prefers the line's own unit cost", () => {
+    assert.equal(orderLineUnitCost(line({ unitCost: 2.5, packCost: 100, packSize: 10 }), "ct"), 2.5);
+  });
+
+  it("scales a canonical price to one item unit of the same dimension", () => {
+    assert.equal(orderLineUnitCost(line({ pricePerCanonical: 0.5, dimension: "weight" }), "lb"), 8);
+    assert.equal(orderLineUnitCost(line({ pricePerCanonical: 0.5, dimension: "weight" }), "ct"), null);
+  });
+
+  it("falls back to the pack price over the pack size", () => {
+    assert.equal(orderLineUnitCost(line({ packCost: 30, packSize: 12 }), "ct"), 2.5);
+    assert.equal(orderLineUnitCost(line({ packCost: 30 }), "ct"), null);
+  });
+});
@@ -0,0 +1,61 @@
+// Webhook signatures as receivers verify them (docs/PUBLIC_API.md), and the
+// address filter that keeps deliveries off private and reserved networks.
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createHmac } from "node:crypto";
+import { isPrivateHost, signWebhookPayload } from "../webhooks.js";
+
+describe("signWebhookPayload", () => {
+  const SECRET = "whsec_test";
+  const BODY = '{"type":"ITEM_UPDATED"}';
+
+  it("signs '<t>.<body>' with HMAC-SHA256 and carries the timestamp", () => {
+    const expected = createHmac("sha256", SECRET).update(`1700000000.${BODY}`).digest("hex");
+    assert.equal(signWebhookPayload(SECRET, 1700000000, BODY), `t=1700000000,v1=${expected}`);
+  });
+
+  it("binds the timestamp, so a replay with a fresh one doesn't verify", () => {
+    const mac = (header: string) => header.split(",v1=")[1];
+    assert.notEqual(mac(signWebhookPayload(SECRET, 1700000000, BODY)), mac(signWebhookPayload(SECRET, 1700000300, BODY)));
+    assert.notEqual(mac(signWebhookPayload(SECRET, 1700000000, BODY)), mac(signWebhookPayload("whsec_other", 1700000000, BODY)));
+  });
+});
+
+describe("isPrivateHost", () => {
+  it("blocks private, loopback, link-local and carrier-grade NAT IPv4", () => {
+    for (const address of ["10.1.2.3", "127.0.0.1", "169.254.169.254", "172.16.0.1", "172.31.255.255", "192.168.1.1", "100.64.0.1", "100.127.255.255"]) {
+      assert.equal(isPrivateHost(address), true, address);
+    }
+  });
+
+  it("blocks unspecified, benchmarking, documentation, multicast and reserved IPv4", () => {
+    for (const address of ["0.0.0.0", "0.1.2.3", "198.18.0.1", "198.19.255.255", "192.0.2.1", "203.0.113.9", "224.0.0.1", "239.255.255.255", "240.0.0.1", "255.255.255.255"]) {
+      assert.equal(isPrivateHost(address), true, address);
+    }
+  });
+
+  it("blocks IPv6 loopback, unique-local, link-local and multicast", () => {
+    for (const address of ["::1", "::", "fc00::1", "fd12:3456::1", "fe80::1", "fe80::1%eth0", "ff02::1", "[::1]"]) {
+      assert.equal(isPrivateHost(address), true, address);
+    }
+  });
+
+  it("blocks private IPv4 wrapped in IPv6, mapped or translated", () => {
+    for (const address of ["::ffff:127.0.0.1", "::ffff:7f00:1", "::ffff:10.0.0.1", "::ffff:169.254.169.254", "64:ff9b::a00:1", "2002:a00:1::1"]) {
+      assert.equal(isPrivateHost(address), true, address);
+    }
+  });
+
+  it("blocks internal-looking names", () => {
+    for (const host of ["localhost", "api.localhost", "db.internal", "printer.local"]) {
+      assert.equal(isPrivateHost(host), true, host);
+    }
+  });
+
+  it("allows public addresses and ordinary names", () => {
+    for (const host of ["8.8.8.8", "100.63.255.255", "100.128.0.1", "172.32.0.1", "198.20.0.1", "::ffff:8.8.8.8", "2606:4700::1111", "hooks.example.com"]) {
+      assert.equal(isPrivateHost(host), false, host);
+    }
+  });
+});
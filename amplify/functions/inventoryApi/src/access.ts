@@ -1,10 +1,14 @@
 // ── Shared: access.ts ───────────────────────────────────────────────────────
 // Authentication / authorization context builder.
 
+import { createHash } from "node:crypto";
 import { GetCommand, UpdateCommand } from "@aws-sdk/lib-dynamodb";
 import { ddb } from "./clients";
 import {
   USER_TABLE,
+  API_KEY_TABLE,
+  API_KEY_HEADER,
+  API_KEY_SECRET_PREFIX,
   ORG_TABLE,
   SUPPORT_GRANT_TABLE,
   PLATFORM_SUPPORT_GROUP,
@@ -133,6 +137,70 @@ const buildBareOperatorContext = (operator: {
   platformSupportGroupMember: true,
 });
 
+/** Storage key for an API key: the SHA-256 of its secret. Secrets are 256-bit
+ *  random, so an unsalted hash is enough and keeps lookup a single GetItem. */
+export const hashApiKey = (secret: string): string =>
+  createHash("sha256").update(secret).digest("hex");
+
+/** Pull an API key secret off the request: the dedicated header first, then an
+ *  `Authorization: Bearer wk_…` header. Empty when neither carries one. */
+const readApiKeySecret = (event: { headers?: Record<string, string | undefined> }): string => {
+  const headers = event?.headers ?? {};
+  let bearer = "";
+  for (const key of Object.keys(headers)) {
+    const lower = key.toLowerCase();
+    const value = String(headers[key] ?? "").trim();
+    if (lower === API_KEY_HEADER && value) return value;
+    if (lower === "authorization") bearer = value.replace(/^Bearer\s+/i, "");
+  }
+  return bearer.startsWith(API_KEY_SECRET_PREFIX) ? bearer : "";
+};
+
+/** Context for a /v1 request authenticated by an org API key. The key's role
+ *  and module scope stand in for a user's; module scope is intersected with
+ *  what the org currently has enabled, so disabling a module also cuts off
+ *  every key that had it. Throws "Unauthorized" for a missing, unknown, or
+ *  revoked key. */
+export const getApiKeyAccessContext = async (
+  event: { headers?: Record<string, string | undefined> },
+): Promise<AccessContext> => {
+  const secret = readApiKeySecret(event);
+  if (!secret || !API_KEY_TABLE) throw new Error("Unauthorized");
+
+  const keyRes = await ddb.send(
+    new GetCommand({ TableName: API_KEY_TABLE, Key: { id: hashApiKey(secret) } }),
+  );
+  const key = keyRes.Item;
+  if (!key || String(key.status ?? "") !== "active") throw new Error("Unauthorized");
+
+  const organizationId = normalizeOrgId(key.organizationId);
+  if (!organizationId) throw new Error("Unauthorized");
+  const orgRes = await ddb.send(
+    new GetCommand({ TableName: ORG_TABLE, Key: { id: organizationId } }),
+  );
+  const org = orgRes.Item;
+  const orgAvailable = getAvailableModulesForPlan(String(org?.plan ?? ""));
+  const orgEnabledModules = normalizeModuleSubset(org?.enabledModules, orgAvailable);
+  const role = normalizeRole(key.role);
+  const prefix = String(key.prefix ?? "");
+  const name = String(key.name ?? "").trim() || prefix;
+
+  return {
+    userId: `apikey:${prefix}`,
+    email: "",
+    displayName: `API key: ${name}`,
+    organizationId,
+    role,
+    orgEnabledModules,
+    allowedModules: normalizeModuleSubset(key.modules, orgEnabledModules),
+    canEditInventory: EDIT_ROLES.has(role),
+    canManageColumns: COLUMN_ADMIN_ROLES.has(role),
+    columnVisibilityOverrides: {},
+    isMachineAccess: true,
+    apiKey: { id: String(key.id), name, prefix },
+  };
+};
+
 export const getAccessContext = async (event: any): Promise<AccessContext> => {
   const claims =
     event.requestContext?.authorizer?.jwt?.claims ??
@@ -0,0 +1,251 @@
+// ── Shared: alerts.ts ───────────────────────────────────────────────────────
+// Expired / expiring-soon / low-stock aggregation. Pure over (items,
+// locations) so the dashboard's alert summary and the scheduled email digest
+// (functions/alertDigest) count exactly the same things.
+
+import { getDaysUntilExpiration } from "./csv";
+import { ALERT_DIGEST_CADENCES } from "./types";
+import type {
+  AlertDigestCadence,
+  AlertDigestSubscription,
+  ExpirationSettings,
+  ExpirationWarningRule,
+  InventoryItem,
+  InventoryLocation,
+} from "./types";
+
+/** Org default when nothing is configured: lots expiring within this many
+ *  days count as "expiring soon". */
+export const DEFAULT_EXPIRATION_WARNING_DAYS = 30;
+/** Upper bound on any warning window — five years covers hydrostatic-test
+ *  style intervals without letting a typo flag the whole inventory. */
+export const MAX_EXPIRATION_WARNING_DAYS = 1825;
+
+/** Coerce a warning-days value (number or numeric string). Null when blank,
+ *  non-numeric, or out of range — callers fall through to the next tier. */
+export const parseWarningDays = (raw: unknown): number | null => {
+  if (raw === null || raw === undefined || raw === "") return null;
+  const n = Number(raw);
+  if (!Number.isFinite(n)) return null;
+  const days = Math.floor(n);
+  return days >= 1 && days <= MAX_EXPIRATION_WARNING_DAYS ? days : null;
+};
+
+/** Coerce the stored meta row (or a client body) into valid settings. Rules
+ *  with a blank column/value or invalid days are dropped. */
+export const normalizeExpirationSettings = (raw: unknown): ExpirationSettings => {
+  const value = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const itemColumnKey = String(value.itemColumnKey ?? "").trim();
+  const rules: ExpirationWarningRule[] = [];
+  if (Array.isArray(value.rules)) {
+    for (const r of value.rules as Array<Record<string, unknown>>) {
+      const columnKey = String(r?.columnKey ?? "").trim();
+      const ruleValue = String(r?.value ?? "").trim();
+      const warningDays = parseWarningDays(r?.warningDays);
+      if (!columnKey || !ruleValue || warningDays === null) continue;
+      rules.push({ columnKey, value: ruleValue, warningDays });
+    }
+  }
+  return {
+    defaultWarningDays: parseWarningDays(value.defaultWarningDays) ?? DEFAULT_EXPIRATION_WARNING_DAYS,
+    ...(itemColumnKey ? { itemColumnKey } : {}),
+    rules,
+  };
+};
+
+/** The "expiring soon" window for one lot. Keep in sync with the frontend's
+ *  resolveExpirationWarningDays in src/lib/expiration.ts. */
+export const resolveExpirationWarningDays = (
+  values: Record<string, unknown>,
+  settings: ExpirationSettings,
+): number => {
+  if (settings.itemColumnKey) {
+    const own = parseWarningDays(values[settings.itemColumnKey]);
+    if (own !== null) return own;
+  }
+  for (const rule of settings.rules) {
+    const cell = String(values[rule.columnKey] ?? "").trim().toLowerCase();
+    if (cell && cell === rule.value.toLowerCase()) return rule.warningDays;
+  }
+  return settings.defaultWarningDays;
+};
+
+export type AlertCounts = {
+  expiredCount: number;
+  expiringSoonCount: number;
+  lowStockCount: number;
+};
+
+export type LocationAlertCounts = AlertCounts & {
+  locationId: string;
+  /** Location name (display fallback). Not unique across parents. */
+  location: string;
+};
+
+/** One expired or expiring-soon lot. Per-lot, since each lot has its own date. */
+export type ExpirationAlertItem = {
+  itemId: string;
+  itemName: string;
+  locationId: string;
+  quantity: number;
+  expirationDate: string;
+  daysUntil: number;
+};
+
+/** One low item-group: every non-retired lot of a name at one location. */
+export type LowStockAlertItem = {
+  itemName: string;
+  locationId: string;
+  totalQty: number;
+  minQuantity: number;
+};
+
+export type InventoryAlertSummary = AlertCounts & {
+  byLocation: LocationAlertCounts[];
+  expired: ExpirationAlertItem[];
+  expiringSoon: ExpirationAlertItem[];
+  lowStock: LowStockAlertItem[];
+};
+
+const emptyCounts = (): AlertCounts => ({ expiredCount: 0, expiringSoonCount: 0, lowStockCount: 0 });
+
+export const summarizeInventoryAlerts = (
+  items: InventoryItem[],
+  locations: InventoryLocation[],
+  expirationSettings: ExpirationSettings = normalizeExpirationSettings(undefined),
+): InventoryAlertSummary => {
+  const totals = emptyCounts();
+  const expired: ExpirationAlertItem[] = [];
+  const expiringSoon: ExpirationAlertItem[] = [];
+
+  // Keyed by locationId, NOT name — location names are only unique within a
+  // parent, so two primaries can each have an "EMS Cabinet". Keying by name
+  // would silently merge their counts.
+  const locationNameById = new Map(locations.map((l) => [l.id, l.name]));
+  const byLocationMap = new Map<string, AlertCounts>();
+
+  // Low stock is item-level, not per-lot: a single zeroed lot doesn't mean the
+  // item needs reordering if its other lots cover the minimum. Aggregate lots
+  // by (location, lowercased itemName) — SUM quantity, MAX minQuantity — and
+  // flag the group low only when the total is below threshold. Mirrors the
+  // frontend (useInventoryFilters.ts) and the Reorder/Shop rule. Quantity-only
+  // counts (expired/expiring) stay per-lot since each lot has its own date.
+  const lowAgg = new Map<string, { itemName: string; locationId: string; totalQty: number; maxMin: number }>();
+
+  for (const item of items) {
+    let values: Record<string, unknown> = {};
+    try {
+      values = JSON.parse(item.valuesJson ?? "{}") ?? {};
+    } catch {
+      continue;
+    }
+
+    // Retired lots are handled stock (qty zeroed, kept for loss history) — they
+    // don't count toward expired/expiring/low. Matches the frontend, which
+    // hides retired rows from every grid count.
+    if (values.retiredAt) continue;
+    // NOTE: already-ordered lots are NOT skipped — a pending order hasn't
+    // arrived, so the item is still physically low and stays in this count
+    // (mirrors the Low Stock tab). Only the Reorder list hides ordered items.
+
+    const locationId = String(item.locationId ?? "").trim();
+    if (!byLocationMap.has(locationId)) byLocationMap.set(locationId, emptyCounts());
+    const locCounts = byLocationMap.get(locationId)!;
+    const itemName = String(values.itemName ?? "").trim();
+    const quantity = Number(values.quantity);
+
+    const expirationDate = String(values.expirationDate ?? "").trim();
+    const daysUntil = getDaysUntilExpiration(expirationDate);
+    if (daysUntil !== null) {
+      const lot: ExpirationAlertItem = {
+        itemId: item.id,
+        itemName,
+        locationId,
+        quantity: Number.isFinite(quantity) ? quantity : 0,
+        expirationDate,
+        daysUntil,
+      };
+      // Today (daysUntil === 0) counts as expired: by end-of-day the item is past.
+      if (daysUntil <= 0) {
+        totals.expiredCount += 1;
+        locCounts.expiredCount += 1;
+        expired.push(lot);
+      } else if (daysUntil <= resolveExpirationWarningDays(values, expirationSettings)) {
+        totals.expiringSoonCount += 1;
+        locCounts.expiringSoonCount += 1;
+        expiringSoon.push(lot);
+      }
+    }
+
+    const name = itemName.toLowerCase();
+    // Blank-name items can't be grouped — key by id so each stands alone.
+    const aggKey = name ? `${locationId}::${name}` : `id:${item.id}`;
+    const minQuantity = Number(values.minQuantity);
+    const entry = lowAgg.get(aggKey) ?? { itemName, locationId, totalQty: 0, maxMin: 0 };
+    // Expired-but-not-retired stock still counts toward on-hand (matches the
+    // frontend + Shop list) — retiring an expired lot is what drops an item
+    // below par. The min still defines the item's threshold.
+    if (Number.isFinite(quantity)) entry.totalQty += quantity;
+    if (Number.isFinite(minQuantity) && minQuantity > entry.maxMin) entry.maxMin = minQuantity;
+    lowAgg.set(aggKey, entry);
+  }
+
+  // Second pass: resolve each item-group to a single low/not-low verdict and
+  // tally the org-wide + per-location counts.
+  const lowStock: LowStockAlertItem[] = [];
+  for (const { itemName, locationId, totalQty, maxMin } of lowAgg.values()) {
+    if (maxMin > 0 && totalQty < maxMin) {
+      totals.lowStockCount += 1;
+      const locCounts = byLocationMap.get(locationId);
+      if (locCounts) locCounts.lowStockCount += 1;
+      lowStock.push({ itemName, locationId, totalQty, minQuantity: maxMin });
+    }
+  }
+
+  // Include locations that have no items yet so the dashboard renders them.
+  for (const loc of locations) {
+    if (!byLocationMap.has(loc.id)) byLocationMap.set(loc.id, emptyCounts());
+  }
+
+  const byLocation = Array.from(byLocationMap.entries())
+    .map(([locationId, counts]) => ({
+      locationId,
+      location: locationNameById.get(locationId) ?? "",
+      ...counts,
+    }))
+    .sort((a, b) => {
+      if (!a.location && b.location) return 1;
+      if (a.location && !b.location) return -1;
+      return a.location.localeCompare(b.location);
+    });
+
+  expired.sort((a, b) => a.daysUntil - b.daysUntil);
+  expiringSoon.sort((a, b) => a.daysUntil - b.daysUntil);
+  lowStock.sort((a, b) => a.itemName.localeCompare(b.itemName));
+
+  return { ...totals, byLocation, expired, expiringSoon, lowStock };
+};
+
+/** Coerce a stored (or client-sent) `alertDigest` value into a valid
+ *  subscription. Anything unrecognized collapses to the unsubscribed default,
+ *  so a malformed user record never makes the scheduled run throw. */
+export const normalizeAlertDigestSubscription = (raw: unknown): AlertDigestSubscription => {
+  const value = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const cadence = ALERT_DIGEST_CADENCES.includes(value.cadence as AlertDigestCadence)
+    ? (value.cadence as AlertDigestCadence)
+    : "daily";
+  const locationIds = Array.isArray(value.locationIds)
+    ? Array.from(new Set(
+        value.locationIds
+          .map((id) => String(id ?? "").trim())
+          .filter((id) => id.length > 0),
+      ))
+    : [];
+  return {
+    enabled: value.enabled === true,
+    cadence,
+    locationIds,
+    ...(typeof value.updatedAt === "string" ? { updatedAt: value.updatedAt } : {}),
+    ...(typeof value.lastSentAt === "string" ? { lastSentAt: value.lastSentAt } : {}),
+  };
+};
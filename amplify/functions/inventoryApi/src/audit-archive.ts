@@ -0,0 +1,389 @@
+// ── Shared: audit-archive.ts ────────────────────────────────────────────────
+// Cold storage for audit events older than hot retention (AUDIT_TTL_DAYS).
+// Owners pick how many years their org keeps records; DynamoDB's TTL would
+// otherwise delete every event after a year. A daily sweep (auditArchive
+// function) moves events shortly before their TTL into the archive and prunes
+// archived days past the org's retention. The feed and item-history handlers
+// read on into the archive once they run out of hot events.
+//
+// Layout: one NDJSON object per (org, UTC day, sweep batch), keyed
+//   audit/<orgId>/<YYYY-MM-DD>/<batchId>.jsonl
+// holding the raw table items (detailsJson unparsed, ttl dropped), so readers
+// handle archived and hot events alike. Keys sort by day, which is all the
+// readers need. The store is S3 when AUDIT_ARCHIVE_BUCKET is set; outside
+// Lambda, AUDIT_ARCHIVE_DIR names a local directory instead (dev and tests).
+// With neither there is no archive: reads find nothing, and the sweep refuses
+// to move events rather than delete them into storage that won't last.
+//
+// An event is written to the archive before it is deleted from the table; a
+// sweep that dies in between archives it again next run, so readers dedupe by
+// eventId.
+
+import {
+  DeleteObjectsCommand,
+  GetObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+} from "@aws-sdk/client-s3";
+import { BatchWriteCommand, GetCommand, PutCommand, QueryCommand } from "@aws-sdk/lib-dynamodb";
+import { randomUUID } from "node:crypto";
+import { mkdir, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { markAuditChainArchived } from "./audit-chain";
+import { ddb, s3 } from "./clients";
+import {
+  AUDIT_ARCHIVE_BUCKET,
+  AUDIT_ARCHIVE_DIR,
+  AUDIT_ARCHIVE_LEAD_DAYS,
+  AUDIT_BY_TIMESTAMP_INDEX,
+  AUDIT_RETENTION_YEAR_OPTIONS,
+  AUDIT_TTL_DAYS,
+  DEFAULT_AUDIT_RETENTION_YEARS,
+} from "./config";
+import { storageTablesForOrganization } from "./storage";
+import type { InventoryStorage } from "./types";
+
+const DAY_MS = 86400000;
+const AUDIT_RETENTION_META_ID = "inventory-meta-audit-retention";
+/** Objects a single read may open before handing back a cursor, so a sparse
+ *  filter (one item's history) over years of days can't pin the Lambda. */
+const ARCHIVE_MAX_OBJECTS_PER_READ = 60;
+
+type ArchiveStore = {
+  put: (key: string, body: string) => Promise<void>;
+  /** Null when the object doesn't exist. */
+  get: (key: string) => Promise<string | null>;
+  /** Every key under `prefix`, ascending. */
+  list: (prefix: string) => Promise<string[]>;
+  remove: (keys: string[]) => Promise<void>;
+};
+
+const s3Store = (bucket: string): ArchiveStore => ({
+  put: async (key, body) => {
+    await s3.send(new PutObjectCommand({
+      Bucket: bucket,
+      Key: key,
+      Body: body,
+      ContentType: "application/x-ndjson",
+    }));
+  },
+  get: async (key) => {
+    try {
+      const res = await s3.send(new GetObjectCommand({ Bucket: bucket, Key: key }));
+      return (await res.Body?.transformToString("utf-8")) ?? "";
+    } catch (err) {
+      if ((err as { name?: string })?.name === "NoSuchKey") return null;
+      throw err;
+    }
+  },
+  list: async (prefix) => {
+    const keys: string[] = [];
+    let token: string | undefined;
+    do {
+      const page = await s3.send(new ListObjectsV2Command({ Bucket: bucket, Prefix: prefix, ContinuationToken: token }));
+      for (const obj of page.Contents ?? []) if (obj.Key) keys.push(obj.Key);
+      token = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (token);
+    return keys;
+  },
+  remove: async (keys) => {
+    for (let i = 0; i < keys.length; i += 1000) {
+      await s3.send(new DeleteObjectsCommand({
+        Bucket: bucket,
+        Delete: { Objects: keys.slice(i, i + 1000).map((Key) => ({ Key })), Quiet: true },
+      }));
+    }
+  },
+});
+
+/** Filesystem stand-in with the same key layout, for running without S3. */
+const fsStore = (root: string): ArchiveStore => ({
+  put: async (key, body) => {
+    const file = join(root, key);
+    await mkdir(dirname(file), { recursive: true });
+    await writeFile(file, body, "utf8");
+  },
+  get: async (key) => {
+    try {
+      return await readFile(join(root, key), "utf8");
+    } catch (err) {
+      if ((err as { code?: string })?.code === "ENOENT") return null;
+      throw err;
+    }
+  },
+  list: async (prefix) => {
+    try {
+      const entries = await readdir(join(root, prefix), { recursive: true });
+      return entries
+        .filter((entry) => entry.endsWith(".jsonl"))
+        .map((entry) => `${prefix}${entry.split("\\").join("/")}`)
+        .sort();
+    } catch (err) {
+      if ((err as { code?: string })?.code === "ENOENT") return [];
+      throw err;
+    }
+  },
+  remove: async (keys) => {
+    for (const key of keys) await rm(join(root, key), { force: true });
+  },
+});
+
+/** Null when no durable store is configured. A Lambda's disk is scratch
+ *  space, so the directory store is never used there. */
+const archiveStore: ArchiveStore | null = AUDIT_ARCHIVE_BUCKET
+  ? s3Store(AUDIT_ARCHIVE_BUCKET)
+  : AUDIT_ARCHIVE_DIR && !process.env.AWS_LAMBDA_FUNCTION_NAME
+    ? fsStore(AUDIT_ARCHIVE_DIR)
+    : null;
+
+const orgPrefix = (organizationId: string) => `audit/${organizationId}/`;
+
+/** The YYYY-MM-DD segment of an archive key. */
+const dayOfKey = (key: string): string => key.split("/")[2] ?? "";
+
+// ── Retention setting ───────────────────────────────────────────────────────
+// A meta row on the columns table, like the expiration settings:
+//   { id: "inventory-meta-audit-retention", module, kind: "meta", retentionYears }
+
+const normalizeRetentionYears = (raw: unknown): number => {
+  const years = Number(raw);
+  return (AUDIT_RETENTION_YEAR_OPTIONS as readonly number[]).includes(years)
+    ? years
+    : DEFAULT_AUDIT_RETENTION_YEARS;
+};
+
+/** The org's retention in years. Missing row or read failure → the default,
+ *  so a settings hiccup never makes the sweep drop records. */
+export const getAuditRetentionYears = async (storage: InventoryStorage): Promise<number> => {
+  try {
+    const result = await ddb.send(
+      new GetCommand({ TableName: storage.columnTable, Key: { id: AUDIT_RETENTION_META_ID } }),
+    );
+    return normalizeRetentionYears(result.Item?.retentionYears);
+  } catch (err) {
+    console.warn("getAuditRetentionYears read failed", err);
+  }
+  return DEFAULT_AUDIT_RETENTION_YEARS;
+};
+
+export const isAuditRetentionYears = (value: unknown): boolean =>
+  (AUDIT_RETENTION_YEAR_OPTIONS as readonly number[]).includes(Number(value));
+
+export const saveAuditRetentionYears = async (
+  storage: InventoryStorage,
+  retentionYears: number,
+  userId: string,
+): Promise<void> => {
+  await ddb.send(
+    new PutCommand({
+      TableName: storage.columnTable,
+      Item: {
+        id: AUDIT_RETENTION_META_ID,
+        module: "inventory",
+        kind: "meta",
+        retentionYears,
+        updatedAt: new Date().toISOString(),
+        updatedByUserId: userId,
+      },
+    }),
+  );
+};
+
+/** Events older than this are in the archive (or on their way there on the
+ *  next sweep); everything newer is still in the table. */
+export const hotAuditFloor = (now = new Date()): string =>
+  new Date(now.getTime() - (AUDIT_TTL_DAYS - AUDIT_ARCHIVE_LEAD_DAYS) * DAY_MS).toISOString();
+
+/** First day that must still be kept under a retention of `years`. */
+const retentionFloorDay = (years: number, now: Date): string => {
+  const floor = new Date(now.getTime());
+  floor.setUTCFullYear(floor.getUTCFullYear() - years);
+  return floor.toISOString().slice(0, 10);
+};
+
+/** Oldest instant the org's activity log still covers in full: the table's
+ *  TTL on 1-year retention, the first archived day kept beyond that. */
+export const auditHistoryFloor = (years: number, now = new Date()): string =>
+  years * 365 > AUDIT_TTL_DAYS
+    ? `${retentionFloorDay(years, now)}T00:00:00.000Z`
+    : new Date(now.getTime() - AUDIT_TTL_DAYS * DAY_MS).toISOString();
+
+// ── Sweep ───────────────────────────────────────────────────────────────────
+
+const deleteFromTable = async (table: string, items: Array<Record<string, unknown>>) => {
+  for (let i = 0; i < items.length; i += 25) {
+    let requests: Record<string, unknown>[] | undefined = items
+      .slice(i, i + 25)
+      .map((it) => ({ DeleteRequest: { Key: { pk: it.pk, sk: it.sk } } }));
+    // Unprocessed deletes are retried a few times; leftovers stay in the
+    // table and are archived again (then deduped) on the next sweep.
+    for (let attempt = 0; attempt < 3 && requests && requests.length > 0; attempt += 1) {
+      const res = await ddb.send(new BatchWriteCommand({ RequestItems: { [table]: requests } }));
+      requests = res.UnprocessedItems?.[table] as Record<string, unknown>[] | undefined;
+    }
+  }
+};
+
+/**
+ * Move one org's events that are about to reach their TTL into the archive,
+ * then prune archived days past its retention. Orgs on 1-year retention
+ * archive nothing — their events expire from the table as before. Stops
+ * early at `deadline` (epoch ms); the next sweep carries on.
+ */
+export const archiveAgedAuditEvents = async (
+  organizationId: string,
+  { now = new Date(), deadline = Number.POSITIVE_INFINITY }: { now?: Date; deadline?: number } = {},
+): Promise<{ archived: number; pruned: number }> => {
+  const storage = storageTablesForOrganization(organizationId);
+  const retentionYears = await getAuditRetentionYears(storage);
+  let archived = 0;
+  if (!archiveStore) {
+    // Nothing was ever archived, so nothing to prune; but moving events
+    // would delete them from the table with nowhere durable to keep them.
+    if (retentionYears * 365 > AUDIT_TTL_DAYS) {
+      throw new Error("No audit archive is configured (AUDIT_ARCHIVE_BUCKET); refusing to move events out of the table.");
+    }
+    return { archived: 0, pruned: 0 };
+  }
+
+  if (retentionYears * 365 > AUDIT_TTL_DAYS) {
+    const cutoff = hotAuditFloor(now);
+    let exclusiveStartKey: Record<string, unknown> | undefined;
+    do {
+      const page = await ddb.send(new QueryCommand({
+        TableName: storage.auditTable,
+        IndexName: AUDIT_BY_TIMESTAMP_INDEX,
+        KeyConditionExpression: "orgId = :orgId AND #ts < :cutoff",
+        ExpressionAttributeNames: { "#ts": "timestamp" },
+        ExpressionAttributeValues: { ":orgId": organizationId, ":cutoff": cutoff },
+        ScanIndexForward: true,
+        Limit: 500,
+        ...(exclusiveStartKey ? { ExclusiveStartKey: exclusiveStartKey } : {}),
+      })).catch((err: unknown) => {
+        // Org never provisioned its audit table — nothing to archive.
+        if ((err as { name?: string })?.name === "ResourceNotFoundException") return null;
+        throw err;
+      });
+      if (!page) break;
+      const items = (page.Items ?? []) as Array<Record<string, unknown>>;
+      const byDay = new Map<string, string[]>();
+      for (const item of items) {
+        const day = String(item.timestamp ?? "").slice(0, 10);
+        if (!day) continue;
+        // The hot-table TTL means nothing once the event is archived.
+        const kept = { ...item };
+        delete kept.ttl;
+        const lines = byDay.get(day) ?? [];
+        lines.push(JSON.stringify(kept));
+        byDay.set(day, lines);
+      }
+      const batchId = `${now.getTime()}-${randomUUID().slice(0, 8)}`;
+      for (const [day, lines] of byDay) {
+        await archiveStore.put(`${orgPrefix(organizationId)}${day}/${batchId}.jsonl`, `${lines.join("\n")}\n`);
+      }
+      await deleteFromTable(storage.auditTable, items);
+      // Tell the chain verifier these are archived, not removed.
+      const lastChained = items.reduce<Record<string, unknown> | null>(
+        (latest, item) => (typeof item.seq === "number" && item.seq > Number(latest?.seq ?? 0) ? item : latest),
+        null,
+      );
+      if (lastChained) await markAuditChainArchived(storage.auditTable, organizationId, lastChained);
+      archived += items.length;
+      exclusiveStartKey = page.LastEvaluatedKey as Record<string, unknown> | undefined;
+    } while (exclusiveStartKey && Date.now() < deadline);
+  }
+
+  const floorDay = retentionFloorDay(retentionYears, now);
+  const expired = (await archiveStore.list(orgPrefix(organizationId))).filter((key) => dayOfKey(key) < floorDay);
+  await archiveStore.remove(expired);
+  return { archived, pruned: expired.length };
+};
+
+// ── Read ────────────────────────────────────────────────────────────────────
+
+/** Position in the archive's newest-first order: strictly older than this. */
+export type AuditArchiveCursor = { timestamp: string; eventId: string };
+
+/** Read archived events newest-first, strictly older than `before` and inside
+ *  (startAfter, endBefore). `match` filters raw items (action, user, item…).
+ *  Returns a cursor to continue from whenever more days remain unread. */
+export const readArchivedAuditEvents = async (
+  organizationId: string,
+  {
+    before,
+    startAfter,
+    endBefore,
+    match,
+    limit,
+  }: {
+    before?: AuditArchiveCursor;
+    startAfter?: string;
+    endBefore?: string;
+    match: (item: Record<string, unknown>) => boolean;
+    limit: number;
+  },
+): Promise<{ items: Array<Record<string, unknown>>; next: AuditArchiveCursor | null }> => {
+  if (!archiveStore) return { items: [], next: null };
+  const upperDay = [before?.timestamp, endBefore].filter(Boolean).map((t) => String(t).slice(0, 10)).sort()[0];
+  const lowerDay = startAfter ? startAfter.slice(0, 10) : "";
+  const keysByDay = new Map<string, string[]>();
+  for (const key of await archiveStore.list(orgPrefix(organizationId))) {
+    const day = dayOfKey(key);
+    if ((upperDay && day > upperDay) || day < lowerDay) continue;
+    const keys = keysByDay.get(day) ?? [];
+    keys.push(key);
+    keysByDay.set(day, keys);
+  }
+  const days = [...keysByDay.keys()].sort().reverse();
+
+  const isBefore = (item: Record<string, unknown>) => {
+    if (!before) return true;
+    const ts = String(item.timestamp ?? "");
+    return ts < before.timestamp || (ts === before.timestamp && String(item.eventId ?? "") < before.eventId);
+  };
+
+  const out: Array<Record<string, unknown>> = [];
+  let opened = 0;
+  for (let d = 0; d < days.length; d += 1) {
+    const day = days[d];
+    const seen = new Set<string>();
+    const dayItems: Array<Record<string, unknown>> = [];
+    for (const key of keysByDay.get(day) ?? []) {
+      opened += 1;
+      const body = await archiveStore.get(key);
+      for (const line of (body ?? "").split("\n")) {
+        if (!line.trim()) continue;
+        let item: Record<string, unknown>;
+        try { item = JSON.parse(line); } catch { continue; }
+        const eventId = String(item.eventId ?? "");
+        if (seen.has(eventId)) continue;
+        seen.add(eventId);
+        const ts = String(item.timestamp ?? "");
+        if ((startAfter && ts <= startAfter) || (endBefore && ts >= endBefore)) continue;
+        if (!isBefore(item) || !match(item)) continue;
+        dayItems.push(item);
+      }
+    }
+    dayItems.sort((a, b) =>
+      String(b.timestamp ?? "").localeCompare(String(a.timestamp ?? ""))
+      || String(b.eventId ?? "").localeCompare(String(a.eventId ?? "")));
+    for (const item of dayItems) {
+      out.push(item);
+      if (out.length === limit) {
+        const moreToday = dayItems.indexOf(item) < dayItems.length - 1;
+        const moreDays = d < days.length - 1;
+        return {
+          items: out,
+          next: moreToday || moreDays
+            ? { timestamp: String(item.timestamp ?? ""), eventId: String(item.eventId ?? "") }
+            : null,
+        };
+      }
+    }
+    if (opened >= ARCHIVE_MAX_OBJECTS_PER_READ && d < days.length - 1) {
+      // Everything on `day` has been read; resume with the day before it.
+      return { items: out, next: { timestamp: `${day}T00:00:00.000Z`, eventId: "" } };
+    }
+  }
+  return { items: out, next: null };
+};
@@ -0,0 +1,479 @@
+// ── Shared: audit-chain.ts ──────────────────────────────────────────────────
+// Tamper-evident hash chain over an org's audit events. Every event written
+// through writeAuditEvents gets the next `seq`, the previous event's hash
+// (`prevHash`) and its own `hash`: SHA-256 of its canonical content, prevHash
+// included. Editing, deleting or inserting an event breaks the chain at that
+// point, which GET /inventory/audit/verify walks and reports.
+//
+// The chain head (last seq + hash) is a row in the org's audit table, keyed
+//   pk = CHAIN#<orgId>, sk = HEAD
+// and advanced in the same transaction that writes the events, conditional on
+// the seq it was read at, so concurrent writers serialize instead of forking.
+// The head has no orgId/timestamp/userId, so it stays out of both indexes.
+//
+// Timestamps never run backwards along the chain (a writer that loses a race
+// re-stamps to the head's time), so the ByTimestamp index reads the chain in
+// order apart from ties. Events that leave the table legitimately — archived
+// (audit-archive.ts records how far) or expired by TTL — are told apart from
+// events that were removed.
+//
+// A writer that keeps losing the race for the head (CHAIN_WRITE_ATTEMPTS in a
+// row) parks its events unchained rather than dropping them:
+//   pk = CHAINPENDING#<orgId>, sk = <the event's own sk>, event = <the event>
+// with the head's pendingCount raised to match. Parked rows have no
+// orgId/timestamp either, so the feed and the verifier don't see them; the
+// next append for the org links them onto the chain ahead of its own events,
+// re-stamped to the head's time, and deletes them in the same transaction.
+//
+// Annotations stamped on an event after the fact (undo markers) are not part
+// of its hash; the undo itself is chained as its own event, carrying the id the
+// marker points at and naming the event it undid. The verifier holds every
+// marker to that: an undo marker without its chained undo event is reported.
+
+import { createHash } from "node:crypto";
+import { GetCommand, PutCommand, QueryCommand, TransactWriteCommand, UpdateCommand } from "@aws-sdk/lib-dynamodb";
+import { ddb } from "./clients";
+import { AUDIT_BY_TIMESTAMP_INDEX, AUDIT_TTL_DAYS } from "./config";
+import { sleep } from "./normalize";
+
+const DAY_MS = 86400000;
+/** prevHash of the first event in a chain. */
+const GENESIS_HASH = "0".repeat(64);
+/** Events per transaction, plus the head update. Well under DynamoDB's cap. */
+const CHAIN_WRITE_CHUNK = 25;
+const CHAIN_WRITE_ATTEMPTS = 8;
+/** Attributes outside the hash: table keys, the TTL (dropped on archive), the
+ *  hash itself, and annotations added after the event was written. */
+const UNHASHED_ATTRIBUTES = new Set(["pk", "sk", "ttl", "hash", "undoneAt", "undoneByUserId", "undoneByEventId"]);
+/** The chained event that must back an undo marker on each undoable action. */
+const UNDO_ACTION_FOR: Record<string, string> = {
+  USAGE_APPROVE: "USAGE_UNDO",
+  ITEM_RETIRE: "ITEM_UNRETIRE",
+  COLUMN_DELETE: "COLUMN_RESTORE",
+};
+/** Issues reported per verify page; the walk itself carries on. */
+const VERIFY_MAX_ISSUES = 200;
+
+export type AuditChainHead = {
+  seq: number;
+  hash: string;
+  /** Timestamp of the newest chained event. */
+  timestamp: string;
+  /** Timestamp of seq 1 — events after it without a seq were written around the chain. */
+  startedAt: string;
+  /** Highest seq the archive sweep has moved out of the table, and its hash. */
+  archivedThroughSeq?: number;
+  archivedThroughHash?: string;
+};
+
+const chainHeadKey = (organizationId: string) => ({ pk: `CHAIN#${organizationId}`, sk: "HEAD" });
+const parkedPk = (organizationId: string) => `CHAINPENDING#${organizationId}`;
+
+/** JSON with object keys sorted at every level, so the same content always
+ *  serializes — and hashes — the same way. */
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+/** The hash an event should carry: its canonical content, seq and prevHash
+ *  included. */
+export const auditEventHash = (event: Record<string, unknown>): string => {
+  const content: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(event)) {
+    if (!UNHASHED_ATTRIBUTES.has(key)) content[key] = value;
+  }
+  return createHash("sha256").update(canonicalJson(content)).digest("hex");
+};
+
+/** The head, and how many parked events wait to be linked. Parking can
+ *  create the row before the first event is chained, so it may carry a
+ *  count and no head. */
+const readChainHead = async (
+  auditTable: string,
+  organizationId: string,
+): Promise<{ head: AuditChainHead | null; pendingCount: number }> => {
+  const res = await ddb.send(new GetCommand({
+    TableName: auditTable,
+    Key: chainHeadKey(organizationId),
+    ConsistentRead: true,
+  }));
+  const item = res.Item as Record<string, unknown> | undefined;
+  const pendingCount = typeof item?.pendingCount === "number" ? item.pendingCount : 0;
+  if (!item || typeof item.seq !== "number") return { head: null, pendingCount };
+  const head: AuditChainHead = {
+    seq: item.seq,
+    hash: String(item.hash ?? ""),
+    timestamp: String(item.timestamp ?? ""),
+    startedAt: String(item.startedAt ?? ""),
+    ...(typeof item.archivedThroughSeq === "number"
+      ? { archivedThroughSeq: item.archivedThroughSeq, archivedThroughHash: String(item.archivedThroughHash ?? "") }
+      : {}),
+  };
+  return { head, pendingCount };
+};
+
+export const getAuditChainHead = async (
+  auditTable: string,
+  organizationId: string,
+): Promise<AuditChainHead | null> => (await readChainHead(auditTable, organizationId)).head;
+
+const isChainRace = (err: unknown): boolean => {
+  const name = (err as { name?: string })?.name;
+  return name === "TransactionCanceledException" || name === "TransactionConflictException";
+};
+
+/** Link `events` (same org, built by buildAuditEvent) onto the head, in order.
+ *  Mutates them in place so callers and webhooks see what was stored. */
+const linkEvents = (events: Record<string, unknown>[], head: AuditChainHead | null) => {
+  let seq = head?.seq ?? 0;
+  let prevHash = head?.hash ?? GENESIS_HASH;
+  let floor = head?.timestamp ?? "";
+  for (const event of events) {
+    if (String(event.timestamp) < floor) {
+      event.timestamp = floor;
+      event.sk = `TS#${floor}#${String(event.eventId).slice(-8)}`;
+    }
+    floor = String(event.timestamp);
+    seq += 1;
+    event.seq = seq;
+    event.prevHash = prevHash;
+    event.hash = auditEventHash(event);
+    prevHash = String(event.hash);
+  }
+};
+
+/** The oldest parked rows for the org, up to one chunk's worth. */
+const readParkedEvents = async (
+  auditTable: string,
+  organizationId: string,
+): Promise<Array<{ sk: string; event: Record<string, unknown> }>> => {
+  const res = await ddb.send(new QueryCommand({
+    TableName: auditTable,
+    KeyConditionExpression: "pk = :pk",
+    ExpressionAttributeValues: { ":pk": parkedPk(organizationId) },
+    ConsistentRead: true,
+    Limit: CHAIN_WRITE_CHUNK,
+  }));
+  return (res.Items ?? []).map((row) => row as { sk: string; event: Record<string, unknown> });
+};
+
+/** Write one chunk with any parked events linked ahead of it, retrying lost
+ *  races against the new head. Throws the race once attempts run out. */
+const appendChunk = async (auditTable: string, chunk: Record<string, unknown>[]): Promise<void> => {
+  const organizationId = String(chunk[0].orgId ?? "");
+  for (let attempt = 1; ; attempt += 1) {
+    const { head, pendingCount } = await readChainHead(auditTable, organizationId);
+    const parked = pendingCount > 0 ? await readParkedEvents(auditTable, organizationId) : [];
+    const linked = [...parked.map((row) => row.event), ...chunk];
+    linkEvents(linked, head);
+    const last = linked[linked.length - 1];
+    try {
+      await ddb.send(new TransactWriteCommand({
+        TransactItems: [
+          ...parked.map((row) => ({
+            Delete: {
+              TableName: auditTable,
+              Key: { pk: parkedPk(organizationId), sk: row.sk },
+              ConditionExpression: "attribute_exists(pk)",
+            },
+          })),
+          ...linked.map((event) => ({ Put: { TableName: auditTable, Item: event } })),
+          {
+            Update: {
+              TableName: auditTable,
+              Key: chainHeadKey(organizationId),
+              UpdateExpression: (head
+                ? "SET seq = :seq, #hash = :hash, #ts = :ts"
+                : "SET seq = :seq, #hash = :hash, #ts = :ts, startedAt = :started")
+                + (parked.length > 0 ? " ADD pendingCount :drained" : ""),
+              ConditionExpression: head ? "seq = :headSeq" : "attribute_not_exists(seq)",
+              ExpressionAttributeNames: { "#hash": "hash", "#ts": "timestamp" },
+              ExpressionAttributeValues: {
+                ":seq": last.seq,
+                ":hash": last.hash,
+                ":ts": last.timestamp,
+                ...(head ? { ":headSeq": head.seq } : { ":started": linked[0].timestamp }),
+                ...(parked.length > 0 ? { ":drained": -parked.length } : {}),
+              },
+            },
+          },
+        ],
+      }));
+      return;
+    } catch (err: unknown) {
+      if (!isChainRace(err) || attempt >= CHAIN_WRITE_ATTEMPTS) throw err;
+      await sleep(20 * attempt + Math.floor(Math.random() * 30));
+    }
+  }
+};
+
+/** Store `events` unchained for a later append to link, and count them on
+ *  the head so that append knows to look. */
+const parkEvents = async (auditTable: string, events: Record<string, unknown>[]): Promise<void> => {
+  const organizationId = String(events[0].orgId ?? "");
+  for (const event of events) {
+    delete event.seq;
+    delete event.prevHash;
+    delete event.hash;
+    await ddb.send(new PutCommand({
+      TableName: auditTable,
+      Item: { pk: parkedPk(organizationId), sk: String(event.sk), event },
+    }));
+  }
+  await ddb.send(new UpdateCommand({
+    TableName: auditTable,
+    Key: chainHeadKey(organizationId),
+    UpdateExpression: "ADD pendingCount :n",
+    ExpressionAttributeValues: { ":n": events.length },
+  }));
+};
+
+/**
+ * Append `events` to their org's chain and write them, CHAIN_WRITE_CHUNK per
+ * transaction, linking any parked events first. A chunk that loses the race
+ * for the head is re-linked against the new head and retried; after
+ * CHAIN_WRITE_ATTEMPTS it and the rest are parked for the next append.
+ */
+export const appendToAuditChain = async (
+  auditTable: string,
+  events: Record<string, unknown>[],
+): Promise<void> => {
+  for (let i = 0; i < events.length; i += CHAIN_WRITE_CHUNK) {
+    try {
+      await appendChunk(auditTable, events.slice(i, i + CHAIN_WRITE_CHUNK));
+    } catch (err: unknown) {
+      if (!isChainRace(err)) throw err;
+      console.warn("audit chain busy; parking events for the next append", { count: events.length - i });
+      await parkEvents(auditTable, events.slice(i));
+      return;
+    }
+  }
+};
+
+/** Record that the archive sweep moved `event` out of the table, so the
+ *  verifier starts after it. Only ever moves forward. */
+export const markAuditChainArchived = async (
+  auditTable: string,
+  organizationId: string,
+  event: Record<string, unknown>,
+): Promise<void> => {
+  if (typeof event.seq !== "number") return;
+  try {
+    await ddb.send(new UpdateCommand({
+      TableName: auditTable,
+      Key: chainHeadKey(organizationId),
+      UpdateExpression: "SET archivedThroughSeq = :seq, archivedThroughHash = :hash",
+      ConditionExpression: "attribute_exists(seq) AND (attribute_not_exists(archivedThroughSeq) OR archivedThroughSeq < :seq)",
+      ExpressionAttributeValues: { ":seq": event.seq, ":hash": String(event.hash ?? "") },
+    }));
+  } catch (err: unknown) {
+    if ((err as { name?: string })?.name !== "ConditionalCheckFailedException") throw err;
+  }
+};
+
+// ── Verify ──────────────────────────────────────────────────────────────────
+
+export type AuditChainIssue = {
+  kind:
+    | "missing" // seqs fromSeq..toSeq are gone from the table
+    | "altered" // the event's content no longer matches its hash
+    | "broken_link" // prevHash doesn't match the event before it
+    | "duplicate" // a seq that was already seen
+    | "unchained" // written after the chain started, but not linked into it
+    | "head_mismatch" // the last event doesn't match the recorded head
+    | "unbacked_undo"; // marked undone, but no chained undo event names it
+  seq?: number;
+  fromSeq?: number;
+  toSeq?: number;
+  eventId?: string;
+  action?: string;
+  timestamp?: string;
+};
+
+type ChainLink = {
+  seq: number;
+  prevHash: string;
+  hash: string;
+  eventId: string;
+  action: string;
+  timestamp: string;
+  /** The event's undo marker: the id its undo event must carry. */
+  undoneByEventId?: string;
+  /** For an undo event, the eventId it names as undone. */
+  undoes?: string;
+};
+
+/** An undo marker waiting for its undo event, which comes later in the chain. */
+type PendingUndo = { seq: number; action: string; timestamp: string; undoneByEventId: string };
+
+/** Walk state carried between verify pages (inside the opaque cursor). */
+export type AuditChainWalk = {
+  key?: Record<string, unknown>;
+  /** Next seq the walk expects, and the hash it should link to. */
+  expectedSeq: number;
+  prevHash: string;
+  /** Links read so far that share the newest timestamp — their order in the
+   *  index is arbitrary, so they're linked once the timestamp moves on. */
+  ties: ChainLink[];
+  /** The head when the walk began; events written since are checked too. */
+  headSeq: number;
+  headHash: string;
+  startedAt: string;
+  archivedThroughSeq: number;
+  /** Undo markers not yet matched, by the marked event's id. Absent in walks
+   *  begun before markers were checked. */
+  pendingUndos?: Record<string, PendingUndo>;
+};
+
+export type AuditChainPage = {
+  checked: number;
+  /** Events from before the chain existed. */
+  legacy: number;
+  /** Events gone from the table because they outlived hot retention. */
+  expired: number;
+  issues: AuditChainIssue[];
+  issuesTruncated: boolean;
+  /** Null once the walk has reached the end. */
+  walk: AuditChainWalk | null;
+};
+
+/** A walk from the start of what the table still holds. */
+export const startAuditChainWalk = (head: AuditChainHead | null): AuditChainWalk => ({
+  expectedSeq: (head?.archivedThroughSeq ?? 0) + 1,
+  prevHash: head?.archivedThroughSeq ? head.archivedThroughHash ?? "" : GENESIS_HASH,
+  ties: [],
+  headSeq: head?.seq ?? 0,
+  headHash: head?.hash ?? "",
+  startedAt: head?.startedAt ?? "",
+  archivedThroughSeq: head?.archivedThroughSeq ?? 0,
+  pendingUndos: {},
+});
+
+/** The eventId an undo event names in its details, if it's one. */
+const undoneEventIdOf = (item: Record<string, unknown>): string | undefined => {
+  if (!Object.values(UNDO_ACTION_FOR).includes(String(item.action ?? ""))) return undefined;
+  try {
+    const id = JSON.parse(String(item.detailsJson ?? "{}"))?.undoneEventId;
+    return typeof id === "string" && id ? id : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Verify one page of an org's chain, oldest first, until `deadline` (epoch ms)
+ * or the end of the table. Each event's hash is recomputed from its content;
+ * each link is checked against the event before it. A gap is only an issue if
+ * the events after it are still inside hot retention — anything older can
+ * have expired (timestamps never decrease along the chain). An event marked
+ * undone must be followed by the chained undo event its marker points at,
+ * naming it; one that never is gets reported when the walk ends.
+ */
+export const verifyAuditChainPage = async (
+  auditTable: string,
+  organizationId: string,
+  walk: AuditChainWalk,
+  deadline: number,
+  now: Date = new Date(),
+): Promise<AuditChainPage> => {
+  const state: AuditChainWalk = { ...walk, ties: [...walk.ties], pendingUndos: { ...(walk.pendingUndos ?? {}) } };
+  const pendingUndos = state.pendingUndos ?? {};
+  const expiryHorizon = new Date(now.getTime() - AUDIT_TTL_DAYS * DAY_MS).toISOString();
+  const page: AuditChainPage = { checked: 0, legacy: 0, expired: 0, issues: [], issuesTruncated: false, walk: null };
+  const report = (issue: AuditChainIssue) => {
+    if (page.issues.length < VERIFY_MAX_ISSUES) page.issues.push(issue);
+    else page.issuesTruncated = true;
+  };
+
+  const link = (entry: ChainLink) => {
+    if (entry.seq < state.expectedSeq) {
+      if (entry.seq > state.archivedThroughSeq) report({ kind: "duplicate", seq: entry.seq, eventId: entry.eventId, action: entry.action, timestamp: entry.timestamp });
+      return;
+    }
+    if (entry.seq > state.expectedSeq) {
+      if (entry.timestamp <= expiryHorizon) {
+        page.expired += entry.seq - state.expectedSeq;
+      } else {
+        report({ kind: "missing", fromSeq: state.expectedSeq, toSeq: entry.seq - 1, timestamp: entry.timestamp });
+      }
+    } else if (entry.prevHash !== state.prevHash) {
+      report({ kind: "broken_link", seq: entry.seq, eventId: entry.eventId, action: entry.action, timestamp: entry.timestamp });
+    }
+    state.expectedSeq = entry.seq + 1;
+    state.prevHash = entry.hash;
+    if (entry.undoneByEventId) {
+      pendingUndos[entry.eventId] = {
+        seq: entry.seq,
+        action: entry.action,
+        timestamp: entry.timestamp,
+        undoneByEventId: entry.undoneByEventId,
+      };
+    }
+    const marked = entry.undoes ? pendingUndos[entry.undoes] : undefined;
+    if (entry.undoes && marked && marked.undoneByEventId === entry.eventId && UNDO_ACTION_FOR[marked.action] === entry.action) {
+      delete pendingUndos[entry.undoes];
+    }
+  };
+  const flushTies = () => {
+    state.ties.sort((a, b) => a.seq - b.seq).forEach(link);
+    state.ties = [];
+  };
+
+  let key = state.key;
+  do {
+    const res = await ddb.send(new QueryCommand({
+      TableName: auditTable,
+      IndexName: AUDIT_BY_TIMESTAMP_INDEX,
+      KeyConditionExpression: "orgId = :orgId",
+      ExpressionAttributeValues: { ":orgId": organizationId },
+      ScanIndexForward: true,
+      Limit: 500,
+      ...(key ? { ExclusiveStartKey: key } : {}),
+    }));
+    for (const item of (res.Items ?? []) as Array<Record<string, unknown>>) {
+      const timestamp = String(item.timestamp ?? "");
+      const ref = { eventId: String(item.eventId ?? ""), action: String(item.action ?? ""), timestamp };
+      if (typeof item.seq !== "number" || typeof item.hash !== "string") {
+        if (state.startedAt && timestamp >= state.startedAt) report({ kind: "unchained", ...ref });
+        else page.legacy += 1;
+        continue;
+      }
+      page.checked += 1;
+      if (auditEventHash(item) !== item.hash) report({ kind: "altered", seq: item.seq, ...ref });
+      if (state.ties.length > 0 && state.ties[0].timestamp !== timestamp) flushTies();
+      const undoes = undoneEventIdOf(item);
+      state.ties.push({
+        seq: item.seq,
+        prevHash: String(item.prevHash ?? ""),
+        hash: item.hash,
+        ...ref,
+        // A marker with no id is as unbacked as one pointing nowhere.
+        ...(item.undoneAt || item.undoneByEventId ? { undoneByEventId: String(item.undoneByEventId ?? "-") } : {}),
+        ...(undoes ? { undoes } : {}),
+      });
+    }
+    key = res.LastEvaluatedKey as Record<string, unknown> | undefined;
+  } while (key && Date.now() < deadline);
+
+  if (key) {
+    page.walk = { ...state, key };
+    return page;
+  }
+  flushTies();
+  for (const [eventId, marked] of Object.entries(pendingUndos)) {
+    report({ kind: "unbacked_undo", seq: marked.seq, eventId, action: marked.action, timestamp: marked.timestamp });
+  }
+  if (state.expectedSeq <= state.headSeq) {
+    report({ kind: "missing", fromSeq: state.expectedSeq, toSeq: state.headSeq });
+  } else if (state.expectedSeq === state.headSeq + 1 && state.headSeq > 0 && state.prevHash !== state.headHash) {
+    report({ kind: "head_mismatch", seq: state.headSeq });
+  }
+  return page;
+};
@@ -0,0 +1,123 @@
+// ── Shared: audit-export.ts ─────────────────────────────────────────────────
+// Flattens audit events into flat rows for GET /inventory/audit/export — the
+// file an admin hands an inspector. Each action stores its own details shape
+// (see AuditAction in types.ts); the same fact lives under different keys
+// depending on who wrote it (quantityBefore vs qtyBefore vs sourceQtyBefore),
+// so the export reads them all into one set of columns.
+
+import { readAuditDetails } from "./audit";
+
+/** Export columns, in file order. The JSON export uses the same keys. */
+export const AUDIT_EXPORT_COLUMNS = [
+  "timestamp",
+  "action",
+  "userName",
+  "userEmail",
+  "itemName",
+  "itemId",
+  "location",
+  "lotNumber",
+  "serialNumber",
+  "expirationDate",
+  "quantity",
+  "qtyBefore",
+  "qtyAfter",
+  "reason",
+  "vendor",
+  "unitCost",
+  "orderId",
+  "notes",
+  "changes",
+  "eventId",
+  "amendsEventId",
+] as const;
+
+export type AuditExportColumn = (typeof AUDIT_EXPORT_COLUMNS)[number];
+export type AuditExportRow = Record<AuditExportColumn, string>;
+
+/** First of `keys` with a non-blank value, as a string. */
+const pick = (details: Record<string, unknown>, ...keys: string[]): string => {
+  for (const key of keys) {
+    const value = details[key];
+    if (value === null || value === undefined) continue;
+    const text = typeof value === "object" ? JSON.stringify(value) : String(value).trim();
+    if (text) return text;
+  }
+  return "";
+};
+
+const describeChangeValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === "") return "(blank)";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+};
+
+/** ITEM_EDIT / COLUMN_UPDATE diffs as "field: from → to; …". */
+const describeChanges = (details: Record<string, unknown>): string => {
+  if (!Array.isArray(details.changes)) return "";
+  return (details.changes as Array<{ field?: unknown; from?: unknown; to?: unknown }>)
+    .filter((c) => c && typeof c.field === "string")
+    .map((c) => `${c.field}: ${describeChangeValue(c.from)} → ${describeChangeValue(c.to)}`)
+    .join("; ");
+};
+
+/** Where the event happened. Moves and transfers read "from → to"; events that
+ *  stamped only a locationId are named from `locationNames`. */
+const describeLocation = (details: Record<string, unknown>, locationNames: Map<string, string>): string => {
+  const from = pick(details, "fromLocationName");
+  const to = pick(details, "toLocationName");
+  if (from || to) return `${from || "?"} → ${to || "?"}`;
+  const named = pick(details, "location", "locationName");
+  if (named) return named;
+  const id = pick(details, "locationId");
+  return id ? locationNames.get(id) ?? id : "";
+};
+
+/**
+ * One export row per raw audit item (as stored: detailsJson unparsed).
+ * Quantity is the amount the event moved — used, retired, received, ordered,
+ * transferred, restored, or the signed delta of an adjustment. The export
+ * keeps every event as written: a coalesced edit appears both as the
+ * original and as its amendment (amendsEventId names the original).
+ */
+export const flattenAuditEvent = (
+  item: Record<string, unknown>,
+  locationNames: Map<string, string>,
+): { row: AuditExportRow; details: Record<string, unknown> } => {
+  const details = readAuditDetails(item);
+  const row: AuditExportRow = {
+    timestamp: String(item.timestamp ?? ""),
+    action: String(item.action ?? ""),
+    userName: String(item.userName ?? ""),
+    userEmail: String(item.userEmail ?? ""),
+    itemName: String(item.itemName ?? ""),
+    itemId: String(item.itemId ?? ""),
+    location: describeLocation(details, locationNames),
+    lotNumber: pick(details, "lotNumber"),
+    serialNumber: pick(details, "serialNumber"),
+    expirationDate: pick(details, "expirationDate"),
+    quantity: pick(details, "quantityUsed", "qty", "qtyReceived", "qtyOrdered", "quantity", "quantityRestored", "delta"),
+    qtyBefore: pick(details, "qtyBefore", "quantityBefore", "sourceQtyBefore"),
+    qtyAfter: pick(details, "qtyAfter", "quantityAfter", "sourceQtyAfter"),
+    reason: pick(details, "reason"),
+    vendor: pick(details, "vendor"),
+    unitCost: pick(details, "unitCost"),
+    orderId: pick(details, "orderId"),
+    notes: pick(details, "notes", "note"),
+    changes: describeChanges(details),
+    eventId: String(item.eventId ?? ""),
+    amendsEventId: String(item.amendsEventId ?? ""),
+  };
+  return { row, details };
+};
+
+/** RFC 4180 quoting, as the browser-side downloadCsv does. Cells that a
+ *  spreadsheet would run as a formula are prefixed with a quote. */
+const csvCell = (value: string): string => {
+  const safe = /^[=+\-@]/.test(value) && !/^-?\d/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+export const auditExportCsvHeader = (): string => AUDIT_EXPORT_COLUMNS.join(",");
+
+export const auditExportCsvLine = (row: AuditExportRow): string =>
+  AUDIT_EXPORT_COLUMNS.map((column) => csvCell(row[column])).join(",");
@@ -2,22 +2,26 @@
 // Audit event building and writing helpers.
 
 import { randomUUID } from "node:crypto";
-import { BatchWriteCommand, QueryCommand, UpdateCommand } from "@aws-sdk/lib-dynamodb";
+import { QueryCommand, UpdateCommand } from "@aws-sdk/lib-dynamodb";
+import { appendToAuditChain } from "./audit-chain";
 import { ddb } from "./clients";
 import { AUDIT_TTL_DAYS } from "./config";
 import type { AccessContext, AuditAction } from "./types";
+import { dispatchWebhooksForAuditEvents } from "./webhooks";
 
 /** Window for coalescing rapid-fire edits by the same user into one event. */
 const COALESCE_WINDOW_MS = 5 * 60 * 1000;
 
+/** `eventId` is only passed for an undo, which must carry the id
+ *  markAuditEventUndone stamped on the event it undoes. */
 export const buildAuditEvent = (
   access: AccessContext,
   action: AuditAction,
   itemId: string | null,
   itemName: string | null,
   details: Record<string, unknown>,
+  eventId: string = randomUUID(),
 ) => {
-  const eventId = randomUUID();
   const timestamp = new Date().toISOString();
   const pk = itemId ? `ITEM#${itemId}` : `ORG#${access.organizationId}`;
   const sk = `TS#${timestamp}#${eventId.slice(-8)}`;
@@ -81,30 +85,90 @@ export const findAuditEventByEventId = async (
   return undefined;
 };
 
+/** Chain and store events (audit-chain.ts). Losing the race for the chain
+ *  head doesn't lose them — they're parked and linked by the next append.
+ *  Any other failed write is logged rather than failing the request that
+ *  produced it, whose change has already been applied. */
+const putAuditEvents = async (
+  auditTable: string,
+  events: Record<string, unknown>[],
+): Promise<void> => {
+  if (events.length === 0) return;
+  try {
+    await appendToAuditChain(auditTable, events);
+  } catch (err) {
+    console.error("audit write failed", err);
+  }
+};
+
 export const writeAuditEvents = async (
   auditTable: string,
   events: Record<string, unknown>[],
 ): Promise<void> => {
   if (events.length === 0) return;
-  // BatchWriteItem supports max 25 items per call
-  for (let i = 0; i < events.length; i += 25) {
-    const batch = events.slice(i, i + 25);
-    try {
-      await ddb.send(
-        new BatchWriteCommand({
-          RequestItems: {
-            [auditTable]: batch.map((item) => ({
-              PutRequest: { Item: item },
-            })),
-          },
-        }),
-      );
-    } catch (err: any) {
-      console.error("audit write failed", err);
-    }
+  await putAuditEvents(auditTable, events);
+  await dispatchWebhooksForAuditEvents(events);
+};
+
+/**
+ * Stamp an event undone so its Undo button hides. The markers go on the item
+ * beside detailsJson, not inside it — the details are hashed into the chain
+ * and never rewritten; readAuditDetails folds the markers back in. Conditional
+ * on the event not already being undone, so of two racing undos only one
+ * wins. Returns the id the undo event must carry, or null when another undo
+ * got there first.
+ */
+export const markAuditEventUndone = async (
+  auditTable: string,
+  original: Record<string, unknown>,
+  userId: string,
+): Promise<string | null> => {
+  const undoEventId = randomUUID();
+  try {
+    await ddb.send(
+      new UpdateCommand({
+        TableName: auditTable,
+        Key: { pk: original.pk as string, sk: original.sk as string },
+        UpdateExpression: "SET undoneAt = :ua, undoneByUserId = :ub, undoneByEventId = :ue",
+        ConditionExpression: "attribute_not_exists(undoneAt)",
+        ExpressionAttributeValues: {
+          ":ua": new Date().toISOString(),
+          ":ub": userId,
+          ":ue": undoEventId,
+        },
+      }),
+    );
+  } catch (err: unknown) {
+    if ((err as { name?: string })?.name === "ConditionalCheckFailedException") return null;
+    throw err;
   }
+  return undoEventId;
+};
+
+/** A raw audit item's details as readers should see them, with any undo
+ *  markers (see markAuditEventUndone) folded in as `undone`, `undoneAt`, … —
+ *  the shape events undone before the chain carry inside detailsJson. */
+export const readAuditDetails = (item: Record<string, unknown>): Record<string, unknown> => {
+  let details: Record<string, unknown> = {};
+  try {
+    const parsed = JSON.parse(String(item.detailsJson ?? "{}"));
+    if (parsed && typeof parsed === "object") details = parsed as Record<string, unknown>;
+  } catch { /* unreadable details */ }
+  if (!item.undoneAt) return details;
+  return {
+    ...details,
+    undone: true,
+    undoneAt: item.undoneAt,
+    ...(item.undoneByUserId ? { undoneByUserId: item.undoneByUserId } : {}),
+    ...(item.undoneByEventId ? { undoneByEventId: item.undoneByEventId } : {}),
+  };
 };
 
+/** Event ids that a later event in `items` amends (see
+ *  writeAuditEventsCoalesced) — readers show the amendment in their place. */
+export const amendedAuditEventIds = (items: Array<Record<string, unknown>>): Set<string> =>
+  new Set(items.map((item) => item.amendsEventId).filter((id): id is string => typeof id === "string"));
+
 /** Normalize a value for comparison: treat null, undefined, and "" as equivalent
  *  empty values, and compare numbers numerically so 0 !== "0" doesn't trigger. */
 const normalizeForDiff = (v: unknown): string => {
@@ -202,10 +266,15 @@ const findRecentEventForCoalesce = async (
 
 /**
  * Write ITEM_CREATE / ITEM_EDIT audit events with coalescing: if the same user
- * edited the same item within COALESCE_WINDOW_MS, merge into the existing event
- * instead of creating a new one. Other event types (restock, retire, usage)
+ * edited the same item within COALESCE_WINDOW_MS, write an amendment of that
+ * event instead of a new one. Other event types (restock, retire, usage)
  * fall through to a plain write since they already carry distinct semantics.
  *
+ * An amendment is a fresh event (the incoming one's id and time) carrying the
+ * merged details and `amendsEventId` → the event it supersedes, which stays
+ * as written: events are chained (audit-chain.ts) and never edited. Readers
+ * drop superseded events, so the log still shows one event per burst.
+ *
  * Shape: the event object passed in is the same shape buildAuditEvent returns.
  */
 export const writeAuditEventsCoalesced = async (
@@ -214,7 +283,10 @@ export const writeAuditEventsCoalesced = async (
 ): Promise<void> => {
   if (events.length === 0) return;
   const cutoffIso = new Date(Date.now() - COALESCE_WINDOW_MS).toISOString();
-  const passthrough: Record<string, unknown>[] = [];
+  // What's stored (events, or amendments in their place) and what webhook
+  // subscribers hear — each edit as made, even when the log shows one event.
+  const stored: Record<string, unknown>[] = [];
+  const notified: Record<string, unknown>[] = [];
 
   for (const event of events) {
     const action = event.action as AuditAction;
@@ -222,7 +294,8 @@ export const writeAuditEventsCoalesced = async (
     const userId = event.userId as string | undefined;
     const isCoalescible = (action === "ITEM_CREATE" || action === "ITEM_EDIT") && !!itemId && !!userId;
     if (!isCoalescible) {
-      passthrough.push(event);
+      stored.push(event);
+      notified.push(event);
       continue;
     }
 
@@ -235,11 +308,12 @@ export const writeAuditEventsCoalesced = async (
       && !(recentAction === "ITEM_EDIT" && action === "ITEM_CREATE");
 
     if (!canMerge || !recent) {
-      passthrough.push(event);
+      stored.push(event);
+      notified.push(event);
       continue;
     }
 
-    // Merge details into the recent event and UpdateItem in place.
+    // Merge the new details onto the recent event's.
     let recentDetails: Record<string, unknown> = {};
     try { recentDetails = JSON.parse(String(recent.detailsJson ?? "{}")); } catch { recentDetails = {}; }
     let newDetails: Record<string, unknown> = {};
@@ -275,37 +349,17 @@ export const writeAuditEventsCoalesced = async (
       if (newDetails.snapshot) mergedDetails.snapshot = newDetails.snapshot;
     }
 
-    // Refresh itemName in case it was renamed, and bump timestamp so the feed
-    // sorts the coalesced event at the user's most recent activity.
-    const newItemName = event.itemName as string | undefined;
-    const newTimestamp = event.timestamp as string;
-    const newTtl = event.ttl as number;
-
-    try {
-      await ddb.send(
-        new UpdateCommand({
-          TableName: auditTable,
-          Key: { pk: recent.pk, sk: recent.sk },
-          UpdateExpression: "SET detailsJson = :d, #ts = :ts, #tt = :ttl"
-            + (newItemName ? ", itemName = :nm" : ""),
-          ExpressionAttributeNames: {
-            "#ts": "timestamp",
-            "#tt": "ttl",
-          },
-          ExpressionAttributeValues: {
-            ":d": JSON.stringify(mergedDetails),
-            ":ts": newTimestamp,
-            ":ttl": newTtl,
-            ...(newItemName ? { ":nm": newItemName } : {}),
-          },
-        }),
-      );
-    } catch (err) {
-      console.error("coalesce update failed, falling back to new write", err);
-      passthrough.push(event);
-    }
+    // The amendment takes the incoming event's time (so the feed sorts it at
+    // the user's most recent activity) and item name (in case of a rename).
+    stored.push({
+      ...event,
+      action: recentAction,
+      detailsJson: JSON.stringify(mergedDetails),
+      amendsEventId: recent.eventId,
+    });
+    notified.push(event);
   }
 
-  if (passthrough.length > 0) await writeAuditEvents(auditTable, passthrough);
+  await putAuditEvents(auditTable, stored);
+  if (notified.length > 0) await dispatchWebhooksForAuditEvents(notified);
 };
-
@@ -0,0 +1,161 @@
+// ── Shared: budgets.ts ──────────────────────────────────────────────────────
+// Supply budgets against spend, for GET /inventory/budgets. Pure over
+// (budgets, spend lines, locations) — reading receipts and open orders is the
+// caller's job (routes/budgets.ts). The order form's over-budget warning
+// matches spend to budgets the same way; keep budgetCovers in sync with
+// src/lib/budgets.ts.
+
+import { locationSubtreeIds } from "./locations";
+import type { InventoryBudget, InventoryLocation } from "./types";
+
+/** Share of a budget at which it starts warning. */
+export const BUDGET_WARNING_RATIO = 0.9;
+/** Cap on budgets per org — they live on one meta row. */
+export const MAX_BUDGETS = 100;
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Money against a budget: where it landed, on what item, when. `values` are
+ *  the item's current values (column scope); `at` is an ISO timestamp. */
+export type BudgetSpendLine = {
+  at: string;
+  locationId: string;
+  values: Record<string, unknown>;
+  amount: number;
+};
+
+export type BudgetStatus = InventoryBudget & {
+  /** Received spend in the period. */
+  actual: number;
+  /** Still to arrive on open orders placed in the period. */
+  committed: number;
+  /** amount − actual − committed; negative once over. */
+  remaining: number;
+  status: "ok" | "warning" | "over";
+  /** Share of the period gone by, 0–1 — the pace to compare spend against. */
+  elapsed: number;
+  /** Received spend per calendar month of the period, oldest first. */
+  byMonth: Array<{ month: string; actual: number }>;
+};
+
+/** Validate and trim a budget from a client body. Returns the budget, or an
+ *  error message for a 400. */
+export const normalizeBudget = (raw: unknown, id: string): InventoryBudget | string => {
+  const value = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const name = String(value.name ?? "").trim();
+  if (!name) return "Give the budget a name.";
+  const periodStart = String(value.periodStart ?? "").trim();
+  const periodEnd = String(value.periodEnd ?? "").trim();
+  if (!DATE_RE.test(periodStart) || !DATE_RE.test(periodEnd)) {
+    return "periodStart and periodEnd must be YYYY-MM-DD dates.";
+  }
+  if (periodEnd < periodStart) return "The period must end on or after its start.";
+  const amount = Number(value.amount);
+  if (!Number.isFinite(amount) || amount <= 0) return "amount must be a positive number.";
+  const locationId = String(value.locationId ?? "").trim();
+  const columnKey = String(value.columnKey ?? "").trim();
+  const columnValue = String(value.columnValue ?? "").trim();
+  if (columnKey && !columnValue) return "Pick the column value this budget covers.";
+  return {
+    id,
+    name,
+    ...(locationId ? { locationId } : {}),
+    ...(columnKey ? { columnKey, columnValue } : {}),
+    periodStart,
+    periodEnd,
+    amount: Math.round(amount * 100) / 100,
+  };
+};
+
+/** Coerce the stored meta row into budgets, dropping any that no longer
+ *  validate. */
+export const normalizeBudgets = (raw: unknown): InventoryBudget[] => {
+  const list = (raw && typeof raw === "object" ? (raw as { budgets?: unknown }).budgets : undefined);
+  if (!Array.isArray(list)) return [];
+  const budgets: InventoryBudget[] = [];
+  for (const entry of list as Array<Record<string, unknown>>) {
+    const id = String(entry?.id ?? "").trim();
+    const budget = id ? normalizeBudget(entry, id) : null;
+    if (budget && typeof budget !== "string") budgets.push(budget);
+  }
+  return budgets;
+};
+
+/** True when spend at `locationId` on an item with `values` counts toward
+ *  `budget`. `scope` is the budget location's subtree (null = anywhere). */
+export const budgetCovers = (
+  budget: InventoryBudget,
+  scope: ReadonlySet<string> | null,
+  locationId: string,
+  values: Record<string, unknown>,
+): boolean => {
+  if (scope && !scope.has(locationId)) return false;
+  if (budget.columnKey) {
+    const cell = String(values[budget.columnKey] ?? "").trim().toLowerCase();
+    if (!cell || cell !== (budget.columnValue ?? "").toLowerCase()) return false;
+  }
+  return true;
+};
+
+const inPeriod = (budget: InventoryBudget, at: string): boolean => {
+  const day = at.slice(0, 10);
+  return day >= budget.periodStart && day <= budget.periodEnd;
+};
+
+/** "YYYY-MM" of every month the period touches. */
+const periodMonths = (budget: InventoryBudget): string[] => {
+  const months: string[] = [];
+  let [year, month] = budget.periodStart.slice(0, 7).split("-").map(Number);
+  const last = budget.periodEnd.slice(0, 7);
+  for (;;) {
+    const key = `${year}-${String(month).padStart(2, "0")}`;
+    if (key > last) break;
+    months.push(key);
+    month += 1;
+    if (month > 12) {
+      month = 1;
+      year += 1;
+    }
+  }
+  return months;
+};
+
+/** Each budget with its received and committed spend, in budget order. */
+export const summarizeBudgets = (
+  budgets: InventoryBudget[],
+  received: BudgetSpendLine[],
+  committed: BudgetSpendLine[],
+  locations: InventoryLocation[],
+  now = new Date(),
+): BudgetStatus[] => {
+  const today = now.toISOString().slice(0, 10);
+  return budgets.map((budget) => {
+    const scope = budget.locationId ? new Set(locationSubtreeIds(locations, budget.locationId)) : null;
+    const covers = (line: BudgetSpendLine) =>
+      inPeriod(budget, line.at) && budgetCovers(budget, scope, line.locationId, line.values);
+
+    const byMonth = new Map(periodMonths(budget).map((month) => [month, 0]));
+    let actual = 0;
+    for (const line of received) {
+      if (!covers(line)) continue;
+      actual += line.amount;
+      const month = line.at.slice(0, 7);
+      byMonth.set(month, (byMonth.get(month) ?? 0) + line.amount);
+    }
+    const pending = committed.filter(covers).reduce((sum, line) => sum + line.amount, 0);
+
+    const startMs = Date.parse(`${budget.periodStart}T00:00:00.000Z`);
+    const endMs = Date.parse(`${budget.periodEnd}T23:59:59.999Z`);
+    const elapsed = today < budget.periodStart ? 0 : Math.min(1, (now.getTime() - startMs) / (endMs - startMs));
+    const projected = actual + pending;
+    return {
+      ...budget,
+      actual,
+      committed: pending,
+      remaining: budget.amount - projected,
+      status: projected > budget.amount ? "over" : projected >= budget.amount * BUDGET_WARNING_RATIO ? "warning" : "ok",
+      elapsed,
+      byMonth: [...byMonth].map(([month, amount]) => ({ month, actual: amount })),
+    };
+  });
+};
@@ -4,7 +4,9 @@
 import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
 import { DynamoDBDocumentClient } from "@aws-sdk/lib-dynamodb";
 import { CognitoIdentityProviderClient } from "@aws-sdk/client-cognito-identity-provider";
+import { S3Client } from "@aws-sdk/client-s3";
 
 export const rawDdb = new DynamoDBClient({});
 export const ddb = DynamoDBDocumentClient.from(rawDdb);
 export const cognito = new CognitoIdentityProviderClient({});
+export const s3 = new S3Client({});
@@ -21,6 +21,10 @@ const CORE_COLUMN_IS_EDITABLE: Record<string, boolean> = {
   itemName: true,
   quantity: true,
   minQuantity: true,
+  parQuantity: true,
+  gtin: true,
+  lotNumber: true,
+  serialNumber: true,
   notes: true,
   // Note: vendor / reorderLink / unitCost / packSize / packCost intentionally
   // omitted. They're deprecated (1g) — vendor-specific data lives on the
@@ -71,6 +75,10 @@ const CORE_COLUMN_IS_GROUPABLE: Record<string, boolean> = {
   itemName: false,
   quantity: false,
   minQuantity: false,
+  parQuantity: false,
+  gtin: false,
+  lotNumber: false,
+  serialNumber: false,
   notes: false,
 };
 
@@ -198,6 +206,25 @@ export const ensureColumns = async (organizationId: string): Promise<InventoryCo
       sortOrder: 30,
       createdAt: new Date().toISOString(),
     },
+    // Par: the level a location is filled back up to once it drops below
+    // Min Quantity. Per row like min (each row is one item at one location);
+    // restock generation takes the highest par across an item's lots. Blank
+    // means "fill back to min".
+    {
+      organizationId,
+      module: "inventory",
+      kind: "column",
+      key: "parQuantity",
+      label: "Par Quantity",
+      type: "number",
+      isCore: true,
+      isRequired: false,
+      isVisible: true,
+      isEditable: true,
+      isGroupable: false,
+      sortOrder: 35,
+      createdAt: new Date().toISOString(),
+    },
     // 1h.6: `unit` is no longer a core column on the inventory row. UoM
     // moved to per-(item, vendor) pricing rows so each vendor can sell in
     // its own unit (Costco apples in lb vs. corner-store ct). Quantity /
@@ -212,6 +239,58 @@ export const ensureColumns = async (organizationId: string): Promise<InventoryCo
     // seed get demoted to isCore: false by the reconcile pass below so they
     // can be deleted via Manage Columns. Item values for these keys remain
     // readable as a fallback until 1g.7 migration finishes.
+    // Manufacturer barcode (UPC/EAN/GTIN). Drives scan-to-match when
+    // receiving orders. Hidden by default — most users only ever fill it by
+    // scanning, via the receive form's "link this code" prompt.
+    {
+      organizationId,
+      module: "inventory",
+      kind: "column",
+      key: "gtin",
+      label: "GTIN / UPC",
+      type: "text",
+      isCore: true,
+      isRequired: false,
+      isVisible: false,
+      isEditable: true,
+      isGroupable: false,
+      sortOrder: 80,
+      createdAt: new Date().toISOString(),
+    },
+    // Manufacturer lot / serial codes (see lots.ts). Each row is one lot, so
+    // these identify it for recalls; receiving, usage, retire and adjust
+    // stamp them on their audit events. Hidden by default — templates that
+    // track them (Medical, Fire / EMS, IT) unhide them on apply.
+    {
+      organizationId,
+      module: "inventory",
+      kind: "column",
+      key: "lotNumber",
+      label: "Lot Number",
+      type: "text",
+      isCore: true,
+      isRequired: false,
+      isVisible: false,
+      isEditable: true,
+      isGroupable: false,
+      sortOrder: 84,
+      createdAt: new Date().toISOString(),
+    },
+    {
+      organizationId,
+      module: "inventory",
+      kind: "column",
+      key: "serialNumber",
+      label: "Serial Number",
+      type: "text",
+      isCore: true,
+      isRequired: false,
+      isVisible: false,
+      isEditable: true,
+      isGroupable: false,
+      sortOrder: 86,
+      createdAt: new Date().toISOString(),
+    },
     {
       organizationId,
       module: "inventory",
@@ -9,12 +9,30 @@ export const USER_POOL_ID = process.env.USER_POOL_ID ?? "";
 export const ORG_TABLE = process.env.ORG_TABLE!;
 /** Global table holding per-org WickOps platform-support consent grants. */
 export const SUPPORT_GRANT_TABLE = process.env.SUPPORT_GRANT_TABLE ?? "";
+/** Global table holding org API keys, keyed by the SHA-256 of the secret. */
+export const API_KEY_TABLE = process.env.API_KEY_TABLE ?? "";
+/** Header machine clients send their key in (Authorization: Bearer also works). */
+export const API_KEY_HEADER = "x-api-key";
+/** Every issued secret starts with this, so a pasted key is recognizable and
+ *  secret scanners can match it. */
+export const API_KEY_SECRET_PREFIX = "wk_";
+/** Roles an API key may carry. Owner-level rights are never delegated to a key. */
+export const API_KEY_ROLES = ["ADMIN", "EDITOR", "VIEWER"] as const;
+/** Path prefix of the versioned public REST API. API Gateway routes it without
+ *  the Cognito authorizer; the Lambda authenticates it by API key instead. */
+export const PUBLIC_API_PATH_PREFIX = "/v1/";
 /** Cognito group whose members may read any org that has a live support grant. */
 export const PLATFORM_SUPPORT_GROUP = "PLATFORM_SUPPORT";
 /** Synthetic role stamped on a support operator's AccessContext. Read-only. */
 export const PLATFORM_SUPPORT_ROLE = "PLATFORM_SUPPORT";
 /** Header the support console sends to target a specific customer org. */
 export const SUPPORT_ORG_HEADER = "x-wickops-support-org";
+/** Header a client sets on a mutating request it may replay (the offline
+ *  queue). A repeat with the same key gets the first response back. */
+export const IDEMPOTENCY_KEY_HEADER = "idempotency-key";
+/** How long a stored response answers replays. Longer than the client keeps
+ *  queued mutations. */
+export const IDEMPOTENCY_TTL_DAYS = 14;
 export const INVENTORY_ORG_TABLE_PREFIX =
   String(process.env.INVENTORY_ORG_TABLE_PREFIX ?? "wickops-inventory").trim() ||
   "wickops-inventory";
@@ -24,6 +42,13 @@ export const INVENTORY_STORAGE_NAMESPACE = createHash("sha256")
   .slice(0, 8);
 export const INVENTORY_COLUMN_BY_MODULE_INDEX = "ByModuleSortOrder";
 export const INVENTORY_ITEM_BY_MODULE_INDEX = "ByModulePosition";
+/** GSI on the itemTable (locationId → position) for reading one location's
+ *  rows without a full-table query. Added to existing tables in place, so
+ *  readers fall back to ByModulePosition while it backfills. */
+export const INVENTORY_ITEM_BY_LOCATION_INDEX = "ByLocationPosition";
+/** GSI on the itemTable (module → updatedAtCustom) for the change feed's
+ *  "rows written since" read. Added in place like ByLocationPosition. */
+export const INVENTORY_ITEM_BY_MODULE_UPDATED_INDEX = "ByModuleUpdatedAt";
 /** GSI on the vendorPricingTable for "all vendors selling this item" queries. */
 export const INVENTORY_VENDOR_PRICING_BY_ITEM_INDEX = "ByItemId";
 
@@ -75,11 +100,38 @@ export const HEADER_ALIASES: Record<string, string> = {
   minquantity: "minQuantity",
   minqty: "minQuantity",
   minimumqty: "minQuantity",
+  parquantity: "parQuantity",
+  parlevel: "parQuantity",
+  par: "parQuantity",
+  maxquantity: "parQuantity",
+  maxqty: "parQuantity",
   expirationdate: "expirationDate",
   expirydate: "expirationDate",
   expdate: "expirationDate",
+  lotnumber: "lotNumber",
+  lot: "lotNumber",
+  lotno: "lotNumber",
+  serialnumber: "serialNumber",
+  serial: "serialNumber",
+  serialno: "serialNumber",
 };
 
 export const AUDIT_BY_TIMESTAMP_INDEX = "ByTimestamp";
 export const AUDIT_BY_USER_INDEX = "ByUser";
+/** Hot retention: how long an audit event stays in the org's DynamoDB table
+ *  (its `ttl`). Orgs that keep records longer have them moved to the archive
+ *  before then (audit-archive.ts). */
 export const AUDIT_TTL_DAYS = 365;
+/** The archive sweep moves events this many days before their TTL, so a
+ *  missed daily run or two never loses an event to DynamoDB's TTL delete. */
+export const AUDIT_ARCHIVE_LEAD_DAYS = 7;
+/** Retention periods an owner can pick. 1 year = hot only, nothing archived. */
+export const AUDIT_RETENTION_YEAR_OPTIONS = [1, 2, 3, 5, 7, 10] as const;
+/** Controlled-substance and patient-care supply records commonly need 5–7
+ *  years; default to the long end. */
+export const DEFAULT_AUDIT_RETENTION_YEARS = 7;
+/** S3 bucket holding archived audit events. Required wherever the sweep runs
+ *  in Lambda; AUDIT_ARCHIVE_DIR is a filesystem stand-in for local dev and
+ *  tests, ignored inside Lambda. */
+export const AUDIT_ARCHIVE_BUCKET = process.env.AUDIT_ARCHIVE_BUCKET ?? "";
+export const AUDIT_ARCHIVE_DIR = process.env.AUDIT_ARCHIVE_DIR ?? "";
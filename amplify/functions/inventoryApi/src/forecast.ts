@@ -0,0 +1,142 @@
+// ── Shared: forecast.ts ─────────────────────────────────────────────────────
+// Consumption rates for GET /inventory/forecast. Pure over (usage samples,
+// receipt samples) — reading USAGE_APPROVE / RESTOCK_RECEIVED events is the
+// caller's job (routes/forecast.ts). Rates are per (item name, location),
+// the same grouping the Shop list orders against; days of supply are worked
+// out in the browser from live on-hand (src/lib/forecast.ts).
+
+export const FORECAST_METHODS = ["moving-average", "weighted-trend"] as const;
+export type ForecastMethod = (typeof FORECAST_METHODS)[number];
+
+export const DEFAULT_FORECAST_WINDOW_DAYS = 30;
+export const MAX_FORECAST_WINDOW_DAYS = 180;
+/** How far back receipts are read to learn each item's order cycle. */
+export const ORDER_CYCLE_LOOKBACK_DAYS = 365;
+/** Order cycle when neither the item nor the org has two receipts to go on. */
+export const DEFAULT_ORDER_CYCLE_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** One usage or receipt, attributed to an item name at a location. */
+export type ForecastSample = {
+  itemName: string;
+  locationId: string;
+  /** ISO timestamp. */
+  at: string;
+  qty: number;
+};
+
+export type ConsumptionRate = {
+  itemName: string;
+  locationId: string;
+  /** Units used per day under the chosen method. */
+  dailyRate: number;
+  /** Total used inside the window. */
+  usedInWindow: number;
+  /** Typical days between receipts of this item here — the org's typical
+   *  cycle when the item doesn't have two receipts yet. */
+  orderCycleDays: number;
+};
+
+export type UsageForecast = {
+  /** Org-wide typical days between receipts. */
+  orderCycleDays: number;
+  rates: ConsumptionRate[];
+};
+
+/** Grouping key — lowercased name so "Gauze" and "gauze " are one item.
+ *  Matches forecastKey in src/lib/forecast.ts. */
+export const forecastKey = (itemName: string, locationId: string): string =>
+  `${locationId}#${itemName.trim().toLowerCase()}`;
+
+/** Whole-day gaps between distinct receipt days — empty with fewer than two. */
+const gapsBetween = (timestamps: string[]): number[] => {
+  const days = [...new Set(timestamps.map((at) => Math.floor(Date.parse(at) / DAY_MS)).filter(Number.isFinite))]
+    .sort((a, b) => a - b);
+  const gaps: number[] = [];
+  for (let i = 1; i < days.length; i += 1) gaps.push(days[i] - days[i - 1]);
+  return gaps;
+};
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/**
+ * Daily rate from usage inside the last `windowDays`.
+ * - moving-average: total used ÷ window days.
+ * - weighted-trend: each day weighted by how recent it is (today = window,
+ *   the oldest day = 1), so a recent pickup in usage moves the rate sooner.
+ */
+export const dailyRate = (
+  usage: Array<{ at: string; qty: number }>,
+  method: ForecastMethod,
+  windowDays: number,
+  now: Date,
+): { rate: number; used: number } => {
+  const nowMs = now.getTime();
+  let used = 0;
+  let weighted = 0;
+  for (const sample of usage) {
+    const ageDays = Math.floor((nowMs - Date.parse(sample.at)) / DAY_MS);
+    if (!Number.isFinite(ageDays) || ageDays < 0 || ageDays >= windowDays) continue;
+    used += sample.qty;
+    weighted += sample.qty * (windowDays - ageDays);
+  }
+  const rate = method === "weighted-trend"
+    ? weighted / ((windowDays * (windowDays + 1)) / 2)
+    : used / windowDays;
+  return { rate, used };
+};
+
+/** Consumption rate and order cycle for every (item, location) with usage in
+ *  the window. */
+export const forecastConsumption = (
+  usage: ForecastSample[],
+  receipts: ForecastSample[],
+  method: ForecastMethod,
+  windowDays: number,
+  now = new Date(),
+): UsageForecast => {
+  const receiptTimes = new Map<string, string[]>();
+  for (const receipt of receipts) {
+    const key = forecastKey(receipt.itemName, receipt.locationId);
+    const list = receiptTimes.get(key) ?? [];
+    list.push(receipt.at);
+    receiptTimes.set(key, list);
+  }
+  const cycleByKey = new Map<string, number>();
+  const allGaps: number[] = [];
+  for (const [key, times] of receiptTimes) {
+    const gaps = gapsBetween(times);
+    allGaps.push(...gaps);
+    const cycle = median(gaps);
+    if (cycle !== null) cycleByKey.set(key, cycle);
+  }
+  const orderCycleDays = median(allGaps) ?? DEFAULT_ORDER_CYCLE_DAYS;
+
+  const usageByKey = new Map<string, { itemName: string; locationId: string; samples: ForecastSample[] }>();
+  for (const sample of usage) {
+    const key = forecastKey(sample.itemName, sample.locationId);
+    const group = usageByKey.get(key) ?? { itemName: sample.itemName.trim(), locationId: sample.locationId, samples: [] };
+    group.samples.push(sample);
+    usageByKey.set(key, group);
+  }
+
+  const rates: ConsumptionRate[] = [];
+  for (const [key, group] of usageByKey) {
+    const { rate, used } = dailyRate(group.samples, method, windowDays, now);
+    if (rate <= 0) continue;
+    rates.push({
+      itemName: group.itemName,
+      locationId: group.locationId,
+      dailyRate: rate,
+      usedInWindow: used,
+      orderCycleDays: cycleByKey.get(key) ?? orderCycleDays,
+    });
+  }
+  return { orderCycleDays, rates };
+};
@@ -0,0 +1,34 @@
+// ── Shared: gtin.ts ─────────────────────────────────────────────────────────
+// Manufacturer barcodes (GTIN family: EAN-8, UPC-A, EAN-13, GTIN-14). Stored
+// as the digits printed under the bars; compared by GTIN-14 key so a UPC-A
+// typed as 12 digits matches the same code scanned as a 13-digit EAN with a
+// leading zero. Mirrored client-side in src/lib/gtin.ts.
+
+const GTIN_LENGTHS = new Set([8, 12, 13, 14]);
+
+/** Mod-10 check over every digit but the last, weights 3/1 from the right. */
+const hasValidCheckDigit = (digits: string): boolean => {
+  let sum = 0;
+  for (let i = digits.length - 2, weight = 3; i >= 0; i -= 1, weight = weight === 3 ? 1 : 3) {
+    sum += Number(digits[i]) * weight;
+  }
+  return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1]);
+};
+
+/**
+ * Strip the spaces/dashes people copy off packaging and validate. Returns the
+ * digits, or null when the input isn't a well-formed GTIN (wrong length or bad
+ * check digit). Callers treat empty input separately — it means "clear".
+ */
+export const normalizeGtin = (raw: unknown): string | null => {
+  const digits = String(raw ?? "").replace(/[\s-]/g, "");
+  if (!/^\d+$/.test(digits) || !GTIN_LENGTHS.has(digits.length)) return null;
+  return hasValidCheckDigit(digits) ? digits : null;
+};
+
+/** Comparison key: zero-padded to 14 digits. */
+export const gtinMatchKey = (gtin: string): string => gtin.padStart(14, "0");
+
+/** Shared 400 copy for request validators. */
+export const invalidGtinMessage = (raw: unknown): string =>
+  `"${String(raw ?? "").trim()}" isn't a valid UPC/EAN/GTIN barcode.`;
@@ -1,9 +1,9 @@
 // ── inventoryApi Lambda entry point ──────────────────────────────────────────
-import { json, corsHeaders, parseBody, getPath, getMethod, getQueryString } from "./http";
-import { getAccessContext } from "./access";
+import { json, corsHeaders, parseBody, getPath, getMethod, getQueryString, getHeader } from "./http";
+import { getAccessContext, getApiKeyAccessContext } from "./access";
 import { dispatch } from "./router";
 import { InventoryStorageProvisioningError, isResourceInUse } from "./storage";
-import { PROVISIONING_RETRY_AFTER_MS } from "./config";
+import { IDEMPOTENCY_KEY_HEADER, PROVISIONING_RETRY_AFTER_MS, PUBLIC_API_PATH_PREFIX } from "./config";
 
 export const handler = async (event: any) => {
   try {
@@ -15,10 +15,13 @@ export const handler = async (event: any) => {
       return { statusCode: 204, headers: corsHeaders, body: "" };
     }
 
-    const access = await getAccessContext(event);
+    // /v1 is the public API: authenticated by org API key, not a Cognito JWT.
+    const access = path.startsWith(PUBLIC_API_PATH_PREFIX)
+      ? await getApiKeyAccessContext(event)
+      : await getAccessContext(event);
     const body = parseBody(event);
 
-    const result = await dispatch(method, path, access, body, query);
+    const result = await dispatch(method, path, access, body, query, getHeader(event, IDEMPOTENCY_KEY_HEADER));
     if (result) return result;
 
     return json(404, { error: "Not found" });
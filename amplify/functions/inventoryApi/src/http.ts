@@ -8,7 +8,7 @@ export const CORS_ALLOW_ORIGIN =
     ? "https://systems.wickops.com"
     : "http://localhost:5173";
 
-export const CORS_ALLOW_HEADERS = "Authorization,Content-Type";
+export const CORS_ALLOW_HEADERS = "Authorization,Content-Type,Idempotency-Key";
 
 export const corsHeaders = {
   "Access-Control-Allow-Origin": CORS_ALLOW_ORIGIN,
@@ -48,6 +48,17 @@ export const getMethod = (event: any): string =>
 export const getQueryString = (event: any): Record<string, string | undefined> =>
   (event?.queryStringParameters ?? {}) as Record<string, string | undefined>;
 
+/** Case-insensitive request header. API Gateway HTTP API lowercases header
+ *  keys, but REST-style events may not. */
+export const getHeader = (event: { headers?: Record<string, string | undefined> } | null | undefined, name: string): string => {
+  const headers = event?.headers ?? {};
+  const wanted = name.toLowerCase();
+  for (const key of Object.keys(headers)) {
+    if (key.toLowerCase() === wanted) return String(headers[key] ?? "").trim();
+  }
+  return "";
+};
+
 export const parseNextToken = (value: string | undefined): Record<string, unknown> | undefined => {
   if (!value) return undefined;
   try {
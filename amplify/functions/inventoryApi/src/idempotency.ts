@@ -0,0 +1,123 @@
+// ── Shared: idempotency.ts ──────────────────────────────────────────────────
+// Replay protection for mutating requests. The browser's offline queue
+// re-sends a mutation until it gets an answer, and a request that timed out on
+// a flaky connection may already have been applied. A client that sets an
+// Idempotency-Key gets the response of the first completed run back for every
+// repeat, so usage, receives and moves are never applied twice.
+//
+// A key is claimed before the handler runs; a concurrent repeat sees the claim
+// and is told to retry. A claim whose run never finished (the Lambda died
+// mid-request) lapses after CLAIM_LEASE_MS and the next repeat takes it over.
+// Responses are kept for IDEMPOTENCY_TTL_DAYS.
+
+import { DeleteCommand, GetCommand, PutCommand, UpdateCommand } from "@aws-sdk/lib-dynamodb";
+import { ddb } from "./clients";
+import { IDEMPOTENCY_TTL_DAYS } from "./config";
+import { json } from "./http";
+import type { AccessContext } from "./types";
+
+type StoredResponse = ReturnType<typeof json>;
+
+type IdempotencyRecord = {
+  id: string;
+  state: "pending" | "done";
+  method: string;
+  path: string;
+  /** When the key was (last) claimed; a pending claim older than
+   *  CLAIM_LEASE_MS is abandoned. */
+  createdAt: string;
+  response?: StoredResponse;
+  ttl: number;
+};
+
+/** Keys longer than this are rejected rather than stored. */
+const MAX_KEY_LENGTH = 200;
+/** DynamoDB items cap at 400 KB; larger responses aren't stored, so a repeat
+ *  of such a request runs again. Mutation responses are far smaller. */
+const MAX_STORED_BODY_LENGTH = 300_000;
+/** How long a pending claim blocks repeats. Comfortably past the API
+ *  function's 30-second timeout, so a live run is never taken over. */
+const CLAIM_LEASE_MS = 2 * 60 * 1000;
+
+/**
+ * Run `handler` at most once per (caller, key). A repeat of a completed
+ * request returns the stored response; a repeat while the first is still
+ * running gets 409 IDEMPOTENCY_IN_PROGRESS, until the claim's lease runs out
+ * and a repeat runs it again. 5xx and provisioning (202)
+ * responses aren't stored and throws release the claim, so those can be
+ * retried with the same key.
+ */
+export const runIdempotent = async (
+  table: string,
+  access: AccessContext,
+  key: string,
+  request: { method: string; path: string },
+  handler: () => Promise<StoredResponse>,
+): Promise<StoredResponse> => {
+  if (key.length > MAX_KEY_LENGTH) {
+    return json(400, { error: "Idempotency-Key is too long." });
+  }
+  const id = `${access.userId}#${key}`;
+  const now = Date.now();
+  const claim: IdempotencyRecord = {
+    id,
+    state: "pending",
+    method: request.method,
+    path: request.path,
+    createdAt: new Date(now).toISOString(),
+    ttl: Math.floor(now / 1000) + IDEMPOTENCY_TTL_DAYS * 86400,
+  };
+  try {
+    await ddb.send(new PutCommand({
+      TableName: table,
+      Item: claim,
+      // New key, or an abandoned claim for the same request.
+      ConditionExpression:
+        "attribute_not_exists(id) OR (#state = :pending AND #method = :method AND #path = :path AND createdAt < :leaseStart)",
+      ExpressionAttributeNames: { "#state": "state", "#method": "method", "#path": "path" },
+      ExpressionAttributeValues: {
+        ":pending": "pending",
+        ":method": request.method,
+        ":path": request.path,
+        ":leaseStart": new Date(now - CLAIM_LEASE_MS).toISOString(),
+      },
+    }));
+  } catch (err) {
+    if ((err as { name?: string })?.name !== "ConditionalCheckFailedException") throw err;
+    const res = await ddb.send(new GetCommand({ TableName: table, Key: { id } }));
+    const existing = res.Item as IdempotencyRecord | undefined;
+    if (existing && (existing.method !== request.method || existing.path !== request.path)) {
+      return json(422, { error: "That Idempotency-Key was already used for a different request." });
+    }
+    if (existing?.state === "done" && existing.response) return existing.response;
+    return json(409, {
+      error: "This request is already being processed. Try again shortly.",
+      code: "IDEMPOTENCY_IN_PROGRESS",
+    });
+  }
+
+  let response: StoredResponse;
+  try {
+    response = await handler();
+  } catch (err) {
+    await ddb.send(new DeleteCommand({ TableName: table, Key: { id } })).catch(() => {});
+    throw err;
+  }
+
+  const storable =
+    response.statusCode < 500 &&
+    response.statusCode !== 202 &&
+    response.body.length <= MAX_STORED_BODY_LENGTH;
+  if (storable) {
+    await ddb.send(new UpdateCommand({
+      TableName: table,
+      Key: { id },
+      UpdateExpression: "SET #state = :done, #response = :response",
+      ExpressionAttributeNames: { "#state": "state", "#response": "response" },
+      ExpressionAttributeValues: { ":done": "done", ":response": response },
+    })).catch((err) => console.warn("[idempotency] failed to store response", err));
+  } else {
+    await ddb.send(new DeleteCommand({ TableName: table, Key: { id } })).catch(() => {});
+  }
+  return response;
+};
@@ -0,0 +1,272 @@
+// ── Shared: inventory-snapshot.ts ───────────────────────────────────────────
+// Point-in-time inventory for GET /inventory/items/as-of. Starts from the
+// rows as they are now and walks the activity log backward, newest event
+// first, undoing each one until it reaches the requested instant. Pure over
+// (items, events) — reading both is the caller's job (routes/inventory-snapshot.ts).
+//
+// Quantities are rewound from the absolute "before" figure each event stamps
+// (qtyBefore, quantityBefore, sourceQtyBefore…) rather than by subtracting
+// deltas, so a missed event leaves one row off instead of skewing every
+// figure behind it.
+
+import { amendedAuditEventIds, readAuditDetails } from "./audit";
+import { parseValuesJson } from "./items";
+import type { InventoryItem } from "./types";
+
+/** Markers an ITEM_RETIRE sets on the row (see handleUndoRetire). */
+const RETIRE_MARKERS = ["retiredAt", "retiredQty", "retirementReason"] as const;
+
+/** Actions that change a row. RESTOCK_ADDED isn't one: it rides along with
+ *  the ITEM_EDIT of the same save, which already carries the quantity
+ *  change — undoing both would count it twice. */
+const REPLAYED_ACTIONS = new Set<string>([
+  "ITEM_CREATE",
+  "ITEM_DELETE",
+  "ITEM_EDIT",
+  "ITEM_MOVE",
+  "ITEM_TRANSFER",
+  "ITEM_RETIRE",
+  "ITEM_UNRETIRE",
+  "ITEM_QTY_ADJUST",
+  "USAGE_APPROVE",
+  "USAGE_UNDO",
+  "RESTOCK_RECEIVED",
+]);
+
+/** A row's state while rewinding. `exists` goes false once the walk passes
+ *  the event that created it; `retired` rows are kept but left out of the
+ *  result, like the grid's on-hand views. */
+type RowState = {
+  id: string;
+  exists: boolean;
+  retired: boolean;
+  locationId: string;
+  position: number;
+  createdAt: string;
+  values: Record<string, unknown>;
+};
+
+export type InventorySnapshot = {
+  items: InventoryItem[];
+  /** Events undone on the way back. */
+  replayed: number;
+  /** CSV imports since `at` that updated rows in place. Those updates carry
+   *  no per-row event, so the rows they touched show their current values. */
+  importsWithUpdates: number;
+};
+
+const num = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === "") return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+};
+
+const str = (value: unknown): string => (typeof value === "string" ? value.trim() : "");
+
+/** Newest first; ties on timestamp fall back to chain order, then id. */
+const newestFirst = (a: Record<string, unknown>, b: Record<string, unknown>): number => {
+  const ts = String(b.timestamp ?? "").localeCompare(String(a.timestamp ?? ""));
+  if (ts !== 0) return ts;
+  const seq = Number(b.seq ?? 0) - Number(a.seq ?? 0);
+  if (seq !== 0) return seq;
+  return String(b.eventId ?? "").localeCompare(String(a.eventId ?? ""));
+};
+
+/**
+ * Rebuild the inventory as it stood at `at` from the current rows and every
+ * audit event stamped after it (any order; amended events are skipped).
+ * Returns on-hand rows only — retired and not-yet-created rows are dropped —
+ * in grid order, shaped like the rows GET /inventory/items returns.
+ */
+export const replayInventoryAsOf = (
+  items: InventoryItem[],
+  events: Array<Record<string, unknown>>,
+  at: string,
+): InventorySnapshot => {
+  const rows = new Map<string, RowState>();
+  for (const item of items) {
+    const values = parseValuesJson(item.valuesJson);
+    rows.set(item.id, {
+      id: item.id,
+      exists: true,
+      retired: Boolean(values.retiredAt),
+      locationId: str(item.locationId),
+      position: Number(item.position) || 0,
+      createdAt: String(item.createdAt ?? ""),
+      values,
+    });
+  }
+  // Rows that are gone now (deleted, or lots the usage collapse pruned) come
+  // back from the events that mention them; they sort after the live rows.
+  const revivedPosition = items.reduce((max, item) => Math.max(max, Number(item.position) || 0), 0) + 1;
+
+  /** The row an event touched. A row we haven't seen must have been removed
+   *  later without an event of its own, so it existed when this one ran;
+   *  seed what we can from the event. */
+  const rowAt = (id: string, seed: () => Record<string, unknown>, locationId: string): RowState => {
+    let row = rows.get(id);
+    if (!row) {
+      row = { id, exists: true, retired: false, locationId, position: revivedPosition, createdAt: "", values: seed() };
+      rows.set(id, row);
+    }
+    return row;
+  };
+
+  const setQuantity = (row: RowState, quantity: number | null) => {
+    if (quantity === null) return;
+    row.exists = true;
+    row.values.quantity = quantity;
+  };
+
+  const amended = amendedAuditEventIds(events);
+  const ordered = events
+    .filter((event) => String(event.timestamp ?? "") > at && !amended.has(String(event.eventId ?? "")))
+    .sort(newestFirst);
+
+  let replayed = 0;
+  let importsWithUpdates = 0;
+  for (const event of ordered) {
+    const action = String(event.action ?? "");
+    const details = readAuditDetails(event);
+    if (action === "CSV_IMPORT") {
+      if ((num(details.rowsUpdated) ?? 0) > 0) importsWithUpdates += 1;
+      continue;
+    }
+    const itemId = str(event.itemId);
+    if (!itemId || !REPLAYED_ACTIONS.has(action)) continue;
+    const itemName = str(event.itemName);
+    const eventLocationId = str(details.locationId);
+    const seedFromEvent = (): Record<string, unknown> => {
+      const snapshot = (details.snapshot ?? {}) as Record<string, unknown>;
+      return {
+        ...(itemName ? { itemName } : {}),
+        ...(snapshot.minQuantity !== undefined ? { minQuantity: snapshot.minQuantity } : {}),
+        ...(details.expirationDate ? { expirationDate: details.expirationDate } : {}),
+        ...(details.lotNumber ? { lotNumber: details.lotNumber } : {}),
+        ...(details.serialNumber ? { serialNumber: details.serialNumber } : {}),
+        ...(details.parentItemId ? { parentItemId: details.parentItemId } : {}),
+      };
+    };
+    const row = () => rowAt(itemId, seedFromEvent, eventLocationId);
+    replayed += 1;
+
+    switch (action) {
+      case "ITEM_CREATE":
+        row().exists = false;
+        break;
+      case "ITEM_DELETE": {
+        const deleted = row();
+        deleted.exists = true;
+        deleted.values = { ...((details.deletedValues ?? {}) as Record<string, unknown>) };
+        deleted.retired = Boolean(deleted.values.retiredAt);
+        if (eventLocationId) deleted.locationId = eventLocationId;
+        break;
+      }
+      case "ITEM_EDIT": {
+        const edited = row();
+        const changes = Array.isArray(details.changes) ? details.changes : [];
+        for (const change of changes as Array<{ field?: unknown; from?: unknown }>) {
+          if (!change || typeof change.field !== "string") continue;
+          if (change.from === null || change.from === undefined) delete edited.values[change.field];
+          else edited.values[change.field] = change.from;
+        }
+        break;
+      }
+      case "ITEM_MOVE":
+        if (str(details.fromLocationId)) row().locationId = str(details.fromLocationId);
+        break;
+      case "ITEM_TRANSFER": {
+        setQuantity(row(), num(details.sourceQtyBefore));
+        const toItemId = str(details.toItemId);
+        if (!toItemId) break;
+        const dest = rowAt(toItemId, seedFromEvent, str(details.toLocationId));
+        if (details.merged) setQuantity(dest, num(details.destQtyBefore));
+        else dest.exists = false;
+        break;
+      }
+      case "ITEM_RETIRE": {
+        const retired = row();
+        setQuantity(retired, num(details.qtyBefore));
+        retired.retired = false;
+        for (const key of RETIRE_MARKERS) delete retired.values[key];
+        break;
+      }
+      case "ITEM_UNRETIRE": {
+        const restored = row();
+        setQuantity(restored, num(details.quantityBefore));
+        restored.retired = true;
+        break;
+      }
+      case "ITEM_QTY_ADJUST":
+        setQuantity(row(), num(details.qtyBefore));
+        break;
+      case "USAGE_APPROVE": {
+        // Item-level (FEFO) usage: quantityBefore is the item total, the
+        // per-lot figures are in `lots`.
+        if (!Array.isArray(details.lots)) {
+          setQuantity(row(), num(details.quantityBefore));
+          break;
+        }
+        for (const draw of details.lots as Array<Record<string, unknown>>) {
+          const lotId = str(draw?.itemId);
+          if (!lotId) continue;
+          const lot = rowAt(lotId, () => ({
+            ...seedFromEvent(),
+            expirationDate: draw.expirationDate,
+            lotNumber: draw.lotNumber,
+            serialNumber: draw.serialNumber,
+            ...(draw.unitCost !== undefined ? { unitCost: draw.unitCost } : {}),
+          }), eventLocationId);
+          setQuantity(lot, num(draw.quantityBefore));
+        }
+        break;
+      }
+      case "USAGE_UNDO": {
+        if (!Array.isArray(details.lots)) {
+          const before = num(details.quantityBefore);
+          const undone = row();
+          if (before !== null) setQuantity(undone, before);
+          else setQuantity(undone, (num(undone.values.quantity) ?? 0) - (num(details.quantityRestored) ?? 0));
+          break;
+        }
+        for (const lot of details.lots as Array<Record<string, unknown>>) {
+          const lotId = str(lot?.itemId);
+          if (!lotId) continue;
+          const target = rowAt(lotId, seedFromEvent, eventLocationId);
+          if (lot.recreated) target.exists = false;
+          else setQuantity(target, (num(target.values.quantity) ?? 0) - (num(lot.quantityRestored) ?? 0));
+        }
+        break;
+      }
+      case "RESTOCK_RECEIVED": {
+        if (details.addedToInventory) {
+          row().exists = false;
+          break;
+        }
+        const targetId = str(details.targetItemId) || itemId;
+        setQuantity(rowAt(targetId, seedFromEvent, eventLocationId), num(details.qtyBefore));
+        break;
+      }
+    }
+  }
+
+  const result: InventoryItem[] = [];
+  for (const row of rows.values()) {
+    if (!row.exists || row.retired) continue;
+    // Rows created without an ITEM_CREATE (CSV imports, pre-audit rows) are
+    // placed by their own timestamp.
+    if (row.createdAt && row.createdAt > at) continue;
+    result.push({
+      id: row.id,
+      organizationId: items[0]?.organizationId ?? "",
+      module: "inventory",
+      position: row.position,
+      ...(row.locationId ? { locationId: row.locationId } : {}),
+      valuesJson: JSON.stringify(row.values),
+      createdAt: row.createdAt,
+      updatedAtCustom: at,
+    });
+  }
+  result.sort((a, b) => a.position - b.position);
+  return { items: result, replayed, importsWithUpdates };
+};
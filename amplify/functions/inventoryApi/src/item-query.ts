@@ -0,0 +1,236 @@
+// ── Shared: item-query.ts ───────────────────────────────────────────────────
+// Search / tab filter / column filter / sort for GET /inventory/items/query.
+// Pure over (items, columns, expiration settings) so the rules can sit next to
+// the ones they mirror: the grid's filteredRows memo (useInventoryFilters.ts)
+// and the dashboard's alert aggregation (alerts.ts). Reading the rows in scope
+// is the caller's job (items.ts: listItemsInLocations).
+
+import { resolveExpirationWarningDays } from "./alerts";
+import { getDaysUntilExpiration } from "./csv";
+import { parseValuesJson } from "./items";
+import type { ExpirationSettings, InventoryColumn, InventoryItem } from "./types";
+
+/** Grid tab keys. "exp30" is Expiring Soon — the key predates configurable
+ *  windows; the cutoff is each lot's own warning window. */
+export const ITEM_QUERY_TABS = ["all", "lowStock", "expired", "exp30", "exp60"] as const;
+export type ItemQueryTab = (typeof ITEM_QUERY_TABS)[number];
+
+export type ItemQuery = {
+  /** Lowercased substring matched against the item name. Empty = no search. */
+  search: string;
+  /** Location scope; a station also covers its sublocations. Null = all. */
+  locationId: string | null;
+  tab: ItemQueryTab;
+  /** Groupable column key → exact cell value. */
+  filters: Record<string, string>;
+  /** Explicit column sort. Null keeps the tab's own order (expiry date for
+   *  the expiry tabs, quantity for Low Stock, grid position otherwise). */
+  sort: { key: string; direction: "asc" | "desc" } | null;
+};
+
+/** Prefix for groupable-column filters in the query string: `filter.category=Airway`. */
+const FILTER_PARAM_PREFIX = "filter.";
+
+/** Read an ItemQuery off a request's query string. Returns an error message
+ *  for a malformed request; column keys are checked in checkItemQueryColumns
+ *  once the columns are loaded. */
+export const parseItemQuery = (query: Record<string, string | undefined>): ItemQuery | string => {
+  const tab = String(query.tab ?? "all").trim() || "all";
+  if (!(ITEM_QUERY_TABS as readonly string[]).includes(tab)) {
+    return `tab must be one of: ${ITEM_QUERY_TABS.join(", ")}.`;
+  }
+  const direction = String(query.direction ?? "asc").trim().toLowerCase();
+  if (direction !== "asc" && direction !== "desc") return "direction must be asc or desc.";
+  const sortKey = String(query.sort ?? "").trim();
+  const filters: Record<string, string> = {};
+  for (const [key, value] of Object.entries(query)) {
+    if (!key.startsWith(FILTER_PARAM_PREFIX)) continue;
+    const columnKey = key.slice(FILTER_PARAM_PREFIX.length).trim();
+    const wanted = String(value ?? "").trim();
+    if (columnKey && wanted) filters[columnKey] = wanted;
+  }
+  return {
+    search: String(query.q ?? "").trim().toLowerCase(),
+    locationId: String(query.locationId ?? "").trim() || null,
+    tab: tab as ItemQueryTab,
+    filters,
+    sort: sortKey ? { key: sortKey, direction } : null,
+  };
+};
+
+/** Error message when the query names a sort or filter column the org
+ *  doesn't have (or a filter on a column that isn't groupable). */
+export const checkItemQueryColumns = (query: ItemQuery, columns: InventoryColumn[]): string | null => {
+  const byKey = new Map(columns.map((c) => [c.key, c]));
+  if (query.sort && !byKey.has(query.sort.key)) return `Unknown sort column: ${query.sort.key}.`;
+  for (const key of Object.keys(query.filters)) {
+    if (!byKey.get(key)?.isGroupable) return `Column ${key} can't be filtered.`;
+  }
+  return null;
+};
+
+/** Stable identity of a query, stamped into its cursor so a cursor can't be
+ *  replayed against different filters. */
+export const itemQueryFingerprint = (query: ItemQuery): string =>
+  JSON.stringify([
+    query.search,
+    query.locationId,
+    query.tab,
+    Object.entries(query.filters).sort(([a], [b]) => a.localeCompare(b)),
+    query.sort,
+  ]);
+
+type ParsedRow = { item: InventoryItem; values: Record<string, unknown>; daysUntil: number | null };
+
+/** Lots group into one item per (location, lowercased name); blank names
+ *  stand alone. Same keying as alerts.ts and the grid. */
+const lowStockKeyFor = ({ item, values }: ParsedRow): string => {
+  const name = String(values.itemName ?? "").trim().toLowerCase();
+  return name ? `${item.locationId ?? ""}::${name}` : `id:${item.id}`;
+};
+
+/** A blank or zero min means the lot isn't tracked for Low Stock. */
+const hasMinQuantity = (values: Record<string, unknown>): boolean => {
+  const raw = values.minQuantity;
+  if (raw === null || raw === undefined || String(raw).trim() === "") return false;
+  const num = Number(raw);
+  return Number.isFinite(num) && num > 0;
+};
+
+/** Item groups whose total on-hand (summed across lots) is below the highest
+ *  lot minimum. Needs every lot in scope, not just the ones a search matched. */
+const findLowStockKeys = (rows: ParsedRow[]): Set<string> => {
+  const agg = new Map<string, { totalQty: number; maxMin: number }>();
+  for (const row of rows) {
+    const key = lowStockKeyFor(row);
+    const qty = Number(row.values.quantity);
+    const min = Number(row.values.minQuantity);
+    const entry = agg.get(key) ?? { totalQty: 0, maxMin: 0 };
+    if (Number.isFinite(qty)) entry.totalQty += qty;
+    if (Number.isFinite(min) && min > entry.maxMin) entry.maxMin = min;
+    agg.set(key, entry);
+  }
+  const low = new Set<string>();
+  for (const [key, { totalQty, maxMin }] of agg) {
+    if (maxMin > 0 && totalQty < maxMin) low.add(key);
+  }
+  return low;
+};
+
+const toDateOnly = (value: unknown): string => {
+  const raw = String(value ?? "").trim();
+  if (!raw) return "";
+  if (/^\d{4}-\d{2}-\d{2}$/.test(raw)) return raw;
+  const parsed = new Date(raw);
+  return Number.isNaN(parsed.getTime()) ? "" : parsed.toISOString().slice(0, 10);
+};
+
+const sortableValue = (column: InventoryColumn, value: unknown): string | number | null => {
+  if (column.type === "number") {
+    const parsed = Number(value);
+    return value === null || value === undefined || value === "" || !Number.isFinite(parsed) ? null : parsed;
+  }
+  if (column.type === "date") return toDateOnly(value) || null;
+  return String(value ?? "").trim().toLowerCase();
+};
+
+/** Blanks sort last ascending and first descending, as in the grid. */
+const compareSortable = (
+  left: string | number | null,
+  right: string | number | null,
+  direction: "asc" | "desc",
+): number => {
+  const leftMissing = left === null || left === "";
+  const rightMissing = right === null || right === "";
+  if (leftMissing && rightMissing) return 0;
+  if (leftMissing) return direction === "asc" ? 1 : -1;
+  if (rightMissing) return direction === "asc" ? -1 : 1;
+  const base =
+    typeof left === "number" && typeof right === "number"
+      ? left - right
+      : String(left).localeCompare(String(right));
+  return direction === "asc" ? base : -base;
+};
+
+/**
+ * Apply `query` to the rows of its location scope. Retired lots are left out,
+ * as in the grid. Low Stock returns one lot per low item (the lowest on hand,
+ * or the first under an explicit sort), matching its badge count.
+ */
+export const runItemQuery = (
+  items: InventoryItem[],
+  query: ItemQuery,
+  context: { columns: InventoryColumn[]; expirationSettings: ExpirationSettings },
+): InventoryItem[] => {
+  const rows: ParsedRow[] = [];
+  for (const item of items) {
+    const values = parseValuesJson(item.valuesJson);
+    if (values.retiredAt) continue;
+    rows.push({ item, values, daysUntil: getDaysUntilExpiration(String(values.expirationDate ?? "")) });
+  }
+  const lowKeys = query.tab === "lowStock" ? findLowStockKeys(rows) : new Set<string>();
+
+  const matched = rows.filter((row) => {
+    const { values, daysUntil } = row;
+    if (query.search && !String(values.itemName ?? "").toLowerCase().includes(query.search)) return false;
+    switch (query.tab) {
+      case "lowStock":
+        if (!hasMinQuantity(values) || !lowKeys.has(lowStockKeyFor(row))) return false;
+        break;
+      case "expired":
+        if (daysUntil === null || daysUntil > 0) return false;
+        break;
+      case "exp30":
+        if (daysUntil === null || daysUntil <= 0) return false;
+        if (daysUntil > resolveExpirationWarningDays(values, context.expirationSettings)) return false;
+        break;
+      case "exp60":
+        if (daysUntil === null || daysUntil <= 0 || daysUntil > 60) return false;
+        break;
+      default:
+        break;
+    }
+    // An empty cell passes a column filter, as in the grid — a row with no
+    // category isn't hidden by a category filter.
+    for (const [key, wanted] of Object.entries(query.filters)) {
+      const cell = String(values[key] ?? "").trim();
+      if (cell !== "" && cell !== wanted) return false;
+    }
+    return true;
+  });
+
+  const byPosition = (a: ParsedRow, b: ParsedRow) => Number(a.item.position) - Number(b.item.position);
+  let sorted = [...matched].sort(byPosition);
+  if (query.tab === "expired" || query.tab === "exp30" || query.tab === "exp60") {
+    sorted.sort((a, b) => compareSortable(a.daysUntil, b.daysUntil, "asc") || byPosition(a, b));
+  } else if (query.tab === "lowStock") {
+    const qty = (row: ParsedRow) => {
+      const n = Number(row.values.quantity);
+      return Number.isFinite(n) ? n : Number.POSITIVE_INFINITY;
+    };
+    sorted.sort((a, b) => qty(a) - qty(b) || byPosition(a, b));
+  }
+  const sortColumn = query.sort ? context.columns.find((c) => c.key === query.sort?.key) : undefined;
+  if (query.sort && sortColumn) {
+    const { direction } = query.sort;
+    sorted.sort(
+      (a, b) =>
+        compareSortable(
+          sortableValue(sortColumn, a.values[sortColumn.key]),
+          sortableValue(sortColumn, b.values[sortColumn.key]),
+          direction,
+        ) || byPosition(a, b),
+    );
+  }
+
+  if (query.tab === "lowStock") {
+    const seen = new Set<string>();
+    sorted = sorted.filter((row) => {
+      const key = lowStockKeyFor(row);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+  return sorted.map((row) => row.item);
+};
@@ -3,7 +3,7 @@
 
 import { QueryCommand } from "@aws-sdk/lib-dynamodb";
 import { ddb } from "./clients";
-import { INVENTORY_ITEM_BY_MODULE_INDEX } from "./config";
+import { INVENTORY_ITEM_BY_LOCATION_INDEX, INVENTORY_ITEM_BY_MODULE_INDEX } from "./config";
 import { encodeNextToken } from "./http";
 import type { InventoryItem, InventoryStorage } from "./types";
 
@@ -58,9 +58,96 @@ export const listAllItems = async (storage: InventoryStorage, _organizationId: s
   return out.sort((a, b) => Number(a.position) - Number(b.position));
 };
 
+/** Rows read from the module index per round trip by collectItemsInOrder. */
+const COLLECT_BATCH_SIZE = 500;
+
+/**
+ * Walk ByModulePosition in position order from `startKey`, passing each batch
+ * through `keep` (which must not reorder it), until `limit` rows are kept or
+ * the index runs out. `nextKey` resumes right after the last kept row, so a
+ * cursor built from it stays correct as rows are added or removed; null once
+ * nothing is left.
+ */
+export const collectItemsInOrder = async (
+  storage: InventoryStorage,
+  keep: (batch: InventoryItem[]) => InventoryItem[],
+  limit: number,
+  startKey?: Record<string, unknown>,
+): Promise<{ items: InventoryItem[]; nextKey: Record<string, unknown> | null }> => {
+  const out: InventoryItem[] = [];
+  let lastEvaluatedKey = startKey;
+  do {
+    const page = await ddb.send(
+      new QueryCommand({
+        TableName: storage.itemTable,
+        IndexName: INVENTORY_ITEM_BY_MODULE_INDEX,
+        KeyConditionExpression: "#module = :module",
+        ExpressionAttributeNames: { "#module": "module" },
+        ExpressionAttributeValues: { ":module": "inventory" },
+        ExclusiveStartKey: lastEvaluatedKey,
+        Limit: COLLECT_BATCH_SIZE,
+      }),
+    );
+    const kept = keep(((page.Items ?? []) as InventoryItem[]).filter((item) => item.module === "inventory"));
+    lastEvaluatedKey = page.LastEvaluatedKey as Record<string, unknown> | undefined;
+    const room = limit - out.length;
+    out.push(...kept.slice(0, room));
+    if (kept.length > room || (kept.length === room && lastEvaluatedKey)) {
+      const last = out[out.length - 1];
+      return { items: out, nextKey: { id: last.id, module: last.module, position: last.position } };
+    }
+  } while (lastEvaluatedKey);
+  return { items: out, nextKey: null };
+};
+
+/** DynamoDB answers a query on a GSI that doesn't exist yet, or is still
+ *  backfilling, with a ValidationException. */
+export const isIndexUnavailable = (err: unknown): boolean =>
+  (err as { name?: string })?.name === "ValidationException" &&
+  /index/i.test(String((err as { message?: string })?.message ?? ""));
+
+/**
+ * Every row in the given locations, by position. Reads each location through
+ * the ByLocationPosition index; on a table whose index is still being added
+ * (see ensureItemIndexes) it falls back to the full module query.
+ */
+export const listItemsInLocations = async (
+  storage: InventoryStorage,
+  organizationId: string,
+  locationIds: string[],
+): Promise<InventoryItem[]> => {
+  try {
+    const perLocation = await Promise.all(
+      locationIds.map(async (locationId) => {
+        const out: InventoryItem[] = [];
+        let lastEvaluatedKey: Record<string, unknown> | undefined;
+        do {
+          const page = await ddb.send(
+            new QueryCommand({
+              TableName: storage.itemTable,
+              IndexName: INVENTORY_ITEM_BY_LOCATION_INDEX,
+              KeyConditionExpression: "locationId = :locationId",
+              ExpressionAttributeValues: { ":locationId": locationId },
+              ExclusiveStartKey: lastEvaluatedKey,
+            }),
+          );
+          out.push(...((page.Items ?? []) as InventoryItem[]).filter((item) => item.module === "inventory"));
+          lastEvaluatedKey = page.LastEvaluatedKey as Record<string, unknown> | undefined;
+        } while (lastEvaluatedKey);
+        return out;
+      }),
+    );
+    return perLocation.flat().sort((a, b) => Number(a.position) - Number(b.position));
+  } catch (err) {
+    if (!isIndexUnavailable(err)) throw err;
+    const wanted = new Set(locationIds);
+    return (await listAllItems(storage, organizationId)).filter((item) => wanted.has(String(item.locationId ?? "")));
+  }
+};
+
 export const validateNonNegativeField = (
   values: Record<string, unknown>,
-  field: "quantity" | "minQuantity",
+  field: "quantity" | "minQuantity" | "parQuantity",
 ): { ok: true } | { ok: false; error: string } => {
   const raw = values[field];
   if (raw === null || raw === undefined || String(raw).trim() === "") return { ok: true };
@@ -45,6 +45,13 @@ export const locationHasChildren = (
   id: string,
 ): boolean => all.some((l) => parentIdOf(l) === id);
 
+/** `id` plus its sublocations — what selecting it in a scope picker covers.
+ *  Mirrors locationsInScope in src/lib/locationTree.ts. */
+export const locationSubtreeIds = (
+  all: InventoryLocation[],
+  id: string,
+): string[] => [id, ...all.filter((l) => parentIdOf(l) === id).map((l) => l.id)];
+
 /**
  * Get — or lazily create — the default stock bucket child of a parent station.
  * Idempotent: reuses an existing child named DEFAULT_BUCKET_NAME (the one a
@@ -0,0 +1,68 @@
+// ── Shared: lots.ts ─────────────────────────────────────────────────────────
+// Manufacturer lot and serial numbers. Each inventory row is one lot; these
+// are the codes printed on the packaging, stored in valuesJson as `lotNumber`
+// / `serialNumber` (core columns). Compared case-insensitively — the same lot
+// keyed in by hand and scanned off a label should never split into two rows.
+
+/** Longest code we accept. GS1 caps both AI(10) and AI(21) at 20 chars;
+ *  the slack covers vendor-specific formats with prefixes. */
+export const LOT_CODE_MAX_LENGTH = 40;
+
+/** Custom columns the industry templates seeded before lot/serial became
+ *  core. Read as a fallback so existing orgs' data still identifies a lot. */
+const LEGACY_LOT_KEYS = { lotNumber: "lot_number", serialNumber: "serial_number" } as const;
+
+export type LotIdentity = { lotNumber?: string; serialNumber?: string };
+
+/** Trimmed, inner whitespace collapsed. Empty string means "none". */
+export const normalizeLotCode = (raw: unknown): string =>
+  String(raw ?? "").trim().replace(/\s+/g, " ");
+
+export const lotCodeMatchKey = (code: string): string => normalizeLotCode(code).toLowerCase();
+
+/** Shared 400 copy for request validators. */
+export const lotCodeTooLongMessage = (field: "Lot" | "Serial"): string =>
+  `${field} number can be at most ${LOT_CODE_MAX_LENGTH} characters.`;
+
+/** The lot/serial codes on a row, omitting blanks. Spread straight into
+ *  audit details so usage, retire, adjust and transfer events record which
+ *  lot they touched. */
+export const lotIdentityOf = (values: Record<string, unknown>): LotIdentity => {
+  const lotNumber = normalizeLotCode(values.lotNumber ?? values[LEGACY_LOT_KEYS.lotNumber]);
+  const serialNumber = normalizeLotCode(values.serialNumber ?? values[LEGACY_LOT_KEYS.serialNumber]);
+  return {
+    ...(lotNumber ? { lotNumber } : {}),
+    ...(serialNumber ? { serialNumber } : {}),
+  };
+};
+
+/** Same lot and serial codes (both blank counts as a match). */
+export const isSameLotIdentity = (a: LotIdentity, b: LotIdentity): boolean =>
+  lotCodeMatchKey(a.lotNumber ?? "") === lotCodeMatchKey(b.lotNumber ?? "")
+  && lotCodeMatchKey(a.serialNumber ?? "") === lotCodeMatchKey(b.serialNumber ?? "");
+
+/**
+ * Whether an audit event's details mention a lot or serial code — on the
+ * event itself, its snapshot, a created row's initial values, or an edit that
+ * set or cleared the code. Drives the recall trace.
+ */
+export const auditDetailsMentionLot = (details: Record<string, unknown>, code: string): boolean => {
+  const key = lotCodeMatchKey(code);
+  if (!key) return false;
+  const matches = (raw: unknown) => typeof raw === "string" && lotCodeMatchKey(raw) === key;
+  // Item-level usage carries a per-lot breakdown in `lots`.
+  const lotDraws = Array.isArray(details.lots) ? (details.lots as unknown[]) : [];
+  const holders = [details, details.snapshot, details.initialValues, details.deletedValues, ...lotDraws];
+  for (const holder of holders) {
+    if (!holder || typeof holder !== "object") continue;
+    const h = holder as Record<string, unknown>;
+    if (matches(h.lotNumber) || matches(h.serialNumber)) return true;
+  }
+  if (Array.isArray(details.changes)) {
+    for (const change of details.changes as Array<{ field?: unknown; from?: unknown; to?: unknown }>) {
+      if (change?.field !== "lotNumber" && change?.field !== "serialNumber") continue;
+      if (matches(change.from) || matches(change.to)) return true;
+    }
+  }
+  return false;
+};
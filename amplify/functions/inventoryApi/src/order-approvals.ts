@@ -0,0 +1,98 @@
+// ── Shared: order-approvals.ts ──────────────────────────────────────────────
+// Which restock orders need sign-off before they go to the vendor, and who
+// may give it. Pure over (settings, order lines, locations) — storage and the
+// status changes live in routes/order-approvals.ts.
+
+import { OWNER_ROLES } from "./config";
+import { locationSubtreeIds } from "./locations";
+import { normalizeRole } from "./normalize";
+import type { InventoryLocation, OrderApprovalRule, OrderApprovalSettings, RestockOrderItem } from "./types";
+import { orderLineUnitCost } from "./valuation";
+
+/** Roles an admin can designate as approvers. Owners cover ACCOUNT_OWNER. */
+export const APPROVER_ROLE_OPTIONS = ["OWNER", "ADMIN", "EDITOR"] as const;
+export const DEFAULT_APPROVER_ROLES = ["OWNER", "ADMIN"];
+/** Cap on rules per org — they live on one meta row. */
+export const MAX_APPROVAL_RULES = 50;
+
+/** Validate and trim a rule from a client body. Returns the rule, or an
+ *  error message for a 400. */
+export const normalizeApprovalRule = (raw: unknown, id: string): OrderApprovalRule | string => {
+  const value = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const name = String(value.name ?? "").trim();
+  if (!name) return "Give the rule a name.";
+  const rawTotal = value.minTotal;
+  const minTotal = rawTotal === undefined || rawTotal === null || rawTotal === "" ? undefined : Number(rawTotal);
+  if (minTotal !== undefined && (!Number.isFinite(minTotal) || minTotal < 0)) {
+    return "minTotal must be a non-negative number.";
+  }
+  const vendor = String(value.vendor ?? "").trim();
+  const locationId = String(value.locationId ?? "").trim();
+  if (minTotal === undefined && !vendor && !locationId) {
+    return `"${name}" needs an order total, vendor or location to match on.`;
+  }
+  return {
+    id,
+    name,
+    ...(minTotal !== undefined ? { minTotal: Math.round(minTotal * 100) / 100 } : {}),
+    ...(vendor ? { vendor } : {}),
+    ...(locationId ? { locationId } : {}),
+  };
+};
+
+/** Coerce the stored meta row (or a client body) into settings, dropping rules
+ *  that no longer validate and roles that aren't approver options. */
+export const normalizeApprovalSettings = (raw: unknown): OrderApprovalSettings => {
+  const value = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const rules: OrderApprovalRule[] = [];
+  for (const entry of Array.isArray(value.rules) ? (value.rules as Array<Record<string, unknown>>) : []) {
+    const id = String(entry?.id ?? "").trim();
+    const rule = id ? normalizeApprovalRule(entry, id) : null;
+    if (rule && typeof rule !== "string") rules.push(rule);
+  }
+  const roles = Array.isArray(value.approverRoles)
+    ? (value.approverRoles as unknown[]).map(normalizeRole).filter((r) => (APPROVER_ROLE_OPTIONS as readonly string[]).includes(r))
+    : DEFAULT_APPROVER_ROLES;
+  return { rules, approverRoles: [...new Set(roles)] };
+};
+
+/** Whether `role` is one of the designated approver roles. */
+export const canApproveOrders = (role: string, settings: OrderApprovalSettings): boolean => {
+  const normalized = normalizeRole(role);
+  return settings.approverRoles.includes(OWNER_ROLES.has(normalized) ? "OWNER" : normalized);
+};
+
+/** What an order costs: each line's purchase price when recorded, otherwise
+ *  its unit cost × quantity ordered. Unpriced lines add nothing. */
+export const orderTotal = (lines: RestockOrderItem[], unitOf: (itemId: string) => string): number => {
+  let total = 0;
+  for (const line of lines) {
+    const qty = Number(line.qtyOrdered) || 0;
+    if (qty <= 0) continue;
+    if (typeof line.purchasePrice === "number" && Number.isFinite(line.purchasePrice)) {
+      total += line.purchasePrice;
+      continue;
+    }
+    const unitCost = orderLineUnitCost(line, unitOf(line.itemId));
+    if (unitCost !== null) total += unitCost * qty;
+  }
+  return Math.round(total * 100) / 100;
+};
+
+/** Rules the order matches. `locationIds` are where its lines land. */
+export const matchApprovalRules = (
+  rules: OrderApprovalRule[],
+  order: { total: number; vendor: string; locationIds: string[] },
+  locations: InventoryLocation[],
+): OrderApprovalRule[] => {
+  const vendor = order.vendor.trim().toLowerCase();
+  return rules.filter((rule) => {
+    if (rule.minTotal !== undefined && order.total < rule.minTotal) return false;
+    if (rule.vendor && rule.vendor.trim().toLowerCase() !== vendor) return false;
+    if (rule.locationId) {
+      const scope = new Set(locationSubtreeIds(locations, rule.locationId));
+      if (!order.locationIds.some((id) => scope.has(id))) return false;
+    }
+    return true;
+  });
+};
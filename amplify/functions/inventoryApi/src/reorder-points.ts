@@ -0,0 +1,158 @@
+// ── Shared: reorder-points.ts ───────────────────────────────────────────────
+// Recommended reorder point (→ minQuantity) and economic order quantity
+// (→ par = min + EOQ) per item and location, for
+// GET /inventory/reorder-recommendations. Pure over usage samples, lead-time
+// samples and the current rows — the route reads those.
+//
+//   reorder point = daily usage × lead time + safety stock
+//   safety stock  = z × √(lead time × σ²(daily usage) + daily usage² × σ²(lead time))
+//   EOQ           = √(2 × annual usage × order cost ÷ (holding rate × unit cost))
+
+import { forecastKey, type ForecastSample } from "./forecast";
+
+/** z for a ~95% chance of not running out during a replenishment. */
+export const SERVICE_LEVEL_Z = 1.65;
+/** Usage history the recommendations are based on. */
+export const RECOMMENDATION_WINDOW_DAYS = 90;
+/** How far back orders are read for lead times. */
+export const LEAD_TIME_LOOKBACK_DAYS = 365;
+/** Lead time when neither the item, its vendor nor the org has a receipt. */
+export const DEFAULT_LEAD_TIME_DAYS = 7;
+/** Cost of placing one order (staff time, shipping) — EOQ's fixed cost. */
+export const ORDER_COST = 25;
+/** Yearly cost of holding a unit, as a share of its price. */
+export const ANNUAL_HOLDING_RATE = 0.25;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Days from an order being placed to one of its lines arriving. */
+export type LeadTimeSample = {
+  itemName: string;
+  locationId: string;
+  vendor: string;
+  days: number;
+};
+
+/** The current rows of one item at one location, summarized. */
+export type ReorderItemSummary = {
+  itemName: string;
+  locationId: string;
+  /** Highest min / par across the item's lots here — the effective ones. */
+  currentMin: number;
+  currentPar: number;
+  unitCost: number | null;
+  vendor: string;
+};
+
+export type ReorderRecommendation = ReorderItemSummary & {
+  dailyUsage: number;
+  leadTimeDays: number;
+  /** Where the lead time came from — the item's own receipts are best. */
+  leadTimeSource: "item" | "vendor" | "org" | "default";
+  safetyStock: number;
+  /** Recommended minQuantity, whole units. */
+  reorderPoint: number;
+  /** Recommended quantity per order, whole units; null without a unit cost. */
+  orderQuantity: number | null;
+  /** reorderPoint + orderQuantity — what an order fills back up to. */
+  recommendedPar: number | null;
+};
+
+const mean = (values: number[]): number =>
+  values.length === 0 ? 0 : values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const variance = (values: number[]): number => {
+  if (values.length < 2) return 0;
+  const m = mean(values);
+  return values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1);
+};
+
+/** Lead days for each item line in an order's receives — first receive only,
+ *  so a backordered remainder doesn't count as a second, longer lead. */
+export const orderLeadTimes = (
+  createdAt: string,
+  receives: Array<{ receivedAt: string; itemIds: string[] }>,
+): Map<string, number> => {
+  const placed = Date.parse(createdAt);
+  const lead = new Map<string, number>();
+  if (!Number.isFinite(placed)) return lead;
+  const ordered = [...receives].sort((a, b) => a.receivedAt.localeCompare(b.receivedAt));
+  for (const receive of ordered) {
+    const arrived = Date.parse(receive.receivedAt);
+    if (!Number.isFinite(arrived) || arrived < placed) continue;
+    for (const itemId of receive.itemIds) {
+      if (!lead.has(itemId)) lead.set(itemId, (arrived - placed) / DAY_MS);
+    }
+  }
+  return lead;
+};
+
+/** One recommendation per summarized item with usage in the window. */
+export const recommendReorderPoints = (
+  items: ReorderItemSummary[],
+  usage: ForecastSample[],
+  leadTimes: LeadTimeSample[],
+  windowDays: number,
+  now = new Date(),
+): ReorderRecommendation[] => {
+  // Daily usage buckets per item, oldest day first; unused days are zeros.
+  const buckets = new Map<string, number[]>();
+  const nowMs = now.getTime();
+  for (const sample of usage) {
+    const ageDays = Math.floor((nowMs - Date.parse(sample.at)) / DAY_MS);
+    if (!Number.isFinite(ageDays) || ageDays < 0 || ageDays >= windowDays) continue;
+    const key = forecastKey(sample.itemName, sample.locationId);
+    const days = buckets.get(key) ?? new Array<number>(windowDays).fill(0);
+    days[windowDays - 1 - ageDays] += sample.qty;
+    buckets.set(key, days);
+  }
+
+  const leadByItem = new Map<string, number[]>();
+  const leadByVendor = new Map<string, number[]>();
+  for (const sample of leadTimes) {
+    const key = forecastKey(sample.itemName, sample.locationId);
+    leadByItem.set(key, [...(leadByItem.get(key) ?? []), sample.days]);
+    const vendor = sample.vendor.trim().toLowerCase();
+    if (vendor) leadByVendor.set(vendor, [...(leadByVendor.get(vendor) ?? []), sample.days]);
+  }
+  const orgLeads = leadTimes.map((s) => s.days);
+
+  const recommendations: ReorderRecommendation[] = [];
+  for (const item of items) {
+    const days = buckets.get(forecastKey(item.itemName, item.locationId));
+    if (!days) continue;
+    const dailyUsage = mean(days);
+    if (dailyUsage <= 0) continue;
+
+    const itemLeads = leadByItem.get(forecastKey(item.itemName, item.locationId));
+    const vendorLeads = leadByVendor.get(item.vendor.trim().toLowerCase());
+    const [leads, leadTimeSource]: [number[], ReorderRecommendation["leadTimeSource"]] = itemLeads?.length
+      ? [itemLeads, "item"]
+      : vendorLeads?.length
+        ? [vendorLeads, "vendor"]
+        : orgLeads.length
+          ? [orgLeads, "org"]
+          : [[DEFAULT_LEAD_TIME_DAYS], "default"];
+    const leadTimeDays = mean(leads);
+
+    const safetyStock = SERVICE_LEVEL_Z * Math.sqrt(
+      leadTimeDays * variance(days) + dailyUsage ** 2 * variance(leads),
+    );
+    const reorderPoint = Math.ceil(dailyUsage * leadTimeDays + safetyStock);
+    const orderQuantity = item.unitCost && item.unitCost > 0
+      ? Math.max(1, Math.ceil(Math.sqrt((2 * dailyUsage * 365 * ORDER_COST) / (ANNUAL_HOLDING_RATE * item.unitCost))))
+      : null;
+
+    recommendations.push({
+      ...item,
+      dailyUsage,
+      leadTimeDays,
+      leadTimeSource,
+      safetyStock,
+      reorderPoint,
+      orderQuantity,
+      recommendedPar: orderQuantity === null ? null : reorderPoint + orderQuantity,
+    });
+  }
+  return recommendations;
+};
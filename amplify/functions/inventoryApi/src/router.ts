@@ -3,23 +3,51 @@ import type { AccessContext, InventoryStorage, ModuleKey, LambdaResponse, RouteC
 import { json } from "./http";
 import { hasModuleAccess } from "./normalize";
 import { ensureStorageForOrganization } from "./storage";
+import { runIdempotent } from "./idempotency";
 
 // Route handlers
 import { handleGetOrgModules, handleUpdateOrgModules, handleListModuleAccessUsers, handleUpdateUserModuleAccess, handleRevokeUserAccess } from "./routes/modules";
 import { handleUpdateCurrentUserDisplayName, handleSyncCurrentUserEmail, handleSaveUserColumnVisibility } from "./routes/profile";
+import { handleGetAlertDigest, handleSaveAlertDigest } from "./routes/alert-digest";
 import { handleGetSupportAccess, handleGrantSupportAccess, handleRevokeSupportAccess, handleListSupportOrgs } from "./routes/support-access";
 import { handleListOnboardingTemplates, handleApplyOnboardingTemplate } from "./routes/onboarding";
-import { handleAuditFeed, handleAuditItemHistory, handleAuditItemNameHistory, handleAuditAnalytics, handleVendorBreakdown, handleAnalyticsBreakdown } from "./routes/audit";
-import { handleListRestockOrders, handleCreateRestockOrder, handleReceiveRestockOrder, handleCloseRestockOrder } from "./routes/restock";
+import { handleAuditFeed, handleAuditItemHistory, handleAuditItemNameHistory, handleAuditLotTrace, handleAuditExport, handleAuditAnalytics, handleVendorBreakdown, handleAnalyticsBreakdown } from "./routes/audit";
+import {
+  handleListRestockOrders,
+  handleCreateRestockOrder,
+  handleReceiveRestockOrder,
+  handleCloseRestockOrder,
+  handlePlaceRestockOrder,
+  handleApproveRestockOrder,
+  handleRejectRestockOrder,
+  handleDismissApprovalNotice,
+  handleListApprovalNotices,
+} from "./routes/restock";
+import { handleGetApprovalSettings, handleSaveApprovalSettings } from "./routes/order-approvals";
+import { handleGenerateRestockOrders } from "./routes/restock-generate";
 import { handleGetPriceHistory } from "./routes/price-history";
+import { handleInventoryValuation } from "./routes/valuation";
+import { handleDeleteBudget, handleListBudgets, handleSaveBudget } from "./routes/budgets";
+import { handleUsageForecast } from "./routes/forecast";
+import { handleAcceptReorderRecommendations, handleListReorderRecommendations } from "./routes/reorder-points";
 import { handleListVendorPricing, handleUpsertVendorPricing, handleDeleteVendorPricing } from "./routes/vendor-pricing";
 import { handleGetAllowedUnits, handleSetAllowedUnits } from "./routes/allowed-units";
+import { handleGetExpirationSettings, handleSetExpirationSettings } from "./routes/expiration-settings";
+import { handleGetAuditRetention, handleSetAuditRetention } from "./routes/audit-retention";
+import { handleVerifyAuditChain } from "./routes/audit-verify";
 import { handleAddLocation, handleListLocations, handleRemoveLocation, handleRenameLocation, handleSetLocationParent, handleReorderLocations } from "./routes/locations";
 import { handleAddVendor, handleRemoveVendor, handleRenameVendor } from "./routes/vendors";
 import { handleAlertSummary, handleBootstrap } from "./routes/dashboard";
-import { handleListItems, handleMoveItems, handleSaveItems, handleUndoRetire, handleUpdateItemPricing } from "./routes/inventory";
+import { handleListChanges } from "./routes/changes";
+import { handleInventoryAsOf } from "./routes/inventory-snapshot";
+import { handleLinkItemGtin, handleListItems, handleMoveItems, handleQueryItems, handleSaveItems, handleTransferItems, handleUndoRetire, handleUpdateItemPricing } from "./routes/inventory";
 import { handleSubmitUsage, handleListPendingSubmissions, handleApproveSubmission, handleRejectSubmission, handleDeleteSubmission, handleUndoUsage } from "./routes/usage";
 import { handleImportCsv } from "./routes/csv-import";
+import { handleCancelCycleCount, handleCycleCountVariance, handleGetCycleCount, handleListCycleCounts, handleOpenCycleCount, handlePostCycleCount, handleSubmitCycleCounts } from "./routes/cycle-counts";
+import { handleExecuteRecall, handleListRecalls, handlePreviewRecall } from "./routes/recalls";
+import { handleCreateApiKey, handleListApiKeys, handleRevokeApiKey, recordApiKeyUse } from "./routes/api-keys";
+import { handleCreateWebhook, handleDeleteWebhook, handleListWebhookDeliveries, handleListWebhooks, handleRedeliverWebhook, handleUpdateWebhook } from "./routes/webhooks";
+import { handleV1CreateItem, handleV1GetItem, handleV1ListItems, handleV1UpdateItem } from "./routes/public-api";
 import { handleCreateColumn, handleDeleteColumn, handleRestoreColumn, handleUpdateColumnAttachments, handleUpdateColumnVisibility, handleUpdateColumnLabel, handleUpdateColumnType, handleReorderColumns, handleDeleteOrganizationStorage } from "./routes/column-mgmt";
 
 type RouteHandler = (ctx: RouteContext) => Promise<ReturnType<typeof json>>;
@@ -44,6 +72,8 @@ const routes: Route[] = [
   { method: "POST",   pattern: "/inventory/profile/display-name",       needsStorage: false, handler: handleUpdateCurrentUserDisplayName },
   { method: "POST",   pattern: "/inventory/profile/email/sync",         needsStorage: false, handler: handleSyncCurrentUserEmail },
   { method: "POST",   pattern: "/inventory/column-visibility",          needsStorage: false, handler: handleSaveUserColumnVisibility },
+  { method: "GET",    pattern: "/inventory/alert-digest",               needsStorage: false, handler: handleGetAlertDigest },
+  { method: "POST",   pattern: "/inventory/alert-digest",               needsStorage: false, handler: handleSaveAlertDigest },
   { method: "GET",    pattern: "/inventory/onboarding/templates",       needsStorage: false, handler: handleListOnboardingTemplates },
 
   // Platform support access (owner-only; consent window for WickOps staff)
@@ -52,12 +82,30 @@ const routes: Route[] = [
   { method: "POST",   pattern: "/inventory/support-access",             needsStorage: true,  handler: handleGrantSupportAccess },
   { method: "DELETE", pattern: "/inventory/support-access",             needsStorage: true,  handler: handleRevokeSupportAccess },
 
+  // Org API keys (owner-only; credentials for the /v1 table below)
+  { method: "GET",    pattern: "/inventory/api-keys",                   needsStorage: false, handler: handleListApiKeys },
+  { method: "POST",   pattern: "/inventory/api-keys",                   needsStorage: true,  handler: handleCreateApiKey },
+  { method: "DELETE", pattern: /\/inventory\/api-keys\/[^/]+$/,          needsStorage: true,  handler: handleRevokeApiKey },
+
   // ── Post-storage routes (org tables required) ─────────────────────────────
   { method: "POST",   pattern: "/inventory/onboarding/apply-template",  needsStorage: true, handler: handleApplyOnboardingTemplate },
 
+  // Outbound webhooks (admin-only; subscriptions + delivery log)
+  { method: "GET",    pattern: "/inventory/webhooks/deliveries",        needsStorage: true, handler: handleListWebhookDeliveries },
+  { method: "POST",   pattern: /\/inventory\/webhooks\/deliveries\/[^/]+\/redeliver$/, needsStorage: true, handler: handleRedeliverWebhook },
+  { method: "GET",    pattern: "/inventory/webhooks",                   needsStorage: true, handler: handleListWebhooks },
+  { method: "POST",   pattern: "/inventory/webhooks",                   needsStorage: true, handler: handleCreateWebhook },
+  { method: "POST",   pattern: /\/inventory\/webhooks\/[^/]+$/,         needsStorage: true, handler: handleUpdateWebhook },
+  { method: "DELETE", pattern: /\/inventory\/webhooks\/[^/]+$/,         needsStorage: true, handler: handleDeleteWebhook },
+
   // Audit
   { method: "GET",    pattern: "/inventory/audit/feed",                 needsStorage: true, module: "inventory", handler: handleAuditFeed },
   { method: "GET",    pattern: "/inventory/audit/item-name-history",    needsStorage: true, module: "inventory", handler: handleAuditItemNameHistory },
+  { method: "GET",    pattern: "/inventory/audit/lot-trace",            needsStorage: true, module: "inventory", handler: handleAuditLotTrace },
+  { method: "GET",    pattern: "/inventory/audit/export",               needsStorage: true, module: "inventory", handler: handleAuditExport },
+  { method: "GET",    pattern: "/inventory/audit/retention",            needsStorage: true, module: "inventory", handler: handleGetAuditRetention },
+  { method: "POST",   pattern: "/inventory/audit/retention",            needsStorage: true, module: "inventory", handler: handleSetAuditRetention },
+  { method: "GET",    pattern: "/inventory/audit/verify",               needsStorage: true, module: "inventory", handler: handleVerifyAuditChain },
   { method: "GET",    pattern: /\/inventory\/audit\/item\/[^/]+$/,      needsStorage: true, module: "inventory", handler: handleAuditItemHistory },
   { method: "GET",    pattern: "/inventory/audit/analytics",            needsStorage: true, module: "inventory", handler: handleAuditAnalytics },
   { method: "GET",    pattern: "/inventory/audit/analytics/vendor",     needsStorage: true, module: "inventory", handler: handleVendorBreakdown },
@@ -68,11 +116,42 @@ const routes: Route[] = [
   { method: "POST",   pattern: "/inventory/restock/orders",             needsStorage: true, module: "inventory", handler: handleCreateRestockOrder },
   { method: "POST",   pattern: /\/inventory\/restock\/orders\/[^/]+\/receive$/, needsStorage: true, module: "inventory", handler: handleReceiveRestockOrder },
   { method: "POST",   pattern: /\/inventory\/restock\/orders\/[^/]+\/close$/,   needsStorage: true, module: "inventory", handler: handleCloseRestockOrder },
+  { method: "POST",   pattern: /\/inventory\/restock\/orders\/[^/]+\/place$/,   needsStorage: true, module: "inventory", handler: handlePlaceRestockOrder },
+  { method: "POST",   pattern: "/inventory/restock/generate",           needsStorage: true, module: "inventory", handler: handleGenerateRestockOrders },
+
+  // Order approvals — rules that hold orders for sign-off, the approver's
+  // decision, and the requester's in-app notice of it. Role checks are
+  // inside the handlers.
+  { method: "GET",    pattern: "/inventory/restock/approval-settings",  needsStorage: true, module: "inventory", handler: handleGetApprovalSettings },
+  { method: "POST",   pattern: "/inventory/restock/approval-settings",  needsStorage: true, module: "inventory", handler: handleSaveApprovalSettings },
+  { method: "GET",    pattern: "/inventory/restock/approval-notices",   needsStorage: true, module: "inventory", handler: handleListApprovalNotices },
+  { method: "POST",   pattern: /\/inventory\/restock\/orders\/[^/]+\/approve$/, needsStorage: true, module: "inventory", handler: handleApproveRestockOrder },
+  { method: "POST",   pattern: /\/inventory\/restock\/orders\/[^/]+\/reject$/,  needsStorage: true, module: "inventory", handler: handleRejectRestockOrder },
+  { method: "POST",   pattern: /\/inventory\/restock\/orders\/[^/]+\/dismiss-approval$/, needsStorage: true, module: "inventory", handler: handleDismissApprovalNotice },
 
   // Price history (1d) — aggregates per-(itemName, vendor) latest $/canonical
   // within the recency window. Powers the shopping-list comparison badge.
   { method: "GET",    pattern: "/inventory/price-history",              needsStorage: true, module: "inventory", handler: handleGetPriceHistory },
 
+  // Valuation — what the stock on hand is worth (FIFO / average / vendor
+  // price), optionally at a past month end. Admin-only inside the handler.
+  { method: "GET",    pattern: "/inventory/valuation",                  needsStorage: true, module: "inventory", handler: handleInventoryValuation },
+
+  // Budgets — per location / column value and fiscal period, tracked against
+  // received and committed spend. Writes are admin-only inside the handlers.
+  { method: "GET",    pattern: "/inventory/budgets",                    needsStorage: true, module: "inventory", handler: handleListBudgets },
+  { method: "POST",   pattern: "/inventory/budgets",                    needsStorage: true, module: "inventory", handler: handleSaveBudget },
+  { method: "DELETE", pattern: /\/inventory\/budgets\/[^/]+$/, needsStorage: true, module: "inventory", handler: handleDeleteBudget },
+
+  // Usage forecast — per-item, per-location consumption rates and order
+  // cycles, for days-of-supply on the grid and Shop list.
+  { method: "GET",    pattern: "/inventory/forecast",                   needsStorage: true, module: "inventory", handler: handleUsageForecast },
+
+  // Reorder-point recommendations — min / par from usage and observed lead
+  // times. Accepting is admin-only inside the handler.
+  { method: "GET",    pattern: "/inventory/reorder-recommendations",    needsStorage: true, module: "inventory", handler: handleListReorderRecommendations },
+  { method: "POST",   pattern: "/inventory/reorder-recommendations/accept", needsStorage: true, module: "inventory", handler: handleAcceptReorderRecommendations },
+
   // Vendor pricing (1g) — per-(item, vendor) pricing rows. Replaces the
   // previous pattern of stuffing unitCost/packSize/packCost/reorderLink onto
   // each inventory item.
@@ -86,6 +165,11 @@ const routes: Route[] = [
   { method: "GET",    pattern: "/inventory/allowed-units",              needsStorage: true, module: "inventory", handler: handleGetAllowedUnits },
   { method: "POST",   pattern: "/inventory/allowed-units",              needsStorage: true, module: "inventory", handler: handleSetAllowedUnits },
 
+  // Expiration warning window — org default, column-value rules, and an
+  // optional per-item number column. Drives "expiring soon" everywhere.
+  { method: "GET",    pattern: "/inventory/expiration-settings",        needsStorage: true, module: "inventory", handler: handleGetExpirationSettings },
+  { method: "POST",   pattern: "/inventory/expiration-settings",        needsStorage: true, module: "inventory", handler: handleSetExpirationSettings },
+
   // Locations
   { method: "GET",    pattern: "/inventory/locations",                  needsStorage: true, module: "inventory", handler: handleListLocations },
   { method: "POST",   pattern: "/inventory/locations",                  needsStorage: true, module: "inventory", handler: handleAddLocation },
@@ -102,12 +186,17 @@ const routes: Route[] = [
   // Dashboard / bootstrap
   { method: "GET",    pattern: "/inventory/alert-summary",              needsStorage: true, module: "inventory", handler: handleAlertSummary },
   { method: "GET",    pattern: "/inventory/bootstrap",                  needsStorage: true, module: "inventory", handler: handleBootstrap },
+  { method: "GET",    pattern: "/inventory/changes",                    needsStorage: true, module: "inventory", handler: handleListChanges },
 
   // Items
   { method: "GET",    pattern: "/inventory/items",                      needsStorage: true, module: "inventory", handler: handleListItems },
+  { method: "GET",    pattern: "/inventory/items/query",                needsStorage: true, module: "inventory", handler: handleQueryItems },
+  { method: "GET",    pattern: "/inventory/items/as-of",                needsStorage: true, module: "inventory", handler: handleInventoryAsOf },
   { method: "POST",   pattern: "/inventory/items/save",                 needsStorage: true, module: "inventory", handler: handleSaveItems },
   { method: "POST",   pattern: "/inventory/items/move",                 needsStorage: true, module: "inventory", handler: handleMoveItems },
+  { method: "POST",   pattern: "/inventory/items/transfer",             needsStorage: true, module: "inventory", handler: handleTransferItems },
   { method: "POST",   pattern: "/inventory/items/pricing",              needsStorage: true, module: "inventory", handler: handleUpdateItemPricing },
+  { method: "POST",   pattern: "/inventory/items/gtin",                 needsStorage: true, module: "inventory", handler: handleLinkItemGtin },
   { method: "POST",   pattern: "/inventory/items/undo-retire",          needsStorage: true, module: "inventory", handler: handleUndoRetire },
 
   // Usage (feature within the inventory module; role-based gating applies inside handlers)
@@ -122,6 +211,21 @@ const routes: Route[] = [
   { method: "POST",   pattern: /\/inventory\/usage\/pending\/[^/]+\/reject$/,  needsStorage: true, module: "inventory", handler: handleRejectSubmission },
   { method: "DELETE",  pattern: /\/inventory\/usage\/pending\/[^/]+$/,  needsStorage: true, module: "inventory", handler: handleDeleteSubmission },
 
+  // Cycle counts — blind physical counts of a location subtree, reviewed and
+  // posted as ITEM_QTY_ADJUST events (routes/cycle-counts.ts).
+  { method: "GET",    pattern: "/inventory/cycle-counts",                  needsStorage: true, module: "inventory", handler: handleListCycleCounts },
+  { method: "POST",   pattern: "/inventory/cycle-counts",                  needsStorage: true, module: "inventory", handler: handleOpenCycleCount },
+  { method: "GET",    pattern: /\/inventory\/cycle-counts\/[^/]+\/variance$/, needsStorage: true, module: "inventory", handler: handleCycleCountVariance },
+  { method: "POST",   pattern: /\/inventory\/cycle-counts\/[^/]+\/counts$/,   needsStorage: true, module: "inventory", handler: handleSubmitCycleCounts },
+  { method: "POST",   pattern: /\/inventory\/cycle-counts\/[^/]+\/post$/,     needsStorage: true, module: "inventory", handler: handlePostCycleCount },
+  { method: "POST",   pattern: /\/inventory\/cycle-counts\/[^/]+\/cancel$/,   needsStorage: true, module: "inventory", handler: handleCancelCycleCount },
+  { method: "GET",    pattern: /\/inventory\/cycle-counts\/[^/]+$/,            needsStorage: true, module: "inventory", handler: handleGetCycleCount },
+  // Recalls: preview every matching row across locations, then retire the
+  // selection in one pass under a shared recall reference (routes/recalls.ts).
+  { method: "GET",    pattern: "/inventory/recalls",                       needsStorage: true, module: "inventory", handler: handleListRecalls },
+  { method: "POST",   pattern: "/inventory/recalls/preview",               needsStorage: true, module: "inventory", handler: handlePreviewRecall },
+  { method: "POST",   pattern: "/inventory/recalls",                       needsStorage: true, module: "inventory", handler: handleExecuteRecall },
+
   // CSV import
   { method: "POST",   pattern: "/inventory/import-csv",                needsStorage: true, module: "inventory", handler: handleImportCsv },
 
@@ -139,6 +243,24 @@ const routes: Route[] = [
   { method: "DELETE",  pattern: "/inventory/organization-storage",      needsStorage: true, module: "inventory", handler: handleDeleteOrganizationStorage },
 ];
 
+// ── Public API (v1) ─────────────────────────────────────────────────────────
+// The only table machine (API key) requests can reach, and Cognito sessions
+// never reach it. Paths and response shapes are a published contract
+// (docs/PUBLIC_API.md): add routes freely, but breaking changes go in a /v2
+// table. Handlers enforce the key's role exactly as they do a user's.
+const v1Routes: Route[] = [
+  { method: "GET",    pattern: /^\/v1\/items$/,                           needsStorage: true, module: "inventory", handler: handleV1ListItems },
+  { method: "POST",   pattern: /^\/v1\/items$/,                           needsStorage: true, module: "inventory", handler: handleV1CreateItem },
+  { method: "GET",    pattern: /^\/v1\/items\/[^/]+$/,                    needsStorage: true, module: "inventory", handler: handleV1GetItem },
+  { method: "POST",   pattern: /^\/v1\/items\/[^/]+$/,                    needsStorage: true, module: "inventory", handler: handleV1UpdateItem },
+  { method: "GET",    pattern: /^\/v1\/locations$/,                       needsStorage: true, module: "inventory", handler: handleListLocations },
+  { method: "POST",   pattern: /^\/v1\/usage$/,                           needsStorage: true, module: "inventory", handler: handleSubmitUsage },
+  { method: "GET",    pattern: /^\/v1\/restock-orders$/,                  needsStorage: true, module: "inventory", handler: handleListRestockOrders },
+  { method: "POST",   pattern: /^\/v1\/restock-orders$/,                  needsStorage: true, module: "inventory", handler: handleCreateRestockOrder },
+  { method: "POST",   pattern: /^\/v1\/restock-orders\/[^/]+\/receive$/, needsStorage: true, module: "inventory", handler: handleReceiveRestockOrder },
+  { method: "GET",    pattern: /^\/v1\/audit$/,                           needsStorage: true, module: "inventory", handler: handleAuditFeed },
+];
+
 function matchPattern(pattern: string | RegExp, path: string): boolean {
   if (typeof pattern === "string") return path.endsWith(pattern);
   return pattern.test(path);
@@ -154,6 +276,7 @@ export async function dispatch(
   access: AccessContext,
   body: any,
   query: Record<string, string | undefined>,
+  idempotencyKey = "",
 ): Promise<ReturnType<typeof json> | null> {
   // Platform-support operators are strictly read-only — reject any mutating
   // method across every route, before a handler can run. access.ts already
@@ -164,7 +287,7 @@ export async function dispatch(
 
   let storage: InventoryStorage | null = null;
 
-  for (const route of routes) {
+  for (const route of access.isMachineAccess ? v1Routes : routes) {
     if (route.method !== method) continue;
     if (!matchPattern(route.pattern, path)) continue;
 
@@ -177,6 +300,9 @@ export async function dispatch(
     if (route.needsStorage && !storage) {
       storage = await ensureStorageForOrganization(access.organizationId);
     }
+    if (access.isMachineAccess && storage) {
+      await recordApiKeyUse(storage, access, method, path);
+    }
 
     const ctx: RouteContext = {
       access,
@@ -186,6 +312,11 @@ export async function dispatch(
       query,
     };
 
+    // A replayable mutation (offline queue, retried API call) runs once per
+    // key; repeats get the first response back.
+    if (idempotencyKey && method !== "GET" && storage) {
+      return runIdempotent(storage.idempotencyTable, access, idempotencyKey, { method, path }, () => route.handler(ctx));
+    }
     return route.handler(ctx);
   }
 
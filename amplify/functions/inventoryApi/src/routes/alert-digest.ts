@@ -0,0 +1,71 @@
+// ── Route handlers: alert digest subscription ───────────────────────────────
+// Per-user opt-in for the scheduled expiration / low-stock email digest. The
+// subscription lives on the user record (like displayName / columnVisibility);
+// the alertDigest Lambda scans for it, so these handlers are the only writers
+// of everything except `lastSentAt`.
+
+import { GetCommand, UpdateCommand } from "@aws-sdk/lib-dynamodb";
+import type { RouteContext } from "../types";
+import { ALERT_DIGEST_CADENCES } from "../types";
+import { USER_TABLE } from "../config";
+import { ddb } from "../clients";
+import { json } from "../http";
+import { normalizeAlertDigestSubscription } from "../alerts";
+
+export const handleGetAlertDigest = async (ctx: RouteContext) => {
+  const { access } = ctx;
+  const userRes = await ddb.send(
+    new GetCommand({ TableName: USER_TABLE, Key: { id: access.userId } }),
+  );
+  // Support operators have no user row in the target org — they just see the
+  // unsubscribed default.
+  const subscription = normalizeAlertDigestSubscription(
+    userRes.Item?.organizationId === access.organizationId ? userRes.Item?.alertDigest : undefined,
+  );
+  return json(200, { subscription, email: access.email });
+};
+
+export const handleSaveAlertDigest = async (ctx: RouteContext) => {
+  const { access, body } = ctx;
+  if (typeof body?.enabled !== "boolean") {
+    return json(400, { error: "enabled must be a boolean" });
+  }
+  if (body?.cadence !== undefined && !ALERT_DIGEST_CADENCES.includes(body.cadence)) {
+    return json(400, { error: `cadence must be one of: ${ALERT_DIGEST_CADENCES.join(", ")}` });
+  }
+  if (body?.locationIds !== undefined && !Array.isArray(body.locationIds)) {
+    return json(400, { error: "locationIds must be an array" });
+  }
+  if (body.enabled && !access.email) {
+    return json(400, { error: "Your account has no email address to send the digest to." });
+  }
+
+  // Keep the previous lastSentAt so toggling the form doesn't trigger an
+  // immediate resend on the next scheduled run.
+  const userRes = await ddb.send(
+    new GetCommand({ TableName: USER_TABLE, Key: { id: access.userId } }),
+  );
+  const previous = normalizeAlertDigestSubscription(userRes.Item?.alertDigest);
+  const subscription = normalizeAlertDigestSubscription({
+    enabled: body.enabled,
+    cadence: body.cadence ?? previous.cadence,
+    locationIds: body.locationIds ?? previous.locationIds,
+    updatedAt: new Date().toISOString(),
+    lastSentAt: previous.lastSentAt,
+  });
+
+  await ddb.send(
+    new UpdateCommand({
+      TableName: USER_TABLE,
+      Key: { id: access.userId },
+      ConditionExpression: "organizationId = :org",
+      UpdateExpression: "SET alertDigest = :digest",
+      ExpressionAttributeValues: {
+        ":org": access.organizationId,
+        ":digest": subscription,
+      },
+    }),
+  );
+
+  return json(200, { subscription, email: access.email });
+};
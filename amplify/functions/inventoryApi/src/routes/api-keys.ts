@@ -0,0 +1,237 @@
+// ── Route handlers: org API keys ────────────────────────────────────────────
+// Owner-facing CRUD for the keys machine clients use against the public /v1
+// API (routes/public-api.ts). A key carries a role and a module scope and
+// resolves to a machine AccessContext in access.ts. Only the SHA-256 of the
+// secret is stored; the secret is returned once, at creation.
+
+import { randomBytes } from "node:crypto";
+import { PutCommand, ScanCommand, UpdateCommand } from "@aws-sdk/lib-dynamodb";
+import type { InventoryStorage, AccessContext, RouteContext } from "../types";
+import { API_KEY_TABLE, API_KEY_ROLES, API_KEY_SECRET_PREFIX, OWNER_ROLES } from "../config";
+import { ddb } from "../clients";
+import { json } from "../http";
+import { hashApiKey } from "../access";
+import { buildAuditEvent, writeAuditEvents } from "../audit";
+import { normalizeModuleSubset, normalizeRole } from "../normalize";
+
+const MAX_KEY_NAME_LENGTH = 80;
+/** Characters of the secret kept in the clear so owners can tell keys apart. */
+const PREFIX_LENGTH = 11;
+
+type ApiKeySummary = {
+  id: string;
+  name: string;
+  prefix: string;
+  role: string;
+  modules: string[];
+  status: "active" | "revoked";
+  createdAt: string;
+  createdByEmail: string;
+  lastUsedAt: string | null;
+  requestCount: number;
+  revokedAt: string | null;
+};
+
+const toSummary = (row: Record<string, unknown>): ApiKeySummary => ({
+  id: String(row.id ?? ""),
+  name: String(row.name ?? ""),
+  prefix: String(row.prefix ?? ""),
+  role: String(row.role ?? ""),
+  modules: Array.isArray(row.modules) ? row.modules.map(String) : [],
+  status: String(row.status ?? "") === "active" ? "active" : "revoked",
+  createdAt: String(row.createdAt ?? ""),
+  createdByEmail: String(row.createdByEmail ?? ""),
+  lastUsedAt: row.lastUsedAt ? String(row.lastUsedAt) : null,
+  requestCount: Number(row.requestCount ?? 0) || 0,
+  revokedAt: row.revokedAt ? String(row.revokedAt) : null,
+});
+
+/** Every key row for one org. The table is global but tiny (a handful of keys
+ *  per org), so a filtered scan beats maintaining an index. */
+const listOrgKeys = async (orgId: string): Promise<Record<string, unknown>[]> => {
+  const out: Record<string, unknown>[] = [];
+  let lastKey: Record<string, unknown> | undefined;
+  do {
+    const res = await ddb.send(
+      new ScanCommand({
+        TableName: API_KEY_TABLE,
+        FilterExpression: "organizationId = :org",
+        ExpressionAttributeValues: { ":org": orgId },
+        ExclusiveStartKey: lastKey,
+      }),
+    );
+    for (const item of res.Items ?? []) out.push(item as Record<string, unknown>);
+    lastKey = res.LastEvaluatedKey as Record<string, unknown> | undefined;
+  } while (lastKey);
+  return out;
+};
+
+/** GET /inventory/api-keys — the org's keys (never secrets), newest first,
+ *  plus the modules a new key may be scoped to. */
+export const handleListApiKeys = async (ctx: RouteContext) => {
+  const { access } = ctx;
+  if (!OWNER_ROLES.has(access.role)) {
+    return json(403, { error: "Only the organization owner can manage API keys." });
+  }
+  const rows = API_KEY_TABLE ? await listOrgKeys(access.organizationId) : [];
+  const keys = rows
+    .map(toSummary)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  return json(200, {
+    keys,
+    roles: API_KEY_ROLES,
+    availableModules: access.orgEnabledModules,
+  });
+};
+
+/** POST /inventory/api-keys — owner issues a key. Body: { name, role,
+ *  modules? }. Omitted modules = every module the org has enabled. The
+ *  response is the only place the secret ever appears. */
+export const handleCreateApiKey = async (ctx: RouteContext) => {
+  const { access, body, storage } = ctx;
+  if (!OWNER_ROLES.has(access.role)) {
+    return json(403, { error: "Only the organization owner can create API keys." });
+  }
+  if (!API_KEY_TABLE) {
+    return json(503, { error: "API keys are not configured." });
+  }
+
+  const name = String(body?.name ?? "").trim();
+  if (!name) return json(400, { error: "Key name is required." });
+  if (name.length > MAX_KEY_NAME_LENGTH) return json(400, { error: "Key name too long." });
+  const role = normalizeRole(body?.role);
+  if (!(API_KEY_ROLES as readonly string[]).includes(role)) {
+    return json(400, { error: `role must be one of ${API_KEY_ROLES.join(", ")}.` });
+  }
+  const modules = normalizeModuleSubset(body?.modules, access.orgEnabledModules);
+  if (modules.length === 0) {
+    return json(400, { error: "Enable at least one module before creating a key." });
+  }
+
+  const secret = `${API_KEY_SECRET_PREFIX}${randomBytes(32).toString("base64url")}`;
+  const id = hashApiKey(secret);
+  const prefix = secret.slice(0, PREFIX_LENGTH);
+  const createdAt = new Date().toISOString();
+  const row = {
+    id,
+    organizationId: access.organizationId,
+    name,
+    prefix,
+    role,
+    modules,
+    status: "active",
+    createdByUserId: access.userId,
+    createdByEmail: access.email,
+    createdAt,
+    lastUsedAt: null,
+    requestCount: 0,
+    revokedAt: null,
+    revokedByUserId: null,
+  };
+  await ddb.send(
+    new PutCommand({
+      TableName: API_KEY_TABLE,
+      Item: row,
+      ConditionExpression: "attribute_not_exists(id)",
+    }),
+  );
+
+  await writeAuditEvents(storage.auditTable, [
+    buildAuditEvent(access, "API_KEY_CREATED", null, null, { keyId: id, name, prefix, role, modules }),
+  ]);
+
+  return json(200, { key: toSummary(row), secret });
+};
+
+/** DELETE /inventory/api-keys/:id — owner revokes a key. The row stays (status
+ *  "revoked") so the key list and audit trail keep naming it. */
+export const handleRevokeApiKey = async (ctx: RouteContext) => {
+  const { access, path, storage } = ctx;
+  if (!OWNER_ROLES.has(access.role)) {
+    return json(403, { error: "Only the organization owner can revoke API keys." });
+  }
+  if (!API_KEY_TABLE) {
+    return json(503, { error: "API keys are not configured." });
+  }
+  const match = path.match(/\/inventory\/api-keys\/([^/]+)$/);
+  const keyId = match ? decodeURIComponent(match[1]) : "";
+  if (!keyId) return json(400, { error: "Key id is required." });
+
+  const now = new Date().toISOString();
+  let revoked: Record<string, unknown> | undefined;
+  try {
+    const res = await ddb.send(
+      new UpdateCommand({
+        TableName: API_KEY_TABLE,
+        Key: { id: keyId },
+        ConditionExpression: "organizationId = :org AND #s = :active",
+        UpdateExpression: "SET #s = :revoked, revokedAt = :now, revokedByUserId = :uid",
+        ExpressionAttributeNames: { "#s": "status" },
+        ExpressionAttributeValues: {
+          ":org": access.organizationId,
+          ":active": "active",
+          ":revoked": "revoked",
+          ":now": now,
+          ":uid": access.userId,
+        },
+        ReturnValues: "ALL_NEW",
+      }),
+    );
+    revoked = res.Attributes;
+  } catch (err) {
+    if ((err as { name?: string })?.name === "ConditionalCheckFailedException") {
+      return json(404, { error: "Active API key not found." });
+    }
+    throw err;
+  }
+
+  const summary = toSummary(revoked ?? { id: keyId });
+  await writeAuditEvents(storage.auditTable, [
+    buildAuditEvent(access, "API_KEY_REVOKED", null, null, {
+      keyId,
+      name: summary.name,
+      prefix: summary.prefix,
+    }),
+  ]);
+
+  return json(200, { key: summary });
+};
+
+/** Stamp a machine request on its key (lastUsedAt + requestCount) and write
+ *  the once-a-day API_KEY_USED audit event. Called by the router for every
+ *  /v1 request once storage is ready. Best-effort: bookkeeping must never fail
+ *  the request it describes. */
+export const recordApiKeyUse = async (
+  storage: InventoryStorage,
+  access: AccessContext,
+  method: string,
+  path: string,
+): Promise<void> => {
+  const key = access.apiKey;
+  if (!key || !API_KEY_TABLE) return;
+  const now = new Date().toISOString();
+  try {
+    const res = await ddb.send(
+      new UpdateCommand({
+        TableName: API_KEY_TABLE,
+        Key: { id: key.id },
+        UpdateExpression: "SET lastUsedAt = :now ADD requestCount :one",
+        ExpressionAttributeValues: { ":now": now, ":one": 1 },
+        ReturnValues: "UPDATED_OLD",
+      }),
+    );
+    const previous = res.Attributes?.lastUsedAt ? String(res.Attributes.lastUsedAt) : "";
+    if (previous.slice(0, 10) === now.slice(0, 10)) return;
+    await writeAuditEvents(storage.auditTable, [
+      buildAuditEvent(access, "API_KEY_USED", null, null, {
+        keyId: key.id,
+        name: key.name,
+        prefix: key.prefix,
+        method,
+        path,
+      }),
+    ]);
+  } catch (err) {
+    console.warn("recordApiKeyUse failed", err);
+  }
+};
@@ -0,0 +1,49 @@
+// ── Audit retention handlers ────────────────────────────────────────────────
+// How many years an org keeps its activity log. The first AUDIT_TTL_DAYS stay
+// in the org's audit table; older events live in the archive until the
+// retention runs out (audit-archive.ts). Owner-only to change — shortening it
+// lets the next archive sweep delete records for good.
+
+import { buildAuditEvent, writeAuditEvents } from "../audit";
+import { getAuditRetentionYears, isAuditRetentionYears, saveAuditRetentionYears } from "../audit-archive";
+import { AUDIT_RETENTION_YEAR_OPTIONS, AUDIT_TTL_DAYS, OWNER_ROLES } from "../config";
+import { json } from "../http";
+import type { RouteContext } from "../types";
+
+const retentionBody = (retentionYears: number) => ({
+  retentionYears,
+  hotDays: AUDIT_TTL_DAYS,
+  options: AUDIT_RETENTION_YEAR_OPTIONS,
+});
+
+/** GET /inventory/audit/retention — { retentionYears, hotDays, options }. */
+export const handleGetAuditRetention = async (ctx: RouteContext) => {
+  const { access, storage } = ctx;
+  if (!access.canManageColumns) {
+    return json(403, { error: "Only org admins can view audit retention." });
+  }
+  return json(200, retentionBody(await getAuditRetentionYears(storage)));
+};
+
+/** POST /inventory/audit/retention — owner sets { retentionYears }. */
+export const handleSetAuditRetention = async (ctx: RouteContext) => {
+  const { access, storage, body } = ctx;
+  if (!OWNER_ROLES.has(access.role)) {
+    return json(403, { error: "Only the organization owner can change audit retention." });
+  }
+  if (!isAuditRetentionYears(body?.retentionYears)) {
+    return json(400, { error: `retentionYears must be one of ${AUDIT_RETENTION_YEAR_OPTIONS.join(", ")}.` });
+  }
+  const retentionYears = Number(body.retentionYears);
+  const previousYears = await getAuditRetentionYears(storage);
+  if (retentionYears !== previousYears) {
+    await saveAuditRetentionYears(storage, retentionYears, access.userId);
+    await writeAuditEvents(storage.auditTable, [
+      buildAuditEvent(access, "AUDIT_RETENTION_UPDATED", null, null, {
+        fromYears: previousYears,
+        toYears: retentionYears,
+      }),
+    ]);
+  }
+  return json(200, retentionBody(retentionYears));
+};
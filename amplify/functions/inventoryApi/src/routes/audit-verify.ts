@@ -0,0 +1,59 @@
+// ── Audit chain verification handler ───────────────────────────────────────
+// Walks the org's audit hash chain (audit-chain.ts) so an owner can show an
+// auditor the activity log hasn't been edited. Paged like the export: each
+// call verifies what it can within the time budget and hands back a cursor
+// carrying the walk; the client follows it and adds up the pages.
+
+import {
+  getAuditChainHead,
+  startAuditChainWalk,
+  verifyAuditChainPage,
+  type AuditChainWalk,
+} from "../audit-chain";
+import { OWNER_ROLES } from "../config";
+import { encodeNextToken, json, parseNextToken } from "../http";
+import type { RouteContext } from "../types";
+
+/** API Gateway gives up at 30 s; leave room to answer. */
+const VERIFY_PAGE_BUDGET_MS = 15_000;
+
+const walkOf = (cursor: Record<string, unknown> | undefined): AuditChainWalk | null =>
+  cursor && typeof cursor.expectedSeq === "number" && Array.isArray(cursor.ties)
+    ? (cursor as AuditChainWalk)
+    : null;
+
+/**
+ * GET /inventory/audit/verify — owner-only. Returns
+ * { checked, legacy, expired, issues, issuesTruncated, headSeq, nextCursor }
+ * for one page of the walk; nextCursor is null once it reaches the newest event.
+ */
+export const handleVerifyAuditChain = async (ctx: RouteContext) => {
+  const { access, storage, query } = ctx;
+  if (!OWNER_ROLES.has(access.role)) {
+    return json(403, { error: "Only the organization owner can verify the activity log." });
+  }
+  let walk: AuditChainWalk;
+  if (query.cursor) {
+    const resumed = walkOf(parseNextToken(query.cursor));
+    if (!resumed) return json(400, { error: "Invalid cursor." });
+    walk = resumed;
+  } else {
+    walk = startAuditChainWalk(await getAuditChainHead(storage.auditTable, access.organizationId));
+  }
+
+  const page = await verifyAuditChainPage(
+    storage.auditTable,
+    access.organizationId,
+    walk,
+    Date.now() + VERIFY_PAGE_BUDGET_MS,
+  );
+  return json(200, {
+    checked: page.checked,
+    legacy: page.legacy,
+    expired: page.expired,
+    issues: page.issues,
+    issuesTruncated: page.issuesTruncated,
+    headSeq: walk.headSeq,
+    nextCursor: page.walk ? encodeNextToken(page.walk) : null,
+  });
+};
@@ -1,13 +1,17 @@
 // ── Audit log handlers ──────────────────────────────────────────────────────
 
-import { QueryCommand } from "@aws-sdk/lib-dynamodb";
+import { GetCommand, QueryCommand } from "@aws-sdk/lib-dynamodb";
 import type { AdjustReason, RouteContext } from "../types";
 import { ADJUST_REASON_LOSS_KIND } from "../types";
 import { ddb } from "../clients";
 import { json, parseNextToken, encodeNextToken } from "../http";
 import { AUDIT_BY_TIMESTAMP_INDEX, AUDIT_BY_USER_INDEX } from "../config";
-import { listAllItems } from "../items";
+import { listAllItems, parseValuesJson } from "../items";
 import { listLocations } from "../locations";
+import { auditDetailsMentionLot, lotCodeMatchKey, lotIdentityOf, normalizeLotCode } from "../lots";
+import { auditExportCsvHeader, auditExportCsvLine, flattenAuditEvent, type AuditExportRow } from "../audit-export";
+import { hotAuditFloor, readArchivedAuditEvents, type AuditArchiveCursor } from "../audit-archive";
+import { amendedAuditEventIds, readAuditDetails } from "../audit";
 
 /** The set of location ids (and their names, for the legacy name fallback)
  *  whose events count toward a requested scope. A leaf resolves to just itself;
@@ -121,6 +125,80 @@ const isNoiseAuditItem = (item: Record<string, unknown>): boolean => {
   return false;
 };
 
+/** Most superseded ids a page cursor carries forward. */
+const AMENDED_CARRY_MAX = 50;
+
+/**
+ * Split a newest-first page cursor into the table key to resume after and
+ * the ids of events already known to be amended (writeAuditEventsCoalesced).
+ * The amendment is newer, so it's read first; the event it supersedes can
+ * land on a later page and must still be skipped there.
+ */
+const splitPageCursor = (
+  cursor: Record<string, unknown> | undefined,
+): { key: Record<string, unknown> | undefined; amended: Set<string> } => {
+  if (!cursor) return { key: undefined, amended: new Set<string>() };
+  const { amended, ...key } = cursor;
+  return {
+    key: Object.keys(key).length > 0 ? key : undefined,
+    amended: new Set<string>(Array.isArray(amended) ? amended.map(String) : []),
+  };
+};
+
+const encodePageCursor = (key: Record<string, unknown>, amended: Set<string>): string | null =>
+  encodeNextToken(amended.size > 0 ? { ...key, amended: [...amended].slice(-AMENDED_CARRY_MAX) } : key);
+
+/** Consume one raw item in newest-first order: false when an amendment read
+ *  earlier supersedes it. Records what it amends in turn. */
+const takeUnlessAmended = (item: Record<string, unknown>, amended: Set<string>): boolean => {
+  const superseded = amended.delete(String(item.eventId ?? ""));
+  if (typeof item.amendsEventId === "string") amended.add(item.amendsEventId);
+  return !superseded;
+};
+
+/** A cursor that has moved past the table into the archive: `{ archive }`. */
+const archiveCursorOf = (cursor: Record<string, unknown> | undefined): AuditArchiveCursor | undefined => {
+  const archive = cursor?.archive as Partial<AuditArchiveCursor> | undefined;
+  return archive && typeof archive.timestamp === "string"
+    ? { timestamp: archive.timestamp, eventId: String(archive.eventId ?? "") }
+    : undefined;
+};
+
+const archivePositionOf = (item: Record<string, unknown>): AuditArchiveCursor => ({
+  timestamp: String(item.timestamp ?? ""),
+  eventId: String(item.eventId ?? ""),
+});
+
+/**
+ * Continue a newest-first page into the archive once the table has run out:
+ * events older than hot retention live there (audit-archive.ts). Appends to
+ * `collected` and returns the next cursor, or null at the very end. With the
+ * page already full it only probes whether older events exist.
+ */
+const continueIntoArchive = async (
+  organizationId: string,
+  collected: Array<Record<string, unknown>>,
+  limit: number,
+  options: {
+    before?: AuditArchiveCursor;
+    startAfter?: string;
+    endBefore?: string;
+    match: (item: Record<string, unknown>) => boolean;
+  },
+): Promise<string | null> => {
+  const remaining = limit - collected.length;
+  const { items, next } = await readArchivedAuditEvents(organizationId, {
+    ...options,
+    match: (item) => !isNoiseAuditItem(item) && options.match(item),
+    limit: Math.max(remaining, 1),
+  });
+  if (remaining <= 0) {
+    return (items.length > 0 || next) && options.before ? encodeNextToken({ archive: options.before }) : null;
+  }
+  collected.push(...items);
+  return next ? encodeNextToken({ archive: next }) : null;
+};
+
 export const handleAuditFeed = async (ctx: RouteContext) => {
   const { access, storage, query } = ctx;
   const limit = Math.min(Math.max(Number(query.limit) || 50, 1), 200);
@@ -129,6 +207,8 @@ export const handleAuditFeed = async (ctx: RouteContext) => {
   const actionFilter = query.action?.split(",").filter(Boolean);
   const userIdFilter = query.userId;
   const cursor = parseNextToken(query.cursor);
+  const archiveCursor = archiveCursorOf(cursor);
+  const { key: startKey, amended } = splitPageCursor(cursor);
 
   // EDITORs can only see their own events
   const effectiveUserId = access.canManageColumns ? userIdFilter : access.userId;
@@ -195,11 +275,13 @@ export const handleAuditFeed = async (ctx: RouteContext) => {
   // This is what we hand back as the cursor when we stop mid-page: DDB will
   // resume the next query strictly after this point.
   let lastConsumedKey: Record<string, unknown> | null = null;
-  let exclusiveStartKey = cursor;
-  let hasMorePages = true;
+  let oldestConsumed: AuditArchiveCursor | undefined;
+  let exclusiveStartKey = startKey;
+  // Already past the table — this page comes from the archive alone.
+  let hasMorePages = !archiveCursor;
   let roundTrips = 0;
 
-  outer: while (collected.length < limit && roundTrips < MAX_ROUND_TRIPS) {
+  outer: while (hasMorePages && collected.length < limit && roundTrips < MAX_ROUND_TRIPS) {
     const page = await ddb.send(
       new QueryCommand({
         TableName: storage.auditTable,
@@ -223,7 +305,8 @@ export const handleAuditFeed = async (ctx: RouteContext) => {
       lastConsumedKey = useUserIndex
         ? { userId: it.userId, timestamp: it.timestamp, pk: it.pk, sk: it.sk }
         : { orgId: it.orgId, timestamp: it.timestamp, pk: it.pk, sk: it.sk };
-      if (!isNoiseAuditItem(it)) collected.push(it);
+      oldestConsumed = archivePositionOf(it);
+      if (takeUnlessAmended(it, amended) && !isNoiseAuditItem(it)) collected.push(it);
       if (collected.length >= limit) {
         hasMorePages = page.LastEvaluatedKey != null
           || items.indexOf(it) < items.length - 1;
@@ -239,6 +322,22 @@ export const handleAuditFeed = async (ctx: RouteContext) => {
     exclusiveStartKey = nextKey;
   }
 
+  let nextCursor = hasMorePages && lastConsumedKey
+    ? encodePageCursor(lastConsumedKey, amended)
+    : null;
+  // The table is exhausted; events older than hot retention are archived.
+  if (!hasMorePages && (!startAfter || startAfter < hotAuditFloor())) {
+    nextCursor = await continueIntoArchive(access.organizationId, collected, limit, {
+      before: archiveCursor ?? oldestConsumed,
+      startAfter,
+      endBefore,
+      match: (item) =>
+        (!actionFilter?.length || actionFilter.includes(String(item.action ?? "")))
+        && (!effectiveUserId || item.userId === effectiveUserId)
+        && takeUnlessAmended(item, amended),
+    });
+  }
+
   const events = collected.map((item) => ({
     eventId: item.eventId,
     action: item.action,
@@ -248,16 +347,37 @@ export const handleAuditFeed = async (ctx: RouteContext) => {
     userName: item.userName,
     itemId: item.itemId,
     itemName: item.itemName,
-    details: JSON.parse(String(item.detailsJson ?? "{}")),
+    details: readAuditDetails(item),
   }));
 
-  const nextCursor = hasMorePages && lastConsumedKey
-    ? encodeNextToken(lastConsumedKey)
-    : null;
-
   return json(200, { events, nextCursor });
 };
 
+/** Whether an item's history can reach past the hot table into the archive.
+ *  False when it was created after the hot floor, going by its row's
+ *  createdAt or by `oldestEvent` (the oldest event the table returned) being
+ *  its ITEM_CREATE. A row that's gone or never stamped createdAt counts as
+ *  old. */
+const itemMayHaveArchivedEvents = async (
+  itemTable: string,
+  itemId: string,
+  oldestEvent: Record<string, unknown> | undefined,
+): Promise<boolean> => {
+  if (oldestEvent?.action === "ITEM_CREATE") return false;
+  const floor = hotAuditFloor();
+  try {
+    const res = await ddb.send(new GetCommand({
+      TableName: itemTable,
+      Key: { id: itemId },
+      ProjectionExpression: "createdAt",
+    }));
+    const createdAt = String(res.Item?.createdAt ?? "");
+    return !createdAt || createdAt < floor;
+  } catch {
+    return true;
+  }
+};
+
 export const handleAuditItemHistory = async (ctx: RouteContext) => {
   const { access, storage, path, query } = ctx;
   const match = path.match(/\/inventory\/audit\/item\/([^/]+)$/);
@@ -266,6 +386,8 @@ export const handleAuditItemHistory = async (ctx: RouteContext) => {
 
   const limit = Math.min(Math.max(Number(query.limit) || 50, 1), 200);
   const cursor = parseNextToken(query.cursor);
+  const archiveCursor = archiveCursorOf(cursor);
+  const { key: startKey, amended } = splitPageCursor(cursor);
 
   // Same noise-filtering loop as the main feed — see handleAuditFeed for
   // rationale. Without it, an item with 50 parentItemId-backfill events in its
@@ -273,11 +395,13 @@ export const handleAuditItemHistory = async (ctx: RouteContext) => {
   const MAX_ROUND_TRIPS = 6;
   const collected: Array<Record<string, unknown>> = [];
   let lastConsumedKey: Record<string, unknown> | null = null;
-  let exclusiveStartKey = cursor;
-  let hasMorePages = true;
+  let oldestConsumed: AuditArchiveCursor | undefined;
+  let oldestConsumedEvent: Record<string, unknown> | undefined;
+  let exclusiveStartKey = startKey;
+  let hasMorePages = !archiveCursor;
   let roundTrips = 0;
 
-  outer: while (collected.length < limit && roundTrips < MAX_ROUND_TRIPS) {
+  outer: while (hasMorePages && collected.length < limit && roundTrips < MAX_ROUND_TRIPS) {
     const page = await ddb.send(
       new QueryCommand({
         TableName: storage.auditTable,
@@ -292,7 +416,9 @@ export const handleAuditItemHistory = async (ctx: RouteContext) => {
     const items = (page.Items ?? []) as Array<Record<string, unknown>>;
     for (const it of items) {
       lastConsumedKey = { pk: it.pk, sk: it.sk };
-      if (!isNoiseAuditItem(it)) collected.push(it);
+      oldestConsumed = archivePositionOf(it);
+      oldestConsumedEvent = it;
+      if (takeUnlessAmended(it, amended) && !isNoiseAuditItem(it)) collected.push(it);
       if (collected.length >= limit) {
         hasMorePages = page.LastEvaluatedKey != null
           || items.indexOf(it) < items.length - 1;
@@ -304,6 +430,19 @@ export const handleAuditItemHistory = async (ctx: RouteContext) => {
     exclusiveStartKey = nextKey;
   }
 
+  let nextCursor = hasMorePages && lastConsumedKey
+    ? encodePageCursor(lastConsumedKey, amended)
+    : null;
+  // The table is exhausted; only an item that predates the hot floor can have
+  // archived events. Its creation bounds that: the row's createdAt, or the
+  // ITEM_CREATE event when the table still holds it.
+  if (!hasMorePages && (archiveCursor || await itemMayHaveArchivedEvents(storage.itemTable, itemId, oldestConsumedEvent))) {
+    nextCursor = await continueIntoArchive(access.organizationId, collected, limit, {
+      before: archiveCursor ?? oldestConsumed,
+      match: (item) => item.itemId === itemId && takeUnlessAmended(item, amended),
+    });
+  }
+
   const events = collected.map((item) => ({
     eventId: item.eventId,
     action: item.action,
@@ -313,13 +452,9 @@ export const handleAuditItemHistory = async (ctx: RouteContext) => {
     userName: item.userName,
     itemId: item.itemId,
     itemName: item.itemName,
-    details: JSON.parse(String(item.detailsJson ?? "{}")),
+    details: readAuditDetails(item),
   }));
 
-  const nextCursor = hasMorePages && lastConsumedKey
-    ? encodeNextToken(lastConsumedKey)
-    : null;
-
   return json(200, { events, nextCursor });
 };
 
@@ -369,9 +504,10 @@ export const handleAuditItemNameHistory = async (ctx: RouteContext) => {
     ),
   );
 
+  const amended = amendedAuditEventIds(perRow.flat());
   const merged = perRow
     .flat()
-    .filter((it) => !isNoiseAuditItem(it))
+    .filter((it) => !isNoiseAuditItem(it) && !amended.has(String(it.eventId)))
     .sort((a, b) => String(b.timestamp ?? "").localeCompare(String(a.timestamp ?? "")))
     .slice(0, NAME_HISTORY_CAP);
 
@@ -384,12 +520,264 @@ export const handleAuditItemNameHistory = async (ctx: RouteContext) => {
     userName: item.userName,
     itemId: item.itemId,
     itemName: item.itemName,
-    details: JSON.parse(String(item.detailsJson ?? "{}")),
+    details: readAuditDetails(item),
   }));
 
   return json(200, { events, nextCursor: null });
 };
 
+/** Recall trace: "where did lot X go". Answers from two sides —
+ *  - holdings: rows that carry the code right now (any location, retired
+ *    included), i.e. where the lot is today;
+ *  - events: every audit event that stamped the code, oldest-first, i.e. how
+ *    it got there — received, moved, used, retired, adjusted.
+ *
+ *  Events come from the org's timestamp index rather than row partitions:
+ *  usage deletes emptied lots, and a deleted row's events must still show up.
+ *  The filter prefilters on the raw JSON naming a lot/serial field; the exact
+ *  (case-insensitive) match runs here. Bounded by LOT_TRACE_CAP. */
+const LOT_TRACE_CAP = 500;
+const LOT_TRACE_MAX_PAGES = 50;
+
+export const handleAuditLotTrace = async (ctx: RouteContext) => {
+  const { access, storage, query } = ctx;
+  const code = normalizeLotCode(query.code);
+  if (!code) return json(400, { error: "Missing lot or serial number." });
+  const key = lotCodeMatchKey(code);
+
+  const [allItems, locations] = await Promise.all([
+    listAllItems(storage, access.organizationId),
+    listLocations(storage),
+  ]);
+  const locationNameById = new Map(locations.map((l) => [l.id, l.name]));
+  const holdings = allItems.flatMap((item) => {
+    const values = parseValuesJson(item.valuesJson);
+    const lot = lotIdentityOf(values);
+    if (lotCodeMatchKey(lot.lotNumber ?? "") !== key && lotCodeMatchKey(lot.serialNumber ?? "") !== key) return [];
+    const expirationDate = String(values.expirationDate ?? "").trim();
+    return [{
+      itemId: item.id,
+      itemName: String(values.itemName ?? "").trim(),
+      locationId: item.locationId ?? "",
+      locationName: locationNameById.get(item.locationId ?? "") ?? "",
+      quantity: Number(values.quantity ?? 0) || 0,
+      retired: Boolean(values.retiredAt),
+      ...(expirationDate ? { expirationDate } : {}),
+      ...lot,
+    }];
+  });
+
+  const collected: Array<Record<string, unknown>> = [];
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+  for (let page = 0; page < LOT_TRACE_MAX_PAGES && collected.length < LOT_TRACE_CAP; page += 1) {
+    const res = await ddb.send(
+      new QueryCommand({
+        TableName: storage.auditTable,
+        IndexName: AUDIT_BY_TIMESTAMP_INDEX,
+        KeyConditionExpression: "orgId = :orgId",
+        FilterExpression: "contains(detailsJson, :lotField) OR contains(detailsJson, :serialField)",
+        ExpressionAttributeValues: {
+          ":orgId": access.organizationId,
+          ":lotField": "lotNumber",
+          ":serialField": "serialNumber",
+        },
+        ScanIndexForward: true,
+        ...(exclusiveStartKey ? { ExclusiveStartKey: exclusiveStartKey } : {}),
+      }),
+    );
+    for (const it of (res.Items ?? []) as Array<Record<string, unknown>>) {
+      const details = readAuditDetails(it);
+      if (auditDetailsMentionLot(details, code)) collected.push({ ...it, details });
+      if (collected.length >= LOT_TRACE_CAP) break;
+    }
+    if (!res.LastEvaluatedKey) break;
+    exclusiveStartKey = res.LastEvaluatedKey as Record<string, unknown>;
+  }
+
+  const amended = amendedAuditEventIds(collected);
+  const events = collected.filter((item) => !amended.has(String(item.eventId))).map((item) => ({
+    eventId: item.eventId,
+    action: item.action,
+    timestamp: item.timestamp,
+    userId: item.userId,
+    userEmail: item.userEmail,
+    userName: item.userName,
+    itemId: item.itemId,
+    itemName: item.itemName,
+    details: item.details,
+  }));
+
+  return json(200, { code, holdings, events });
+};
+
+/** Export paging. A page stops at whichever comes first: `limit` rows, the
+ *  byte budget (Lambda responses cap at 6 MB), or the time budget (API
+ *  Gateway gives up at 30 s) — sparse filters over a long range can read many
+ *  raw pages to fill one export page. The client follows nextCursor. */
+const EXPORT_DEFAULT_LIMIT = 1000;
+const EXPORT_MAX_LIMIT = 2000;
+const EXPORT_PAGE_MAX_BYTES = 4_000_000;
+const EXPORT_PAGE_BUDGET_MS = 15_000;
+
+/**
+ * GET /inventory/audit/export — the activity log as a file for inspectors and
+ * auditors. Admin-only. Filters: startAfter / endBefore (ISO timestamps),
+ * action (comma list), userId, locationId (a station covers its sublocations,
+ * as in Analytics), itemId or itemName (every lot of that name). Events come
+ * oldest-first, flattened into readable columns (audit-export.ts); noise the
+ * feed hides is left out here too.
+ *
+ * format=csv returns `{ csv }` — a chunk of lines with the header on the first
+ * page only, so concatenating every page's chunk gives the file. format=json
+ * returns `{ events }` with each flattened row plus its raw `details`.
+ */
+export const handleAuditExport = async (ctx: RouteContext) => {
+  const { access, storage, query } = ctx;
+  if (!access.canManageColumns) {
+    return json(403, { error: "Only admins can export the activity log." });
+  }
+  const startedAt = Date.now();
+  const format = String(query.format ?? "csv").trim().toLowerCase();
+  if (format !== "csv" && format !== "json") return json(400, { error: "format must be csv or json." });
+  const limit = Math.min(Math.max(Number(query.limit) || EXPORT_DEFAULT_LIMIT, 1), EXPORT_MAX_LIMIT);
+  const startAfter = String(query.startAfter ?? "").trim();
+  const endBefore = String(query.endBefore ?? "").trim();
+  const actionFilter = String(query.action ?? "").split(",").map((a) => a.trim()).filter(Boolean);
+  const userId = String(query.userId ?? "").trim();
+  const itemId = String(query.itemId ?? "").trim();
+  const itemName = String(query.itemName ?? "").trim().toLowerCase();
+  const requestedLocationId = String(query.locationId ?? "").trim() || undefined;
+  const cursor = parseNextToken(query.cursor);
+  if (query.cursor && !cursor) return json(400, { error: "Invalid cursor." });
+
+  const locations = await listLocations(storage).catch(() => []);
+  const locationNames = new Map(locations.map((l) => [l.id, l.name]));
+  const locationScope = requestedLocationId
+    ? await resolveLocationScope(storage, requestedLocationId)
+    : undefined;
+  // Same fallback as Analytics: events that never stamped a location are
+  // attributed to their row's current location.
+  const itemLocationMap = new Map<string, string>();
+  if (requestedLocationId) {
+    try {
+      for (const item of await listAllItems(storage, access.organizationId)) {
+        if (!item.locationId) continue;
+        itemLocationMap.set(item.id, item.locationId);
+        const parentId = String(parseValuesJson(item.valuesJson).parentItemId ?? "").trim();
+        if (parentId && parentId !== item.id) itemLocationMap.set(parentId, item.locationId);
+      }
+    } catch { /* items read failure → only events stamped with a location match */ }
+  }
+  const locationFilter = buildLocationFilter(locationScope, itemLocationMap);
+
+  // One item → its own partition; one user → ByUser; otherwise the org's
+  // timestamp index. The org check stays on every path.
+  const exprValues: Record<string, unknown> = { ":orgId": access.organizationId };
+  const exprNames: Record<string, string> = {};
+  const filters: string[] = [];
+  const timeConditions: string[] = [];
+  if (startAfter) {
+    timeConditions.push("#ts > :start");
+    exprValues[":start"] = startAfter;
+  }
+  if (endBefore) {
+    timeConditions.push("#ts < :end");
+    exprValues[":end"] = endBefore;
+  }
+  if (timeConditions.length > 0) exprNames["#ts"] = "timestamp";
+  let indexName: string | undefined;
+  let keyCondition: string;
+  if (itemId) {
+    keyCondition = "pk = :pk";
+    exprValues[":pk"] = `ITEM#${itemId}`;
+    filters.push("orgId = :orgId", ...timeConditions);
+  } else if (userId) {
+    indexName = AUDIT_BY_USER_INDEX;
+    keyCondition = "userId = :userId";
+    exprValues[":userId"] = userId;
+    filters.push("orgId = :orgId");
+  } else {
+    indexName = AUDIT_BY_TIMESTAMP_INDEX;
+    keyCondition = "orgId = :orgId";
+  }
+  const betweenBounds = !itemId && !!startAfter && !!endBefore;
+  if (!itemId && timeConditions.length > 0) {
+    keyCondition += betweenBounds
+      ? " AND #ts BETWEEN :start AND :end"
+      : ` AND ${timeConditions[0]}`;
+  }
+  if (actionFilter.length > 0) {
+    exprNames["#action"] = "action";
+    filters.push(`#action IN (${actionFilter.map((_, i) => `:act${i}`).join(", ")})`);
+    actionFilter.forEach((a, i) => {
+      exprValues[`:act${i}`] = a;
+    });
+  }
+  const keyOf = (it: Record<string, unknown>): Record<string, unknown> =>
+    itemId
+      ? { pk: it.pk, sk: it.sk }
+      : userId
+        ? { userId: it.userId, timestamp: it.timestamp, pk: it.pk, sk: it.sk }
+        : { orgId: it.orgId, timestamp: it.timestamp, pk: it.pk, sk: it.sk };
+
+  const rows: Array<{ row: AuditExportRow; details: Record<string, unknown> }> = [];
+  let bytes = 0;
+  let exclusiveStartKey = cursor;
+  let nextKey: Record<string, unknown> | null = null;
+
+  outer: while (true) {
+    const page = await ddb.send(
+      new QueryCommand({
+        TableName: storage.auditTable,
+        ...(indexName ? { IndexName: indexName } : {}),
+        KeyConditionExpression: keyCondition,
+        ...(filters.length > 0 ? { FilterExpression: filters.join(" AND ") } : {}),
+        ExpressionAttributeValues: exprValues,
+        ...(Object.keys(exprNames).length > 0 ? { ExpressionAttributeNames: exprNames } : {}),
+        ScanIndexForward: true,
+        Limit: 500,
+        ...(exclusiveStartKey ? { ExclusiveStartKey: exclusiveStartKey } : {}),
+      }),
+    );
+    const items = (page.Items ?? []) as Array<Record<string, unknown>>;
+    for (let i = 0; i < items.length; i += 1) {
+      const it = items[i];
+      if (isNoiseAuditItem(it)) continue;
+      // BETWEEN is inclusive at both ends; startAfter and endBefore are not.
+      if (betweenBounds && (it.timestamp === startAfter || it.timestamp === endBefore)) continue;
+      if (itemName && String(it.itemName ?? "").trim().toLowerCase() !== itemName) continue;
+      const flat = flattenAuditEvent(it, locationNames);
+      if (!locationFilter(String(it.action ?? ""), flat.details, it.itemId as string | undefined)) continue;
+      rows.push(flat);
+      bytes += format === "csv" ? auditExportCsvLine(flat.row).length : JSON.stringify(flat).length;
+      if (rows.length >= limit || bytes >= EXPORT_PAGE_MAX_BYTES) {
+        const more = i < items.length - 1 || page.LastEvaluatedKey != null;
+        nextKey = more ? keyOf(it) : null;
+        break outer;
+      }
+    }
+    const lastKey = page.LastEvaluatedKey as Record<string, unknown> | undefined;
+    if (!lastKey) break;
+    exclusiveStartKey = lastKey;
+    if (Date.now() - startedAt >= EXPORT_PAGE_BUDGET_MS) {
+      nextKey = lastKey;
+      break;
+    }
+  }
+
+  const nextCursor = nextKey ? encodeNextToken(nextKey) : null;
+  if (format === "csv") {
+    const lines = rows.map(({ row }) => auditExportCsvLine(row));
+    if (!cursor) lines.unshift(auditExportCsvHeader());
+    return json(200, { csv: lines.join("\n"), rowCount: rows.length, nextCursor });
+  }
+  return json(200, {
+    events: rows.map(({ row, details }) => ({ ...row, details })),
+    rowCount: rows.length,
+    nextCursor,
+  });
+};
+
 /** ms-per-year approximation used for YoY shifting. 365 days is fine for the
  *  comparisons we care about (year-over-year of a sliding window); leap-year
  *  off-by-one days don't materially change a 30-day-vs-30-day comparison. */
@@ -575,8 +963,7 @@ export const handleAuditAnalytics = async (ctx: RouteContext) => {
   for (const evt of allEvents) {
     const action = String(evt.action ?? "");
     if (action !== "USAGE_APPROVE") continue;
-    let details: Record<string, unknown> = {};
-    try { details = JSON.parse(String(evt.detailsJson ?? "{}")); } catch { /* ignore */ }
+    const details = readAuditDetails(evt);
     if (details.undone) continue;
     if (!locationFilter(action, details, String(evt.itemId ?? ""))) continue;
     const qty = Number(details.quantityUsed ?? 0);
@@ -654,8 +1041,7 @@ function aggregatePeriodSlice(
     const itemId = String(evt.itemId ?? "");
     const itemName = String(evt.itemName ?? "");
 
-    let details: Record<string, unknown> = {};
-    try { details = JSON.parse(String(evt.detailsJson ?? "{}")); } catch { /* ignore */ }
+    const details = readAuditDetails(evt);
 
     // Per-location scoping: drop events that don't match before any work.
     if (!locationFilter(action, details, itemId)) continue;
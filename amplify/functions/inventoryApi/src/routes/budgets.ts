@@ -0,0 +1,199 @@
+// ── Budget handlers ─────────────────────────────────────────────────────────
+// Supply budgets per location and/or groupable column value for a fiscal
+// period, tracked against spend: actual from RESTOCK_RECEIVED events (costed
+// like the valuation report when the event carries no price) and committed
+// from what's still to arrive on open orders. Aggregation lives in budgets.ts.
+//
+// Storage shape: a single "meta" row on the columns table with
+//   { id, module, kind: "meta", budgets: InventoryBudget[] }
+// keyed by `inventory-meta-budgets` — same pattern as the expiration
+// settings meta row.
+
+import { GetCommand, PutCommand } from "@aws-sdk/lib-dynamodb";
+import { randomUUID } from "node:crypto";
+import { amendedAuditEventIds, readAuditDetails } from "../audit";
+import { MAX_BUDGETS, normalizeBudget, normalizeBudgets, summarizeBudgets, type BudgetSpendLine } from "../budgets";
+import { ddb } from "../clients";
+import { listColumns } from "../columns";
+import { json } from "../http";
+import { getParentItemId, listAllItems, parseValuesJson } from "../items";
+import { listLocations } from "../locations";
+import type { InventoryBudget, InventoryStorage, RestockOrder, RestockOrderItem, RouteContext } from "../types";
+import { orderLineUnitCost } from "../valuation";
+import { AS_OF_READ_BUDGET_MS, readAuditEventsBetween } from "./inventory-snapshot";
+import { listRestockOrders } from "./restock";
+
+const BUDGETS_META_ID = "inventory-meta-budgets";
+
+const RECEIVED_ACTIONS: ReadonlySet<string> = new Set(["RESTOCK_RECEIVED"]);
+
+/** Orders whose remaining lines are committed spend. Drafts aren't placed
+ *  yet; orders awaiting approval count until they're rejected. */
+const COMMITTED_STATUSES = new Set(["pending_approval", "open", "partial"]);
+
+export const getBudgets = async (storage: InventoryStorage): Promise<InventoryBudget[]> => {
+  const result = await ddb.send(new GetCommand({ TableName: storage.columnTable, Key: { id: BUDGETS_META_ID } }));
+  return normalizeBudgets(result.Item);
+};
+
+const saveBudgets = async (storage: InventoryStorage, budgets: InventoryBudget[], userId: string) => {
+  await ddb.send(new PutCommand({
+    TableName: storage.columnTable,
+    Item: {
+      id: BUDGETS_META_ID,
+      module: "inventory",
+      kind: "meta",
+      budgets,
+      updatedAt: new Date().toISOString(),
+      updatedByUserId: userId,
+    },
+  }));
+};
+
+const parseOrderItems = (order: RestockOrder): RestockOrderItem[] => {
+  try {
+    return JSON.parse(String(order.itemsJson ?? "[]")) as RestockOrderItem[];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * GET /inventory/budgets — every budget with its actual and committed spend,
+ * status and monthly burn. Readable by anyone with inventory access so the
+ * order form can warn before an order goes over.
+ */
+export const handleListBudgets = async (ctx: RouteContext) => {
+  const { access, storage } = ctx;
+  if (!access.allowedModules?.includes("inventory")) {
+    return json(403, { error: "Inventory access required." });
+  }
+  const budgets = await getBudgets(storage);
+  if (budgets.length === 0) return json(200, { budgets: [] });
+
+  const firstDay = budgets.reduce((min, b) => (b.periodStart < min ? b.periodStart : min), budgets[0].periodStart);
+  const lastDay = budgets.reduce((max, b) => (b.periodEnd > max ? b.periodEnd : max), budgets[0].periodEnd);
+  const [items, locations, orders, events] = await Promise.all([
+    listAllItems(storage, access.organizationId),
+    listLocations(storage),
+    listRestockOrders(storage, access.organizationId),
+    readAuditEventsBetween(
+      storage.auditTable,
+      access.organizationId,
+      {
+        after: new Date(Date.parse(`${firstDay}T00:00:00.000Z`) - 1).toISOString(),
+        through: `${lastDay}T23:59:59.999Z`,
+        actions: RECEIVED_ACTIONS,
+      },
+      Date.now() + AS_OF_READ_BUDGET_MS,
+    ),
+  ]);
+  if (!events) {
+    return json(422, { error: "There's too much activity in these budget periods to total in one request." });
+  }
+
+  const rows = new Map<string, { locationId: string; values: Record<string, unknown> }>();
+  for (const item of items) {
+    const values = parseValuesJson(item.valuesJson);
+    const row = { locationId: String(item.locationId ?? ""), values };
+    rows.set(item.id, row);
+    const parentId = getParentItemId(item.id, values);
+    if (!rows.has(parentId)) rows.set(parentId, row);
+  }
+  const orderLines = new Map<string, RestockOrderItem>();
+  const committed: BudgetSpendLine[] = [];
+  for (const order of orders) {
+    const lines = parseOrderItems(order);
+    for (const line of lines) orderLines.set(`${order.id}#${line.itemId}`, line);
+    if (!COMMITTED_STATUSES.has(order.status)) continue;
+    for (const line of lines) {
+      const ordered = Number(line.qtyOrdered) || 0;
+      const outstanding = ordered - (Number(line.qtyReceived) || 0);
+      if (ordered <= 0 || outstanding <= 0) continue;
+      const row = rows.get(line.itemId);
+      const unitCost = orderLineUnitCost(line, String(row?.values.unit ?? ""));
+      const lineTotal = typeof line.purchasePrice === "number" && Number.isFinite(line.purchasePrice)
+        ? line.purchasePrice
+        : unitCost !== null ? unitCost * ordered : 0;
+      if (lineTotal <= 0) continue;
+      committed.push({
+        at: String(order.createdAt ?? ""),
+        locationId: String(line.locationId ?? "") || row?.locationId || "",
+        values: row?.values ?? { itemName: line.itemName },
+        amount: lineTotal * (outstanding / ordered),
+      });
+    }
+  }
+
+  const amended = amendedAuditEventIds(events);
+  const received: BudgetSpendLine[] = [];
+  for (const event of events) {
+    if (amended.has(String(event.eventId ?? ""))) continue;
+    const details = readAuditDetails(event);
+    const qty = Number(details.qtyReceived ?? 0);
+    if (!Number.isFinite(qty) || qty <= 0) continue;
+    const itemId = String(event.itemId ?? "");
+    const row = rows.get(String(details.targetItemId ?? "") || itemId)
+      ?? rows.get(String(details.parentItemId ?? ""));
+    const stamped = Number(details.unitCost ?? 0);
+    let unitCost: number | null = Number.isFinite(stamped) && stamped > 0 ? stamped : null;
+    if (unitCost === null && details.orderId) {
+      const line = orderLines.get(`${String(details.orderId)}#${itemId}`);
+      if (line) unitCost = orderLineUnitCost(line, String(row?.values.unit ?? ""));
+    }
+    if (!unitCost) continue;
+    received.push({
+      at: String(event.timestamp ?? ""),
+      locationId: String(details.locationId ?? "") || row?.locationId || "",
+      values: row?.values ?? { itemName: event.itemName },
+      amount: qty * unitCost,
+    });
+  }
+
+  return json(200, { budgets: summarizeBudgets(budgets, received, committed, locations) });
+};
+
+/** POST /inventory/budgets — admin creates a budget, or replaces the one
+ *  named by `id`. Returns { budget }. */
+export const handleSaveBudget = async (ctx: RouteContext) => {
+  const { access, storage, body } = ctx;
+  if (!access.canManageColumns) {
+    return json(403, { error: "Only org admins can manage budgets." });
+  }
+  const existing = await getBudgets(storage);
+  const id = String(body?.id ?? "").trim();
+  if (id && !existing.some((b) => b.id === id)) return json(404, { error: "Budget not found." });
+  if (!id && existing.length >= MAX_BUDGETS) {
+    return json(400, { error: `An organization can have at most ${MAX_BUDGETS} budgets.` });
+  }
+
+  const budget = normalizeBudget(body, id || randomUUID());
+  if (typeof budget === "string") return json(400, { error: budget });
+  if (budget.locationId) {
+    const locations = await listLocations(storage);
+    if (!locations.some((l) => l.id === budget.locationId)) return json(404, { error: "Location not found." });
+  }
+  if (budget.columnKey) {
+    const columns = await listColumns(storage);
+    if (!columns.some((c) => c.key === budget.columnKey && c.isGroupable)) {
+      return json(400, { error: "A budget can only be scoped to a groupable column." });
+    }
+  }
+
+  const next = id ? existing.map((b) => (b.id === id ? budget : b)) : [...existing, budget];
+  await saveBudgets(storage, next, access.userId);
+  return json(200, { budget });
+};
+
+/** DELETE /inventory/budgets/{id} — admin removes a budget. */
+export const handleDeleteBudget = async (ctx: RouteContext) => {
+  const { access, storage, path } = ctx;
+  if (!access.canManageColumns) {
+    return json(403, { error: "Only org admins can manage budgets." });
+  }
+  const id = decodeURIComponent(path.split("/").pop() ?? "");
+  const existing = await getBudgets(storage);
+  if (!existing.some((b) => b.id === id)) return json(404, { error: "Budget not found." });
+  await saveBudgets(storage, existing.filter((b) => b.id !== id), access.userId);
+  return json(200, { ok: true });
+};
@@ -0,0 +1,152 @@
+// ── Route handlers: change feed ─────────────────────────────────────────────
+// Incremental sync for open grids. Instead of re-running the bootstrap, a
+// client polls with the cursor from its last load and gets back only what
+// other writers changed since: items from the ByModuleUpdatedAt index,
+// deletions and location/column changes from the audit ByTimestamp index.
+
+import { QueryCommand } from "@aws-sdk/lib-dynamodb";
+import type { AuditAction, InventoryItem, RouteContext } from "../types";
+import { ddb } from "../clients";
+import { json } from "../http";
+import {
+  AUDIT_BY_TIMESTAMP_INDEX,
+  INVENTORY_ITEM_BY_MODULE_INDEX,
+  INVENTORY_ITEM_BY_MODULE_UPDATED_INDEX,
+} from "../config";
+import { listColumns, listLocations } from "../columns";
+import { isIndexUnavailable } from "../items";
+
+/** Writers stamp `updatedAtCustom` / the audit timestamp just before their
+ *  write lands, so a poll can race a write that is already timestamped but
+ *  not yet visible. Handing back a cursor this far behind "now" means the next
+ *  poll re-reads that window; clients skip rows whose version they already
+ *  have. */
+const CHANGES_OVERLAP_MS = 5_000;
+
+/** Older cursors are refused with CHANGES_CURSOR_EXPIRED — a client that has
+ *  been asleep that long should take a fresh bootstrap instead. */
+const CHANGES_MAX_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const LOCATION_ACTIONS = new Set<AuditAction>([
+  "LOCATION_CREATE",
+  "LOCATION_RENAME",
+  "LOCATION_REPARENT",
+  "LOCATION_DELETE",
+  "TEMPLATE_APPLY",
+  "CSV_IMPORT",
+]);
+
+const COLUMN_ACTIONS = new Set<AuditAction>([
+  "COLUMN_CREATE",
+  "COLUMN_UPDATE",
+  "COLUMN_DELETE",
+  "COLUMN_RESTORE",
+  "TEMPLATE_APPLY",
+  "CSV_IMPORT",
+]);
+
+/** Rows written after `sinceIso`. Reads just that range of ByModuleUpdatedAt;
+ *  `useIndex` false is the fallback while the index is still being added
+ *  (see ensureItemIndexes), filtering the whole module index instead. */
+const listItemsUpdatedSince = async (
+  itemTable: string,
+  sinceIso: string,
+  useIndex: boolean,
+): Promise<InventoryItem[]> => {
+  const items: InventoryItem[] = [];
+  let lastKey: Record<string, unknown> | undefined;
+  do {
+    const page = await ddb.send(
+      new QueryCommand({
+        TableName: itemTable,
+        IndexName: useIndex ? INVENTORY_ITEM_BY_MODULE_UPDATED_INDEX : INVENTORY_ITEM_BY_MODULE_INDEX,
+        KeyConditionExpression: useIndex ? "#module = :module AND updatedAtCustom > :since" : "#module = :module",
+        ...(useIndex ? {} : { FilterExpression: "updatedAtCustom > :since" }),
+        ExpressionAttributeNames: { "#module": "module" },
+        ExpressionAttributeValues: { ":module": "inventory", ":since": sinceIso },
+        ExclusiveStartKey: lastKey,
+      }),
+    );
+    items.push(...((page.Items ?? []) as InventoryItem[]).filter((item) => item.module === "inventory"));
+    lastKey = page.LastEvaluatedKey as Record<string, unknown> | undefined;
+  } while (lastKey);
+  return items;
+};
+
+/** The cursor a client should poll from after a load that starts now. */
+export const currentChangesCursor = (): string => new Date(Date.now() - CHANGES_OVERLAP_MS).toISOString();
+
+/**
+ * GET /inventory/changes?since=<cursor> — what changed since the cursor:
+ * `{ cursor, items, deletedIds, locations?, columns? }`. `items` are full rows
+ * in the bootstrap shape; `locations` / `columns` are the complete current
+ * lists, present only when something in them changed. Poll again with the
+ * returned `cursor`.
+ *
+ * Blank rows deleted before anyone filled them in leave no ITEM_DELETE event,
+ * so they aren't reported; a later save to one surfaces as a save conflict.
+ */
+export const handleListChanges = async (ctx: RouteContext) => {
+  const { access, storage, query } = ctx;
+  const since = String(query.since ?? "").trim();
+  const sinceMs = Date.parse(since);
+  if (!since || !Number.isFinite(sinceMs)) {
+    return json(400, { error: "since must be a cursor from a previous load." });
+  }
+  if (Date.now() - sinceMs > CHANGES_MAX_WINDOW_MS) {
+    return json(410, { error: "That cursor is too old. Reload the inventory.", code: "CHANGES_CURSOR_EXPIRED" });
+  }
+  const sinceIso = new Date(sinceMs).toISOString();
+  const cursor = currentChangesCursor();
+
+  let items: InventoryItem[];
+  try {
+    items = await listItemsUpdatedSince(storage.itemTable, sinceIso, true);
+  } catch (err) {
+    if (!isIndexUnavailable(err)) throw err;
+    items = await listItemsUpdatedSince(storage.itemTable, sinceIso, false);
+  }
+
+  const deleted = new Set<string>();
+  let locationsChanged = false;
+  let columnsChanged = false;
+  let auditKey: Record<string, unknown> | undefined;
+  do {
+    const page = await ddb.send(
+      new QueryCommand({
+        TableName: storage.auditTable,
+        IndexName: AUDIT_BY_TIMESTAMP_INDEX,
+        KeyConditionExpression: "orgId = :orgId AND #ts > :since",
+        ProjectionExpression: "#action, itemId",
+        ExpressionAttributeNames: { "#ts": "timestamp", "#action": "action" },
+        ExpressionAttributeValues: { ":orgId": access.organizationId, ":since": sinceIso },
+        ScanIndexForward: true,
+        ExclusiveStartKey: auditKey,
+      }),
+    );
+    for (const event of (page.Items ?? []) as Array<{ action?: AuditAction; itemId?: string }>) {
+      if (!event.action) continue;
+      if (event.action === "ITEM_DELETE" && event.itemId) deleted.add(event.itemId);
+      if (LOCATION_ACTIONS.has(event.action)) locationsChanged = true;
+      if (COLUMN_ACTIONS.has(event.action)) columnsChanged = true;
+    }
+    auditKey = page.LastEvaluatedKey as Record<string, unknown> | undefined;
+  } while (auditKey);
+
+  // A row that still exists wasn't deleted, whatever the log says (an undo
+  // or restore can re-create the same id).
+  for (const item of items) deleted.delete(item.id);
+
+  const [locations, columns] = await Promise.all([
+    locationsChanged ? listLocations(storage) : Promise.resolve(null),
+    columnsChanged ? listColumns(storage) : Promise.resolve(null),
+  ]);
+
+  return json(200, {
+    cursor,
+    items: items.sort((a, b) => Number(a.position) - Number(b.position)),
+    deletedIds: Array.from(deleted),
+    ...(locations ? { locations } : {}),
+    ...(columns ? { columns } : {}),
+  });
+};
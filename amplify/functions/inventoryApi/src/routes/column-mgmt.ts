@@ -16,7 +16,7 @@ import { ddb } from "../clients";
 import { json } from "../http";
 import { CORE_KEYS } from "../config";
 import { normalizeOrgId, toKey } from "../normalize";
-import { buildAuditEvent, findAuditEventByEventId, writeAuditEvents } from "../audit";
+import { buildAuditEvent, findAuditEventByEventId, markAuditEventUndone, writeAuditEvents } from "../audit";
 import { ensureColumns, listLocations } from "../columns";
 import { deleteStorageForOrganization } from "../storage";
 
@@ -300,33 +300,9 @@ export const handleRestoreColumn = async (ctx: RouteContext) => {
   await ddb.send(new PutCommand({ TableName: storage.columnTable, Item: restored }));
 
   // Mark the original delete event as undone so the Undo button hides.
-  const undoneAt = new Date().toISOString();
-  const undoEventId = randomUUID();
-  const updatedDetails = {
-    ...details,
-    undone: true,
-    undoneAt,
-    undoneByUserId: access.userId,
-    undoneByEventId: undoEventId,
-  };
-  try {
-    await ddb.send(
-      new UpdateCommand({
-        TableName: storage.auditTable,
-        Key: { pk: original.pk as string, sk: original.sk as string },
-        UpdateExpression: "SET detailsJson = :d, undoneAt = :ua",
-        ConditionExpression: "attribute_not_exists(undoneAt)",
-        ExpressionAttributeValues: {
-          ":d": JSON.stringify(updatedDetails),
-          ":ua": undoneAt,
-        },
-      }),
-    );
-  } catch (err: any) {
-    if (err?.name === "ConditionalCheckFailedException") {
-      return json(409, { error: "This column has already been restored." });
-    }
-    throw err;
+  const undoEventId = await markAuditEventUndone(storage.auditTable, original, access.userId);
+  if (!undoEventId) {
+    return json(409, { error: "This column has already been restored." });
   }
 
   await writeAuditEvents(storage.auditTable, [
@@ -335,7 +311,7 @@ export const handleRestoreColumn = async (ctx: RouteContext) => {
       columnId,
       columnKey: key,
       columnLabel: label,
-    }),
+    }, undoEventId),
   ]);
 
   return json(200, { column: restored });
@@ -230,7 +230,7 @@ export const handleImportCsv = async (ctx: RouteContext) => {
 
       if (target.key === "expirationDate") {
         values[target.key] = parseDateToIsoDay(cell);
-      } else if (target.key === "quantity" || target.key === "minQuantity") {
+      } else if (target.key === "quantity" || target.key === "minQuantity" || target.key === "parQuantity") {
         const parsed = parseNonNegativeNumberOrBlank(cell);
         if (!parsed.ok) {
           const reason = "error" in parsed ? parsed.error : "must be a number";
@@ -5,7 +5,7 @@ import type { RouteContext } from "../types";
 import { json } from "../http";
 import { ensureColumns, listLocations } from "../columns";
 import { listAllItems, listItemsPage } from "../items";
-import { getDaysUntilExpiration } from "../csv";
+import { summarizeInventoryAlerts } from "../alerts";
 import { getRegisteredVendors } from "../vendors";
 import { createLocation } from "../locations";
 import { ensureSchemaUpToDate, DEFAULT_LOCATION_NAME } from "../migration";
@@ -13,116 +13,31 @@ import { seedSyntheticPriceHistory } from "../seed-synthetic-history";
 import { migrateVendorPricingFromItems } from "../migrate-vendor-pricing";
 import { listAllVendorPricing } from "./vendor-pricing";
 import { getAllowedUnits } from "./allowed-units";
+import { getExpirationSettings } from "./expiration-settings";
+import { currentChangesCursor } from "./changes";
 import { ddb } from "../clients";
 
 export const handleAlertSummary = async (ctx: RouteContext) => {
   const { storage } = ctx;
-  const [items, locations] = await Promise.all([
+  const [items, locations, expirationSettings] = await Promise.all([
     listAllItems(storage, ""),
     listLocations(storage),
+    getExpirationSettings(storage),
   ]);
-  let expiredCount = 0;
-  let expiringSoonCount = 0;
-  let lowStockCount = 0;
-
-  // Keyed by locationId, NOT name — location names are only unique within a
-  // parent, so two primaries can each have an "EMS Cabinet". Keying by name
-  // would silently merge their counts.
-  const locationNameById = new Map(locations.map((l) => [l.id, l.name]));
-  const byLocationMap = new Map<string, { expiredCount: number; expiringSoonCount: number; lowStockCount: number }>();
-
-  // Low stock is item-level, not per-lot: a single zeroed lot doesn't mean the
-  // item needs reordering if its other lots cover the minimum. Aggregate lots
-  // by (location, lowercased itemName) — SUM quantity, MAX minQuantity — and
-  // flag the group low only when the total is below threshold. Mirrors the
-  // frontend (useInventoryFilters.ts) and the Reorder/Shop rule. Quantity-only
-  // counts (expired/expiring) stay per-lot since each lot has its own date.
-  const lowAgg = new Map<string, { locationId: string; totalQty: number; maxMin: number }>();
-
-  for (const item of items) {
-    let values: Record<string, unknown> = {};
-    try {
-      values = JSON.parse(item.valuesJson ?? "{}") ?? {};
-    } catch {
-      continue;
-    }
-
-    // Retired lots are handled stock (qty zeroed, kept for loss history) — they
-    // don't count toward expired/expiring/low. Matches the frontend, which
-    // hides retired rows from every grid count.
-    if (values.retiredAt) continue;
-    // NOTE: already-ordered lots are NOT skipped — a pending order hasn't
-    // arrived, so the item is still physically low and stays in this count
-    // (mirrors the Low Stock tab). Only the Reorder list hides ordered items.
-
-    const locationId = String((item as { locationId?: string }).locationId ?? "").trim();
-    if (!byLocationMap.has(locationId)) {
-      byLocationMap.set(locationId, { expiredCount: 0, expiringSoonCount: 0, lowStockCount: 0 });
-    }
-    const locCounts = byLocationMap.get(locationId)!;
-
-    const daysUntil = getDaysUntilExpiration(values.expirationDate as string | null | undefined);
-    if (daysUntil !== null) {
-      // Today (daysUntil === 0) counts as expired: by end-of-day the item is past.
-      if (daysUntil <= 0) {
-        expiredCount += 1;
-        locCounts.expiredCount += 1;
-      } else if (daysUntil <= 30) {
-        expiringSoonCount += 1;
-        locCounts.expiringSoonCount += 1;
-      }
-    }
-
-    const name = String(values.itemName ?? "").trim().toLowerCase();
-    // Blank-name items can't be grouped — key by id so each stands alone.
-    const aggKey = name ? `${locationId}::${name}` : `id:${item.id}`;
-    const quantity = Number(values.quantity);
-    const minQuantity = Number(values.minQuantity);
-    const entry = lowAgg.get(aggKey) ?? { locationId, totalQty: 0, maxMin: 0 };
-    // Expired-but-not-retired stock still counts toward on-hand (matches the
-    // frontend + Shop list) — retiring an expired lot is what drops an item
-    // below par. The min still defines the item's threshold.
-    if (Number.isFinite(quantity)) entry.totalQty += quantity;
-    if (Number.isFinite(minQuantity) && minQuantity > entry.maxMin) entry.maxMin = minQuantity;
-    lowAgg.set(aggKey, entry);
-  }
-
-  // Second pass: resolve each item-group to a single low/not-low verdict and
-  // tally the org-wide + per-location counts.
-  for (const { locationId, totalQty, maxMin } of lowAgg.values()) {
-    if (maxMin > 0 && totalQty < maxMin) {
-      lowStockCount += 1;
-      const locCounts = byLocationMap.get(locationId);
-      if (locCounts) locCounts.lowStockCount += 1;
-    }
-  }
-
-  // Include locations that have no items yet so the dashboard renders them.
-  for (const loc of locations) {
-    if (!byLocationMap.has(loc.id)) {
-      byLocationMap.set(loc.id, { expiredCount: 0, expiringSoonCount: 0, lowStockCount: 0 });
-    }
-  }
-
-  // Emit both the locationId (the stable key the frontend rolls up by) and the
-  // name (display fallback). `location` keeps the name for back-compat.
-  const byLocation = Array.from(byLocationMap.entries())
-    .map(([locationId, counts]) => ({
-      locationId,
-      location: locationNameById.get(locationId) ?? "",
-      ...counts,
-    }))
-    .sort((a, b) => {
-      if (!a.location && b.location) return 1;
-      if (a.location && !b.location) return -1;
-      return a.location.localeCompare(b.location);
-    });
-
+  // Aggregation lives in alerts.ts so the scheduled email digest counts the
+  // same things. The dashboard only needs the counts — item lists stay off
+  // the wire. Each byLocation entry carries both the locationId (the stable
+  // key the frontend rolls up by) and the name (`location`, display fallback).
+  const { expiredCount, expiringSoonCount, lowStockCount, byLocation } =
+    summarizeInventoryAlerts(items, locations, expirationSettings);
   return json(200, { expiredCount, expiringSoonCount, lowStockCount, byLocation });
 };
 
 export const handleBootstrap = async (ctx: RouteContext) => {
   const { storage, access } = ctx;
+  // Taken before any read so the change feed replays anything written while
+  // this load is in flight.
+  const changesCursor = currentChangesCursor();
   // Run schema migration before reading anything else. Idempotent; cheap on
   // the warm path (one GetCommand on the migration meta row).
   const migrationResult = await ensureSchemaUpToDate(storage, access);
@@ -166,11 +81,12 @@ export const handleBootstrap = async (ctx: RouteContext) => {
   // Use paginated fetch to stay well under Lambda's 6 MB response limit.
   // Each item is ~200 bytes JSON, so 10k items ≈ 2 MB — safe margin under 6 MB.
   const BOOTSTRAP_PAGE_SIZE = 10_000;
-  let [page, registeredVendors, vendorPricing, allowedUnitsResult] = await Promise.all([
+  const [page, registeredVendors, vendorPricing, allowedUnitsResult, expirationSettings] = await Promise.all([
     listItemsPage(storage, access.organizationId, BOOTSTRAP_PAGE_SIZE),
     getRegisteredVendors(storage),
     listAllVendorPricing(storage, access.organizationId),
     getAllowedUnits(storage),
+    getExpirationSettings(storage),
   ]);
   // 1h.7: getAllowedUnits returns both the curated list AND the
   // tracksUnits org gate (whether the org buys items in units of
@@ -209,15 +125,23 @@ export const handleBootstrap = async (ctx: RouteContext) => {
       delete values.orderedAt;
       delete values.reorderCheckedAt;
       const valuesJson = JSON.stringify(values);
+      // A new updatedAtCustom, like every item write, so a client holding the
+      // old version can't save over the cleared marker unawares.
+      const updatedAtCustom = new Date().toISOString();
       heals.push(ddb.send(new UpdateCommand({
         TableName: storage.itemTable,
         Key: { id: it.id },
         ConditionExpression: "organizationId = :org AND #module = :module",
-        UpdateExpression: "SET valuesJson = :values",
+        UpdateExpression: "SET valuesJson = :values, updatedAtCustom = :updatedAtCustom",
         ExpressionAttributeNames: { "#module": "module" },
-        ExpressionAttributeValues: { ":org": access.organizationId, ":module": "inventory", ":values": valuesJson },
+        ExpressionAttributeValues: {
+          ":org": access.organizationId,
+          ":module": "inventory",
+          ":values": valuesJson,
+          ":updatedAtCustom": updatedAtCustom,
+        },
       })).catch(() => {}));
-      return { ...it, valuesJson };
+      return { ...it, valuesJson, updatedAtCustom };
     });
     if (heals.length > 0) await Promise.all(heals);
   } catch { /* reconciliation is best-effort */ }
@@ -278,8 +202,14 @@ export const handleBootstrap = async (ctx: RouteContext) => {
     // modal hides Amount + Unit fields — count-only EMS flow. When
     // true, the dual-axis Pack form + $/lb price-trend math come on.
     tracksUnits,
+    // Per-org "expiring soon" window (default + column rules + per-item
+    // column). The Expiring tab resolves each row's window from this.
+    expirationSettings,
     columnVisibilityOverrides: access.columnVisibilityOverrides,
     nextToken,
+    // Poll GET /inventory/changes?since=<this> to stay current without
+    // reloading.
+    changesCursor,
     ...(migrationResult.toastMessage
       ? { migrationNotice: { message: migrationResult.toastMessage } }
       : {}),
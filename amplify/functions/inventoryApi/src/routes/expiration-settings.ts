@@ -0,0 +1,99 @@
+// ── Expiration warning window handlers ──────────────────────────────────────
+// Per-org "expiring soon" threshold. A single 30-day window is too long for a
+// narcotics kit (weekly checks) and too short for annual SCBA inspections, so
+// the window resolves per lot: its own value in a designated number column,
+// else the first column-value rule that matches (Category = "Narcotics" → 7),
+// else the org default. See resolveExpirationWarningDays in alerts.ts.
+//
+// Storage shape: a single "meta" row on the columns table with
+//   { id, module, kind: "meta", defaultWarningDays, itemColumnKey?, rules }
+// keyed by `inventory-meta-expiration-settings` — same pattern as the
+// allowed-units meta row.
+
+import { GetCommand, PutCommand } from "@aws-sdk/lib-dynamodb";
+import { ddb } from "../clients";
+import { json } from "../http";
+import { listColumns } from "../columns";
+import { MAX_EXPIRATION_WARNING_DAYS, normalizeExpirationSettings, parseWarningDays } from "../alerts";
+import type { ExpirationSettings, InventoryStorage, RouteContext } from "../types";
+
+const EXPIRATION_SETTINGS_META_ID = "inventory-meta-expiration-settings";
+
+/** Read the org's expiration settings. Missing row or read failure → the
+ *  30-day default, so alert counts never break on a settings hiccup. */
+export const getExpirationSettings = async (storage: InventoryStorage): Promise<ExpirationSettings> => {
+  try {
+    const result = await ddb.send(
+      new GetCommand({
+        TableName: storage.columnTable,
+        Key: { id: EXPIRATION_SETTINGS_META_ID },
+      }),
+    );
+    return normalizeExpirationSettings(result.Item);
+  } catch (err) {
+    console.warn("getExpirationSettings read failed", err);
+  }
+  return normalizeExpirationSettings(undefined);
+};
+
+export const handleGetExpirationSettings = async (ctx: RouteContext) => {
+  const { storage, access } = ctx;
+  if (!access.allowedModules?.includes("inventory")) {
+    return json(403, { error: "Inventory access required." });
+  }
+  return json(200, await getExpirationSettings(storage));
+};
+
+export const handleSetExpirationSettings = async (ctx: RouteContext) => {
+  const { storage, access, body } = ctx;
+  if (!access.canManageColumns) {
+    return json(403, {
+      error: "Only org admins can change expiration warnings.",
+    });
+  }
+
+  const rangeError = `must be a whole number of days from 1 to ${MAX_EXPIRATION_WARNING_DAYS}.`;
+  if (parseWarningDays(body?.defaultWarningDays) === null) {
+    return json(400, { error: `defaultWarningDays ${rangeError}` });
+  }
+  if (body?.rules !== undefined && !Array.isArray(body.rules)) {
+    return json(400, { error: "rules must be an array." });
+  }
+
+  const columns = await listColumns(storage);
+  const columnByKey = new Map(columns.map((c) => [c.key, c]));
+
+  const itemColumnKey = String(body?.itemColumnKey ?? "").trim();
+  if (itemColumnKey && columnByKey.get(itemColumnKey)?.type !== "number") {
+    return json(400, { error: "The per-item warning column must be an existing number column." });
+  }
+  for (const rule of (body?.rules ?? []) as Array<Record<string, unknown>>) {
+    const columnKey = String(rule?.columnKey ?? "").trim();
+    if (!columnByKey.has(columnKey)) {
+      return json(400, { error: `Unknown column in warning rule: "${columnKey}".` });
+    }
+    if (!String(rule?.value ?? "").trim()) {
+      return json(400, { error: "Each warning rule needs a value to match." });
+    }
+    if (parseWarningDays(rule?.warningDays) === null) {
+      return json(400, { error: `Rule warningDays ${rangeError}` });
+    }
+  }
+
+  const settings = normalizeExpirationSettings(body);
+  await ddb.send(
+    new PutCommand({
+      TableName: storage.columnTable,
+      Item: {
+        id: EXPIRATION_SETTINGS_META_ID,
+        module: "inventory",
+        kind: "meta",
+        ...settings,
+        updatedAt: new Date().toISOString(),
+        updatedByUserId: access.userId,
+      },
+    }),
+  );
+
+  return json(200, settings);
+};
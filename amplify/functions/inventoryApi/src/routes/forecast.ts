@@ -0,0 +1,142 @@
+// ── Usage forecast handler ──────────────────────────────────────────────────
+// GET /inventory/forecast turns logged usage (USAGE_APPROVE) into per-item,
+// per-location consumption rates, and receipt history (RESTOCK_RECEIVED)
+// into each item's typical order cycle. The math lives in forecast.ts.
+
+import { amendedAuditEventIds, readAuditDetails } from "../audit";
+import {
+  DEFAULT_FORECAST_WINDOW_DAYS,
+  FORECAST_METHODS,
+  MAX_FORECAST_WINDOW_DAYS,
+  ORDER_CYCLE_LOOKBACK_DAYS,
+  forecastConsumption,
+  type ForecastMethod,
+  type ForecastSample,
+} from "../forecast";
+import { json } from "../http";
+import { listAllItems, parseValuesJson } from "../items";
+import type { InventoryItem, InventoryStorage, RouteContext } from "../types";
+import { AS_OF_READ_BUDGET_MS, readAuditEventsBetween } from "./inventory-snapshot";
+
+const USAGE_ACTIONS: ReadonlySet<string> = new Set(["USAGE_APPROVE"]);
+const RECEIVED_ACTIONS: ReadonlySet<string> = new Set(["RESTOCK_RECEIVED"]);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Row id → current name and location. */
+const rowIndex = (items: InventoryItem[]) => {
+  const rows = new Map<string, { itemName: string; locationId: string }>();
+  for (const item of items) {
+    const values = parseValuesJson(item.valuesJson);
+    rows.set(item.id, { itemName: String(values.itemName ?? "").trim(), locationId: String(item.locationId ?? "") });
+  }
+  return rows;
+};
+
+/**
+ * Usage over the last `usageDays` and receipts over the last `receiptDays`
+ * as forecast samples, attributed to each row's current name and location
+ * (what the event recorded when the row is gone) so a rename doesn't split
+ * history. Null when the audit read runs past `deadline`. Shared with the
+ * reorder-point recommendations.
+ */
+export const loadForecastSamples = async (
+  storage: InventoryStorage,
+  organizationId: string,
+  items: InventoryItem[],
+  { usageDays, receiptDays, now }: { usageDays: number; receiptDays: number; now: number },
+  deadline: number,
+): Promise<{ usage: ForecastSample[]; receipts: ForecastSample[] } | null> => {
+  const [usageEvents, receiptEvents] = await Promise.all([
+    readAuditEventsBetween(
+      storage.auditTable,
+      organizationId,
+      { after: new Date(now - usageDays * DAY_MS).toISOString(), actions: USAGE_ACTIONS },
+      deadline,
+    ),
+    readAuditEventsBetween(
+      storage.auditTable,
+      organizationId,
+      { after: new Date(now - receiptDays * DAY_MS).toISOString(), actions: RECEIVED_ACTIONS },
+      deadline,
+    ),
+  ]);
+  if (!usageEvents || !receiptEvents) return null;
+
+  const rows = rowIndex(items);
+  const toSamples = (
+    events: Array<Record<string, unknown>>,
+    itemIdOf: (event: Record<string, unknown>, details: Record<string, unknown>) => string,
+    qtyOf: (details: Record<string, unknown>) => number,
+  ): ForecastSample[] => {
+    const amended = amendedAuditEventIds(events);
+    const samples: ForecastSample[] = [];
+    for (const event of events) {
+      if (amended.has(String(event.eventId ?? ""))) continue;
+      const details = readAuditDetails(event);
+      if (details.undone) continue;
+      const qty = qtyOf(details);
+      if (!Number.isFinite(qty) || qty <= 0) continue;
+      const row = rows.get(itemIdOf(event, details));
+      const itemName = row?.itemName || String(event.itemName ?? "").trim();
+      const locationId = String(details.locationId ?? "") || row?.locationId || "";
+      if (!itemName || !locationId) continue;
+      samples.push({ itemName, locationId, at: String(event.timestamp ?? ""), qty });
+    }
+    return samples;
+  };
+
+  return {
+    usage: toSamples(
+      usageEvents,
+      (event) => String(event.itemId ?? ""),
+      (details) => Number(details.quantityUsed ?? 0),
+    ),
+    receipts: toSamples(
+      receiptEvents,
+      (event, details) => String(details.targetItemId ?? "") || String(event.itemId ?? ""),
+      (details) => Number(details.qtyReceived ?? 0),
+    ),
+  };
+};
+
+/**
+ * GET /inventory/forecast?method=moving-average|weighted-trend&windowDays=
+ * — consumption rates over the last `windowDays` (default 30) for every item
+ * used at a location, plus how often each is typically received.
+ */
+export const handleUsageForecast = async (ctx: RouteContext) => {
+  const { access, storage, query } = ctx;
+  if (!access.allowedModules?.includes("inventory")) {
+    return json(403, { error: "Inventory access required." });
+  }
+  const startedAt = Date.now();
+
+  const method = String(query.method ?? "moving-average").trim().toLowerCase() as ForecastMethod;
+  if (!FORECAST_METHODS.includes(method)) {
+    return json(400, { error: `method must be one of: ${FORECAST_METHODS.join(", ")}.` });
+  }
+  const rawWindow = String(query.windowDays ?? "").trim();
+  const windowDays = rawWindow ? Number(rawWindow) : DEFAULT_FORECAST_WINDOW_DAYS;
+  if (!Number.isInteger(windowDays) || windowDays < 1 || windowDays > MAX_FORECAST_WINDOW_DAYS) {
+    return json(400, { error: `windowDays must be a whole number from 1 to ${MAX_FORECAST_WINDOW_DAYS}.` });
+  }
+
+  const items = await listAllItems(storage, access.organizationId);
+  const samples = await loadForecastSamples(
+    storage,
+    access.organizationId,
+    items,
+    { usageDays: windowDays, receiptDays: ORDER_CYCLE_LOOKBACK_DAYS, now: startedAt },
+    startedAt + AS_OF_READ_BUDGET_MS,
+  );
+  if (!samples) {
+    return json(422, { error: "There's too much activity to forecast in one request. Try a shorter window." });
+  }
+
+  return json(200, {
+    method,
+    windowDays,
+    ...forecastConsumption(samples.usage, samples.receipts, method, windowDays, new Date(startedAt)),
+  });
+};
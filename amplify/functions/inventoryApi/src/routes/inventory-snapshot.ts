@@ -0,0 +1,166 @@
+// ── Point-in-time inventory handler ─────────────────────────────────────────
+// GET /inventory/items/as-of rebuilds the grid as it stood at a past instant:
+// every event since then (hot table, plus the archive when the instant is old
+// enough) is undone against the current rows by inventory-snapshot.ts.
+
+import { QueryCommand } from "@aws-sdk/lib-dynamodb";
+import { auditHistoryFloor, getAuditRetentionYears, hotAuditFloor, readArchivedAuditEvents, type AuditArchiveCursor } from "../audit-archive";
+import { ddb } from "../clients";
+import { AUDIT_BY_TIMESTAMP_INDEX } from "../config";
+import { json } from "../http";
+import { replayInventoryAsOf, type InventorySnapshot } from "../inventory-snapshot";
+import { listAllItems } from "../items";
+import { listLocations, locationSubtreeIds } from "../locations";
+import type { InventoryStorage, RouteContext } from "../types";
+
+/** API Gateway gives up at 30 s; leave room to replay and answer. */
+export const AS_OF_READ_BUDGET_MS = 20_000;
+
+const ARCHIVE_READ_LIMIT = 5000;
+
+/** Audit events stamped inside (after, through] — either end open when
+ *  absent — optionally only those with one of `actions`, or null when
+ *  reading them all didn't fit in the budget. Archived copies of events
+ *  still in the table (a sweep that failed to delete) are dropped. */
+export const readAuditEventsBetween = async (
+  auditTable: string,
+  organizationId: string,
+  { after, through, actions }: { after?: string; through?: string; actions?: ReadonlySet<string> },
+  deadline: number,
+): Promise<Array<Record<string, unknown>> | null> => {
+  const byId = new Map<string, Record<string, unknown>>();
+  const keyCondition = after && through
+    ? "orgId = :orgId AND #ts BETWEEN :after AND :through"
+    : after
+      ? "orgId = :orgId AND #ts > :after"
+      : through
+        ? "orgId = :orgId AND #ts <= :through"
+        : "orgId = :orgId";
+  const actionList = actions ? [...actions] : [];
+  const names: Record<string, string> = {
+    ...(after || through ? { "#ts": "timestamp" } : {}),
+    ...(actionList.length ? { "#action": "action" } : {}),
+  };
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+  do {
+    const page = await ddb.send(new QueryCommand({
+      TableName: auditTable,
+      IndexName: AUDIT_BY_TIMESTAMP_INDEX,
+      KeyConditionExpression: keyCondition,
+      ...(actionList.length
+        ? { FilterExpression: `#action IN (${actionList.map((_, i) => `:a${i}`).join(", ")})` }
+        : {}),
+      ...(Object.keys(names).length ? { ExpressionAttributeNames: names } : {}),
+      ExpressionAttributeValues: {
+        ":orgId": organizationId,
+        ...(after ? { ":after": after } : {}),
+        ...(through ? { ":through": through } : {}),
+        ...Object.fromEntries(actionList.map((action, i) => [`:a${i}`, action])),
+      },
+      ...(exclusiveStartKey ? { ExclusiveStartKey: exclusiveStartKey } : {}),
+    }));
+    for (const item of (page.Items ?? []) as Array<Record<string, unknown>>) {
+      // BETWEEN is inclusive at both ends; `after` is not.
+      if (after && String(item.timestamp ?? "") === after) continue;
+      byId.set(String(item.eventId ?? ""), item);
+    }
+    exclusiveStartKey = page.LastEvaluatedKey as Record<string, unknown> | undefined;
+    if (exclusiveStartKey && Date.now() >= deadline) return null;
+  } while (exclusiveStartKey);
+
+  if ((after ?? "") < hotAuditFloor()) {
+    const endBefore = through ? new Date(Date.parse(through) + 1).toISOString() : undefined;
+    let before: AuditArchiveCursor | undefined;
+    do {
+      const { items, next } = await readArchivedAuditEvents(organizationId, {
+        before,
+        startAfter: after,
+        endBefore,
+        match: (item) => !actions || actions.has(String(item.action ?? "")),
+        limit: ARCHIVE_READ_LIMIT,
+      });
+      for (const item of items) {
+        const eventId = String(item.eventId ?? "");
+        if (!byId.has(eventId)) byId.set(eventId, item);
+      }
+      before = next ?? undefined;
+      if (before && Date.now() >= deadline) return null;
+    } while (before);
+  }
+  return [...byId.values()];
+};
+
+/** Check a requested as-of instant: an ISO date-time in the past, inside the
+ *  activity log's retention. Returns the normalized instant, or the 400 to
+ *  send back. */
+export const resolveAsOf = async (
+  storage: InventoryStorage,
+  rawAt: string,
+  now: number,
+): Promise<{ at: string } | { response: ReturnType<typeof json> }> => {
+  const atMs = Date.parse(rawAt);
+  if (!rawAt || Number.isNaN(atMs)) return { response: json(400, { error: "at must be an ISO date-time." }) };
+  const at = new Date(atMs).toISOString();
+  if (atMs >= now) return { response: json(400, { error: "at must be in the past." }) };
+  const floor = auditHistoryFloor(await getAuditRetentionYears(storage));
+  if (at < floor) {
+    return {
+      response: json(400, {
+        error: "The activity log doesn't go back that far. Pick a time inside its retention period.",
+        earliest: floor,
+      }),
+    };
+  }
+  return { at };
+};
+
+/** The whole inventory rewound to `at` (see replayInventoryAsOf), or null
+ *  when the events since then didn't fit in the budget. */
+export const loadInventoryAsOf = async (
+  storage: InventoryStorage,
+  organizationId: string,
+  at: string,
+  deadline: number,
+): Promise<InventorySnapshot | null> => {
+  const [items, events] = await Promise.all([
+    listAllItems(storage, organizationId),
+    readAuditEventsBetween(storage.auditTable, organizationId, { after: at }, deadline),
+  ]);
+  return events ? replayInventoryAsOf(items, events, at) : null;
+};
+
+/**
+ * GET /inventory/items/as-of?at=<ISO>&locationId= — the rows on hand at `at`,
+ * shaped like GET /inventory/items, optionally scoped to a location (a
+ * station covers its sublocations). Returns
+ * { at, items, replayed, importsWithUpdates }; importsWithUpdates counts CSV
+ * imports since `at` whose in-place updates couldn't be rewound.
+ */
+export const handleInventoryAsOf = async (ctx: RouteContext) => {
+  const { access, storage, query } = ctx;
+  const startedAt = Date.now();
+  const resolved = await resolveAsOf(storage, String(query.at ?? "").trim(), startedAt);
+  if ("response" in resolved) return resolved.response;
+  const { at } = resolved;
+
+  const locationId = String(query.locationId ?? "").trim();
+  const locations = await listLocations(storage);
+  if (locationId && !locations.some((l) => l.id === locationId)) {
+    return json(404, { error: "Location not found." });
+  }
+
+  // Rows move between locations, so the whole inventory is rewound and the
+  // scope applied to where each row stood at `at`.
+  const snapshot = await loadInventoryAsOf(storage, access.organizationId, at, startedAt + AS_OF_READ_BUDGET_MS);
+  if (!snapshot) {
+    return json(422, { error: "There's too much activity since then to rebuild in one request. Pick a later time." });
+  }
+
+  const scope = locationId ? new Set(locationSubtreeIds(locations, locationId)) : null;
+  return json(200, {
+    at,
+    items: scope ? snapshot.items.filter((item) => scope.has(String(item.locationId ?? ""))) : snapshot.items,
+    replayed: snapshot.replayed,
+    importsWithUpdates: snapshot.importsWithUpdates,
+  });
+};
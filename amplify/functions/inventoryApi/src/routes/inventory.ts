@@ -1,14 +1,34 @@
 // ── Route handlers: inventory ───────────────────────────────────────────────
-import { BatchGetCommand, UpdateCommand, DeleteCommand } from "@aws-sdk/lib-dynamodb";
+import {
+  BatchGetCommand,
+  DeleteCommand,
+  GetCommand,
+  PutCommand,
+  TransactWriteCommand,
+  UpdateCommand,
+  type TransactWriteCommandInput,
+} from "@aws-sdk/lib-dynamodb";
 import { randomUUID } from "node:crypto";
-import type { AdjustReason, RetireReason, RouteContext } from "../types";
+import type { AdjustReason, InventoryItem, ItemSaveConflict, RetireReason, RouteContext } from "../types";
 import { ADJUST_REASONS, ADJUST_REASON_LOSS_KIND, RETIRE_REASONS } from "../types";
 import { ddb } from "../clients";
-import { json, parseNextToken } from "../http";
-import { getParentItemId, listAllItems, listItemsPage, validateNonNegativeField } from "../items";
-import { buildAuditEvent, findAuditEventByEventId, writeAuditEvents, writeAuditEventsCoalesced, computeValuesDiff } from "../audit";
-import { listLocations } from "../columns";
-import { locationHasChildren, getOrCreateDefaultBucket, resolveStockLocation } from "../locations";
+import { encodeNextToken, json, parseNextToken } from "../http";
+import {
+  collectItemsInOrder,
+  getParentItemId,
+  listAllItems,
+  listItemsInLocations,
+  listItemsPage,
+  parseValuesJson,
+  validateNonNegativeField,
+} from "../items";
+import { buildAuditEvent, findAuditEventByEventId, markAuditEventUndone, writeAuditEvents, writeAuditEventsCoalesced, computeValuesDiff } from "../audit";
+import { listColumns, listLocations } from "../columns";
+import { locationHasChildren, locationSubtreeIds, getOrCreateDefaultBucket, resolveStockLocation } from "../locations";
+import { gtinMatchKey, invalidGtinMessage, normalizeGtin } from "../gtin";
+import { isSameLotIdentity, lotIdentityOf } from "../lots";
+import { checkItemQueryColumns, itemQueryFingerprint, parseItemQuery, runItemQuery } from "../item-query";
+import { getExpirationSettings } from "./expiration-settings";
 
 // Machine-managed fields in valuesJson. Changes to these shouldn't produce
 // ITEM_EDIT audit events — they're either identity (parentItemId) or state
@@ -32,6 +52,87 @@ export const handleListItems = async (ctx: RouteContext) => {
   return json(200, page);
 };
 
+/**
+ * GET /inventory/items/query — one page of the grid's view, filtered and
+ * sorted server-side so a large org doesn't have to load every row first.
+ * Params: q, locationId, tab, sort + direction, filter.<columnKey>, limit,
+ * cursor. The filters themselves run here (item-query.ts).
+ *
+ * The whole inventory in grid order (tab "all", no sort) pages along
+ * ByModulePosition with the last row's index key as the cursor, reading only
+ * as far as the page needs; `total` is null there. A location scope reads only
+ * that station's rows (ByLocationPosition). Other queries need every row in
+ * scope to sort or group, so they read the module index and page by offset;
+ * `total` counts every match. The cursor is only valid for the query that
+ * issued it.
+ */
+export const handleQueryItems = async (ctx: RouteContext) => {
+  const { storage, access, query } = ctx;
+  const parsed = parseItemQuery(query);
+  if (typeof parsed === "string") return json(400, { error: parsed });
+  const limit = Math.min(Math.max(Number(query.limit ?? 100) || 100, 1), 1000);
+  const fingerprint = itemQueryFingerprint(parsed);
+  const inIndexOrder = !parsed.locationId && !parsed.sort && parsed.tab === "all";
+  let offset = 0;
+  let afterKey: Record<string, unknown> | undefined;
+  if (query.cursor) {
+    const cursor = parseNextToken(query.cursor);
+    const valid = !!cursor && cursor.query === fingerprint && (inIndexOrder
+      ? !!cursor.after && typeof cursor.after === "object"
+      : Number.isInteger(cursor.offset) && Number(cursor.offset) >= 0);
+    if (!valid) {
+      return json(400, { error: "cursor doesn't match this query. Start again without it." });
+    }
+    offset = Number(cursor?.offset ?? 0);
+    afterKey = cursor?.after as Record<string, unknown> | undefined;
+  }
+
+  const [columns, locations, expirationSettings] = await Promise.all([
+    listColumns(storage),
+    listLocations(storage),
+    getExpirationSettings(storage),
+  ]);
+  const columnError = checkItemQueryColumns(parsed, columns);
+  if (columnError) return json(400, { error: columnError });
+
+  if (inIndexOrder) {
+    const page = await collectItemsInOrder(
+      storage,
+      (batch) => runItemQuery(batch, parsed, { columns, expirationSettings }),
+      limit,
+      afterKey,
+    );
+    return json(200, {
+      items: page.items,
+      total: null,
+      nextCursor: page.nextKey ? encodeNextToken({ after: page.nextKey, query: fingerprint }) : null,
+    });
+  }
+
+  let items: InventoryItem[];
+  if (parsed.locationId) {
+    if (!locations.some((l) => l.id === parsed.locationId)) {
+      return json(404, { error: "Location not found." });
+    }
+    items = await listItemsInLocations(
+      storage,
+      access.organizationId,
+      locationSubtreeIds(locations, parsed.locationId),
+    );
+  } else {
+    items = await listAllItems(storage, access.organizationId);
+  }
+
+  const matched = runItemQuery(items, parsed, { columns, expirationSettings });
+  const page = matched.slice(offset, offset + limit);
+  const nextOffset = offset + page.length;
+  return json(200, {
+    items: page,
+    total: matched.length,
+    nextCursor: nextOffset < matched.length ? encodeNextToken({ offset: nextOffset, query: fingerprint }) : null,
+  });
+};
+
 /** True when every value is an empty string, zero, or null/undefined — i.e. a blank row. */
 const isAllDefaults = (vals: Record<string, unknown>): boolean =>
   Object.values(vals).every((v) => v === null || v === undefined || v === "" || v === 0);
@@ -135,6 +236,14 @@ export const handleSaveItems = async (ctx: RouteContext) => {
   };
 
   const auditEvents: Record<string, unknown>[] = [];
+  // Optimistic concurrency: a row carrying `expectedUpdatedAt` (the
+  // updatedAtCustom the client loaded) only saves if nobody has written it
+  // since. Stale rows are skipped and listed as `conflicts` on the 200; the
+  // rest of the batch still lands, so the save as a whole succeeded. Rows
+  // without the token keep last-write-wins (server-side callers, older
+  // clients).
+  const conflicts: ItemSaveConflict[] = [];
+  const versions: Record<string, string> = {};
 
   for (let idx = 0; idx < rows.length; idx += 1) {
     const row = rows[idx];
@@ -158,6 +267,17 @@ export const handleSaveItems = async (ctx: RouteContext) => {
       const reason = "error" in minQuantityValidation ? minQuantityValidation.error : "invalid minQuantity";
       return json(400, { error: `Row ${idx + 1}: ${reason}` });
     }
+    const parQuantityValidation = validateNonNegativeField(values, "parQuantity");
+    if (!parQuantityValidation.ok) {
+      const reason = "error" in parQuantityValidation ? parQuantityValidation.error : "invalid parQuantity";
+      return json(400, { error: `Row ${idx + 1}: ${reason}` });
+    }
+    // Barcodes are stored as bare digits so receive-time matching is exact.
+    if (values.gtin !== undefined && values.gtin !== null && String(values.gtin).trim() !== "") {
+      const gtin = normalizeGtin(values.gtin);
+      if (!gtin) return json(400, { error: `Row ${idx + 1}: ${invalidGtinMessage(values.gtin)}` });
+      values.gtin = gtin;
+    }
 
     // Resolve the structural locationId. Three paths:
     //  1. Client sends `locationId` → validate + use
@@ -187,13 +307,19 @@ export const handleSaveItems = async (ctx: RouteContext) => {
     // Enforce the leaf invariant: a station id resolves to its bucket child.
     locationId = await resolveLeaf(locationId);
 
+    const expectedUpdatedAt =
+      typeof row?.expectedUpdatedAt === "string" && row.expectedUpdatedAt.trim()
+        ? row.expectedUpdatedAt.trim()
+        : null;
+    const updatedAtCustom = new Date().toISOString();
     try {
       await ddb.send(
         new UpdateCommand({
           TableName: storage.itemTable,
           Key: { id: rowId },
-          ConditionExpression:
-            "attribute_not_exists(id) OR (organizationId = :org AND #module = :module)",
+          ConditionExpression: expectedUpdatedAt
+            ? "organizationId = :org AND #module = :module AND updatedAtCustom = :expected"
+            : "attribute_not_exists(id) OR (organizationId = :org AND #module = :module)",
           UpdateExpression:
             "SET organizationId = :org, #module = :module, #position = :position, valuesJson = :values, locationId = :locationId, updatedAtCustom = :updatedAtCustom, createdAt = if_not_exists(createdAt, :createdAt)",
           ExpressionAttributeNames: {
@@ -206,17 +332,26 @@ export const handleSaveItems = async (ctx: RouteContext) => {
             ":position": Number(row?.position ?? idx),
             ":values": JSON.stringify(values),
             ":locationId": locationId,
-            ":updatedAtCustom": new Date().toISOString(),
+            ":updatedAtCustom": updatedAtCustom,
             ":createdAt": String(row?.createdAt ?? new Date().toISOString()),
+            ...(expectedUpdatedAt ? { ":expected": expectedUpdatedAt } : {}),
           },
         }),
       );
     } catch (err: any) {
       if (err?.name === "ConditionalCheckFailedException") {
+        const conflict = expectedUpdatedAt
+          ? await readSaveConflict(ctx, rowId, values, locationId)
+          : null;
+        if (conflict) {
+          conflicts.push(conflict);
+          continue;
+        }
         return json(403, { error: `Row ${idx + 1} does not belong to organization` });
       }
       throw err;
     }
+    versions[rowId] = updatedAtCustom;
 
     // Build audit event — defer ITEM_CREATE until the row has meaningful
     // content so the activity log shows the real item name, not "Item 07ec…"
@@ -265,6 +400,7 @@ export const handleSaveItems = async (ctx: RouteContext) => {
         qtyBefore,
         qtyAfter,
         parentItemId: String(values.parentItemId ?? rowId),
+        ...lotIdentityOf(values as Record<string, unknown>),
         ...(notes ? { notes } : {}),
         ...(Number.isFinite(retireUnitCost) && retireUnitCost > 0 ? { unitCost: retireUnitCost } : {}),
         snapshot,
@@ -301,6 +437,7 @@ export const handleSaveItems = async (ctx: RouteContext) => {
           delta,
           direction: delta >= 0 ? "increase" : "decrease",
           parentItemId: String(values.parentItemId ?? rowId),
+          ...lotIdentityOf(values as Record<string, unknown>),
           ...(notes ? { notes } : {}),
           ...(isLossAdjust && Number.isFinite(adjustUnitCost) && adjustUnitCost > 0 ? { unitCost: adjustUnitCost } : {}),
           snapshot,
@@ -395,6 +532,7 @@ export const handleSaveItems = async (ctx: RouteContext) => {
         error: "Some items still have stock and can't be deleted. Log usage or retire first.",
         code: "DELETE_BLOCKED_HAS_STOCK",
         protectedRows,
+        versions,
       });
     }
   }
@@ -423,8 +561,11 @@ export const handleSaveItems = async (ctx: RouteContext) => {
       // log captures the SKU's removal even after its row is gone.
       const isBlankRow = !oldValues || isAllDefaults(oldValues);
       if (!isBlankRow) {
+        // locationId places the row again in a location-scoped as-of view.
+        const deletedLocationId = oldLocationMap.get(deletedId);
         auditEvents.push(buildAuditEvent(access, "ITEM_DELETE", deletedId, deletedName, {
           deletedValues: oldValues ?? {},
+          ...(deletedLocationId ? { locationId: deletedLocationId } : {}),
         }));
       }
     } catch (err: any) {
@@ -446,7 +587,36 @@ export const handleSaveItems = async (ctx: RouteContext) => {
     writeAuditEventsCoalesced(storage.auditTable, coalescibleEvents),
     writeAuditEvents(storage.auditTable, otherEvents),
   ]);
-  return json(200, { ok: true });
+  return json(200, { ok: true, versions, ...(conflicts.length > 0 ? { conflicts } : {}) });
+};
+
+/**
+ * A versioned write failed its condition. Work out whether that's a stale
+ * version (someone saved or deleted the row since the client loaded it) and,
+ * if so, describe both sides. Returns null when the row belongs to another
+ * org, which stays a hard 403.
+ */
+const readSaveConflict = async (
+  ctx: RouteContext,
+  rowId: string,
+  values: Record<string, unknown>,
+  locationId: string,
+): Promise<ItemSaveConflict | null> => {
+  const { storage, access } = ctx;
+  const res = await ddb.send(new GetCommand({ TableName: storage.itemTable, Key: { id: rowId } }));
+  const current = res.Item as InventoryItem | undefined;
+  if (current && (current.organizationId !== access.organizationId || current.module !== "inventory")) {
+    return null;
+  }
+  const serverValues = current ? parseValuesJson(current.valuesJson) : null;
+  return {
+    id: rowId,
+    itemName: String(serverValues?.itemName ?? values.itemName ?? "").trim() || `Item ${rowId.slice(0, 8)}`,
+    server: current && serverValues
+      ? { values: serverValues, locationId: current.locationId ?? null, updatedAt: current.updatedAtCustom }
+      : null,
+    yours: { values, locationId },
+  };
 };
 
 /**
@@ -505,33 +675,9 @@ export const handleUndoRetire = async (ctx: RouteContext) => {
   const currentQuantity = Number(values.quantity ?? 0);
   const restoredQuantity = (Number.isFinite(currentQuantity) ? currentQuantity : 0) + retiredQty;
 
-  const undoneAt = new Date().toISOString();
-  const undoEventId = randomUUID();
-  const updatedDetails = {
-    ...details,
-    undone: true,
-    undoneAt,
-    undoneByUserId: access.userId,
-    undoneByEventId: undoEventId,
-  };
-  try {
-    await ddb.send(
-      new UpdateCommand({
-        TableName: storage.auditTable,
-        Key: { pk: original.pk as string, sk: original.sk as string },
-        UpdateExpression: "SET detailsJson = :d, undoneAt = :ua",
-        ConditionExpression: "attribute_not_exists(undoneAt)",
-        ExpressionAttributeValues: {
-          ":d": JSON.stringify(updatedDetails),
-          ":ua": undoneAt,
-        },
-      }),
-    );
-  } catch (err: any) {
-    if (err?.name === "ConditionalCheckFailedException") {
-      return json(409, { error: "This retire event has already been undone." });
-    }
-    throw err;
+  const undoEventId = await markAuditEventUndone(storage.auditTable, original, access.userId);
+  if (!undoEventId) {
+    return json(409, { error: "This retire event has already been undone." });
   }
 
   // Strip retire markers and restore quantity. We delete the marker keys rather
@@ -572,7 +718,8 @@ export const handleUndoRetire = async (ctx: RouteContext) => {
       quantityRestored: retiredQty,
       quantityBefore: currentQuantity,
       quantityAfter: restoredQuantity,
-    }),
+      ...lotIdentityOf(values),
+    }, undoEventId),
   ]);
 
   return json(200, { ok: true });
@@ -690,6 +837,199 @@ export const handleMoveItems = async (ctx: RouteContext) => {
   return json(200, { ok: true, movedCount });
 };
 
+/**
+ * Partial-quantity transfer. Body: `{ rowId, quantity, locationId }`.
+ *
+ * Where handleMoveItems relocates whole rows, this splits one lot: the source
+ * row is decremented by `quantity` and the same amount lands at the
+ * destination leaf (resolved via resolveStockLocation, so a station routes to
+ * its default bucket). At the destination the stock merges into an existing
+ * non-retired lot with the same name and expiration date; otherwise a new lot
+ * is created, seeded from the source row and carrying its parentItemId so the
+ * two lots still group as one SKU.
+ *
+ * Emits ONE ITEM_TRANSFER event keyed to the source row that records both
+ * sides (from/to location, destination row id, before/after quantities) so the
+ * pair stays linked in the activity feed and in the name-merged item history.
+ * The source row is left in place at qty 0 when fully drained — same skeleton
+ * rule as retire, so the item keeps its reorder slot at the source.
+ */
+export const handleTransferItems = async (ctx: RouteContext) => {
+  const { storage, access, body } = ctx;
+  if (!access.canEditInventory) return json(403, { error: "Insufficient permissions" });
+
+  const rowId = String(body?.rowId ?? "").trim();
+  const locationId = String(body?.locationId ?? "").trim();
+  const quantity = Number(body?.quantity);
+  if (!rowId) return json(400, { error: "rowId is required" });
+  if (!locationId) return json(400, { error: "locationId is required" });
+  if (!Number.isFinite(quantity) || quantity <= 0) {
+    return json(400, { error: "quantity must be a positive number" });
+  }
+
+  const sourceResult = await ddb.send(
+    new GetCommand({ TableName: storage.itemTable, Key: { id: rowId } }),
+  );
+  const source = sourceResult.Item as InventoryItem | undefined;
+  if (!source || source.organizationId !== access.organizationId || source.module !== "inventory") {
+    return json(404, { error: "Item not found" });
+  }
+  const sourceValues = parseValuesJson(source.valuesJson);
+  if (sourceValues.retiredAt) return json(400, { error: "Retired items can't be transferred" });
+  const sourceQtyBefore = Number(sourceValues.quantity ?? 0);
+  if (!Number.isFinite(sourceQtyBefore) || quantity > sourceQtyBefore) {
+    return json(400, { error: `Only ${Number.isFinite(sourceQtyBefore) ? sourceQtyBefore : 0} on hand to transfer` });
+  }
+
+  const locations = await listLocations(storage);
+  const dest = locations.find((l) => l.id === locationId);
+  if (!dest) return json(400, { error: `locationId '${locationId}' does not exist` });
+  const resolvedLocationId = await resolveStockLocation(
+    storage, access.organizationId, locationId, locations,
+  ) ?? locationId;
+  const fromLocationId = source.locationId ?? "";
+  if (resolvedLocationId === fromLocationId) {
+    return json(400, { error: "Item is already at that location" });
+  }
+  // Re-list when the resolve landed on a (possibly brand-new) bucket so the
+  // audit event names the leaf the stock actually went to.
+  const transferLocations = resolvedLocationId === locationId
+    ? locations
+    : await listLocations(storage);
+  const locationNameById = new Map(transferLocations.map((l) => [l.id, l.name]));
+
+  const itemName = String(sourceValues.itemName ?? "").trim() || `Item ${rowId.slice(0, 8)}`;
+  const nameLower = String(sourceValues.itemName ?? "").trim().toLowerCase();
+  const expiration = String(sourceValues.expirationDate ?? "").trim();
+  const lot = lotIdentityOf(sourceValues);
+  const parentItemId = getParentItemId(rowId, sourceValues);
+  const now = new Date().toISOString();
+
+  // Matching lot at the destination: same name, same expiration and lot /
+  // serial codes (both blank counts as a match), not retired.
+  const allItems = nameLower ? await listAllItems(storage, access.organizationId) : [];
+  const match = allItems.find((it) => {
+    if (it.id === rowId || it.locationId !== resolvedLocationId) return false;
+    const v = parseValuesJson(it.valuesJson);
+    if (v.retiredAt) return false;
+    if (String(v.itemName ?? "").trim().toLowerCase() !== nameLower) return false;
+    return String(v.expirationDate ?? "").trim() === expiration && isSameLotIdentity(lotIdentityOf(v), lot);
+  });
+
+  const nextSourceValues: Record<string, unknown> = {
+    ...sourceValues,
+    quantity: sourceQtyBefore - quantity,
+  };
+  const rowCondition = {
+    ConditionExpression: "organizationId = :org AND #module = :module AND valuesJson = :prevValues",
+    UpdateExpression: "SET valuesJson = :values, updatedAtCustom = :updatedAtCustom",
+    ExpressionAttributeNames: { "#module": "module" },
+  };
+  const sourceWrite = {
+    Update: {
+      TableName: storage.itemTable,
+      Key: { id: rowId },
+      ...rowCondition,
+      ExpressionAttributeValues: {
+        ":org": access.organizationId,
+        ":module": "inventory",
+        ":prevValues": source.valuesJson,
+        ":values": JSON.stringify(nextSourceValues),
+        ":updatedAtCustom": now,
+      },
+    },
+  };
+
+  let destItemId: string;
+  let destQtyBefore = 0;
+  let destWrite: NonNullable<TransactWriteCommandInput["TransactItems"]>[number];
+  if (match) {
+    const destValues = parseValuesJson(match.valuesJson);
+    destQtyBefore = Number(destValues.quantity ?? 0) || 0;
+    destItemId = match.id;
+    destWrite = {
+      Update: {
+        TableName: storage.itemTable,
+        Key: { id: match.id },
+        ...rowCondition,
+        ExpressionAttributeValues: {
+          ":org": access.organizationId,
+          ":module": "inventory",
+          ":prevValues": match.valuesJson,
+          ":values": JSON.stringify({ ...destValues, quantity: destQtyBefore + quantity }),
+          ":updatedAtCustom": now,
+        },
+      },
+    };
+  } else {
+    // New lot seeded from the source row. Order/reorder markers stay behind —
+    // they describe the source leaf's reorder state, not the new lot's.
+    const newValues: Record<string, unknown> = { ...sourceValues, quantity, parentItemId };
+    delete newValues.orderedAt;
+    delete newValues.reorderCheckedAt;
+    destItemId = randomUUID();
+    destWrite = {
+      Put: {
+        TableName: storage.itemTable,
+        Item: {
+          id: destItemId,
+          organizationId: access.organizationId,
+          module: "inventory",
+          position: 0,
+          locationId: resolvedLocationId,
+          valuesJson: JSON.stringify(newValues),
+          createdAt: now,
+          updatedAtCustom: now,
+        },
+        ConditionExpression: "attribute_not_exists(id)",
+      },
+    };
+  }
+
+  // Both sides land together or not at all, each conditioned on the
+  // valuesJson read above, so a concurrent usage or edit on either row is
+  // neither overwritten nor double-spent, and a failed write can't strand
+  // stock on one side.
+  try {
+    await ddb.send(new TransactWriteCommand({ TransactItems: [sourceWrite, destWrite] }));
+  } catch (err) {
+    const name = (err as { name?: string })?.name;
+    if (name === "TransactionCanceledException" || name === "TransactionConflictException") {
+      return json(409, { error: "This item changed since it was loaded. Refresh and try again." });
+    }
+    throw err;
+  }
+
+  await writeAuditEvents(storage.auditTable, [
+    buildAuditEvent(access, "ITEM_TRANSFER", rowId, itemName, {
+      quantity,
+      fromLocationId: fromLocationId || null,
+      fromLocationName: fromLocationId ? locationNameById.get(fromLocationId) ?? null : null,
+      toLocationId: resolvedLocationId,
+      toLocationName: locationNameById.get(resolvedLocationId) ?? dest.name,
+      toItemId: destItemId,
+      merged: Boolean(match),
+      sourceQtyBefore,
+      sourceQtyAfter: sourceQtyBefore - quantity,
+      destQtyBefore,
+      destQtyAfter: destQtyBefore + quantity,
+      parentItemId,
+      ...(expiration ? { expirationDate: expiration } : {}),
+      ...lot,
+    }),
+  ]);
+
+  return json(200, {
+    ok: true,
+    sourceItemId: rowId,
+    sourceQuantity: sourceQtyBefore - quantity,
+    destItemId,
+    destLocationId: resolvedLocationId,
+    destQuantity: destQtyBefore + quantity,
+    merged: Boolean(match),
+  });
+};
+
 /**
  * Bulk-update pricing fields (unitCost / packSize / packCost / reorderLink)
  * across many inventory items in one request. Used by the Analytics tab's
@@ -813,3 +1153,77 @@ export const handleUpdateItemPricing = async (ctx: RouteContext) => {
 
   return json(200, { ok: true, updatedCount });
 };
+
+/**
+ * Attach a manufacturer barcode to an item — the receive flow's "link this
+ * code" action for a scan that matched nothing. A GTIN identifies the
+ * product, not a lot, so every lot sharing the item's name gets it. Refuses
+ * a code already linked to a differently named item (409) rather than
+ * silently moving it; unlink by clearing the cell first.
+ */
+export const handleLinkItemGtin = async (ctx: RouteContext) => {
+  const { storage, access, body } = ctx;
+  if (!access.canEditInventory) {
+    return json(403, { error: "Insufficient permissions" });
+  }
+  const itemId = String(body?.itemId ?? "").trim();
+  if (!itemId) return json(400, { error: "itemId is required." });
+  const gtin = normalizeGtin(body?.gtin);
+  if (!gtin) return json(400, { error: invalidGtinMessage(body?.gtin) });
+
+  const items = await listAllItems(storage, access.organizationId);
+  const target = items.find((item) => item.id === itemId);
+  if (!target) return json(404, { error: "Item not found." });
+  const targetValues = parseValuesJson(target.valuesJson);
+  const nameLower = String(targetValues.itemName ?? "").trim().toLowerCase();
+  const key = gtinMatchKey(gtin);
+
+  const lots: Array<{ item: InventoryItem; values: Record<string, unknown> }> = [];
+  for (const item of items) {
+    const values = item.id === target.id ? targetValues : parseValuesJson(item.valuesJson);
+    const sameItem = item.id === target.id
+      || (nameLower !== "" && String(values.itemName ?? "").trim().toLowerCase() === nameLower);
+    const existing = normalizeGtin(values.gtin);
+    if (!sameItem && existing && gtinMatchKey(existing) === key) {
+      const otherName = String(values.itemName ?? "").trim() || `Item ${item.id.slice(0, 8)}`;
+      return json(409, { error: `That barcode is already linked to "${otherName}".` });
+    }
+    if (sameItem) lots.push({ item, values });
+  }
+
+  const now = new Date().toISOString();
+  const auditEvents: Record<string, unknown>[] = [];
+  const updatedIds: string[] = [];
+  for (const { item, values } of lots) {
+    if (values.gtin === gtin) continue;
+    const nextValues = { ...values, gtin };
+    try {
+      await ddb.send(new UpdateCommand({
+        TableName: storage.itemTable,
+        Key: { id: item.id },
+        ConditionExpression: "organizationId = :org AND #module = :module",
+        UpdateExpression: "SET valuesJson = :values, updatedAtCustom = :updatedAtCustom",
+        ExpressionAttributeNames: { "#module": "module" },
+        ExpressionAttributeValues: {
+          ":org": access.organizationId,
+          ":module": "inventory",
+          ":values": JSON.stringify(nextValues),
+          ":updatedAtCustom": now,
+        },
+      }));
+    } catch (err: unknown) {
+      if ((err as { name?: string })?.name === "ConditionalCheckFailedException") continue;
+      throw err;
+    }
+    updatedIds.push(item.id);
+    const itemName = String(values.itemName ?? "").trim() || `Item ${item.id.slice(0, 8)}`;
+    auditEvents.push(buildAuditEvent(access, "ITEM_EDIT", item.id, itemName, {
+      changes: [{ field: "gtin", from: values.gtin ?? null, to: gtin }],
+    }));
+  }
+
+  if (auditEvents.length > 0) {
+    await writeAuditEventsCoalesced(storage.auditTable, auditEvents);
+  }
+  return json(200, { ok: true, gtin, updatedItemIds: updatedIds });
+};
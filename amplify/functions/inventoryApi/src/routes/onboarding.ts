@@ -76,8 +76,26 @@ export const handleApplyOnboardingTemplate = async (ctx: RouteContext) => {
   const addedColumns: Array<{ label: string; key: string }> = [];
 
   for (const col of template.columns) {
-    // Skip if a column with this label already exists (e.g. "Notes")
-    if (existingLooseLabels.has(normalizeLooseKey(col.label))) continue;
+    // Skip if a column with this label already exists (e.g. "Notes"). A
+    // hidden core column the template asks for (Lot Number, Serial Number)
+    // is switched on instead of duplicated as a custom column.
+    if (existingLooseLabels.has(normalizeLooseKey(col.label))) {
+      const core = existing.find(
+        (c) => c.isCore && !c.isVisible && normalizeLooseKey(c.label) === normalizeLooseKey(col.label),
+      );
+      if (core) {
+        await ddb.send(
+          new UpdateCommand({
+            TableName: storage.columnTable,
+            Key: { id: core.id },
+            UpdateExpression: "SET isVisible = :visible",
+            ExpressionAttributeValues: { ":visible": true },
+          }),
+        );
+        core.isVisible = true;
+      }
+      continue;
+    }
     // Templates may still ship a "Location" column for backward compat with
     // legacy template definitions. Drop it — location is structural now.
     if (normalizeLooseKey(col.label) === "location" || normalizeLooseKey(col.label) === "storagelocation") continue;
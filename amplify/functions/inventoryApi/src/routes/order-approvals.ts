@@ -0,0 +1,140 @@
+// ── Order approval settings ─────────────────────────────────────────────────
+// Org rules that hold restock orders for sign-off (by total, vendor or
+// location) and the roles allowed to give it. Matching lives in
+// order-approvals.ts; the approve / reject actions are order lifecycle and
+// live with the other order handlers in restock.ts.
+//
+// Storage shape: a single "meta" row on the columns table with
+//   { id, module, kind: "meta", rules: OrderApprovalRule[], approverRoles }
+// keyed by `inventory-meta-order-approvals` — same pattern as budgets.
+
+import { GetCommand, PutCommand } from "@aws-sdk/lib-dynamodb";
+import { randomUUID } from "node:crypto";
+import { buildAuditEvent, writeAuditEvents } from "../audit";
+import { ddb } from "../clients";
+import { json } from "../http";
+import { listAllItems, parseValuesJson } from "../items";
+import { listLocations } from "../locations";
+import {
+  APPROVER_ROLE_OPTIONS,
+  MAX_APPROVAL_RULES,
+  canApproveOrders,
+  matchApprovalRules,
+  normalizeApprovalRule,
+  normalizeApprovalSettings,
+  orderTotal,
+} from "../order-approvals";
+import { normalizeRole } from "../normalize";
+import type { InventoryItem, InventoryStorage, OrderApprovalRule, OrderApprovalSettings, RestockOrderItem, RouteContext } from "../types";
+
+const ORDER_APPROVALS_META_ID = "inventory-meta-order-approvals";
+
+export const getApprovalSettings = async (storage: InventoryStorage): Promise<OrderApprovalSettings> => {
+  const result = await ddb.send(new GetCommand({ TableName: storage.columnTable, Key: { id: ORDER_APPROVALS_META_ID } }));
+  return normalizeApprovalSettings(result.Item);
+};
+
+/**
+ * Whether an order about to go to its vendor needs sign-off: the names of the
+ * rules it matches and its total, or null when none match. `items` saves a
+ * re-read when the caller already listed the rows.
+ */
+export const approvalRequirement = async (
+  storage: InventoryStorage,
+  organizationId: string,
+  lines: RestockOrderItem[],
+  vendor: string,
+  items?: InventoryItem[],
+): Promise<{ reasons: string[]; total: number } | null> => {
+  const settings = await getApprovalSettings(storage);
+  if (settings.rules.length === 0) return null;
+
+  const [rows, locations] = await Promise.all([
+    items ? Promise.resolve(items) : listAllItems(storage, organizationId),
+    listLocations(storage),
+  ]);
+  const rowById = new Map(rows.map((item) => [item.id, item]));
+  const total = orderTotal(lines, (itemId) => {
+    const row = rowById.get(itemId);
+    return row ? String(parseValuesJson(row.valuesJson).unit ?? "") : "";
+  });
+  // Where each line lands: its own destination, else the row it restocks,
+  // else a legacy location name.
+  const locationIds = lines.map((line) => {
+    if (line.locationId) return line.locationId;
+    const rowLocationId = String(rowById.get(line.itemId)?.locationId ?? "");
+    if (rowLocationId) return rowLocationId;
+    const name = String(line.location ?? "").trim().toLowerCase();
+    return locations.find((l) => name && l.name.trim().toLowerCase() === name)?.id ?? "";
+  }).filter(Boolean);
+
+  const matched = matchApprovalRules(settings.rules, { total, vendor, locationIds }, locations);
+  return matched.length > 0 ? { reasons: matched.map((rule) => rule.name), total } : null;
+};
+
+/**
+ * GET /inventory/restock/approval-settings — the rules, approver roles and
+ * whether the caller may approve. Readable by editors so the order form can
+ * say an order will need sign-off.
+ */
+export const handleGetApprovalSettings = async (ctx: RouteContext) => {
+  const { access, storage } = ctx;
+  if (!access.canEditInventory) {
+    return json(403, { error: "Only editors and admins can view order approval rules." });
+  }
+  const settings = await getApprovalSettings(storage);
+  return json(200, {
+    ...settings,
+    roleOptions: APPROVER_ROLE_OPTIONS,
+    canApprove: canApproveOrders(access.role, settings),
+  });
+};
+
+/** POST /inventory/restock/approval-settings — admin replaces { rules,
+ *  approverRoles }. Rules without an id are new. */
+export const handleSaveApprovalSettings = async (ctx: RouteContext) => {
+  const { access, storage, body } = ctx;
+  if (!access.canManageColumns) {
+    return json(403, { error: "Only org admins can change order approval rules." });
+  }
+  const rawRules = Array.isArray(body?.rules) ? body.rules : [];
+  if (rawRules.length > MAX_APPROVAL_RULES) {
+    return json(400, { error: `An organization can have at most ${MAX_APPROVAL_RULES} approval rules.` });
+  }
+  const rules: OrderApprovalRule[] = [];
+  for (let i = 0; i < rawRules.length; i++) {
+    const entry = rawRules[i] as Record<string, unknown>;
+    const rule = normalizeApprovalRule(entry, String(entry?.id ?? "").trim() || randomUUID());
+    if (typeof rule === "string") return json(400, { error: `Rule ${i + 1}: ${rule}` });
+    rules.push(rule);
+  }
+  const rawRoles = Array.isArray(body?.approverRoles) ? (body.approverRoles as unknown[]).map(normalizeRole) : [];
+  const unknownRole = rawRoles.find((role) => !(APPROVER_ROLE_OPTIONS as readonly string[]).includes(role));
+  if (unknownRole !== undefined) {
+    return json(400, { error: `approverRoles must be among: ${APPROVER_ROLE_OPTIONS.join(", ")}.` });
+  }
+  if (rawRoles.length === 0) return json(400, { error: "Pick at least one role that can approve orders." });
+
+  const next: OrderApprovalSettings = { rules, approverRoles: [...new Set(rawRoles)] };
+  const previous = await getApprovalSettings(storage);
+  await ddb.send(new PutCommand({
+    TableName: storage.columnTable,
+    Item: {
+      id: ORDER_APPROVALS_META_ID,
+      module: "inventory",
+      kind: "meta",
+      ...next,
+      updatedAt: new Date().toISOString(),
+      updatedByUserId: access.userId,
+    },
+  }));
+  await writeAuditEvents(storage.auditTable, [
+    buildAuditEvent(access, "ORDER_APPROVAL_RULES_UPDATED", null, null, { from: previous, to: next }),
+  ]);
+
+  return json(200, {
+    ...next,
+    roleOptions: APPROVER_ROLE_OPTIONS,
+    canApprove: canApproveOrders(access.role, next),
+  });
+};
@@ -0,0 +1,167 @@
+// ── Route handlers: public REST API (v1) ────────────────────────────────────
+// Item adapters for the versioned /v1 surface that org API keys call (see
+// routes/api-keys.ts and docs/PUBLIC_API.md). The app's item routes speak the
+// grid's wire shape (valuesJson strings, whole-row saves); these expose parsed
+// values and partial updates instead, then write through handleSaveItems so
+// validation, leaf resolution and the audit trail are exactly the app's. The
+// other /v1 routes (locations, usage, restock orders, audit feed) reuse the
+// app handlers unchanged — see the v1 table in router.ts.
+
+import { GetCommand } from "@aws-sdk/lib-dynamodb";
+import { randomUUID } from "node:crypto";
+import type { InventoryItem, ItemSaveConflict, RouteContext } from "../types";
+import { ADJUST_REASONS } from "../types";
+import { ddb } from "../clients";
+import { json, parseNextToken } from "../http";
+import { listAllItems, listItemsPage, parseValuesJson } from "../items";
+import { handleSaveItems } from "./inventory";
+
+/** Values the server maintains itself. Writable through the app's own flows
+ *  (retire, orders, lots), never by a direct /v1 write. */
+const SYSTEM_VALUE_KEYS = [
+  "parentItemId",
+  "retiredAt",
+  "retiredQty",
+  "retirementReason",
+  "orderedAt",
+  "reorderCheckedAt",
+];
+
+const toPublicItem = (item: InventoryItem) => ({
+  id: item.id,
+  locationId: item.locationId ?? null,
+  position: Number(item.position ?? 0),
+  values: parseValuesJson(item.valuesJson),
+  createdAt: item.createdAt,
+  updatedAt: item.updatedAtCustom,
+});
+
+const readValuesBody = (raw: unknown): Record<string, unknown> | string => {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return "values must be an object.";
+  const values = raw as Record<string, unknown>;
+  const blocked = SYSTEM_VALUE_KEYS.filter((key) => key in values);
+  if (blocked.length > 0) return `These values are managed by WickOps and can't be set: ${blocked.join(", ")}.`;
+  return values;
+};
+
+const getOrgItem = async (ctx: RouteContext, itemId: string): Promise<InventoryItem | null> => {
+  const res = await ddb.send(new GetCommand({ TableName: ctx.storage.itemTable, Key: { id: itemId } }));
+  const item = res.Item as InventoryItem | undefined;
+  if (!item || item.module !== "inventory" || item.organizationId !== ctx.access.organizationId) return null;
+  return item;
+};
+
+const itemIdFromPath = (path: string): string => {
+  const match = path.match(/\/v1\/items\/([^/]+)$/);
+  return match ? decodeURIComponent(match[1]) : "";
+};
+
+/** GET /v1/items — one page of rows. Query: limit (1–1000, default 200),
+ *  nextToken, locationId, includeRetired=true. Filters apply within the page,
+ *  so a filtered page can come back short; follow nextToken until null. */
+export const handleV1ListItems = async (ctx: RouteContext) => {
+  const { storage, access, query } = ctx;
+  const limit = Math.min(Math.max(Number(query.limit) || 200, 1), 1000);
+  const locationId = String(query.locationId ?? "").trim();
+  const includeRetired = query.includeRetired === "true";
+  const page = await listItemsPage(storage, access.organizationId, limit, parseNextToken(query.nextToken));
+  const items = page.items
+    .filter((item) => !locationId || item.locationId === locationId)
+    .map(toPublicItem)
+    .filter((item) => includeRetired || !item.values.retiredAt);
+  return json(200, { items, nextToken: page.nextToken });
+};
+
+/** GET /v1/items/:id */
+export const handleV1GetItem = async (ctx: RouteContext) => {
+  const itemId = itemIdFromPath(ctx.path);
+  const item = itemId ? await getOrgItem(ctx, itemId) : null;
+  if (!item) return json(404, { error: "Item not found." });
+  return json(200, { item: toPublicItem(item) });
+};
+
+/** POST /v1/items — create a row. Body: { locationId, values }. values.itemName
+ *  is required; the row is appended after every existing row. */
+export const handleV1CreateItem = async (ctx: RouteContext) => {
+  const { access, storage, body } = ctx;
+  if (!access.canEditInventory) return json(403, { error: "Insufficient permissions" });
+  const locationId = String(body?.locationId ?? "").trim();
+  if (!locationId) return json(400, { error: "locationId is required." });
+  const values = readValuesBody(body?.values);
+  if (typeof values === "string") return json(400, { error: values });
+  if (!String(values.itemName ?? "").trim()) return json(400, { error: "values.itemName is required." });
+
+  const existing = await listAllItems(storage, access.organizationId);
+  const position = existing.reduce((max, item) => Math.max(max, Number(item.position ?? 0)), 0) + 1;
+  const id = randomUUID();
+  const saved = await handleSaveItems({
+    ...ctx,
+    body: { rows: [{ id, locationId, position, values: { ...values } }] },
+  });
+  if (saved.statusCode !== 200) return saved;
+
+  const item = await getOrgItem(ctx, id);
+  return json(201, { item: item ? toPublicItem(item) : { id } });
+};
+
+/** POST /v1/items/:id — partial update. Body: { values, adjustReason?, notes? }.
+ *  Keys in `values` overwrite, null removes; omitted keys are untouched. A
+ *  quantity change is a count correction, so it needs an adjustReason and is
+ *  recorded as ITEM_QTY_ADJUST exactly like a correction made in the app.
+ *  If the row changes between our read and write, handleSaveItems skips it
+ *  and this answers 409 SAVE_CONFLICT; the caller re-reads and retries. */
+export const handleV1UpdateItem = async (ctx: RouteContext) => {
+  const { access, body } = ctx;
+  if (!access.canEditInventory) return json(403, { error: "Insufficient permissions" });
+  const itemId = itemIdFromPath(ctx.path);
+  const current = itemId ? await getOrgItem(ctx, itemId) : null;
+  if (!current) return json(404, { error: "Item not found." });
+  const patch = readValuesBody(body?.values);
+  if (typeof patch === "string") return json(400, { error: patch });
+
+  const before = parseValuesJson(current.valuesJson);
+  const merged: Record<string, unknown> = { ...before };
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) delete merged[key];
+    else merged[key] = value;
+  }
+
+  const qtyChanged = "quantity" in patch && Number(patch.quantity) !== Number(before.quantity ?? 0);
+  const adjustReason = String(body?.adjustReason ?? "").trim();
+  if (qtyChanged && !(ADJUST_REASONS as string[]).includes(adjustReason)) {
+    return json(400, {
+      error: `adjustReason is required when quantity changes (one of ${ADJUST_REASONS.join(", ")}).`,
+    });
+  }
+  const notes = String(body?.notes ?? "").trim();
+
+  const saved = await handleSaveItems({
+    ...ctx,
+    body: {
+      rows: [{
+        id: current.id,
+        locationId: current.locationId,
+        position: current.position,
+        createdAt: current.createdAt,
+        // The merge above read this version; a concurrent write in between
+        // comes back as a conflict rather than being overwritten.
+        expectedUpdatedAt: current.updatedAtCustom,
+        values: merged,
+      }],
+      ...(qtyChanged
+        ? { adjustMetadata: { [current.id]: { reason: adjustReason, ...(notes ? { notes } : {}) } } }
+        : {}),
+    },
+  });
+  if (saved.statusCode !== 200) return saved;
+  const { conflicts } = JSON.parse(saved.body) as { conflicts?: ItemSaveConflict[] };
+  if (conflicts?.length) {
+    return json(409, {
+      error: "The item changed while it was being updated. Re-read it and try again.",
+      code: "SAVE_CONFLICT",
+    });
+  }
+
+  const item = await getOrgItem(ctx, current.id);
+  return json(200, { item: toPublicItem(item ?? current) });
+};
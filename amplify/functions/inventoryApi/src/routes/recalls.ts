@@ -0,0 +1,327 @@
+// ── Recalls ─────────────────────────────────────────────────────────────────
+// A manufacturer or safety recall pulls every affected lot at once. An admin
+// describes the recall — an item, optionally narrowed to lot numbers and/or an
+// expiration range — previews every matching row across all locations, then
+// executes it: each selected row is retired (ITEM_RETIRE, reason "recalled")
+// stamped with a shared recall id + reference. A RECALL_EXECUTE event on the
+// org partition keeps the per-location recall-response report so it can be
+// listed and exported again later.
+
+import { randomUUID } from "node:crypto";
+import { GetCommand, QueryCommand, UpdateCommand } from "@aws-sdk/lib-dynamodb";
+import type { InventoryItem, InventoryLocation, RouteContext } from "../types";
+import { ddb } from "../clients";
+import { json } from "../http";
+import { buildAuditEvent, writeAuditEvents } from "../audit";
+import { getParentItemId, listAllItems, parseValuesJson } from "../items";
+import { listLocations } from "../columns";
+import { parseDateToIsoDay } from "../csv";
+import { lotCodeMatchKey, lotIdentityOf, normalizeLotCode, LOT_CODE_MAX_LENGTH } from "../lots";
+
+const MAX_WRITE_ATTEMPTS = 3;
+
+/** Upper bound on rows one recall may retire. Keeps the report (stored on
+ *  the RECALL_EXECUTE event) well inside DynamoDB's item size limit. */
+const RECALL_MAX_ROWS = 500;
+const RECALL_MAX_LOT_CODES = 50;
+const RECALL_REFERENCE_MAX_LENGTH = 80;
+const RECALL_LIST_LIMIT = 50;
+const RECALL_LIST_MAX_PAGES = 20;
+
+const isConditionFailure = (err: unknown): boolean =>
+  (err as { name?: string })?.name === "ConditionalCheckFailedException";
+
+type RecallCriteria = {
+  itemName: string;
+  /** Matched against both the lot and the serial number of each row. */
+  lotNumbers: string[];
+  expiresFrom?: string;
+  expiresTo?: string;
+};
+
+type RecallMatch = {
+  itemId: string;
+  itemName: string;
+  locationId: string;
+  locationName: string;
+  quantity: number;
+  expirationDate?: string;
+  lotNumber?: string;
+  serialNumber?: string;
+};
+
+const parseCriteria = (body: Record<string, unknown> | undefined): RecallCriteria | string => {
+  const itemName = String(body?.itemName ?? "").trim();
+  if (!itemName) return "Choose the recalled item.";
+  const rawCodes: unknown[] = Array.isArray(body?.lotNumbers) ? body.lotNumbers : [];
+  const lotNumbers = Array.from(new Set(rawCodes.map(normalizeLotCode).filter(Boolean)));
+  if (lotNumbers.length > RECALL_MAX_LOT_CODES) {
+    return `A recall can list at most ${RECALL_MAX_LOT_CODES} lot numbers.`;
+  }
+  if (lotNumbers.some((c) => c.length > LOT_CODE_MAX_LENGTH)) {
+    return `Lot numbers can be at most ${LOT_CODE_MAX_LENGTH} characters.`;
+  }
+  const expiresFrom = parseDateToIsoDay(String(body?.expiresFrom ?? ""));
+  const expiresTo = parseDateToIsoDay(String(body?.expiresTo ?? ""));
+  for (const d of [expiresFrom, expiresTo]) {
+    if (d && !/^\d{4}-\d{2}-\d{2}$/.test(d)) return "Expiration range dates must be valid dates.";
+  }
+  if (expiresFrom && expiresTo && expiresFrom > expiresTo) {
+    return "The expiration range starts after it ends.";
+  }
+  return {
+    itemName,
+    lotNumbers,
+    ...(expiresFrom ? { expiresFrom } : {}),
+    ...(expiresTo ? { expiresTo } : {}),
+  };
+};
+
+/** "Station 3 › Cabinet A" for a cabinet, the bare name for a root. Cabinet
+ *  names repeat across stations, so a report needs the full path. */
+const locationLabeler = (locations: InventoryLocation[]) => {
+  const byId = new Map(locations.map((l) => [l.id, l]));
+  return (locationId: string): string => {
+    const loc = byId.get(locationId);
+    if (!loc) return "";
+    const parent = loc.parentLocationId ? byId.get(loc.parentLocationId) : undefined;
+    return parent ? `${parent.name} › ${loc.name}` : loc.name;
+  };
+};
+
+/** Whether a row's values fall under the recall. Retired and empty rows never
+ *  match — there's nothing left on the shelf to pull. */
+const matchesCriteria = (values: Record<string, unknown>, criteria: RecallCriteria): boolean => {
+  if (values.retiredAt) return false;
+  if ((Number(values.quantity ?? 0) || 0) <= 0) return false;
+  if (String(values.itemName ?? "").trim().toLowerCase() !== criteria.itemName.toLowerCase()) return false;
+  if (criteria.lotNumbers.length > 0) {
+    const lot = lotIdentityOf(values);
+    const keys = new Set(criteria.lotNumbers.map(lotCodeMatchKey));
+    if (!keys.has(lotCodeMatchKey(lot.lotNumber ?? "")) && !keys.has(lotCodeMatchKey(lot.serialNumber ?? ""))) {
+      return false;
+    }
+  }
+  if (criteria.expiresFrom || criteria.expiresTo) {
+    // A range narrows to dated lots; rows with no expiration are outside it.
+    const exp = parseDateToIsoDay(String(values.expirationDate ?? ""));
+    if (!exp) return false;
+    if (criteria.expiresFrom && exp < criteria.expiresFrom) return false;
+    if (criteria.expiresTo && exp > criteria.expiresTo) return false;
+  }
+  return true;
+};
+
+const toMatch = (
+  item: InventoryItem,
+  values: Record<string, unknown>,
+  labelFor: (locationId: string) => string,
+): RecallMatch => {
+  const expirationDate = parseDateToIsoDay(String(values.expirationDate ?? ""));
+  return {
+    itemId: item.id,
+    itemName: String(values.itemName ?? "").trim(),
+    locationId: item.locationId ?? "",
+    locationName: labelFor(item.locationId ?? ""),
+    quantity: Number(values.quantity ?? 0) || 0,
+    ...(expirationDate ? { expirationDate } : {}),
+    ...lotIdentityOf(values),
+  };
+};
+
+/** Per-location totals, largest pull first. */
+const summarizeByLocation = (lines: Array<{ locationId: string; locationName: string; qtyPulled: number }>) => {
+  const byLocation = new Map<string, { locationId: string; locationName: string; qtyPulled: number; rowCount: number }>();
+  for (const line of lines) {
+    const entry = byLocation.get(line.locationId)
+      ?? { locationId: line.locationId, locationName: line.locationName, qtyPulled: 0, rowCount: 0 };
+    entry.qtyPulled += line.qtyPulled;
+    entry.rowCount += 1;
+    byLocation.set(line.locationId, entry);
+  }
+  return Array.from(byLocation.values()).sort((a, b) => b.qtyPulled - a.qtyPulled);
+};
+
+export const handlePreviewRecall = async (ctx: RouteContext) => {
+  const { access, storage, body } = ctx;
+  if (!access.canManageColumns) {
+    return json(403, { error: "Only admins can run recalls." });
+  }
+  const criteria = parseCriteria(body);
+  if (typeof criteria === "string") return json(400, { error: criteria });
+
+  const [items, locations] = await Promise.all([
+    listAllItems(storage, access.organizationId),
+    listLocations(storage),
+  ]);
+  const labelFor = locationLabeler(locations);
+  const matches = items.flatMap((item) => {
+    const values = parseValuesJson(item.valuesJson);
+    return matchesCriteria(values, criteria) ? [toMatch(item, values, labelFor)] : [];
+  });
+  matches.sort((a, b) =>
+    a.locationName.localeCompare(b.locationName)
+    || (a.expirationDate ?? "").localeCompare(b.expirationDate ?? ""));
+
+  return json(200, {
+    criteria,
+    matches,
+    totalQuantity: matches.reduce((sum, m) => sum + m.quantity, 0),
+    ...(matches.length > RECALL_MAX_ROWS ? { tooMany: true, maxRows: RECALL_MAX_ROWS } : {}),
+  });
+};
+
+/**
+ * Body: `{ itemName, lotNumbers?, expiresFrom?, expiresTo?, reference,
+ * notes?, itemIds }`. `itemIds` is the preview selection; each is re-read
+ * and re-matched against the criteria before it's retired, so a row that was
+ * used up or edited out of the recall since the preview is skipped rather
+ * than pulled by mistake.
+ */
+export const handleExecuteRecall = async (ctx: RouteContext) => {
+  const { access, storage, body } = ctx;
+  if (!access.canManageColumns) {
+    return json(403, { error: "Only admins can run recalls." });
+  }
+  const criteria = parseCriteria(body);
+  if (typeof criteria === "string") return json(400, { error: criteria });
+  const reference = String(body?.reference ?? "").trim();
+  if (!reference) return json(400, { error: "Enter the recall reference (e.g. the manufacturer's notice number)." });
+  if (reference.length > RECALL_REFERENCE_MAX_LENGTH) {
+    return json(400, { error: `Recall reference can be at most ${RECALL_REFERENCE_MAX_LENGTH} characters.` });
+  }
+  const notes = String(body?.notes ?? "").trim();
+  const rawIds: unknown[] = Array.isArray(body?.itemIds) ? body.itemIds : [];
+  const itemIds = Array.from(new Set(rawIds.map((id) => String(id ?? "").trim()).filter(Boolean)));
+  if (itemIds.length === 0) return json(400, { error: "Select at least one row to pull." });
+  if (itemIds.length > RECALL_MAX_ROWS) {
+    return json(400, { error: `A recall can pull at most ${RECALL_MAX_ROWS} rows at once.` });
+  }
+
+  const labelFor = locationLabeler(await listLocations(storage));
+  const recallId = randomUUID();
+  const now = new Date().toISOString();
+  const auditEvents: Record<string, unknown>[] = [];
+  const lines: Array<RecallMatch & { qtyPulled: number }> = [];
+  const skipped: Array<{ itemId: string; reason: "deleted" | "no_longer_matches" | "busy" }> = [];
+
+  for (const itemId of itemIds) {
+    // Re-read per row and write conditioned on what we read, same as a
+    // cycle-count post: usage logged mid-recall is retired along with the
+    // rest instead of being overwritten.
+    let settled = false;
+    for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS && !settled; attempt += 1) {
+      const got = await ddb.send(new GetCommand({ TableName: storage.itemTable, Key: { id: itemId } }));
+      const item = got.Item as InventoryItem | undefined;
+      if (!item || item.organizationId !== access.organizationId) {
+        skipped.push({ itemId, reason: "deleted" });
+        settled = true;
+        break;
+      }
+      const values = parseValuesJson(item.valuesJson);
+      if (!matchesCriteria(values, criteria)) {
+        skipped.push({ itemId, reason: "no_longer_matches" });
+        settled = true;
+        break;
+      }
+      const match = toMatch(item, values, labelFor);
+      try {
+        await ddb.send(new UpdateCommand({
+          TableName: storage.itemTable,
+          Key: { id: itemId },
+          ConditionExpression: "organizationId = :org AND #module = :module AND valuesJson = :prevValues",
+          UpdateExpression: "SET valuesJson = :values, updatedAtCustom = :updatedAtCustom",
+          ExpressionAttributeNames: { "#module": "module" },
+          ExpressionAttributeValues: {
+            ":org": access.organizationId,
+            ":module": "inventory",
+            ":prevValues": item.valuesJson,
+            // Same markers the Remove dialog stamps, so undo-retire and the
+            // retired filters treat a recalled row like any other retire.
+            ":values": JSON.stringify({
+              ...values,
+              quantity: 0,
+              retiredAt: now,
+              retiredQty: String(match.quantity),
+              retirementReason: "recalled",
+            }),
+            ":updatedAtCustom": now,
+          },
+        }));
+      } catch (err) {
+        if (isConditionFailure(err)) continue;
+        throw err;
+      }
+      settled = true;
+      lines.push({ ...match, qtyPulled: match.quantity });
+      const unitCost = Number(values.unitCost);
+      auditEvents.push(buildAuditEvent(access, "ITEM_RETIRE", itemId, match.itemName, {
+        reason: "recalled",
+        qty: match.quantity,
+        qtyBefore: match.quantity,
+        qtyAfter: 0,
+        parentItemId: getParentItemId(itemId, values),
+        ...lotIdentityOf(values),
+        recallId,
+        recallReference: reference,
+        locationName: match.locationName,
+        ...(notes ? { notes } : {}),
+        ...(Number.isFinite(unitCost) && unitCost > 0 ? { unitCost } : {}),
+        snapshot: {
+          quantity: 0,
+          ...(match.expirationDate ? { expirationDate: match.expirationDate } : {}),
+        },
+      }));
+    }
+    if (!settled) skipped.push({ itemId, reason: "busy" });
+  }
+
+  const report = {
+    recallId,
+    reference,
+    executedAt: now,
+    executedBy: access.displayName || access.email,
+    criteria,
+    ...(notes ? { notes } : {}),
+    lines,
+    byLocation: summarizeByLocation(lines),
+    totalPulled: lines.reduce((sum, l) => sum + l.qtyPulled, 0),
+    skippedCount: skipped.length,
+  };
+  auditEvents.push(buildAuditEvent(access, "RECALL_EXECUTE", null, criteria.itemName, report));
+  await writeAuditEvents(storage.auditTable, auditEvents);
+
+  return json(200, { report, skipped });
+};
+
+/** Past recalls, newest first, each with its full report for re-export. */
+export const handleListRecalls = async (ctx: RouteContext) => {
+  const { access, storage } = ctx;
+  if (!access.canManageColumns) {
+    return json(403, { error: "Only admins can view recalls." });
+  }
+  const recalls: Array<Record<string, unknown>> = [];
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+  for (let page = 0; page < RECALL_LIST_MAX_PAGES && recalls.length < RECALL_LIST_LIMIT; page += 1) {
+    const res = await ddb.send(new QueryCommand({
+      TableName: storage.auditTable,
+      KeyConditionExpression: "pk = :pk",
+      FilterExpression: "#action = :action",
+      ExpressionAttributeNames: { "#action": "action" },
+      ExpressionAttributeValues: { ":pk": `ORG#${access.organizationId}`, ":action": "RECALL_EXECUTE" },
+      ScanIndexForward: false,
+      ...(exclusiveStartKey ? { ExclusiveStartKey: exclusiveStartKey } : {}),
+    }));
+    for (const it of (res.Items ?? []) as Array<Record<string, unknown>>) {
+      try {
+        recalls.push(JSON.parse(String(it.detailsJson ?? "{}")) as Record<string, unknown>);
+      } catch {
+        continue;
+      }
+      if (recalls.length >= RECALL_LIST_LIMIT) break;
+    }
+    if (!res.LastEvaluatedKey) break;
+    exclusiveStartKey = res.LastEvaluatedKey as Record<string, unknown>;
+  }
+  return json(200, { recalls });
+};
@@ -0,0 +1,269 @@
+// ── Reorder-point handlers ──────────────────────────────────────────────────
+// Data-driven min / par suggestions. Usage comes from the same samples as the
+// usage forecast; lead times from each order's createdAt to the receives in
+// its receivesJson. The math lives in reorder-points.ts. Accepting writes the
+// numbers onto every lot of the item at that location, audited as ITEM_EDITs.
+
+import { GetCommand, UpdateCommand } from "@aws-sdk/lib-dynamodb";
+import { buildAuditEvent, writeAuditEventsCoalesced } from "../audit";
+import { ddb } from "../clients";
+import { forecastKey } from "../forecast";
+import { json } from "../http";
+import { listAllItems, parseValuesJson } from "../items";
+import { listLocations, locationSubtreeIds } from "../locations";
+import {
+  LEAD_TIME_LOOKBACK_DAYS,
+  RECOMMENDATION_WINDOW_DAYS,
+  orderLeadTimes,
+  recommendReorderPoints,
+  type LeadTimeSample,
+  type ReorderItemSummary,
+} from "../reorder-points";
+import type { InventoryItem, RestockOrderItem, RestockReceiveEvent, RouteContext } from "../types";
+import { loadForecastSamples } from "./forecast";
+import { AS_OF_READ_BUDGET_MS } from "./inventory-snapshot";
+import { listRestockOrders } from "./restock";
+
+/** Cap on items accepted in one request. */
+const MAX_ACCEPT_ITEMS = 500;
+const MAX_WRITE_ATTEMPTS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isConditionFailure = (err: unknown): boolean =>
+  (err as { name?: string })?.name === "ConditionalCheckFailedException";
+
+const positiveNumber = (value: unknown): number => {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? n : 0;
+};
+
+/** Current rows grouped per (location, item name), retired lots left out. */
+const summarizeItems = (items: InventoryItem[]): Map<string, ReorderItemSummary> => {
+  const summaries = new Map<string, ReorderItemSummary>();
+  for (const item of items) {
+    const values = parseValuesJson(item.valuesJson);
+    const itemName = String(values.itemName ?? "").trim();
+    const locationId = String(item.locationId ?? "");
+    if (!itemName || !locationId || values.retiredAt) continue;
+    const packSize = positiveNumber(values.packSize);
+    const packCost = positiveNumber(values.packCost);
+    const unitCost = packSize > 0 && packCost > 0 ? packCost / packSize : positiveNumber(values.unitCost) || null;
+    const key = forecastKey(itemName, locationId);
+    const existing = summaries.get(key);
+    if (!existing) {
+      summaries.set(key, {
+        itemName,
+        locationId,
+        currentMin: positiveNumber(values.minQuantity),
+        currentPar: positiveNumber(values.parQuantity),
+        unitCost,
+        vendor: String(values.vendor ?? "").trim(),
+      });
+      continue;
+    }
+    existing.currentMin = Math.max(existing.currentMin, positiveNumber(values.minQuantity));
+    existing.currentPar = Math.max(existing.currentPar, positiveNumber(values.parQuantity));
+    if (unitCost !== null && (existing.unitCost === null || unitCost > existing.unitCost)) existing.unitCost = unitCost;
+    if (!existing.vendor) existing.vendor = String(values.vendor ?? "").trim();
+  }
+  return summaries;
+};
+
+/**
+ * GET /inventory/reorder-recommendations?locationId=&itemId= — recommended
+ * min (reorder point with safety stock) and par (plus the economic order
+ * quantity) for every item with usage in the last 90 days, optionally
+ * limited to a location subtree or to one item's lots at its location.
+ */
+export const handleListReorderRecommendations = async (ctx: RouteContext) => {
+  const { access, storage, query } = ctx;
+  if (!access.allowedModules?.includes("inventory")) {
+    return json(403, { error: "Inventory access required." });
+  }
+  const startedAt = Date.now();
+
+  const [items, locations, orders] = await Promise.all([
+    listAllItems(storage, access.organizationId),
+    listLocations(storage),
+    listRestockOrders(storage, access.organizationId),
+  ]);
+  const summaries = summarizeItems(items);
+
+  let wanted: Set<string> | null = null;
+  const itemId = String(query.itemId ?? "").trim();
+  const locationId = String(query.locationId ?? "").trim();
+  if (itemId) {
+    const item = items.find((i) => i.id === itemId);
+    if (!item) return json(404, { error: "Item not found." });
+    const values = parseValuesJson(item.valuesJson);
+    wanted = new Set([forecastKey(String(values.itemName ?? ""), String(item.locationId ?? ""))]);
+  } else if (locationId) {
+    if (!locations.some((l) => l.id === locationId)) return json(404, { error: "Location not found." });
+    const scope = new Set(locationSubtreeIds(locations, locationId));
+    wanted = new Set([...summaries.entries()].filter(([, s]) => scope.has(s.locationId)).map(([key]) => key));
+  }
+
+  const samples = await loadForecastSamples(
+    storage,
+    access.organizationId,
+    items,
+    { usageDays: RECOMMENDATION_WINDOW_DAYS, receiptDays: 0, now: startedAt },
+    startedAt + AS_OF_READ_BUDGET_MS,
+  );
+  if (!samples) {
+    return json(422, { error: "There's too much usage history to analyze in one request." });
+  }
+
+  // Lead times: order placed → first receive of each line. A receive names
+  // the line's itemId, which receive rewrites to the row it created for a
+  // freeform line, so the current row supplies name and location.
+  const rowById = new Map(items.map((item) => [item.id, item]));
+  const leadTimes: LeadTimeSample[] = [];
+  const cutoff = new Date(startedAt - LEAD_TIME_LOOKBACK_DAYS * DAY_MS).toISOString();
+  for (const order of orders) {
+    if (order.status === "draft" || String(order.createdAt ?? "") < cutoff) continue;
+    let lines: RestockOrderItem[] = [];
+    let receives: RestockReceiveEvent[] = [];
+    try { lines = JSON.parse(String(order.itemsJson ?? "[]")); } catch { /* ignore */ }
+    try { receives = JSON.parse(String(order.receivesJson ?? "[]")); } catch { /* ignore */ }
+    const leads = orderLeadTimes(
+      String(order.createdAt ?? ""),
+      receives.map((r) => ({
+        receivedAt: String(r.receivedAt ?? ""),
+        itemIds: (r.lines ?? []).filter((l) => Number(l.qtyThisReceive) > 0).map((l) => l.itemId),
+      })),
+    );
+    for (const [lineItemId, days] of leads) {
+      const row = rowById.get(lineItemId);
+      const line = lines.find((l) => l.itemId === lineItemId);
+      const values = row ? parseValuesJson(row.valuesJson) : {};
+      const itemName = String(values.itemName ?? line?.itemName ?? "").trim();
+      const lineLocationId = String(row?.locationId ?? line?.locationId ?? "");
+      if (!itemName || !lineLocationId) continue;
+      leadTimes.push({ itemName, locationId: lineLocationId, vendor: String(order.vendor ?? ""), days });
+    }
+  }
+
+  const candidates = [...summaries.entries()]
+    .filter(([key]) => !wanted || wanted.has(key))
+    .map(([, summary]) => summary);
+  const recommendations = recommendReorderPoints(
+    candidates,
+    samples.usage,
+    leadTimes,
+    RECOMMENDATION_WINDOW_DAYS,
+    new Date(startedAt),
+  ).sort((a, b) => a.itemName.localeCompare(b.itemName) || a.locationId.localeCompare(b.locationId));
+
+  return json(200, { windowDays: RECOMMENDATION_WINDOW_DAYS, recommendations });
+};
+
+/**
+ * POST /inventory/reorder-recommendations/accept — admin writes accepted
+ * recommendations: body { items: [{ itemName, locationId, minQuantity,
+ * parQuantity? }] }. Every lot of the item at that location gets the new
+ * values; each changed lot is audited as an ITEM_EDIT. A lot edited while
+ * this runs is re-read and patched again, so the other save is kept.
+ */
+export const handleAcceptReorderRecommendations = async (ctx: RouteContext) => {
+  const { access, storage, body } = ctx;
+  if (!access.canManageColumns) {
+    return json(403, { error: "Only org admins can accept reorder recommendations." });
+  }
+  const raw = Array.isArray(body?.items) ? body.items : [];
+  if (raw.length === 0) return json(400, { error: "Pick at least one recommendation to accept." });
+  if (raw.length > MAX_ACCEPT_ITEMS) {
+    return json(400, { error: `Accept at most ${MAX_ACCEPT_ITEMS} recommendations at a time.` });
+  }
+
+  const accepted = new Map<string, { minQuantity: number; parQuantity?: number }>();
+  for (let i = 0; i < raw.length; i++) {
+    const entry = raw[i] as Record<string, unknown>;
+    const itemName = String(entry?.itemName ?? "").trim();
+    const locationId = String(entry?.locationId ?? "").trim();
+    const minQuantity = Number(entry?.minQuantity);
+    const parRaw = entry?.parQuantity;
+    const parQuantity = parRaw === undefined || parRaw === null ? undefined : Number(parRaw);
+    if (!itemName || !locationId) return json(400, { error: `Item ${i + 1}: itemName and locationId are required.` });
+    if (!Number.isInteger(minQuantity) || minQuantity < 0) {
+      return json(400, { error: `Item ${i + 1}: minQuantity must be a whole number of 0 or more.` });
+    }
+    if (parQuantity !== undefined && (!Number.isInteger(parQuantity) || parQuantity < minQuantity)) {
+      return json(400, { error: `Item ${i + 1}: parQuantity must be a whole number no lower than minQuantity.` });
+    }
+    accepted.set(forecastKey(itemName, locationId), { minQuantity, ...(parQuantity !== undefined ? { parQuantity } : {}) });
+  }
+
+  const items = await listAllItems(storage, access.organizationId);
+  const now = new Date().toISOString();
+  const auditEvents: Record<string, unknown>[] = [];
+  let updatedCount = 0;
+  let busyCount = 0;
+  for (const listed of items) {
+    // The listing is only a starting point: each write is conditioned on
+    // the valuesJson it patched, and a row saved in between is re-read and
+    // patched again rather than overwritten with the stale snapshot.
+    let item: InventoryItem | undefined = listed;
+    let settled = false;
+    let lostRace = false;
+    for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS && !settled; attempt += 1) {
+      lostRace = false;
+      if (attempt > 0) {
+        const got = await ddb.send(new GetCommand({ TableName: storage.itemTable, Key: { id: listed.id } }));
+        item = got.Item as InventoryItem | undefined;
+      }
+      if (!item || item.organizationId !== access.organizationId) break;
+      const values = parseValuesJson(item.valuesJson);
+      const target = values.retiredAt
+        ? undefined
+        : accepted.get(forecastKey(String(values.itemName ?? ""), String(item.locationId ?? "")));
+      if (!target) break;
+
+      const patch: Record<string, unknown> = {};
+      if (Number(values.minQuantity) !== target.minQuantity) patch.minQuantity = target.minQuantity;
+      if (target.parQuantity !== undefined && Number(values.parQuantity) !== target.parQuantity) {
+        patch.parQuantity = target.parQuantity;
+      }
+      if (Object.keys(patch).length === 0) break;
+
+      try {
+        await ddb.send(new UpdateCommand({
+          TableName: storage.itemTable,
+          Key: { id: item.id },
+          ConditionExpression: "organizationId = :org AND #module = :module AND valuesJson = :prevValues",
+          UpdateExpression: "SET valuesJson = :values, updatedAtCustom = :updatedAtCustom",
+          ExpressionAttributeNames: { "#module": "module" },
+          ExpressionAttributeValues: {
+            ":org": access.organizationId,
+            ":module": "inventory",
+            ":prevValues": item.valuesJson,
+            ":values": JSON.stringify({ ...values, ...patch }),
+            ":updatedAtCustom": now,
+          },
+        }));
+      } catch (err: unknown) {
+        if (isConditionFailure(err)) {
+          lostRace = true;
+          continue;
+        }
+        throw err;
+      }
+      settled = true;
+      updatedCount += 1;
+      const itemName = String(values.itemName ?? "").trim() || `Item ${item.id.slice(0, 8)}`;
+      auditEvents.push(buildAuditEvent(access, "ITEM_EDIT", item.id, itemName, {
+        changes: Object.entries(patch).map(([field, to]) => ({ field, from: values[field] ?? null, to })),
+        source: "reorder-recommendation",
+      }));
+    }
+    // Still losing to another writer after every attempt — leave the row for
+    // the next accept rather than fight it.
+    if (lostRace) busyCount += 1;
+  }
+
+  if (auditEvents.length > 0) {
+    await writeAuditEventsCoalesced(storage.auditTable, auditEvents);
+  }
+  return json(200, { ok: true, updatedCount, busyCount });
+};
@@ -0,0 +1,260 @@
+// ── Restock generation from par levels ──────────────────────────────────────
+// "Generate orders" turns every item that's below Min Quantity at a location
+// into draft restock orders, one per preferred vendor. Each line fills the
+// location back up to its par (Par Quantity, falling back to min when no par
+// is set), net of what's on hand and what's already on order. The drafts are
+// created through handleCreateRestockOrder so they carry the same line shape,
+// write-back and audit trail as a hand-built order; they stay drafts until
+// someone reviews and places them.
+
+import { ScanCommand } from "@aws-sdk/lib-dynamodb";
+import type { InventoryItem, InventoryItemVendorPricing, RestockOrderItem, RouteContext } from "../types";
+import { ddb } from "../clients";
+import { json } from "../http";
+import { listAllItems, parseValuesJson } from "../items";
+import { listLocations } from "../columns";
+import { getDaysUntilExpiration } from "../csv";
+import { listAllVendorPricing } from "./vendor-pricing";
+import { handleCreateRestockOrder } from "./restock";
+
+const GENERATED_ORDER_NOTE = "Generated from par levels";
+
+type GeneratedLine = {
+  itemId: string;
+  itemName: string;
+  locationId: string;
+  onHand: number;
+  minQuantity: number;
+  parQuantity?: number;
+  onOrder: number;
+  qtyOrdered: number;
+  unitCost?: number;
+  packSize?: number;
+};
+
+type GeneratedOrder = {
+  vendor: string;
+  lines: GeneratedLine[];
+  orderId?: string;
+  error?: string;
+};
+
+type SkippedItem = {
+  itemName: string;
+  locationId: string;
+  reason: string;
+};
+
+/** One item at one location, aggregated across its lots. */
+type LocationItem = {
+  itemName: string;
+  locationId: string;
+  rows: InventoryItem[];
+  onHand: number;
+  minQuantity: number;
+  parQuantity: number;
+  legacyVendor: string;
+};
+
+const readNumber = (raw: unknown): number | null => {
+  if (raw === null || raw === undefined || String(raw).trim() === "") return null;
+  const n = Number(raw);
+  return Number.isFinite(n) ? n : null;
+};
+
+const groupKey = (itemName: string, locationId: string): string =>
+  `${locationId}#${itemName.trim().toLowerCase()}`;
+
+/** Per-unit price from a vendor pricing row, preferring the pack price over
+ *  the legacy flat unitCost. Null when the row carries no cost. */
+const perUnitCost = (vp: InventoryItemVendorPricing): number | null => {
+  const packUnits = vp.packCount ?? vp.packSize;
+  if (vp.packCost !== undefined && packUnits !== undefined && packUnits > 0) return vp.packCost / packUnits;
+  if (vp.unitCost !== undefined) return vp.unitCost;
+  return null;
+};
+
+/** Preferred vendor for an item: the cheapest current per-unit price among
+ *  its vendor pricing rows (unpriced rows rank last), then the legacy
+ *  `vendor` value on the row itself. */
+const preferredVendor = (
+  group: LocationItem,
+  pricingByItemId: Map<string, InventoryItemVendorPricing[]>,
+): { vendor: string; pricing?: InventoryItemVendorPricing } | null => {
+  const candidates = group.rows.flatMap((row) => pricingByItemId.get(row.id) ?? []);
+  const ranked = candidates
+    .map((vp) => ({ vp, cost: perUnitCost(vp) }))
+    .sort((a, b) => {
+      if (a.cost !== null && b.cost !== null && a.cost !== b.cost) return a.cost - b.cost;
+      if ((a.cost === null) !== (b.cost === null)) return a.cost === null ? 1 : -1;
+      return a.vp.vendor.localeCompare(b.vp.vendor);
+    });
+  if (ranked.length > 0) return { vendor: ranked[0].vp.vendor, pricing: ranked[0].vp };
+  return group.legacyVendor ? { vendor: group.legacyVendor } : null;
+};
+
+/**
+ * Plan (and unless `preview` is set, create) draft restock orders for every
+ * item below min. Body: { locationId?: string, preview?: boolean }. A
+ * locationId limits generation to that location and its sublocations.
+ */
+export const handleGenerateRestockOrders = async (ctx: RouteContext) => {
+  const { access, storage, body } = ctx;
+  if (!access.canEditInventory) {
+    return json(403, { error: "Only editors and admins can generate restock orders." });
+  }
+  const preview = body?.preview === true;
+  const scopeId = String(body?.locationId ?? "").trim();
+
+  const [items, locations, pricingRows, ordersScan] = await Promise.all([
+    listAllItems(storage, access.organizationId),
+    listLocations(storage),
+    listAllVendorPricing(storage, access.organizationId),
+    ddb.send(new ScanCommand({
+      TableName: storage.restockOrdersTable,
+      FilterExpression: "orgId = :orgId",
+      ExpressionAttributeValues: { ":orgId": access.organizationId },
+    })),
+  ]);
+
+  let scope: Set<string> | null = null;
+  if (scopeId) {
+    if (!locations.some((l) => l.id === scopeId)) return json(404, { error: "Location not found." });
+    scope = new Set([scopeId, ...locations.filter((l) => l.parentLocationId === scopeId).map((l) => l.id)]);
+  }
+
+  // ── Aggregate lots into (location, item) groups ─────────────────────────
+  const groups = new Map<string, LocationItem>();
+  const rowById = new Map<string, { itemName: string; locationId: string }>();
+  for (const row of items) {
+    const values = parseValuesJson(row.valuesJson);
+    const itemName = String(values.itemName ?? "").trim();
+    const locationId = String(row.locationId ?? "");
+    if (!itemName || !locationId) continue;
+    rowById.set(row.id, { itemName, locationId });
+    if (values.retiredAt) continue;
+    if (scope && !scope.has(locationId)) continue;
+    const key = groupKey(itemName, locationId);
+    const group = groups.get(key) ?? {
+      itemName,
+      locationId,
+      rows: [],
+      onHand: 0,
+      minQuantity: 0,
+      parQuantity: 0,
+      legacyVendor: "",
+    };
+    group.rows.push(row);
+    // Expired stock doesn't count as on hand — it can't be used.
+    const days = getDaysUntilExpiration(String(values.expirationDate ?? ""));
+    const qty = readNumber(values.quantity) ?? 0;
+    if (days === null || days > 0) group.onHand += qty;
+    group.minQuantity = Math.max(group.minQuantity, readNumber(values.minQuantity) ?? 0);
+    group.parQuantity = Math.max(group.parQuantity, readNumber(values.parQuantity) ?? 0);
+    if (!group.legacyVendor) group.legacyVendor = String(values.vendor ?? "").trim();
+    groups.set(key, group);
+  }
+
+  // ── Already on order: outstanding qty on every unclosed order ───────────
+  const onOrder = new Map<string, number>();
+  for (const order of ordersScan.Items ?? []) {
+    if (String(order.status) === "closed") continue;
+    let lines: RestockOrderItem[] = [];
+    try { lines = JSON.parse(String(order.itemsJson ?? "[]")) ?? []; } catch { continue; }
+    for (const line of lines) {
+      const outstanding = Number(line.qtyOrdered ?? 0) - Number(line.qtyReceived ?? 0);
+      if (!Number.isFinite(outstanding) || outstanding <= 0) continue;
+      const row = rowById.get(String(line.itemId ?? ""));
+      const itemName = row?.itemName ?? String(line.itemName ?? "").trim();
+      const locationId = String(line.locationId ?? "").trim() || row?.locationId || "";
+      if (!itemName || !locationId) continue;
+      const key = groupKey(itemName, locationId);
+      onOrder.set(key, (onOrder.get(key) ?? 0) + outstanding);
+    }
+  }
+
+  const pricingByItemId = new Map<string, InventoryItemVendorPricing[]>();
+  for (const vp of pricingRows) {
+    pricingByItemId.set(vp.itemId, [...(pricingByItemId.get(vp.itemId) ?? []), vp]);
+  }
+
+  // ── Plan lines per vendor ──────────────────────────────────────────────
+  const byVendor = new Map<string, GeneratedOrder>();
+  const skipped: SkippedItem[] = [];
+  for (const [key, group] of groups) {
+    // No min means the item isn't reorder-tracked; min 0 is a deliberate
+    // "stop reordering" signal.
+    if (group.minQuantity <= 0 || group.onHand >= group.minQuantity) continue;
+    const target = Math.max(group.parQuantity, group.minQuantity);
+    const pending = onOrder.get(key) ?? 0;
+    const need = target - group.onHand - pending;
+    if (need <= 0) continue;
+
+    const choice = preferredVendor(group, pricingByItemId);
+    if (!choice) {
+      skipped.push({ itemName: group.itemName, locationId: group.locationId, reason: "No vendor set" });
+      continue;
+    }
+    // Order whole packs when the vendor sells in packs.
+    const packSize = choice.pricing ? (choice.pricing.packCount ?? choice.pricing.packSize) : undefined;
+    const qtyOrdered = packSize && packSize > 0
+      ? Math.ceil(need / packSize) * packSize
+      : Math.ceil(need);
+    const unitCost = choice.pricing ? perUnitCost(choice.pricing) : null;
+    // The oldest lot anchors the line; receive tops that lot up or adds a
+    // new one at the line's location.
+    const anchor = group.rows.slice().sort((a, b) =>
+      String(a.createdAt ?? "").localeCompare(String(b.createdAt ?? "")) || a.id.localeCompare(b.id),
+    )[0];
+
+    const vendorKey = choice.vendor.toLowerCase();
+    const order = byVendor.get(vendorKey) ?? { vendor: choice.vendor, lines: [] };
+    order.lines.push({
+      itemId: anchor.id,
+      itemName: group.itemName,
+      locationId: group.locationId,
+      onHand: group.onHand,
+      minQuantity: group.minQuantity,
+      ...(group.parQuantity > 0 ? { parQuantity: group.parQuantity } : {}),
+      onOrder: pending,
+      qtyOrdered,
+      ...(unitCost !== null ? { unitCost } : {}),
+      ...(packSize && packSize > 0 ? { packSize } : {}),
+    });
+    byVendor.set(vendorKey, order);
+  }
+
+  const orders = Array.from(byVendor.values()).sort((a, b) => a.vendor.localeCompare(b.vendor));
+  for (const order of orders) {
+    order.lines.sort((a, b) => a.itemName.localeCompare(b.itemName));
+  }
+  if (preview) return json(200, { orders, skipped });
+
+  // Sequential: each create scans inventory itself, so parallel creates
+  // would only multiply the read load.
+  for (const order of orders) {
+    const response = await handleCreateRestockOrder({
+      ...ctx,
+      body: {
+        vendor: order.vendor,
+        notes: GENERATED_ORDER_NOTE,
+        draft: true,
+        items: order.lines.map((line) => ({
+          itemId: line.itemId,
+          itemName: line.itemName,
+          qtyOrdered: line.qtyOrdered,
+          locationId: line.locationId,
+          ...(line.unitCost !== undefined ? { unitCost: line.unitCost } : {}),
+        })),
+      },
+    });
+    const result = JSON.parse(response.body) as { orderId?: string; error?: string };
+    if (response.statusCode === 200 && result.orderId) {
+      order.orderId = result.orderId;
+    } else {
+      order.error = result.error ?? "Could not create this order.";
+    }
+  }
+
+  return json(200, { orders, skipped });
+};
@@ -8,6 +8,7 @@ import {
   UpdateCommand,
 } from "@aws-sdk/lib-dynamodb";
 import type {
+  InventoryStorage,
   RestockOrder,
   RestockOrderItem,
   RestockOrderStatus,
@@ -22,12 +23,34 @@ import { listAllItems } from "../items";
 import { findLocationByName, createLocation, resolveStockLocation } from "../locations";
 import { listLocations } from "../columns";
 import { upsertVendorPricingFromReceive } from "./vendor-pricing";
+import { approvalRequirement, getApprovalSettings } from "./order-approvals";
+import { canApproveOrders } from "../order-approvals";
+import { invalidGtinMessage, normalizeGtin } from "../gtin";
+import { isSameLotIdentity, LOT_CODE_MAX_LENGTH, lotCodeTooLongMessage, lotIdentityOf, normalizeLotCode } from "../lots";
 import {
   pricePerCanonical as deriveCanonicalPrice,
   dimensionForUnit,
   type Dimension,
 } from "../uom";
 
+/** Every restock order in the org, all statuses, across scan pages. Used by
+ *  reports that need the full history (budgets, reorder points). */
+export const listRestockOrders = async (storage: InventoryStorage, organizationId: string): Promise<RestockOrder[]> => {
+  const orders: RestockOrder[] = [];
+  let lastEvaluatedKey: Record<string, unknown> | undefined;
+  do {
+    const page = await ddb.send(new ScanCommand({
+      TableName: storage.restockOrdersTable,
+      FilterExpression: "orgId = :orgId",
+      ExpressionAttributeValues: { ":orgId": organizationId },
+      ExclusiveStartKey: lastEvaluatedKey,
+    }));
+    orders.push(...((page.Items ?? []) as unknown as RestockOrder[]));
+    lastEvaluatedKey = page.LastEvaluatedKey as Record<string, unknown> | undefined;
+  } while (lastEvaluatedKey);
+  return orders;
+};
+
 /** 1h.7: route an order line's purchase amount + unit onto the dual-axis
  *  pack schema for the (item, vendor) pricing row.
  *
@@ -172,6 +195,15 @@ const parsePurchaseFields = (
   };
 };
 
+/** List order: drafts awaiting review first, then orders awaiting approval,
+ *  open, partial, closed. A status missing here sorts after all of them. */
+const ORDER_STATUS_SORT: readonly RestockOrderStatus[] = ["draft", "pending_approval", "open", "partial", "closed"];
+
+const orderStatusRank = (status: RestockOrderStatus): number => {
+  const rank = ORDER_STATUS_SORT.indexOf(status);
+  return rank === -1 ? ORDER_STATUS_SORT.length : rank;
+};
+
 export const handleListRestockOrders = async (ctx: RouteContext) => {
   const { access, storage } = ctx;
   if (!access.canEditInventory) {
@@ -186,18 +218,22 @@ export const handleListRestockOrders = async (ctx: RouteContext) => {
     }),
   );
 
+  // canDecide: the caller may approve or reject this held order — an
+  // approver role, and never on their own order.
+  const canApprove = canApproveOrders(access.role, await getApprovalSettings(storage));
   const orders = (result.Items ?? []).map((item) => {
     let items: RestockOrderItem[] = [];
     let receives: RestockReceiveEvent[] = [];
     try { items = JSON.parse(String(item.itemsJson ?? "[]")); } catch { /* ignore */ }
     try { receives = JSON.parse(String(item.receivesJson ?? "[]")); } catch { /* ignore */ }
-    return { ...(item as RestockOrder), items, receives };
+    const order = item as RestockOrder;
+    const canDecide = canApprove && order.status === "pending_approval" && order.createdByUserId !== access.userId;
+    return { ...order, items, receives, canDecide };
   });
 
-  // Sort: open first, then partial, then closed; within each group newest first
-  const statusOrder: Record<RestockOrderStatus, number> = { open: 0, partial: 1, closed: 2 };
+  // Sort by status (see ORDER_STATUS_SORT); within each group newest first
   orders.sort((a, b) => {
-    const sd = (statusOrder[a.status] ?? 3) - (statusOrder[b.status] ?? 3);
+    const sd = orderStatusRank(a.status) - orderStatusRank(b.status);
     if (sd !== 0) return sd;
     return String(b.createdAt ?? "").localeCompare(String(a.createdAt ?? ""));
   });
@@ -238,6 +274,12 @@ export const handleCreateRestockOrder = async (ctx: RouteContext) => {
     const purchaseParsed = parsePurchaseFields(entry as Record<string, unknown> | undefined, i);
     if ("error" in purchaseParsed) return json(400, { error: purchaseParsed.error });
     const purchaseFields = purchaseParsed.fields;
+    let gtin: string | undefined;
+    if (entry?.gtin !== undefined && entry?.gtin !== null && String(entry.gtin).trim() !== "") {
+      const normalized = normalizeGtin(entry.gtin);
+      if (!normalized) return json(400, { error: `Entry ${i + 1}: ${invalidGtinMessage(entry.gtin)}` });
+      gtin = normalized;
+    }
 
     if (!itemId) {
       // Freeform item — not yet in inventory
@@ -276,6 +318,7 @@ export const handleCreateRestockOrder = async (ctx: RouteContext) => {
         ...(minQuantity !== undefined ? { minQuantity } : {}),
         ...(packSize !== undefined ? { packSize } : {}),
         ...(packCost !== undefined ? { packCost } : {}),
+        ...(gtin ? { gtin } : {}),
         ...purchaseFields,
       });
     } else {
@@ -288,6 +331,13 @@ export const handleCreateRestockOrder = async (ctx: RouteContext) => {
         } catch { itemName = `Item ${itemId.slice(0, 8)}`; }
       }
       if (!itemName) itemName = `Item ${itemId.slice(0, 8)}`;
+      // Snapshot the item's barcode onto the line so receive can match a
+      // scan without the inventory row (it may be renamed or moved by then).
+      if (!gtin && item) {
+        try {
+          gtin = normalizeGtin((JSON.parse(String(item.valuesJson ?? "{}")) as Record<string, unknown>).gtin) ?? undefined;
+        } catch { /* no snapshot */ }
+      }
 
       // Existing-item path also accepts pack/cost/link enrichment so the
       // order line carries the same metadata as freeform items, AND so we
@@ -318,6 +368,7 @@ export const handleCreateRestockOrder = async (ctx: RouteContext) => {
         ...(reorderLinkExisting ? { reorderLink: reorderLinkExisting } : {}),
         ...(packSizeExisting !== undefined ? { packSize: packSizeExisting } : {}),
         ...(packCostExisting !== undefined ? { packCost: packCostExisting } : {}),
+        ...(gtin ? { gtin } : {}),
         ...purchaseFields,
       });
     }
@@ -327,11 +378,17 @@ export const handleCreateRestockOrder = async (ctx: RouteContext) => {
   const now = new Date().toISOString();
   const vendor = String(body?.vendor ?? "").trim() || undefined;
   const notes = String(body?.notes ?? "").trim() || undefined;
+  // Drafts are proposed orders (restock generation) that still need a review
+  // before they go to the vendor — see handlePlaceRestockOrder.
+  const draft = body?.draft === true;
+  // An order that matches an approval rule waits for sign-off before it's
+  // open for receiving. Drafts are checked when they're placed instead.
+  const approval = draft ? null : await approvalRequirement(storage, access.organizationId, orderItems, vendor ?? "", items);
 
   const order: RestockOrder = {
     id: orderId,
     orgId: access.organizationId,
-    status: "open",
+    status: draft ? "draft" : approval ? "pending_approval" : "open",
     createdAt: now,
     createdByUserId: access.userId,
     createdByName: access.displayName || access.email,
@@ -339,6 +396,7 @@ export const handleCreateRestockOrder = async (ctx: RouteContext) => {
     receivesJson: JSON.stringify([]),
     ...(vendor ? { vendor } : {}),
     ...(notes ? { notes } : {}),
+    ...(approval ? { approvalReasons: approval.reasons, approvalTotal: approval.total } : {}),
   };
 
   await ddb.send(new PutCommand({ TableName: storage.restockOrdersTable, Item: order }));
@@ -423,11 +481,13 @@ export const handleCreateRestockOrder = async (ctx: RouteContext) => {
       ...(vendor ? { vendor } : {}),
       ...(oiLocationId ? { locationId: oiLocationId } : {}),
       ...(oiLocationName ? { location: oiLocationName } : {}),
+      ...(draft ? { draft: true } : {}),
+      ...(approval ? { pendingApproval: true } : {}),
     });
   });
   await writeAuditEvents(storage.auditTable, auditEvents);
 
-  return json(200, { ok: true, orderId });
+  return json(200, { ok: true, orderId, status: order.status });
 };
 
 export const handleReceiveRestockOrder = async (ctx: RouteContext) => {
@@ -445,6 +505,12 @@ export const handleReceiveRestockOrder = async (ctx: RouteContext) => {
   if (order.status === "closed") {
     return json(409, { error: "This order is already closed." });
   }
+  if (order.status === "draft") {
+    return json(409, { error: "Place this draft order before receiving it." });
+  }
+  if (order.status === "pending_approval") {
+    return json(409, { error: "This order is waiting for approval." });
+  }
 
   let orderItems: RestockOrderItem[] = [];
   let receives: RestockReceiveEvent[] = [];
@@ -474,11 +540,24 @@ export const handleReceiveRestockOrder = async (ctx: RouteContext) => {
     if (unitCost !== undefined && (!Number.isFinite(unitCost) || unitCost < 0)) {
       return json(400, { error: `Line ${i + 1}: unit cost must be a non-negative number.` });
     }
+    const lotNumber = normalizeLotCode(line?.lotNumber);
+    const serialNumber = normalizeLotCode(line?.serialNumber);
+    if (lotNumber.length > LOT_CODE_MAX_LENGTH) {
+      return json(400, { error: `Line ${i + 1}: ${lotCodeTooLongMessage("Lot")}` });
+    }
+    if (serialNumber.length > LOT_CODE_MAX_LENGTH) {
+      return json(400, { error: `Line ${i + 1}: ${lotCodeTooLongMessage("Serial")}` });
+    }
+    if (serialNumber && qtyThisReceive !== 1) {
+      return json(400, { error: `Line ${i + 1}: a serial number covers one unit — receive serialized units one at a time.` });
+    }
     const addToInventory = line?.addToInventory === true;
     receiveLines.push({
       itemId,
       qtyThisReceive,
       ...(expirationDate ? { expirationDate } : {}),
+      ...(lotNumber ? { lotNumber } : {}),
+      ...(serialNumber ? { serialNumber } : {}),
       ...(unitCost !== undefined ? { unitCost } : {}),
       ...(addToInventory ? { addToInventory } : {}),
     });
@@ -569,6 +648,8 @@ export const handleReceiveRestockOrder = async (ctx: RouteContext) => {
           parentItemId: newItemId,
         };
         if (line.expirationDate) newValues.expirationDate = line.expirationDate;
+        if (line.lotNumber) newValues.lotNumber = line.lotNumber;
+        if (line.serialNumber) newValues.serialNumber = line.serialNumber;
         // Persist the vendor link captured at order time so future reorders
         // route the item back to the right vendor card automatically.
         if (orderItem.reorderLink) newValues.reorderLink = orderItem.reorderLink;
@@ -584,6 +665,7 @@ export const handleReceiveRestockOrder = async (ctx: RouteContext) => {
         // derivation on future restocks.
         if (orderItem.packSize !== undefined) newValues.packSize = orderItem.packSize;
         if (orderItem.packCost !== undefined) newValues.packCost = orderItem.packCost;
+        if (orderItem.gtin) newValues.gtin = orderItem.gtin;
         await ddb.send(new PutCommand({
           TableName: storage.itemTable,
           Item: {
@@ -614,6 +696,7 @@ export const handleReceiveRestockOrder = async (ctx: RouteContext) => {
           addedToInventory: true,
           parentItemId: newItemId,
           ...(line.expirationDate ? { expirationDate: line.expirationDate } : {}),
+          ...lotIdentityOf(newValues),
           ...(line.unitCost !== undefined ? { unitCost: line.unitCost } : {}),
           ...(orderVendor ? { vendor: orderVendor } : {}),
           ...(resolvedLocationId ? { locationId: resolvedLocationId } : {}),
@@ -682,8 +765,10 @@ export const handleReceiveRestockOrder = async (ctx: RouteContext) => {
     //   2. LOT — within that leaf, expiration-tracked items keep one lot per
     //      expiration date. Receiving a NEW date creates a NEW lot so FEFO and
     //      lot-by-expiration picking (Log Usage) stay correct; the same date
-    //      bumps the matching lot. No date → fall back to the referenced row
-    //      (own leaf) or the first same-name lot (routed leaf).
+    //      bumps the matching lot. A lot or serial number narrows the match
+    //      the same way (a new code is a new lot). No date or code → fall
+    //      back to the referenced row (own leaf) or the first same-name lot
+    //      (routed leaf).
     const rawDestId = String((orderItem as { locationId?: string }).locationId ?? "").trim();
     const resolvedDestId = rawDestId
       ? ((await resolveStockLocation(storage, access.organizationId, rawDestId)) ?? rawDestId)
@@ -695,6 +780,8 @@ export const handleReceiveRestockOrder = async (ctx: RouteContext) => {
     try { srcVals = JSON.parse(String(item.valuesJson ?? "{}")); } catch { /* ignore */ }
     const nameLower = String(srcVals.itemName ?? "").trim().toLowerCase();
     const lineExpiration = String(line.expirationDate ?? "").trim();
+    const lineLot = lotIdentityOf(line);
+    const lineHasLot = Boolean(lineLot.lotNumber || lineLot.serialNumber);
 
     // Non-retired lots of this item already at the destination leaf.
     const lotsAtDest = nameLower
@@ -708,13 +795,15 @@ export const handleReceiveRestockOrder = async (ctx: RouteContext) => {
       : [];
 
     let targetItem: typeof item | undefined;
-    if (lineExpiration) {
-      // Match the lot with the SAME expiration; a new date falls through to a
-      // fresh lot below.
+    if (lineExpiration || lineHasLot) {
+      // Match the lot with the SAME expiration and lot/serial codes; a new
+      // date or code falls through to a fresh lot below. A coded line with no
+      // date matches on the codes alone — the lot number implies the date.
       targetItem = lotsAtDest.find((it) => {
         let v: Record<string, unknown> = {};
         try { v = JSON.parse(String(it.valuesJson ?? "{}")); } catch { return false; }
-        return String(v.expirationDate ?? "").trim() === lineExpiration;
+        if (lineExpiration && String(v.expirationDate ?? "").trim() !== lineExpiration) return false;
+        return isSameLotIdentity(lotIdentityOf(v), lineLot);
       });
     } else if (destLeaf === srcLocId) {
       // No date, landing on the referenced row's own leaf → bump that exact lot
@@ -740,6 +829,7 @@ export const handleReceiveRestockOrder = async (ctx: RouteContext) => {
       if (srcVals.minQuantity !== undefined) seeded.minQuantity = srcVals.minQuantity;
       if (srcVals.unit !== undefined) seeded.unit = srcVals.unit;
       if (srcVals.reorderLink !== undefined) seeded.reorderLink = srcVals.reorderLink;
+      if (srcVals.gtin !== undefined) seeded.gtin = srcVals.gtin;
       targetItem = {
         id: newItemId,
         organizationId: access.organizationId,
@@ -784,6 +874,8 @@ export const handleReceiveRestockOrder = async (ctx: RouteContext) => {
     const newQty = oldQty + line.qtyThisReceive;
     const nextValues: Record<string, unknown> = { ...values, quantity: newQty };
     if (line.expirationDate) nextValues.expirationDate = line.expirationDate;
+    if (line.lotNumber) nextValues.lotNumber = line.lotNumber;
+    if (line.serialNumber) nextValues.serialNumber = line.serialNumber;
     // Cache the latest unit cost on the row so the (read-only) Unit Cost
     // column shows the most recent price paid. Authoritative history lives in
     // the RESTOCK_RECEIVED audit events.
@@ -835,8 +927,12 @@ export const handleReceiveRestockOrder = async (ctx: RouteContext) => {
       qtyReceived: line.qtyThisReceive,
       qtyBefore: oldQty,
       qtyAfter: newQty,
+      // The event stays keyed to the ordered row; name the lot the stock
+      // actually landed on when it was routed elsewhere.
+      ...(targetItem.id !== line.itemId ? { targetItemId: targetItem.id } : {}),
       parentItemId,
       ...(line.expirationDate ? { expirationDate: line.expirationDate } : {}),
+      ...lotIdentityOf(nextValues),
       ...(line.unitCost !== undefined ? { unitCost: line.unitCost } : {}),
       ...(orderVendor ? { vendor: orderVendor } : {}),
       ...(targetLocationId ? { locationId: targetLocationId } : {}),
@@ -897,13 +993,29 @@ export const handleReceiveRestockOrder = async (ctx: RouteContext) => {
     updateVals[":closedByName"] = access.displayName || access.email;
   }
 
-  await ddb.send(new UpdateCommand({
-    TableName: storage.restockOrdersTable,
-    Key: { id: orderId },
-    UpdateExpression: updateExpr,
-    ExpressionAttributeNames: { "#status": "status" },
-    ExpressionAttributeValues: updateVals,
-  }));
+  // Conditioned on the status and receives read above: a receive, close or
+  // cancel that landed meanwhile must not be overwritten with this copy.
+  updateVals[":prevStatus"] = order.status;
+  if (order.receivesJson !== undefined) updateVals[":prevReceives"] = order.receivesJson;
+  try {
+    await ddb.send(new UpdateCommand({
+      TableName: storage.restockOrdersTable,
+      Key: { id: orderId },
+      UpdateExpression: updateExpr,
+      ConditionExpression: order.receivesJson !== undefined
+        ? "#status = :prevStatus AND receivesJson = :prevReceives"
+        : "#status = :prevStatus AND attribute_not_exists(receivesJson)",
+      ExpressionAttributeNames: { "#status": "status" },
+      ExpressionAttributeValues: updateVals,
+    }));
+  } catch (err: unknown) {
+    if ((err as { name?: string })?.name !== "ConditionalCheckFailedException") throw err;
+    // The stock above has landed, so its events still go in the log.
+    await writeAuditEvents(storage.auditTable, auditEvents);
+    return json(409, {
+      error: "The stock was added, but the order changed while it was being received, so this receive isn't on the order. Reload the order before receiving again.",
+    });
+  }
 
   // Only emit an explicit ORDER_CLOSED event when the close is user-driven
   // (a partial receive closed manually). A natural close from fully receiving
@@ -922,6 +1034,52 @@ export const handleReceiveRestockOrder = async (ctx: RouteContext) => {
   return json(200, { ok: true, status: newStatus, receiveTrace });
 };
 
+/** Clear the "ordered" marker on every inventory row an order placed, so a
+ *  closed, cancelled or rejected order's items rejoin the reorder list and
+ *  stop showing the "Ordered" pill. The receive flow already clears this per
+ *  line; doing it here makes close/cancel authoritative instead of relying on
+ *  the client cleanup (which could silently fail or race). Freeform items
+ *  have no row yet — the client materializes those separately. Best-effort
+ *  per row: a single failure must not fail the close. */
+export const clearOrderedMarkers = async (
+  storage: InventoryStorage,
+  organizationId: string,
+  itemsJson: unknown,
+  now: string,
+): Promise<void> => {
+  let closedItems: Array<{ itemId?: string }> = [];
+  try { closedItems = JSON.parse(String(itemsJson ?? "[]")) ?? []; } catch { /* ignore */ }
+  const affectedRowIds = Array.from(new Set(
+    closedItems
+      .map((oi) => String(oi?.itemId ?? "").trim())
+      .filter((id) => id && !id.startsWith("freeform-")),
+  ));
+  await Promise.all(affectedRowIds.map(async (rowId) => {
+    try {
+      const got = await ddb.send(new GetCommand({ TableName: storage.itemTable, Key: { id: rowId } }));
+      if (!got.Item || got.Item.organizationId !== organizationId) return;
+      let values: Record<string, unknown> = {};
+      try { values = JSON.parse(String(got.Item.valuesJson ?? "{}")) ?? {}; } catch { return; }
+      if (values.orderedAt === undefined && values.reorderCheckedAt === undefined) return;
+      delete values.orderedAt;
+      delete values.reorderCheckedAt;
+      await ddb.send(new UpdateCommand({
+        TableName: storage.itemTable,
+        Key: { id: rowId },
+        ConditionExpression: "organizationId = :org AND #module = :module",
+        UpdateExpression: "SET valuesJson = :values, updatedAtCustom = :now",
+        ExpressionAttributeNames: { "#module": "module" },
+        ExpressionAttributeValues: {
+          ":org": organizationId,
+          ":module": "inventory",
+          ":values": JSON.stringify(values),
+          ":now": now,
+        },
+      }));
+    } catch { /* best-effort; never fail the close on a single row */ }
+  }));
+};
+
 export const handleCloseRestockOrder = async (ctx: RouteContext) => {
   const { access, storage, path, body } = ctx;
   if (!access.canEditInventory) {
@@ -968,28 +1126,83 @@ export const handleCloseRestockOrder = async (ctx: RouteContext) => {
     ExpressionAttributeValues: updateVals,
   }));
 
-  // Clear the "ordered" marker on every inventory row this order placed, so a
-  // closed/cancelled order's items rejoin the reorder list and stop showing the
-  // "Ordered" pill. The receive flow already clears this per line; doing it here
-  // makes close/cancel authoritative instead of relying on the client cleanup
-  // (which could silently fail or race). Freeform items have no row yet — the
-  // client materializes those separately. Best-effort per row: a single failure
-  // must not fail the close.
-  let closedItems: Array<{ itemId?: string }> = [];
-  try { closedItems = JSON.parse(String(result.Item.itemsJson ?? "[]")) ?? []; } catch { /* ignore */ }
-  const affectedRowIds = Array.from(new Set(
-    closedItems
+  await clearOrderedMarkers(storage, access.organizationId, result.Item.itemsJson, now);
+
+  await writeAuditEvents(storage.auditTable, [
+    buildAuditEvent(access, "RESTOCK_ORDER_CLOSED", null, null, {
+      orderId,
+      closedManually: true,
+      ...(orderVendor ? { vendor: orderVendor } : {}),
+      ...(rawNote ? { note: rawNote } : {}),
+    }),
+  ]);
+
+  return json(200, { ok: true });
+};
+
+/** Place a draft order with its vendor: draft → open (or pending_approval
+ *  when it matches an approval rule), and stamp `orderedAt` on each inventory
+ *  row it orders so the rows leave the reorder list, the same marker Mark as
+ *  Ordered sets. Conditional on the order still being a draft so a
+ *  double-click can't place it twice. */
+export const handlePlaceRestockOrder = async (ctx: RouteContext) => {
+  const { access, storage, path } = ctx;
+  if (!access.canEditInventory) {
+    return json(403, { error: "Only editors and admins can place restock orders." });
+  }
+
+  const orderId = path.split("/").at(-2) ?? "";
+  const result = await ddb.send(new GetCommand({ TableName: storage.restockOrdersTable, Key: { id: orderId } }));
+  if (!result.Item || result.Item.orgId !== access.organizationId) {
+    return json(404, { error: "Restock order not found." });
+  }
+  if (result.Item.status !== "draft") {
+    return json(409, { error: "Only draft orders can be placed." });
+  }
+
+  let orderItems: RestockOrderItem[] = [];
+  try { orderItems = JSON.parse(String(result.Item.itemsJson ?? "[]")) ?? []; } catch { /* ignore */ }
+  const orderVendor = typeof result.Item.vendor === "string" ? result.Item.vendor.trim() : "";
+  const approval = await approvalRequirement(storage, access.organizationId, orderItems, orderVendor);
+  const status: RestockOrderStatus = approval ? "pending_approval" : "open";
+
+  try {
+    await ddb.send(new UpdateCommand({
+      TableName: storage.restockOrdersTable,
+      Key: { id: orderId },
+      UpdateExpression: approval
+        ? "SET #status = :next, approvalReasons = :reasons, approvalTotal = :total"
+        : "SET #status = :next",
+      ConditionExpression: "#status = :draft",
+      ExpressionAttributeNames: { "#status": "status" },
+      ExpressionAttributeValues: {
+        ":next": status,
+        ":draft": "draft",
+        ...(approval ? { ":reasons": approval.reasons, ":total": approval.total } : {}),
+      },
+    }));
+  } catch (err) {
+    if ((err as { name?: string })?.name === "ConditionalCheckFailedException") {
+      return json(409, { error: "Only draft orders can be placed." });
+    }
+    throw err;
+  }
+
+  const rowIds = Array.from(new Set(
+    orderItems
       .map((oi) => String(oi?.itemId ?? "").trim())
       .filter((id) => id && !id.startsWith("freeform-")),
   ));
-  await Promise.all(affectedRowIds.map(async (rowId) => {
+  const now = new Date().toISOString();
+  // Best-effort per row, like close: the order is placed either way, and the
+  // bootstrap self-heal reconciles markers against open orders.
+  await Promise.all(rowIds.map(async (rowId) => {
     try {
       const got = await ddb.send(new GetCommand({ TableName: storage.itemTable, Key: { id: rowId } }));
       if (!got.Item || got.Item.organizationId !== access.organizationId) return;
       let values: Record<string, unknown> = {};
       try { values = JSON.parse(String(got.Item.valuesJson ?? "{}")) ?? {}; } catch { return; }
-      if (values.orderedAt === undefined && values.reorderCheckedAt === undefined) return;
-      delete values.orderedAt;
+      values.orderedAt = now;
       delete values.reorderCheckedAt;
       await ddb.send(new UpdateCommand({
         TableName: storage.itemTable,
@@ -1004,17 +1217,161 @@ export const handleCloseRestockOrder = async (ctx: RouteContext) => {
           ":now": now,
         },
       }));
-    } catch { /* best-effort; never fail the close on a single row */ }
+    } catch { /* best-effort; never fail the place on a single row */ }
   }));
 
   await writeAuditEvents(storage.auditTable, [
-    buildAuditEvent(access, "RESTOCK_ORDER_CLOSED", null, null, {
+    buildAuditEvent(access, "RESTOCK_ORDER_PLACED", null, null, {
       orderId,
-      closedManually: true,
+      lineCount: orderItems.length,
       ...(orderVendor ? { vendor: orderVendor } : {}),
-      ...(rawNote ? { note: rawNote } : {}),
+      ...(approval ? { pendingApproval: true } : {}),
+    }),
+  ]);
+
+  return json(200, { ok: true, status });
+};
+
+/** Approve or reject an order held by an approval rule. Approvers only, and
+ *  never the requester. Approving opens the order for receiving; rejecting
+ *  closes it and returns its items to the reorder list. Either way the
+ *  requester sees the decision in-app until they dismiss it. */
+const decideRestockOrder = async (ctx: RouteContext, decision: "approved" | "rejected") => {
+  const { access, storage, path, body } = ctx;
+  const settings = await getApprovalSettings(storage);
+  if (!access.canEditInventory || !canApproveOrders(access.role, settings)) {
+    return json(403, { error: "You're not one of the roles that can approve orders." });
+  }
+
+  const orderId = path.split("/").at(-2) ?? "";
+  const result = await ddb.send(new GetCommand({ TableName: storage.restockOrdersTable, Key: { id: orderId } }));
+  if (!result.Item || result.Item.orgId !== access.organizationId) {
+    return json(404, { error: "Restock order not found." });
+  }
+  const order = result.Item as RestockOrder;
+  if (order.status !== "pending_approval") {
+    return json(409, { error: "This order isn't waiting for approval." });
+  }
+  if (order.createdByUserId === access.userId) {
+    return json(403, { error: "Someone else has to approve your own order." });
+  }
+  const note = String(body?.note ?? "").trim();
+  if (decision === "rejected" && !note) {
+    return json(400, { error: "Add a reason so the requester knows what to change." });
+  }
+
+  const now = new Date().toISOString();
+  const name = access.displayName || access.email;
+  const next: RestockOrderStatus = decision === "approved" ? "open" : "closed";
+  const sets = [
+    "#status = :next",
+    "approvalDecision = :decision",
+    "approvalDecidedAt = :now",
+    "approvalDecidedByUserId = :uid",
+    "approvalDecidedByName = :name",
+    ...(note ? ["approvalNote = :note"] : []),
+    ...(next === "closed" ? ["closedAt = :now", "closedByUserId = :uid", "closedByName = :name"] : []),
+  ];
+  try {
+    await ddb.send(new UpdateCommand({
+      TableName: storage.restockOrdersTable,
+      Key: { id: orderId },
+      UpdateExpression: `SET ${sets.join(", ")} REMOVE approvalSeenAt`,
+      ConditionExpression: "#status = :pending",
+      ExpressionAttributeNames: { "#status": "status" },
+      ExpressionAttributeValues: {
+        ":next": next,
+        ":pending": "pending_approval",
+        ":decision": decision,
+        ":now": now,
+        ":uid": access.userId,
+        ":name": name,
+        ...(note ? { ":note": note } : {}),
+      },
+    }));
+  } catch (err) {
+    if ((err as { name?: string })?.name === "ConditionalCheckFailedException") {
+      return json(409, { error: "This order isn't waiting for approval." });
+    }
+    throw err;
+  }
+
+  if (decision === "rejected") {
+    await clearOrderedMarkers(storage, access.organizationId, order.itemsJson, now);
+  }
+
+  const vendor = String(order.vendor ?? "").trim();
+  await writeAuditEvents(storage.auditTable, [
+    buildAuditEvent(access, decision === "approved" ? "RESTOCK_ORDER_APPROVED" : "RESTOCK_ORDER_REJECTED", null, null, {
+      orderId,
+      total: order.approvalTotal ?? 0,
+      reasons: order.approvalReasons ?? [],
+      requestedByUserId: order.createdByUserId,
+      requestedByName: order.createdByName,
+      ...(vendor ? { vendor } : {}),
+      ...(note ? { note } : {}),
     }),
   ]);
 
+  return json(200, { ok: true, status: next });
+};
+
+/** POST /inventory/restock/orders/{id}/approve — body { note? }. */
+export const handleApproveRestockOrder = (ctx: RouteContext) => decideRestockOrder(ctx, "approved");
+
+/** POST /inventory/restock/orders/{id}/reject — body { note } (required). */
+export const handleRejectRestockOrder = (ctx: RouteContext) => decideRestockOrder(ctx, "rejected");
+
+/** POST /inventory/restock/orders/{id}/dismiss-approval — the requester has
+ *  seen the decision; its notice stops showing. */
+export const handleDismissApprovalNotice = async (ctx: RouteContext) => {
+  const { access, storage, path } = ctx;
+  const orderId = path.split("/").at(-2) ?? "";
+  const result = await ddb.send(new GetCommand({ TableName: storage.restockOrdersTable, Key: { id: orderId } }));
+  if (!result.Item || result.Item.orgId !== access.organizationId) {
+    return json(404, { error: "Restock order not found." });
+  }
+  if (result.Item.createdByUserId !== access.userId) {
+    return json(403, { error: "Only the person who placed the order can dismiss its notice." });
+  }
+  if (result.Item.approvalDecision && !result.Item.approvalSeenAt) {
+    await ddb.send(new UpdateCommand({
+      TableName: storage.restockOrdersTable,
+      Key: { id: orderId },
+      UpdateExpression: "SET approvalSeenAt = :now",
+      ExpressionAttributeValues: { ":now": new Date().toISOString() },
+    }));
+  }
   return json(200, { ok: true });
 };
+
+/**
+ * GET /inventory/restock/approval-notices — the caller's in-app approval
+ * notices: decisions on their own orders they haven't dismissed, and (for
+ * approvers) how many orders from others are waiting on a decision.
+ */
+export const handleListApprovalNotices = async (ctx: RouteContext) => {
+  const { access, storage } = ctx;
+  if (!access.canEditInventory) return json(200, { decisions: [], awaitingCount: 0 });
+
+  const [orders, settings] = await Promise.all([
+    listRestockOrders(storage, access.organizationId),
+    getApprovalSettings(storage),
+  ]);
+  const decisions = orders
+    .filter((o) => o.createdByUserId === access.userId && o.approvalDecision && !o.approvalSeenAt)
+    .sort((a, b) => String(b.approvalDecidedAt ?? "").localeCompare(String(a.approvalDecidedAt ?? "")))
+    .map((o) => ({
+      orderId: o.id,
+      vendor: o.vendor ?? "",
+      total: o.approvalTotal ?? 0,
+      decision: o.approvalDecision,
+      decidedAt: o.approvalDecidedAt ?? "",
+      decidedByName: o.approvalDecidedByName ?? "",
+      ...(o.approvalNote ? { note: o.approvalNote } : {}),
+    }));
+  const awaitingCount = canApproveOrders(access.role, settings)
+    ? orders.filter((o) => o.status === "pending_approval" && o.createdByUserId !== access.userId).length
+    : 0;
+  return json(200, { decisions, awaitingCount });
+};
@@ -10,6 +10,7 @@ import {
 } from "@aws-sdk/lib-dynamodb";
 import type {
   AccessContext,
+  InventoryItem,
   InventoryStorage,
   PendingEntry,
   PendingSubmission,
@@ -17,8 +18,10 @@ import type {
 } from "../types";
 import { ddb } from "../clients";
 import { json } from "../http";
-import { buildAuditEvent, findAuditEventByEventId, writeAuditEvents } from "../audit";
-import { listAllItems } from "../items";
+import { buildAuditEvent, findAuditEventByEventId, markAuditEventUndone, writeAuditEvents } from "../audit";
+import { getParentItemId, listAllItems } from "../items";
+import { getDaysUntilExpiration, parseDateToIsoDay } from "../csv";
+import { lotIdentityOf, type LotIdentity } from "../lots";
 
 /** Effective per-unit cost from an item's valuesJson. Prefers packCost /
  *  packSize when both are set (handles items priced per-box at the vendor),
@@ -35,6 +38,19 @@ const effectiveUnitCost = (values: Record<string, unknown>): number => {
   return 0;
 };
 
+/** One lot's share of an item-level (FEFO) usage entry, as written into the
+ *  USAGE_APPROVE body. Undo restores each lot from this breakdown. */
+type UsageLotDraw = {
+  itemId: string;
+  quantityUsed: number;
+  quantityBefore: number;
+  quantityAfter: number;
+  unitCost?: number;
+  expirationDate?: string;
+  lotNumber?: string;
+  serialNumber?: string;
+};
+
 type AppliedUsageDetail = {
   itemId: string;
   itemName: string;
@@ -52,9 +68,69 @@ type AppliedUsageDetail = {
   /** Human-readable location name at the moment of approval, kept alongside
    *  locationId for display in the activity feed without a join. */
   locationName?: string;
+  /** Lot/serial codes of the row drawn from, for the recall trace. */
+  lot: LotIdentity;
+  notes?: string;
+  /** Item-level entries only: the per-lot split, earliest expiration first.
+   *  `itemId` is then the first lot drawn; quantities are item totals at the
+   *  location and `unitCost` is the blended cost of what was drawn. */
+  lots?: UsageLotDraw[];
+  parentItemId?: string;
   snapshot: Record<string, unknown>;
 };
 
+type ItemValues = Record<string, string | number | boolean | null>;
+
+const parseItemValues = (item: InventoryItem): ItemValues => {
+  try {
+    return JSON.parse(String(item.valuesJson ?? "{}")) as ItemValues;
+  } catch {
+    return {};
+  }
+};
+
+const itemLocationOf = (item: InventoryItem): string =>
+  typeof item.locationId === "string" ? item.locationId.trim() : "";
+
+/**
+ * The lots an item-level entry draws from, in first-expiring-first-out order.
+ * Lots of one item share a location and a name — the same grouping the usage
+ * form totals "unexpired on hand" by, so what it offers is what gets drawn.
+ * A nameless anchor is its own group. Retired, empty and already-expired lots
+ * are left out — expired stock should be retired, not used, so logging it
+ * takes picking that lot directly. Dated lots go first by date, undated lots
+ * last, oldest row breaking ties.
+ */
+const fefoLots = (items: InventoryItem[], anchor: InventoryItem, quantityById: Map<string, number>): InventoryItem[] => {
+  const anchorValues = parseItemValues(anchor);
+  const locationId = itemLocationOf(anchor);
+  const nameLower = String(anchorValues.itemName ?? "").trim().toLowerCase();
+  const dated = (it: InventoryItem) => parseDateToIsoDay(String(parseItemValues(it).expirationDate ?? ""));
+  return items
+    .filter((it) => {
+      if (itemLocationOf(it) !== locationId) return false;
+      const v = parseItemValues(it);
+      if (v.retiredAt) return false;
+      const sameItem = nameLower
+        ? String(v.itemName ?? "").trim().toLowerCase() === nameLower
+        : it.id === anchor.id;
+      if (!sameItem) return false;
+      if ((quantityById.get(it.id) ?? 0) <= 0) return false;
+      const days = getDaysUntilExpiration(String(v.expirationDate ?? ""));
+      return days === null || days > 0;
+    })
+    .sort((a, b) => {
+      const ea = dated(a);
+      const eb = dated(b);
+      if (ea !== eb) {
+        if (!ea) return 1;
+        if (!eb) return -1;
+        return ea.localeCompare(eb);
+      }
+      return String(a.createdAt ?? "").localeCompare(String(b.createdAt ?? "")) || a.id.localeCompare(b.id);
+    });
+};
+
 export const applyUsageEntries = async (
   storage: InventoryStorage,
   access: AccessContext,
@@ -73,84 +149,172 @@ export const applyUsageEntries = async (
     for (const loc of locations) locationNameById.set(loc.id, loc.name);
   } catch { /* name lookup failed — locationId-only is still correct */ }
 
+  // Resolve every entry to the lots it draws from before writing anything.
+  // Quantities are tracked across entries so two lines on the same lot (or an
+  // item-level line plus a line on one of its lots) can't overdraw it.
+  const quantityById = new Map<string, number>();
+  for (const item of items) quantityById.set(item.id, Number(parseItemValues(item).quantity ?? 0));
+  const plans: Array<{ entry: PendingEntry; draws: Array<{ item: InventoryItem; quantityUsed: number }> }> = [];
+
   for (let i = 0; i < pendingEntries.length; i += 1) {
     const entry = pendingEntries[i];
     const item = byId.get(entry.itemId);
     if (!item) {
       return { error: `Entry ${i + 1} (${entry.itemName}): item no longer exists.` };
     }
-    let values: Record<string, string | number | boolean | null> = {};
-    try {
-      values = JSON.parse(String(item.valuesJson ?? "{}")) as Record<string, string | number | boolean | null>;
-    } catch {
-      values = {};
-    }
-    const currentQuantity = Number(values.quantity ?? 0);
+    const currentQuantity = quantityById.get(item.id) ?? 0;
     if (!Number.isFinite(currentQuantity) || currentQuantity < 0) {
       return { error: `Entry ${i + 1} (${entry.itemName}): current quantity is invalid.` };
     }
-    if (entry.quantityUsed > currentQuantity) {
+
+    if (!entry.fefo) {
+      if (entry.quantityUsed > currentQuantity) {
+        return {
+          error: `Entry ${i + 1} (${entry.itemName}): usage (${entry.quantityUsed}) exceeds available quantity (${currentQuantity}).`,
+        };
+      }
+      quantityById.set(item.id, currentQuantity - entry.quantityUsed);
+      plans.push({ entry, draws: [{ item, quantityUsed: entry.quantityUsed }] });
+      continue;
+    }
+
+    // Item-level entry: split across lots, earliest expiration first.
+    const lots = fefoLots(items, item, quantityById);
+    const available = lots.reduce((sum, lot) => sum + (quantityById.get(lot.id) ?? 0), 0);
+    if (entry.quantityUsed > available) {
       return {
-        error: `Entry ${i + 1} (${entry.itemName}): usage (${entry.quantityUsed}) exceeds available quantity (${currentQuantity}).`,
+        error: `Entry ${i + 1} (${entry.itemName}): usage (${entry.quantityUsed}) exceeds unexpired quantity on hand (${available}).`,
       };
     }
+    const draws: Array<{ item: InventoryItem; quantityUsed: number }> = [];
+    let remaining = entry.quantityUsed;
+    for (const lot of lots) {
+      if (remaining <= 0) break;
+      const onHand = quantityById.get(lot.id) ?? 0;
+      const take = Math.min(onHand, remaining);
+      quantityById.set(lot.id, onHand - take);
+      draws.push({ item: lot, quantityUsed: take });
+      remaining -= take;
+    }
+    // A zero-quantity entry (note only) still records against the item.
+    plans.push({ entry, draws: draws.length > 0 ? draws : [{ item, quantityUsed: 0 }] });
   }
 
   // All validated — apply deductions
   const appliedDetails: AppliedUsageDetail[] = [];
-  for (const entry of pendingEntries) {
-    const item = byId.get(entry.itemId)!;
-    let values: Record<string, string | number | boolean | null> = {};
-    try {
-      values = JSON.parse(String(item.valuesJson ?? "{}")) as Record<string, string | number | boolean | null>;
-    } catch {
-      values = {};
+  const appliedQtyById = new Map<string, number>();
+  for (const { entry, draws } of plans) {
+    const lotDraws: UsageLotDraw[] = [];
+    let firstValues: ItemValues = {};
+    for (const [drawIndex, draw] of draws.entries()) {
+      const { item } = draw;
+      // Re-read through earlier writes in this batch so a second line on the
+      // same lot decrements from the already-reduced quantity.
+      const values = parseItemValues(item);
+      const quantityBefore = appliedQtyById.get(item.id) ?? Number(values.quantity ?? 0);
+      const nextQuantity = quantityBefore - draw.quantityUsed;
+      const nextValues = { ...values, quantity: nextQuantity };
+      try {
+        await ddb.send(
+          new UpdateCommand({
+            TableName: storage.itemTable,
+            Key: { id: item.id },
+            ConditionExpression: "organizationId = :org AND #module = :module",
+            UpdateExpression: "SET valuesJson = :values, updatedAtCustom = :updatedAtCustom",
+            ExpressionAttributeNames: { "#module": "module" },
+            ExpressionAttributeValues: {
+              ":org": access.organizationId,
+              ":module": "inventory",
+              ":values": JSON.stringify(nextValues),
+              ":updatedAtCustom": new Date().toISOString(),
+            },
+          }),
+        );
+      } catch (err: any) {
+        if (err?.name === "ConditionalCheckFailedException") {
+          return { error: `Item (${entry.itemName}): does not belong to organization.` };
+        }
+        throw err;
+      }
+      appliedQtyById.set(item.id, nextQuantity);
+      if (drawIndex === 0) firstValues = values;
+      const unitCost = effectiveUnitCost(values as Record<string, unknown>);
+      const expirationDate = String(values.expirationDate ?? "").trim();
+      lotDraws.push({
+        itemId: item.id,
+        quantityUsed: draw.quantityUsed,
+        quantityBefore,
+        quantityAfter: nextQuantity,
+        ...(unitCost > 0 ? { unitCost } : {}),
+        ...(expirationDate ? { expirationDate } : {}),
+        ...lotIdentityOf(values),
+      });
     }
-    const quantityBefore = Number(values.quantity ?? 0);
-    const nextQuantity = quantityBefore - entry.quantityUsed;
-    const unitCost = effectiveUnitCost(values as Record<string, unknown>);
-    const nextValues = { ...values, quantity: nextQuantity };
-    try {
-      await ddb.send(
-        new UpdateCommand({
-          TableName: storage.itemTable,
-          Key: { id: item.id },
-          ConditionExpression: "organizationId = :org AND #module = :module",
-          UpdateExpression: "SET valuesJson = :values, updatedAtCustom = :updatedAtCustom",
-          ExpressionAttributeNames: { "#module": "module" },
-          ExpressionAttributeValues: {
-            ":org": access.organizationId,
-            ":module": "inventory",
-            ":values": JSON.stringify(nextValues),
-            ":updatedAtCustom": new Date().toISOString(),
-          },
-        }),
-      );
-      const snap: Record<string, unknown> = { quantity: nextQuantity };
-      if (values.minQuantity !== undefined && values.minQuantity !== null) snap.minQuantity = values.minQuantity;
-      if (values.expirationDate !== undefined && values.expirationDate !== null && values.expirationDate !== "") snap.expirationDate = values.expirationDate;
-      const itemLocationId = typeof (item as { locationId?: unknown }).locationId === "string"
-        ? String((item as { locationId?: unknown }).locationId).trim()
-        : "";
+
+    const first = draws[0].item;
+    const itemLocationId = itemLocationOf(first);
+    const location = {
+      ...(itemLocationId ? { locationId: itemLocationId } : {}),
+      ...(itemLocationId && locationNameById.get(itemLocationId)
+        ? { locationName: locationNameById.get(itemLocationId) }
+        : {}),
+    };
+
+    if (!entry.fefo) {
+      const [draw] = lotDraws;
+      const snap: Record<string, unknown> = { quantity: draw.quantityAfter };
+      if (firstValues.minQuantity !== undefined && firstValues.minQuantity !== null) snap.minQuantity = firstValues.minQuantity;
+      if (draw.expirationDate) snap.expirationDate = draw.expirationDate;
       appliedDetails.push({
         itemId: entry.itemId,
         itemName: entry.itemName,
         quantityUsed: entry.quantityUsed,
-        quantityBefore,
-        quantityAfter: nextQuantity,
-        unitCost,
-        ...(itemLocationId ? { locationId: itemLocationId } : {}),
-        ...(itemLocationId && locationNameById.get(itemLocationId)
-          ? { locationName: locationNameById.get(itemLocationId) }
-          : {}),
+        quantityBefore: draw.quantityBefore,
+        quantityAfter: draw.quantityAfter,
+        unitCost: draw.unitCost ?? 0,
+        ...location,
+        lot: lotIdentityOf(firstValues),
+        ...(entry.notes ? { notes: entry.notes } : {}),
         snapshot: snap,
       });
-    } catch (err: any) {
-      if (err?.name === "ConditionalCheckFailedException") {
-        return { error: `Item (${entry.itemName}): does not belong to organization.` };
-      }
-      throw err;
+      continue;
+    }
+
+    // Item totals at the location, before and after, across every lot of
+    // the item (expired ones included — they're still on the shelf).
+    const groupIds = new Set(
+      items
+        .filter((it) => {
+          if (itemLocationOf(it) !== itemLocationId) return false;
+          const v = parseItemValues(it);
+          return !v.retiredAt
+            && String(v.itemName ?? "").trim().toLowerCase() === String(firstValues.itemName ?? "").trim().toLowerCase();
+        })
+        .map((it) => it.id),
+    );
+    let totalAfter = 0;
+    for (const id of groupIds) {
+      totalAfter += appliedQtyById.get(id) ?? Number(parseItemValues(byId.get(id)!).quantity ?? 0);
     }
+    const costed = lotDraws.reduce((sum, d) => sum + d.quantityUsed * (d.unitCost ?? 0), 0);
+    const snap: Record<string, unknown> = { quantity: totalAfter };
+    if (firstValues.minQuantity !== undefined && firstValues.minQuantity !== null) snap.minQuantity = firstValues.minQuantity;
+    // A single-lot draw reads like any other usage event, lot codes and all.
+    const singleLot = lotDraws.length === 1 ? lotIdentityOf(firstValues) : {};
+    appliedDetails.push({
+      itemId: first.id,
+      itemName: entry.itemName,
+      quantityUsed: entry.quantityUsed,
+      quantityBefore: totalAfter + entry.quantityUsed,
+      quantityAfter: totalAfter,
+      unitCost: entry.quantityUsed > 0 ? costed / entry.quantityUsed : 0,
+      ...location,
+      lot: singleLot,
+      ...(entry.notes ? { notes: entry.notes } : {}),
+      lots: lotDraws,
+      parentItemId: getParentItemId(first.id, firstValues),
+      snapshot: snap,
+    });
   }
 
   // ── Collapse emptied lots ────────────────────────────────────────────────
@@ -165,8 +329,7 @@ export const applyUsageEntries = async (
   // are history and are never touched. Housekeeping only — a failure here must
   // not fail the approval.
   try {
-    const newQtyById = new Map<string, number>();
-    for (const d of appliedDetails) newQtyById.set(String(d.itemId), d.quantityAfter);
+    const newQtyById = appliedQtyById;
 
     const parseVals = (it: (typeof items)[number]): Record<string, unknown> => {
       try { return JSON.parse(String(it.valuesJson ?? "{}")); } catch { return {}; }
@@ -179,8 +342,8 @@ export const applyUsageEntries = async (
 
     // Only groups touched by this usage can have newly emptied lots.
     const affected = new Set<string>();
-    for (const d of appliedDetails) {
-      const it = byId.get(String(d.itemId));
+    for (const id of appliedQtyById.keys()) {
+      const it = byId.get(id);
       if (!it) continue;
       const name = String(parseVals(it).itemName ?? "").trim().toLowerCase();
       if (name) affected.add(groupKey(locOf(it), name));
@@ -244,7 +407,10 @@ export const handleSubmitUsage = async (ctx: RouteContext) => {
   // Post-restructure: clients no longer send `location` per entry — the item's
   // structural locationId is authoritative. We accept and ignore an incoming
   // `location` field for one deploy cycle's worth of v0 client compatibility.
-  const usageByItemId = new Map<string, { quantityUsed: number; notes?: string }>();
+  // `fefo: true` marks an item-level entry: itemId is any lot of the item and
+  // the server picks the lots. Keyed apart from a lot-level entry on the same
+  // row so the two don't merge.
+  const usageByItemId = new Map<string, { itemId: string; quantityUsed: number; notes?: string; fefo: boolean }>();
   for (let i = 0; i < entries.length; i += 1) {
     const entry = entries[i];
     const itemId = String(entry?.itemId ?? "").trim();
@@ -256,13 +422,15 @@ export const handleSubmitUsage = async (ctx: RouteContext) => {
       return json(400, { error: "Used quantity must be 0 or greater." });
     }
     const notes = String(entry?.notes ?? "").trim();
-    const existing = usageByItemId.get(itemId);
+    const fefo = entry?.fefo === true;
+    const key = fefo ? `fefo:${itemId}` : itemId;
+    const existing = usageByItemId.get(key);
     if (!existing) {
-      usageByItemId.set(itemId, { quantityUsed, notes: notes || undefined });
+      usageByItemId.set(key, { itemId, quantityUsed, notes: notes || undefined, fefo });
       continue;
     }
     existing.quantityUsed += quantityUsed;
-    usageByItemId.set(itemId, existing);
+    usageByItemId.set(key, existing);
   }
 
   // Validate items exist and denormalize names for the pending record
@@ -271,7 +439,8 @@ export const handleSubmitUsage = async (ctx: RouteContext) => {
 
   const pendingEntries: PendingEntry[] = [];
   let itemCounter = 0;
-  for (const [itemId, entry] of usageByItemId) {
+  for (const entry of usageByItemId.values()) {
+    const { itemId } = entry;
     itemCounter += 1;
     const item = byId.get(itemId);
     if (!item) {
@@ -289,6 +458,7 @@ export const handleSubmitUsage = async (ctx: RouteContext) => {
       itemName,
       quantityUsed: entry.quantityUsed,
       notes: entry.notes,
+      ...(entry.fefo ? { fefo: true } : {}),
     });
   }
 
@@ -304,11 +474,10 @@ export const handleSubmitUsage = async (ctx: RouteContext) => {
   // resulting audit event's metadata; useful for grouping in analytics and as
   // a hook for a future "undo whole submission" affordance.
   const submissionId = randomUUID();
-  const notesByItemId = new Map(pendingEntries.map((e) => [e.itemId, e.notes]));
 
   const auditEvents: Record<string, unknown>[] = [];
   for (const detail of applyResult.appliedDetails ?? []) {
-    const notes = notesByItemId.get(detail.itemId);
+    const notes = detail.notes;
     auditEvents.push(buildAuditEvent(access, "USAGE_APPROVE", detail.itemId, detail.itemName, {
       submissionId,
       quantityUsed: detail.quantityUsed,
@@ -322,6 +491,9 @@ export const handleSubmitUsage = async (ctx: RouteContext) => {
       // event without having to look up the item's current location.
       ...(detail.locationId ? { locationId: detail.locationId } : {}),
       ...(detail.locationName ? { location: detail.locationName } : {}),
+      ...detail.lot,
+      // Item-level usage: which lots it came out of, earliest-expiring first.
+      ...(detail.lots ? { fefo: true, lots: detail.lots, parentItemId: detail.parentItemId } : {}),
       snapshot: detail.snapshot,
     }));
   }
@@ -400,6 +572,7 @@ export const handleApproveSubmission = async (ctx: RouteContext) => {
         quantityUsed,
         notes: e?.notes ? String(e.notes).slice(0, 500) : undefined,
         location: e?.location ? String(e.location).slice(0, 200) : undefined,
+        ...(e?.fefo === true ? { fefo: true } : {}),
       });
     }
     pendingEntries = validated;
@@ -446,6 +619,8 @@ export const handleApproveSubmission = async (ctx: RouteContext) => {
       // Stamp location for per-station analytics filters.
       ...(detail.locationId ? { locationId: detail.locationId } : {}),
       ...(detail.locationName ? { location: detail.locationName } : {}),
+      ...detail.lot,
+      ...(detail.lots ? { fefo: true, lots: detail.lots, parentItemId: detail.parentItemId } : {}),
       snapshot: detail.snapshot,
     }));
   }
@@ -505,6 +680,105 @@ export const handleRejectSubmission = async (ctx: RouteContext) => {
   return json(200, { ok: true });
 };
 
+/**
+ * Undo an item-level (FEFO) usage event lot by lot from its breakdown. A lot
+ * that still exists gets its share back; one the usage emptied and the
+ * lot-collapse pruned is re-created — cloned from a surviving lot of the item
+ * with the drawn lot's expiration and codes — so the stock returns under the
+ * date it actually carries rather than topping up a fresher lot.
+ */
+const undoLotDraws = async (
+  storage: InventoryStorage,
+  access: AccessContext,
+  original: Record<string, unknown>,
+  details: Record<string, unknown>,
+  draws: UsageLotDraw[],
+) => {
+  const eventId = String(original.eventId ?? "");
+  const itemName = String(original.itemName ?? "").trim();
+  const locationId = typeof details.locationId === "string" ? details.locationId : "";
+  const parentItemId = typeof details.parentItemId === "string" ? details.parentItemId : "";
+  const items = await listAllItems(storage, access.organizationId);
+  const byId = new Map(items.map((item) => [String(item.id), item]));
+  const template = items.find((it) => {
+    if (itemLocationOf(it) !== locationId) return false;
+    const v = parseItemValues(it);
+    return !v.retiredAt && String(v.itemName ?? "").trim().toLowerCase() === itemName.toLowerCase();
+  });
+
+  const undoEventId = await markAuditEventUndone(storage.auditTable, original, access.userId);
+  if (!undoEventId) return json(409, { error: "This usage event has already been undone." });
+
+  const now = new Date().toISOString();
+  const restored: Array<{ itemId: string; quantityRestored: number; recreated?: boolean }> = [];
+  for (const draw of draws) {
+    const qty = Number(draw.quantityUsed ?? 0);
+    if (!Number.isFinite(qty) || qty <= 0) continue;
+    const existing = byId.get(String(draw.itemId));
+    const existingValues = existing ? parseItemValues(existing) : null;
+    if (existing && existingValues && !existingValues.retiredAt) {
+      const current = Number(existingValues.quantity ?? 0);
+      await ddb.send(
+        new UpdateCommand({
+          TableName: storage.itemTable,
+          Key: { id: existing.id },
+          ConditionExpression: "organizationId = :org AND #module = :module",
+          UpdateExpression: "SET valuesJson = :values, updatedAtCustom = :updatedAtCustom",
+          ExpressionAttributeNames: { "#module": "module" },
+          ExpressionAttributeValues: {
+            ":org": access.organizationId,
+            ":module": "inventory",
+            ":values": JSON.stringify({ ...existingValues, quantity: (Number.isFinite(current) ? current : 0) + qty }),
+            ":updatedAtCustom": now,
+          },
+        }),
+      );
+      restored.push({ itemId: existing.id, quantityRestored: qty });
+      continue;
+    }
+    const base: Record<string, unknown> = template
+      ? { ...parseItemValues(template) }
+      : { itemName };
+    for (const key of ["retiredAt", "retiredQty", "retirementReason", "orderedAt", "reorderCheckedAt", "expirationDate", "lotNumber", "serialNumber"]) {
+      delete base[key];
+    }
+    const newValues: Record<string, unknown> = {
+      ...base,
+      quantity: qty,
+      ...(parentItemId ? { parentItemId } : {}),
+      ...(draw.expirationDate ? { expirationDate: draw.expirationDate } : {}),
+      ...(draw.lotNumber ? { lotNumber: draw.lotNumber } : {}),
+      ...(draw.serialNumber ? { serialNumber: draw.serialNumber } : {}),
+      ...(draw.unitCost ? { unitCost: draw.unitCost } : {}),
+    };
+    const recreated: InventoryItem = {
+      id: randomUUID(),
+      organizationId: access.organizationId,
+      module: "inventory",
+      position: Number(template?.position ?? 0),
+      locationId,
+      valuesJson: JSON.stringify(newValues),
+      createdAt: now,
+      updatedAtCustom: now,
+    };
+    await ddb.send(new PutCommand({ TableName: storage.itemTable, Item: recreated }));
+    restored.push({ itemId: recreated.id, quantityRestored: qty, recreated: true });
+  }
+
+  const quantityRestored = restored.reduce((sum, r) => sum + r.quantityRestored, 0);
+  const itemId = String(original.itemId ?? "");
+  await writeAuditEvents(storage.auditTable, [
+    buildAuditEvent(access, "USAGE_UNDO", itemId, itemName || `Item ${itemId.slice(0, 8)}`, {
+      undoneEventId: eventId,
+      submissionId: details.submissionId,
+      quantityRestored,
+      lots: restored,
+    }, undoEventId),
+  ]);
+
+  return json(200, { ok: true });
+};
+
 /**
  * Reverse a previous USAGE_APPROVE: re-add the decremented quantity to the
  * item, mark the original event as undone, and write a USAGE_UNDO event linked
@@ -551,6 +825,9 @@ export const handleUndoUsage = async (ctx: RouteContext) => {
   if (!Number.isFinite(quantityUsed) || quantityUsed < 0) {
     return json(400, { error: "Original event metadata is invalid; cannot undo." });
   }
+  if (Array.isArray(details.lots)) {
+    return undoLotDraws(storage, access, original, details, details.lots as UsageLotDraw[]);
+  }
 
   const items = await listAllItems(storage, access.organizationId);
   const item = items.find((i) => String(i.id) === itemId);
@@ -571,33 +848,9 @@ export const handleUndoUsage = async (ctx: RouteContext) => {
   // and only one quantity restore runs. (If the second step fails after the
   // first succeeds, the event is marked undone but quantity isn't restored —
   // rare, surfaces as an inventory diff, and the user can adjust manually.)
-  const undoneAt = new Date().toISOString();
-  const undoEventId = randomUUID();
-  const updatedDetails = {
-    ...details,
-    undone: true,
-    undoneAt,
-    undoneByUserId: access.userId,
-    undoneByEventId: undoEventId,
-  };
-  try {
-    await ddb.send(
-      new UpdateCommand({
-        TableName: storage.auditTable,
-        Key: { pk: original.pk as string, sk: original.sk as string },
-        UpdateExpression: "SET detailsJson = :d, undoneAt = :ua",
-        ConditionExpression: "attribute_not_exists(undoneAt)",
-        ExpressionAttributeValues: {
-          ":d": JSON.stringify(updatedDetails),
-          ":ua": undoneAt,
-        },
-      }),
-    );
-  } catch (err: any) {
-    if (err?.name === "ConditionalCheckFailedException") {
-      return json(409, { error: "This usage event has already been undone." });
-    }
-    throw err;
+  const undoEventId = await markAuditEventUndone(storage.auditTable, original, access.userId);
+  if (!undoEventId) {
+    return json(409, { error: "This usage event has already been undone." });
   }
 
   // Re-add the quantity additively so concurrent restocks/usage between the
@@ -634,7 +887,8 @@ export const handleUndoUsage = async (ctx: RouteContext) => {
       quantityRestored: quantityUsed,
       quantityBefore: currentQuantity,
       quantityAfter: restoredQuantity,
-    }),
+      ...lotIdentityOf(values),
+    }, undoEventId),
   ]);
 
   return json(200, { ok: true });
@@ -0,0 +1,151 @@
+// ── Inventory valuation handler ─────────────────────────────────────────────
+// GET /inventory/valuation prices the stock on hand — now, or at a past
+// month end rebuilt through the activity log — with valuation.ts. Receipts
+// come from the RESTOCK_RECEIVED / RESTOCK_ADDED events the spend analytics
+// already read; a receipt without a stamped cost borrows its order line's.
+
+import { ScanCommand } from "@aws-sdk/lib-dynamodb";
+import { amendedAuditEventIds, readAuditDetails } from "../audit";
+import { ddb } from "../clients";
+import { listColumns } from "../columns";
+import { json } from "../http";
+import { getParentItemId, listAllItems, parseValuesJson } from "../items";
+import { listLocations, locationSubtreeIds } from "../locations";
+import type { InventoryItem, InventoryStorage, RestockOrder, RestockOrderItem, RouteContext } from "../types";
+import {
+  VALUATION_METHODS,
+  orderLineUnitCost,
+  valueInventory,
+  type ValuationMethod,
+  type ValuationReceipt,
+} from "../valuation";
+import { listAllVendorPricing } from "./vendor-pricing";
+import { AS_OF_READ_BUDGET_MS, loadInventoryAsOf, readAuditEventsBetween, resolveAsOf } from "./inventory-snapshot";
+
+const RECEIPT_ACTIONS: ReadonlySet<string> = new Set(["RESTOCK_RECEIVED", "RESTOCK_ADDED"]);
+
+/** Order lines keyed `${orderId}#${itemId}`. Receive rewrites a freeform
+ *  line's itemId to the row it created, so the key matches the event. */
+const listOrderLines = async (storage: InventoryStorage, organizationId: string): Promise<Map<string, RestockOrderItem>> => {
+  const lines = new Map<string, RestockOrderItem>();
+  let lastEvaluatedKey: Record<string, unknown> | undefined;
+  do {
+    const page = await ddb.send(new ScanCommand({
+      TableName: storage.restockOrdersTable,
+      FilterExpression: "orgId = :orgId",
+      ExpressionAttributeValues: { ":orgId": organizationId },
+      ExclusiveStartKey: lastEvaluatedKey,
+    }));
+    for (const raw of page.Items ?? []) {
+      const order = raw as unknown as RestockOrder;
+      let items: RestockOrderItem[] = [];
+      try {
+        items = JSON.parse(String(order.itemsJson ?? "[]")) as RestockOrderItem[];
+      } catch {
+        continue;
+      }
+      for (const line of items) lines.set(`${order.id}#${line.itemId}`, line);
+    }
+    lastEvaluatedKey = page.LastEvaluatedKey as Record<string, unknown> | undefined;
+  } while (lastEvaluatedKey);
+  return lines;
+};
+
+/** Turn receipt events into priced receipts. A stamped unitCost of 0 means
+ *  "not entered" (as in the spend analytics) unless the stock was donated. */
+const toReceipts = (
+  events: Array<Record<string, unknown>>,
+  orderLines: Map<string, RestockOrderItem>,
+  items: InventoryItem[],
+): ValuationReceipt[] => {
+  const unitByParent = new Map<string, string>();
+  for (const item of items) {
+    const values = parseValuesJson(item.valuesJson);
+    const unit = String(values.unit ?? "").trim();
+    if (unit) unitByParent.set(getParentItemId(item.id, values), unit);
+  }
+  const amended = amendedAuditEventIds(events);
+  const receipts: ValuationReceipt[] = [];
+  for (const event of events) {
+    if (amended.has(String(event.eventId ?? ""))) continue;
+    const action = String(event.action ?? "");
+    const details = readAuditDetails(event);
+    const qty = Number(action === "RESTOCK_RECEIVED" ? details.qtyReceived ?? 0 : details.qtyDelta ?? 0);
+    if (!Number.isFinite(qty) || qty <= 0) continue;
+    const itemId = String(event.itemId ?? "");
+    const parentItemId = typeof details.parentItemId === "string" && details.parentItemId.trim()
+      ? details.parentItemId.trim()
+      : itemId;
+    if (!parentItemId) continue;
+
+    const stamped = Number(details.unitCost ?? 0);
+    let unitCost: number | null = Number.isFinite(stamped) && stamped > 0 ? stamped : null;
+    if (details.source === "donation") unitCost = 0;
+    if (unitCost === null && action === "RESTOCK_RECEIVED" && details.orderId) {
+      const line = orderLines.get(`${String(details.orderId)}#${itemId}`);
+      if (line) unitCost = orderLineUnitCost(line, unitByParent.get(parentItemId) ?? "");
+    }
+    receipts.push({ parentItemId, receivedAt: String(event.timestamp ?? ""), qty, unitCost });
+  }
+  return receipts;
+};
+
+/**
+ * GET /inventory/valuation?method=fifo|average|vendor&at=<ISO>&locationId=&groupBy=
+ * — admin-only. Values the stock on hand (at `at` when given, e.g. a month
+ * end for the finance export) and totals it per location and per value of
+ * the `groupBy` column (default "category"). Vendor prices have no history,
+ * so a past valuation with method=vendor uses today's prices.
+ */
+export const handleInventoryValuation = async (ctx: RouteContext) => {
+  const { access, storage, query } = ctx;
+  if (!access.canManageColumns) {
+    return json(403, { error: "Only admins can view inventory valuation." });
+  }
+  const startedAt = Date.now();
+
+  const method = String(query.method ?? "fifo").trim().toLowerCase() as ValuationMethod;
+  if (!VALUATION_METHODS.includes(method)) {
+    return json(400, { error: `method must be one of: ${VALUATION_METHODS.join(", ")}.` });
+  }
+
+  const rawAt = String(query.at ?? "").trim();
+  let at: string | null = null;
+  if (rawAt) {
+    const resolved = await resolveAsOf(storage, rawAt, startedAt);
+    if ("response" in resolved) return resolved.response;
+    at = resolved.at;
+  }
+
+  const [columns, locations] = await Promise.all([listColumns(storage), listLocations(storage)]);
+  const groupBy = String(query.groupBy ?? "").trim() || "category";
+  if (!columns.some((c) => c.key === groupBy)) {
+    return json(400, { error: "groupBy must be a column key." });
+  }
+  const locationId = String(query.locationId ?? "").trim();
+  if (locationId && !locations.some((l) => l.id === locationId)) {
+    return json(404, { error: "Location not found." });
+  }
+
+  const deadline = startedAt + AS_OF_READ_BUDGET_MS;
+  const [items, events, orderLines, pricing] = await Promise.all([
+    at
+      ? loadInventoryAsOf(storage, access.organizationId, at, deadline).then((snapshot) => snapshot?.items ?? null)
+      : listAllItems(storage, access.organizationId),
+    readAuditEventsBetween(
+      storage.auditTable,
+      access.organizationId,
+      { ...(at ? { through: at } : {}), actions: RECEIPT_ACTIONS },
+      deadline,
+    ),
+    listOrderLines(storage, access.organizationId),
+    listAllVendorPricing(storage, access.organizationId),
+  ]);
+  if (!items || !events) {
+    return json(422, { error: "There's too much activity to value in one request. Pick a later date." });
+  }
+
+  const scope = locationId ? new Set(locationSubtreeIds(locations, locationId)) : undefined;
+  const valuation = valueInventory(items, toReceipts(events, orderLines, items), pricing, method, groupBy, scope);
+  return json(200, { at, groupBy, ...valuation });
+};
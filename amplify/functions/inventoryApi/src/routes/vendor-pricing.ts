@@ -32,6 +32,7 @@ import { ddb } from "../clients";
 import { json } from "../http";
 import { dimensionForUnit } from "../uom";
 import { buildAuditEvent, writeAuditEvents } from "../audit";
+import { invalidGtinMessage, normalizeGtin } from "../gtin";
 import type {
   AccessContext,
   InventoryItemVendorPricing,
@@ -177,6 +178,7 @@ export const upsertVendorPricingFromReceive = async (
     // packLabel + reorderUrl: receive carries url (from order line) but not
     // label. Preserve label from existing row.
     ...(existing.packLabel ? { packLabel: existing.packLabel } : {}),
+    ...(existing.gtin ? { gtin: existing.gtin } : {}),
     ...(input.reorderUrl
       ? { reorderUrl: input.reorderUrl }
       : existing.reorderUrl ? { reorderUrl: existing.reorderUrl } : {}),
@@ -281,6 +283,13 @@ export const handleUpsertVendorPricing = async (ctx: RouteContext) => {
     ? undefined
     : String(body.reorderUrl).trim() || undefined;
 
+  let gtin: string | undefined;
+  if (body?.gtin !== undefined && body?.gtin !== null && String(body.gtin).trim() !== "") {
+    const normalized = normalizeGtin(body.gtin);
+    if (!normalized) return json(400, { error: invalidGtinMessage(body.gtin) });
+    gtin = normalized;
+  }
+
   // Optimistic-lock: client passes the lastUpdatedAt it last read; server
   // rejects with 409 if the stored row has changed since. Empty string
   // means "I expect no row" (first-time create). Skipped when the request
@@ -307,6 +316,7 @@ export const handleUpsertVendorPricing = async (ctx: RouteContext) => {
     ...(packAmountUnit ? { packAmountUnit } : {}),
     ...(packLabel ? { packLabel } : {}),
     ...(reorderUrl ? { reorderUrl } : {}),
+    ...(gtin ? { gtin } : {}),
     lastUpdatedAt: now,
     lastUpdatedByUserId: access.userId,
   };
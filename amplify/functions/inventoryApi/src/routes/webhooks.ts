@@ -0,0 +1,237 @@
+// ── Route handlers: webhooks ────────────────────────────────────────────────
+// Admin CRUD for an org's outbound webhook subscriptions, plus the delivery
+// log and manual redelivery behind Settings → Webhooks. Signing, dispatch and
+// retries live in webhooks.ts; this file only manages the rows.
+
+import { randomBytes, randomUUID } from "node:crypto";
+import { DeleteCommand, GetCommand, PutCommand } from "@aws-sdk/lib-dynamodb";
+import type { RouteContext, WebhookDelivery, WebhookEventType, WebhookSubscription } from "../types";
+import { ddb } from "../clients";
+import { json } from "../http";
+import { buildAuditEvent, writeAuditEvents } from "../audit";
+import {
+  WEBHOOK_EVENT_TYPES,
+  invalidateWebhookSubscriptions,
+  isPrivateHost,
+  runDeliveryAttempt,
+  scanWebhookRows,
+} from "../webhooks";
+
+const MAX_SUBSCRIPTIONS = 20;
+const MAX_URL_LENGTH = 2048;
+const MAX_DESCRIPTION_LENGTH = 200;
+const DELIVERY_LIST_LIMIT = 50;
+
+/** Subscription as the client sees it — everything but the secret. */
+const toSummary = (row: WebhookSubscription) => ({
+  id: row.id,
+  url: row.url,
+  description: row.description ?? "",
+  events: row.events ?? [],
+  active: !!row.active,
+  createdAt: row.createdAt,
+  createdByEmail: row.createdByEmail ?? "",
+  updatedAt: row.updatedAt ?? null,
+});
+
+const readUrl = (raw: unknown): string | { error: string } => {
+  const value = String(raw ?? "").trim();
+  if (!value) return { error: "url is required." };
+  if (value.length > MAX_URL_LENGTH) return { error: "url is too long." };
+  let parsed: URL;
+  try {
+    parsed = new URL(value);
+  } catch {
+    return { error: "url is not a valid URL." };
+  }
+  if (parsed.protocol !== "https:") return { error: "Webhook URLs must use https." };
+  if (parsed.username || parsed.password) return { error: "Put credentials in your endpoint's own auth, not the URL." };
+  if (isPrivateHost(parsed.hostname)) return { error: "Webhook URLs must point at a public host." };
+  return parsed.toString();
+};
+
+const readEvents = (raw: unknown): WebhookEventType[] | { error: string } => {
+  if (!Array.isArray(raw)) return { error: "events must be an array." };
+  const allowed = new Set<string>(WEBHOOK_EVENT_TYPES);
+  const unknown = raw.map(String).filter((e) => !allowed.has(e));
+  if (unknown.length > 0) return { error: `Unknown event types: ${unknown.join(", ")}.` };
+  const events = Array.from(new Set<string>(raw.map(String))) as WebhookEventType[];
+  if (events.length === 0) return { error: "Pick at least one event." };
+  return events;
+};
+
+const subscriptionIdFromPath = (path: string): string => {
+  const match = path.match(/\/inventory\/webhooks\/([^/]+)$/);
+  return match ? decodeURIComponent(match[1]) : "";
+};
+
+const getSubscription = async (webhooksTable: string, id: string): Promise<WebhookSubscription | null> => {
+  if (!id) return null;
+  const res = await ddb.send(new GetCommand({ TableName: webhooksTable, Key: { id } }));
+  const row = res.Item as WebhookSubscription | undefined;
+  return row?.kind === "subscription" ? row : null;
+};
+
+/** GET /inventory/webhooks — subscriptions (never secrets), oldest first, and
+ *  the event types a subscription may pick from. */
+export const handleListWebhooks = async (ctx: RouteContext) => {
+  const { access, storage } = ctx;
+  if (!access.canManageColumns) {
+    return json(403, { error: "Only org admins can manage webhooks." });
+  }
+  const rows = await scanWebhookRows<WebhookSubscription>(storage.webhooksTable, "subscription");
+  const subscriptions = rows
+    .map(toSummary)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  return json(200, { subscriptions, eventTypes: WEBHOOK_EVENT_TYPES });
+};
+
+/** POST /inventory/webhooks — add a subscription. Body: { url, events,
+ *  description? }. The response is the only place the secret ever appears. */
+export const handleCreateWebhook = async (ctx: RouteContext) => {
+  const { access, storage, body } = ctx;
+  if (!access.canManageColumns) {
+    return json(403, { error: "Only org admins can manage webhooks." });
+  }
+  const url = readUrl(body?.url);
+  if (typeof url !== "string") return json(400, url);
+  const events = readEvents(body?.events);
+  if (!Array.isArray(events)) return json(400, events);
+  const description = String(body?.description ?? "").trim().slice(0, MAX_DESCRIPTION_LENGTH);
+
+  const existing = await scanWebhookRows<WebhookSubscription>(storage.webhooksTable, "subscription");
+  if (existing.length >= MAX_SUBSCRIPTIONS) {
+    return json(400, { error: `An organization can have at most ${MAX_SUBSCRIPTIONS} webhooks.` });
+  }
+
+  const row: WebhookSubscription = {
+    id: randomUUID(),
+    kind: "subscription",
+    url,
+    description,
+    events,
+    secret: `whsec_${randomBytes(24).toString("base64url")}`,
+    active: true,
+    createdAt: new Date().toISOString(),
+    createdByUserId: access.userId,
+    createdByEmail: access.email,
+  };
+  await ddb.send(new PutCommand({ TableName: storage.webhooksTable, Item: row }));
+  invalidateWebhookSubscriptions(access.organizationId);
+
+  await writeAuditEvents(storage.auditTable, [
+    buildAuditEvent(access, "WEBHOOK_CREATED", null, null, { subscriptionId: row.id, url, events }),
+  ]);
+
+  return json(200, { subscription: toSummary(row), secret: row.secret });
+};
+
+/** POST /inventory/webhooks/:id — edit a subscription. Body: any of { url,
+ *  events, description, active }. Pausing (active: false) keeps the row and
+ *  its delivery log; pending retries for it give up. */
+export const handleUpdateWebhook = async (ctx: RouteContext) => {
+  const { access, storage, body, path } = ctx;
+  if (!access.canManageColumns) {
+    return json(403, { error: "Only org admins can manage webhooks." });
+  }
+  const current = await getSubscription(storage.webhooksTable, subscriptionIdFromPath(path));
+  if (!current) return json(404, { error: "Webhook not found." });
+
+  const next: WebhookSubscription = { ...current };
+  if (body?.url !== undefined) {
+    const url = readUrl(body.url);
+    if (typeof url !== "string") return json(400, url);
+    next.url = url;
+  }
+  if (body?.events !== undefined) {
+    const events = readEvents(body.events);
+    if (!Array.isArray(events)) return json(400, events);
+    next.events = events;
+  }
+  if (body?.description !== undefined) {
+    next.description = String(body.description ?? "").trim().slice(0, MAX_DESCRIPTION_LENGTH);
+  }
+  if (body?.active !== undefined) next.active = body.active === true;
+
+  const changes: Array<{ field: string; from: unknown; to: unknown }> = [];
+  for (const field of ["url", "description", "active"] as const) {
+    if ((current[field] ?? "") !== (next[field] ?? "")) changes.push({ field, from: current[field] ?? null, to: next[field] ?? null });
+  }
+  if (current.events.join(",") !== next.events.join(",")) {
+    changes.push({ field: "events", from: current.events, to: next.events });
+  }
+  if (changes.length === 0) return json(200, { subscription: toSummary(current) });
+
+  next.updatedAt = new Date().toISOString();
+  await ddb.send(new PutCommand({ TableName: storage.webhooksTable, Item: next }));
+  invalidateWebhookSubscriptions(access.organizationId);
+
+  await writeAuditEvents(storage.auditTable, [
+    buildAuditEvent(access, "WEBHOOK_UPDATED", null, null, { subscriptionId: next.id, url: next.url, changes }),
+  ]);
+
+  return json(200, { subscription: toSummary(next) });
+};
+
+/** DELETE /inventory/webhooks/:id — remove a subscription. Its delivery log
+ *  ages out on the table's TTL. */
+export const handleDeleteWebhook = async (ctx: RouteContext) => {
+  const { access, storage, path } = ctx;
+  if (!access.canManageColumns) {
+    return json(403, { error: "Only org admins can manage webhooks." });
+  }
+  const current = await getSubscription(storage.webhooksTable, subscriptionIdFromPath(path));
+  if (!current) return json(404, { error: "Webhook not found." });
+
+  await ddb.send(new DeleteCommand({ TableName: storage.webhooksTable, Key: { id: current.id } }));
+  invalidateWebhookSubscriptions(access.organizationId);
+
+  await writeAuditEvents(storage.auditTable, [
+    buildAuditEvent(access, "WEBHOOK_DELETED", null, null, { subscriptionId: current.id, url: current.url }),
+  ]);
+
+  return json(200, { ok: true });
+};
+
+/** GET /inventory/webhooks/deliveries?subscriptionId= — the most recent
+ *  deliveries, newest first. Payloads are included so admins can see exactly
+ *  what was sent. */
+export const handleListWebhookDeliveries = async (ctx: RouteContext) => {
+  const { access, storage, query } = ctx;
+  if (!access.canManageColumns) {
+    return json(403, { error: "Only org admins can manage webhooks." });
+  }
+  const subscriptionId = String(query.subscriptionId ?? "").trim();
+  const rows = await scanWebhookRows<WebhookDelivery>(
+    storage.webhooksTable,
+    "delivery",
+    subscriptionId ? { expression: "subscriptionId = :sid", values: { ":sid": subscriptionId } } : undefined,
+  );
+  const deliveries = rows
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, DELIVERY_LIST_LIMIT);
+  return json(200, { deliveries });
+};
+
+/** POST /inventory/webhooks/deliveries/:id/redeliver — resend a delivery's
+ *  original payload now, signed with the subscription's current secret. A
+ *  manual attempt never schedules automatic retries. */
+export const handleRedeliverWebhook = async (ctx: RouteContext) => {
+  const { access, storage, path } = ctx;
+  if (!access.canManageColumns) {
+    return json(403, { error: "Only org admins can manage webhooks." });
+  }
+  const match = path.match(/\/inventory\/webhooks\/deliveries\/([^/]+)\/redeliver$/);
+  const deliveryId = match ? decodeURIComponent(match[1]) : "";
+  const res = deliveryId
+    ? await ddb.send(new GetCommand({ TableName: storage.webhooksTable, Key: { id: deliveryId } }))
+    : null;
+  const delivery = res?.Item as WebhookDelivery | undefined;
+  if (!delivery || delivery.kind !== "delivery") return json(404, { error: "Delivery not found." });
+
+  const subscription = await getSubscription(storage.webhooksTable, delivery.subscriptionId);
+  if (!subscription) return json(409, { error: "That webhook has been deleted." });
+
+  const updated = await runDeliveryAttempt(storage.webhooksTable, subscription, delivery, { manual: true });
+  return json(200, { delivery: updated });
+};
@@ -10,6 +10,7 @@ import {
   ProjectionType,
   ScalarAttributeType,
   UpdateContinuousBackupsCommand,
+  UpdateTableCommand,
   UpdateTimeToLiveCommand,
 } from "@aws-sdk/client-dynamodb";
 import { rawDdb } from "./clients";
@@ -17,7 +18,9 @@ import {
   AUDIT_BY_TIMESTAMP_INDEX,
   AUDIT_BY_USER_INDEX,
   INVENTORY_COLUMN_BY_MODULE_INDEX,
+  INVENTORY_ITEM_BY_LOCATION_INDEX,
   INVENTORY_ITEM_BY_MODULE_INDEX,
+  INVENTORY_ITEM_BY_MODULE_UPDATED_INDEX,
   INVENTORY_VENDOR_PRICING_BY_ITEM_INDEX,
   STORAGE_CACHE_TTL_MS,
 } from "./config";
@@ -126,6 +129,60 @@ export const createOrgTableIfMissing = async (
   }
 };
 
+/** GSIs added to items tables after creation, in the order they're added. */
+const ITEM_TABLE_EXTRA_INDEXES: Array<{
+  name: string;
+  hashKey: string;
+  rangeKey: { name: string; type: ScalarAttributeType };
+}> = [
+  { name: INVENTORY_ITEM_BY_LOCATION_INDEX, hashKey: "locationId", rangeKey: { name: "position", type: ScalarAttributeType.N } },
+  { name: INVENTORY_ITEM_BY_MODULE_UPDATED_INDEX, hashKey: "module", rangeKey: { name: "updatedAtCustom", type: ScalarAttributeType.S } },
+];
+
+/** Add the ByLocationPosition and ByModuleUpdatedAt GSIs to an items table
+ *  that predates them (or was created by userSubscriptionCheck, which only
+ *  knows ByModulePosition). DynamoDB builds one new index at a time, so this
+ *  starts the first missing one and leaves the rest to later storage checks.
+ *  Doesn't wait: backfilling a large table takes minutes, and readers fall
+ *  back to the module index until it's ACTIVE (items.ts). Best-effort — a
+ *  failure is retried on the next storage check. */
+export const ensureItemIndexes = async (tableName: string): Promise<void> => {
+  let missing: (typeof ITEM_TABLE_EXTRA_INDEXES)[number] | undefined;
+  try {
+    const existing = await describeTable(tableName);
+    const table = existing?.Table;
+    if (!table || table.TableStatus !== "ACTIVE") return;
+    const indexes = table.GlobalSecondaryIndexes ?? [];
+    if (indexes.some((i) => i.IndexStatus === "CREATING")) return;
+    missing = ITEM_TABLE_EXTRA_INDEXES.find((spec) => !indexes.some((i) => i.IndexName === spec.name));
+    if (!missing) return;
+    await rawDdb.send(
+      new UpdateTableCommand({
+        TableName: tableName,
+        AttributeDefinitions: [
+          { AttributeName: missing.hashKey, AttributeType: ScalarAttributeType.S },
+          { AttributeName: missing.rangeKey.name, AttributeType: missing.rangeKey.type },
+        ],
+        GlobalSecondaryIndexUpdates: [
+          {
+            Create: {
+              IndexName: missing.name,
+              KeySchema: [
+                { AttributeName: missing.hashKey, KeyType: KeyType.HASH },
+                { AttributeName: missing.rangeKey.name, KeyType: KeyType.RANGE },
+              ],
+              Projection: { ProjectionType: ProjectionType.ALL },
+            },
+          },
+        ],
+      }),
+    );
+  } catch (err) {
+    // ResourceInUse: another invocation's update is already running.
+    if (!isResourceInUse(err)) console.warn(`[storage] failed to add ${missing?.name ?? "item index"} to ${tableName}`, err);
+  }
+};
+
 /** Create the per-org `inventoryItemVendorPricing` table (1g). Hash-keyed on
  *  `id` (the composite `${itemId}#${vendorLower}` string), with a GSI on
  *  `itemId` so the item-detail modal can list every vendor for one item in a
@@ -222,6 +279,24 @@ export const createOrgPendingTableIfMissing = async (tableName: string): Promise
   }
 };
 
+/** Hash-keyed like the pending table, plus TTL so rows carrying `ttl` expire on
+ *  their own. Used for webhooks (the delivery log expires, subscriptions carry
+ *  no ttl and are kept) and idempotency records. */
+export const createOrgTtlTableIfMissing = async (tableName: string): Promise<{ created: boolean }> => {
+  const result = await createOrgPendingTableIfMissing(tableName);
+  if (result.created) {
+    try {
+      await rawDdb.send(
+        new UpdateTimeToLiveCommand({
+          TableName: tableName,
+          TimeToLiveSpecification: { AttributeName: "ttl", Enabled: true },
+        }),
+      );
+    } catch { /* best-effort */ }
+  }
+  return result;
+};
+
 export const createOrgAuditTableIfMissing = async (tableName: string): Promise<{ created: boolean }> => {
   const existing = await describeTable(tableName);
   if (existing?.Table) {
@@ -299,6 +374,21 @@ export const createOrgAuditTableIfMissing = async (tableName: string): Promise<{
 
 export const storageCache = new Map<string, { storage: InventoryStorage; checkedAt: number }>();
 
+/** Table names for an org, without touching DynamoDB. Callers that may run
+ *  before provisioning (webhook dispatch, scheduled sweeps) must tolerate
+ *  ResourceNotFoundException themselves. */
+export const storageTablesForOrganization = (organizationId: string): InventoryStorage => ({
+  columnTable: buildOrgScopedTableName(organizationId, "columns"),
+  itemTable: buildOrgScopedTableName(organizationId, "items"),
+  pendingTable: buildOrgScopedTableName(organizationId, "pending"),
+  auditTable: buildOrgScopedTableName(organizationId, "auditlog"),
+  restockOrdersTable: buildOrgScopedTableName(organizationId, "restock-orders"),
+  vendorPricingTable: buildOrgScopedTableName(organizationId, "vendor-pricing"),
+  countSessionsTable: buildOrgScopedTableName(organizationId, "count-sessions"),
+  webhooksTable: buildOrgScopedTableName(organizationId, "webhooks"),
+  idempotencyTable: buildOrgScopedTableName(organizationId, "idempotency"),
+});
+
 export const ensureStorageForOrganization = async (organizationId: string): Promise<InventoryStorage> => {
   const cached = storageCache.get(organizationId);
   const now = Date.now();
@@ -306,22 +396,20 @@ export const ensureStorageForOrganization = async (organizationId: string): Prom
     return cached.storage;
   }
 
-  const storage: InventoryStorage = {
-    columnTable: buildOrgScopedTableName(organizationId, "columns"),
-    itemTable: buildOrgScopedTableName(organizationId, "items"),
-    pendingTable: buildOrgScopedTableName(organizationId, "pending"),
-    auditTable: buildOrgScopedTableName(organizationId, "auditlog"),
-    restockOrdersTable: buildOrgScopedTableName(organizationId, "restock-orders"),
-    vendorPricingTable: buildOrgScopedTableName(organizationId, "vendor-pricing"),
-  };
+  const storage = storageTablesForOrganization(organizationId);
 
   await Promise.all([
     createOrgTableIfMissing(storage.columnTable, INVENTORY_COLUMN_BY_MODULE_INDEX, "sortOrder"),
-    createOrgTableIfMissing(storage.itemTable, INVENTORY_ITEM_BY_MODULE_INDEX, "position"),
+    createOrgTableIfMissing(storage.itemTable, INVENTORY_ITEM_BY_MODULE_INDEX, "position").then(() =>
+      ensureItemIndexes(storage.itemTable),
+    ),
     createOrgPendingTableIfMissing(storage.pendingTable),
     createOrgAuditTableIfMissing(storage.auditTable),
     createOrgPendingTableIfMissing(storage.restockOrdersTable),
     createOrgVendorPricingTableIfMissing(storage.vendorPricingTable),
+    createOrgPendingTableIfMissing(storage.countSessionsTable),
+    createOrgTtlTableIfMissing(storage.webhooksTable),
+    createOrgTtlTableIfMissing(storage.idempotencyTable),
   ]);
 
   storageCache.set(organizationId, { storage, checkedAt: now });
@@ -331,7 +419,7 @@ export const ensureStorageForOrganization = async (organizationId: string): Prom
 export const deleteStorageForOrganization = async (organizationId: string): Promise<void> => {
   const storage = await ensureStorageForOrganization(organizationId);
   await Promise.all(
-    [storage.columnTable, storage.itemTable, storage.pendingTable, storage.auditTable, storage.restockOrdersTable, storage.vendorPricingTable].map(async (tableName) => {
+    [storage.columnTable, storage.itemTable, storage.pendingTable, storage.auditTable, storage.restockOrdersTable, storage.vendorPricingTable, storage.countSessionsTable, storage.webhooksTable, storage.idempotencyTable].map(async (tableName) => {
       try {
         await rawDdb.send(new DeleteTableCommand({ TableName: tableName }));
       } catch (err: any) {
@@ -12,6 +12,8 @@ export type UserRecord = {
   accessSuspended?: boolean;
   allowedModules?: unknown;
   columnVisibility?: string;
+  /** Email digest subscription — see AlertDigestSubscription. */
+  alertDigest?: unknown;
 };
 
 /** Discriminator for the rows stored in a per-org "columns" table.
@@ -82,9 +84,23 @@ export type InventoryItem = {
   locationId?: string;
   valuesJson: string;
   createdAt: string;
+  /** Stamped on every save. Doubles as the optimistic-lock token: a save that
+   *  carries `expectedUpdatedAt` only lands if this still matches. */
   updatedAtCustom: string;
 };
 
+/** One row a save skipped because it changed (or was deleted) after the
+ *  client loaded it. Listed as `conflicts` on the save's 200 so the client can
+ *  show both versions and let the user merge. */
+export type ItemSaveConflict = {
+  id: string;
+  itemName: string;
+  /** Current stored row; null when someone else deleted it. */
+  server: { values: Record<string, unknown>; locationId: string | null; updatedAt: string } | null;
+  /** What this save tried to write. */
+  yours: { values: Record<string, unknown>; locationId: string | null };
+};
+
 export type AccessContext = {
   userId: string;
   email: string;
@@ -109,6 +125,13 @@ export type AccessContext = {
   platformSupportGroupMember?: boolean;
   /** ISO expiry of the active support grant, when isPlatformSupport. */
   supportGrantExpiresAt?: string;
+  /** True when the request authenticated with an org API key instead of a
+   *  Cognito session. Only the /v1 route table resolves for machine access;
+   *  userId is the synthetic `apikey:<prefix>` so the audit trail names the key. */
+  isMachineAccess?: boolean;
+  /** The key behind a machine request. `id` is the stored SHA-256 of the
+   *  secret, never the secret itself. */
+  apiKey?: { id: string; name: string; prefix: string };
 };
 
 export type InventoryStorage = {
@@ -124,6 +147,16 @@ export type InventoryStorage = {
    *  from. PK is `${itemId}#${vendorLower}` for direct lookup; GSI by
    *  itemId for "all vendors that sell this item." */
   vendorPricingTable: string;
+  /** Cycle-count sessions (see CycleCountSession). One row per session, PK
+   *  `id`, same shape of table as restock orders. */
+  countSessionsTable: string;
+  /** Webhook subscriptions, their delivery log and below-par markers, told
+   *  apart by `kind` (see webhooks.ts). TTL-enabled for the delivery log. */
+  webhooksTable: string;
+  /** Responses to mutating requests that carried an Idempotency-Key, so a
+   *  replayed request gets the original answer instead of running twice.
+   *  TTL-enabled (see idempotency.ts). */
+  idempotencyTable: string;
 };
 
 /** A row in the vendorPricingTable. */
@@ -188,6 +221,10 @@ export type InventoryItemVendorPricing = {
    *  for the same item, so this lives per-row instead of on the inventory
    *  row itself. */
   reorderUrl?: string;
+  /** This vendor's barcode for the item, when it differs from the item's own
+   *  (e.g. a case-pack GTIN on a BoundTree carton). Digits only — see gtin.ts.
+   *  The receive form matches scans against this and the item's `gtin`. */
+  gtin?: string;
   /** Last edit timestamp. Drives optimistic-locking ConditionExpressions on
    *  multi-user writes. */
   lastUpdatedAt: string;
@@ -204,6 +241,13 @@ export type AuditAction =
    *  toLocationId, toLocationName }. Replaces the prior pattern of recording
    *  location changes as ordinary ITEM_EDIT diffs. */
   | "ITEM_MOVE"
+  /** Partial-quantity transfer between leaves: a lot is split, the source row
+   *  decremented and the destination lot created or topped up. One event per
+   *  transfer, keyed to the source row. Body shape: { quantity, fromLocationId,
+   *  fromLocationName, toLocationId, toLocationName, toItemId, merged,
+   *  sourceQtyBefore, sourceQtyAfter, destQtyBefore, destQtyAfter,
+   *  parentItemId, expirationDate? }. */
+  | "ITEM_TRANSFER"
   /** Quantity decrement with a loss reason (see RetireReason). */
   | "ITEM_RETIRE"
   /** Reverses a previous ITEM_RETIRE: clears the retire markers and marks the
@@ -243,6 +287,19 @@ export type AuditAction =
   | "RESTOCK_ORDER_CREATE"
   | "RESTOCK_RECEIVED"
   | "RESTOCK_ORDER_CLOSED"
+  /** A draft order was placed with its vendor (draft → open). Org-level
+   *  event. Body shape: { orderId, vendor?, lineCount }. */
+  | "RESTOCK_ORDER_PLACED"
+  /** An approver signed off on an order held by an approval rule
+   *  (pending_approval → open). Org-level event. Body shape: { orderId,
+   *  vendor?, total, reasons, requestedByUserId, requestedByName, note? }. */
+  | "RESTOCK_ORDER_APPROVED"
+  /** An approver turned down a held order (pending_approval → closed). Same
+   *  body shape as RESTOCK_ORDER_APPROVED; `note` is the required reason. */
+  | "RESTOCK_ORDER_REJECTED"
+  /** Org admin changed the order approval rules or approver roles. Body
+   *  shape: { from: OrderApprovalSettings, to: OrderApprovalSettings }. */
+  | "ORDER_APPROVAL_RULES_UPDATED"
   /** Fast Restock: quantity added directly to an inventory row (not via an order). */
   | "RESTOCK_ADDED"
   /** A vendor's price for this item was set/changed in the pricing modal. Body
@@ -250,6 +307,21 @@ export type AuditAction =
    *  cost-over-time (the current vendor price is a real price point) and shows
    *  in the activity feed. Distinct from RESTOCK_RECEIVED (what was paid). */
   | "VENDOR_PRICE_EDIT"
+  /** Cycle-count session lifecycle. Org-level events (no itemId). Body shape:
+   *  { sessionId, locationId, locationName, lineCount } on open; post adds
+   *  { adjustedCount, unchangedCount, uncountedCount, netDelta }; cancel adds
+   *  { countedLineCount }. Per-line corrections from a post are ordinary
+   *  ITEM_QTY_ADJUST events (reason "recount") carrying `countSessionId`. */
+  | "COUNT_SESSION_OPEN"
+  | "COUNT_SESSION_POST"
+  | "COUNT_SESSION_CANCEL"
+  /** An admin pulled a recalled item across all locations. Org-partition
+   *  event, itemName = the recalled item. Body shape is the full
+   *  recall-response report: { recallId, reference, executedAt, executedBy,
+   *  criteria, notes?, lines, byLocation, totalPulled, skippedCount }. Each
+   *  pulled row also gets its own ITEM_RETIRE (reason "recalled") carrying
+   *  `recallId` + `recallReference`. */
+  | "RECALL_EXECUTE"
   /** One-shot record of a schema migration applying to the org (e.g. v0 → v1
    *  when location goes structural). Body shape: { fromVersion, toVersion,
    *  itemsMovedToDefault, locationsCreated }. */
@@ -259,7 +331,27 @@ export type AuditAction =
   | "SUPPORT_ACCESS_GRANTED"
   /** Org OWNER (or expiry) closed the support-access window early. Body shape:
    *  { reason: "owner_revoked" }. */
-  | "SUPPORT_ACCESS_REVOKED";
+  | "SUPPORT_ACCESS_REVOKED"
+  /** Org OWNER issued an API key. Body shape: { keyId, name, prefix, role,
+   *  modules }. The secret itself is never logged. */
+  | "API_KEY_CREATED"
+  /** Org OWNER revoked an API key. Body shape: { keyId, name, prefix }. */
+  | "API_KEY_REVOKED"
+  /** First /v1 request made with a key on a given UTC day, written as the key.
+   *  Body shape: { keyId, name, prefix, method, path }. Mutations made with a
+   *  key are additionally audited by their own handlers, attributed to it. */
+  | "API_KEY_USED"
+  /** Org admin added a webhook subscription. Body shape: { subscriptionId,
+   *  url, events }. The signing secret is never logged. */
+  | "WEBHOOK_CREATED"
+  /** Org admin changed a subscription. Body shape: { subscriptionId, url,
+   *  changes: [{ field, from, to }] }. */
+  | "WEBHOOK_UPDATED"
+  /** Org admin deleted a subscription. Body shape: { subscriptionId, url }. */
+  | "WEBHOOK_DELETED"
+  /** Org OWNER changed how long the activity log is kept. Body shape:
+   *  { fromYears, toYears }. */
+  | "AUDIT_RETENTION_UPDATED";
 
 /** Reason codes attached to ITEM_RETIRE events. Drives loss analytics.
  *
@@ -322,6 +414,9 @@ export type PendingEntry = {
   quantityUsed: number;
   notes?: string;
   location?: string;
+  /** Item-level entry: `itemId` names any lot of the item and usage is
+   *  drawn first-expiring-first-out across its unexpired lots. */
+  fefo?: boolean;
 };
 
 export type PendingSubmission = {
@@ -355,7 +450,11 @@ export type IndustryTemplate = {
   allowedUnits?: string[];
 };
 
-export type RestockOrderStatus = "open" | "partial" | "closed";
+/** "draft" orders are proposed but not yet sent to the vendor (restock
+ *  generation creates them); placing one moves it to "open". An order that
+ *  matches an approval rule waits in "pending_approval" until an approver
+ *  approves it (→ "open") or rejects it (→ "closed"). */
+export type RestockOrderStatus = "draft" | "pending_approval" | "open" | "partial" | "closed";
 
 export type RestockOrderItem = {
   itemId: string;
@@ -387,6 +486,10 @@ export type RestockOrderItem = {
   // For freeform items: pack cost (price per box). Persisted to the new
   // inventory row on receive.
   packCost?: number;
+  /** Manufacturer barcode (digits only). Snapshotted from the item at order
+   *  time or entered for a freeform line; persisted to the new inventory row
+   *  when a freeform line is received. */
+  gtin?: string;
   // ── 1b: amount/UoM/price model (additive) ─────────────────────────────────
   // Captures what the user actually bought in human terms ("2.5 lb beef for
   // $14.99"). The server derives `pricePerCanonical` via uom.ts so the
@@ -418,6 +521,11 @@ export type RestockReceiveLine = {
   itemId: string;
   qtyThisReceive: number;
   expirationDate?: string;
+  /** Manufacturer lot code off the packaging. A lot number (or serial) the
+   *  destination doesn't hold yet opens a new lot row, like a new date. */
+  lotNumber?: string;
+  /** Serialized unit — one per receive line, so the line's qty must be 1. */
+  serialNumber?: string;
   unitCost?: number;
   addToInventory?: boolean;
 };
@@ -444,6 +552,188 @@ export type RestockOrder = {
   closedAt?: string;
   closedByUserId?: string;
   closedByName?: string;
+  /** Why the order needed sign-off — the names of the approval rules it
+   *  matched when submitted. Kept after the decision. */
+  approvalReasons?: string[];
+  /** Order total when it was submitted for approval. */
+  approvalTotal?: number;
+  approvalDecision?: "approved" | "rejected";
+  approvalDecidedAt?: string;
+  approvalDecidedByUserId?: string;
+  approvalDecidedByName?: string;
+  approvalNote?: string;
+  /** When the requester dismissed the in-app notice of the decision. */
+  approvalSeenAt?: string;
+};
+
+/** An org rule that holds matching restock orders for approval. Every
+ *  condition that's set must match: the order total is at least `minTotal`,
+ *  the vendor is `vendor` (case-insensitive), and a line lands at
+ *  `locationId` (a station covers its sublocations). Stored with the
+ *  approver roles on a meta row of the columns table (see
+ *  routes/order-approvals.ts). */
+export type OrderApprovalRule = {
+  id: string;
+  name: string;
+  minTotal?: number;
+  vendor?: string;
+  locationId?: string;
+};
+
+export type OrderApprovalSettings = {
+  rules: OrderApprovalRule[];
+  /** Roles allowed to approve or reject. Nobody decides their own order. */
+  approverRoles: string[];
+};
+
+export type CycleCountStatus = "open" | "posted" | "cancelled";
+
+/** One counter's tally for a line. A user who recounts replaces their own
+ *  entry; entries from different users sit side by side for review. */
+export type CycleCountEntry = {
+  userId: string;
+  userName: string;
+  qty: number;
+  countedAt: string;
+};
+
+/** A lot in scope when the session opened. */
+export type CycleCountLine = {
+  itemId: string;
+  itemName: string;
+  locationId: string;
+  expirationDate?: string;
+  /** Lot/serial codes so counters can tell same-dated lots apart. */
+  lotNumber?: string;
+  serialNumber?: string;
+  /** Book quantity when the session opened. Never sent to counters — the
+   *  count is blind. The variance report compares against the live quantity
+   *  and flags lines whose book moved mid-count. */
+  bookQtyAtOpen: number;
+  counts: CycleCountEntry[];
+};
+
+/** A physical count of one location subtree. Stored in countSessionsTable.
+ *  `updatedAt` doubles as the optimistic-lock token for concurrent counters. */
+export type CycleCountSession = {
+  id: string;
+  orgId: string;
+  status: CycleCountStatus;
+  /** The location picked when opening — a leaf, or a station covering its
+   *  children. */
+  locationId: string;
+  locationName: string;
+  notes?: string;
+  createdAt: string;
+  createdByUserId: string;
+  createdByName: string;
+  updatedAt: string;
+  linesJson: string;
+  closedAt?: string;
+  closedByUserId?: string;
+  closedByName?: string;
+  /** Post outcome, JSON: { adjustedCount, unchangedCount, uncountedCount,
+   *  netDelta }. */
+  resultJson?: string;
+};
+
+/** One "expiring soon" override keyed on a column value, e.g. Category =
+ *  "Narcotics" → 7 days. `value` matches case-insensitively. */
+export type ExpirationWarningRule = {
+  columnKey: string;
+  value: string;
+  warningDays: number;
+};
+
+/** Org-wide "expiring soon" configuration. Stored as a meta row on the
+ *  columns table (like allowed units). A lot's warning window resolves as:
+ *  its own value in `itemColumnKey` (a number column) → the first matching
+ *  rule → `defaultWarningDays`. */
+export type ExpirationSettings = {
+  defaultWarningDays: number;
+  /** Number column whose per-row value, when set, is that lot's window. */
+  itemColumnKey?: string;
+  rules: ExpirationWarningRule[];
+};
+
+/** A supply budget for one fiscal period. Spend counts toward it when it lands
+ *  at `locationId` (a station covers its sublocations) and the item's
+ *  `columnKey` value matches `columnValue`; either scope may be left blank.
+ *  Stored as a list on a meta row of the columns table (see routes/budgets.ts). */
+export type InventoryBudget = {
+  id: string;
+  name: string;
+  locationId?: string;
+  columnKey?: string;
+  columnValue?: string;
+  /** Inclusive "YYYY-MM-DD" bounds of the fiscal period. */
+  periodStart: string;
+  periodEnd: string;
+  amount: number;
+};
+
+/** How often a subscribed user receives the expiration / low-stock digest. */
+export type AlertDigestCadence = "daily" | "weekly";
+export const ALERT_DIGEST_CADENCES: readonly AlertDigestCadence[] = ["daily", "weekly"];
+
+/** Per-user email digest subscription. Stored as the `alertDigest` map on the
+ *  user record (alongside displayName / columnVisibility) so the scheduled
+ *  alertDigest Lambda can find every subscriber with one filtered scan of the
+ *  user table. `locationIds` empty = every location; a station id covers all
+ *  of its leaves. `lastSentAt` is stamped by the Lambda, never by the client. */
+export type AlertDigestSubscription = {
+  enabled: boolean;
+  cadence: AlertDigestCadence;
+  locationIds: string[];
+  updatedAt?: string;
+  lastSentAt?: string;
+};
+
+/** What a webhook subscription can filter on: an audit action, or the derived
+ *  STOCK_BELOW_PAR event (an item's unexpired on-hand at a location dropped
+ *  below its Par Quantity). */
+export type WebhookEventType = AuditAction | "STOCK_BELOW_PAR";
+
+/** An org's outbound webhook endpoint. Stored in webhooksTable with
+ *  kind "subscription". `secret` signs every delivery and only leaves the
+ *  server in the create response. */
+export type WebhookSubscription = {
+  id: string;
+  kind: "subscription";
+  url: string;
+  description?: string;
+  events: WebhookEventType[];
+  secret: string;
+  active: boolean;
+  createdAt: string;
+  createdByUserId: string;
+  createdByEmail: string;
+  updatedAt?: string;
+};
+
+export type WebhookDeliveryStatus = "pending" | "succeeded" | "retrying" | "failed";
+
+/** One event sent (or being sent) to one subscription. Stored in
+ *  webhooksTable with kind "delivery"; expires via `ttl`. `payloadJson` is the
+ *  exact body, so a retry or manual redelivery resends identical bytes. */
+export type WebhookDelivery = {
+  id: string;
+  kind: "delivery";
+  subscriptionId: string;
+  eventType: WebhookEventType;
+  payloadJson: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  createdAt: string;
+  lastAttemptAt: string | null;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  /** First characters of the subscriber's last response body. */
+  responseSnippet: string | null;
+  /** When the webhookRetry sweep should send it next; null once it has
+   *  succeeded or failed. */
+  nextAttemptAt: string | null;
+  ttl: number;
 };
 
 export type LambdaResponse = {
@@ -0,0 +1,270 @@
+// ── Shared: valuation.ts ────────────────────────────────────────────────────
+// What the stock on hand is worth, for GET /inventory/valuation. Pure over
+// (on-hand rows, receipts, vendor pricing) — reading them is the caller's job
+// (routes/valuation.ts).
+//
+// Costs are worked out per logical item (parentItemId), so every lot of an
+// item shares one cost per unit; quantities and value are then attributed
+// back to each lot's own location.
+
+import { getParentItemId, parseValuesJson } from "./items";
+import type { InventoryItem, InventoryItemVendorPricing, RestockOrderItem } from "./types";
+import { dimensionForUnit, toCanonicalAmount } from "./uom";
+
+export const VALUATION_METHODS = ["fifo", "average", "vendor"] as const;
+export type ValuationMethod = typeof VALUATION_METHODS[number];
+
+/** Where a row's cost per unit came from. "item" is the cost stored on the
+ *  row itself, used when the chosen method has nothing for the item. */
+export type ValuationCostSource = "receipts" | "vendor" | "item" | "none";
+
+/** One receipt of stock: a RESTOCK_RECEIVED (order) or RESTOCK_ADDED (fast
+ *  restock) event. `unitCost` is null when neither the event nor its order
+ *  line recorded a price; donations are receipts at zero cost. */
+export type ValuationReceipt = {
+  parentItemId: string;
+  receivedAt: string;
+  qty: number;
+  unitCost: number | null;
+};
+
+export type ValuedRow = {
+  itemId: string;
+  parentItemId: string;
+  itemName: string;
+  locationId: string;
+  /** Value of the grouping column ("" when blank). */
+  group: string;
+  quantity: number;
+  /** Null when nothing priced the item — the row counts toward
+   *  unvaluedQuantity instead of the total. */
+  unitCost: number | null;
+  value: number;
+  costSource: ValuationCostSource;
+};
+
+export type ValuationBucket = { key: string; quantity: number; value: number; rows: number };
+
+export type InventoryValuation = {
+  method: ValuationMethod;
+  totalValue: number;
+  totalQuantity: number;
+  /** On-hand units with no cost from any source. */
+  unvaluedQuantity: number;
+  byLocation: ValuationBucket[];
+  byGroup: ValuationBucket[];
+  rows: ValuedRow[];
+};
+
+const num = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === "") return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+};
+
+const nonNegative = (value: number | null | undefined): number | null =>
+  value !== null && value !== undefined && Number.isFinite(value) && value >= 0 ? value : null;
+
+/** Cost per unit recorded on an inventory row: its unitCost, else its pack
+ *  price over the pack size. */
+const rowUnitCost = (values: Record<string, unknown>): number | null => {
+  const unitCost = nonNegative(num(values.unitCost));
+  if (unitCost !== null && unitCost > 0) return unitCost;
+  const packCost = nonNegative(num(values.packCost));
+  const packSize = num(values.packSize);
+  if (packCost !== null && packSize !== null && packSize > 0) return packCost / packSize;
+  return null;
+};
+
+/** Per-unit price from a vendor pricing row (see perUnitCost in
+ *  routes/restock-generate.ts). */
+const vendorUnitCost = (vp: InventoryItemVendorPricing): number | null => {
+  const packUnits = vp.packCount ?? vp.packSize;
+  if (vp.packCost !== undefined && packUnits !== undefined && packUnits > 0) return nonNegative(vp.packCost / packUnits);
+  return nonNegative(vp.unitCost);
+};
+
+/**
+ * Cost per item unit paid on an order line, for receipts whose event carries
+ * no unitCost. Prefers the line's own unitCost, then its canonical price
+ * scaled to one `itemUnit` (same dimension only), then the pack price.
+ */
+export const orderLineUnitCost = (line: RestockOrderItem, itemUnit: string): number | null => {
+  const unitCost = nonNegative(line.unitCost);
+  if (unitCost !== null) return unitCost;
+  const perCanonical = nonNegative(line.pricePerCanonical);
+  const unit = itemUnit.trim() || "ct";
+  const lineDimension = line.dimension ?? (line.purchaseUnit ? dimensionForUnit(line.purchaseUnit) : null) ?? "count";
+  if (perCanonical !== null && dimensionForUnit(unit) === lineDimension) {
+    const oneUnit = toCanonicalAmount(1, unit);
+    if (oneUnit) return perCanonical * oneUnit.amount;
+  }
+  const packCost = nonNegative(line.packCost);
+  if (packCost !== null && line.packSize !== undefined && line.packSize > 0) return packCost / line.packSize;
+  return null;
+};
+
+/** FIFO: the units still on hand are the last ones received, so value them
+ *  from the newest receipt backward. Units older than every priced receipt
+ *  get `fallback`. Returns the total value, or null when nothing priced them. */
+const fifoValue = (onHand: number, receipts: ValuationReceipt[], fallback: number | null): number | null => {
+  let remaining = onHand;
+  let value = 0;
+  let priced = false;
+  const newestFirst = receipts
+    .filter((r) => r.unitCost !== null)
+    .sort((a, b) => b.receivedAt.localeCompare(a.receivedAt));
+  for (const receipt of newestFirst) {
+    if (remaining <= 0) break;
+    const take = Math.min(remaining, receipt.qty);
+    value += take * (receipt.unitCost ?? 0);
+    remaining -= take;
+    priced = true;
+  }
+  if (remaining > 0) {
+    if (fallback === null) return priced ? value : null;
+    value += remaining * fallback;
+    priced = true;
+  }
+  return priced ? value : null;
+};
+
+/** Weighted average of every priced receipt. */
+const averageUnitCost = (receipts: ValuationReceipt[]): number | null => {
+  let qty = 0;
+  let spend = 0;
+  for (const receipt of receipts) {
+    if (receipt.unitCost === null) continue;
+    qty += receipt.qty;
+    spend += receipt.qty * receipt.unitCost;
+  }
+  return qty > 0 ? spend / qty : null;
+};
+
+/** The most recently updated priced vendor row among the item's lots. */
+const latestVendorUnitCost = (pricing: InventoryItemVendorPricing[]): number | null => {
+  let latest: { at: string; cost: number } | null = null;
+  for (const vp of pricing) {
+    const cost = vendorUnitCost(vp);
+    if (cost === null) continue;
+    const at = String(vp.lastUpdatedAt ?? "");
+    if (!latest || at > latest.at) latest = { at, cost };
+  }
+  return latest?.cost ?? null;
+};
+
+const bucketsOf = (rows: ValuedRow[], keyOf: (row: ValuedRow) => string): ValuationBucket[] => {
+  const byKey = new Map<string, ValuationBucket>();
+  for (const row of rows) {
+    const key = keyOf(row);
+    const bucket = byKey.get(key) ?? { key, quantity: 0, value: 0, rows: 0 };
+    bucket.quantity += row.quantity;
+    bucket.value += row.value;
+    bucket.rows += 1;
+    byKey.set(key, bucket);
+  }
+  return [...byKey.values()].sort((a, b) => b.value - a.value || a.key.localeCompare(b.key));
+};
+
+/**
+ * Value the on-hand rows (retired and zero-quantity rows are skipped) with
+ * `method`. Receipts are the whole receive history up to the valuation date;
+ * pricing is every vendor pricing row for the org. `groupBy` names the
+ * column the byGroup totals are keyed on. Costs are always worked out across
+ * the whole inventory — FIFO depends on the item's total on hand — and
+ * `locationIds`, when given, limits which rows are reported.
+ */
+export const valueInventory = (
+  items: InventoryItem[],
+  receipts: ValuationReceipt[],
+  pricing: InventoryItemVendorPricing[],
+  method: ValuationMethod,
+  groupBy: string,
+  locationIds?: ReadonlySet<string>,
+): InventoryValuation => {
+  type Lot = { item: InventoryItem; values: Record<string, unknown>; quantity: number };
+  const lotsByParent = new Map<string, Lot[]>();
+  for (const item of items) {
+    const values = parseValuesJson(item.valuesJson);
+    if (values.retiredAt) continue;
+    const quantity = num(values.quantity) ?? 0;
+    if (quantity <= 0) continue;
+    const parentId = getParentItemId(item.id, values);
+    const lots = lotsByParent.get(parentId) ?? [];
+    lots.push({ item, values, quantity });
+    lotsByParent.set(parentId, lots);
+  }
+
+  const receiptsByParent = new Map<string, ValuationReceipt[]>();
+  for (const receipt of receipts) {
+    if (!(receipt.qty > 0)) continue;
+    const list = receiptsByParent.get(receipt.parentItemId) ?? [];
+    list.push(receipt);
+    receiptsByParent.set(receipt.parentItemId, list);
+  }
+  const pricingByItemId = new Map<string, InventoryItemVendorPricing[]>();
+  for (const vp of pricing) {
+    const list = pricingByItemId.get(vp.itemId) ?? [];
+    list.push(vp);
+    pricingByItemId.set(vp.itemId, list);
+  }
+
+  const rows: ValuedRow[] = [];
+  for (const [parentId, lots] of lotsByParent) {
+    const onHand = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+    // The row's stored cost backs up every method; the highest across lots,
+    // as the analytics do, so a stale cheap lot doesn't understate the rest.
+    const fallback = lots.reduce<number | null>((max, lot) => {
+      const cost = rowUnitCost(lot.values);
+      return cost !== null && (max === null || cost > max) ? cost : max;
+    }, null);
+    const itemReceipts = receiptsByParent.get(parentId) ?? [];
+
+    let unitCost: number | null = null;
+    let costSource: ValuationCostSource = "none";
+    if (method === "fifo") {
+      const value = fifoValue(onHand, itemReceipts, fallback);
+      if (value !== null) {
+        unitCost = value / onHand;
+        costSource = itemReceipts.some((r) => r.unitCost !== null) ? "receipts" : "item";
+      }
+    } else {
+      const cost = method === "average"
+        ? averageUnitCost(itemReceipts)
+        : latestVendorUnitCost(lots.flatMap((lot) => pricingByItemId.get(lot.item.id) ?? []));
+      if (cost !== null) {
+        unitCost = cost;
+        costSource = method === "average" ? "receipts" : "vendor";
+      } else if (fallback !== null) {
+        unitCost = fallback;
+        costSource = "item";
+      }
+    }
+
+    for (const lot of lots) {
+      if (locationIds && !locationIds.has(String(lot.item.locationId ?? ""))) continue;
+      rows.push({
+        itemId: lot.item.id,
+        parentItemId: parentId,
+        itemName: String(lot.values.itemName ?? "").trim(),
+        locationId: String(lot.item.locationId ?? ""),
+        group: String(lot.values[groupBy] ?? "").trim(),
+        quantity: lot.quantity,
+        unitCost,
+        value: unitCost === null ? 0 : lot.quantity * unitCost,
+        costSource,
+      });
+    }
+  }
+  rows.sort((a, b) => b.value - a.value || a.itemName.localeCompare(b.itemName));
+
+  return {
+    method,
+    totalValue: rows.reduce((sum, row) => sum + row.value, 0),
+    totalQuantity: rows.reduce((sum, row) => sum + row.quantity, 0),
+    unvaluedQuantity: rows.reduce((sum, row) => sum + (row.unitCost === null ? row.quantity : 0), 0),
+    byLocation: bucketsOf(rows, (row) => row.locationId),
+    byGroup: bucketsOf(rows, (row) => row.group),
+    rows,
+  };
+};
@@ -0,0 +1,558 @@
+// ── Shared: webhooks.ts ─────────────────────────────────────────────────────
+// Outbound webhooks. Every audit event written through audit.ts is offered to
+// the org's subscriptions here; matching subscriptions get an HMAC-signed POST.
+// The request that made the change only stores the deliveries as pending; the
+// webhookRetry scheduled function sends them, and resends failures on a
+// backoff schedule, so a slow subscriber never adds to API latency.
+//
+// Subscriber hosts are re-checked on every send: the name is resolved at
+// connect time and refused if any address is private, loopback or link-local,
+// so a public name later pointed inward can't reach internal endpoints.
+//
+// Besides audit actions, subscribers can ask for the derived STOCK_BELOW_PAR
+// event: fired once when an item's unexpired on-hand at a location drops
+// below its Par Quantity, re-armed when it's back at or above par.
+//
+// Everything in this module is best-effort: a webhook problem must never fail
+// (or roll back) the change that triggered it.
+
+import { createHmac, randomUUID } from "node:crypto";
+import { lookup, type LookupAddress } from "node:dns";
+import { request } from "node:https";
+import { BlockList, isIP, type LookupFunction } from "node:net";
+import { BatchGetCommand, DeleteCommand, GetCommand, PutCommand, ScanCommand, UpdateCommand } from "@aws-sdk/lib-dynamodb";
+import { ddb } from "./clients";
+import { listItemsInLocations, parseValuesJson } from "./items";
+import { getDaysUntilExpiration } from "./csv";
+import { storageTablesForOrganization } from "./storage";
+import type { AuditAction, InventoryStorage, WebhookDelivery, WebhookEventType, WebhookSubscription } from "./types";
+
+/** Event types a subscription may filter on. A curated subset of AuditAction
+ *  (config and housekeeping events stay internal) plus the derived par event. */
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = [
+  "ITEM_CREATE",
+  "ITEM_EDIT",
+  "ITEM_DELETE",
+  "ITEM_MOVE",
+  "ITEM_TRANSFER",
+  "ITEM_RETIRE",
+  "ITEM_UNRETIRE",
+  "ITEM_QTY_ADJUST",
+  "USAGE_APPROVE",
+  "USAGE_UNDO",
+  "RESTOCK_ORDER_CREATE",
+  "RESTOCK_ORDER_PLACED",
+  "RESTOCK_RECEIVED",
+  "RESTOCK_ORDER_CLOSED",
+  "RESTOCK_ORDER_APPROVED",
+  "RESTOCK_ORDER_REJECTED",
+  "RESTOCK_ADDED",
+  "COUNT_SESSION_POST",
+  "RECALL_EXECUTE",
+  "LOCATION_CREATE",
+  "LOCATION_RENAME",
+  "LOCATION_DELETE",
+  "STOCK_BELOW_PAR",
+];
+
+/** Header carrying `t=<unix seconds>,v1=<hex HMAC-SHA256(secret, "<t>.<body>")>`. */
+export const WEBHOOK_SIGNATURE_HEADER = "X-WickOps-Signature";
+const DELIVERY_TIMEOUT_MS = 5000;
+/** How long a sweep holds a delivery while sending it. Another sweep that
+ *  overlaps skips it until then; if the sender dies, the next one picks it up. */
+const DELIVERY_CLAIM_MS = 2 * 60 * 1000;
+/** Minutes to wait before retry N (after attempt N failed). Attempts past the
+ *  end of the list mark the delivery failed; redeliver manually from there. */
+const RETRY_BACKOFF_MINUTES = [1, 5, 30, 120, 720];
+const MAX_ATTEMPTS = RETRY_BACKOFF_MINUTES.length + 1;
+const DELIVERY_TTL_DAYS = 30;
+/** Response bodies are kept for debugging, trimmed to this many characters. */
+const RESPONSE_SNIPPET_LENGTH = 500;
+const SUBSCRIPTION_CACHE_TTL_MS = 60 * 1000;
+
+/** Actions that can move on-hand stock, and so can cross a par threshold. */
+const STOCK_ACTIONS = new Set<AuditAction>([
+  "ITEM_CREATE",
+  "ITEM_EDIT",
+  "ITEM_DELETE",
+  "ITEM_MOVE",
+  "ITEM_TRANSFER",
+  "ITEM_RETIRE",
+  "ITEM_UNRETIRE",
+  "ITEM_QTY_ADJUST",
+  "USAGE_APPROVE",
+  "USAGE_UNDO",
+  "RESTOCK_RECEIVED",
+  "RESTOCK_ADDED",
+]);
+
+const subscriptionCache = new Map<string, { subscriptions: WebhookSubscription[]; checkedAt: number }>();
+
+/** Drop the cached subscription list so the next dispatch re-reads it. */
+export const invalidateWebhookSubscriptions = (organizationId: string): void => {
+  subscriptionCache.delete(organizationId);
+};
+
+const isMissingTable = (err: unknown): boolean =>
+  (err as { name?: string })?.name === "ResourceNotFoundException";
+
+/** Scan every row of one kind from an org's webhooks table. */
+export const scanWebhookRows = async <T>(
+  tableName: string,
+  kind: "subscription" | "delivery",
+  extraFilter?: { expression: string; names?: Record<string, string>; values: Record<string, unknown> },
+): Promise<T[]> => {
+  const out: T[] = [];
+  let lastKey: Record<string, unknown> | undefined;
+  do {
+    const res = await ddb.send(
+      new ScanCommand({
+        TableName: tableName,
+        FilterExpression: extraFilter ? `kind = :kind AND ${extraFilter.expression}` : "kind = :kind",
+        ...(extraFilter?.names ? { ExpressionAttributeNames: extraFilter.names } : {}),
+        ExpressionAttributeValues: { ":kind": kind, ...(extraFilter?.values ?? {}) },
+        ExclusiveStartKey: lastKey,
+      }),
+    );
+    out.push(...((res.Items ?? []) as T[]));
+    lastKey = res.LastEvaluatedKey as Record<string, unknown> | undefined;
+  } while (lastKey);
+  return out;
+};
+
+const listActiveSubscriptions = async (organizationId: string): Promise<WebhookSubscription[]> => {
+  const cached = subscriptionCache.get(organizationId);
+  if (cached && Date.now() - cached.checkedAt < SUBSCRIPTION_CACHE_TTL_MS) return cached.subscriptions;
+  let subscriptions: WebhookSubscription[] = [];
+  try {
+    const rows = await scanWebhookRows<WebhookSubscription>(
+      storageTablesForOrganization(organizationId).webhooksTable,
+      "subscription",
+    );
+    subscriptions = rows.filter((s) => s.active);
+  } catch (err) {
+    if (!isMissingTable(err)) throw err;
+  }
+  subscriptionCache.set(organizationId, { subscriptions, checkedAt: Date.now() });
+  return subscriptions;
+};
+
+/** Stripe-style signature: binds the timestamp into the MAC so a captured
+ *  request can't be replayed later with a fresh timestamp. */
+export const signWebhookPayload = (secret: string, timestamp: number, body: string): string => {
+  const mac = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${mac}`;
+};
+
+// ── Sending ─────────────────────────────────────────────────────────────────
+
+/** Addresses a delivery must never reach: the IANA special-purpose ranges
+ *  (unspecified, loopback, private, carrier-grade NAT, link-local — the
+ *  instance metadata endpoint — benchmarking, documentation, multicast and
+ *  reserved), plus the IPv6 prefixes that embed an IPv4 address and so can
+ *  wrap any of them. BlockList checks IPv4-mapped IPv6 (::ffff:a.b.c.d)
+ *  against the IPv4 rules. */
+const BLOCKED_SUBNETS: Record<"ipv4" | "ipv6", string[]> = {
+  ipv4: [
+    "0.0.0.0/8", "10.0.0.0/8", "100.64.0.0/10", "127.0.0.0/8", "169.254.0.0/16", "172.16.0.0/12",
+    "192.0.0.0/24", "192.0.2.0/24", "192.88.99.0/24", "192.168.0.0/16", "198.18.0.0/15",
+    "198.51.100.0/24", "203.0.113.0/24", "224.0.0.0/4", "240.0.0.0/4",
+  ],
+  ipv6: [
+    "::/96", "64:ff9b::/96", "64:ff9b:1::/48", "100::/64", "2001::/23", "2001:db8::/32", "2002::/16",
+    "fc00::/7", "fe80::/10", "fec0::/10", "ff00::/8",
+  ],
+};
+
+const blockedAddresses = new BlockList();
+for (const type of ["ipv4", "ipv6"] as const) {
+  for (const subnet of BLOCKED_SUBNETS[type]) {
+    const [network, prefix] = subnet.split("/");
+    blockedAddresses.addSubnet(network, Number(prefix), type);
+  }
+}
+
+const isPrivateAddress = (address: string): boolean => {
+  const a = address.replace(/^\[|\]$/g, "").replace(/%.*$/, "").toLowerCase();
+  const version = isIP(a);
+  if (version === 0) return false;
+  return blockedAddresses.check(a, version === 4 ? "ipv4" : "ipv6");
+};
+
+/** Save-time hint for subscriber URLs: catches literal private addresses and
+ *  internal-looking names. Names that only resolve privately are caught when
+ *  a delivery connects (see guardedLookup). */
+export const isPrivateHost = (host: string): boolean => {
+  const h = host.replace(/^\[|\]$/g, "").toLowerCase();
+  if (h === "localhost" || h.endsWith(".localhost") || h.endsWith(".internal") || h.endsWith(".local")) return true;
+  return isPrivateAddress(h);
+};
+
+/** DNS lookup for outbound deliveries that fails when any resolved address is
+ *  private. Runs as the socket's own lookup, so the checked address is the one
+ *  connected to — a rebinding answer between check and connect can't slip by. */
+const guardedLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (err, addresses: LookupAddress[]) => {
+    if (err) return callback(err, "", 0);
+    const blocked = addresses.find((entry) => isPrivateAddress(entry.address));
+    if (blocked || addresses.length === 0) {
+      return callback(new Error(`${hostname} resolves to a non-public address`), "", 0);
+    }
+    if (options.all) return callback(null, addresses);
+    return callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+type PostResult = { statusCode: number; text: string };
+
+/** POST `body` to `url` through guardedLookup. Redirects aren't followed;
+ *  the whole exchange is capped at DELIVERY_TIMEOUT_MS. */
+const postDelivery = (url: string, headers: Record<string, string>, body: string): Promise<PostResult> =>
+  new Promise((resolve, reject) => {
+    const req = request(url, {
+      method: "POST",
+      headers: { ...headers, "Content-Length": String(Buffer.byteLength(body)) },
+      lookup: guardedLookup,
+    }, (res) => {
+      let text = "";
+      res.setEncoding("utf8");
+      res.on("data", (chunk: string) => {
+        if (text.length < RESPONSE_SNIPPET_LENGTH) text += chunk;
+      });
+      res.on("end", () => {
+        clearTimeout(timer);
+        resolve({ statusCode: res.statusCode ?? 0, text });
+      });
+      res.on("error", reject);
+    });
+    const timer = setTimeout(() => {
+      req.destroy(new Error(`Timed out after ${DELIVERY_TIMEOUT_MS / 1000}s`));
+    }, DELIVERY_TIMEOUT_MS);
+    req.on("error", (err) => {
+      clearTimeout(timer);
+      reject(err);
+    });
+    req.end(body);
+  });
+
+type AttemptResult = { ok: boolean; statusCode: number | null; error: string | null; responseSnippet: string | null };
+
+const attemptDelivery = async (
+  subscription: WebhookSubscription,
+  delivery: WebhookDelivery,
+): Promise<AttemptResult> => {
+  const timestamp = Math.floor(Date.now() / 1000);
+  try {
+    // IP literals never reach the lookup, so check the host itself too.
+    const url = new URL(subscription.url);
+    if (url.protocol !== "https:" || isPrivateHost(url.hostname)) {
+      return { ok: false, statusCode: null, error: "Webhook URL is not a public https host", responseSnippet: null };
+    }
+    const res = await postDelivery(subscription.url, {
+      "Content-Type": "application/json",
+      "User-Agent": "WickOps-Webhooks/1",
+      "X-WickOps-Event": delivery.eventType,
+      "X-WickOps-Delivery": delivery.id,
+      [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(subscription.secret, timestamp, delivery.payloadJson),
+    }, delivery.payloadJson);
+    const ok = res.statusCode >= 200 && res.statusCode < 300;
+    return {
+      ok,
+      statusCode: res.statusCode,
+      error: ok ? null : `HTTP ${res.statusCode}`,
+      responseSnippet: res.text.slice(0, RESPONSE_SNIPPET_LENGTH) || null,
+    };
+  } catch (err) {
+    return { ok: false, statusCode: null, error: String((err as Error)?.message ?? err), responseSnippet: null };
+  }
+};
+
+/** Run one attempt and persist the outcome on the delivery row. `manual`
+ *  attempts (redeliver from Settings) never schedule automatic retries. */
+export const runDeliveryAttempt = async (
+  webhooksTable: string,
+  subscription: WebhookSubscription,
+  delivery: WebhookDelivery,
+  options: { manual?: boolean } = {},
+): Promise<WebhookDelivery> => {
+  const result = await attemptDelivery(subscription, delivery);
+  const now = new Date();
+  const attempts = Number(delivery.attempts ?? 0) + 1;
+  let status: WebhookDelivery["status"];
+  let nextAttemptAt: string | null = null;
+  if (result.ok) {
+    status = "succeeded";
+  } else if (!options.manual && attempts < MAX_ATTEMPTS) {
+    status = "retrying";
+    nextAttemptAt = new Date(now.getTime() + RETRY_BACKOFF_MINUTES[attempts - 1] * 60 * 1000).toISOString();
+  } else {
+    status = "failed";
+  }
+  const updated: WebhookDelivery = {
+    ...delivery,
+    status,
+    attempts,
+    lastAttemptAt: now.toISOString(),
+    lastStatusCode: result.statusCode,
+    lastError: result.error,
+    responseSnippet: result.responseSnippet,
+    nextAttemptAt,
+  };
+  await ddb.send(new PutCommand({ TableName: webhooksTable, Item: updated }));
+  return updated;
+};
+
+const buildDelivery = (
+  organizationId: string,
+  subscription: WebhookSubscription,
+  eventType: WebhookEventType,
+  data: Record<string, unknown>,
+  occurredAt: string,
+): WebhookDelivery => {
+  const id = randomUUID();
+  const createdAt = new Date().toISOString();
+  return {
+    id,
+    kind: "delivery",
+    subscriptionId: subscription.id,
+    eventType,
+    payloadJson: JSON.stringify({ id, type: eventType, occurredAt, organizationId, data }),
+    status: "pending",
+    attempts: 0,
+    createdAt,
+    lastAttemptAt: null,
+    lastStatusCode: null,
+    lastError: null,
+    responseSnippet: null,
+    // Due straight away: the next sweep sends it.
+    nextAttemptAt: createdAt,
+    ttl: Math.floor(Date.now() / 1000) + DELIVERY_TTL_DAYS * 86400,
+  };
+};
+
+/** Public payload for an audit event: the stored row minus storage keys, with
+ *  details parsed. */
+const auditEventData = (event: Record<string, unknown>): Record<string, unknown> => {
+  let details: Record<string, unknown> = {};
+  try { details = JSON.parse(String(event.detailsJson ?? "{}")); } catch { details = {}; }
+  return {
+    eventId: event.eventId,
+    action: event.action,
+    itemId: event.itemId ?? null,
+    itemName: event.itemName ?? null,
+    actor: { userId: event.userId, name: event.userName },
+    details,
+  };
+};
+
+// ── Below-par detection ─────────────────────────────────────────────────────
+
+type ParGroup = { itemName: string; locationId: string; onHand: number; parQuantity: number; minQuantity: number };
+
+const parStateId = (locationId: string, itemName: string) =>
+  `par#${locationId}#${itemName.trim().toLowerCase()}`;
+
+/** Rows whose (location, item) groups a batch of events touched. Transfers
+ *  touch both ends. */
+const stockTouchedItemIds = (events: Record<string, unknown>[]): Set<string> => {
+  const ids = new Set<string>();
+  for (const event of events) {
+    if (!STOCK_ACTIONS.has(event.action as AuditAction)) continue;
+    if (event.itemId) ids.add(String(event.itemId));
+    if (event.action === "ITEM_TRANSFER") {
+      try {
+        const details = JSON.parse(String(event.detailsJson ?? "{}"));
+        if (details?.toItemId) ids.add(String(details.toItemId));
+      } catch { /* ignore */ }
+    }
+  }
+  return ids;
+};
+
+/** For each touched group with a par set, flip the below-par marker and return
+ *  the groups that just crossed below. Reads only the touched rows and the
+ *  locations they sit in. The conditional put makes the crossing fire once
+ *  even when two requests race. */
+const detectParCrossings = async (
+  storage: InventoryStorage,
+  organizationId: string,
+  touchedIds: Set<string>,
+): Promise<ParGroup[]> => {
+  const touchedKeys = new Set<string>();
+  const locationIds = new Set<string>();
+  const ids = Array.from(touchedIds);
+  for (let i = 0; i < ids.length; i += 100) {
+    const res = await ddb.send(new BatchGetCommand({
+      RequestItems: {
+        [storage.itemTable]: {
+          Keys: ids.slice(i, i + 100).map((id) => ({ id })),
+          ProjectionExpression: "id, valuesJson, locationId",
+        },
+      },
+    }));
+    for (const row of res.Responses?.[storage.itemTable] ?? []) {
+      const name = String(parseValuesJson(row.valuesJson as string).itemName ?? "").trim();
+      const locationId = String(row.locationId ?? "");
+      if (!name || !locationId) continue;
+      touchedKeys.add(parStateId(locationId, name));
+      locationIds.add(locationId);
+    }
+  }
+  if (touchedKeys.size === 0) return [];
+
+  const items = await listItemsInLocations(storage, organizationId, Array.from(locationIds));
+  const groups = new Map<string, ParGroup>();
+  for (const row of items) {
+    const values = parseValuesJson(row.valuesJson);
+    const itemName = String(values.itemName ?? "").trim();
+    if (!itemName || !row.locationId || values.retiredAt) continue;
+    const key = parStateId(row.locationId, itemName);
+    if (!touchedKeys.has(key)) continue;
+    const group = groups.get(key) ?? { itemName, locationId: row.locationId, onHand: 0, parQuantity: 0, minQuantity: 0 };
+    const days = getDaysUntilExpiration(String(values.expirationDate ?? ""));
+    const qty = Number(values.quantity ?? 0);
+    if ((days === null || days > 0) && Number.isFinite(qty)) group.onHand += qty;
+    group.parQuantity = Math.max(group.parQuantity, Number(values.parQuantity ?? 0) || 0);
+    group.minQuantity = Math.max(group.minQuantity, Number(values.minQuantity ?? 0) || 0);
+    groups.set(key, group);
+  }
+
+  const crossed: ParGroup[] = [];
+  for (const key of touchedKeys) {
+    const group = groups.get(key);
+    const below = !!group && group.parQuantity > 0 && group.onHand < group.parQuantity;
+    if (!below) {
+      // Back at par (or par cleared / group gone): re-arm.
+      await ddb.send(new DeleteCommand({ TableName: storage.webhooksTable, Key: { id: key } }));
+      continue;
+    }
+    try {
+      await ddb.send(new PutCommand({
+        TableName: storage.webhooksTable,
+        Item: { id: key, kind: "par-state", belowSince: new Date().toISOString() },
+        ConditionExpression: "attribute_not_exists(id)",
+      }));
+      crossed.push(group);
+    } catch (err) {
+      if ((err as { name?: string })?.name !== "ConditionalCheckFailedException") throw err;
+    }
+  }
+  return crossed;
+};
+
+// ── Dispatch ────────────────────────────────────────────────────────────────
+
+/** Offer freshly written audit events to the org's subscriptions: queue a
+ *  pending delivery per match for the webhookRetry sweep to send. Called by
+ *  audit.ts after every write; never throws. */
+export const dispatchWebhooksForAuditEvents = async (events: Record<string, unknown>[]): Promise<void> => {
+  const byOrg = new Map<string, Record<string, unknown>[]>();
+  for (const event of events) {
+    const orgId = String(event.orgId ?? "");
+    if (!orgId) continue;
+    byOrg.set(orgId, [...(byOrg.get(orgId) ?? []), event]);
+  }
+  for (const [organizationId, orgEvents] of byOrg) {
+    try {
+      await dispatchForOrganization(organizationId, orgEvents);
+    } catch (err) {
+      console.error("webhook dispatch failed", { organizationId, err });
+    }
+  }
+};
+
+const dispatchForOrganization = async (organizationId: string, events: Record<string, unknown>[]) => {
+  const subscriptions = await listActiveSubscriptions(organizationId);
+  if (subscriptions.length === 0) return;
+  const storage = storageTablesForOrganization(organizationId);
+
+  const deliveries: WebhookDelivery[] = [];
+  for (const event of events) {
+    const action = String(event.action ?? "") as WebhookEventType;
+    for (const subscription of subscriptions) {
+      if (!subscription.events.includes(action)) continue;
+      deliveries.push(
+        buildDelivery(organizationId, subscription, action, auditEventData(event), String(event.timestamp ?? new Date().toISOString())),
+      );
+    }
+  }
+
+  const parSubscribers = subscriptions.filter((s) => s.events.includes("STOCK_BELOW_PAR"));
+  if (parSubscribers.length > 0) {
+    const touched = stockTouchedItemIds(events);
+    if (touched.size > 0) {
+      const crossed = await detectParCrossings(storage, organizationId, touched);
+      const occurredAt = new Date().toISOString();
+      for (const group of crossed) {
+        for (const subscription of parSubscribers) {
+          deliveries.push(buildDelivery(organizationId, subscription, "STOCK_BELOW_PAR", { ...group }, occurredAt));
+        }
+      }
+    }
+  }
+
+  await Promise.all(deliveries.map((delivery) =>
+    ddb.send(new PutCommand({ TableName: storage.webhooksTable, Item: delivery })).catch((err) => {
+      console.error("webhook delivery not queued", { deliveryId: delivery.id, err });
+    }),
+  ));
+};
+
+/** Take a due delivery for this sweep by pushing its nextAttemptAt out by
+ *  DELIVERY_CLAIM_MS. False when an overlapping sweep claimed it first. */
+const claimDelivery = async (webhooksTable: string, delivery: WebhookDelivery, now: Date): Promise<boolean> => {
+  try {
+    await ddb.send(new UpdateCommand({
+      TableName: webhooksTable,
+      Key: { id: delivery.id },
+      UpdateExpression: "SET nextAttemptAt = :lease",
+      ConditionExpression: "nextAttemptAt = :seen",
+      ExpressionAttributeValues: {
+        ":lease": new Date(now.getTime() + DELIVERY_CLAIM_MS).toISOString(),
+        ":seen": delivery.nextAttemptAt,
+      },
+    }));
+    return true;
+  } catch (err) {
+    if ((err as { name?: string })?.name === "ConditionalCheckFailedException") return false;
+    throw err;
+  }
+};
+
+/** Send every delivery in an org that's due: new ones queued by dispatch and
+ *  failed ones whose backoff has elapsed. Used by the webhookRetry scheduled
+ *  function; returns how many were attempted. */
+export const retryDueWebhookDeliveries = async (organizationId: string, now: Date = new Date()): Promise<number> => {
+  const { webhooksTable } = storageTablesForOrganization(organizationId);
+  let due: WebhookDelivery[];
+  try {
+    due = await scanWebhookRows<WebhookDelivery>(webhooksTable, "delivery", {
+      expression: "#s IN (:pending, :retrying) AND nextAttemptAt <= :now",
+      names: { "#s": "status" },
+      values: { ":pending": "pending", ":retrying": "retrying", ":now": now.toISOString() },
+    });
+  } catch (err) {
+    if (isMissingTable(err)) return 0;
+    throw err;
+  }
+  due.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  let attempted = 0;
+  for (const delivery of due) {
+    if (!(await claimDelivery(webhooksTable, delivery, now))) continue;
+    const res = await ddb.send(new GetCommand({ TableName: webhooksTable, Key: { id: delivery.subscriptionId } }));
+    const subscription = res.Item as WebhookSubscription | undefined;
+    if (!subscription || !subscription.active) {
+      await ddb.send(new UpdateCommand({
+        TableName: webhooksTable,
+        Key: { id: delivery.id },
+        UpdateExpression: "SET #s = :failed, lastError = :err, nextAttemptAt = :null",
+        ExpressionAttributeNames: { "#s": "status" },
+        ExpressionAttributeValues: { ":failed": "failed", ":err": "Subscription disabled or deleted", ":null": null },
+      }));
+      continue;
+    }
+    await runDeliveryAttempt(webhooksTable, subscription, delivery);
+    attempted += 1;
+  }
+  return attempted;
+};
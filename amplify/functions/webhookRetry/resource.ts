@@ -0,0 +1,12 @@
+import { defineFunction } from "@aws-amplify/backend";
+
+export const webhookRetry = defineFunction({
+  name: "webhookRetry",
+  entry: "./src/handler.ts",
+  resourceGroupName: "data",
+  // Sends every new delivery as well as retries, so run each minute to keep
+  // subscribers close to real time. Overlapping runs skip claimed deliveries.
+  schedule: "every 1m",
+  runtime: 22,
+  timeoutSeconds: 300,
+});
@@ -0,0 +1,50 @@
+// ── webhookRetry: handler.ts ────────────────────────────────────────────────
+// Scheduled sweep for outbound webhook deliveries. For every org, send the
+// deliveries queued since the last run and resend those whose backoff has
+// elapsed (see retryDueWebhookDeliveries in inventoryApi/src/webhooks.ts).
+// Orgs without a webhooks table yet are skipped inside that call.
+
+import { ScanCommand } from "@aws-sdk/lib-dynamodb";
+import { ddb } from "../../inventoryApi/src/clients";
+import { ORG_TABLE } from "../../inventoryApi/src/config";
+import { retryDueWebhookDeliveries } from "../../inventoryApi/src/webhooks";
+
+const listOrganizationIds = async (): Promise<string[]> => {
+  const out: string[] = [];
+  let lastEvaluatedKey: Record<string, unknown> | undefined;
+  do {
+    const page = await ddb.send(
+      new ScanCommand({
+        TableName: ORG_TABLE,
+        ProjectionExpression: "id",
+        ExclusiveStartKey: lastEvaluatedKey,
+      }),
+    );
+    for (const row of page.Items ?? []) {
+      const id = String(row.id ?? "").trim();
+      if (id) out.push(id);
+    }
+    lastEvaluatedKey = page.LastEvaluatedKey as Record<string, unknown> | undefined;
+  } while (lastEvaluatedKey);
+  return out;
+};
+
+export const runWebhookRetries = async ({ now = new Date() }: { now?: Date } = {}) => {
+  const result = { organizations: 0, attempted: 0, failedOrganizations: 0 };
+  for (const organizationId of await listOrganizationIds()) {
+    result.organizations += 1;
+    try {
+      result.attempted += await retryDueWebhookDeliveries(organizationId, now);
+    } catch (err) {
+      result.failedOrganizations += 1;
+      console.error("[webhookRetry] org sweep failed", { organizationId, err });
+    }
+  }
+  return result;
+};
+
+export const handler = async () => {
+  const result = await runWebhookRetries();
+  console.info("[webhookRetry] run complete", result);
+  return result;
+};
@@ -0,0 +1,64 @@
+// One-shot test runner for the Lambda functions' pure modules.
+// Why this exists: Node 20 can't strip TypeScript natively (that's 22+), and
+// we don't want a heavy test framework. So this script uses esbuild (already
+// a dev-dep) to bundle each test file + its imports into a temp .mjs file,
+// then invokes Node's built-in `--test` runner on the lot.
+//
+// Usage: node scripts/run-tests.mjs [name-filter…]
+//   e.g. `node scripts/run-tests.mjs migration` runs migration.test.ts only.
+
+import { build } from "esbuild";
+import { spawn } from "node:child_process";
+import { mkdtempSync, readdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import process from "node:process";
+import { basename, join } from "node:path";
+
+const TEST_DIR = "amplify/functions/inventoryApi/src/__tests__";
+const filters = process.argv.slice(2);
+const entries = readdirSync(TEST_DIR)
+  .filter((name) => name.endsWith(".test.ts"))
+  .filter((name) => filters.length === 0 || filters.some((f) => name.includes(f)))
+  .sort()
+  .map((name) => join(TEST_DIR, name));
+if (entries.length === 0) {
+  console.error(`No test files match ${filters.join(", ")}`);
+  process.exit(1);
+}
+
+const tmp = mkdtempSync(join(tmpdir(), "wickops-test-"));
+
+try {
+  const outputs = [];
+  for (const entry of entries) {
+    const out = join(tmp, basename(entry).replace(/\.ts$/, ".mjs"));
+    await build({
+      entryPoints: [entry],
+      bundle: true,
+      platform: "node",
+      format: "esm",
+      target: "node20",
+      outfile: out,
+      // Bundle the AWS SDK in too — even though the modules under test are
+      // pure, their module-level imports still need to resolve. The bundles
+      // are transient test artifacts, not deploy artifacts. The SDK's CommonJS
+      // internals require() Node builtins, which an ESM bundle can only do
+      // through a createRequire shim.
+      banner: {
+        js: 'import { createRequire } from "node:module"; const require = createRequire(import.meta.url);',
+      },
+    });
+    outputs.push(out);
+  }
+
+  const node = spawn("node", ["--test", ...outputs], { stdio: "inherit" });
+  await new Promise((resolve, reject) => {
+    node.on("exit", (code) => {
+      if (code === 0) resolve(undefined);
+      else reject(new Error(`tests exited with code ${code}`));
+    });
+    node.on("error", reject);
+  });
+} finally {
+  rmSync(tmp, { recursive: true, force: true });
+}
@@ -18,7 +18,15 @@ import { ActivityHelp } from "./components/ActivityHelp";
 import { ToastProvider } from "./components/shared/Toast";
 import { LoadingState } from "./components/shared/LoadingState";
 import { SupportConsoleBar } from "./components/SupportConsoleBar";
+import { SyncStatusBar } from "./components/SyncStatusBar";
 import { authFetch, setSupportOrgOverride, getSupportOrgOverride } from "./lib/authFetch";
+import {
+  clearOfflineCache,
+  isOfflineFailure,
+  readOfflineCache,
+  startOfflineSync,
+  writeOfflineCache,
+} from "./lib/offlineQueue";
 import { fetchAuthSession } from "aws-amplify/auth";
 import {
   applyThemePreference,
@@ -37,7 +45,10 @@ const VIEW_STORAGE_KEY = "wickops.activeView";
 
 const SUBSCRIPTION_RETRY_MS = 2000;
 const MAX_SUBSCRIPTION_RETRIES = 6;
+/** Offline-cache key for the last /user-subscription answer (offlineQueue.ts). */
+const SUBSCRIPTION_CACHE_KEY = "subscription";
 import { pickLoadingLine } from "./lib/loadingLines";
+import { takeScanTargetFromLocation, type ScanTarget } from "./lib/scanLinks";
 
 type SubscriptionState = "loading" | "unsubscribed" | "subscribed";
 type AppView = "dashboard" | "inventory" | "usage" | "orders" | "activity" | "invite" | "settings";
@@ -66,6 +77,7 @@ function AppInner() {
   const signOut = () => {
     try { localStorage.removeItem("wickops.selectedLocationId"); } catch { /* noop */ }
     try { localStorage.removeItem("wickops.selectedLocation"); } catch { /* noop */ }
+    void clearOfflineCache();
     rawSignOut();
   };
   const [currentUserEmail, setCurrentUserEmail] = useState("");
@@ -77,6 +89,7 @@ function AppInner() {
   const [inventoryInitialSearch, setInventoryInitialSearch] = useState<string | undefined>(undefined);
   const [inventoryInitialEditCell, setInventoryInitialEditCell] = useState<{ rowId: string; columnKey: string } | undefined>(undefined);
   const [inventoryInitialAction, setInventoryInitialAction] = useState<import("./components/inventory/inventoryTypes").InventoryInitialAction | undefined>(undefined);
+  const [inventoryInitialScan, setInventoryInitialScan] = useState<ScanTarget | undefined>(undefined);
   // OrdersPage focus target. When set, OrdersPage finds the matching order,
   // expands it on mount, and scrolls it into view. Cleared on tab change so
   // the focus only fires once per navigation.
@@ -95,6 +108,7 @@ function AppInner() {
       setInventoryInitialSearch(undefined);
       setInventoryInitialEditCell(undefined);
       setInventoryInitialAction(undefined);
+      setInventoryInitialScan(undefined);
     }
     if (v !== "orders") setOrdersInitialFocusOrderId(undefined);
     if (v === "dashboard") setDashboardKey((k) => k + 1);
@@ -276,6 +290,36 @@ function AppInner() {
       window.location.pathname === "/success" ||
       new URLSearchParams(window.location.search).get("checkout") === "success";
 
+    const applySubscription = (data: ReturnType<typeof JSON.parse>) => {
+      const status =
+        data.subscribed && !data.accessSuspended
+          ? "subscribed"
+          : "unsubscribed";
+
+      setSubState({
+        status,
+        displayName: String(data.displayName ?? ""),
+        organizationId: String(data.organizationId ?? ""),
+        orgName: String(data.orgName ?? ""),
+        seatLimit: data.seatLimit ?? 1,
+        seatsUsed: data.seatsUsed ?? 0,
+        accessSuspended: !!data.accessSuspended,
+        canInviteUsers: !!data.canInviteUsers,
+        role: String(data.role ?? "").toUpperCase(),
+        allowedModules: normalizeModuleKeys(data.allowedModules),
+        orgAvailableModules: normalizeModuleKeys(data.orgAvailableModules),
+        orgEnabledModules: normalizeModuleKeys(data.orgEnabledModules),
+        onboardingCompleted: data.onboardingCompleted !== false,
+        cancelAtPeriodEnd: !!data.cancelAtPeriodEnd,
+        currentPeriodEnd: typeof data.currentPeriodEnd === "number" ? data.currentPeriodEnd : null,
+        loadError: false,
+        platformSupport: !!data.platformSupport,
+        supportOperator: !!data.supportOperator,
+        supportError: typeof data.supportError === "string" ? data.supportError : undefined,
+      });
+      return status;
+    };
+
     const checkSubscription = async () => {
       if (cancelled) return;
       try {
@@ -293,38 +337,23 @@ function AppInner() {
 
         const data = await res.json();
         consecutiveFailures = 0;
-
-        const status =
-          data.subscribed && !data.accessSuspended
-            ? "subscribed"
-            : "unsubscribed";
-
-        setSubState({
-          status,
-          displayName: String(data.displayName ?? ""),
-          organizationId: String(data.organizationId ?? ""),
-          orgName: String(data.orgName ?? ""),
-          seatLimit: data.seatLimit ?? 1,
-          seatsUsed: data.seatsUsed ?? 0,
-          accessSuspended: !!data.accessSuspended,
-          canInviteUsers: !!data.canInviteUsers,
-          role: String(data.role ?? "").toUpperCase(),
-          allowedModules: normalizeModuleKeys(data.allowedModules),
-          orgAvailableModules: normalizeModuleKeys(data.orgAvailableModules),
-          orgEnabledModules: normalizeModuleKeys(data.orgEnabledModules),
-          onboardingCompleted: data.onboardingCompleted !== false,
-          cancelAtPeriodEnd: !!data.cancelAtPeriodEnd,
-          currentPeriodEnd: typeof data.currentPeriodEnd === "number" ? data.currentPeriodEnd : null,
-          loadError: false,
-          platformSupport: !!data.platformSupport,
-          supportOperator: !!data.supportOperator,
-          supportError: typeof data.supportError === "string" ? data.supportError : undefined,
-        });
+        void writeOfflineCache(SUBSCRIPTION_CACHE_KEY, data);
+        const status = applySubscription(data);
 
         if (status === "subscribed" && pollInterval) {
           clearInterval(pollInterval);
         }
       } catch (err) {
+        // Offline start: open with the last subscription this device saw so
+        // cached inventory and the offline queue stay reachable.
+        if (isOfflineFailure(err)) {
+          const cached = await readOfflineCache<ReturnType<typeof JSON.parse>>(SUBSCRIPTION_CACHE_KEY);
+          if (cancelled) return;
+          if (cached) {
+            applySubscription(cached.value);
+            return;
+          }
+        }
         console.error("Subscription check error:", err);
         consecutiveFailures += 1;
         if (checkoutSuccess || consecutiveFailures < MAX_SUBSCRIPTION_RETRIES) {
@@ -384,6 +413,14 @@ function AppInner() {
       replaceView("dashboard");
       return;
     }
+    // Opened from a printed label's QR code — land on the scanned item or
+    // location instead of the last-used view.
+    const scanTarget = takeScanTargetFromLocation();
+    if (scanTarget) {
+      setInventoryInitialScan(scanTarget);
+      replaceView("inventory");
+      return;
+    }
     try {
       const saved = window.localStorage.getItem(scopedViewStorageKey);
       replaceView(isAppView(saved) ? saved : "dashboard");
@@ -469,6 +506,13 @@ function AppInner() {
     };
   }, []);
 
+  // Replay field changes queued while offline. Starts once the account is
+  // known so queued requests go out under the right user.
+  useEffect(() => {
+    if (authStatus !== "authenticated" || subState.status !== "subscribed") return;
+    return startOfflineSync();
+  }, [authStatus, subState.status]);
+
   useEffect(() => {
     if (!(authStatus === "configuring" || (subState.status === "loading" && !subState.loadError))) {
       return;
@@ -623,6 +667,7 @@ function AppInner() {
         initialSearch={inventoryInitialSearch}
         initialEditCell={inventoryInitialEditCell}
         initialAction={inventoryInitialAction}
+        initialScan={inventoryInitialScan}
         selectedLocationId={selectedLocationId}
         onSelectedLocationIdChange={onSelectedLocationIdChange}
         onSaveFnChange={(fn) => { inventorySaveFnRef.current = fn; }}
@@ -640,7 +685,10 @@ function AppInner() {
     );
   } else if (view === "usage") {
     content = canAccessInventory ? (
-      <InventoryUsagePage selectedLocationId={selectedLocationId} />
+      <InventoryUsagePage
+        selectedLocationId={selectedLocationId}
+        onSelectedLocationIdChange={onSelectedLocationIdChange}
+      />
     ) : (
       <DashboardPage
         accessibleModules={subState.allowedModules}
@@ -742,6 +790,7 @@ function AppInner() {
         selectedLocationId={selectedLocationId}
         onSelectedLocationIdChange={onSelectedLocationIdChange}
         onNavigate={(v) => setView(v as AppView)}
+        canViewValuation={canManageInventoryColumns}
         onNavigateToInventoryWithFilter={(filter, locationId) => {
           if (locationId !== undefined) onSelectedLocationIdChange(locationId);
           setInventoryInitialFilter(filter);
@@ -755,6 +804,7 @@ function AppInner() {
   return (
     <section className="app-shell">
       {isPlatformSupport && <SupportConsoleBar />}
+      <SyncStatusBar />
       <AppToolbar
         view={view}
         onNavigate={(v) => void navigateTo(v as AppView)}
@@ -41,6 +41,71 @@ function getHelpForTab(activeTab: AuditTab): HelpSection {
         ),
       };
 
+    case "valuation":
+      return {
+        title: "Valuation",
+        body: (
+          <>
+            <p>
+              What the stock on hand is worth, per location and per
+              category. Pick a <strong>costing method</strong>:
+            </p>
+            <ul>
+              <li>
+                <strong>FIFO</strong> — on-hand units are the most recently
+                received, so they're priced from the newest receipts back.
+              </li>
+              <li>
+                <strong>Weighted average</strong> — the average price paid
+                across every receipt of the item.
+              </li>
+              <li>
+                <strong>Latest vendor price</strong> — the most recently
+                updated vendor price for the item.
+              </li>
+            </ul>
+            <p>
+              Items with no matching price fall back to the cost on the item
+              itself; anything still unpriced is counted separately and left
+              out of the total.
+            </p>
+            <p>
+              Pick a <strong>month</strong> to value the stock as it stood at
+              that month's end, then <strong>Export CSV</strong> for the
+              finance office. Vendor prices have no history, so a past month
+              valued at vendor price uses today's prices.
+            </p>
+          </>
+        ),
+      };
+
+    case "lot-trace":
+      return {
+        title: "Lot trace",
+        body: (
+          <>
+            <p>
+              Everything that happened to one lot or serial number — for
+              recalls and "where did this go" questions.
+            </p>
+            <ul>
+              <li>
+                <strong>Where it is now</strong> lists every row still
+                carrying the code, with its location and quantity.
+              </li>
+              <li>
+                <strong>History</strong> shows each receive, transfer, use,
+                adjustment and retire that recorded the code.
+              </li>
+              <li>
+                Start a trace from the <strong>Lot or serial #</strong> box on
+                Activity, or from the lot chips on an item's history.
+              </li>
+            </ul>
+          </>
+        ),
+      };
+
     case "item-history":
       return {
         title: "Item history",
@@ -0,0 +1,201 @@
+import { useEffect, useMemo, useState } from "react";
+import { ChevronRight } from "lucide-react";
+import {
+  getAlertDigestSubscription,
+  saveAlertDigestSubscription,
+  type AlertDigestCadence,
+  type AlertDigestState,
+} from "../lib/inventoryApi";
+import type { InventoryLocation } from "./inventory/inventoryTypes";
+import { buildLocationPickerEntries } from "../lib/locationTree";
+import { useToast } from "./shared/Toast";
+
+/** Format an ISO timestamp as a readable local date+time, e.g. "Jun 30, 3:00 PM". */
+const formatWhen = (iso: string | null | undefined): string => {
+  if (!iso) return "";
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return "";
+  return d.toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+};
+
+/**
+ * Per-user opt-in for the scheduled expiration / low-stock email digest.
+ * Available to every role — it only emails the signed-in user about what
+ * they can already see. Picking a station covers all of its sublocations;
+ * picking nothing means every location.
+ */
+export function AlertDigestCard({
+  open = true,
+  locations,
+}: {
+  open?: boolean;
+  locations: InventoryLocation[];
+}) {
+  const toast = useToast();
+  const [state, setState] = useState<AlertDigestState | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [enabled, setEnabled] = useState(false);
+  const [cadence, setCadence] = useState<AlertDigestCadence>("daily");
+  const [locationIds, setLocationIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const s = await getAlertDigestSubscription();
+        if (cancelled) return;
+        setState(s);
+        setEnabled(s.subscription.enabled);
+        setCadence(s.subscription.cadence);
+        setLocationIds(s.subscription.locationIds);
+      } catch {
+        // Non-fatal: leave the card in its default (unsubscribed) state.
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const entries = useMemo(() => buildLocationPickerEntries(locations), [locations]);
+  const selected = useMemo(() => new Set(locationIds), [locationIds]);
+  const parentById = useMemo(
+    () => new Map(locations.map((l) => [l.id, String(l.parentLocationId ?? "")])),
+    [locations],
+  );
+
+  const toggleLocation = (id: string, checked: boolean) => {
+    setLocationIds((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(id);
+      else next.delete(id);
+      // A checked station already covers its leaves — drop them so the saved
+      // filter stays minimal and unchecking the station clears them too.
+      if (checked) {
+        for (const loc of locations) {
+          if (String(loc.parentLocationId ?? "") === id) next.delete(loc.id);
+        }
+      }
+      return Array.from(next);
+    });
+  };
+
+  const saved = state?.subscription;
+  const dirty =
+    !saved ||
+    saved.enabled !== enabled ||
+    saved.cadence !== cadence ||
+    saved.locationIds.slice().sort().join("|") !== locationIds.slice().sort().join("|");
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const s = await saveAlertDigestSubscription({ enabled, cadence, locationIds });
+      setState(s);
+      setLocationIds(s.subscription.locationIds);
+      toast.success(s.subscription.enabled ? "Email digest saved." : "Email digest turned off.");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not save email digest settings.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <details className="settings-section" open={open}>
+      <summary className="settings-section-title">
+        Email Digest
+        <ChevronRight size={16} className="settings-section-chevron" aria-hidden="true" />
+      </summary>
+
+      <p className="settings-section-copy">
+        Get a scheduled email listing expired, expiring-soon, and low-stock items,
+        grouped by location. Nothing is sent when there's nothing to report.
+        {state?.email ? (
+          <>
+            {" "}Sent to <strong>{state.email}</strong>.
+          </>
+        ) : null}
+      </p>
+
+      {loading ? (
+        <p className="settings-section-copy">Loading…</p>
+      ) : (
+        <div style={{ display: "flex", flexDirection: "column", gap: "0.75rem" }}>
+          <div style={{ display: "flex", gap: "0.75rem", alignItems: "center", flexWrap: "wrap" }}>
+            <label className="settings-column-select">
+              <input
+                type="checkbox"
+                checked={enabled}
+                disabled={saving}
+                onChange={(e) => setEnabled(e.target.checked)}
+              />
+              <span>Send me the digest</span>
+            </label>
+            <label className="settings-column-select" style={{ gap: "0.4rem" }}>
+              <span>Frequency</span>
+              <select
+                value={cadence}
+                onChange={(e) => setCadence(e.target.value === "weekly" ? "weekly" : "daily")}
+                disabled={saving || !enabled}
+              >
+                <option value="daily">Daily</option>
+                <option value="weekly">Weekly</option>
+              </select>
+            </label>
+          </div>
+
+          {entries.length > 0 && (
+            <fieldset className="settings-columns-list" disabled={saving || !enabled} style={{ border: "none", padding: 0, margin: 0 }}>
+              <legend className="settings-section-copy" style={{ padding: 0 }}>
+                Locations {locationIds.length === 0 ? "(all)" : `(${locationIds.length} selected)`}
+              </legend>
+              {entries.map((entry) => {
+                const coveredByStation = entry.depth === 1 && selected.has(parentById.get(entry.id) ?? "");
+                return (
+                  <label
+                    key={entry.id}
+                    className={`settings-column-select${coveredByStation ? " settings-column-select-disabled" : ""}`}
+                    style={entry.depth === 1 ? { paddingLeft: "1.5rem" } : undefined}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={coveredByStation || selected.has(entry.id)}
+                      disabled={coveredByStation}
+                      onChange={(e) => toggleLocation(entry.id, e.target.checked)}
+                    />
+                    <span>{entry.name}{entry.isStation ? " (all sublocations)" : ""}</span>
+                  </label>
+                );
+              })}
+            </fieldset>
+          )}
+
+          <div style={{ display: "flex", gap: "0.75rem", alignItems: "center", flexWrap: "wrap" }}>
+            <button
+              type="button"
+              className="button button-primary button-sm"
+              disabled={saving || !dirty}
+              onClick={() => void handleSave()}
+            >
+              {saving ? "Saving…" : "Save"}
+            </button>
+            {saved?.lastSentAt ? (
+              <span className="settings-section-copy" style={{ margin: 0 }}>
+                Last sent {formatWhen(saved.lastSentAt)}
+              </span>
+            ) : null}
+          </div>
+        </div>
+      )}
+    </details>
+  );
+}
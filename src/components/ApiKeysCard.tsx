@@ -0,0 +1,246 @@
+import { useEffect, useState } from "react";
+import { ChevronRight, KeyRound } from "lucide-react";
+import {
+  createApiKey,
+  listApiKeys,
+  revokeApiKey,
+  type ApiKey,
+  type AppModuleKey,
+} from "../lib/inventoryApi";
+import { MODULE_BY_KEY } from "../lib/moduleRegistry";
+import { useToast } from "./shared/Toast";
+import { ConfirmDialog } from "./shared/ConfirmDialog";
+
+/** Format an ISO timestamp as a readable local date+time, e.g. "Jun 30, 3:00 PM". */
+const formatWhen = (iso: string | null | undefined): string => {
+  if (!iso) return "";
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return "";
+  return d.toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+};
+
+const ROLE_LABELS: Record<string, string> = {
+  ADMIN: "Admin",
+  EDITOR: "Editor",
+  VIEWER: "Viewer",
+};
+
+/**
+ * Owner-only management of org API keys for the public /v1 API (scripted
+ * syncs such as pushing quantities from an ePCR system). Each key carries a
+ * role and a module scope; the secret is shown exactly once, right after
+ * creation. Revoking cuts the key off immediately but keeps it listed.
+ */
+export function ApiKeysCard({ open = true }: { open?: boolean }) {
+  const toast = useToast();
+  const [keys, setKeys] = useState<ApiKey[]>([]);
+  const [roles, setRoles] = useState<string[]>([]);
+  const [availableModules, setAvailableModules] = useState<AppModuleKey[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState("");
+  const [role, setRole] = useState("VIEWER");
+  const [modules, setModules] = useState<AppModuleKey[]>([]);
+  const [creating, setCreating] = useState(false);
+  const [newSecret, setNewSecret] = useState<{ name: string; secret: string } | null>(null);
+  const [confirmRevoke, setConfirmRevoke] = useState<ApiKey | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const list = await listApiKeys();
+        if (cancelled) return;
+        setKeys(list.keys);
+        setRoles(list.roles);
+        setAvailableModules(list.availableModules);
+        setModules(list.availableModules);
+      } catch (err) {
+        if (!cancelled) toast.error(err instanceof Error ? err.message : "Could not load API keys.");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const toggleModule = (key: AppModuleKey, checked: boolean) => {
+    setModules((prev) => (checked ? [...prev.filter((m) => m !== key), key] : prev.filter((m) => m !== key)));
+  };
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      const result = await createApiKey({ name: name.trim(), role, modules });
+      setKeys((prev) => [result.key, ...prev]);
+      setNewSecret({ name: result.key.name, secret: result.secret });
+      setName("");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not create API key.");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (key: ApiKey) => {
+    setConfirmRevoke(null);
+    setRevokingId(key.id);
+    try {
+      const revoked = await revokeApiKey(key.id);
+      setKeys((prev) => prev.map((k) => (k.id === key.id ? { ...k, ...revoked } : k)));
+      toast.success(`API key "${key.name}" revoked.`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not revoke API key.");
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!newSecret) return;
+    try {
+      await navigator.clipboard.writeText(newSecret.secret);
+      toast.success("API key copied.");
+    } catch {
+      toast.error("Could not copy — select the key and copy it manually.");
+    }
+  };
+
+  return (
+    <details className="settings-section" open={open}>
+      <summary className="settings-section-title">
+        API Keys
+        <ChevronRight size={16} className="settings-section-chevron" aria-hidden="true" />
+      </summary>
+
+      <p className="settings-section-copy">
+        Let your own systems read and update WickOps through the <strong>/v1</strong> REST
+        API. Each key acts with the role you give it, limited to the modules you pick, and
+        everything it does is logged under the key's name.
+      </p>
+
+      {newSecret && (
+        <div className="app-alert-card app-alert-card--info" style={{ cursor: "default", marginBottom: "0.75rem" }}>
+          <span className="app-alert-card__icon">
+            <KeyRound size={18} aria-hidden="true" />
+          </span>
+          <span className="app-alert-card__text">
+            Copy the key for <strong>{newSecret.name}</strong> now — it won't be shown again.
+            <code style={{ display: "block", margin: "0.4rem 0", wordBreak: "break-all", userSelect: "all" }}>
+              {newSecret.secret}
+            </code>
+            <span style={{ display: "inline-flex", gap: "0.5rem" }}>
+              <button type="button" className="button button-primary button-sm" onClick={() => void handleCopy()}>
+                Copy
+              </button>
+              <button type="button" className="button button-ghost button-sm" onClick={() => setNewSecret(null)}>
+                Done
+              </button>
+            </span>
+          </span>
+        </div>
+      )}
+
+      {loading ? (
+        <p className="settings-section-copy">Loading…</p>
+      ) : (
+        <div style={{ display: "flex", flexDirection: "column", gap: "0.75rem" }}>
+          <div style={{ display: "flex", gap: "0.5rem", alignItems: "center", flexWrap: "wrap" }}>
+            <input
+              className="field"
+              type="text"
+              placeholder="Key name, e.g. ePCR sync"
+              value={name}
+              maxLength={80}
+              onChange={(e) => setName(e.target.value)}
+              disabled={creating}
+              aria-label="Key name"
+            />
+            <label className="settings-column-select" style={{ gap: "0.4rem" }}>
+              <span>Role</span>
+              <select value={role} onChange={(e) => setRole(e.target.value)} disabled={creating}>
+                {roles.map((r) => (
+                  <option key={r} value={r}>
+                    {ROLE_LABELS[r] ?? r}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {availableModules.length > 1 &&
+              availableModules.map((m) => (
+                <label key={m} className="settings-column-select">
+                  <input
+                    type="checkbox"
+                    checked={modules.includes(m)}
+                    disabled={creating}
+                    onChange={(e) => toggleModule(m, e.target.checked)}
+                  />
+                  <span>{MODULE_BY_KEY[m]?.name ?? m}</span>
+                </label>
+              ))}
+            <button
+              type="button"
+              className="button button-primary button-sm"
+              disabled={creating || !name.trim() || modules.length === 0}
+              onClick={() => void handleCreate()}
+            >
+              {creating ? "Creating…" : "Create key"}
+            </button>
+          </div>
+
+          {keys.length === 0 ? (
+            <p className="settings-section-copy">No API keys yet.</p>
+          ) : (
+            <div className="settings-columns-list">
+              {keys.map((key) => (
+                <div className="settings-column-row" key={key.id}>
+                  <div className="settings-column-visibility" style={{ flexWrap: "wrap" }}>
+                    <span>{key.name}</span>
+                    <code>{key.prefix}…</code>
+                    <span className="settings-core-pill">{ROLE_LABELS[key.role] ?? key.role}</span>
+                    <span className="settings-section-copy" style={{ margin: 0 }}>
+                      {key.status === "revoked"
+                        ? `Revoked ${formatWhen(key.revokedAt)}`
+                        : key.lastUsedAt
+                          ? `Last used ${formatWhen(key.lastUsedAt)}`
+                          : "Never used"}
+                    </span>
+                  </div>
+                  {key.status === "active" && (
+                    <button
+                      type="button"
+                      className="button button-danger button-sm"
+                      disabled={revokingId === key.id}
+                      onClick={() => setConfirmRevoke(key)}
+                    >
+                      {revokingId === key.id ? "Revoking…" : "Revoke"}
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {confirmRevoke && (
+        <ConfirmDialog
+          title="Revoke API key?"
+          message={`Anything using "${confirmRevoke.name}" will immediately lose access to WickOps.`}
+          confirmLabel="Revoke"
+          destructive
+          onConfirm={() => void handleRevoke(confirmRevoke)}
+          onCancel={() => setConfirmRevoke(null)}
+        />
+      )}
+    </details>
+  );
+}
@@ -0,0 +1,237 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  exportAuditLog,
+  listModuleAccessUsers,
+  type InventoryLocation,
+  type ModuleAccessUser,
+} from "../lib/inventoryApi";
+import { buildLocationPickerEntries } from "../lib/locationTree";
+import { downloadText } from "../lib/downloadCsv";
+import { CustomDropdown } from "./shared/CustomDropdown";
+
+/** Action groups offered as export filters, in display order. The stored
+ *  action keys are what the server filters on; nothing checked = everything. */
+const EXPORT_ACTION_GROUPS: Array<{ key: string; label: string; actions: string[] }> = [
+  { key: "usage", label: "Usage", actions: ["USAGE_APPROVE", "USAGE_UNDO", "USAGE_REJECT"] },
+  {
+    key: "orders",
+    label: "Orders & receiving",
+    actions: ["RESTOCK_ORDER_CREATE", "RESTOCK_ORDER_PLACED", "RESTOCK_RECEIVED", "RESTOCK_ORDER_CLOSED", "RESTOCK_ORDER_APPROVED", "RESTOCK_ORDER_REJECTED", "RESTOCK_ADDED"],
+  },
+  { key: "retire", label: "Retired & recalled", actions: ["ITEM_RETIRE", "ITEM_UNRETIRE", "RECALL_EXECUTE"] },
+  {
+    key: "counts",
+    label: "Adjustments & counts",
+    actions: ["ITEM_QTY_ADJUST", "COUNT_SESSION_OPEN", "COUNT_SESSION_POST", "COUNT_SESSION_CANCEL"],
+  },
+  { key: "moves", label: "Moves & transfers", actions: ["ITEM_MOVE", "ITEM_TRANSFER"] },
+  { key: "items", label: "Item edits", actions: ["ITEM_CREATE", "ITEM_EDIT", "ITEM_DELETE", "VENDOR_PRICE_EDIT"] },
+];
+
+/** Local calendar day → ISO bounds, so "To Jun 30" includes all of Jun 30. */
+const startOfDayIso = (day: string): string => new Date(`${day}T00:00:00`).toISOString();
+const endOfDayIso = (day: string): string => {
+  const d = new Date(`${day}T00:00:00`);
+  d.setDate(d.getDate() + 1);
+  return d.toISOString();
+};
+
+export type AuditExportDialogProps = {
+  /** Org locations for the scope picker; empty hides it. */
+  locations: InventoryLocation[];
+  /** Pre-fill from the feed's date filter (YYYY-MM-DD, "" = open-ended). */
+  initialFromDate: string;
+  initialToDate: string;
+  onClose: () => void;
+};
+
+/**
+ * Activity export for inspectors and auditors. Builds the file server-side
+ * (GET /inventory/audit/export) page by page, then downloads it. Admin-only —
+ * AuditLogPage only offers it to column admins.
+ */
+export function AuditExportDialog({ locations, initialFromDate, initialToDate, onClose }: AuditExportDialogProps) {
+  const [fromDate, setFromDate] = useState(initialFromDate);
+  const [toDate, setToDate] = useState(initialToDate);
+  const [groups, setGroups] = useState<Set<string>>(() => new Set<string>());
+  const [userId, setUserId] = useState("");
+  const [users, setUsers] = useState<ModuleAccessUser[]>([]);
+  const [locationId, setLocationId] = useState("");
+  const [itemName, setItemName] = useState("");
+  const [format, setFormat] = useState<"csv" | "json">("csv");
+  const [exporting, setExporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const cancelRef = useRef<HTMLButtonElement | null>(null);
+  const titleId = "audit-export-dialog-title";
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape" && !exporting) onClose();
+    };
+    document.addEventListener("keydown", onKey);
+    return () => document.removeEventListener("keydown", onKey);
+  }, [onClose, exporting]);
+
+  useEffect(() => {
+    requestAnimationFrame(() => cancelRef.current?.focus());
+    listModuleAccessUsers()
+      .then((res) => setUsers(res.users))
+      .catch(() => { /* user picker stays at "Anyone" */ });
+  }, []);
+
+  const toggleGroup = (key: string) => {
+    setGroups((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const invalidRange = !!fromDate && !!toDate && fromDate > toDate;
+
+  const handleExport = async () => {
+    if (exporting || invalidRange) return;
+    setExporting(true);
+    setProgress(0);
+    setError(null);
+    try {
+      const text = await exportAuditLog(
+        format,
+        {
+          ...(fromDate ? { startAfter: startOfDayIso(fromDate) } : {}),
+          ...(toDate ? { endBefore: endOfDayIso(toDate) } : {}),
+          actions: EXPORT_ACTION_GROUPS.filter((g) => groups.has(g.key)).flatMap((g) => g.actions),
+          ...(userId ? { userId } : {}),
+          ...(locationId ? { locationId } : {}),
+          ...(itemName.trim() ? { itemName: itemName.trim() } : {}),
+        },
+        setProgress,
+      );
+      const stamp = new Date().toISOString().slice(0, 10);
+      downloadText(
+        `activity-${stamp}.${format}`,
+        text,
+        format === "csv" ? "text/csv;charset=utf-8" : "application/json",
+      );
+      onClose();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to export activity.");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div
+      className="confirm-dialog-overlay"
+      role="presentation"
+      onClick={(e) => {
+        if (e.target === e.currentTarget && !exporting) onClose();
+      }}
+    >
+      <div className="confirm-dialog audit-export-dialog" role="dialog" aria-modal="true" aria-labelledby={titleId}>
+        <div className="confirm-dialog-body">
+          <h3 id={titleId} className="confirm-dialog-title">Export activity</h3>
+          <p className="confirm-dialog-message">
+            Download the activity log as a file, oldest first. Leave a filter blank to include everything.
+          </p>
+
+          <div className="closed-orders-daterange-fields">
+            <label className="closed-orders-daterange-field">
+              <span>From</span>
+              <input className="field" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} disabled={exporting} />
+            </label>
+            <label className="closed-orders-daterange-field">
+              <span>To</span>
+              <input className="field" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} disabled={exporting} />
+            </label>
+          </div>
+          {invalidRange && <p className="audit-error">The start date is after the end date.</p>}
+
+          <fieldset className="audit-export-actions">
+            <legend>Activity</legend>
+            {EXPORT_ACTION_GROUPS.map((g) => (
+              <label key={g.key} className="audit-export-action">
+                <input type="checkbox" checked={groups.has(g.key)} onChange={() => toggleGroup(g.key)} disabled={exporting} />
+                <span>{g.label}</span>
+              </label>
+            ))}
+          </fieldset>
+
+          <div className="audit-export-fields">
+            <label className="audit-export-field">
+              <span>User</span>
+              <select className="field" value={userId} onChange={(e) => setUserId(e.target.value)} disabled={exporting}>
+                <option value="">Anyone</option>
+                {users.map((u) => (
+                  <option key={u.userId} value={u.userId}>{u.displayName || u.email}</option>
+                ))}
+              </select>
+            </label>
+            {locations.length > 1 && (
+              <label className="audit-export-field">
+                <span>Location</span>
+                <CustomDropdown
+                  ariaLabel="Export location"
+                  value={locationId}
+                  onChange={setLocationId}
+                  disabled={exporting}
+                  options={[
+                    { value: "", label: "All locations" },
+                    ...buildLocationPickerEntries(locations).map((entry) => ({
+                      value: entry.id,
+                      label: entry.label,
+                      depth: entry.depth,
+                      ...(entry.isStation ? { hint: "· all" } : {}),
+                    })),
+                  ]}
+                />
+              </label>
+            )}
+            <label className="audit-export-field">
+              <span>Item</span>
+              <input
+                className="field"
+                type="text"
+                value={itemName}
+                onChange={(e) => setItemName(e.target.value)}
+                placeholder="Exact item name"
+                disabled={exporting}
+              />
+            </label>
+            <label className="audit-export-field">
+              <span>Format</span>
+              <select
+                className="field"
+                value={format}
+                onChange={(e) => setFormat(e.target.value as "csv" | "json")}
+                disabled={exporting}
+              >
+                <option value="csv">CSV (spreadsheet)</option>
+                <option value="json">JSON (full details)</option>
+              </select>
+            </label>
+          </div>
+
+          {error && <p className="audit-error">{error}</p>}
+        </div>
+
+        <div className="confirm-dialog-actions">
+          <button ref={cancelRef} type="button" className="button button-secondary" onClick={onClose} disabled={exporting}>
+            Cancel
+          </button>
+          <button
+            type="button"
+            className="button button-primary"
+            onClick={() => void handleExport()}
+            disabled={exporting || invalidRange}
+          >
+            {exporting ? `Exporting… ${progress.toLocaleString()} events` : "Export"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
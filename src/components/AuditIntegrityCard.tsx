@@ -0,0 +1,121 @@
+import { useState } from "react";
+import { ChevronRight, ShieldAlert, ShieldCheck } from "lucide-react";
+import { verifyAuditLog, type AuditChainIssue, type AuditVerification } from "../lib/inventoryApi";
+
+const formatWhen = (iso: string | undefined): string => {
+  if (!iso) return "";
+  const d = new Date(iso);
+  return Number.isNaN(d.getTime())
+    ? ""
+    : d.toLocaleString(undefined, { month: "short", day: "numeric", year: "numeric", hour: "numeric", minute: "2-digit" });
+};
+
+const plural = (n: number, word: string): string => `${n.toLocaleString()} ${word}${n === 1 ? "" : "s"}`;
+
+/** One line per chain break, in plain words. */
+const describeIssue = (issue: AuditChainIssue): string => {
+  const at = issue.timestamp ? ` (${formatWhen(issue.timestamp)})` : "";
+  const event = `Event #${issue.seq ?? "?"}${issue.action ? ` — ${issue.action}` : ""}${at}`;
+  switch (issue.kind) {
+    case "missing":
+      return issue.fromSeq === issue.toSeq
+        ? `Event #${issue.fromSeq} is missing${at}.`
+        : `Events #${issue.fromSeq}–#${issue.toSeq} are missing${at}.`;
+    case "altered":
+      return `${event} was changed after it was recorded.`;
+    case "broken_link":
+      return `${event} doesn't follow on from the event before it.`;
+    case "duplicate":
+      return `${event} appears more than once.`;
+    case "unchained":
+      return `An event${issue.action ? ` (${issue.action})` : ""}${at} was added outside the chain.`;
+    case "head_mismatch":
+      return `The newest event (#${issue.seq}) doesn't match the recorded end of the log.`;
+    case "unbacked_undo":
+      return `${event} is marked undone, but no recorded undo backs it.`;
+    default:
+      return `${event}: unrecognized problem.`;
+  }
+};
+
+/**
+ * Owner-only integrity check for the activity log. Every event records a hash
+ * of its content and of the event before it, so an edited, removed or
+ * inserted event breaks the chain; this walks it server-side
+ * (GET /inventory/audit/verify) and lists any break it finds.
+ */
+export function AuditIntegrityCard({ open = true }: { open?: boolean }) {
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [result, setResult] = useState<AuditVerification | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleVerify = async () => {
+    setRunning(true);
+    setProgress(0);
+    setError(null);
+    setResult(null);
+    try {
+      setResult(await verifyAuditLog(setProgress));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to verify the activity log.");
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const intact = result !== null && result.issues.length === 0;
+
+  return (
+    <details className="settings-section" open={open}>
+      <summary className="settings-section-title">
+        Activity Log Integrity
+        <ChevronRight size={16} className="settings-section-chevron" aria-hidden="true" />
+      </summary>
+
+      <p className="settings-section-copy">
+        Each activity event is sealed with a fingerprint of its contents and of the event before
+        it, so any later edit, deletion or insertion shows up as a break. Verify the log here to
+        show an inspector it hasn't been changed.
+      </p>
+
+      <button
+        type="button"
+        className="button button-secondary button-sm"
+        disabled={running}
+        onClick={() => void handleVerify()}
+      >
+        {running ? `Verifying… ${progress.toLocaleString()} events` : "Verify activity log"}
+      </button>
+
+      {error && <p className="audit-error">{error}</p>}
+
+      {result && (
+        <div
+          className={`app-alert-card app-alert-card--${intact ? "info" : "danger"}`}
+          style={{ cursor: "default", marginTop: "0.75rem" }}
+        >
+          <span className="app-alert-card__icon">
+            {intact ? <ShieldCheck size={18} aria-hidden="true" /> : <ShieldAlert size={18} aria-hidden="true" />}
+          </span>
+          <span className="app-alert-card__text">
+            {intact
+              ? `No breaks found — ${plural(result.checked, "event")} verified.`
+              : `${plural(result.issues.length, "problem")} found in ${plural(result.checked, "event")} checked.`}
+            {result.legacy > 0 && ` ${plural(result.legacy, "older event")} predate the chain and can't be verified.`}
+            {result.expired > 0 && ` ${plural(result.expired, "event")} have aged out of the log.`}
+          </span>
+        </div>
+      )}
+
+      {result && result.issues.length > 0 && (
+        <ul className="audit-integrity-issues">
+          {result.issues.map((issue, i) => (
+            <li key={`${issue.kind}-${issue.seq ?? issue.fromSeq ?? ""}-${issue.eventId ?? i}`}>{describeIssue(issue)}</li>
+          ))}
+          {result.issuesTruncated && <li>More problems were found than can be listed.</li>}
+        </ul>
+      )}
+    </details>
+  );
+}
@@ -6,6 +6,8 @@ import {
   fetchAuditAnalytics,
   fetchVendorBreakdown,
   fetchAnalyticsBreakdown,
+  fetchLotTrace,
+  fetchInventoryValuation,
   listInventoryLocations,
   type AnalyticsBreakdown,
   type InventoryLocation,
@@ -17,8 +19,11 @@ import {
   type AdjustReason,
   type AuditEvent,
   type AuditAnalytics,
+  type LotTraceResponse,
+  type InventoryValuation,
+  type ValuationMethod,
 } from "../lib/inventoryApi";
-import { buildLocationPickerEntries } from "../lib/locationTree";
+import { buildLocationPickerEntries, locationPath } from "../lib/locationTree";
 import { CustomDropdown } from "./shared/CustomDropdown";
 import { CostOverTime } from "./shared/CostOverTime";
 import {
@@ -28,6 +33,9 @@ import {
   ChevronLeft,
   ChevronRight,
   Clock,
+  DollarSign,
+  Download,
+  Hash,
   MapPin,
   Package,
   RotateCcw,
@@ -40,10 +48,12 @@ import { DaySection } from "../lib/dayGroups";
 import { EmptyState } from "./shared/EmptyState";
 import { LoadingState } from "./shared/LoadingState";
 import { dayGroupLabel } from "../lib/dayGroupLabel";
+import { downloadCsv } from "../lib/downloadCsv";
 import { useMobileDetect } from "./inventory/hooks/useMobileDetect";
 import { AuditMobileFeed } from "./AuditMobileFeed";
+import { AuditExportDialog } from "./AuditExportDialog";
 
-export type AuditTab = "feed" | "analytics" | "item-history";
+export type AuditTab = "feed" | "analytics" | "valuation" | "item-history" | "lot-trace";
 
 interface AuditLogPageProps {
   canManageColumns: boolean;
@@ -79,6 +89,7 @@ const ACTION_LABELS: Record<string, string> = {
   ITEM_EDIT: "Updated",
   ITEM_DELETE: "Deleted",
   ITEM_MOVE: "Moved",
+  ITEM_TRANSFER: "Transferred",
   ITEM_RESTOCK: "Restocked",
   ITEM_QTY_ADJUST: "Adjusted qty",
   ITEM_RETIRE: "Retired",
@@ -101,17 +112,33 @@ const ACTION_LABELS: Record<string, string> = {
   CSV_IMPORT: "CSV import",
   TEMPLATE_APPLY: "Template applied",
   RESTOCK_ORDER_CREATE: "Order placed",
+  RESTOCK_ORDER_PLACED: "Draft placed",
   RESTOCK_RECEIVED: "Order received",
   RESTOCK_ORDER_CLOSED: "Order closed",
+  RESTOCK_ORDER_APPROVED: "Order approved",
+  RESTOCK_ORDER_REJECTED: "Order rejected",
+  ORDER_APPROVAL_RULES_UPDATED: "Approval rules changed",
   RESTOCK_ADDED: "Fast restock",
   VENDOR_PRICE_EDIT: "Price updated",
   MIGRATION_APPLY: "Inventory upgraded",
+  COUNT_SESSION_OPEN: "Count started",
+  COUNT_SESSION_POST: "Count posted",
+  COUNT_SESSION_CANCEL: "Count cancelled",
+  RECALL_EXECUTE: "Recall pulled",
+  API_KEY_CREATED: "API key created",
+  API_KEY_REVOKED: "API key revoked",
+  API_KEY_USED: "API key used",
+  WEBHOOK_CREATED: "Webhook added",
+  WEBHOOK_UPDATED: "Webhook changed",
+  WEBHOOK_DELETED: "Webhook deleted",
+  AUDIT_RETENTION_UPDATED: "Retention changed",
 };
 
 const FIELD_LABELS: Record<string, string> = {
   itemName: "Name",
   quantity: "Qty",
   minQuantity: "Min",
+  parQuantity: "Par",
   expirationDate: "Exp",
   orderedAt: "Ordered",
   notes: "Notes",
@@ -238,6 +265,7 @@ const ACTION_COLORS: Record<string, string> = {
   ITEM_CREATE: "var(--success)",
   ITEM_EDIT: "var(--primary)",
   ITEM_MOVE: "var(--text-muted)",
+  ITEM_TRANSFER: "var(--primary)",
   ITEM_RESTOCK: "var(--success)",
   ITEM_QTY_ADJUST: "var(--warning)",
   ITEM_DELETE: "var(--danger)",
@@ -257,11 +285,26 @@ const ACTION_COLORS: Record<string, string> = {
   CSV_IMPORT: "var(--primary)",
   TEMPLATE_APPLY: "var(--primary)",
   RESTOCK_ORDER_CREATE: "var(--primary)",
+  RESTOCK_ORDER_PLACED: "var(--primary)",
   RESTOCK_RECEIVED: "var(--success)",
   RESTOCK_ORDER_CLOSED: "var(--text-muted)",
+  RESTOCK_ORDER_APPROVED: "var(--success)",
+  RESTOCK_ORDER_REJECTED: "var(--danger)",
+  ORDER_APPROVAL_RULES_UPDATED: "var(--warning)",
   RESTOCK_ADDED: "var(--success)",
   VENDOR_PRICE_EDIT: "var(--primary)",
   MIGRATION_APPLY: "var(--text-muted)",
+  COUNT_SESSION_OPEN: "var(--primary)",
+  COUNT_SESSION_POST: "var(--success)",
+  COUNT_SESSION_CANCEL: "var(--text-muted)",
+  RECALL_EXECUTE: "var(--danger)",
+  API_KEY_CREATED: "var(--success)",
+  API_KEY_REVOKED: "var(--danger)",
+  API_KEY_USED: "var(--text-muted)",
+  WEBHOOK_CREATED: "var(--success)",
+  WEBHOOK_UPDATED: "var(--primary)",
+  WEBHOOK_DELETED: "var(--danger)",
+  AUDIT_RETENTION_UPDATED: "var(--warning)",
 };
 
 function formatDate(iso: string): string {
@@ -335,7 +378,10 @@ function buildRichRowSummary(event: AuditEvent): string {
     if (details.qtyBefore !== undefined && details.qtyAfter !== undefined) {
       const base = `Qty ${formatFieldValue("quantity", details.qtyBefore)} → ${formatFieldValue("quantity", details.qtyAfter)}`;
       const reasonLabel = reason ? ADJUST_REASON_LABEL[reason as AdjustReason] ?? reason : "";
-      const reasonPart = reasonLabel ? ` (${reasonLabel})` : "";
+      // Posted by a cycle count — say so, since there's no per-line note.
+      const reasonPart = details.countSessionId
+        ? " (cycle count)"
+        : reasonLabel ? ` (${reasonLabel})` : "";
       return `${base}${reasonPart}${notePart}`;
     }
     const q = getVisibleEditChanges(event).find((c) => c.field === "quantity");
@@ -364,7 +410,11 @@ function buildRichRowSummary(event: AuditEvent): string {
     const notes = typeof details.notes === "string" ? details.notes : "";
     const notePart = notes ? ` ${formatNotePreview(notes)}` : "";
     const base = reason ? `Retired (${reason})` : "Retired";
-    return `${base}${notePart}`;
+    // Pulled by a recall — name the notice so the row ties back to it.
+    const recallPart = typeof details.recallReference === "string" && details.recallReference
+      ? ` — ${details.recallReference}`
+      : "";
+    return `${base}${recallPart}${notePart}`;
   }
   if (derived === "ITEM_UNRETIRE") {
     const restored = details.quantityRestored;
@@ -382,6 +432,16 @@ function buildRichRowSummary(event: AuditEvent): string {
     if (toName) return `Moved to ${toName}`;
     return "Reordered";
   }
+  if (derived === "ITEM_TRANSFER") {
+    // One event covers both sides of the split; the source row keys it.
+    const qty = details.quantity;
+    const fromName = typeof details.fromLocationName === "string" ? details.fromLocationName : "";
+    const toName = typeof details.toLocationName === "string" ? details.toLocationName : "";
+    const base = qty !== undefined ? `Transferred ${qty}` : "Transferred";
+    if (fromName && toName) return `${base} from ${fromName} to ${toName}`;
+    if (toName) return `${base} to ${toName}`;
+    return base;
+  }
   if (derived === "LOCATION_CREATE") {
     const name = typeof details.name === "string" ? details.name : "";
     return name ? `Location added (${name})` : "Location added";
@@ -396,6 +456,53 @@ function buildRichRowSummary(event: AuditEvent): string {
     const name = typeof details.name === "string" ? details.name : "";
     return name ? `Location deleted (${name})` : "Location deleted";
   }
+  if (derived === "COUNT_SESSION_OPEN") {
+    const name = typeof details.locationName === "string" ? details.locationName : "";
+    const lines = Number(details.lineCount ?? 0);
+    const base = name ? `Count started at ${name}` : "Count started";
+    return lines > 0 ? `${base} (${lines} lot${lines === 1 ? "" : "s"})` : base;
+  }
+  if (derived === "COUNT_SESSION_POST") {
+    const name = typeof details.locationName === "string" ? details.locationName : "";
+    const adjusted = Number(details.adjustedCount ?? 0);
+    const skipped = Number(details.skippedCount ?? 0);
+    const base = name ? `Count posted at ${name}` : "Count posted";
+    const parts = [`${adjusted} adjusted`];
+    if (skipped > 0) parts.push(`${skipped} skipped`);
+    return `${base} — ${parts.join(", ")}`;
+  }
+  if (derived === "COUNT_SESSION_CANCEL") {
+    const name = typeof details.locationName === "string" ? details.locationName : "";
+    return name ? `Count cancelled at ${name}` : "Count cancelled";
+  }
+  if (derived === "RECALL_EXECUTE") {
+    const ref = typeof details.reference === "string" ? details.reference : "";
+    const pulled = Number(details.totalPulled ?? 0);
+    const locations = Array.isArray(details.byLocation) ? details.byLocation.length : 0;
+    const base = ref ? `Recall ${ref} pulled ${pulled}` : `Recall pulled ${pulled}`;
+    return locations > 0 ? `${base} from ${locations} location${locations === 1 ? "" : "s"}` : base;
+  }
+  if (derived === "API_KEY_CREATED" || derived === "API_KEY_REVOKED" || derived === "API_KEY_USED") {
+    const name = typeof details.name === "string" ? details.name : "";
+    const label = ACTION_LABELS[derived];
+    if (derived === "API_KEY_CREATED" && name && typeof details.role === "string") {
+      return `${label} — ${name} (${details.role.toLowerCase()})`;
+    }
+    return name ? `${label} — ${name}` : label;
+  }
+  if (derived === "WEBHOOK_CREATED" || derived === "WEBHOOK_UPDATED" || derived === "WEBHOOK_DELETED") {
+    const label = ACTION_LABELS[derived];
+    let host = "";
+    try { host = typeof details.url === "string" ? new URL(details.url).host : ""; } catch { host = ""; }
+    return host ? `${label} — ${host}` : label;
+  }
+  if (derived === "AUDIT_RETENTION_UPDATED") {
+    const from = Number(details.fromYears);
+    const to = Number(details.toYears);
+    return Number.isFinite(from) && Number.isFinite(to)
+      ? `Activity retention ${from} → ${to} years`
+      : "Activity retention changed";
+  }
   if (derived === "MIGRATION_APPLY") {
     const moved = Number(details.itemsMovedToDefault ?? 0);
     const created = Number(details.locationsCreated ?? 0);
@@ -407,9 +514,16 @@ function buildRichRowSummary(event: AuditEvent): string {
   if (derived === "RESTOCK_ORDER_CREATE") {
     const qty = details.qtyOrdered;
     const vendor = typeof details.vendor === "string" ? details.vendor : "";
-    if (qty !== undefined && vendor) return `Ordered ${qty} from ${vendor}`;
-    if (qty !== undefined) return `Ordered ${qty}`;
-    return "Order placed";
+    const verb = details.draft === true ? "Drafted" : "Ordered";
+    if (qty !== undefined && vendor) return `${verb} ${qty} from ${vendor}`;
+    if (qty !== undefined) return `${verb} ${qty}`;
+    return details.draft === true ? "Order drafted" : "Order placed";
+  }
+  if (derived === "RESTOCK_ORDER_PLACED") {
+    const vendor = typeof details.vendor === "string" ? details.vendor : "";
+    const lines = Number(details.lineCount ?? 0);
+    const suffix = lines > 0 ? ` (${lines} line${lines === 1 ? "" : "s"})` : "";
+    return vendor ? `Draft order placed — ${vendor}${suffix}` : `Draft order placed${suffix}`;
   }
   if (derived === "RESTOCK_RECEIVED") {
     const qty = details.qtyReceived;
@@ -423,6 +537,22 @@ function buildRichRowSummary(event: AuditEvent): string {
     if (note) return `Order closed (${note})`;
     return "Order closed";
   }
+  if (derived === "RESTOCK_ORDER_APPROVED" || derived === "RESTOCK_ORDER_REJECTED") {
+    const vendor = typeof details.vendor === "string" ? details.vendor : "";
+    const requester = typeof details.requestedByName === "string" ? details.requestedByName : "";
+    const note = typeof details.note === "string" ? details.note : "";
+    let text = ACTION_LABELS[derived];
+    if (vendor) text += ` — ${vendor}`;
+    if (requester) text += ` for ${requester}`;
+    return note ? `${text} (${note})` : text;
+  }
+  if (derived === "ORDER_APPROVAL_RULES_UPDATED") {
+    const to = (details.to ?? {}) as { rules?: unknown[] };
+    const count = Array.isArray(to.rules) ? to.rules.length : null;
+    return count === null
+      ? "Order approval rules changed"
+      : `Order approval rules changed — ${count} rule${count === 1 ? "" : "s"}`;
+  }
   if (derived === "RESTOCK_ADDED") {
     const delta = details.qtyDelta;
     const vendor = typeof details.vendor === "string" ? details.vendor : "";
@@ -446,7 +576,17 @@ function buildRichRowSummary(event: AuditEvent): string {
     const used = details.quantityUsed;
     const notes = typeof details.notes === "string" ? details.notes : "";
     const notePart = notes ? ` ${formatNotePreview(notes)}` : "";
-    if (used !== undefined) return `Logged usage of ${used}${notePart}`;
+    // Item-level usage split across lots names each draw, oldest first.
+    const lots = Array.isArray(details.lots) ? (details.lots as Array<Record<string, unknown>>) : [];
+    const lotPart = lots.length > 1
+      ? ` (${lots.map((lot) => {
+        const label = typeof lot.lotNumber === "string" && lot.lotNumber
+          ? `Lot ${lot.lotNumber}`
+          : typeof lot.expirationDate === "string" && lot.expirationDate ? `exp ${lot.expirationDate}` : "undated";
+        return `${label} ×${lot.quantityUsed}`;
+      }).join(", ")})`
+      : "";
+    if (used !== undefined) return `Logged usage of ${used}${lotPart}${notePart}`;
     return `Usage logged${notePart}`;
   }
   if (derived === "USAGE_REJECT") {
@@ -723,7 +863,8 @@ export function aggregateActivityRows(
         // name + qty inline; multi-item orders show count + total $.
         const isPlaced = bucket.orderAction === "placed";
         const qtyKey = isPlaced ? "qtyOrdered" : "qtyReceived";
-        const verb = isPlaced ? "Order placed" : "Order received";
+        const isDraft = isPlaced && bucket.events.every((e) => e.details?.draft === true);
+        const verb = isDraft ? "Order drafted" : isPlaced ? "Order placed" : "Order received";
 
         // Roll up qty + spend per distinct item; also track distinct
         // locations across the bucket's events so multi-station orgs can
@@ -992,14 +1133,42 @@ function FlatActivityFeed({
 /** Item history flat list — single item, so no item name column. Each event
  *  is one inline-summary row; no expansion, no disclosure. Day collapsibility
  *  matches the main feed. */
+/** " · Lot X · SN Y" for events stamped with the lot they touched, so a
+ *  multi-lot item's history says which lot each use / retire / adjust hit. */
+function lotSuffix(event: AuditEvent): string {
+  const details = event.details ?? {};
+  const parts: string[] = [];
+  if (typeof details.lotNumber === "string" && details.lotNumber) parts.push(`Lot ${details.lotNumber}`);
+  if (typeof details.serialNumber === "string" && details.serialNumber) parts.push(`SN ${details.serialNumber}`);
+  return parts.length > 0 ? ` · ${parts.join(" · ")}` : "";
+}
+
+/** Distinct lot / serial codes across an item's history, most recent first.
+ *  Feeds the item-history "Lots" chips that open the recall trace. */
+function collectLotCodes(events: AuditEvent[]): string[] {
+  const seen = new Map<string, string>();
+  for (const e of events) {
+    for (const raw of [e.details?.lotNumber, e.details?.serialNumber]) {
+      if (typeof raw !== "string" || !raw.trim()) continue;
+      const key = raw.trim().toLowerCase();
+      if (!seen.has(key)) seen.set(key, raw.trim());
+    }
+  }
+  return Array.from(seen.values());
+}
+
 function FlatItemHistory({
   events,
   onUndoEvent,
   undoingEventId,
+  showItemName = false,
 }: {
   events: AuditEvent[];
   onUndoEvent?: (undoable: UndoableEvent | UndoableEvent[]) => void;
   undoingEventId?: string | null;
+  /** Prefix each row with its item name — the lot trace can span items,
+   *  and there the lot itself is the title, so the lot suffix is dropped. */
+  showItemName?: boolean;
 }) {
   type HistoryRowData = {
     key: string;
@@ -1015,7 +1184,9 @@ function FlatItemHistory({
     return {
       key: e.eventId,
       timestamp: e.timestamp,
-      summary: buildRichRowSummary(e),
+      summary: showItemName
+        ? `${e.itemName ? `${e.itemName} — ` : ""}${buildRichRowSummary(e)}`
+        : `${buildRichRowSummary(e)}${lotSuffix(e)}`,
       accentColor: ACTION_COLORS[derived] ?? "var(--text-muted)",
       user: e.userName || e.userEmail || "—",
       titleAttr: eventTitleAttr(e),
@@ -1471,26 +1642,6 @@ const BREAKDOWN_TITLES: Record<BreakdownScope, string> = {
   retired: "All items retired",
 };
 
-function downloadCsv(filename: string, rows: string[][]) {
-  const csv = rows
-    .map((row) => row
-      .map((cell) => {
-        const s = String(cell ?? "");
-        return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
-      })
-      .join(","))
-    .join("\n");
-  const blob = new Blob([csv], { type: "text/csv;charset=utf-8" });
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement("a");
-  a.href = url;
-  a.download = filename;
-  document.body.appendChild(a);
-  a.click();
-  document.body.removeChild(a);
-  URL.revokeObjectURL(url);
-}
-
 function BreakdownDrawer({
   scope,
   period,
@@ -2083,6 +2234,189 @@ function AnalyticsDashboard({
   );
 }
 
+// ── Valuation ─────────────────────────────────────────────────────────────────
+
+const VALUATION_METHOD_LABELS: Record<ValuationMethod, string> = {
+  fifo: "FIFO (receive history)",
+  average: "Weighted average cost",
+  vendor: "Latest vendor price",
+};
+
+const COST_SOURCE_LABELS: Record<InventoryValuation["rows"][number]["costSource"], string> = {
+  receipts: "Receipts",
+  vendor: "Vendor price",
+  item: "Item cost",
+  none: "No cost",
+};
+
+/** "YYYY-MM" of the month before this one — the latest closed month end. */
+const lastClosedMonth = (): string => {
+  const d = new Date();
+  d.setDate(1);
+  d.setMonth(d.getMonth() - 1);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}`;
+};
+
+/** Last instant of a "YYYY-MM" month, local time. */
+const monthEndIso = (month: string): string => {
+  const [year, mon] = month.split("-").map(Number);
+  return new Date(new Date(year, mon, 1).getTime() - 1).toISOString();
+};
+
+/** Stock on hand priced by FIFO, weighted average or latest vendor price,
+ *  now or at a closed month end, totalled per location and per category.
+ *  The CSV is the month-end snapshot the finance office asks for. */
+function ValuationReport({ locations }: { locations: InventoryLocation[] }) {
+  const [method, setMethod] = useState<ValuationMethod>("fifo");
+  // "" = as of now; otherwise a closed month, valued at its last instant.
+  const [month, setMonth] = useState("");
+  const [locationId, setLocationId] = useState("");
+  // The last answer and the query it was for; anything else is in flight.
+  const [result, setResult] = useState<{ key: string; valuation: InventoryValuation | null; error: string | null } | null>(null);
+  const requestKey = `${method}|${month}|${locationId}`;
+  const loading = result?.key !== requestKey;
+  const valuation = loading ? null : result.valuation;
+  const error = loading ? null : result.error;
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchInventoryValuation({
+      method,
+      at: month ? monthEndIso(month) : null,
+      locationId: locationId || null,
+    })
+      .then((next) => { if (!cancelled) setResult({ key: requestKey, valuation: next, error: null }); })
+      .catch((err) => {
+        if (cancelled) return;
+        setResult({
+          key: requestKey,
+          valuation: null,
+          error: err instanceof Error ? err.message : "Failed to load the inventory valuation.",
+        });
+      });
+    return () => { cancelled = true; };
+  }, [method, month, locationId, requestKey]);
+
+  const locationLabel = (id: string) => (id ? locationPath(locations, id) || "Unknown location" : "No location");
+
+  const exportCsv = () => {
+    if (!valuation) return;
+    const header = ["Item", "Location", "Category", "Quantity", "Unit cost", "Value", "Cost source"];
+    const lines = valuation.rows.map((row) => [
+      row.itemName,
+      locationLabel(row.locationId),
+      row.group,
+      String(row.quantity),
+      row.unitCost === null ? "" : formatMoneyCsv(row.unitCost),
+      formatMoneyCsv(row.value),
+      COST_SOURCE_LABELS[row.costSource],
+    ]);
+    const total = ["Total", "", "", String(valuation.totalQuantity), "", formatMoneyCsv(valuation.totalValue), ""];
+    const stamp = month || new Date().toISOString().slice(0, 10);
+    downloadCsv(`inventory-valuation-${valuation.method}-${stamp}.csv`, [header, ...lines, total]);
+  };
+
+  return (
+    <div className="audit-analytics">
+      <div className="audit-period-selector">
+        {locations.length > 1 && (
+          <label className="audit-location-selector">
+            <MapPin size={14} className="audit-location-selector-icon" aria-hidden="true" />
+            <CustomDropdown
+              ariaLabel="Value stock at location"
+              value={locationId}
+              onChange={(next) => setLocationId(next)}
+              options={[
+                { value: "", label: "All locations" },
+                ...buildLocationPickerEntries(locations).map((entry) => ({
+                  value: entry.id,
+                  label: entry.label,
+                  depth: entry.depth,
+                  ...(entry.isStation ? { hint: "· all" } : {}),
+                })),
+              ]}
+            />
+          </label>
+        )}
+        <select
+          className="field"
+          value={method}
+          onChange={(e) => setMethod(e.currentTarget.value as ValuationMethod)}
+          aria-label="Costing method"
+        >
+          {(Object.keys(VALUATION_METHOD_LABELS) as ValuationMethod[]).map((key) => (
+            <option key={key} value={key}>{VALUATION_METHOD_LABELS[key]}</option>
+          ))}
+        </select>
+        <label className="audit-period-dropdown">
+          <Calendar size={14} className="audit-period-dropdown-icon" aria-hidden="true" />
+          <input
+            type="month"
+            className="field"
+            value={month}
+            max={lastClosedMonth()}
+            onChange={(e) => setMonth(e.currentTarget.value)}
+            aria-label="Month end (leave blank for today)"
+            title="Value the stock as it stood at the end of this month. Leave blank for today."
+          />
+        </label>
+        {month ? (
+          <button type="button" className="button button-ghost button-sm" onClick={() => setMonth("")}>
+            Today
+          </button>
+        ) : null}
+        <button
+          type="button"
+          className="button button-secondary button-sm"
+          onClick={exportCsv}
+          disabled={!valuation || valuation.rows.length === 0}
+        >
+          <Download size={14} aria-hidden="true" /> Export CSV
+        </button>
+      </div>
+
+      {loading && <LoadingState />}
+      {error && <p className="audit-error">{error}</p>}
+
+      {!loading && valuation && (
+        <>
+          <div className="audit-analytics-summary">
+            <StatCard
+              label={month ? `Stock value at end of ${month}` : "Stock value"}
+              value={formatUsd(valuation.totalValue)}
+              sub={VALUATION_METHOD_LABELS[valuation.method]}
+            />
+            <StatCard label="Units on hand" value={formatQty(valuation.totalQuantity)} />
+            <StatCard
+              label="Units without a cost"
+              value={formatQty(valuation.unvaluedQuantity)}
+              sub={valuation.unvaluedQuantity > 0 ? "Not counted in the total" : undefined}
+            />
+          </div>
+          <div className="audit-analytics-grid">
+            <SimpleBarChart
+              data={valuation.byLocation.map((b) => ({ label: locationLabel(b.key), value: b.value }))}
+              labelKey="label"
+              valueKey="value"
+              title="Value by location"
+              formatValue={formatUsd}
+              emptyHint="Nothing on hand."
+            />
+            <SimpleBarChart
+              data={valuation.byGroup.map((b) => ({ label: b.key || "Uncategorized", value: b.value }))}
+              labelKey="label"
+              valueKey="value"
+              title="Value by category"
+              formatValue={formatUsd}
+              emptyHint="Nothing on hand."
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
 // ── Main page ─────────────────────────────────────────────────────────────────
 
 export function AuditLogPage({ canManageColumns, canEditInventory, isSupportView, onOpenInInventory, onOpenInOrders, onTabChange, initialHistoryItem, onHistoryItemConsumed }: AuditLogPageProps) {
@@ -2108,6 +2442,7 @@ export function AuditLogPage({ canManageColumns, canEditInventory, isSupportView
   const [feedFromDate, setFeedFromDate] = useState("");
   const [feedToDate, setFeedToDate] = useState("");
   const [feedDateFilterOpen, setFeedDateFilterOpen] = useState(false);
+  const [exportOpen, setExportOpen] = useState(false);
   const feedDateFilterRef = useRef<HTMLDivElement | null>(null);
 
   // Click outside / Escape closes the date popover.
@@ -2147,6 +2482,15 @@ export function AuditLogPage({ canManageColumns, canEditInventory, isSupportView
   const [historyLoading, setHistoryLoading] = useState(false);
   const [historySubTab, setHistorySubTab] = useState<"events" | "cost">("events");
 
+  // Recall trace: where a lot / serial code is now and every event that
+  // touched it. Entered from the feed toolbar or an item history's lot chips;
+  // Back returns to whichever view opened it.
+  const [lotCodeInput, setLotCodeInput] = useState("");
+  const [lotTrace, setLotTrace] = useState<LotTraceResponse | null>(null);
+  const [lotTraceLoading, setLotTraceLoading] = useState(false);
+  const [lotTraceError, setLotTraceError] = useState<string | null>(null);
+  const [lotTraceReturnTab, setLotTraceReturnTab] = useState<AuditTab>("feed");
+
   const [analytics, setAnalytics] = useState<AuditAnalytics | null>(null);
   const [analyticsPeriod, setAnalyticsPeriod] = useState<"7d" | "30d" | "90d">("30d");
   const [analyticsLoading, setAnalyticsLoading] = useState(false);
@@ -2257,6 +2601,23 @@ export function AuditLogPage({ canManageColumns, canEditInventory, isSupportView
     }
   }, []);
 
+  const viewLotTrace = useCallback(async (rawCode: string, returnTab: AuditTab) => {
+    const code = rawCode.trim();
+    if (!code) return;
+    setTab("lot-trace");
+    setLotTraceReturnTab(returnTab);
+    setLotTrace(null);
+    setLotTraceError(null);
+    setLotTraceLoading(true);
+    try {
+      setLotTrace(await fetchLotTrace(code));
+    } catch (err: unknown) {
+      setLotTraceError(err instanceof Error ? err.message : "Failed to trace lot.");
+    } finally {
+      setLotTraceLoading(false);
+    }
+  }, []);
+
   // Deep-link consumption: when the parent hands us a target item (e.g. from
   // the pricing modal's "See full activity" link), open its history on the
   // Cost-over-time sub-tab, then clear the target so it doesn't re-fire.
@@ -2345,6 +2706,13 @@ export function AuditLogPage({ canManageColumns, canEditInventory, isSupportView
   // "Parent Item Id: — → {uuid}" rows — pure machine noise.
   const noiseFreeEvents = events.filter((e) => !isNoiseEvent(e));
   const visibleHistoryEvents = historyEvents.filter((e) => !isNoiseEvent(e));
+  const historyLotCodes = collectLotCodes(historyEvents);
+  // Trace events arrive oldest-first (the order a recall reads in); the
+  // day-grouped list expects newest-first like every other feed.
+  const visibleLotTraceEvents = (lotTrace?.events ?? [])
+    .filter((e) => !isNoiseEvent(e))
+    .slice()
+    .reverse();
 
   // Client-side search across the currently-loaded feed. Matches item names
   // and user names case-insensitively. For hits older than what's loaded the
@@ -2388,6 +2756,15 @@ export function AuditLogPage({ canManageColumns, canEditInventory, isSupportView
             <BarChart3 size={16} /> Analytics
           </button>
         )}
+        {canViewAnalytics && (
+          <button
+            type="button"
+            className={`audit-tab${tab === "valuation" ? " active" : ""}`}
+            onClick={() => setTab("valuation")}
+          >
+            <DollarSign size={16} /> Valuation
+          </button>
+        )}
       </div>
 
       {tab === "feed" && (
@@ -2469,7 +2846,50 @@ export function AuditLogPage({ canManageColumns, canEditInventory, isSupportView
                 </div>
               )}
             </div>
+            <form
+              className="audit-lot-trace-form"
+              onSubmit={(e) => {
+                e.preventDefault();
+                void viewLotTrace(lotCodeInput, "feed");
+              }}
+            >
+              <input
+                type="search"
+                className="field audit-lot-trace-input"
+                placeholder="Lot or serial #"
+                value={lotCodeInput}
+                onChange={(e) => setLotCodeInput(e.target.value)}
+                aria-label="Lot or serial number to trace"
+                maxLength={40}
+              />
+              <button
+                type="submit"
+                className="button button-secondary button-sm"
+                disabled={!lotCodeInput.trim()}
+                title="Show where this lot is now and everything that happened to it"
+              >
+                <Hash size={14} /> Trace
+              </button>
+            </form>
+            {canManageColumns && (
+              <button
+                type="button"
+                className="button button-secondary button-sm"
+                onClick={() => setExportOpen(true)}
+                title="Download the activity log for an inspector or auditor"
+              >
+                <Download size={14} /> Export
+              </button>
+            )}
           </div>
+          {exportOpen && (
+            <AuditExportDialog
+              locations={analyticsLocations}
+              initialFromDate={feedFromDate}
+              initialToDate={feedToDate}
+              onClose={() => setExportOpen(false)}
+            />
+          )}
 
           {error && <p className="audit-error">{error}</p>}
 
@@ -2544,6 +2964,23 @@ export function AuditLogPage({ canManageColumns, canEditInventory, isSupportView
             <Package size={18} /> {historyItemName}
           </h3>
 
+          {historyLotCodes.length > 0 && (
+            <div className="audit-lot-chips" aria-label="Lots and serials seen for this item">
+              <span className="audit-lot-chips-label">Lots:</span>
+              {historyLotCodes.map((code) => (
+                <button
+                  key={code}
+                  type="button"
+                  className="audit-lot-chip"
+                  onClick={() => void viewLotTrace(code, "item-history")}
+                  title={`Trace ${code}`}
+                >
+                  {code}
+                </button>
+              ))}
+            </div>
+          )}
+
           <div className="audit-item-history-subtabs" role="tablist" aria-label="Item history view">
             <button
               type="button"
@@ -2602,6 +3039,69 @@ export function AuditLogPage({ canManageColumns, canEditInventory, isSupportView
         </div>
       )}
 
+      {tab === "lot-trace" && (
+        <div className="audit-feed">
+          <div className="audit-item-history-toolbar">
+            <button
+              type="button"
+              className="button button-ghost button-sm audit-back-btn"
+              onClick={() => setTab(lotTraceReturnTab)}
+            >
+              <ChevronLeft size={14} /> {lotTraceReturnTab === "item-history" ? `Back to ${historyItemName}` : "Back to Activity"}
+            </button>
+          </div>
+          <h3 className="audit-item-history-title">
+            <Hash size={18} /> {lotTrace?.code ?? lotCodeInput.trim()}
+          </h3>
+
+          {lotTraceError && <p className="audit-error">{lotTraceError}</p>}
+
+          {lotTraceLoading && <LoadingState />}
+
+          {!lotTraceLoading && lotTrace && (
+            <>
+              <h4 className="audit-lot-trace-heading">Where it is now</h4>
+              {lotTrace.holdings.length === 0 ? (
+                <p className="audit-lot-trace-empty">
+                  No inventory rows carry this code — it's been used up, or
+                  was never received under it.
+                </p>
+              ) : (
+                <table className="order-detail-table audit-lot-trace-table">
+                  <thead>
+                    <tr>
+                      <th>Item</th>
+                      <th>Location</th>
+                      <th>Qty</th>
+                      <th>Lot / Serial</th>
+                      <th>Expires</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {lotTrace.holdings.map((h) => (
+                      <tr key={h.itemId}>
+                        <td>{h.itemName}</td>
+                        <td>{h.locationName || "—"}</td>
+                        <td>{h.retired ? `${formatQty(h.quantity)} (retired)` : formatQty(h.quantity)}</td>
+                        <td>{[h.lotNumber, h.serialNumber ? `SN ${h.serialNumber}` : ""].filter(Boolean).join(" · ") || "—"}</td>
+                        <td>{h.expirationDate || "—"}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+
+              <h4 className="audit-lot-trace-heading">History</h4>
+              {visibleLotTraceEvents.length === 0 ? (
+                <EmptyState icon={Clock} title="No activity recorded for this code" />
+              ) : (
+                <FlatItemHistory events={visibleLotTraceEvents} showItemName />
+              )}
+            </>
+          )}
+        </div>
+      )}
+
       {tab === "analytics" && canViewAnalytics && (
         <div className="audit-analytics">
           {/* Location (scope) on the left, period (window) on the right.
@@ -2684,6 +3184,10 @@ export function AuditLogPage({ canManageColumns, canEditInventory, isSupportView
           ) : null}
         </div>
       )}
+
+      {tab === "valuation" && canViewAnalytics && (
+        <ValuationReport locations={analyticsLocations} />
+      )}
     </section>
   );
 }
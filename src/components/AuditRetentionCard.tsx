@@ -0,0 +1,118 @@
+import { useEffect, useState } from "react";
+import { ChevronRight } from "lucide-react";
+import { fetchAuditRetention, saveAuditRetention, type AuditRetention } from "../lib/inventoryApi";
+import { useToast } from "./shared/Toast";
+import { ConfirmDialog } from "./shared/ConfirmDialog";
+
+const yearsLabel = (years: number): string => `${years} year${years === 1 ? "" : "s"}`;
+
+/**
+ * How long the activity log is kept. Admins can see the setting; only the
+ * owner can change it. Recent activity stays in the live log and older
+ * activity moves to a cold archive that the Activity page still reads.
+ * Shortening the period asks for confirmation, because archived records past
+ * the new limit are deleted for good on the next nightly sweep.
+ */
+export function AuditRetentionCard({ open = true, canEdit }: { open?: boolean; canEdit: boolean }) {
+  const toast = useToast();
+  const [retention, setRetention] = useState<AuditRetention | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [selectedYears, setSelectedYears] = useState(0);
+  const [saving, setSaving] = useState(false);
+  const [confirmShorten, setConfirmShorten] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchAuditRetention()
+      .then((r) => {
+        if (cancelled) return;
+        setRetention(r);
+        setSelectedYears(r.retentionYears);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setLoadError(err instanceof Error ? err.message : "Failed to load activity retention.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const save = async () => {
+    setConfirmShorten(false);
+    setSaving(true);
+    try {
+      const r = await saveAuditRetention(selectedYears);
+      setRetention(r);
+      setSelectedYears(r.retentionYears);
+      toast.success(`Activity is now kept for ${yearsLabel(r.retentionYears)}.`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not save activity retention.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const dirty = !!retention && selectedYears !== retention.retentionYears;
+  const shortening = !!retention && selectedYears < retention.retentionYears;
+
+  return (
+    <details className="settings-section" open={open}>
+      <summary className="settings-section-title">
+        Activity Retention
+        <ChevronRight size={16} className="settings-section-chevron" aria-hidden="true" />
+      </summary>
+
+      <p className="settings-section-copy">
+        How long the activity log is kept. The most recent{" "}
+        {retention ? `${retention.hotDays} days stay` : "year stays"} in the live log; older activity
+        moves to a secure archive and still shows up on the Activity page and in item history.
+      </p>
+
+      {loadError ? (
+        <p className="audit-error">{loadError}</p>
+      ) : !retention ? (
+        <p className="settings-section-copy">Loading…</p>
+      ) : canEdit ? (
+        <div style={{ display: "flex", gap: "0.5rem", alignItems: "center", flexWrap: "wrap" }}>
+          <label className="settings-column-select" style={{ gap: "0.4rem" }}>
+            <span>Keep activity for</span>
+            <select
+              value={selectedYears}
+              onChange={(e) => setSelectedYears(Number(e.target.value))}
+              disabled={saving}
+            >
+              {retention.options.map((years) => (
+                <option key={years} value={years}>
+                  {yearsLabel(years)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button
+            type="button"
+            className="button button-primary button-sm"
+            disabled={!dirty || saving}
+            onClick={() => (shortening ? setConfirmShorten(true) : void save())}
+          >
+            {saving ? "Saving…" : "Save"}
+          </button>
+        </div>
+      ) : (
+        <p className="settings-section-copy">
+          Activity is kept for <strong>{yearsLabel(retention.retentionYears)}</strong>. Only the
+          organization owner can change this.
+        </p>
+      )}
+
+      {confirmShorten && retention && (
+        <ConfirmDialog
+          title="Shorten activity retention?"
+          message={`Archived activity older than ${yearsLabel(selectedYears)} will be permanently deleted on the next nightly sweep. This can't be undone.`}
+          confirmLabel="Shorten retention"
+          onConfirm={() => void save()}
+          onCancel={() => setConfirmShorten(false)}
+        />
+      )}
+    </details>
+  );
+}
@@ -0,0 +1,354 @@
+import { useEffect, useMemo, useState } from "react";
+import { ChevronRight, Pencil, Plus, Trash2 } from "lucide-react";
+import {
+  deleteBudget,
+  listBudgets,
+  saveBudget,
+  type BudgetStatus,
+  type InventoryColumn,
+  type InventoryLocation,
+} from "../lib/inventoryApi";
+import { formatCurrency } from "../lib/currency";
+import { buildLocationPickerEntries, locationPath } from "../lib/locationTree";
+import { useToast } from "./shared/Toast";
+
+/** Form-side budget: amount kept as text so the input can be cleared mid-edit. */
+type BudgetDraft = {
+  id?: string;
+  name: string;
+  locationId: string;
+  columnKey: string;
+  columnValue: string;
+  periodStart: string;
+  periodEnd: string;
+  amount: string;
+};
+
+/** Defaults to the current calendar year. */
+const emptyDraft = (): BudgetDraft => {
+  const year = new Date().getFullYear();
+  return {
+    name: "",
+    locationId: "",
+    columnKey: "",
+    columnValue: "",
+    periodStart: `${year}-01-01`,
+    periodEnd: `${year}-12-31`,
+    amount: "",
+  };
+};
+
+const toDraft = (b: BudgetStatus): BudgetDraft => ({
+  id: b.id,
+  name: b.name,
+  locationId: b.locationId ?? "",
+  columnKey: b.columnKey ?? "",
+  columnValue: b.columnValue ?? "",
+  periodStart: b.periodStart,
+  periodEnd: b.periodEnd,
+  amount: String(b.amount),
+});
+
+/**
+ * Admin control for supply budgets: an amount per fiscal period, scoped to a
+ * location (a station covers its cabinets), a groupable column value, or
+ * both. Received orders count as spent; what's still to arrive on open
+ * orders counts as committed. The dashboard burns these down and the order
+ * form warns before an order would go over.
+ */
+export function BudgetsCard({
+  open = true,
+  columns,
+  locations,
+}: {
+  open?: boolean;
+  columns: InventoryColumn[];
+  locations: InventoryLocation[];
+}) {
+  const toast = useToast();
+  const [budgets, setBudgets] = useState<BudgetStatus[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [draft, setDraft] = useState<BudgetDraft | null>(null);
+
+  const reload = async () => {
+    try {
+      setBudgets(await listBudgets());
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not load budgets.");
+    }
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const list = await listBudgets();
+        if (!cancelled) setBudgets(list);
+      } catch {
+        // Non-fatal: the card shows no budgets and can still add one.
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const groupableColumns = useMemo(() => columns.filter((c) => c.isGroupable), [columns]);
+  const locationEntries = useMemo(() => buildLocationPickerEntries(locations), [locations]);
+  const labelFor = (key: string) => columns.find((c) => c.key === key)?.label ?? key;
+
+  const scopeLabel = (b: BudgetStatus) => {
+    const parts: string[] = [];
+    parts.push(b.locationId ? locationPath(locations, b.locationId) || "Removed location" : "All locations");
+    if (b.columnKey) parts.push(`${labelFor(b.columnKey)} = "${b.columnValue ?? ""}"`);
+    return parts.join(" · ");
+  };
+
+  const amount = draft ? Number(draft.amount) : NaN;
+  const draftError = !draft
+    ? null
+    : !draft.name.trim()
+      ? "Give the budget a name."
+      : !draft.periodStart || !draft.periodEnd || draft.periodEnd < draft.periodStart
+        ? "The period must end on or after its start."
+        : !Number.isFinite(amount) || amount <= 0
+          ? "Enter an amount above zero."
+          : draft.columnKey && !draft.columnValue.trim()
+            ? "Enter the column value this budget covers."
+            : null;
+
+  const updateDraft = (patch: Partial<BudgetDraft>) => {
+    setDraft((prev) => (prev ? { ...prev, ...patch } : prev));
+  };
+
+  const handleSave = async () => {
+    if (!draft || draftError || saving) return;
+    setSaving(true);
+    try {
+      await saveBudget({
+        ...(draft.id ? { id: draft.id } : {}),
+        name: draft.name.trim(),
+        ...(draft.locationId ? { locationId: draft.locationId } : {}),
+        ...(draft.columnKey ? { columnKey: draft.columnKey, columnValue: draft.columnValue.trim() } : {}),
+        periodStart: draft.periodStart,
+        periodEnd: draft.periodEnd,
+        amount,
+      });
+      setDraft(null);
+      await reload();
+      toast.success("Budget saved.");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not save the budget.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (b: BudgetStatus) => {
+    if (!window.confirm(`Delete the budget "${b.name}"?`)) return;
+    setSaving(true);
+    try {
+      await deleteBudget(b.id);
+      setBudgets((prev) => prev.filter((x) => x.id !== b.id));
+      if (draft?.id === b.id) setDraft(null);
+      toast.success("Budget deleted.");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not delete the budget.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <details className="settings-section" open={open}>
+      <summary className="settings-section-title">
+        Budgets
+        <ChevronRight size={16} className="settings-section-chevron" aria-hidden="true" />
+      </summary>
+
+      <p className="settings-section-copy">
+        Supply budgets per location or category for a fiscal period. Received
+        orders count as <strong>spent</strong>; what's still to arrive on open
+        orders counts as <strong>on order</strong>. The dashboard shows the
+        burn-down, and the order form warns before an order would go over.
+      </p>
+
+      {loading ? (
+        <p className="settings-section-copy">Loading…</p>
+      ) : (
+        <div style={{ display: "flex", flexDirection: "column", gap: "0.75rem" }}>
+          {budgets.length > 0 ? (
+            <div className="settings-columns-list">
+              {budgets.map((b) => (
+                <div className="settings-column-row" key={b.id}>
+                  <div className="settings-column-visibility" style={{ flexDirection: "column", alignItems: "flex-start", gap: "0.15rem" }}>
+                    <strong>{b.name}</strong>
+                    <span className="settings-section-copy" style={{ margin: 0 }}>
+                      {scopeLabel(b)} · {b.periodStart} – {b.periodEnd}
+                    </span>
+                    <span
+                      className={b.status === "ok" ? "settings-section-copy" : "settings-error"}
+                      style={{ margin: 0 }}
+                    >
+                      {formatCurrency(b.actual)} spent
+                      {b.committed > 0 ? ` + ${formatCurrency(b.committed)} on order` : ""} of {formatCurrency(b.amount)}
+                      {b.status === "over" ? ` — ${formatCurrency(-b.remaining)} over` : ""}
+                    </span>
+                  </div>
+                  <div className="settings-column-actions">
+                    <button
+                      type="button"
+                      className="button button-ghost button-sm"
+                      onClick={() => setDraft(toDraft(b))}
+                      disabled={saving}
+                      aria-label={`Edit ${b.name}`}
+                    >
+                      <Pencil size={14} aria-hidden="true" />
+                    </button>
+                    <button
+                      type="button"
+                      className="button button-ghost button-sm"
+                      onClick={() => void handleDelete(b)}
+                      disabled={saving}
+                      aria-label={`Delete ${b.name}`}
+                    >
+                      <Trash2 size={14} aria-hidden="true" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="settings-section-copy" style={{ margin: 0 }}>No budgets yet.</p>
+          )}
+
+          {draft ? (
+            <div style={{ display: "flex", flexDirection: "column", gap: "0.6rem" }}>
+              <label className="settings-column-select" style={{ gap: "0.4rem" }}>
+                <span>Name</span>
+                <input
+                  className="field"
+                  type="text"
+                  value={draft.name}
+                  placeholder="Station 1 supplies FY26"
+                  onChange={(e) => updateDraft({ name: e.target.value })}
+                  disabled={saving}
+                />
+              </label>
+              <label className="settings-column-select" style={{ gap: "0.4rem" }}>
+                <span>Location</span>
+                <select
+                  value={draft.locationId}
+                  onChange={(e) => updateDraft({ locationId: e.target.value })}
+                  disabled={saving}
+                >
+                  <option value="">All locations</option>
+                  {locationEntries.map((entry) => (
+                    <option key={entry.id} value={entry.id}>
+                      {entry.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <div className="settings-column-visibility" style={{ gap: "0.4rem", flexWrap: "wrap" }}>
+                <select
+                  value={draft.columnKey}
+                  onChange={(e) => updateDraft({ columnKey: e.target.value })}
+                  disabled={saving || groupableColumns.length === 0}
+                  aria-label="Budget column"
+                >
+                  <option value="">Any item</option>
+                  {groupableColumns.map((c) => (
+                    <option key={c.key} value={c.key}>
+                      {c.label}
+                    </option>
+                  ))}
+                </select>
+                {draft.columnKey ? (
+                  <>
+                    <span>is</span>
+                    <input
+                      className="field"
+                      type="text"
+                      value={draft.columnValue}
+                      placeholder="Value"
+                      onChange={(e) => updateDraft({ columnValue: e.target.value })}
+                      disabled={saving}
+                      aria-label="Budget column value"
+                      style={{ width: "9rem" }}
+                    />
+                  </>
+                ) : null}
+              </div>
+              <div className="settings-column-visibility" style={{ gap: "0.4rem", flexWrap: "wrap" }}>
+                <input
+                  className="field"
+                  type="date"
+                  value={draft.periodStart}
+                  onChange={(e) => updateDraft({ periodStart: e.target.value })}
+                  disabled={saving}
+                  aria-label="Period start"
+                />
+                <span>to</span>
+                <input
+                  className="field"
+                  type="date"
+                  value={draft.periodEnd}
+                  onChange={(e) => updateDraft({ periodEnd: e.target.value })}
+                  disabled={saving}
+                  aria-label="Period end"
+                />
+                <input
+                  className="field"
+                  type="text"
+                  inputMode="decimal"
+                  value={draft.amount}
+                  placeholder="Amount"
+                  onChange={(e) => updateDraft({ amount: e.target.value })}
+                  disabled={saving}
+                  aria-label="Budget amount"
+                  style={{ width: "8rem" }}
+                />
+              </div>
+              <div style={{ display: "flex", gap: "0.5rem", alignItems: "center", flexWrap: "wrap" }}>
+                <button
+                  type="button"
+                  className="button button-primary button-sm"
+                  onClick={() => void handleSave()}
+                  disabled={saving || draftError !== null}
+                >
+                  {saving ? "Saving…" : "Save"}
+                </button>
+                <button
+                  type="button"
+                  className="button button-ghost button-sm"
+                  onClick={() => setDraft(null)}
+                  disabled={saving}
+                >
+                  Cancel
+                </button>
+                {draftError ? (
+                  <span className="settings-error" style={{ margin: 0 }}>{draftError}</span>
+                ) : null}
+              </div>
+            </div>
+          ) : (
+            <div>
+              <button
+                type="button"
+                className="button button-secondary button-sm"
+                onClick={() => setDraft(emptyDraft())}
+                disabled={saving}
+              >
+                <Plus size={14} aria-hidden="true" /> Add budget
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </details>
+  );
+}
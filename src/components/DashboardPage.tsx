@@ -1,13 +1,20 @@
 import { useEffect, useMemo, useState } from "react";
-import { AlertTriangle, Check, ChevronDown, ChevronRight, ClipboardList, Package, ShoppingCart } from "lucide-react";
+import { AlertTriangle, Check, ChevronDown, ChevronRight, ClipboardList, DollarSign, Package, ShoppingCart } from "lucide-react";
 import { LoadingState } from "./shared/LoadingState";
+import { OrderApprovalNotices } from "./OrderApprovalNotices";
 import type { AppModuleKey } from "../lib/moduleRegistry";
 import {
   fetchInventoryAlertSummary,
+  fetchInventoryValuation,
+  listBudgets,
   listInventoryLocations,
+  type BudgetStatus,
   type InventoryAlertSummary,
   type InventoryLocation,
+  type InventoryValuation,
 } from "../lib/inventoryApi";
+import { formatCurrency } from "../lib/currency";
+import { budgetIsCurrent, toIsoDay } from "../lib/budgets";
 import { pickLoadingLine } from "../lib/loadingLines";
 import { buildLocationPickerEntries, locationsInScope, locationPath } from "../lib/locationTree";
 
@@ -23,6 +30,8 @@ interface DashboardPageProps {
   /** Navigate to Inventory with a filter pre-applied. The optional locationId
    *  scopes the inventory view; pass undefined to leave the current scope. */
   onNavigateToInventoryWithFilter?: (filter: InventoryFilter, locationId?: string | null) => void;
+  /** Admins see what the displayed scope's stock on hand is worth (FIFO). */
+  canViewValuation?: boolean;
 }
 
 export function DashboardPage({
@@ -32,9 +41,12 @@ export function DashboardPage({
   onSelectedLocationIdChange,
   onNavigate,
   onNavigateToInventoryWithFilter,
+  canViewValuation,
 }: DashboardPageProps) {
   const [alertSummary, setAlertSummary] = useState<InventoryAlertSummary | null>(null);
   const [structuralLocations, setStructuralLocations] = useState<InventoryLocation[]>([]);
+  const [valuation, setValuation] = useState<InventoryValuation | null>(null);
+  const [budgets, setBudgets] = useState<BudgetStatus[]>([]);
   const [loading, setLoading] = useState(true);
   const [loadingMessage, setLoadingMessage] = useState(() => pickLoadingLine());
 
@@ -52,6 +64,7 @@ export function DashboardPage({
     void Promise.all([
       fetchInventoryAlertSummary().then(setAlertSummary),
       listInventoryLocations().then(setStructuralLocations).catch(() => setStructuralLocations([])),
+      listBudgets().then(setBudgets).catch(() => setBudgets([])),
     ]).finally(() => setLoading(false));
   }, [canSeeAlerts]);
 
@@ -116,6 +129,31 @@ export function DashboardPage({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [validSelection, pickerEntries]);
 
+  // Value tile follows the displayed scope. Failures just hide the tile.
+  useEffect(() => {
+    if (!canViewValuation || !canSeeAlerts || !displayedScopeId) {
+      setValuation(null);
+      return;
+    }
+    let cancelled = false;
+    fetchInventoryValuation({ method: "fifo", locationId: displayedScopeId })
+      .then((result) => { if (!cancelled) setValuation(result); })
+      .catch(() => { if (!cancelled) setValuation(null); });
+    return () => { cancelled = true; };
+  }, [canViewValuation, canSeeAlerts, displayedScopeId]);
+
+  // Budgets running today that touch the displayed scope: org-wide ones, ones
+  // for a location inside it, and the station's budget when a cabinet is shown.
+  const scopeBudgets = useMemo(() => {
+    const today = toIsoDay(new Date());
+    const inScope = locationsInScope(structuralLocations, displayedScopeId);
+    return budgets.filter((b) => budgetIsCurrent(b, today) && (
+      !b.locationId
+      || inScope.has(b.locationId)
+      || locationsInScope(structuralLocations, b.locationId).has(displayedScopeId)
+    ));
+  }, [budgets, structuralLocations, displayedScopeId]);
+
   // Alert counts for the displayed scope (a station sums its cabinets).
   const activeAlerts = alertSummary && displayedScopeId ? countsForScope(displayedScopeId) : null;
 
@@ -166,6 +204,61 @@ export function DashboardPage({
             )}
           </div>
 
+          {valuation ? (
+            <div className="dash-value-tile">
+              <span className="dash-value-tile-icon" aria-hidden="true"><DollarSign size={16} /></span>
+              <span className="dash-value-tile-label">Stock on hand{displayedLocation ? ` at ${displayedLocation}` : ""}</span>
+              <span className="dash-value-tile-value">{formatCurrency(valuation.totalValue)}</span>
+              {valuation.unvaluedQuantity > 0 ? (
+                <span className="dash-value-tile-sub">
+                  {valuation.unvaluedQuantity.toLocaleString()} unit{valuation.unvaluedQuantity === 1 ? "" : "s"} have no recorded cost
+                </span>
+              ) : null}
+            </div>
+          ) : null}
+
+          {scopeBudgets.length > 0 ? (
+            <div className="dash-budgets">
+              {scopeBudgets.map((b) => {
+                const pct = (value: number) => `${Math.min(100, Math.max(0, (value / b.amount) * 100))}%`;
+                return (
+                  <div key={b.id} className={`dash-budget dash-budget--${b.status}`}>
+                    <div className="dash-budget-header">
+                      <span className="dash-budget-name">{b.name}</span>
+                      <span className="dash-budget-left">
+                        {b.remaining >= 0
+                          ? `${formatCurrency(b.remaining)} left`
+                          : `${formatCurrency(-b.remaining)} over`}
+                      </span>
+                    </div>
+                    {/* Spent, then on order, against a marker for how much of
+                        the period has gone by — spend past the marker is
+                        running ahead of pace. */}
+                    <div
+                      className="dash-budget-track"
+                      role="img"
+                      aria-label={`${formatCurrency(b.actual)} spent and ${formatCurrency(b.committed)} on order of ${formatCurrency(b.amount)}`}
+                    >
+                      <div className="dash-budget-fill" style={{ width: pct(b.actual) }} />
+                      <div
+                        className="dash-budget-fill dash-budget-fill--committed"
+                        style={{ left: pct(b.actual), width: pct(Math.min(b.committed, Math.max(0, b.amount - b.actual))) }}
+                      />
+                      <div className="dash-budget-pace" style={{ left: `${b.elapsed * 100}%` }} />
+                    </div>
+                    <span className="dash-budget-sub">
+                      {formatCurrency(b.actual)} spent
+                      {b.committed > 0 ? ` · ${formatCurrency(b.committed)} on order` : ""} of {formatCurrency(b.amount)}
+                      {" "}· {Math.round(b.elapsed * 100)}% of the period gone
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          ) : null}
+
+          {canEditInventory ? <OrderApprovalNotices onOpenOrders={() => onNavigate("orders")} /> : null}
+
           {activeAlerts && !hasAlerts && displayedLocation ? (
             <div className="dash-no-alerts">
               <span className="dash-no-alerts-icon" aria-hidden="true"><Check size={16} /></span>
@@ -200,7 +293,7 @@ export function DashboardPage({
                     <AlertTriangle size={16} strokeWidth={2} />
                   </span>
                   <span className="app-alert-card__text">
-                    {activeAlerts.expiringSoonCount} item{activeAlerts.expiringSoonCount !== 1 ? "s" : ""} expiring within 30 days
+                    {activeAlerts.expiringSoonCount} item{activeAlerts.expiringSoonCount !== 1 ? "s" : ""} expiring soon
                   </span>
                   <span className="app-alert-card__action">View <ChevronRight size={14} /></span>
                 </button>
@@ -0,0 +1,266 @@
+import { useEffect, useMemo, useState } from "react";
+import { ChevronRight, Plus, Trash2 } from "lucide-react";
+import {
+  loadExpirationSettings,
+  saveExpirationSettings,
+  type InventoryColumn,
+} from "../lib/inventoryApi";
+import {
+  DEFAULT_EXPIRATION_SETTINGS,
+  MAX_EXPIRATION_WARNING_DAYS,
+  parseWarningDays,
+  type ExpirationSettings,
+} from "../lib/expiration";
+import { useToast } from "./shared/Toast";
+
+/** Form-side rule: days kept as text so the input can be cleared mid-edit. */
+type RuleDraft = { columnKey: string; value: string; days: string };
+
+const toDrafts = (settings: ExpirationSettings): RuleDraft[] =>
+  settings.rules.map((r) => ({ columnKey: r.columnKey, value: r.value, days: String(r.warningDays) }));
+
+/** Core keys that can't meaningfully drive a warning window. */
+const EXCLUDED_KEYS = new Set(["quantity", "minQuantity", "parQuantity", "expirationDate"]);
+
+/**
+ * Admin control for the "expiring soon" window. Three tiers, first match
+ * wins per lot: a number column holding each item's own window, then
+ * column-value rules (Category = "Narcotics" → 7 days), then the org default.
+ * The Expiring tab, dashboard alerts, and email digest all resolve the same
+ * way. Non-admins see the current configuration read-only.
+ */
+export function ExpirationSettingsCard({
+  open = true,
+  columns,
+  canManage,
+}: {
+  open?: boolean;
+  columns: InventoryColumn[];
+  canManage: boolean;
+}) {
+  const toast = useToast();
+  const [saved, setSaved] = useState<ExpirationSettings>(DEFAULT_EXPIRATION_SETTINGS);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [defaultDays, setDefaultDays] = useState(String(DEFAULT_EXPIRATION_SETTINGS.defaultWarningDays));
+  const [itemColumnKey, setItemColumnKey] = useState("");
+  const [rules, setRules] = useState<RuleDraft[]>([]);
+
+  const applySettings = (s: ExpirationSettings) => {
+    setSaved(s);
+    setDefaultDays(String(s.defaultWarningDays));
+    setItemColumnKey(s.itemColumnKey ?? "");
+    setRules(toDrafts(s));
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const s = await loadExpirationSettings();
+        if (!cancelled) applySettings(s);
+      } catch {
+        // Non-fatal: the form shows the 30-day default.
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const numberColumns = useMemo(
+    () => columns.filter((c) => c.type === "number" && !EXCLUDED_KEYS.has(c.key)),
+    [columns],
+  );
+  const ruleColumns = useMemo(
+    () => columns.filter((c) => (c.type === "text" || c.isGroupable) && !EXCLUDED_KEYS.has(c.key) && c.key !== "itemName"),
+    [columns],
+  );
+  const labelFor = (key: string) => columns.find((c) => c.key === key)?.label ?? key;
+
+  const parsedDefault = parseWarningDays(defaultDays);
+  const rulesValid = rules.every(
+    (r) => r.columnKey && r.value.trim() && parseWarningDays(r.days) !== null,
+  );
+  const canSave = canManage && !saving && parsedDefault !== null && rulesValid;
+
+  const updateRule = (index: number, patch: Partial<RuleDraft>) => {
+    setRules((prev) => prev.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+  };
+
+  const handleSave = async () => {
+    if (!canSave || parsedDefault === null) return;
+    setSaving(true);
+    try {
+      const s = await saveExpirationSettings({
+        defaultWarningDays: parsedDefault,
+        ...(itemColumnKey ? { itemColumnKey } : {}),
+        rules: rules.map((r) => ({
+          columnKey: r.columnKey,
+          value: r.value.trim(),
+          warningDays: parseWarningDays(r.days) ?? parsedDefault,
+        })),
+      });
+      applySettings(s);
+      toast.success("Expiration warnings saved. Reload Inventory to apply.");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not save expiration warnings.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <details className="settings-section" open={open}>
+      <summary className="settings-section-title">
+        Expiration Warnings
+        <ChevronRight size={16} className="settings-section-chevron" aria-hidden="true" />
+      </summary>
+
+      <p className="settings-section-copy">
+        How far ahead an item counts as <strong>expiring soon</strong> on the
+        Expiring tab, dashboard alerts, and email digests. An item's own
+        warning column wins, then the first matching rule, then the default.
+      </p>
+
+      {loading ? (
+        <p className="settings-section-copy">Loading…</p>
+      ) : !canManage ? (
+        <div className="settings-readonly-list">
+          <p className="settings-section-copy">
+            Default: {saved.defaultWarningDays} days
+            {saved.itemColumnKey ? ` · per-item column: ${labelFor(saved.itemColumnKey)}` : ""}
+          </p>
+          {saved.rules.map((r, i) => (
+            <p key={i} className="settings-section-copy">
+              {labelFor(r.columnKey)} = "{r.value}" → {r.warningDays} days
+            </p>
+          ))}
+          <p className="settings-section-copy">Only administrators can change expiration warnings.</p>
+        </div>
+      ) : (
+        <div style={{ display: "flex", flexDirection: "column", gap: "0.75rem" }}>
+          <label className="settings-column-select" style={{ gap: "0.4rem" }}>
+            <span>Default window (days)</span>
+            <input
+              className="field"
+              type="text"
+              inputMode="numeric"
+              value={defaultDays}
+              onChange={(e) => setDefaultDays(e.target.value)}
+              disabled={saving}
+              style={{ width: "6rem" }}
+              aria-invalid={parsedDefault === null}
+            />
+          </label>
+
+          <label className="settings-column-select" style={{ gap: "0.4rem" }}>
+            <span>Per-item window column</span>
+            <select
+              value={itemColumnKey}
+              onChange={(e) => setItemColumnKey(e.target.value)}
+              disabled={saving}
+            >
+              <option value="">None</option>
+              {numberColumns.map((c) => (
+                <option key={c.key} value={c.key}>
+                  {c.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          {numberColumns.length === 0 ? (
+            <p className="settings-section-copy" style={{ margin: 0 }}>
+              Add a number column (e.g. "Warning Days") to set a window on individual items.
+            </p>
+          ) : null}
+
+          <div className="settings-columns-list">
+            {rules.map((rule, index) => (
+              <div className="settings-column-row" key={index}>
+                <div className="settings-column-visibility" style={{ gap: "0.4rem", flexWrap: "wrap" }}>
+                  <select
+                    value={rule.columnKey}
+                    onChange={(e) => updateRule(index, { columnKey: e.target.value })}
+                    disabled={saving}
+                    aria-label="Rule column"
+                  >
+                    <option value="" disabled>Column…</option>
+                    {ruleColumns.map((c) => (
+                      <option key={c.key} value={c.key}>
+                        {c.label}
+                      </option>
+                    ))}
+                  </select>
+                  <span>is</span>
+                  <input
+                    className="field"
+                    type="text"
+                    value={rule.value}
+                    placeholder="Value"
+                    onChange={(e) => updateRule(index, { value: e.target.value })}
+                    disabled={saving}
+                    aria-label="Rule value"
+                    style={{ width: "9rem" }}
+                  />
+                  <span>→</span>
+                  <input
+                    className="field"
+                    type="text"
+                    inputMode="numeric"
+                    value={rule.days}
+                    onChange={(e) => updateRule(index, { days: e.target.value })}
+                    disabled={saving}
+                    aria-label="Rule window in days"
+                    aria-invalid={parseWarningDays(rule.days) === null}
+                    style={{ width: "5rem" }}
+                  />
+                  <span>days</span>
+                </div>
+                <div className="settings-column-actions">
+                  <button
+                    type="button"
+                    className="button button-ghost button-sm"
+                    onClick={() => setRules((prev) => prev.filter((_, i) => i !== index))}
+                    disabled={saving}
+                    aria-label="Remove rule"
+                  >
+                    <Trash2 size={14} aria-hidden="true" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div style={{ display: "flex", gap: "0.5rem", alignItems: "center", flexWrap: "wrap" }}>
+            <button
+              type="button"
+              className="button button-secondary button-sm"
+              onClick={() =>
+                setRules((prev) => [...prev, { columnKey: ruleColumns[0]?.key ?? "", value: "", days: "7" }])
+              }
+              disabled={saving || ruleColumns.length === 0}
+            >
+              <Plus size={14} aria-hidden="true" /> Add rule
+            </button>
+            <button
+              type="button"
+              className="button button-primary button-sm"
+              onClick={() => void handleSave()}
+              disabled={!canSave}
+            >
+              {saving ? "Saving…" : "Save"}
+            </button>
+            {parsedDefault === null || !rulesValid ? (
+              <span className="settings-error" style={{ margin: 0 }}>
+                Windows must be 1–{MAX_EXPIRATION_WARNING_DAYS} days, and each rule needs a column and value.
+              </span>
+            ) : null}
+          </div>
+        </div>
+      )}
+    </details>
+  );
+}
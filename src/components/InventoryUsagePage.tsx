@@ -1,8 +1,10 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { createPortal } from "react-dom";
-import { Plus, X } from "lucide-react";
+import { Plus, ScanLine, X } from "lucide-react";
 import { LoadingState } from "./shared/LoadingState";
 import { QtyStepper } from "./shared/QtyStepper";
+import { ScanDialog } from "./shared/ScanDialog";
+import type { ScanTarget } from "../lib/scanLinks";
 import {
   isInventoryProvisioningError,
   loadInventoryBootstrap,
@@ -12,6 +14,7 @@ import {
   type InventoryRow,
   type InventoryUsageEntryInput,
 } from "../lib/inventoryApi";
+import { isMutationQueuedError } from "../lib/offlineQueue";
 
 /** Compact time labels for the recent-submissions list. Today shows the
  *  clock; other dates show month/day. Identical pattern the original
@@ -39,9 +42,18 @@ type UsageEntry = {
    *  packSize > 0; the toggle UI hides itself for non-pack items so single
    *  is implicit. Default "single" — the most common case ("used 1 pad"). */
   usageMode: "single" | "pack";
+  /** Item-level line: `itemId` anchors the logical item and the server
+   *  draws its lots at the location earliest-expiration first. False for a
+   *  line pinned to one lot (lot picking, or a scanned lot label). */
+  fefo: boolean;
   error: string;
 };
 
+/** "item" lists each item once per location and lets the server pick lots
+ *  oldest-first; "lot" lists every lot so the user picks the exact one. */
+type PickBy = "item" | "lot";
+const PICK_BY_STORAGE_KEY = "wickops.usage.pickBy";
+
 type UsageGroup = {
   id: string;
   location: string;
@@ -52,6 +64,7 @@ type UsageGroup = {
 const DEFAULT_PROVISIONING_RETRY_MS = 2000;
 import { pickLoadingLine } from "../lib/loadingLines";
 import { buildLocationPickerEntries, locationsInScope } from "../lib/locationTree";
+import { isExpired } from "../lib/expiration";
 
 const toDateInputValue = (value: unknown): string => {
   const raw = String(value ?? "").trim();
@@ -74,6 +87,7 @@ const createUsageEntry = (): UsageEntry => ({
   notes: "",
   notesOpen: false,
   usageMode: "single",
+  fefo: false,
   error: "",
 });
 
@@ -96,6 +110,8 @@ type AutocompleteOption = {
   name: string;
   quantity: number;
   expirationDate: string;
+  /** "Lot 1234" / "SN 5678" — tells same-expiration lots apart. */
+  lotLabel: string;
 };
 
 function ItemAutocomplete({
@@ -284,6 +300,9 @@ function ItemAutocomplete({
           {options.find((o) => o.id === selectedId)?.expirationDate
             ? ` · Exp ${options.find((o) => o.id === selectedId)?.expirationDate}`
             : ""}
+          {options.find((o) => o.id === selectedId)?.lotLabel
+            ? ` · ${options.find((o) => o.id === selectedId)?.lotLabel}`
+            : ""}
         </span>
       )}
       {showDropdown && coords && createPortal(
@@ -318,6 +337,7 @@ function ItemAutocomplete({
               <span className="usage-autocomplete-option-meta">
                 Qty {opt.quantity}
                 {opt.expirationDate ? ` · ${opt.expirationDate}` : ""}
+                {opt.lotLabel ? ` · ${opt.lotLabel}` : ""}
               </span>
             </li>
           ))}
@@ -332,12 +352,16 @@ function ItemAutocomplete({
 
 export function InventoryUsagePage({
   selectedLocationId,
+  onSelectedLocationIdChange,
   canEditInventory = false,
 }: {
   /** Currently-scoped location id (or empty string for "All Locations").
    *  Used to seed the default UsageGroup so the user doesn't have to pick a
    *  location they're already viewing. */
   selectedLocationId?: string | null;
+  /** Scanning a location label re-scopes the app to that location. Optional:
+   *  without it the scan only fills the form's location picker. */
+  onSelectedLocationIdChange?: (locationId: string | null) => void;
   /** Whether the current user can undo events from the Activity feed. The
    *  Activity-feed Undo button is gated by edit privileges, so the page's
    *  instructional copy only mentions Undo when the user can actually use it.
@@ -351,7 +375,7 @@ export function InventoryUsagePage({
   // the Recent Usage panel below the form already shows what landed and
   // persists across reloads — a transient success banner just repeats the
   // same info less reliably. Errors still need a conspicuous surface.
-  const [feedback, setFeedback] = useState<{ type: "error"; message: string } | null>(null);
+  const [feedback, setFeedback] = useState<{ type: "error" | "success"; message: string } | null>(null);
   // History of recent submissions — capped at 10, persisted to localStorage
   // so a reload doesn't wipe context when a coworker walks up to verify
   // something just got logged. Audit feed remains the canonical record;
@@ -404,6 +428,21 @@ export function InventoryUsagePage({
   // Empty string = unset. The picker resolves id→name for display.
   const [groups, setGroups] = useState<UsageGroup[]>([createUsageGroup(selectedLocationId ?? "")]);
   const [formError, setFormError] = useState("");
+  const [scanOpen, setScanOpen] = useState(false);
+  const [pickBy, setPickBy] = useState<PickBy>(() => {
+    try {
+      return localStorage.getItem(PICK_BY_STORAGE_KEY) === "lot" ? "lot" : "item";
+    } catch {
+      return "item";
+    }
+  });
+  useEffect(() => {
+    try {
+      localStorage.setItem(PICK_BY_STORAGE_KEY, pickBy);
+    } catch {
+      // Memory-only when storage is unavailable.
+    }
+  }, [pickBy]);
 
   const refreshInventoryRows = useCallback(
     async (opts?: { initial?: boolean; silent?: boolean }) => {
@@ -505,7 +544,7 @@ export function InventoryUsagePage({
     );
   }, [singleLocationId]);
 
-  const getItemOptionsForLocation = useCallback(
+  const getLotOptionsForLocation = useCallback(
     (locationId: string): AutocompleteOption[] =>
       rows
         .filter((row) => {
@@ -520,17 +559,64 @@ export function InventoryUsagePage({
           name: getItemDisplayName(row),
           quantity: Number(row.values.quantity ?? 0),
           expirationDate: toDateInputValue(row.values.expirationDate),
+          lotLabel: [
+            String(row.values.lotNumber ?? "").trim() ? `Lot ${String(row.values.lotNumber).trim()}` : "",
+            String(row.values.serialNumber ?? "").trim() ? `SN ${String(row.values.serialNumber).trim()}` : "",
+          ].filter(Boolean).join(" · "),
         })),
     [rows],
   );
 
+  // One option per item name at the location. The id is the item's oldest
+  // lot row — stable while lots are used up — and only anchors the item; the
+  // server chooses which lots to draw. Quantity counts unexpired stock only,
+  // since expired lots are never drawn.
+  const getGroupOptionsForLocation = useCallback(
+    (locationId: string): AutocompleteOption[] => {
+      if (!locationId.trim()) return [];
+      const byName = new Map<string, InventoryRow[]>();
+      for (const row of rows) {
+        if (row.locationId !== locationId || row.values.retiredAt) continue;
+        const key = String(row.values.itemName ?? "").trim().toLowerCase();
+        if (!key) continue;
+        byName.set(key, [...(byName.get(key) ?? []), row]);
+      }
+      return Array.from(byName.values())
+        .map((lots) => {
+          const anchor = lots.slice().sort((a, b) =>
+            String(a.createdAt ?? "").localeCompare(String(b.createdAt ?? "")) || a.id.localeCompare(b.id),
+          )[0];
+          const usable = lots.filter((row) => Number(row.values.quantity ?? 0) > 0 && !isExpired(row.values.expirationDate));
+          const nextExpiration = usable
+            .map((row) => toDateInputValue(row.values.expirationDate))
+            .filter(Boolean)
+            .sort()[0] ?? "";
+          return {
+            id: anchor.id,
+            name: getItemDisplayName(anchor),
+            quantity: usable.reduce((sum, row) => sum + Number(row.values.quantity ?? 0), 0),
+            expirationDate: nextExpiration,
+            lotLabel: usable.length > 1 ? `${usable.length} lots` : "",
+          };
+        })
+        .sort((a, b) => a.name.localeCompare(b.name));
+    },
+    [rows],
+  );
+
+  const getItemOptionsForLocation = useCallback(
+    (locationId: string, fefo: boolean): AutocompleteOption[] =>
+      fefo ? getGroupOptionsForLocation(locationId) : getLotOptionsForLocation(locationId),
+    [getGroupOptionsForLocation, getLotOptionsForLocation],
+  );
+
   useEffect(() => {
     setGroups((prev) =>
       prev.map((group) => {
-        const validIds = new Set(getItemOptionsForLocation(group.location).map((item) => item.id));
         const nextEntries = group.entries.map((entry) => {
-          if (!entry.itemId || validIds.has(entry.itemId)) return entry;
-          return { ...entry, itemId: "", itemSearch: "", notes: "", notesOpen: false, usageMode: "single" as const, error: "" };
+          if (!entry.itemId) return entry;
+          if (getItemOptionsForLocation(group.location, entry.fefo).some((item) => item.id === entry.itemId)) return entry;
+          return { ...entry, itemId: "", itemSearch: "", notes: "", notesOpen: false, usageMode: "single" as const, fefo: false, error: "" };
         });
         return { ...group, entries: nextEntries };
       }),
@@ -555,12 +641,10 @@ export function InventoryUsagePage({
         const next = { ...group, ...patch };
         // When the location changes, clear entries whose items don't exist in the new location
         if ("location" in patch && patch.location !== group.location) {
-          const validIds = new Set(
-            getItemOptionsForLocation(patch.location ?? "").map((o) => o.id),
-          );
           next.entries = next.entries.map((entry) => {
-            if (!entry.itemId || validIds.has(entry.itemId)) return entry;
-            return { ...entry, itemId: "", itemSearch: "", quantityUsed: "1", notes: "", notesOpen: false, usageMode: "single" as const, error: "" };
+            if (!entry.itemId) return entry;
+            if (getItemOptionsForLocation(patch.location ?? "", entry.fefo).some((o) => o.id === entry.itemId)) return entry;
+            return { ...entry, itemId: "", itemSearch: "", quantityUsed: "1", notes: "", notesOpen: false, usageMode: "single" as const, fefo: false, error: "" };
           });
         }
         return next;
@@ -583,11 +667,13 @@ export function InventoryUsagePage({
   };
 
   const onSelectItem = (groupId: string, entryId: string, itemId: string) => {
-    const options = getItemOptionsForLocation(groups.find((group) => group.id === groupId)?.location ?? "");
+    const fefo = pickBy === "item";
+    const options = getItemOptionsForLocation(groups.find((group) => group.id === groupId)?.location ?? "", fefo);
     const selectedOption = options.find((item) => item.id === itemId);
     updateEntry(groupId, entryId, {
       itemId,
       itemSearch: selectedOption?.name ?? "",
+      fefo,
       error: "",
     });
   };
@@ -600,6 +686,57 @@ export function InventoryUsagePage({
     });
   };
 
+  // ── Scan a label ──────────────────────────────────────────────────────
+  // An item label fills a usage line for that exact lot (even when picking by
+  // item — the label in hand is the lot being used): into the section
+  // already at its location (or a blank section, or a new one), bumping the
+  // qty if the lot is already on a line so scanning twice logs two. A location
+  // label scopes the page and points the first open section at it.
+  const onScanTarget = (target: ScanTarget): string | null => {
+    if (submitting) return "Wait for the current submission to finish.";
+    if (target.kind === "location") {
+      if (!locations.some((l) => l.id === target.id)) return "That location no longer exists.";
+      onSelectedLocationIdChange?.(target.id);
+      setGroups((prev) => {
+        if (prev.some((g) => g.location === target.id)) return prev;
+        const open = prev.find((g) => !g.location || g.entries.every((e) => !e.itemId));
+        if (!open) return [...prev, createUsageGroup(target.id)];
+        return prev.map((g) => (g.id === open.id ? { ...createUsageGroup(target.id), id: g.id } : g));
+      });
+      setScanOpen(false);
+      return null;
+    }
+
+    const row = rowById.get(target.id);
+    const locationId = String(row?.locationId ?? "");
+    if (!row || !locationId) return "That item is no longer in inventory.";
+    const filled = (): UsageEntry => ({ ...createUsageEntry(), itemId: row.id, itemSearch: getItemDisplayName(row) });
+    setGroups((prev) => {
+      const section = prev.find((g) => g.location === locationId) ?? prev.find((g) => !g.location);
+      if (!section) return [...prev, { ...createUsageGroup(locationId), entries: [filled()] }];
+      return prev.map((group) => {
+        if (group.id !== section.id) return group;
+        const existing = group.entries.find((e) => e.itemId === row.id && !e.fefo);
+        if (existing) {
+          const qty = Number(existing.quantityUsed);
+          return {
+            ...group,
+            entries: group.entries.map((e) =>
+              e.id === existing.id ? { ...e, quantityUsed: String((Number.isFinite(qty) ? qty : 0) + 1), error: "" } : e,
+            ),
+          };
+        }
+        const blankIndex = group.entries.findIndex((e) => !e.itemId && !e.itemSearch.trim());
+        const entries = blankIndex >= 0
+          ? group.entries.map((e, i) => (i === blankIndex ? { ...filled(), id: e.id } : e))
+          : [...group.entries, filled()];
+        return { ...group, location: locationId, locationError: "", entries };
+      });
+    });
+    setScanOpen(false);
+    return null;
+  };
+
   const addLine = (groupId: string) => {
     // Append the new entry; the entries list is now a bounded scrollable
     // inset so the Submit Usage / Add Location row at the bottom stays
@@ -686,15 +823,18 @@ export function InventoryUsagePage({
             const packSize = Number(row.values.packSize);
             const isPackMode = entry.usageMode === "pack" && Number.isFinite(packSize) && packSize > 0;
             const quantityUsed = isPackMode ? quantityUsedRaw * packSize : quantityUsedRaw;
-            const available = Number(row.values.quantity ?? 0);
+            const available = entry.fefo
+              ? getGroupOptionsForLocation(group.location).find((o) => o.id === itemId)?.quantity ?? 0
+              : Number(row.values.quantity ?? 0);
             if (!Number.isFinite(available) || quantityUsed > available) {
-              error = `Exceeds available (${available})`;
+              error = entry.fefo ? `Exceeds unexpired on hand (${available})` : `Exceeds available (${available})`;
               hasError = true;
             } else {
               normalized.push({
                 itemId,
                 quantityUsed,
                 notes: notes || undefined,
+                ...(entry.fefo ? { fefo: true } : {}),
               });
             }
           }
@@ -738,6 +878,13 @@ export function InventoryUsagePage({
       // Re-fetch inventory so the in-form quantities reflect the new totals.
       void refreshInventoryRows({ silent: true });
     } catch (err: any) {
+      // Offline: the submission is queued and replays on reconnect, so clear
+      // the form as if it went through.
+      if (isMutationQueuedError(err)) {
+        setGroups([createUsageGroup()]);
+        setFeedback({ type: "success", message: err.message });
+        return;
+      }
       setFeedback({ type: "error", message: err?.message ?? "Failed to submit usage" });
     } finally {
       setSubmitting(false);
@@ -764,10 +911,50 @@ export function InventoryUsagePage({
     <section className="app-content">
       <div className="app-card usage-card">
         <header className="usage-header">
-          <h2 className="usage-title">Log Usage</h2>
+          <div className="usage-header-row">
+            <h2 className="usage-title">Log Usage</h2>
+            <div className="usage-header-actions">
+              <div className="reorder-price-mode" role="tablist" aria-label="Pick by">
+                <button
+                  type="button"
+                  role="tab"
+                  aria-selected={pickBy === "item"}
+                  className={`reorder-price-mode-btn${pickBy === "item" ? " active" : ""}`}
+                  onClick={() => setPickBy("item")}
+                  disabled={submitting}
+                  title="Pick the item; the oldest-expiring lots are used first"
+                >
+                  By item
+                </button>
+                <button
+                  type="button"
+                  role="tab"
+                  aria-selected={pickBy === "lot"}
+                  className={`reorder-price-mode-btn${pickBy === "lot" ? " active" : ""}`}
+                  onClick={() => setPickBy("lot")}
+                  disabled={submitting}
+                  title="Pick the exact lot used"
+                >
+                  By lot
+                </button>
+              </div>
+              <button
+                type="button"
+                className="button button-secondary button-sm"
+                onClick={() => setScanOpen(true)}
+                disabled={submitting}
+                title="Scan an item or location label"
+              >
+                <ScanLine size={14} aria-hidden="true" /> Scan
+              </button>
+            </div>
+          </div>
           <p className="usage-instructions">
             {showLocationPicker && <>Select a <strong>location</strong>, then </>}
             Search for an item, enter the quantity used, and hit <strong>Submit Usage</strong>.
+            {pickBy === "item"
+              ? <>{" "}Lots are used <strong>oldest expiration first</strong>; expired lots are skipped.</>
+              : <>{" "}Each line comes out of the exact lot you pick.</>}
             {" "}Need to log more? Tap <strong>+ Add Item</strong> to add another line.
             {" "}Submitting decrements inventory immediately
             {canEditInventory ? (
@@ -800,7 +987,7 @@ export function InventoryUsagePage({
 
         <div className="usage-form-list">
           {groups.map((group, groupIndex) => {
-            const itemOptions = getItemOptionsForLocation(group.location);
+            const pickOptions = getItemOptionsForLocation(group.location, pickBy === "item");
             return (
               <section className="usage-form-section" key={group.id}>
                 {showLocationPicker && (
@@ -854,6 +1041,9 @@ export function InventoryUsagePage({
                   ref={(el) => { entriesRefs.current.set(group.id, el); }}
                 >
                   {group.entries.map((entry) => {
+                    const itemOptions = entry.itemId
+                      ? getItemOptionsForLocation(group.location, entry.fefo)
+                      : pickOptions;
                     const selectedItem = itemOptions.find((o) => o.id === entry.itemId);
                     const selectedRow = entry.itemId ? rowById.get(entry.itemId) : undefined;
                     // Pack-as-secondary-unit (1f.8): when the item has a
@@ -889,6 +1079,7 @@ export function InventoryUsagePage({
                                   itemId: "",
                                   itemSearch: "",
                                   usageMode: "single",
+                                  fefo: false,
                                   error: "",
                                 })
                               }
@@ -1110,6 +1301,13 @@ export function InventoryUsagePage({
           </div>
         )}
       </div>
+      {scanOpen ? (
+        <ScanDialog
+          title="Scan to log usage"
+          onScan={onScanTarget}
+          onClose={() => setScanOpen(false)}
+        />
+      ) : null}
     </section>
   );
 }
@@ -0,0 +1,103 @@
+import { useEffect, useState } from "react";
+import { CheckCircle2, ChevronRight, Clock, X, XCircle } from "lucide-react";
+import { formatCurrency } from "../lib/currency";
+import {
+  dismissApprovalNotice,
+  fetchApprovalNotices,
+  type OrderApprovalDecisionNotice,
+} from "../lib/inventoryApi";
+
+interface OrderApprovalNoticesProps {
+  /** Shown as the action on the "awaiting your approval" card. Omit when
+   *  already on the Orders page. */
+  onOpenOrders?: () => void;
+  /** Bump to re-fetch, e.g. after the Orders page approves or rejects. */
+  refreshKey?: number;
+}
+
+/**
+ * In-app notices for order approvals: decisions on the caller's own orders
+ * (until dismissed) and, for approvers, how many orders are waiting on them.
+ * Renders nothing when there's nothing to say or the fetch fails.
+ */
+export function OrderApprovalNotices({ onOpenOrders, refreshKey = 0 }: OrderApprovalNoticesProps) {
+  const [decisions, setDecisions] = useState<OrderApprovalDecisionNotice[]>([]);
+  const [awaitingCount, setAwaitingCount] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchApprovalNotices()
+      .then((next) => {
+        if (cancelled) return;
+        setDecisions(next.decisions);
+        setAwaitingCount(next.awaitingCount);
+      })
+      .catch(() => {
+        if (cancelled) return;
+        setDecisions([]);
+        setAwaitingCount(0);
+      });
+    return () => { cancelled = true; };
+  }, [refreshKey]);
+
+  const dismiss = async (orderId: string) => {
+    setDecisions((prev) => prev.filter((d) => d.orderId !== orderId));
+    try {
+      await dismissApprovalNotice(orderId);
+    } catch {
+      // Comes back on the next load; nothing worth interrupting for.
+    }
+  };
+
+  if (decisions.length === 0 && awaitingCount === 0) return null;
+
+  return (
+    <div className="app-alert-cards">
+      {awaitingCount > 0 ? (
+        onOpenOrders ? (
+          <button type="button" className="app-alert-card app-alert-card--warning" onClick={onOpenOrders}>
+            <span className="app-alert-card__icon"><Clock size={16} strokeWidth={2} /></span>
+            <span className="app-alert-card__text">
+              {awaitingCount} order{awaitingCount === 1 ? "" : "s"} awaiting your approval
+            </span>
+            <span className="app-alert-card__action">Review <ChevronRight size={14} /></span>
+          </button>
+        ) : (
+          <div className="app-alert-card app-alert-card--warning approval-notice">
+            <span className="app-alert-card__icon"><Clock size={16} strokeWidth={2} /></span>
+            <span className="app-alert-card__text">
+              {awaitingCount} order{awaitingCount === 1 ? "" : "s"} awaiting your approval
+            </span>
+          </div>
+        )
+      ) : null}
+      {decisions.map((d) => {
+        const approved = d.decision === "approved";
+        return (
+          <div
+            key={d.orderId}
+            className={`app-alert-card ${approved ? "app-alert-card--info" : "app-alert-card--danger"} approval-notice`}
+            role="status"
+          >
+            <span className="app-alert-card__icon">
+              {approved ? <CheckCircle2 size={16} strokeWidth={2} /> : <XCircle size={16} strokeWidth={2} />}
+            </span>
+            <span className="app-alert-card__text">
+              Your {d.vendor ? `${d.vendor} ` : ""}order{d.total > 0 ? ` (${formatCurrency(d.total)})` : ""} was
+              {approved ? " approved" : " rejected"} by {d.decidedByName}
+              {d.note ? <span className="approval-notice-note"> — {d.note}</span> : null}
+            </span>
+            <button
+              type="button"
+              className="approval-notice-dismiss"
+              aria-label="Dismiss"
+              onClick={() => void dismiss(d.orderId)}
+            >
+              <X size={14} />
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,325 @@
+import { useEffect, useMemo, useState } from "react";
+import { ChevronRight, Pencil, Plus, Trash2 } from "lucide-react";
+import {
+  fetchOrderApprovalSettings,
+  saveOrderApprovalSettings,
+  type InventoryLocation,
+  type OrderApprovalRule,
+  type OrderApprovalSettings,
+} from "../lib/inventoryApi";
+import { formatCurrency } from "../lib/currency";
+import { buildLocationPickerEntries, locationPath } from "../lib/locationTree";
+import { useToast } from "./shared/Toast";
+
+/** Form-side rule: the total kept as text so the input can be cleared mid-edit. */
+type RuleDraft = {
+  id?: string;
+  name: string;
+  minTotal: string;
+  vendor: string;
+  locationId: string;
+};
+
+const emptyDraft = (): RuleDraft => ({ name: "", minTotal: "", vendor: "", locationId: "" });
+
+const toDraft = (r: OrderApprovalRule): RuleDraft => ({
+  id: r.id,
+  name: r.name,
+  minTotal: r.minTotal !== undefined ? String(r.minTotal) : "",
+  vendor: r.vendor ?? "",
+  locationId: r.locationId ?? "",
+});
+
+const ROLE_LABELS: Record<string, string> = {
+  OWNER: "Owners",
+  ADMIN: "Admins",
+  EDITOR: "Editors",
+};
+
+/**
+ * Admin control for restock order approvals: rules that hold an order for
+ * sign-off when it's placed (by total, vendor, location, or any mix — all
+ * set conditions must match), and the roles that can approve or reject it.
+ * The requester can't decide their own order and is notified in-app of the
+ * decision.
+ */
+export function OrderApprovalsCard({
+  open = true,
+  locations,
+  vendors,
+}: {
+  open?: boolean;
+  locations: InventoryLocation[];
+  /** Known vendor names, offered as suggestions for a vendor rule. */
+  vendors: string[];
+}) {
+  const toast = useToast();
+  const [settings, setSettings] = useState<OrderApprovalSettings | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [draft, setDraft] = useState<RuleDraft | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const next = await fetchOrderApprovalSettings();
+        if (!cancelled) setSettings(next);
+      } catch (err) {
+        if (!cancelled) toast.error(err instanceof Error ? err.message : "Could not load order approval rules.");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+    // toast is stable; load once on mount.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const locationEntries = useMemo(() => buildLocationPickerEntries(locations), [locations]);
+
+  const describe = (r: OrderApprovalRule) => {
+    const parts: string[] = [];
+    if (r.minTotal !== undefined) parts.push(`${formatCurrency(r.minTotal)} or more`);
+    if (r.vendor) parts.push(`from ${r.vendor}`);
+    if (r.locationId) parts.push(`for ${locationPath(locations, r.locationId) || "a removed location"}`);
+    return `Orders ${parts.join(", ")}`;
+  };
+
+  const minTotal = draft && draft.minTotal.trim() ? Number(draft.minTotal) : undefined;
+  const draftError = !draft
+    ? null
+    : !draft.name.trim()
+      ? "Give the rule a name."
+      : minTotal !== undefined && (!Number.isFinite(minTotal) || minTotal < 0)
+        ? "Enter an order total of zero or more."
+        : minTotal === undefined && !draft.vendor.trim() && !draft.locationId
+          ? "Set an order total, vendor or location to match on."
+          : null;
+
+  const updateDraft = (patch: Partial<RuleDraft>) => {
+    setDraft((prev) => (prev ? { ...prev, ...patch } : prev));
+  };
+
+  const persist = async (
+    rules: Array<Omit<OrderApprovalRule, "id"> & { id?: string }>,
+    approverRoles: string[],
+    successMessage: string,
+  ): Promise<boolean> => {
+    setSaving(true);
+    try {
+      setSettings(await saveOrderApprovalSettings({ rules, approverRoles }));
+      toast.success(successMessage);
+      return true;
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not save order approval rules.");
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveRule = async () => {
+    if (!settings || !draft || draftError || saving) return;
+    const rule = {
+      ...(draft.id ? { id: draft.id } : {}),
+      name: draft.name.trim(),
+      ...(minTotal !== undefined ? { minTotal } : {}),
+      ...(draft.vendor.trim() ? { vendor: draft.vendor.trim() } : {}),
+      ...(draft.locationId ? { locationId: draft.locationId } : {}),
+    };
+    const rules = draft.id
+      ? settings.rules.map((r) => (r.id === draft.id ? rule : r))
+      : [...settings.rules, rule];
+    if (await persist(rules, settings.approverRoles, "Approval rule saved.")) setDraft(null);
+  };
+
+  const handleDelete = async (rule: OrderApprovalRule) => {
+    if (!settings || !window.confirm(`Delete the approval rule "${rule.name}"?`)) return;
+    const saved = await persist(
+      settings.rules.filter((r) => r.id !== rule.id),
+      settings.approverRoles,
+      "Approval rule deleted.",
+    );
+    if (saved && draft?.id === rule.id) setDraft(null);
+  };
+
+  const handleToggleRole = (role: string) => {
+    if (!settings) return;
+    const roles = settings.approverRoles.includes(role)
+      ? settings.approverRoles.filter((r) => r !== role)
+      : [...settings.approverRoles, role];
+    void persist(settings.rules, roles, "Approvers updated.");
+  };
+
+  return (
+    <details className="settings-section" open={open}>
+      <summary className="settings-section-title">
+        Order Approvals
+        <ChevronRight size={16} className="settings-section-chevron" aria-hidden="true" />
+      </summary>
+
+      <p className="settings-section-copy">
+        Orders that match a rule wait as <strong>Awaiting Approval</strong> when
+        they're placed, and can't be received until someone in an approver role
+        approves them. A rejected order is closed and its items go back on the
+        reorder list. Requesters can't approve their own orders and see each
+        decision on their dashboard.
+      </p>
+
+      {loading ? (
+        <p className="settings-section-copy">Loading…</p>
+      ) : !settings ? null : (
+        <div style={{ display: "flex", flexDirection: "column", gap: "0.75rem" }}>
+          <div className="settings-column-visibility" style={{ gap: "0.75rem", flexWrap: "wrap" }}>
+            <span>Who can approve:</span>
+            {settings.roleOptions.map((role) => {
+              const checked = settings.approverRoles.includes(role);
+              return (
+                <label key={role} className="settings-column-select">
+                  <input
+                    type="checkbox"
+                    checked={checked}
+                    onChange={() => handleToggleRole(role)}
+                    // At least one role has to be able to approve.
+                    disabled={saving || (checked && settings.approverRoles.length === 1)}
+                  />
+                  {ROLE_LABELS[role] ?? role}
+                </label>
+              );
+            })}
+          </div>
+
+          {settings.rules.length > 0 ? (
+            <div className="settings-columns-list">
+              {settings.rules.map((r) => (
+                <div className="settings-column-row" key={r.id}>
+                  <div className="settings-column-visibility" style={{ flexDirection: "column", alignItems: "flex-start", gap: "0.15rem" }}>
+                    <strong>{r.name}</strong>
+                    <span className="settings-section-copy" style={{ margin: 0 }}>{describe(r)}</span>
+                  </div>
+                  <div className="settings-column-actions">
+                    <button
+                      type="button"
+                      className="button button-ghost button-sm"
+                      onClick={() => setDraft(toDraft(r))}
+                      disabled={saving}
+                      aria-label={`Edit ${r.name}`}
+                    >
+                      <Pencil size={14} aria-hidden="true" />
+                    </button>
+                    <button
+                      type="button"
+                      className="button button-ghost button-sm"
+                      onClick={() => void handleDelete(r)}
+                      disabled={saving}
+                      aria-label={`Delete ${r.name}`}
+                    >
+                      <Trash2 size={14} aria-hidden="true" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="settings-section-copy" style={{ margin: 0 }}>
+              No approval rules — every order opens as soon as it's placed.
+            </p>
+          )}
+
+          {draft ? (
+            <div style={{ display: "flex", flexDirection: "column", gap: "0.6rem" }}>
+              <label className="settings-column-select" style={{ gap: "0.4rem" }}>
+                <span>Name</span>
+                <input
+                  className="field"
+                  type="text"
+                  value={draft.name}
+                  placeholder="Large orders"
+                  onChange={(e) => updateDraft({ name: e.target.value })}
+                  disabled={saving}
+                />
+              </label>
+              <div className="settings-column-visibility" style={{ gap: "0.4rem", flexWrap: "wrap" }}>
+                <input
+                  className="field"
+                  type="text"
+                  inputMode="decimal"
+                  value={draft.minTotal}
+                  placeholder="Total at least"
+                  onChange={(e) => updateDraft({ minTotal: e.target.value })}
+                  disabled={saving}
+                  aria-label="Order total at least"
+                  style={{ width: "9rem" }}
+                />
+                <input
+                  className="field"
+                  type="text"
+                  list="order-approval-vendors"
+                  value={draft.vendor}
+                  placeholder="Any vendor"
+                  onChange={(e) => updateDraft({ vendor: e.target.value })}
+                  disabled={saving}
+                  aria-label="Vendor"
+                  style={{ width: "11rem" }}
+                />
+                <datalist id="order-approval-vendors">
+                  {vendors.map((v) => (
+                    <option key={v} value={v} />
+                  ))}
+                </datalist>
+                <select
+                  value={draft.locationId}
+                  onChange={(e) => updateDraft({ locationId: e.target.value })}
+                  disabled={saving}
+                  aria-label="Location"
+                >
+                  <option value="">Any location</option>
+                  {locationEntries.map((entry) => (
+                    <option key={entry.id} value={entry.id}>
+                      {entry.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div style={{ display: "flex", gap: "0.5rem", alignItems: "center", flexWrap: "wrap" }}>
+                <button
+                  type="button"
+                  className="button button-primary button-sm"
+                  onClick={() => void handleSaveRule()}
+                  disabled={saving || draftError !== null}
+                >
+                  {saving ? "Saving…" : "Save"}
+                </button>
+                <button
+                  type="button"
+                  className="button button-ghost button-sm"
+                  onClick={() => setDraft(null)}
+                  disabled={saving}
+                >
+                  Cancel
+                </button>
+                {draftError ? (
+                  <span className="settings-error" style={{ margin: 0 }}>{draftError}</span>
+                ) : null}
+              </div>
+            </div>
+          ) : (
+            <div>
+              <button
+                type="button"
+                className="button button-secondary button-sm"
+                onClick={() => setDraft(emptyDraft())}
+                disabled={saving}
+              >
+                <Plus size={14} aria-hidden="true" /> Add approval rule
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </details>
+  );
+}
@@ -10,6 +10,7 @@ import {
   Loader2,
   PackageCheck,
   Plus,
+  ScanLine,
   Search,
   ShoppingCart,
   Trash2,
@@ -19,16 +20,27 @@ import { HelpModal } from "./shared/HelpModal";
 import { EmptyState } from "./shared/EmptyState";
 import { LoadingState } from "./shared/LoadingState";
 import { QtyStepper } from "./shared/QtyStepper";
+import { ScanDialog } from "./shared/ScanDialog";
+import { useToast } from "./shared/Toast";
 import { DaySection } from "../lib/dayGroups";
 import { dayGroupLabel } from "../lib/dayGroupLabel";
 import {
   addInventoryVendor,
+  approveRestockOrder,
   closeRestockOrder,
   createRestockOrder,
+  linkItemGtin,
+  listBudgets,
   listRestockOrders,
   loadInventoryBootstrap,
+  loadInventoryChanges,
+  mergeInventoryChanges,
+  placeRestockOrder,
   receiveRestockOrder,
+  rejectRestockOrder,
   saveInventoryItems,
+  saveInventoryValuePatch,
+  type BudgetStatus,
   type InventoryLocation,
   type InventoryRow,
   type RestockOrder,
@@ -36,14 +48,19 @@ import {
   type RestockReceiveLine,
   type ItemVendorPricingEntry,
 } from "../lib/inventoryApi";
+import { isMutationQueuedError } from "../lib/offlineQueue";
 import { VendorSelect, type OrderItem } from "./ReorderTab";
 import { ShoppingListTab } from "./ShoppingListTab";
+import { OrderApprovalNotices } from "./OrderApprovalNotices";
 import { buildLocationPickerEntries, locationPath } from "../lib/locationTree";
 import { CustomDropdown } from "./shared/CustomDropdown";
 import { ItemDetailModal } from "./inventory/ItemDetailModal";
 import { PaginationControls } from "./inventory/PaginationControls";
 import { UnitCombobox } from "./inventory/UnitCombobox";
+import { CHANGES_POLL_MS } from "./inventory/inventoryTypes";
 import { formatCurrency, parseCurrency } from "../lib/currency";
+import { findBudgetOverruns, toIsoDay } from "../lib/budgets";
+import { gtinMatchKey, normalizeGtin } from "../lib/gtin";
 import { aggregateVendorPricingByName, rawPricingForName } from "../lib/vendorPricingAggregate";
 import {
   dimensionForUnit,
@@ -106,11 +123,16 @@ function orderTotalCost(items: RestockOrderItem[], closed: boolean): number | nu
   );
 }
 
-function StatusBadge({ status, cancelled }: { status: RestockOrder["status"]; cancelled?: boolean }) {
+function StatusBadge({ status, cancelled, rejected }: { status: RestockOrder["status"]; cancelled?: boolean; rejected?: boolean }) {
+  if (rejected) {
+    return <span className="badge badge--uppercase badge--danger">Rejected</span>;
+  }
   if (cancelled) {
     return <span className="badge badge--uppercase badge--danger">Cancelled</span>;
   }
   const map = {
+    draft: { label: "Draft", className: "badge badge--uppercase badge--neutral" },
+    pending_approval: { label: "Awaiting Approval", className: "badge badge--uppercase badge--warning" },
     open: { label: "Ordered", className: "badge badge--uppercase badge--primary" },
     partial: { label: "Partially Received", className: "badge badge--uppercase badge--warning" },
     closed: { label: "Completed", className: "badge badge--uppercase badge--neutral" },
@@ -139,6 +161,13 @@ type ReceiveLine = {
    *  Lets you stamp an expiration date during receive even if the item was
    *  previously treated as permanent. Always optional — never validated. */
   showExpirationInput: boolean;
+  /** Manufacturer lot / serial code printed on the packaging. Optional;
+   *  a received lot only merges into a row carrying the same codes. */
+  lotNumber: string;
+  serialNumber: string;
+  /** User-toggled "+ Lot / serial" reveal, or preset when the item's
+   *  existing rows already carry a lot or serial code. */
+  showLotInput: boolean;
   /** Pack size snapshotted from the order line's vendor pricing row at
    *  compose time. >0 enables "Received by pack" mode where the user
    *  enters packs + pack cost instead of units + unit cost. The receive
@@ -188,6 +217,7 @@ function ReceiveOrderForm({
   onReceived: () => void;
   onCancel: () => void;
 }) {
+  const toast = useToast();
   const pendingItems = order.items.filter((i) => i.qtyReceived < i.qtyOrdered);
   const [lines, setLines] = useState<ReceiveLine[]>(
     pendingItems.map((i) => {
@@ -198,6 +228,7 @@ function ReceiveOrderForm({
       // User can override in the input.
       let prefillUnitCost: number | undefined = i.unitCost;
       let tracksExpiration = false;
+      let tracksLot = false;
       let packSize = 0;
       let rowPackCost: number | undefined;
       let rowUnit = "ct"; // 1f: tracking unit per row, default ct for legacy items
@@ -239,6 +270,8 @@ function ReceiveOrderForm({
           // already has a non-empty expiration date. Permanent items (e.g.
           // stethoscopes) have no expiration and shouldn't prompt for one.
           tracksExpiration = String(row.values.expirationDate ?? "").trim() !== "";
+          tracksLot = String(row.values.lotNumber ?? "").trim() !== ""
+            || String(row.values.serialNumber ?? "").trim() !== "";
           // 1h.7: prefer the new dual-axis `packCount` field (count of
           // items per pack) over legacy `packSize`. Falls back to the
           // legacy row.values.packSize for very old rows that haven't
@@ -296,6 +329,9 @@ function ReceiveOrderForm({
         addToInventory: freeform,  // default to save for freeform items
         tracksExpiration,
         showExpirationInput: false,
+        lotNumber: "",
+        serialNumber: "",
+        showLotInput: tracksLot,
         packSize,
         receivingAsBoxes,
         unit: rowUnit,
@@ -313,6 +349,112 @@ function ReceiveOrderForm({
   const updateLine = (itemId: string, patch: Partial<ReceiveLine>) =>
     setLines((prev) => prev.map((l) => (l.itemId === itemId ? { ...l, ...patch } : l)));
 
+  // ── Barcode matching ──
+  // A scan (camera or keyboard-wedge reader into the field above the lines)
+  // selects the order line whose product carries that code. Codes come from
+  // the order line's snapshot, the inventory row, and the order vendor's
+  // pricing row (case barcodes often differ from the each barcode).
+  const [scanText, setScanText] = useState("");
+  const [scanError, setScanError] = useState<string | null>(null);
+  const [showScanner, setShowScanner] = useState(false);
+  const [highlightedItemId, setHighlightedItemId] = useState<string | null>(null);
+  const [unmatchedCode, setUnmatchedCode] = useState<string | null>(null);
+  const [linkTargetId, setLinkTargetId] = useState("");
+  const [linking, setLinking] = useState(false);
+  /** Codes linked during this receive, by item id — bootstrap data is stale
+   *  until the parent refreshes. */
+  const [linkedGtins, setLinkedGtins] = useState<Map<string, string>>(() => new Map());
+  const qtyInputRefs = useRef(new Map<string, HTMLInputElement>());
+
+  const lineIdByGtin = useMemo(() => {
+    const byKey = new Map<string, string>();
+    const vendorLower = (order.vendor ?? "").trim().toLowerCase();
+    const add = (raw: unknown, itemId: string) => {
+      const gtin = normalizeGtin(raw);
+      if (gtin && !byKey.has(gtinMatchKey(gtin))) byKey.set(gtinMatchKey(gtin), itemId);
+    };
+    for (const line of lines) {
+      const orderItem = order.items.find((i) => i.itemId === line.itemId);
+      add(linkedGtins.get(line.itemId), line.itemId);
+      add(orderItem?.gtin, line.itemId);
+      if (line.isFreeform) continue;
+      add(inventoryRows.find((r) => r.id === line.itemId)?.values.gtin, line.itemId);
+      if (vendorLower) add(vendorPricing.get(line.itemId)?.get(vendorLower)?.gtin, line.itemId);
+    }
+    return byKey;
+  }, [lines, order, inventoryRows, vendorPricing, linkedGtins]);
+
+  const selectLine = (itemId: string) => {
+    setHighlightedItemId(itemId);
+    setUnmatchedCode(null);
+    requestAnimationFrame(() => {
+      const input = qtyInputRefs.current.get(itemId);
+      input?.scrollIntoView({ block: "center", behavior: "smooth" });
+      input?.focus();
+    });
+  };
+
+  /** Resolve one scanned code. Returns an error for the scanner to show, or
+   *  null once handled (matched, or handed to the link prompt). */
+  const handleBarcode = (raw: string): string | null => {
+    const gtin = normalizeGtin(raw);
+    if (!gtin) return `"${raw.trim()}" isn't a valid UPC/EAN/GTIN barcode.`;
+    const itemId = lineIdByGtin.get(gtinMatchKey(gtin));
+    if (itemId) {
+      selectLine(itemId);
+    } else {
+      setHighlightedItemId(null);
+      setUnmatchedCode(gtin);
+      setLinkTargetId(lines.find((l) => !l.isFreeform)?.itemId ?? "");
+    }
+    return null;
+  };
+
+  const submitScanText = () => {
+    if (!scanText.trim()) return;
+    const message = handleBarcode(scanText);
+    setScanError(message);
+    if (message === null) setScanText("");
+  };
+
+  // Link candidates: this order's lines first, then every other named item
+  // once (a GTIN is per product, so one lot stands in for all of them).
+  const otherLinkTargets = useMemo(() => {
+    const onOrder = new Set(lines.map((l) => l.itemId));
+    const seen = new Set(lines.map((l) => l.itemName.trim().toLowerCase()));
+    const out: Array<{ id: string; name: string }> = [];
+    for (const row of inventoryRows) {
+      const name = String(row.values.itemName ?? "").trim();
+      if (!name || onOrder.has(row.id) || seen.has(name.toLowerCase())) continue;
+      seen.add(name.toLowerCase());
+      out.push({ id: row.id, name });
+    }
+    return out.sort((a, b) => a.name.localeCompare(b.name));
+  }, [lines, inventoryRows]);
+
+  const handleLinkBarcode = async () => {
+    if (!unmatchedCode || !linkTargetId) return;
+    setLinking(true);
+    setScanError(null);
+    try {
+      const { gtin, updatedItemIds } = await linkItemGtin(linkTargetId, unmatchedCode);
+      setLinkedGtins((prev) => {
+        const next = new Map(prev);
+        for (const id of [linkTargetId, ...updatedItemIds]) next.set(id, gtin);
+        return next;
+      });
+      if (lines.some((l) => l.itemId === linkTargetId)) {
+        selectLine(linkTargetId);
+      } else {
+        setUnmatchedCode(null);
+      }
+    } catch (err) {
+      setScanError(err instanceof Error ? err.message : "Failed to link barcode.");
+    } finally {
+      setLinking(false);
+    }
+  };
+
   // On blur, reformat a freshly-typed unit cost as currency (e.g. "4239" →
   // "$4,239.00"). Leaves invalid input alone so the user can fix it.
   const handleUnitCostBlur = (itemId: string, value: string) => {
@@ -356,6 +498,8 @@ function ReceiveOrderForm({
             itemId: l.itemId,
             qtyThisReceive: unitQty,
             ...(l.expirationDate ? { expirationDate: l.expirationDate } : {}),
+            ...(l.lotNumber.trim() ? { lotNumber: l.lotNumber.trim() } : {}),
+            ...(l.serialNumber.trim() ? { serialNumber: l.serialNumber.trim() } : {}),
             ...(perUnitCost !== undefined ? { unitCost: perUnitCost } : {}),
             // Freeform items always materialize into inventory on receive —
             // there's no "receive without saving" mode (it'd be nonsensical).
@@ -391,6 +535,13 @@ function ReceiveOrderForm({
       await receiveRestockOrder(order.id, { lines: receiveLines, closeOrder });
       onReceived();
     } catch (err) {
+      // Queued for replay: close the form so the same receive can't be
+      // submitted twice.
+      if (isMutationQueuedError(err)) {
+        toast.info(err.message);
+        onReceived();
+        return;
+      }
       setError(err instanceof Error ? err.message : "Failed to receive order.");
       setPendingShortLines(null);
     } finally {
@@ -417,6 +568,15 @@ function ReceiveOrderForm({
         hasError = true;
         return { ...l, error: "Expiration date required" };
       }
+      // A serial number names one physical unit — serialized stock is
+      // received one unit per line, same rule the backend enforces.
+      if (qty > 0 && l.serialNumber.trim()) {
+        const effectivePackSize = l.receivingAsBoxes && l.packSize > 0 ? l.packSize : 1;
+        if (qty * effectivePackSize !== 1) {
+          hasError = true;
+          return { ...l, error: "A serial number covers one unit — receive 1" };
+        }
+      }
       const cost = l.unitCost.trim() ? parseCurrency(l.unitCost) : undefined;
       if (cost !== undefined && (!Number.isFinite(cost) || cost < 0)) {
         hasError = true;
@@ -471,6 +631,79 @@ function ReceiveOrderForm({
         </button>
       </div>
 
+      <div className="order-receive-scan">
+        <input
+          className="field"
+          type="text"
+          inputMode="numeric"
+          placeholder="Scan a barcode to find its line"
+          value={scanText}
+          onChange={(e) => { setScanText(e.target.value); setScanError(null); }}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              submitScanText();
+            }
+          }}
+          aria-label="Scan a barcode"
+        />
+        <button
+          type="button"
+          className="button button-secondary button-sm"
+          onClick={() => setShowScanner(true)}
+        >
+          <ScanLine size={14} /> Scan
+        </button>
+      </div>
+      {scanError && <p className="order-form-line-error">{scanError}</p>}
+      {unmatchedCode ? (
+        <div className="order-receive-link">
+          <span>
+            No line on this order has barcode <strong>{unmatchedCode}</strong>. Link it to an item?
+          </span>
+          <div className="order-receive-link-actions">
+            <select
+              className="field"
+              value={linkTargetId}
+              onChange={(e) => setLinkTargetId(e.target.value)}
+              disabled={linking}
+              aria-label="Item to link the barcode to"
+            >
+              <option value="" disabled>Choose an item…</option>
+              <optgroup label="On this order">
+                {lines.filter((l) => !l.isFreeform).map((l) => (
+                  <option key={l.itemId} value={l.itemId}>{l.itemName}</option>
+                ))}
+              </optgroup>
+              {otherLinkTargets.length > 0 ? (
+                <optgroup label="Other items">
+                  {otherLinkTargets.map((t) => (
+                    <option key={t.id} value={t.id}>{t.name}</option>
+                  ))}
+                </optgroup>
+              ) : null}
+            </select>
+            <button
+              type="button"
+              className="button button-primary button-sm"
+              onClick={() => void handleLinkBarcode()}
+              disabled={linking || !linkTargetId}
+            >
+              {linking ? <Loader2 size={14} className="spin" /> : null}
+              Link barcode
+            </button>
+            <button
+              type="button"
+              className="button button-ghost button-sm"
+              onClick={() => setUnmatchedCode(null)}
+              disabled={linking}
+            >
+              Dismiss
+            </button>
+          </div>
+        </div>
+      ) : null}
+
       <div className="order-receive-items">
         <div className="order-receive-header">
           <span>Item</span>
@@ -493,7 +726,10 @@ function ReceiveOrderForm({
             : undefined;
           const effectivePackSize = Number(liveVp?.packCount ?? liveVp?.packSize ?? line.packSize ?? 0);
           return (
-          <div key={line.itemId} className="order-receive-row">
+          <div
+            key={line.itemId}
+            className={`order-receive-row${highlightedItemId === line.itemId ? " order-receive-row--scanned" : ""}`}
+          >
             <div className="order-receive-item-name">
               <div className="order-receive-name-row">
                 {/* 1h.8: per-line edit-pricing button. Mirrors the
@@ -554,6 +790,36 @@ function ReceiveOrderForm({
                   </div>
                 );
               })()}
+              {line.showLotInput ? (
+                <div className="order-receive-lot">
+                  <input
+                    className="field"
+                    type="text"
+                    placeholder="Lot #"
+                    aria-label={`Lot number for ${line.itemName}`}
+                    maxLength={40}
+                    value={line.lotNumber}
+                    onChange={(e) => updateLine(line.itemId, { lotNumber: e.target.value, error: "" })}
+                  />
+                  <input
+                    className="field"
+                    type="text"
+                    placeholder="Serial #"
+                    aria-label={`Serial number for ${line.itemName}`}
+                    maxLength={40}
+                    value={line.serialNumber}
+                    onChange={(e) => updateLine(line.itemId, { serialNumber: e.target.value, error: "" })}
+                  />
+                </div>
+              ) : (
+                <button
+                  type="button"
+                  className="button button-secondary button-sm order-receive-add-lot"
+                  onClick={() => updateLine(line.itemId, { showLotInput: true })}
+                >
+                  <Plus size={14} /> Lot / serial
+                </button>
+              )}
               {line.error && <span className="order-form-line-error">{line.error}</span>}
             </div>
             <div className="order-receive-cell" data-label="Ordered">
@@ -580,6 +846,10 @@ function ReceiveOrderForm({
                 max={line.receivingAsBoxes && effectivePackSize > 0
                   ? Math.ceil(line.qtyRemaining / effectivePackSize)
                   : line.qtyRemaining}
+                ref={(el) => {
+                  if (el) qtyInputRefs.current.set(line.itemId, el);
+                  else qtyInputRefs.current.delete(line.itemId);
+                }}
                 value={line.qtyThisReceive}
                 onChange={(e) => updateLine(line.itemId, { qtyThisReceive: e.target.value, error: "" })}
                 onFocus={(e) => e.currentTarget.select()}
@@ -700,6 +970,26 @@ function ReceiveOrderForm({
           </button>
         </div>
       )}
+
+      {showScanner ? (
+        <ScanDialog
+          title="Scan to receive"
+          onScan={(target) => {
+            if (target.kind !== "item" || !lines.some((l) => l.itemId === target.id)) {
+              return "That label isn't for an item on this order.";
+            }
+            selectLine(target.id);
+            setShowScanner(false);
+            return null;
+          }}
+          onBarcode={(code) => {
+            const message = handleBarcode(code);
+            if (message === null) setShowScanner(false);
+            return message;
+          }}
+          onClose={() => setShowScanner(false)}
+        />
+      ) : null}
     </div>
   );
 }
@@ -747,6 +1037,7 @@ function OrderCard({
   /** Read-only support view: hide the Receive / Cancel actions. */
   readOnly?: boolean;
 }) {
+  const toast = useToast();
   const [expanded, setExpanded] = useState(!!initialExpanded);
   const rootRef = useRef<HTMLDivElement>(null);
   // On mount: if this card is the focus target, scroll it into view. The
@@ -763,6 +1054,16 @@ function OrderCard({
   // textarea so the user can record why the order was cancelled.
   const [confirmingCancel, setConfirmingCancel] = useState(false);
   const [cancelNote, setCancelNote] = useState("");
+  const [placing, setPlacing] = useState(false);
+  const [placeError, setPlaceError] = useState("");
+  // Approver's inline approve / reject confirm, with an optional note (the
+  // reason, required to reject).
+  const [deciding, setDeciding] = useState<"approve" | "reject" | null>(null);
+  const [decisionNote, setDecisionNote] = useState("");
+  const [decisionBusy, setDecisionBusy] = useState(false);
+  const [decisionError, setDecisionError] = useState("");
+  const isDraft = order.status === "draft";
+  const isPendingApproval = order.status === "pending_approval";
 
   const total = orderTotalCost(order.items, order.status === "closed");
   // Per-line progress instead of per-unit qty totals. Per-unit math gets
@@ -777,6 +1078,7 @@ function OrderCard({
   // An order was "cancelled" (vs. closed after at least one receive) when it
   // was closed without anything being received.
   const isCancelled = order.status === "closed" && order.receives.length === 0;
+  const isRejected = order.approvalDecision === "rejected";
 
   // The destination the order was placed for, shown as a full "Station / Cabinet"
   // path. Each line carries a locationId (v1+) or a legacy `location` name;
@@ -804,13 +1106,65 @@ function OrderCard({
     try {
       await closeRestockOrder(order.id, cancelNote.trim() || undefined);
       onRefresh(order);
-    } catch { /* ignore */ } finally {
+    } catch (err) {
+      if (isMutationQueuedError(err)) toast.info(err.message);
+    } finally {
       setClosing(false);
       setConfirmingCancel(false);
       setCancelNote("");
     }
   };
 
+  // Drafts (generated from par levels) are reviewed here, then placed: the
+  // order opens for receiving and its items leave the reorder list.
+  const handlePlace = async () => {
+    setPlacing(true);
+    setPlaceError("");
+    try {
+      const { status } = await placeRestockOrder(order.id);
+      if (status === "pending_approval") toast.info("This order needs approval before it goes out. It's waiting for an approver.");
+      onRefresh();
+    } catch (err) {
+      if (isMutationQueuedError(err)) {
+        toast.info(err.message);
+        return;
+      }
+      setPlaceError(err instanceof Error ? err.message : "Failed to place order.");
+    } finally {
+      setPlacing(false);
+    }
+  };
+
+  const handleConfirmDecision = async () => {
+    if (!deciding) return;
+    if (deciding === "reject" && !decisionNote.trim()) {
+      setDecisionError("Add a reason so the requester knows what to change.");
+      return;
+    }
+    setDecisionBusy(true);
+    setDecisionError("");
+    try {
+      if (deciding === "approve") await approveRestockOrder(order.id, decisionNote);
+      else await rejectRestockOrder(order.id, decisionNote);
+      toast.success(deciding === "approve" ? "Order approved." : "Order rejected.");
+      setDeciding(null);
+      setDecisionNote("");
+      // A rejection closes the order — pass it so its items rejoin the
+      // reorder list locally, same as a cancel.
+      onRefresh(deciding === "reject" ? order : undefined);
+    } catch (err) {
+      if (isMutationQueuedError(err)) {
+        toast.info(err.message);
+        setDeciding(null);
+        setDecisionNote("");
+        return;
+      }
+      setDecisionError(err instanceof Error ? err.message : "Failed to record the decision.");
+    } finally {
+      setDecisionBusy(false);
+    }
+  };
+
   if (showReceive) {
     return (
       <ReceiveOrderForm
@@ -844,7 +1198,7 @@ function OrderCard({
       <div className="order-card-main">
         <div className="order-card-top">
           <div className="order-card-identity">
-            <StatusBadge status={order.status} cancelled={isCancelled} />
+            <StatusBadge status={order.status} cancelled={isCancelled} rejected={isRejected} />
             <span className="order-card-vendor">{order.vendor || "No vendor"}</span>
             {orderLocationLabel && <span className="order-card-location">{orderLocationLabel}</span>}
             <span className="order-card-date">{formatDate(order.createdAt)}</span>
@@ -859,15 +1213,46 @@ function OrderCard({
             {total !== null && <span className="order-card-cost">{formatCurrency(total)}</span>}
           </div>
           <div className="order-card-actions">
-            {!readOnly && order.status !== "closed" && !confirmingCancel && (
+            {!readOnly && order.status !== "closed" && !confirmingCancel && !deciding && (
               <>
-                <button
-                  type="button"
-                  className="button button-primary button-sm"
-                  onClick={() => setShowReceive(true)}
-                >
-                  <PackageCheck size={14} /> Receive
-                </button>
+                {isPendingApproval ? (
+                  order.canDecide ? (
+                    <>
+                      <button
+                        type="button"
+                        className="button button-primary button-sm"
+                        onClick={() => setDeciding("approve")}
+                      >
+                        <CheckCircle size={14} /> Approve
+                      </button>
+                      <button
+                        type="button"
+                        className="button button-secondary button-sm"
+                        onClick={() => setDeciding("reject")}
+                      >
+                        Reject
+                      </button>
+                    </>
+                  ) : null
+                ) : isDraft ? (
+                  <button
+                    type="button"
+                    className="button button-primary button-sm"
+                    onClick={() => void handlePlace()}
+                    disabled={placing}
+                    title="Mark this draft as ordered with the vendor"
+                  >
+                    <ShoppingCart size={14} /> {placing ? "Placing…" : "Place order"}
+                  </button>
+                ) : (
+                  <button
+                    type="button"
+                    className="button button-primary button-sm"
+                    onClick={() => setShowReceive(true)}
+                  >
+                    <PackageCheck size={14} /> Receive
+                  </button>
+                )}
                 <button
                   type="button"
                   className="button button-danger button-sm"
@@ -897,7 +1282,68 @@ function OrderCard({
         </div>
 
         {order.notes && <p className="order-card-notes">{order.notes}</p>}
-        <p className="order-card-by">Ordered by {order.createdByName}</p>
+        <p className="order-card-by">{isDraft ? "Drafted" : "Ordered"} by {order.createdByName}</p>
+        {isPendingApproval && (
+          <p className="order-card-approval">
+            Needs approval: {(order.approvalReasons ?? []).join(", ")}
+            {order.approvalTotal ? ` · ${formatCurrency(order.approvalTotal)}` : ""}
+          </p>
+        )}
+        {order.approvalDecision && (
+          <p className={`order-card-approval${isRejected ? " order-card-approval--rejected" : ""}`}>
+            {isRejected ? "Rejected" : "Approved"} by {order.approvalDecidedByName}
+            {order.approvalDecidedAt ? ` on ${formatDate(order.approvalDecidedAt)}` : ""}
+            {order.approvalNote ? ` — ${order.approvalNote}` : ""}
+          </p>
+        )}
+        {placeError && <p className="field-error" role="alert">{placeError}</p>}
+
+        {deciding && (
+          <div className="order-approval-confirm">
+            <strong>{deciding === "approve" ? "Approve this order?" : "Reject this order?"}</strong>
+            <p className="order-cancel-confirm-hint">
+              {deciding === "approve"
+                ? "It opens for receiving. Add a note for the requester if you like."
+                : "It's closed and its items return to the reorder list. The requester sees your reason."}
+            </p>
+            <textarea
+              className="field order-cancel-note"
+              placeholder={deciding === "approve" ? "Note (optional)" : "Reason, e.g. over this month's budget — split it across two orders"}
+              value={decisionNote}
+              onChange={(e) => {
+                setDecisionNote(e.target.value);
+                setDecisionError("");
+              }}
+              rows={2}
+              disabled={decisionBusy}
+              autoFocus
+            />
+            {decisionError && <p className="field-error" role="alert">{decisionError}</p>}
+            <div className="order-cancel-actions">
+              <button
+                type="button"
+                className="button button-secondary button-sm"
+                onClick={() => {
+                  setDeciding(null);
+                  setDecisionNote("");
+                  setDecisionError("");
+                }}
+                disabled={decisionBusy}
+              >
+                Back
+              </button>
+              <button
+                type="button"
+                className={`button button-sm ${deciding === "approve" ? "button-primary" : "button-danger"}`}
+                onClick={() => void handleConfirmDecision()}
+                disabled={decisionBusy}
+              >
+                {decisionBusy ? <Loader2 size={14} className="spin" /> : null}
+                {deciding === "approve" ? "Approve order" : "Reject order"}
+              </button>
+            </div>
+          </div>
+        )}
 
         {confirmingCancel && (
           <div className="order-cancel-confirm">
@@ -1140,10 +1586,25 @@ export function OrdersHelp() {
           or leave open. Open partial orders show a
           <strong> Partially Received</strong> badge.
         </li>
+        <li>
+          <strong>Scan</strong> — scan a product's UPC (or type it) to
+          jump to its line. A code no line knows yet can be linked to an
+          item right there; it matches on every future order.
+        </li>
         <li>
           <strong>Cancel</strong> — close without receiving. Items
           return to the reorder list. Add a note if you want.
         </li>
+        <li>
+          <strong>Awaiting Approval</strong> — your org holds orders
+          over a set total, or for certain vendors or locations, until
+          an approver signs off. They can't be received until approved.
+          Approvers see <strong>Approve</strong> and <strong>Reject</strong>
+          on the card (never on their own orders); a rejected order
+          closes and its items return to the reorder list. You'll see
+          the decision on your dashboard. Admins set the rules in
+          Settings → Order Approvals.
+        </li>
       </ul>
 
       <h4>Closed Orders</h4>
@@ -1654,6 +2115,32 @@ function ComposeOrderPanel({
   };
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Budgets this order might push over. Loaded once; without them (no
+  // budgets set up, or the load failed) the form just doesn't warn.
+  const [budgets, setBudgets] = useState<BudgetStatus[]>([]);
+  useEffect(() => {
+    let cancelled = false;
+    listBudgets()
+      .then((next) => { if (!cancelled) setBudgets(next); })
+      .catch(() => { /* no warning rather than a broken form */ });
+    return () => { cancelled = true; };
+  }, []);
+  const budgetOverruns = useMemo(() => {
+    if (budgets.length === 0) return [];
+    const priced = lines.flatMap((l) => {
+      const amount = l.price.trim() ? parseCurrency(l.price) : NaN;
+      if (!l.itemName.trim() || !Number.isFinite(amount) || amount <= 0) return [];
+      // Same destination handleSubmit sends: existing items restock to their
+      // own leaf, new items go to the picked destination.
+      const row = l.itemId ? inventoryRows.find((r) => r.id === l.itemId) : undefined;
+      return [{
+        locationId: row ? String(row.locationId ?? "") : destinationLocationId,
+        values: row?.values ?? { itemName: l.itemName.trim() },
+        amount,
+      }];
+    });
+    return findBudgetOverruns(budgets, priced, locations, toIsoDay(new Date()));
+  }, [budgets, lines, inventoryRows, destinationLocationId, locations]);
   // Lowercased item names already locked in across other lines — passed to
   // each line's autocomplete so the dropdown hides items already picked.
   const alreadyInCartNames = useMemo(
@@ -2223,6 +2710,26 @@ function ComposeOrderPanel({
 
         {error ? <p className="field-error" role="alert">{error}</p> : null}
 
+        {budgetOverruns.length > 0 ? (
+          <div className="order-receive-warning" role="status">
+            <div className="order-receive-warning-header">
+              <AlertTriangle size={16} />
+              <strong>This order would go over budget.</strong>
+            </div>
+            <ul className="order-receive-warning-list">
+              {budgetOverruns.map(({ budget, orderAmount, projected }) => (
+                <li key={budget.id}>
+                  {budget.name}: {formatCurrency(orderAmount)} here brings it to {formatCurrency(projected)} of{" "}
+                  {formatCurrency(budget.amount)} ({formatCurrency(projected - budget.amount)} over)
+                </li>
+              ))}
+            </ul>
+            <p className="order-receive-warning-hint">
+              Totals include what's already been received and what's still due on open orders this period.
+            </p>
+          </div>
+        ) : null}
+
         <div className="compose-order-actions">
           <button
             type="button"
@@ -2240,6 +2747,7 @@ function ComposeOrderPanel({
 // ── Main Orders Page ───────────────────────────────────────────────────────
 
 export function OrdersPage({ selectedLocationId, onSelectedLocationIdChange, initialFocusOrderId, readOnly = false, onOpenActivityHistory, onOpenInInventory }: OrdersPageProps) {
+  const toast = useToast();
   const [orders, setOrders] = useState<RestockOrder[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -2311,6 +2819,8 @@ export function OrdersPage({ selectedLocationId, onSelectedLocationIdChange, ini
     });
   };
   const inventoryRowsRef = useRef<InventoryRow[]>([]);
+  /** Change-feed cursor from the last bootstrap; see the polling effect. */
+  const changesCursorRef = useRef<string | null>(null);
 
   // Sorted location list. Replaces the previous merged-from-row-values
   // derivation — locations are first-class entities post-restructure.
@@ -2332,12 +2842,17 @@ export function OrdersPage({ selectedLocationId, onSelectedLocationIdChange, ini
     );
   }, [inventoryRows, registeredVendors]);
 
+  // Re-fetches the approval notices whenever the order list reloads, so an
+  // approve / reject here updates the awaiting count.
+  const [noticesKey, setNoticesKey] = useState(0);
+
   const loadOrders = useCallback(async () => {
     setLoading(true);
     setError(null);
     try {
       const data = await listRestockOrders();
       setOrders(data);
+      setNoticesKey((k) => k + 1);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to load orders.");
     } finally {
@@ -2346,9 +2861,10 @@ export function OrdersPage({ selectedLocationId, onSelectedLocationIdChange, ini
   }, []);
 
   const loadBootstrap = useCallback(() => {
-    loadInventoryBootstrap().then(({ columns, items, locations: locs, registeredVendors: vendors, vendorPricing: vp, allowedUnits: au, tracksUnits: tu }) => {
+    loadInventoryBootstrap().then(({ columns, items, locations: locs, registeredVendors: vendors, vendorPricing: vp, allowedUnits: au, tracksUnits: tu, changesCursor }) => {
       setInventoryRows(items);
       inventoryRowsRef.current = items;
+      changesCursorRef.current = changesCursor;
       setHasExpirationColumn(columns.some((c) => c.key === "expirationDate" && c.isVisible));
       setLocations(Array.isArray(locs) ? locs : []);
       setRegisteredVendors(Array.isArray(vendors) ? vendors : []);
@@ -2384,13 +2900,59 @@ export function OrdersPage({ selectedLocationId, onSelectedLocationIdChange, ini
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // Keep Reorder / Shop current with other users' edits via the change feed.
+  // This page never holds unsaved row edits (every change saves directly), so
+  // incoming rows always win. A cursor too old to replay takes a fresh load.
+  useEffect(() => {
+    if (!inventoryLoaded) return;
+    let cancelled = false;
+    let inFlight = false;
+    const poll = async () => {
+      const since = changesCursorRef.current;
+      if (!since || inFlight || document.visibilityState === "hidden") return;
+      inFlight = true;
+      try {
+        const changes = await loadInventoryChanges(since);
+        if (cancelled) return;
+        if (!changes) {
+          loadBootstrap();
+          return;
+        }
+        changesCursorRef.current = changes.cursor;
+        const next = mergeInventoryChanges(inventoryRowsRef.current, changes);
+        if (next !== inventoryRowsRef.current) {
+          inventoryRowsRef.current = next;
+          setInventoryRows(next);
+        }
+        if (changes.locations) setLocations(changes.locations);
+        if (changes.columns) {
+          setHasExpirationColumn(changes.columns.some((c) => c.key === "expirationDate" && c.isVisible));
+        }
+      } catch {
+        // Transient; the next tick retries from the same cursor.
+      } finally {
+        inFlight = false;
+      }
+    };
+    const interval = window.setInterval(() => void poll(), CHANGES_POLL_MS);
+    const onFocus = () => void poll();
+    window.addEventListener("focus", onFocus);
+    document.addEventListener("visibilitychange", onFocus);
+    return () => {
+      cancelled = true;
+      window.clearInterval(interval);
+      window.removeEventListener("focus", onFocus);
+      document.removeEventListener("visibilitychange", onFocus);
+    };
+  }, [inventoryLoaded, loadBootstrap]);
+
   const handleMarkOrdered = useCallback(async (rowIds: string[], vendor: string, orderItems: OrderItem[]) => {
     const idSet = new Set(rowIds);
     const now = new Date().toISOString();
     const current = inventoryRowsRef.current;
     const toSave = current
       .filter((r) => idSet.has(r.id))
-      .map((r) => ({ ...r, position: current.indexOf(r), values: { ...r.values, orderedAt: now, reorderCheckedAt: null } }));
+      .map((r) => ({ ...r, position: current.indexOf(r) }));
     const updated = current.map((r) =>
       idSet.has(r.id) ? { ...r, values: { ...r.values, orderedAt: now, reorderCheckedAt: null } } : r,
     );
@@ -2402,7 +2964,7 @@ export function OrdersPage({ selectedLocationId, onSelectedLocationIdChange, ini
     // accounting.
     if (toSave.length > 0) {
       try {
-        await saveInventoryItems(toSave, []);
+        await saveInventoryValuePatch(toSave, { orderedAt: now, reorderCheckedAt: null });
       } catch (err) {
         console.error("Failed to stamp orderedAt on rows", err);
         setError(
@@ -2416,7 +2978,7 @@ export function OrdersPage({ selectedLocationId, onSelectedLocationIdChange, ini
 
     if (orderItems.length > 0) {
       try {
-        await createRestockOrder({
+        const { status } = await createRestockOrder({
           vendor: vendor || undefined,
           items: orderItems.map((item) => ({
             ...(item.rowId ? { itemId: item.rowId } : {}),
@@ -2439,7 +3001,15 @@ export function OrdersPage({ selectedLocationId, onSelectedLocationIdChange, ini
             ...(item.dimension ? { dimension: item.dimension } : {}),
           })),
         });
+        if (status === "pending_approval") {
+          toast.info("This order needs approval before it goes out. It's waiting for an approver.");
+        }
       } catch (err) {
+        // Queued for replay; the rows are already stamped as ordered.
+        if (isMutationQueuedError(err)) {
+          toast.info(err.message);
+          return;
+        }
         console.error("Failed to create restock order", err);
         setError(
           err instanceof Error
@@ -2503,16 +3073,21 @@ export function OrdersPage({ selectedLocationId, onSelectedLocationIdChange, ini
           setInventoryRows(updated);
           inventoryRowsRef.current = updated;
           try {
-            await saveInventoryItems(newRows, []);
+            await saveInventoryItems(newRows, [], { offlineLabel: "Return items to inventory" });
           } catch (err) {
-            // Surface the error — silently swallowing was hiding save failures
-            // which caused materialized rows to vanish on the next bootstrap.
-            console.error("Failed to materialize freeform items from cancelled order", err);
-            setError(
-              err instanceof Error
-                ? `Could not save items back to inventory: ${err.message}`
-                : "Could not save items back to inventory.",
-            );
+            // Queued for replay; the rows are already in local state.
+            if (isMutationQueuedError(err)) {
+              toast.info(err.message);
+            } else {
+              // Surface the error — silently swallowing was hiding save failures
+              // which caused materialized rows to vanish on the next bootstrap.
+              console.error("Failed to materialize freeform items from cancelled order", err);
+              setError(
+                err instanceof Error
+                  ? `Could not save items back to inventory: ${err.message}`
+                  : "Could not save items back to inventory.",
+              );
+            }
           }
         }
       }
@@ -2523,18 +3098,14 @@ export function OrdersPage({ selectedLocationId, onSelectedLocationIdChange, ini
       const current = inventoryRowsRef.current;
       const toSave = current
         .filter((r) => itemIds.has(r.id) && r.values.orderedAt)
-        .map((r) => ({
-          ...r,
-          position: current.indexOf(r),
-          values: { ...r.values, orderedAt: null },
-        }));
+        .map((r) => ({ ...r, position: current.indexOf(r) }));
       if (toSave.length > 0) {
         const updated = current.map((r) =>
           itemIds.has(r.id) ? { ...r, values: { ...r.values, orderedAt: null } } : r,
         );
         setInventoryRows(updated);
         inventoryRowsRef.current = updated;
-        await saveInventoryItems(toSave, []).catch(() => {});
+        await saveInventoryValuePatch(toSave, { orderedAt: null }).catch(() => {});
       }
     }
     await loadOrders();
@@ -2597,11 +3168,25 @@ export function OrdersPage({ selectedLocationId, onSelectedLocationIdChange, ini
       ...(l.packSize !== undefined ? { packSize: l.packSize } : {}),
       ...(l.packCost !== undefined ? { packCost: l.packCost } : {}),
     }));
-    const { orderId } = await createRestockOrder({
-      vendor: input.vendor || undefined,
-      notes: input.notes || undefined,
-      items: itemsPayload,
-    });
+    let orderId: string;
+    let status: RestockOrder["status"];
+    try {
+      ({ orderId, status } = await createRestockOrder({
+        vendor: input.vendor || undefined,
+        notes: input.notes || undefined,
+        items: itemsPayload,
+      }));
+    } catch (err) {
+      // Queued for replay. The order's id (and its freeform line ids) only
+      // exist once it lands, so "Already received" has to wait for the sync.
+      if (!isMutationQueuedError(err)) throw err;
+      toast.info(
+        input.markReceived
+          ? `${err.message} Receive it from Pending Receipt once it syncs.`
+          : err.message,
+      );
+      return;
+    }
 
     // Stamp orderedAt on every inventory row referenced by this order so
     // those items leave the Reorder vendor cards (otherwise the user sees
@@ -2616,16 +3201,25 @@ export function OrdersPage({ selectedLocationId, onSelectedLocationIdChange, ini
         const current = inventoryRowsRef.current;
         const toSave = current
           .filter((r) => orderedRowIds.has(r.id))
-          .map((r) => ({ ...r, position: current.indexOf(r), values: { ...r.values, orderedAt: now } }));
+          .map((r) => ({ ...r, position: current.indexOf(r) }));
         const updated = current.map((r) =>
           orderedRowIds.has(r.id) ? { ...r, values: { ...r.values, orderedAt: now } } : r,
         );
         setInventoryRows(updated);
         inventoryRowsRef.current = updated;
-        if (toSave.length > 0) await saveInventoryItems(toSave, []).catch(() => {});
+        if (toSave.length > 0) await saveInventoryValuePatch(toSave, { orderedAt: now }).catch(() => {});
       }
     }
-    if (input.markReceived) {
+    // An order held for approval can't be received yet — it waits under
+    // Pending Receipt until an approver signs off.
+    if (status === "pending_approval") {
+      toast.info(
+        input.markReceived
+          ? "This order needs approval first. Receive it from Pending Receipt once it's approved."
+          : "This order needs approval before it goes out. It's waiting for an approver.",
+      );
+    }
+    if (input.markReceived && status !== "pending_approval") {
       const refreshed = await listRestockOrders();
       const created = refreshed.find((o) => o.id === orderId);
       if (created) {
@@ -2649,7 +3243,7 @@ export function OrdersPage({ selectedLocationId, onSelectedLocationIdChange, ini
       await loadOrders();
     }
     loadBootstrap();
-  }, [loadOrders, loadBootstrap]);
+  }, [loadOrders, loadBootstrap, toast]);
 
   // Closed-orders filter state: free-text search (vendor / notes / item names)
   // plus optional date range on createdAt.
@@ -2793,6 +3387,8 @@ export function OrdersPage({ selectedLocationId, onSelectedLocationIdChange, ini
 
         {loading && <LoadingState />}
 
+        {!readOnly && <OrderApprovalNotices refreshKey={noticesKey} />}
+
         {!loading && (
           <>
             {/* Section tabs only. Location scope moved into ReorderTab's
@@ -2857,6 +3453,7 @@ export function OrdersPage({ selectedLocationId, onSelectedLocationIdChange, ini
                 availableVendors={vendorValues}
                 vendorPricing={vendorPricingByName}
                 onMarkOrdered={handleMarkOrdered}
+                onOrdersGenerated={() => void loadOrders()}
                 onOpenItemDetails={setDetailItemId}
               />
             )}
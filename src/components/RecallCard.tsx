@@ -0,0 +1,391 @@
+import { useEffect, useMemo, useState } from "react";
+import { ChevronRight, Download } from "lucide-react";
+import {
+  executeRecall,
+  listRecalls,
+  previewRecall,
+  type InventoryRow,
+  type RecallCriteria,
+  type RecallPreview,
+  type RecallReport,
+} from "../lib/inventoryApi";
+import { downloadCsv } from "../lib/downloadCsv";
+import { ConfirmDialog } from "./shared/ConfirmDialog";
+import { useToast } from "./shared/Toast";
+
+/** Lot numbers are typed or pasted from the notice — one per line or
+ *  comma-separated. */
+const parseLotList = (raw: string): string[] =>
+  Array.from(new Set(raw.split(/[\n,]/).map((s) => s.trim()).filter(Boolean)));
+
+const lotLabel = (line: { lotNumber?: string; serialNumber?: string }): string =>
+  [line.lotNumber, line.serialNumber ? `SN ${line.serialNumber}` : ""].filter(Boolean).join(" · ");
+
+const formatWhen = (iso: string): string => {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return "";
+  return d.toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" });
+};
+
+/** Recall-response report as CSV: a per-row section, then per-location totals. */
+const downloadRecallReport = (report: RecallReport) => {
+  const criteria = [
+    report.criteria.lotNumbers?.length ? `Lots: ${report.criteria.lotNumbers.join(" ")}` : "",
+    report.criteria.expiresFrom || report.criteria.expiresTo
+      ? `Expiring ${report.criteria.expiresFrom ?? "…"} to ${report.criteria.expiresTo ?? "…"}`
+      : "",
+  ].filter(Boolean).join("; ");
+  const safeRef = report.reference.replace(/[^a-z0-9-_]+/gi, "-").replace(/^-+|-+$/g, "") || "recall";
+  downloadCsv(`recall-${safeRef}-${report.executedAt.slice(0, 10)}.csv`, [
+    ["Recall reference", report.reference],
+    ["Item", report.criteria.itemName],
+    ["Criteria", criteria || "All lots"],
+    ["Pulled", new Date(report.executedAt).toLocaleString()],
+    ["Pulled by", report.executedBy],
+    ...(report.notes ? [["Notes", report.notes]] : []),
+    [],
+    ["Location", "Lot", "Serial", "Expiration", "Qty pulled"],
+    ...report.lines.map((l) => [
+      l.locationName,
+      l.lotNumber ?? "",
+      l.serialNumber ?? "",
+      l.expirationDate ?? "",
+      String(l.qtyPulled),
+    ]),
+    [],
+    ["Location", "Rows", "Qty pulled"],
+    ...report.byLocation.map((b) => [b.locationName, String(b.rowCount), String(b.qtyPulled)]),
+    ["Total", String(report.lines.length), String(report.totalPulled)],
+  ]);
+};
+
+/**
+ * Admin recall tool. Describe the recall (item, optional lot numbers and
+ * expiration range), review every matching on-hand row across locations,
+ * then pull the selection in one pass — each row retired as "recalled" under
+ * a shared reference. Past recalls stay listed with their report for
+ * re-export.
+ */
+export function RecallCard({
+  open = true,
+  inventoryRows,
+  onRecalled,
+}: {
+  open?: boolean;
+  inventoryRows: InventoryRow[];
+  /** Rows changed server-side; lets the parent refresh its copy. */
+  onRecalled?: () => void;
+}) {
+  const toast = useToast();
+  const [itemName, setItemName] = useState("");
+  const [lotText, setLotText] = useState("");
+  const [expiresFrom, setExpiresFrom] = useState("");
+  const [expiresTo, setExpiresTo] = useState("");
+  const [preview, setPreview] = useState<RecallPreview | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [reference, setReference] = useState("");
+  const [notes, setNotes] = useState("");
+  const [searching, setSearching] = useState(false);
+  const [confirming, setConfirming] = useState(false);
+  const [executing, setExecuting] = useState(false);
+  const [lastReport, setLastReport] = useState<RecallReport | null>(null);
+  const [history, setHistory] = useState<RecallReport[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    listRecalls()
+      .then((recalls) => { if (!cancelled) setHistory(recalls); })
+      .catch(() => { /* history is a convenience; the tool still works */ });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const itemNames = useMemo(() => {
+    const names = new Set<string>();
+    for (const row of inventoryRows) {
+      const name = String(row.values.itemName ?? "").trim();
+      if (name && !row.values.retiredAt) names.add(name);
+    }
+    return Array.from(names).sort((a, b) => a.localeCompare(b));
+  }, [inventoryRows]);
+
+  const criteria: RecallCriteria = {
+    itemName: itemName.trim(),
+    lotNumbers: parseLotList(lotText),
+    ...(expiresFrom ? { expiresFrom } : {}),
+    ...(expiresTo ? { expiresTo } : {}),
+  };
+  const selectedMatches = (preview?.matches ?? []).filter((m) => selected.has(m.itemId));
+  const selectedQty = selectedMatches.reduce((sum, m) => sum + m.quantity, 0);
+  const canExecute = !!preview && !preview.tooMany && selectedMatches.length > 0 && !!reference.trim() && !executing;
+
+  const resetPreview = () => {
+    setPreview(null);
+    setSelected(new Set());
+  };
+
+  const handleSearch = async () => {
+    if (!criteria.itemName) return;
+    setSearching(true);
+    setLastReport(null);
+    try {
+      const result = await previewRecall(criteria);
+      setPreview(result);
+      setSelected(new Set(result.matches.map((m) => m.itemId)));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not find affected stock.");
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const toggleRow = (itemId: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(itemId)) next.delete(itemId);
+      else next.add(itemId);
+      return next;
+    });
+  };
+
+  const handleExecute = async () => {
+    if (!canExecute) return;
+    setExecuting(true);
+    try {
+      const { report, skipped } = await executeRecall(criteria, {
+        reference: reference.trim(),
+        ...(notes.trim() ? { notes: notes.trim() } : {}),
+        itemIds: selectedMatches.map((m) => m.itemId),
+      });
+      setLastReport(report);
+      setHistory((prev) => [report, ...prev]);
+      resetPreview();
+      setReference("");
+      setNotes("");
+      toast.success(
+        skipped.length > 0
+          ? `Pulled ${report.totalPulled} from ${report.lines.length} rows. ${skipped.length} changed since the preview and were left alone.`
+          : `Pulled ${report.totalPulled} from ${report.lines.length} rows.`,
+      );
+      onRecalled?.();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not run the recall.");
+    } finally {
+      setExecuting(false);
+      setConfirming(false);
+    }
+  };
+
+  return (
+    <details className="settings-section" open={open}>
+      <summary className="settings-section-title">
+        Recalls
+        <ChevronRight size={16} className="settings-section-chevron" aria-hidden="true" />
+      </summary>
+
+      <p className="settings-section-copy">
+        Find every on-hand row of a recalled item across all locations and
+        retire them in one pass, recorded as <strong>recalled</strong> under
+        the notice's reference. Download the report to show what was pulled
+        where.
+      </p>
+
+      <div className="recall-form">
+        <label className="recall-field recall-field--wide">
+          <span className="field-label">Item</span>
+          <input
+            className="field"
+            type="text"
+            list="recall-item-names"
+            value={itemName}
+            onChange={(e) => { setItemName(e.target.value); resetPreview(); }}
+            placeholder="Start typing an item name"
+          />
+          <datalist id="recall-item-names">
+            {itemNames.map((name) => <option key={name} value={name} />)}
+          </datalist>
+        </label>
+        <label className="recall-field recall-field--wide">
+          <span className="field-label">Lot numbers (optional)</span>
+          <textarea
+            className="field"
+            rows={2}
+            value={lotText}
+            onChange={(e) => { setLotText(e.target.value); resetPreview(); }}
+            placeholder="One per line or comma-separated; serial numbers work too"
+          />
+        </label>
+        <label className="recall-field">
+          <span className="field-label">Expiring from</span>
+          <input
+            className="field"
+            type="date"
+            value={expiresFrom}
+            onChange={(e) => { setExpiresFrom(e.target.value); resetPreview(); }}
+          />
+        </label>
+        <label className="recall-field">
+          <span className="field-label">Expiring through</span>
+          <input
+            className="field"
+            type="date"
+            value={expiresTo}
+            onChange={(e) => { setExpiresTo(e.target.value); resetPreview(); }}
+          />
+        </label>
+        <div className="recall-actions">
+          <button
+            type="button"
+            className="button button-secondary button-sm"
+            onClick={() => void handleSearch()}
+            disabled={!criteria.itemName || searching}
+          >
+            {searching ? "Searching…" : "Find affected stock"}
+          </button>
+        </div>
+      </div>
+
+      {preview && (
+        <div className="recall-preview">
+          {preview.matches.length === 0 ? (
+            <p className="settings-section-copy">No on-hand stock matches this recall.</p>
+          ) : (
+            <>
+              {preview.tooMany ? (
+                <p className="settings-error">
+                  {preview.matches.length} rows match — a recall can pull at most {preview.maxRows} at
+                  once. Narrow it with lot numbers or an expiration range.
+                </p>
+              ) : null}
+              <table className="order-detail-table recall-table">
+                <thead>
+                  <tr>
+                    <th aria-label="Pull" />
+                    <th>Location</th>
+                    <th>Lot / Serial</th>
+                    <th>Expires</th>
+                    <th>On hand</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.matches.map((m) => (
+                    <tr key={m.itemId}>
+                      <td>
+                        <input
+                          type="checkbox"
+                          checked={selected.has(m.itemId)}
+                          onChange={() => toggleRow(m.itemId)}
+                          aria-label={`Pull ${m.itemName} at ${m.locationName}`}
+                        />
+                      </td>
+                      <td>{m.locationName || "—"}</td>
+                      <td>{lotLabel(m) || "—"}</td>
+                      <td>{m.expirationDate || "—"}</td>
+                      <td>{m.quantity}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="settings-section-copy">
+                Pulling {selectedQty} from {selectedMatches.length} of {preview.matches.length} rows.
+              </p>
+              <div className="recall-form">
+                <label className="recall-field">
+                  <span className="field-label">Recall reference</span>
+                  <input
+                    className="field"
+                    type="text"
+                    maxLength={80}
+                    value={reference}
+                    onChange={(e) => setReference(e.target.value)}
+                    placeholder="e.g. FDA Z-1234-2026"
+                  />
+                </label>
+                <label className="recall-field recall-field--wide">
+                  <span className="field-label">Notes (optional)</span>
+                  <input
+                    className="field"
+                    type="text"
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    placeholder="Disposition, vendor RMA, who was notified…"
+                  />
+                </label>
+                <div className="recall-actions">
+                  <button
+                    type="button"
+                    className="button button-primary button-sm"
+                    onClick={() => setConfirming(true)}
+                    disabled={!canExecute}
+                  >
+                    Pull {selectedMatches.length} row{selectedMatches.length === 1 ? "" : "s"}
+                  </button>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      {lastReport && (
+        <div className="recall-report">
+          <p className="settings-section-copy">
+            <strong>{lastReport.reference}</strong> — pulled {lastReport.totalPulled} {lastReport.criteria.itemName}
+          </p>
+          <ul className="settings-readonly-list">
+            {lastReport.byLocation.map((b) => (
+              <li key={b.locationId}>
+                <span>{b.locationName || "—"}</span>
+                <span>{b.qtyPulled} ({b.rowCount} row{b.rowCount === 1 ? "" : "s"})</span>
+              </li>
+            ))}
+          </ul>
+          <button
+            type="button"
+            className="button button-secondary button-sm"
+            onClick={() => downloadRecallReport(lastReport)}
+          >
+            <Download size={14} aria-hidden="true" /> Download report
+          </button>
+        </div>
+      )}
+
+      {history.length > 0 && (
+        <div className="recall-history">
+          <span className="field-label">Past recalls</span>
+          <ul className="settings-readonly-list">
+            {history.map((r) => (
+              <li key={r.recallId}>
+                <span>
+                  {formatWhen(r.executedAt)} · <strong>{r.reference}</strong> · {r.criteria.itemName} · {r.totalPulled} pulled
+                </span>
+                <button
+                  type="button"
+                  className="button button-ghost button-sm"
+                  onClick={() => downloadRecallReport(r)}
+                  aria-label={`Download report for ${r.reference}`}
+                  title="Download report (CSV)"
+                >
+                  <Download size={14} aria-hidden="true" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {confirming && (
+        <ConfirmDialog
+          title="Pull recalled stock?"
+          message={`Retire ${selectedQty} ${criteria.itemName} across ${selectedMatches.length} row${selectedMatches.length === 1 ? "" : "s"} as recalled under "${reference.trim()}". Each row can still be restored from Activity.`}
+          confirmLabel="Pull stock"
+          onConfirm={() => void handleExecute()}
+          onCancel={() => setConfirming(false)}
+          loading={executing}
+          loadingLabel="Pulling…"
+        />
+      )}
+    </details>
+  );
+}
@@ -2,6 +2,7 @@ import { useEffect, useMemo, useRef, useState } from "react";
 import type { InventoryLocation, InventoryRow } from "../lib/inventoryApi";
 import { buildLocationPickerEntries, locationsInScope, locationPath } from "../lib/locationTree";
 import { formatCurrency, parseCurrency } from "../lib/currency";
+import { describeSupply, forecastKey, indexRates, loadForecastMethod, projectSupply, useUsageForecast } from "../lib/forecast";
 import { Check, ChevronDown, ExternalLink, Link2Off, Minus, Package, X } from "lucide-react";
 import { EmptyState } from "./shared/EmptyState";
 
@@ -159,6 +160,12 @@ type ReorderItem = {
   // Undefined for single-location rows. Drives the "Station 1 short 4 · EMS 2 ·
   // Ambulance 2" breakdown chip.
   locationBreakdown?: { location: string; shortfall: number }[];
+  /** Earliest projected stock-out among cabinets flagged by the usage
+   *  forecast (running out before their next typical order). Set even when
+   *  the item is still above min — that's the point of the flag. */
+  runsOutAt?: Date;
+  /** Hover text behind runsOutAt. */
+  runsOutDetail?: string;
 };
 
 type VendorGroup = {
@@ -199,6 +206,9 @@ const getDaysUntilExpiration = (value: string | number | boolean | null | undefi
   return Math.floor((targetStart - todayStart) / (1000 * 60 * 60 * 24));
 };
 
+/** "Oct 30" for a projected stock-out date. */
+const formatRunsOut = (date: Date): string =>
+  date.toLocaleDateString(undefined, { month: "short", day: "numeric" });
 
 // ── VendorChecklistCard ──────────────────────────────────────────────────────
 
@@ -485,8 +495,10 @@ function VendorChecklistCard({
                           <span className="badge badge--primary">Added</span>
                         )
                       ) : (
-                        <span className="badge badge--warning">
-                          Low: {itemData.activeQty}/{itemData.minQuantity}
+                        <span className="badge badge--warning" title={itemData.runsOutDetail}>
+                          {itemData.runsOutAt && itemData.activeQty >= itemData.minQuantity
+                            ? `Runs out ~${formatRunsOut(itemData.runsOutAt)}`
+                            : `Low: ${itemData.activeQty}/${itemData.minQuantity}`}
                         </span>
                       )}
                       {itemData.locationBreakdown && (
@@ -1070,8 +1082,10 @@ function MissingInfoCard({
                         <span className="badge badge--primary">Added</span>
                       )
                     ) : (
-                      <span className="badge badge--warning">
-                        Low: {item.activeQty}/{item.minQuantity}
+                      <span className="badge badge--warning" title={item.runsOutDetail}>
+                        {item.runsOutAt && item.activeQty >= item.minQuantity
+                          ? `Runs out ~${formatRunsOut(item.runsOutAt)}`
+                          : `Low: ${item.activeQty}/${item.minQuantity}`}
                       </span>
                     )}
                     {item.locationBreakdown && (
@@ -1202,6 +1216,13 @@ export function ReorderTab({
   onCountChange,
   onMarkOrdered,
 }: ReorderTabProps) {
+  // Consumption rates from logged usage, with the method last picked on the
+  // Shop list. Cabinets that would run out before their next typical order
+  // are flagged even while still above min.
+  const [forecastMethod] = useState(loadForecastMethod);
+  const usageForecast = useUsageForecast(forecastMethod);
+  const usageRates = useMemo(() => indexRates(usageForecast), [usageForecast]);
+
   const { vendorGroups, incompleteItems } = useMemo(() => {
     // Locations in scope: "All Locations" → every location; a primary → itself
     // + its sublocations; a sublocation → just itself. Any location can hold
@@ -1311,20 +1332,31 @@ export function ReorderTab({
       vendor: string;
       breakdown: { location: string; shortfall: number }[];
       repRow: InventoryRow;
+      runsOutAt?: Date;
+      runsOutDetail?: string;
     };
 
+    const now = new Date();
+
     const rollup = new Map<string, ItemRollup>();
     for (const [key, agg] of leafMap.entries()) {
-      // Only count cabinets that are actively low. Items without a min set are
-      // intentionally excluded; min=0 is a valid "we're discontinuing this"
-      // signal. Expired qty doesn't count toward on-hand.
-      if (!agg.hasMin || agg.activeQty >= agg.minQuantity) continue;
+      // Only count cabinets that are actively low, or that the usage forecast
+      // says will run out before their next typical order. Items without a
+      // min set are intentionally excluded; min=0 is a valid "we're
+      // discontinuing this" signal. Expired qty doesn't count toward on-hand.
+      if (!agg.hasMin) continue;
+      const itemName = key.split("\x00")[0];
+      const supply = projectSupply(agg.activeQty, usageRates.get(forecastKey(itemName, agg.locationId)), now);
+      if (agg.activeQty >= agg.minQuantity && !supply?.atRisk) continue;
       // A cabinet with a pending order is already being restocked — it doesn't
       // add to the outstanding need (mirrors the Pending Receipt section).
       if (agg.latestOrderedAt) continue;
 
-      const itemName = key.split("\x00")[0];
-      const shortfall = agg.minQuantity - agg.activeQty;
+      // At risk: order enough to last a full cycle at the current rate.
+      const cycleNeed = supply?.atRisk ? supply.dailyRate * supply.orderCycleDays : 0;
+      const shortfall = Math.max(agg.minQuantity, cycleNeed) - agg.activeQty;
+      const runsOutAt = supply?.atRisk ? supply.stockOutDate : undefined;
+      const runsOutDetail = supply?.atRisk ? describeSupply(supply) : undefined;
 
       // Representative row for this cabinet: non-expired row with lowest qty.
       const activeRows = agg.rows.filter((r) => {
@@ -1352,6 +1384,8 @@ export function ReorderTab({
           vendor: agg.vendor,
           breakdown: [{ location: locName, shortfall }],
           repRow: leafRep,
+          runsOutAt,
+          runsOutDetail,
         });
       } else {
         existing.shortfallUnits += shortfall;
@@ -1362,6 +1396,10 @@ export function ReorderTab({
         if (!existing.reorderLink && agg.reorderLink) existing.reorderLink = agg.reorderLink;
         if (!existing.vendor && agg.vendor) existing.vendor = agg.vendor;
         existing.breakdown.push({ location: locName, shortfall });
+        if (runsOutAt && (!existing.runsOutAt || runsOutAt < existing.runsOutAt)) {
+          existing.runsOutAt = runsOutAt;
+          existing.runsOutDetail = runsOutDetail;
+        }
         // Keep the most-short cabinet's representative for pricing/link display.
         if (Number(leafRep.values.quantity ?? 0) < Number(existing.repRow.values.quantity ?? 0)) {
           existing.repRow = leafRep;
@@ -1416,6 +1454,8 @@ export function ReorderTab({
         packSize,
         // Only surface a breakdown when the need spans more than one cabinet.
         locationBreakdown: breakdown.length > 1 ? breakdown : undefined,
+        runsOutAt: r.runsOutAt,
+        runsOutDetail: r.runsOutDetail,
       };
 
       // Vendor is the only hard requirement to land in a vendor card —
@@ -1455,7 +1495,7 @@ export function ReorderTab({
     // selectedLocationId controls the scope: "All Locations" sums every
     // cabinet's shortfall; a station sums its children's; a single cabinet is
     // just itself. availableLocationsFull supplies the tree for that roll-up.
-  }, [rows, selectedLocationId, availableLocationsFull]);
+  }, [rows, selectedLocationId, availableLocationsFull, usageRates]);
 
   // Rows the user has explicitly picked for this reorder via the panel (not
   // low-stock). Stored as rowId — we look up the live row from inventoryRows
@@ -57,6 +57,7 @@ import {
   exportInventoryData,
   updateInventoryColumnAttachments,
 } from "../lib/inventoryApi";
+import { isMutationQueuedError } from "../lib/offlineQueue";
 import { MODULE_BY_KEY } from "../lib/moduleRegistry";
 import type { ThemePreference } from "../lib/themePreference";
 import {
@@ -75,6 +76,15 @@ import { isExpired } from "../lib/expiration";
 import { CustomDropdown } from "./shared/CustomDropdown";
 import { AddColumnDialog } from "./inventory/AddColumnDialog";
 import { SupportAccessCard } from "./SupportAccessCard";
+import { ApiKeysCard } from "./ApiKeysCard";
+import { WebhooksCard } from "./WebhooksCard";
+import { AuditRetentionCard } from "./AuditRetentionCard";
+import { AuditIntegrityCard } from "./AuditIntegrityCard";
+import { AlertDigestCard } from "./AlertDigestCard";
+import { BudgetsCard } from "./BudgetsCard";
+import { OrderApprovalsCard } from "./OrderApprovalsCard";
+import { ExpirationSettingsCard } from "./ExpirationSettingsCard";
+import { RecallCard } from "./RecallCard";
 
 const SETTINGS_DISCLOSURES_STORAGE_KEY = "wickops.settings.disclosures";
 type DisclosureKey = "appearance" | "userModuleAccess" | "pendingInvites" | "locations" | "vendors" | "allowedUnits" | "inventoryColumns" | "importData" | "exportData" | "helpSupport";
@@ -105,7 +115,8 @@ interface SettingsPageProps {
   currentPeriodEnd: number | null;
   canManageInventoryColumns: boolean;
   canManageModuleAccess: boolean;
-  /** True only for the org OWNER. Gates the support-access consent card. */
+  /** True only for the org OWNER. Gates the support-access consent and API
+   *  key cards. */
   isOrgOwner: boolean;
   /** Read-only WickOps support operator viewing a customer org. Reveals config
    *  lists (locations/vendors/columns) read-only in place of the admin-only
@@ -158,7 +169,7 @@ export function SettingsPage({
 }: SettingsPageProps) {
   const toast = useToast();
   const normalizeEmail = (value: string): string => value.trim().toLowerCase();
-  const nonEditableKeys = new Set(["itemName", "quantity", "minQuantity", "expirationDate"]);
+  const nonEditableKeys = new Set(["itemName", "quantity", "minQuantity", "parQuantity", "expirationDate"]);
   const isLockedColumn = (column: InventoryColumn): boolean =>
     column.isCore || column.isRequired || nonEditableKeys.has(column.key);
   const [columns, setColumns] = useState<InventoryColumn[]>([]);
@@ -628,6 +639,12 @@ export function SettingsPage({
       setMoveContentsSource(null);
       setMoveContentsDestId("");
     } catch (err: any) {
+      if (isMutationQueuedError(err)) {
+        setMoveContentsSource(null);
+        setMoveContentsDestId("");
+        toast.info(err.message);
+        return;
+      }
       console.error(err);
       setMoveContentsError(err?.message ?? "Failed to move contents");
     } finally {
@@ -1669,8 +1686,20 @@ export function SettingsPage({
           )}
         </details>
 
+        <AlertDigestCard open={false} locations={locations} />
+
         {isOrgOwner && <SupportAccessCard open={false} />}
 
+        {isOrgOwner && !isSupportView && <ApiKeysCard open={false} />}
+
+        {canManageInventoryColumns && !isSupportView && <WebhooksCard open={false} />}
+
+        {canManageInventoryColumns && !isSupportView && (
+          <AuditRetentionCard open={false} canEdit={isOrgOwner} />
+        )}
+
+        {isOrgOwner && !isSupportView && <AuditIntegrityCard open={false} />}
+
         {canManageModuleAccess ? (
           <details
             className="settings-section"
@@ -2155,6 +2184,40 @@ export function SettingsPage({
          *  push. State + loaders below remain plumbed so we can restore the
          *  section in one edit when pantry / restaurant orgs come online. */}
 
+        <ExpirationSettingsCard
+          open={false}
+          columns={columns}
+          canManage={canManageInventoryColumns}
+        />
+
+        {canManageInventoryColumns && (
+          <BudgetsCard
+            open={false}
+            columns={columns}
+            locations={locations}
+          />
+        )}
+
+        {canManageInventoryColumns && (
+          <OrderApprovalsCard
+            open={false}
+            locations={locations}
+            vendors={allVendors}
+          />
+        )}
+
+        {canManageInventoryColumns && (
+          <RecallCard
+            open={false}
+            inventoryRows={inventoryRows}
+            onRecalled={() => {
+              loadInventoryBootstrap()
+                .then((bootstrap) => setInventoryRows(bootstrap.items ?? []))
+                .catch(() => { /* counts refresh on the next load */ });
+            }}
+          />
+        )}
+
         <details
           className="settings-section"
           open={disclosures.inventoryColumns}
@@ -16,14 +16,21 @@
 // lot item (3 ct + 5 ct lots, min=6) sees its TOTAL on-hand of 8 and stays
 // out of the list. Mark-as-ordered stamps `orderedAt` on every lot of a
 // matching name so all rows leave the list together.
+//
+// Usage forecast: an item still above min also lands here when, at its
+// logged usage rate, it would run out before its next typical order.
 
 import { useEffect, useMemo, useState } from "react";
-import { ExternalLink, Info, Plus, ShoppingCart } from "lucide-react";
+import { ClipboardList, ExternalLink, Info, Plus, ShoppingCart } from "lucide-react";
 import { LoadingState } from "./shared/LoadingState";
 import { EmptyState } from "./shared/EmptyState";
+import { ConfirmDialog } from "./shared/ConfirmDialog";
 import {
+  generateRestockOrders,
   loadPriceHistory,
+  type GeneratedRestockOrders,
   type InventoryLocation,
+  type ForecastMethod,
   type InventoryRow,
   type ItemVendorPricingEntry,
   type PriceHistoryEntry,
@@ -32,6 +39,17 @@ import { buildLocationPickerEntries, locationsInScope, locationPath, isStation }
 import { CustomDropdown } from "./shared/CustomDropdown";
 import type { OrderItem } from "./ReorderTab";
 import { formatCurrency, parseCurrency } from "../lib/currency";
+import {
+  FORECAST_METHOD_LABELS,
+  describeSupply,
+  formatDaysOfSupply,
+  indexRates,
+  loadForecastMethod,
+  projectSupply,
+  saveForecastMethod,
+  useUsageForecast,
+  type SupplyForecast,
+} from "../lib/forecast";
 import {
   dimensionForUnit,
   pricePerCanonical,
@@ -52,6 +70,9 @@ interface ShoppingListTabProps {
    *  vendor the user hasn't committed to. */
   vendorPricing: Map<string, Map<string, ItemVendorPricingEntry>>;
   onMarkOrdered: (rowIds: string[], vendor: string, items: OrderItem[]) => Promise<void>;
+  /** Fired after "Generate orders" created draft orders, so the parent can
+   *  reload and show them. */
+  onOrdersGenerated?: () => void;
   /** Per-row "edit pricing" callback. Opens the parent's i modal scoped
    *  to this item so users can adjust pack count, amount, cost, and URL
    *  without inline edits crowding the Reorder row. Used in both
@@ -129,14 +150,19 @@ type ShopItem = {
   /** Max `minQuantity` across lots — mirrors the existing Reorder rule
    *  (a single low-min lot doesn't drag the whole item under threshold). */
   minQty: number;
-  /** Suggested order qty in user's unit. Defaults to (minQty - activeQty)
-   *  rounded up for count, or minQty - activeQty for weight/volume. */
+  /** Max `parQuantity` across lots — the level to fill back up to. 0 when
+   *  unset, in which case the item fills back to its min. */
+  parQty: number;
+  /** Suggested order qty in user's unit: (par, else min) − activeQty,
+   *  rounded up for count, kept fractional for weight/volume. */
   suggestedQty: number;
   /** Per-vendor history pulled from the endpoint, keyed by lowercased vendor. */
   byVendor: Map<string, PriceHistoryEntry>;
+  /** Days of supply at the logged usage rate; null without usage history. */
+  supply: SupplyForecast | null;
 };
 
-export function ShoppingListTab({ rows, locations, selectedLocationId, onSelectedLocationIdChange, availableVendors, vendorPricing, onMarkOrdered, onOpenItemDetails }: ShoppingListTabProps) {
+export function ShoppingListTab({ rows, locations, selectedLocationId, onSelectedLocationIdChange, availableVendors, vendorPricing, onMarkOrdered, onOrdersGenerated, onOpenItemDetails }: ShoppingListTabProps) {
   const [vendorMode, setVendorMode] = useState<string>("");
   const [history, setHistory] = useState<PriceHistoryEntry[]>([]);
   const [historyLoading, setHistoryLoading] = useState(false);
@@ -163,9 +189,19 @@ export function ShoppingListTab({ rows, locations, selectedLocationId, onSelecte
   const priceDrafts: Record<string, string> = {};
   const [marking, setMarking] = useState(false);
   const [markError, setMarkError] = useState<string | null>(null);
+  // "Generate orders": a server-side preview is confirmed before the drafts
+  // are created, so the user sees which vendors get an order first.
+  const [generatePreview, setGeneratePreview] = useState<GeneratedRestockOrders | null>(null);
+  const [generating, setGenerating] = useState(false);
+  const [generateNotice, setGenerateNotice] = useState<string | null>(null);
   // 1h.7: URL editing moved to the i modal. Inline URL state was
   // removed along with the inline price + pack-size overrides — one
   // canonical edit path through ItemDetailModal keeps the row tight.
+  // Forecast method is a per-browser preference; the inventory grid's
+  // days-of-supply figures read the same one.
+  const [forecastMethod, setForecastMethod] = useState<ForecastMethod>(loadForecastMethod);
+  const usageForecast = useUsageForecast(forecastMethod);
+  const usageRates = useMemo(() => indexRates(usageForecast), [usageForecast]);
 
   // Initial fetch + manual refresh after Mark-as-ordered.
   const refreshHistory = async () => {
@@ -223,8 +259,10 @@ export function ShoppingListTab({ rows, locations, selectedLocationId, onSelecte
 
       const qty = Number(row.values.quantity);
       const min = Number(row.values.minQuantity);
+      const par = Number(row.values.parQuantity);
       const safeQty = Number.isFinite(qty) ? qty : 0;
       const safeMin = Number.isFinite(min) ? min : 0;
+      const safePar = Number.isFinite(par) ? par : 0;
 
       // Read the item's tracking unit (1f). Default "ct" for legacy items
       // that pre-date the unit column. Dimension family is inferred from
@@ -251,14 +289,17 @@ export function ShoppingListTab({ rows, locations, selectedLocationId, onSelecte
           reorderLink,
           activeQty: safeQty,
           minQty: safeMin,
+          parQty: safePar,
           suggestedQty: 0, // computed below
           byVendor: new Map(),
+          supply: null, // computed below
           repPriority,
         });
       } else {
         existing.rowIds.push(row.id);
         existing.activeQty += safeQty;
         existing.minQty = Math.max(existing.minQty, safeMin);
+        existing.parQty = Math.max(existing.parQty, safePar);
         if (repPriority > existing.repPriority) {
           existing.representativeRowId = row.id;
           existing.unit = unit;
@@ -268,23 +309,29 @@ export function ShoppingListTab({ rows, locations, selectedLocationId, onSelecte
       }
     }
 
-    // Drop the priority field + filter to actually-low items.
+    // Drop the priority field + filter to actually-low items, plus items
+    // that would run out before their next typical order.
     const out: ShopItem[] = [];
+    const now = new Date();
     for (const agg of aggMap.values()) {
       if (agg.minQty <= 0) continue;
-      if (agg.activeQty >= agg.minQty) continue;
-      const shortfall = Math.max(0, agg.minQty - agg.activeQty);
+      const supply = projectSupply(agg.activeQty, usageRates.get(agg.itemKey), now);
+      if (agg.activeQty >= agg.minQty && !supply?.atRisk) continue;
+      // Below min triggers the reorder; the order fills back up to par — or,
+      // when usage says that won't last, to a full order cycle's worth.
+      const cycleNeed = supply?.atRisk ? supply.dailyRate * supply.orderCycleDays : 0;
+      const shortfall = Math.max(0, Math.max(agg.parQty, agg.minQty, cycleNeed) - agg.activeQty);
       // Round up for count-family units (no fractional eggs); preserve
       // decimals for weight/volume.
       const isCount = dimensionForUnit(agg.unit) === "count";
       const suggestedQty = isCount ? Math.ceil(shortfall) : shortfall;
       // Strip the internal repPriority and bind the final suggestedQty.
       const { repPriority: _drop, ...keep } = agg;
-      out.push({ ...keep, suggestedQty: suggestedQty > 0 ? suggestedQty : 1 });
+      out.push({ ...keep, supply, suggestedQty: suggestedQty > 0 ? suggestedQty : 1 });
     }
     out.sort((a, b) => a.itemName.localeCompare(b.itemName, undefined, { sensitivity: "base" }));
     return out;
-  }, [rows, locations, selectedLocationId]);
+  }, [rows, locations, selectedLocationId, usageRates]);
 
   // Attach per-vendor history once both inputs are ready. Done in a separate
   // memo so the (history) update doesn't recompute the row aggregation.
@@ -627,6 +674,50 @@ export function ShoppingListTab({ rows, locations, selectedLocationId, onSelecte
     }
   };
 
+  const handlePreviewGenerate = async () => {
+    setGenerating(true);
+    setMarkError(null);
+    setGenerateNotice(null);
+    try {
+      const preview = await generateRestockOrders({ locationId: selectedLocationId ?? undefined, preview: true });
+      if (preview.orders.length === 0) {
+        setGenerateNotice(
+          preview.skipped.length > 0
+            ? `Nothing to generate — ${preview.skipped.length} low item${preview.skipped.length === 1 ? "" : "s"} need a vendor first.`
+            : "Nothing to generate — everything below min is already on order.",
+        );
+      } else {
+        setGeneratePreview(preview);
+      }
+    } catch (err) {
+      setMarkError(err instanceof Error ? err.message : "Failed to plan orders.");
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleConfirmGenerate = async () => {
+    setGenerating(true);
+    try {
+      const result = await generateRestockOrders({ locationId: selectedLocationId ?? undefined });
+      const failed = result.orders.filter((o) => !o.orderId);
+      const created = result.orders.length - failed.length;
+      if (failed.length > 0) {
+        setMarkError(`Could not create the ${failed.map((o) => o.vendor).join(", ")} order${failed.length === 1 ? "" : "s"}: ${failed[0].error ?? "unknown error"}`);
+      }
+      if (created > 0) {
+        setGenerateNotice(`Created ${created} draft order${created === 1 ? "" : "s"}. Review and place them under Pending Receipt.`);
+        onOrdersGenerated?.();
+      }
+      setGeneratePreview(null);
+    } catch (err) {
+      setMarkError(err instanceof Error ? err.message : "Failed to generate orders.");
+      setGeneratePreview(null);
+    } finally {
+      setGenerating(false);
+    }
+  };
+
   const isAnywhere = !vendorMode;
   // When the scope spans more than one leaf (All Locations or a station bucket),
   // each row shows which leaf its shortfall belongs to — so a mixed order is
@@ -682,11 +773,35 @@ export function ShoppingListTab({ rows, locations, selectedLocationId, onSelecte
               ]}
             />
           ) : null}
+          <CustomDropdown
+            ariaLabel="Usage forecast method"
+            disabled={marking}
+            value={forecastMethod}
+            onChange={(next) => {
+              const method = next as ForecastMethod;
+              setForecastMethod(method);
+              saveForecastMethod(method);
+            }}
+            options={(Object.keys(FORECAST_METHOD_LABELS) as ForecastMethod[]).map((method) => ({
+              value: method,
+              label: `Forecast: ${FORECAST_METHOD_LABELS[method]}`,
+            }))}
+          />
         </div>
+        <button
+          type="button"
+          className="button button-secondary button-sm"
+          onClick={() => void handlePreviewGenerate()}
+          disabled={generating || marking}
+          title="Draft one order per vendor that fills every low item back to par"
+        >
+          <ClipboardList size={14} aria-hidden="true" /> {generating && !generatePreview ? "Planning…" : "Generate orders"}
+        </button>
       </header>
 
       {historyError ? <p className="field-error" role="alert">{historyError}</p> : null}
       {markError ? <p className="field-error" role="alert">{markError}</p> : null}
+      {generateNotice ? <p className="shop-tab-notice" role="status">{generateNotice}</p> : null}
 
       {historyLoading && lowItemsWithHistory.length === 0 ? (
         <LoadingState message="Loading prices..." />
@@ -860,6 +975,16 @@ export function ShoppingListTab({ rows, locations, selectedLocationId, onSelecte
                     )}
                     <span className="shop-row-stock">
                       {item.activeQty}/{item.minQty} {item.unit} on hand
+                      {item.parQty > item.minQty ? ` · par ${item.parQty}` : ""}
+                      {item.supply ? (
+                        <span
+                          className={item.supply.atRisk ? "shop-row-runout" : undefined}
+                          title={describeSupply(item.supply)}
+                        >
+                          {" · "}{formatDaysOfSupply(item.supply.daysOfSupply)} left
+                          {item.supply.atRisk && item.activeQty >= item.minQty ? " — runs out before the next order" : ""}
+                        </span>
+                      ) : null}
                       {scopeIsAggregate && item.locationId ? (
                         <span className="shop-row-location">
                           {" · "}{locationPath(locations, item.locationId)}
@@ -997,6 +1122,42 @@ export function ShoppingListTab({ rows, locations, selectedLocationId, onSelecte
           </button>
         </div>
       )}
+
+      {generatePreview ? (
+        <ConfirmDialog
+          title="Generate orders"
+          message={
+            <>
+              <p>
+                Create {generatePreview.orders.length} draft order{generatePreview.orders.length === 1 ? "" : "s"} that
+                fill low items back to par, net of what's already on order:
+              </p>
+              <ul className="shop-generate-list">
+                {generatePreview.orders.map((order) => (
+                  <li key={order.vendor}>
+                    <strong>{order.vendor}</strong>
+                    {" — "}
+                    {order.lines.map((line) => `${line.itemName} ×${line.qtyOrdered}`).join(", ")}
+                  </li>
+                ))}
+              </ul>
+              {generatePreview.skipped.length > 0 ? (
+                <p className="shop-tab-summary-hint">
+                  Skipped {generatePreview.skipped.length} item{generatePreview.skipped.length === 1 ? "" : "s"} with
+                  no vendor: {generatePreview.skipped.map((s) => s.itemName).join(", ")}.
+                </p>
+              ) : null}
+              <p className="shop-tab-summary-hint">Drafts aren't sent anywhere until you place them.</p>
+            </>
+          }
+          confirmLabel="Create drafts"
+          destructive={false}
+          loading={generating}
+          loadingLabel="Creating…"
+          onConfirm={() => void handleConfirmGenerate()}
+          onCancel={() => setGeneratePreview(null)}
+        />
+      ) : null}
     </section>
   );
 }
@@ -0,0 +1,126 @@
+import { useEffect, useState } from "react";
+import { AlertTriangle, CloudOff, RefreshCw } from "lucide-react";
+import {
+  discardQueuedMutation,
+  getOfflineQueueState,
+  retryQueuedMutation,
+  subscribeOfflineQueue,
+  syncOfflineQueue,
+  type OfflineQueueState,
+} from "../lib/offlineQueue";
+
+/** Short local time for when a mutation was queued, e.g. "Jun 30, 3:00 PM". */
+const formatQueuedAt = (ms: number): string =>
+  new Date(ms).toLocaleString(undefined, { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+
+/**
+ * Connection + offline-queue status, rendered above the toolbar (App.tsx)
+ * only while there is something to say: the device is offline, changes are
+ * waiting to sync, or a replay was rejected. Rejected changes are listed with
+ * the server's reason and can be retried or discarded one at a time; they
+ * never block the rest of the queue.
+ */
+export function SyncStatusBar() {
+  const [state, setState] = useState<OfflineQueueState>(() => getOfflineQueueState());
+  const [showFailed, setShowFailed] = useState(false);
+  const [busySeq, setBusySeq] = useState<number | null>(null);
+
+  useEffect(() => subscribeOfflineQueue(setState), []);
+
+  useEffect(() => {
+    if (state.failed.length === 0) setShowFailed(false);
+  }, [state.failed.length]);
+
+  if (state.online && state.pending === 0 && state.failed.length === 0) return null;
+
+  const runOn = async (seq: number | undefined, action: (seq: number) => Promise<void>) => {
+    if (seq === undefined || busySeq !== null) return;
+    setBusySeq(seq);
+    try {
+      await action(seq);
+    } finally {
+      setBusySeq(null);
+    }
+  };
+
+  const pendingLabel = `${state.pending} change${state.pending === 1 ? "" : "s"}`;
+  const failedCount = state.failed.length;
+
+  return (
+    <div
+      className={`sync-status-bar${failedCount > 0 ? " sync-status-bar--failed" : ""}`}
+      role="status"
+      aria-live="polite"
+    >
+      <div className="sync-status-summary">
+        {!state.online ? (
+          <>
+            <CloudOff size={16} aria-hidden="true" />
+            <span>
+              {state.pending > 0
+                ? `Offline — ${pendingLabel} saved on this device. They'll sync when you reconnect.`
+                : "Offline — showing what was last loaded."}
+            </span>
+          </>
+        ) : state.pending > 0 ? (
+          <>
+            <RefreshCw size={16} aria-hidden="true" className={state.syncing ? "spin" : undefined} />
+            <span>{state.syncing ? `Syncing ${pendingLabel}…` : `${pendingLabel} waiting to sync.`}</span>
+            {!state.syncing && (
+              <button type="button" className="button button-sm button-secondary" onClick={() => void syncOfflineQueue()}>
+                Sync now
+              </button>
+            )}
+          </>
+        ) : null}
+        {failedCount > 0 && (
+          <>
+            <AlertTriangle size={16} aria-hidden="true" />
+            <span>
+              {failedCount} offline change{failedCount === 1 ? "" : "s"} couldn't be applied.
+            </span>
+            <button
+              type="button"
+              className="button button-sm button-secondary"
+              aria-expanded={showFailed}
+              onClick={() => setShowFailed((v) => !v)}
+            >
+              {showFailed ? "Hide" : "Review"}
+            </button>
+          </>
+        )}
+      </div>
+      {showFailed && failedCount > 0 && (
+        <ul className="sync-status-failed-list">
+          {state.failed.map((m) => (
+            <li key={m.seq} className="sync-status-failed-item">
+              <div className="sync-status-failed-text">
+                <strong>{m.label}</strong>
+                <span className="sync-status-failed-meta">queued {formatQueuedAt(m.queuedAt)}</span>
+                {m.error && <span className="sync-status-failed-error">{m.error}</span>}
+              </div>
+              <div className="sync-status-failed-actions">
+                <button
+                  type="button"
+                  className="button button-sm button-secondary"
+                  disabled={busySeq !== null || !state.online}
+                  onClick={() => void runOn(m.seq, retryQueuedMutation)}
+                >
+                  Retry
+                </button>
+                <button
+                  type="button"
+                  className="button button-sm button-ghost"
+                  disabled={busySeq !== null}
+                  onClick={() => void runOn(m.seq, discardQueuedMutation)}
+                >
+                  Discard
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,380 @@
+import { useEffect, useState } from "react";
+import { ChevronRight, KeyRound } from "lucide-react";
+import {
+  createWebhook,
+  deleteWebhook,
+  listWebhookDeliveries,
+  listWebhooks,
+  redeliverWebhook,
+  updateWebhook,
+  type WebhookDelivery,
+  type WebhookSubscription,
+} from "../lib/inventoryApi";
+import { useToast } from "./shared/Toast";
+import { ConfirmDialog } from "./shared/ConfirmDialog";
+
+/** Format an ISO timestamp as a readable local date+time, e.g. "Jun 30, 3:00 PM". */
+const formatWhen = (iso: string | null | undefined): string => {
+  if (!iso) return "";
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return "";
+  return d.toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+};
+
+/** Human labels for the event types the server offers. Unknown types (added
+ *  server-side later) fall back to the raw name. */
+const EVENT_LABELS: Record<string, string> = {
+  STOCK_BELOW_PAR: "Stock below par",
+  ITEM_CREATE: "Item added",
+  ITEM_EDIT: "Item edited",
+  ITEM_DELETE: "Item deleted",
+  ITEM_MOVE: "Item moved",
+  ITEM_TRANSFER: "Stock transferred",
+  ITEM_RETIRE: "Item retired",
+  ITEM_UNRETIRE: "Retire undone",
+  ITEM_QTY_ADJUST: "Quantity corrected",
+  USAGE_APPROVE: "Usage approved",
+  USAGE_UNDO: "Usage undone",
+  RESTOCK_ORDER_CREATE: "Order created",
+  RESTOCK_ORDER_PLACED: "Draft placed",
+  RESTOCK_RECEIVED: "Order received",
+  RESTOCK_ORDER_CLOSED: "Order closed",
+  RESTOCK_ORDER_APPROVED: "Order approved",
+  RESTOCK_ORDER_REJECTED: "Order rejected",
+  RESTOCK_ADDED: "Restock added",
+  COUNT_SESSION_POST: "Count posted",
+  RECALL_EXECUTE: "Recall executed",
+  LOCATION_CREATE: "Location added",
+  LOCATION_RENAME: "Location renamed",
+  LOCATION_DELETE: "Location deleted",
+};
+
+const STATUS_LABELS: Record<WebhookDelivery["status"], string> = {
+  pending: "Sending",
+  succeeded: "Delivered",
+  retrying: "Retrying",
+  failed: "Failed",
+};
+
+const describeOutcome = (d: WebhookDelivery): string => {
+  const parts: string[] = [];
+  if (d.lastStatusCode !== null) parts.push(`HTTP ${d.lastStatusCode}`);
+  else if (d.lastError) parts.push(d.lastError);
+  parts.push(`${d.attempts} attempt${d.attempts === 1 ? "" : "s"}`);
+  if (d.status === "retrying" && d.nextAttemptAt) parts.push(`next ${formatWhen(d.nextAttemptAt)}`);
+  return parts.join(" · ");
+};
+
+/**
+ * Admin management of outbound webhooks: endpoints that receive a signed POST
+ * when chosen activity-log events happen (or when an item drops below par).
+ * The signing secret is shown once, right after creation. Each endpoint's
+ * recent deliveries can be inspected and resent from here.
+ */
+export function WebhooksCard({ open = true }: { open?: boolean }) {
+  const toast = useToast();
+  const [subscriptions, setSubscriptions] = useState<WebhookSubscription[]>([]);
+  const [eventTypes, setEventTypes] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [url, setUrl] = useState("");
+  const [description, setDescription] = useState("");
+  const [events, setEvents] = useState<string[]>(["STOCK_BELOW_PAR"]);
+  const [creating, setCreating] = useState(false);
+  const [newSecret, setNewSecret] = useState<{ url: string; secret: string } | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState<WebhookSubscription | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [loadingDeliveries, setLoadingDeliveries] = useState(false);
+  const [redeliveringId, setRedeliveringId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const list = await listWebhooks();
+        if (cancelled) return;
+        setSubscriptions(list.subscriptions);
+        setEventTypes(list.eventTypes);
+      } catch (err) {
+        if (!cancelled) toast.error(err instanceof Error ? err.message : "Could not load webhooks.");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const toggleEvent = (type: string, checked: boolean) => {
+    setEvents((prev) => (checked ? [...prev.filter((e) => e !== type), type] : prev.filter((e) => e !== type)));
+  };
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      const result = await createWebhook({ url: url.trim(), events, description: description.trim() });
+      setSubscriptions((prev) => [...prev, result.subscription]);
+      setNewSecret({ url: result.subscription.url, secret: result.secret });
+      setUrl("");
+      setDescription("");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not add webhook.");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleToggleActive = async (sub: WebhookSubscription, active: boolean) => {
+    setBusyId(sub.id);
+    try {
+      const updated = await updateWebhook(sub.id, { active });
+      setSubscriptions((prev) => prev.map((s) => (s.id === sub.id ? updated : s)));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not update webhook.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (sub: WebhookSubscription) => {
+    setConfirmDelete(null);
+    setBusyId(sub.id);
+    try {
+      await deleteWebhook(sub.id);
+      setSubscriptions((prev) => prev.filter((s) => s.id !== sub.id));
+      if (expandedId === sub.id) setExpandedId(null);
+      toast.success("Webhook deleted.");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not delete webhook.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleShowDeliveries = async (sub: WebhookSubscription) => {
+    if (expandedId === sub.id) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(sub.id);
+    setDeliveries([]);
+    setLoadingDeliveries(true);
+    try {
+      setDeliveries(await listWebhookDeliveries(sub.id));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not load deliveries.");
+    } finally {
+      setLoadingDeliveries(false);
+    }
+  };
+
+  const handleRedeliver = async (delivery: WebhookDelivery) => {
+    setRedeliveringId(delivery.id);
+    try {
+      const updated = await redeliverWebhook(delivery.id);
+      setDeliveries((prev) => prev.map((d) => (d.id === delivery.id ? updated : d)));
+      if (updated.status === "succeeded") toast.success("Delivered.");
+      else toast.error(`Redelivery failed${updated.lastError ? ` — ${updated.lastError}` : ""}.`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not redeliver.");
+    } finally {
+      setRedeliveringId(null);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!newSecret) return;
+    try {
+      await navigator.clipboard.writeText(newSecret.secret);
+      toast.success("Signing secret copied.");
+    } catch {
+      toast.error("Could not copy — select the secret and copy it manually.");
+    }
+  };
+
+  return (
+    <details className="settings-section" open={open}>
+      <summary className="settings-section-title">
+        Webhooks
+        <ChevronRight size={16} className="settings-section-chevron" aria-hidden="true" />
+      </summary>
+
+      <p className="settings-section-copy">
+        Send a signed POST to your own systems — a dispatch board, a chat channel, an
+        integration platform — when the events you pick happen. Failed deliveries are
+        retried with backoff for about 15 hours and can be resent from here.
+      </p>
+
+      {newSecret && (
+        <div className="app-alert-card app-alert-card--info" style={{ cursor: "default", marginBottom: "0.75rem" }}>
+          <span className="app-alert-card__icon">
+            <KeyRound size={18} aria-hidden="true" />
+          </span>
+          <span className="app-alert-card__text">
+            Copy the signing secret for <strong>{newSecret.url}</strong> now — it won't be shown
+            again. Use it to verify the <code>X-WickOps-Signature</code> header.
+            <code style={{ display: "block", margin: "0.4rem 0", wordBreak: "break-all", userSelect: "all" }}>
+              {newSecret.secret}
+            </code>
+            <span style={{ display: "inline-flex", gap: "0.5rem" }}>
+              <button type="button" className="button button-primary button-sm" onClick={() => void handleCopy()}>
+                Copy
+              </button>
+              <button type="button" className="button button-ghost button-sm" onClick={() => setNewSecret(null)}>
+                Done
+              </button>
+            </span>
+          </span>
+        </div>
+      )}
+
+      {loading ? (
+        <p className="settings-section-copy">Loading…</p>
+      ) : (
+        <div style={{ display: "flex", flexDirection: "column", gap: "0.75rem" }}>
+          <div style={{ display: "flex", gap: "0.5rem", alignItems: "center", flexWrap: "wrap" }}>
+            <input
+              className="field"
+              type="url"
+              placeholder="https://example.com/hooks/wickops"
+              value={url}
+              maxLength={2048}
+              onChange={(e) => setUrl(e.target.value)}
+              disabled={creating}
+              aria-label="Endpoint URL"
+            />
+            <input
+              className="field"
+              type="text"
+              placeholder="Description (optional)"
+              value={description}
+              maxLength={200}
+              onChange={(e) => setDescription(e.target.value)}
+              disabled={creating}
+              aria-label="Description"
+            />
+            <button
+              type="button"
+              className="button button-primary button-sm"
+              disabled={creating || !url.trim() || events.length === 0}
+              onClick={() => void handleCreate()}
+            >
+              {creating ? "Adding…" : "Add webhook"}
+            </button>
+          </div>
+          <div style={{ display: "flex", gap: "0.25rem 0.75rem", flexWrap: "wrap" }}>
+            {eventTypes.map((type) => (
+              <label key={type} className="settings-column-select">
+                <input
+                  type="checkbox"
+                  checked={events.includes(type)}
+                  disabled={creating}
+                  onChange={(e) => toggleEvent(type, e.target.checked)}
+                />
+                <span>{EVENT_LABELS[type] ?? type}</span>
+              </label>
+            ))}
+          </div>
+
+          {subscriptions.length === 0 ? (
+            <p className="settings-section-copy">No webhooks yet.</p>
+          ) : (
+            <div className="settings-columns-list">
+              {subscriptions.map((sub) => (
+                <div key={sub.id}>
+                  <div className="settings-column-row">
+                    <div className="settings-column-visibility" style={{ flexWrap: "wrap" }}>
+                      <input
+                        type="checkbox"
+                        checked={sub.active}
+                        disabled={busyId === sub.id}
+                        onChange={(e) => void handleToggleActive(sub, e.target.checked)}
+                        aria-label={sub.active ? "Pause webhook" : "Resume webhook"}
+                      />
+                      <code style={{ wordBreak: "break-all" }}>{sub.url}</code>
+                      {sub.description && <span>{sub.description}</span>}
+                      <span className="settings-core-pill" title={sub.events.map((e) => EVENT_LABELS[e] ?? e).join(", ")}>
+                        {sub.events.length === 1
+                          ? EVENT_LABELS[sub.events[0]] ?? sub.events[0]
+                          : `${sub.events.length} events`}
+                      </span>
+                      {!sub.active && <span className="settings-core-pill">Paused</span>}
+                    </div>
+                    <span style={{ display: "inline-flex", gap: "0.5rem" }}>
+                      <button
+                        type="button"
+                        className="button button-ghost button-sm"
+                        onClick={() => void handleShowDeliveries(sub)}
+                      >
+                        {expandedId === sub.id ? "Hide deliveries" : "Deliveries"}
+                      </button>
+                      <button
+                        type="button"
+                        className="button button-danger button-sm"
+                        disabled={busyId === sub.id}
+                        onClick={() => setConfirmDelete(sub)}
+                      >
+                        Delete
+                      </button>
+                    </span>
+                  </div>
+
+                  {expandedId === sub.id && (
+                    <div style={{ padding: "0.25rem 0 0.5rem 1.5rem" }}>
+                      {loadingDeliveries ? (
+                        <p className="settings-section-copy">Loading deliveries…</p>
+                      ) : deliveries.length === 0 ? (
+                        <p className="settings-section-copy">Nothing sent yet.</p>
+                      ) : (
+                        deliveries.map((d) => (
+                          <div className="settings-column-row" key={d.id}>
+                            <div className="settings-column-visibility" style={{ flexWrap: "wrap" }}>
+                              <span>{EVENT_LABELS[d.eventType] ?? d.eventType}</span>
+                              <span className="settings-core-pill">{STATUS_LABELS[d.status]}</span>
+                              <span className="settings-section-copy" style={{ margin: 0 }}>
+                                {formatWhen(d.createdAt)} · {describeOutcome(d)}
+                              </span>
+                            </div>
+                            {d.status !== "pending" && (
+                              <button
+                                type="button"
+                                className="button button-ghost button-sm"
+                                disabled={redeliveringId === d.id}
+                                onClick={() => void handleRedeliver(d)}
+                              >
+                                {redeliveringId === d.id ? "Sending…" : "Redeliver"}
+                              </button>
+                            )}
+                          </div>
+                        ))
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {confirmDelete && (
+        <ConfirmDialog
+          title="Delete webhook?"
+          message={`${confirmDelete.url} will stop receiving events, and pending retries to it will be dropped.`}
+          confirmLabel="Delete"
+          destructive
+          onConfirm={() => void handleDelete(confirmDelete)}
+          onCancel={() => setConfirmDelete(null)}
+        />
+      )}
+    </details>
+  );
+}
@@ -0,0 +1,192 @@
+import { useMemo, useState } from "react";
+import { Download } from "lucide-react";
+import { buildLocationPickerEntries, locationPath } from "../../lib/locationTree";
+import { downloadCsv } from "../../lib/downloadCsv";
+import { fetchInventoryAsOf, type InventoryAsOf, type InventoryLocation } from "../../lib/inventoryApi";
+import type { InventoryColumn } from "./inventoryTypes";
+
+type AsOfPanelProps = {
+  /** Current inventory scope — preselected as the location to look at. */
+  selectedLocationId: string;
+  locations: InventoryLocation[];
+  visibleColumns: InventoryColumn[];
+  getReadOnlyCellText: (column: InventoryColumn, value: unknown) => string;
+};
+
+/** `<input type="datetime-local">` value for a Date, in local time. */
+const toLocalInputValue = (d: Date): string => {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+const formatWhen = (iso: string): string => {
+  const d = new Date(iso);
+  return Number.isNaN(d.getTime())
+    ? ""
+    : d.toLocaleString(undefined, { month: "short", day: "numeric", year: "numeric", hour: "numeric", minute: "2-digit" });
+};
+
+/**
+ * Read-only view of the inventory as it stood at a past date and time. The
+ * server rewinds the current rows through the activity log
+ * (GET /inventory/items/as-of); the result renders like the grid and can be
+ * exported as CSV — e.g. for an inspector asking what was on the shelf on
+ * the day of an incident.
+ */
+export function AsOfPanel({ selectedLocationId, locations, visibleColumns, getReadOnlyCellText }: AsOfPanelProps) {
+  const [at, setAt] = useState(() => toLocalInputValue(new Date(Date.now() - 24 * 60 * 60 * 1000)));
+  const [locationId, setLocationId] = useState(selectedLocationId);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [snapshot, setSnapshot] = useState<(InventoryAsOf & { locationId: string }) | null>(null);
+
+  const entries = useMemo(() => buildLocationPickerEntries(locations), [locations]);
+  // Location is a structural field, not a column — show it whenever the
+  // result can span more than one leaf.
+  const showLocation = useMemo(
+    () => new Set(snapshot?.items.map((row) => row.locationId ?? "") ?? []).size > 1,
+    [snapshot],
+  );
+
+  const load = async () => {
+    const when = new Date(at);
+    if (!at || Number.isNaN(when.getTime())) {
+      setError("Pick a date and time.");
+      return;
+    }
+    if (when.getTime() >= Date.now()) {
+      setError("Pick a time in the past.");
+      return;
+    }
+    setLoading(true);
+    setError("");
+    try {
+      setSnapshot({ ...(await fetchInventoryAsOf(when.toISOString(), locationId || null)), locationId });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load the inventory for that time.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const exportCsv = () => {
+    if (!snapshot) return;
+    const header = [...(showLocation ? ["Location"] : []), ...visibleColumns.map((c) => c.label)];
+    const lines = snapshot.items.map((row) => [
+      ...(showLocation ? [locationPath(locations, row.locationId ?? "")] : []),
+      ...visibleColumns.map((c) => String(row.values[c.key] ?? "")),
+    ]);
+    const stamp = toLocalInputValue(new Date(snapshot.at)).replace("T", "-").replace(":", "");
+    downloadCsv(`inventory-as-of-${stamp}.csv`, [header, ...lines]);
+  };
+
+  return (
+    <div className="usage-card as-of">
+      <header className="usage-header">
+        <div className="usage-header-row">
+          <h2 className="usage-title">Inventory As Of</h2>
+        </div>
+        <p className="usage-instructions">
+          See what was on hand at a past date and time. Quantities and locations are rebuilt from
+          the activity log, so they reflect every usage, receipt, adjustment, move and retirement
+          recorded since.
+        </p>
+      </header>
+
+      <div className="cycle-count-start">
+        <div className="cycle-count-start-row">
+          <input
+            className="field"
+            type="datetime-local"
+            aria-label="Date and time"
+            value={at}
+            max={toLocalInputValue(new Date())}
+            onChange={(e) => {
+              setAt(e.target.value);
+              setError("");
+            }}
+            disabled={loading}
+          />
+          <select
+            className="field"
+            aria-label="Location"
+            value={locationId}
+            onChange={(e) => setLocationId(e.target.value)}
+            disabled={loading}
+          >
+            <option value="">All Locations</option>
+            {entries.map((entry) => (
+              <option key={entry.id} value={entry.id}>
+                {entry.label}{entry.isStation ? " (all)" : ""}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            className="button button-primary button-sm"
+            onClick={() => void load()}
+            disabled={loading}
+          >
+            {loading ? "Rebuilding…" : "Show"}
+          </button>
+        </div>
+        {error ? <p className="field-error" role="alert">{error}</p> : null}
+      </div>
+
+      {snapshot ? (
+        <>
+          <div className="as-of-summary">
+            <span className="cycle-count-list-meta">
+              {snapshot.items.length.toLocaleString()} row{snapshot.items.length === 1 ? "" : "s"}
+              {snapshot.locationId ? ` at ${locationPath(locations, snapshot.locationId)}` : ""} as of{" "}
+              {formatWhen(snapshot.at)} · {snapshot.replayed.toLocaleString()} later event
+              {snapshot.replayed === 1 ? "" : "s"} rewound
+            </span>
+            <button
+              type="button"
+              className="button button-secondary button-sm"
+              onClick={exportCsv}
+              disabled={snapshot.items.length === 0}
+            >
+              <Download size={14} aria-hidden="true" /> Export CSV
+            </button>
+          </div>
+          {snapshot.importsWithUpdates > 0 ? (
+            <p className="cycle-count-flag">
+              {snapshot.importsWithUpdates === 1 ? "A CSV import" : `${snapshot.importsWithUpdates} CSV imports`} since
+              then updated rows in place; those rows show their values from after the import.
+            </p>
+          ) : null}
+          {snapshot.items.length === 0 ? (
+            <p className="usage-activity-subtitle">Nothing was on hand here at that time.</p>
+          ) : (
+            <div className="inventory-table-wrap">
+              <table className="inventory-table">
+                <thead>
+                  <tr>
+                    {showLocation ? <th>Location</th> : null}
+                    {visibleColumns.map((column) => (
+                      <th key={column.key} className={`inventory-col-${column.key}`}>{column.label}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {snapshot.items.map((row) => (
+                    <tr key={row.id}>
+                      {showLocation ? <td>{locationPath(locations, row.locationId ?? "")}</td> : null}
+                      {visibleColumns.map((column) => (
+                        <td key={column.key} className={`inventory-col-${column.key}`}>
+                          {getReadOnlyCellText(column, row.values[column.key])}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      ) : null}
+    </div>
+  );
+}
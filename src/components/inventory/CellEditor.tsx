@@ -493,7 +493,7 @@ function NumberCell({
   // displayUnit → first vendor pricing unit → legacy row.values.unit).
   // Fallback chain still includes row.values.unit + "ct" so CellEditor
   // works in isolation (no parent prep needed).
-  const isUnitAware = column.key === "quantity" || column.key === "minQuantity";
+  const isUnitAware = column.key === "quantity" || column.key === "minQuantity" || column.key === "parQuantity";
   const resolvedSuffix = (displayUnit ?? "").trim()
     || String(row.values.displayUnit ?? "").trim()
     || String(row.values.unit ?? "").trim()
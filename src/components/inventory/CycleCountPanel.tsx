@@ -0,0 +1,631 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { ConfirmDialog } from "../shared/ConfirmDialog";
+import { LoadingState } from "../shared/LoadingState";
+import { useToast } from "../shared/Toast";
+import { buildLocationPickerEntries } from "../../lib/locationTree";
+import {
+  cancelCycleCount,
+  listCycleCounts,
+  loadCycleCountSheet,
+  loadCycleCountVariance,
+  openCycleCount,
+  postCycleCount,
+  submitCycleCounts,
+  type CycleCountSessionSummary,
+  type CycleCountSheet,
+  type CycleCountVarianceLine,
+  type InventoryLocation,
+} from "../../lib/inventoryApi";
+import { isMutationQueuedError } from "../../lib/offlineQueue";
+
+type CycleCountPanelProps = {
+  /** Current inventory scope — preselected as the location to count. */
+  selectedLocationId: string;
+  locations: InventoryLocation[];
+  canEditInventory: boolean;
+};
+
+type PanelView =
+  | { kind: "list" }
+  | { kind: "count"; sessionId: string }
+  | { kind: "review"; sessionId: string };
+
+const formatWhen = (iso: string | undefined): string => {
+  if (!iso) return "";
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return "";
+  return d.toLocaleString(undefined, { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+};
+
+const formatSigned = (n: number): string => (n > 0 ? `+${n}` : String(n));
+
+/** "Exp 2027-01-31 · Lot A123" — whatever identifies the lot on the shelf. */
+const lotLabel = (line: { expirationDate?: string; lotNumber?: string; serialNumber?: string }): string =>
+  [
+    line.expirationDate ? `Exp ${line.expirationDate}` : "",
+    line.lotNumber ? `Lot ${line.lotNumber}` : "",
+    line.serialNumber ? `SN ${line.serialNumber}` : "",
+  ].filter(Boolean).join(" · ");
+
+/** Groups consecutive lines by location — the server already sorts by
+ *  location then item, so a shelf's lots stay together on the sheet. */
+const groupByLocation = <T extends { locationId: string; locationName: string }>(lines: T[]) => {
+  const groups: Array<{ locationId: string; locationName: string; lines: T[] }> = [];
+  for (const line of lines) {
+    const last = groups[groups.length - 1];
+    if (last && last.locationId === line.locationId) last.lines.push(line);
+    else groups.push({ locationId: line.locationId, locationName: line.locationName, lines: [line] });
+  }
+  return groups;
+};
+
+/**
+ * Physical cycle counts. Editors open a count for a location (a station
+ * covers its sublocations); anyone with inventory access then enters what
+ * they find on the shelf without seeing the book quantity. Editors review
+ * the variance report and post every difference as one batch of recount
+ * adjustments.
+ */
+export function CycleCountPanel({ selectedLocationId, locations, canEditInventory }: CycleCountPanelProps) {
+  const toast = useToast();
+  const [view, setView] = useState<PanelView>({ kind: "list" });
+  const [sessions, setSessions] = useState<CycleCountSessionSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState("");
+
+  const refreshSessions = useCallback(async () => {
+    try {
+      setSessions(await listCycleCounts());
+      setLoadError("");
+    } catch (err) {
+      setLoadError(err instanceof Error ? err.message : "Failed to load counts.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void refreshSessions();
+  }, [refreshSessions]);
+
+  const backToList = () => {
+    setView({ kind: "list" });
+    void refreshSessions();
+  };
+
+  if (view.kind === "count") {
+    return <CountSheet sessionId={view.sessionId} onBack={backToList} />;
+  }
+  if (view.kind === "review") {
+    return (
+      <VarianceReview
+        sessionId={view.sessionId}
+        onBack={backToList}
+        onCount={() => setView({ kind: "count", sessionId: view.sessionId })}
+        onClosed={(message) => {
+          toast.success(message);
+          backToList();
+        }}
+      />
+    );
+  }
+
+  if (loading) return <LoadingState variant="card" message="Loading counts…" />;
+
+  const open = sessions.filter((s) => s.status === "open");
+  const closed = sessions.filter((s) => s.status !== "open").slice(0, 10);
+
+  return (
+    <div className="usage-card cycle-count">
+      <header className="usage-header">
+        <div className="usage-header-row">
+          <h2 className="usage-title">Cycle Counts</h2>
+        </div>
+        <p className="usage-instructions">
+          Count what is physically on the shelf. Book quantities stay hidden while counting so they
+          can't anchor the number you enter.
+          {canEditInventory
+            ? " When everyone is done, review the variances and post them as recount adjustments."
+            : " An editor or admin reviews the counts and posts the adjustments."}
+        </p>
+      </header>
+
+      {loadError ? <p className="field-error" role="alert">{loadError}</p> : null}
+
+      {canEditInventory ? (
+        <StartCountForm
+          locations={locations}
+          defaultLocationId={selectedLocationId}
+          onStarted={(session) => {
+            toast.success(`Count started at ${session.locationName}.`);
+            setView({ kind: "count", sessionId: session.id });
+          }}
+        />
+      ) : null}
+
+      <div className="usage-activity">
+        <h3 className="usage-activity-title">Open Counts</h3>
+        {open.length === 0 ? (
+          <p className="usage-activity-subtitle">No counts in progress.</p>
+        ) : (
+          <ul className="cycle-count-list">
+            {open.map((s) => (
+              <li key={s.id} className="cycle-count-list-row">
+                <div className="cycle-count-list-main">
+                  <span className="cycle-count-list-name">{s.locationName}</span>
+                  <span className="cycle-count-list-meta">
+                    {s.countedLineCount} of {s.lineCount} counted · started {formatWhen(s.createdAt)} by {s.createdByName}
+                    {s.notes ? ` · ${s.notes}` : ""}
+                  </span>
+                </div>
+                <div className="cycle-count-list-actions">
+                  <button
+                    type="button"
+                    className="button button-secondary button-sm"
+                    onClick={() => setView({ kind: "count", sessionId: s.id })}
+                  >
+                    Count
+                  </button>
+                  {canEditInventory ? (
+                    <button
+                      type="button"
+                      className="button button-primary button-sm"
+                      onClick={() => setView({ kind: "review", sessionId: s.id })}
+                    >
+                      Review
+                    </button>
+                  ) : null}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {closed.length > 0 ? (
+        <div className="usage-activity">
+          <h3 className="usage-activity-title">Recent Counts</h3>
+          <ul className="usage-activity-list">
+            {closed.map((s) => (
+              <li key={s.id} className="usage-activity-row">
+                <span className="usage-activity-items">
+                  {s.locationName} —{" "}
+                  {s.status === "cancelled"
+                    ? "cancelled"
+                    : s.result
+                      ? `${s.result.adjustedCount} adjusted, net ${formatSigned(s.result.netDelta)}`
+                      : "posted"}
+                  {s.closedByName ? ` · ${s.closedByName}` : ""}
+                </span>
+                <span className="usage-activity-when">{formatWhen(s.closedAt)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+function StartCountForm({
+  locations,
+  defaultLocationId,
+  onStarted,
+}: {
+  locations: InventoryLocation[];
+  defaultLocationId: string;
+  onStarted: (session: CycleCountSessionSummary) => void;
+}) {
+  const entries = useMemo(() => buildLocationPickerEntries(locations), [locations]);
+  const [locationId, setLocationId] = useState(
+    entries.some((e) => e.id === defaultLocationId) ? defaultLocationId : "",
+  );
+  const [notes, setNotes] = useState("");
+  const [starting, setStarting] = useState(false);
+  const [error, setError] = useState("");
+
+  const start = async () => {
+    if (!locationId) {
+      setError("Pick a location to count.");
+      return;
+    }
+    setStarting(true);
+    setError("");
+    try {
+      onStarted(await openCycleCount(locationId, notes.trim() || undefined));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to start the count.");
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  return (
+    <div className="cycle-count-start">
+      <label className="field-label" htmlFor="cycle-count-location">Start a count</label>
+      <div className="cycle-count-start-row">
+        <select
+          id="cycle-count-location"
+          className="field"
+          value={locationId}
+          onChange={(e) => {
+            setLocationId(e.target.value);
+            setError("");
+          }}
+          disabled={starting}
+        >
+          <option value="">Select a location…</option>
+          {entries.map((entry) => (
+            <option key={entry.id} value={entry.id}>
+              {entry.label}{entry.isStation ? " (all)" : ""}
+            </option>
+          ))}
+        </select>
+        <input
+          className="field"
+          type="text"
+          placeholder="Notes (optional)"
+          value={notes}
+          maxLength={500}
+          onChange={(e) => setNotes(e.target.value)}
+          disabled={starting}
+        />
+        <button
+          type="button"
+          className="button button-primary button-sm"
+          onClick={() => void start()}
+          disabled={starting}
+        >
+          {starting ? "Starting…" : "Start Count"}
+        </button>
+      </div>
+      {error ? <p className="field-error" role="alert">{error}</p> : null}
+    </div>
+  );
+}
+
+function CountSheet({ sessionId, onBack }: { sessionId: string; onBack: () => void }) {
+  const toast = useToast();
+  const [sheet, setSheet] = useState<CycleCountSheet | null>(null);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [loadError, setLoadError] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const applySheet = (next: CycleCountSheet) => {
+    setSheet(next);
+    setDrafts(Object.fromEntries(
+      next.lines.map((line) => [line.itemId, line.myCount === null ? "" : String(line.myCount)]),
+    ));
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    loadCycleCountSheet(sessionId)
+      .then((next) => {
+        if (!cancelled) applySheet(next);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setLoadError(err instanceof Error ? err.message : "Failed to load the count.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId]);
+
+  if (loadError) {
+    return (
+      <div className="usage-card cycle-count">
+        <p className="field-error" role="alert">{loadError}</p>
+        <button type="button" className="button button-secondary button-sm" onClick={onBack}>Back</button>
+      </div>
+    );
+  }
+  if (!sheet) return <LoadingState variant="card" message="Loading count sheet…" />;
+
+  const isOpen = sheet.session.status === "open";
+  // Only send lines the user touched; untouched lines keep whatever they
+  // entered earlier (or stay uncounted).
+  const changes: Array<{ itemId: string; qty: number | null }> = [];
+  let invalid = false;
+  for (const line of sheet.lines) {
+    const raw = (drafts[line.itemId] ?? "").trim();
+    const previous = line.myCount === null ? "" : String(line.myCount);
+    if (raw === previous) continue;
+    if (raw === "") {
+      changes.push({ itemId: line.itemId, qty: null });
+      continue;
+    }
+    const qty = Number(raw);
+    if (!Number.isFinite(qty) || qty < 0) {
+      invalid = true;
+      continue;
+    }
+    changes.push({ itemId: line.itemId, qty });
+  }
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      applySheet(await submitCycleCounts(sessionId, changes));
+      toast.success(`Saved ${changes.length} count${changes.length === 1 ? "" : "s"}.`);
+    } catch (err) {
+      if (isMutationQueuedError(err)) {
+        toast.info(err.message);
+        return;
+      }
+      toast.error(err instanceof Error ? err.message : "Failed to save counts.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="usage-card cycle-count">
+      <header className="usage-header">
+        <div className="usage-header-row">
+          <h2 className="usage-title">Count: {sheet.session.locationName}</h2>
+          <button type="button" className="button button-secondary button-sm" onClick={onBack}>
+            Back
+          </button>
+        </div>
+        <p className="usage-instructions">
+          {isOpen
+            ? "Enter how many of each lot you find. Leave a line blank if you didn't count it. Other counters' numbers stay hidden."
+            : "This count is closed — entries can no longer be changed."}
+        </p>
+      </header>
+
+      {groupByLocation(sheet.lines).map((group) => (
+        <section key={group.locationId} className="cycle-count-group">
+          <h3 className="usage-activity-title">{group.locationName}</h3>
+          {group.lines.map((line) => (
+            <div key={line.itemId} className="cycle-count-line">
+              <div className="cycle-count-line-name">
+                <span>{line.itemName}</span>
+                <span className="cycle-count-list-meta">
+                  {lotLabel(line) ? `${lotLabel(line)} · ` : ""}
+                  {line.counterCount === 0
+                    ? "not counted yet"
+                    : `counted by ${line.counterCount}`}
+                </span>
+              </div>
+              <input
+                className="field cycle-count-line-qty"
+                type="number"
+                min="0"
+                step="any"
+                inputMode="decimal"
+                aria-label={`Counted quantity for ${line.itemName}`}
+                value={drafts[line.itemId] ?? ""}
+                onChange={(e) => setDrafts((prev) => ({ ...prev, [line.itemId]: e.target.value }))}
+                disabled={!isOpen || saving}
+              />
+            </div>
+          ))}
+        </section>
+      ))}
+
+      {isOpen ? (
+        <div className="usage-submit-area">
+          {invalid ? <p className="field-error" role="alert">Counts must be zero or more.</p> : null}
+          <button
+            type="button"
+            className="button button-primary usage-submit-btn"
+            onClick={() => void save()}
+            disabled={saving || invalid || changes.length === 0}
+          >
+            {saving ? "Saving…" : "Save Counts"}
+          </button>
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+function VarianceReview({
+  sessionId,
+  onBack,
+  onCount,
+  onClosed,
+}: {
+  sessionId: string;
+  onBack: () => void;
+  onCount: () => void;
+  onClosed: (message: string) => void;
+}) {
+  const toast = useToast();
+  const [session, setSession] = useState<CycleCountSessionSummary | null>(null);
+  const [lines, setLines] = useState<CycleCountVarianceLine[]>([]);
+  const [loadError, setLoadError] = useState("");
+  const [confirm, setConfirm] = useState<"post" | "cancel" | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const report = await loadCycleCountVariance(sessionId);
+      setSession(report.session);
+      setLines(report.lines);
+      setLoadError("");
+    } catch (err) {
+      setLoadError(err instanceof Error ? err.message : "Failed to load the variance report.");
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  if (loadError) {
+    return (
+      <div className="usage-card cycle-count">
+        <p className="field-error" role="alert">{loadError}</p>
+        <button type="button" className="button button-secondary button-sm" onClick={onBack}>Back</button>
+      </div>
+    );
+  }
+  if (!session) return <LoadingState variant="card" message="Loading variance report…" />;
+
+  const counted = lines.filter((l) => l.countedQty !== null);
+  const changed = counted.filter((l) => l.variance !== null && l.variance !== 0);
+  const netDelta = changed.reduce((sum, l) => sum + (l.variance ?? 0), 0);
+  const isOpen = session.status === "open";
+
+  const runPost = async () => {
+    setBusy(true);
+    try {
+      const result = await postCycleCount(sessionId);
+      const skipped = result.skippedCount > 0 ? `, ${result.skippedCount} skipped` : "";
+      onClosed(`Count posted: ${result.adjustedCount} adjusted${skipped}.`);
+    } catch (err) {
+      // Queued for replay; the totals come back once it syncs.
+      if (isMutationQueuedError(err)) {
+        onClosed(err.message);
+        return;
+      }
+      toast.error(err instanceof Error ? err.message : "Failed to post the count.");
+      setConfirm(null);
+      void load();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const runCancel = async () => {
+    setBusy(true);
+    try {
+      await cancelCycleCount(sessionId);
+      onClosed("Count cancelled.");
+    } catch (err) {
+      if (isMutationQueuedError(err)) {
+        onClosed(err.message);
+        return;
+      }
+      toast.error(err instanceof Error ? err.message : "Failed to cancel the count.");
+      setConfirm(null);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="usage-card cycle-count">
+      <header className="usage-header">
+        <div className="usage-header-row">
+          <h2 className="usage-title">Variance: {session.locationName}</h2>
+          <div className="cycle-count-list-actions">
+            {isOpen ? (
+              <button type="button" className="button button-secondary button-sm" onClick={onCount}>
+                Count
+              </button>
+            ) : null}
+            <button type="button" className="button button-secondary button-sm" onClick={onBack}>
+              Back
+            </button>
+          </div>
+        </div>
+        <p className="usage-instructions">
+          {counted.length} of {lines.length} lots counted · {changed.length} with a variance · net{" "}
+          {formatSigned(netDelta)}. Usage and receipts logged since the count opened are carried on
+          top of the counted quantity rather than wiped out. Uncounted lots are left as they are.
+        </p>
+      </header>
+
+      <div className="cycle-count-table-wrap">
+        <table className="order-detail-table cycle-count-table">
+          <thead>
+            <tr>
+              <th>Item</th>
+              <th>Location</th>
+              <th>Book</th>
+              <th>Counted</th>
+              <th>Posts as</th>
+              <th>Variance</th>
+            </tr>
+          </thead>
+          <tbody>
+            {lines.map((line) => (
+              <tr
+                key={line.itemId}
+                className={line.variance ? "cycle-count-row--variance" : undefined}
+              >
+                <td>
+                  {line.itemName}
+                  {lotLabel(line) ? <span className="cycle-count-list-meta"> · {lotLabel(line)}</span> : null}
+                  {line.countsDisagree ? (
+                    <span
+                      className="cycle-count-flag"
+                      title={line.counts.map((c) => `${c.userName}: ${c.qty}`).join(", ")}
+                    >
+                      Counts disagree — latest used
+                    </span>
+                  ) : null}
+                  {line.movedSinceOpen ? (
+                    <span className="cycle-count-flag">Moved since count opened ({line.bookQtyAtOpen} at open)</span>
+                  ) : null}
+                  {line.currentQty === null ? (
+                    <span className="cycle-count-flag">Deleted or retired — will be skipped</span>
+                  ) : null}
+                </td>
+                <td>{line.locationName}</td>
+                <td>{line.currentQty ?? "—"}</td>
+                <td>{line.countedQty ?? <span className="cycle-count-list-meta">not counted</span>}</td>
+                <td>{line.postedQty ?? "—"}</td>
+                <td>{line.variance === null ? "—" : formatSigned(line.variance)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {isOpen ? (
+        <div className="usage-submit-area cycle-count-review-actions">
+          <button
+            type="button"
+            className="button button-secondary"
+            onClick={() => setConfirm("cancel")}
+            disabled={busy}
+          >
+            Cancel Count
+          </button>
+          <button
+            type="button"
+            className="button button-primary"
+            onClick={() => setConfirm("post")}
+            disabled={busy || counted.length === 0}
+          >
+            Post Adjustments
+          </button>
+        </div>
+      ) : null}
+
+      {confirm === "post" ? (
+        <ConfirmDialog
+          title="Post Count"
+          message={
+            changed.length > 0
+              ? `Adjust ${changed.length} lot${changed.length === 1 ? "" : "s"} to their counted quantity (net ${formatSigned(netDelta)}) and close this count?`
+              : "No counted lot differs from the book. Close this count with no adjustments?"
+          }
+          confirmLabel="Post"
+          loadingLabel="Posting…"
+          destructive={false}
+          loading={busy}
+          onConfirm={() => void runPost()}
+          onCancel={() => setConfirm(null)}
+        />
+      ) : null}
+      {confirm === "cancel" ? (
+        <ConfirmDialog
+          title="Cancel Count"
+          message="Discard everyone's entries for this count? Inventory is not changed."
+          confirmLabel="Cancel Count"
+          cancelLabel="Keep Counting"
+          loadingLabel="Cancelling…"
+          loading={busy}
+          onConfirm={() => void runCancel()}
+          onCancel={() => setConfirm(null)}
+        />
+      ) : null}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { useLayoutEffect, useRef, type MouseEvent as ReactMouseEvent } from "rea
 import { ChevronDown, ChevronUp, Info } from "lucide-react";
 import type { ActiveTab, InventoryColumn, InventoryRow, SortDirection } from "./inventoryTypes";
 import { CellEditor } from "./CellEditor";
+import { describeSupply, forecastKey, formatDaysOfSupply, type SupplyForecast } from "../../lib/forecast";
 
 /** Compact "Mon D" label for a row's orderedAt ISO timestamp. Empty string
  *  when there's no pending order. Parsed from the date part to avoid a
@@ -76,6 +77,9 @@ export type InventoryDesktopTableProps = {
    *  small "info" button renders in each row's actions area; clicking it
    *  hands the rowId up to InventoryPage which manages modal state. */
   onOpenItemDetails?: (rowId: string) => void;
+  /** Days of supply per forecastKey (location + item name), from logged
+   *  usage. Rows without usage history have no entry and show nothing. */
+  supplyForecast?: Map<string, SupplyForecast>;
 };
 
 /**
@@ -119,6 +123,7 @@ export function InventoryDesktopTable({
   onAddVendor,
   vendorPricing,
   onOpenItemDetails,
+  supplyForecast,
 }: InventoryDesktopTableProps) {
   // The per-row delete button was removed in 1g — bulk removal goes through
   // the row checkbox + Remove action on selected rows. The onRemoveRow prop
@@ -282,6 +287,9 @@ export function InventoryDesktopTable({
             const anyVendorHasCount = vendorRows.some((p) => p.packCount !== undefined);
             const firstVendorUnit = firstVendorAmountUnit || (anyVendorHasCount ? "ct" : "");
             const rowDisplayUnit = itemDisplayUnit || itemLegacyUnit || firstVendorUnit || "ct";
+            const supply = supplyForecast?.get(
+              forecastKey(String(row.values.itemName ?? ""), String(row.locationId ?? "")),
+            );
             return (
             <tr
               key={row.id}
@@ -372,6 +380,17 @@ export function InventoryDesktopTable({
                       Ordered · {formatOrderedDate(row.values.orderedAt)}
                     </span>
                   ) : null}
+                  {/* Days of supply at the current usage rate. Flagged when the
+                   *  item runs out before its next typical order, even while
+                   *  still above min. */}
+                  {column.key === "quantity" && supply ? (
+                    <span
+                      className={`badge ${supply.atRisk ? "badge--warning" : "badge--neutral"} inventory-supply-pill`}
+                      title={describeSupply(supply)}
+                    >
+                      {formatDaysOfSupply(supply.daysOfSupply)} left
+                    </span>
+                  ) : null}
                 </td>
                 );
               })}
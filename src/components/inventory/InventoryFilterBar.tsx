@@ -42,7 +42,7 @@ export function InventoryFilterBar({
 
   const visible = chips.filter((c) => c.visible);
   // In logUsage mode, no chip should be highlighted (an inline panel is shown).
-  const isInlineMode = activeTab === "logUsage";
+  const isInlineMode = activeTab === "logUsage" || activeTab === "cycleCount" || activeTab === "asOf" || activeTab === "reorderPoints";
   const activeKey: InventoryFilter = isInlineMode ? "all" : activeTab;
 
   return (
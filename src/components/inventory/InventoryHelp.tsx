@@ -61,6 +61,11 @@ function getHelpForTab(activeTab: ActiveTab, canEditInventory: boolean): HelpSec
                 Once an item passes its date it moves to the
                 <strong> Expired</strong> tab.
               </li>
+              <li>
+                The window is 30 days unless an admin changes it under
+                <strong> Settings → Expiration Warnings</strong> — org-wide,
+                by column value (e.g. a category), or per item.
+              </li>
             </ul>
           </>
         ),
@@ -88,6 +93,12 @@ function getHelpForTab(activeTab: ActiveTab, canEditInventory: boolean): HelpSec
                 Expired tab — not here. Retire it and, if you're then below
                 min, it shows up as Low Stock.
               </li>
+              <li>
+                Items with logged usage show <strong>days left</strong> next
+                to their quantity. It's highlighted when the item would run
+                out before its next typical order, and the Reorder list picks
+                it up even while it's still above min.
+              </li>
               <li>
                 Paste a vendor URL into <strong>Reorder Link</strong> so
                 anyone can jump straight to the buy page.
@@ -109,10 +120,11 @@ function getHelpForTab(activeTab: ActiveTab, canEditInventory: boolean): HelpSec
             <ul>
               <li>
                 Search for an item, set how many were used, and submit.
-                When the same item has multiple lots, each appears
-                separately in the dropdown with its quantity and expiration
-                date — pick the lot you're drawing from (usually the
-                soonest to expire).
+                In <strong>By item</strong> mode each item appears once
+                with its unexpired quantity; lots are used soonest-to-expire
+                first (splitting across lots if needed) and expired lots are
+                skipped. Switch to <strong>By lot</strong> to pick the exact
+                lot you're drawing from.
               </li>
               <li>
                 Add an optional <strong>note</strong> per line (job, room,
@@ -131,6 +143,11 @@ function getHelpForTab(activeTab: ActiveTab, canEditInventory: boolean): HelpSec
                     so flag mistakes to one of them.</>
                 )}
               </li>
+              <li>
+                Tap <strong>Scan</strong> and point at an item's label to
+                add it as a line (scan again to bump the quantity). A
+                location label sets the location.
+              </li>
               <li>
                 For brand-new stock arriving, use
                 <strong> Orders → Receive</strong> instead of Log Usage.
@@ -140,6 +157,111 @@ function getHelpForTab(activeTab: ActiveTab, canEditInventory: boolean): HelpSec
         ),
       };
 
+    case "cycleCount":
+      return {
+        title: "Cycle Counts",
+        body: (
+          <>
+            <p>
+              Count what's physically on the shelf and true up the book
+              quantities in one pass.
+            </p>
+            <ul>
+              <li>
+                {canEditInventory ? (
+                  <>Pick a location and tap <strong>Start Count</strong>. A
+                    station covers all of its sublocations.</>
+                ) : (
+                  <>An editor or admin starts a count for a location; it
+                    then shows under <strong>Open Counts</strong>.</>
+                )}
+              </li>
+              <li>
+                Tap <strong>Count</strong> and enter how many of each lot you
+                find. The book quantity is hidden so it can't sway the
+                count. Several people can count the same session — each
+                sees only their own numbers.
+              </li>
+              {canEditInventory ? (
+                <li>
+                  <strong>Review</strong> shows each lot's variance against
+                  what's on hand right now. <strong>Post Adjustments</strong>
+                  sets every counted lot to its counted quantity, plus any
+                  usage or receipts logged since the count opened; uncounted
+                  lots are left alone. Each change is logged in Activity as
+                  a recount tied to the count.
+                </li>
+              ) : null}
+            </ul>
+          </>
+        ),
+      };
+
+    case "asOf":
+      return {
+        title: "Inventory As Of",
+        body: (
+          <>
+            <p>
+              See what was on hand at any past date and time — for an
+              inspection, an incident review or a month-end count.
+            </p>
+            <ul>
+              <li>
+                Pick a date, time and location and tap <strong>Show</strong>.
+                A station covers all of its sublocations.
+              </li>
+              <li>
+                Quantities are rebuilt from Activity: every usage, receipt,
+                adjustment, transfer, move and retirement since then is
+                rewound. Nothing here can be edited.
+              </li>
+              <li>
+                <strong>Export CSV</strong> downloads exactly the rows shown.
+              </li>
+              <li>
+                You can go back as far as your activity retention setting
+                keeps events.
+              </li>
+            </ul>
+          </>
+        ),
+      };
+
+    case "reorderPoints":
+      return {
+        title: "Reorder Points",
+        body: (
+          <>
+            <p>
+              Suggested <strong>Min Quantity</strong> and
+              <strong> Par Quantity</strong> worked out from what you
+              actually use and how long orders take to arrive — instead of
+              hand-typed numbers that drift out of date.
+            </p>
+            <ul>
+              <li>
+                Usage comes from the last 90 days of logged usage. Lead time
+                is from when an order is placed to when it's received; items
+                without their own orders borrow their vendor's, then the
+                org's.
+              </li>
+              <li>
+                The recommended min covers usage over the lead time plus
+                safety stock for busy or late weeks. Par adds the most
+                economical order size, so it needs a unit cost.
+              </li>
+              <li>
+                Tick the rows you agree with and tap
+                <strong> Accept selected</strong>. Every lot of the item at
+                that location is updated and the change is logged in
+                Activity.
+              </li>
+            </ul>
+          </>
+        ),
+      };
+
     case "all":
     default:
       return {
@@ -157,7 +279,9 @@ function getHelpForTab(activeTab: ActiveTab, canEditInventory: boolean): HelpSec
               <strong> All Locations</strong>. Use
               <strong> + Add Location</strong> at the bottom of the dropdown
               to create a new one. Select rows and use
-              <strong> Move to…</strong> to relocate them.
+              <strong> Move to…</strong> to relocate them. To send only
+              part of a lot (say 20 of 100 gloves), select that one row and
+              use <strong> Transfer…</strong> — the rest stays put.
             </p>
             <h4>Columns</h4>
             <ul>
@@ -199,6 +323,19 @@ function getHelpForTab(activeTab: ActiveTab, canEditInventory: boolean): HelpSec
                 and records the right loss event so analytics stay accurate.
               </li>
             </ul>
+            <h4>Labels &amp; scanning</h4>
+            <ul>
+              <li>
+                <strong>Labels</strong> downloads a printable sheet of QR
+                labels (Avery 5160, 5163 or 22805) for the selected items,
+                every item in view, or this scope's locations.
+              </li>
+              <li>
+                <strong>Scan</strong> reads a label with your camera (or a
+                handheld scanner). An item label jumps to that row; a
+                location label switches the dropdown to that location.
+              </li>
+            </ul>
             <p>
               The other tabs (<strong>Expired</strong>,
               <strong> Expiring Soon</strong>, <strong>Low Stock</strong>)
@@ -1,6 +1,7 @@
 import { ChevronDown } from "lucide-react";
 import type { ActiveTab, InventoryColumn, InventoryLocation, InventoryRow } from "./inventoryTypes";
 import { CellEditor } from "./CellEditor";
+import { describeSupply, forecastKey, formatDaysOfSupply, type SupplyForecast } from "../../lib/forecast";
 
 /** Compact "Mon D" label for a row's orderedAt ISO timestamp (date part only,
  *  to avoid a timezone shift). Empty string when there's no pending order. */
@@ -54,6 +55,8 @@ export type InventoryMobileCardsProps = {
   beginCellEditSession: (rowId: string, columnKey: string) => void;
   endCellEditSession: () => void;
   getDaysUntilExpiration: (value: string | number | boolean | null | undefined) => number | null;
+  /** The row's "expiring soon" window (org settings); drives the --soon badge. */
+  expirationWarningDaysFor: (row: InventoryRow) => number;
   /** Same link-edit state the desktop table uses — plumbs through so mobile
    *  cards can show "label + open-arrow" instead of a raw URL input. */
   isEditingLinkCell: (rowId: string, columnKey: string) => boolean;
@@ -68,6 +71,8 @@ export type InventoryMobileCardsProps = {
    *  row's `displayUnit` from this for the Quantity / Min Quantity
    *  suffix, mirroring the desktop table. */
   vendorPricing?: Map<string, Map<string, { packAmountUnit?: string; packCount?: number }>>;
+  /** Days of supply per forecastKey — same data as the desktop table. */
+  supplyForecast?: Map<string, SupplyForecast>;
 };
 
 /**
@@ -101,12 +106,14 @@ export function InventoryMobileCards({
   beginCellEditSession,
   endCellEditSession,
   getDaysUntilExpiration,
+  expirationWarningDaysFor,
   isEditingLinkCell,
   setEditingLinkCell,
   activeTab: _activeTab,
   availableVendors,
   onAddVendor,
   vendorPricing,
+  supplyForecast,
 }: InventoryMobileCardsProps) {
   return (
     <div className="inventory-cards-wrap">
@@ -194,9 +201,13 @@ export function InventoryMobileCards({
           const daysUntil = getDaysUntilExpiration(expValue);
           let expClass = "";
           if (daysUntil !== null) {
+            // Warning tier stays at twice the soon window (60 days for the
+            // 30-day default), so a 7-day narcotics window still gets an
+            // early heads-up badge.
+            const soonDays = expirationWarningDaysFor(row);
             if (daysUntil <= 0) expClass = "inventory-card-exp--expired";
-            else if (daysUntil <= 30) expClass = "inventory-card-exp--soon";
-            else if (daysUntil <= 60) expClass = "inventory-card-exp--warning";
+            else if (daysUntil <= soonDays) expClass = "inventory-card-exp--soon";
+            else if (daysUntil <= soonDays * 2) expClass = "inventory-card-exp--warning";
           }
 
           /* Low stock check */
@@ -253,9 +264,15 @@ export function InventoryMobileCards({
                         const minLabel = minQtyVal !== null && minQtyVal !== undefined && String(minQtyVal).trim() !== "" && Number(minQtyVal) > 0
                           ? ` / ${minQtyVal}`
                           : "";
+                        const supply = supplyForecast?.get(
+                          forecastKey(String(row.values.itemName ?? ""), String(row.locationId ?? "")),
+                        );
                         return (
-                          <span key={col.id} className={`inventory-card-badge${isLowStock ? " inventory-card-badge--low" : ""}`}>
+                          <span key={col.id} className={`inventory-card-badge${isLowStock || supply?.atRisk ? " inventory-card-badge--low" : ""}`}>
                             {col.label}: {displayText}{minLabel}
+                            {supply ? (
+                              <span title={describeSupply(supply)}> · {formatDaysOfSupply(supply.daysOfSupply)} left</span>
+                            ) : null}
                           </span>
                         );
                       }
@@ -3,12 +3,14 @@
 import { useEffect, useMemo, useRef, useState } from "react";
 // Download (arrow pointing down into a tray) reads as "import — bringing
 // data in." Upload looked like Export to the user, which is the opposite.
-import { ChevronDown, Download, Plus } from "lucide-react";
+import { ChevronDown, ClipboardList, Download, Gauge, History, Plus, Printer, ScanLine } from "lucide-react";
 import type { InventoryPageProps } from "./inventoryTypes";
 import { isDeletableRow, normalizeHeaderKey } from "./inventoryUtils";
 import { aggregateVendorPricingByName, rawPricingForName } from "../../lib/vendorPricingAggregate";
 import { RemoveItemDialog } from "./RemoveItemDialog";
 import { AdjustQuantityDialog } from "./AdjustQuantityDialog";
+import { SaveConflictDialog } from "./SaveConflictDialog";
+import { TransferItemDialog } from "./TransferItemDialog";
 import {
   addInventoryLocation,
   addInventoryVendor,
@@ -20,7 +22,9 @@ import { useMobileDetect } from "./hooks/useMobileDetect";
 import { useColumnResize } from "./hooks/useColumnResize";
 import { useInventoryFilters } from "./hooks/useInventoryFilters";
 import { useInventoryData } from "./hooks/useInventoryData";
-import { buildLocationPickerEntries, locationPath, isStation } from "../../lib/locationTree";
+import { buildLocationPickerEntries, locationPath, locationsInScope, isStation } from "../../lib/locationTree";
+import type { ScanTarget } from "../../lib/scanLinks";
+import { indexRates, loadForecastMethod, onHandByKey, projectSupply, useUsageForecast, type SupplyForecast } from "../../lib/forecast";
 
 // Components
 import { AddLocationForm } from "./AddLocationForm";
@@ -28,10 +32,16 @@ import { ColumnAttachmentDialog } from "./ColumnAttachmentDialog";
 import { InventoryToolbar } from "./InventoryToolbar";
 import { InventoryFilterBar } from "./InventoryFilterBar";
 import { InventoryUsagePage } from "../InventoryUsagePage";
+import { CycleCountPanel } from "./CycleCountPanel";
+import { AsOfPanel } from "./AsOfPanel";
+import { ReorderPointsPanel } from "./ReorderPointsPanel";
 import { InventoryMobileCards } from "./InventoryMobileCards";
 import { InventoryDesktopTable } from "./InventoryDesktopTable";
 import { ImportDialogs } from "./ImportDialogs";
 import { ItemDetailModal } from "./ItemDetailModal";
+import { LabelPrintDialog } from "./LabelPrintDialog";
+import { ScanDialog } from "../shared/ScanDialog";
+import { useToast } from "../shared/Toast";
 import { PaginationControls } from "./PaginationControls";
 import { LoadingState } from "../shared/LoadingState";
 import { ROWS_PER_PAGE } from "./inventoryTypes";
@@ -45,6 +55,7 @@ export function InventoryPage({
   initialSearch,
   initialEditCell,
   initialAction,
+  initialScan,
   selectedLocationId,
   onSelectedLocationIdChange,
   onSaveFnChange,
@@ -52,6 +63,7 @@ export function InventoryPage({
   onOpenActivityHistory,
 }: InventoryPageProps) {
   const { isMobile } = useMobileDetect();
+  const toast = useToast();
 
   // ── Save bar fade-out state ───────────────────────────────────────────────
   const [saveBarVisible, setSaveBarVisible] = useState(false);
@@ -96,6 +108,23 @@ export function InventoryPage({
     [data.rows, data.vendorPricing],
   );
 
+  // Days of supply per (location, item): the usage forecast's rate against
+  // live on-hand, so the figure follows edits without a refetch. Method is
+  // the one last picked on the Shop list.
+  const [forecastMethod] = useState(loadForecastMethod);
+  const usageForecast = useUsageForecast(forecastMethod);
+  const supplyForecast = useMemo(() => {
+    const supply = new Map<string, SupplyForecast>();
+    if (!usageForecast) return supply;
+    const rates = indexRates(usageForecast);
+    const now = new Date();
+    for (const [key, onHand] of onHandByKey(data.rows)) {
+      const projected = projectSupply(onHand, rates.get(key), now);
+      if (projected) supply.set(key, projected);
+    }
+    return supply;
+  }, [usageForecast, data.rows]);
+
   // ── Save bar fade-out effect ──────────────────────────────────────────────
   useEffect(() => {
     if (data.saving) {
@@ -129,6 +158,7 @@ export function InventoryPage({
     editingOriginalIndexRef: data.editingOriginalIndexRef,
     sortEpoch: data.sortEpoch,
     vendorPricing: vendorPricingByName,
+    expirationSettings: data.expirationSettings,
   });
 
   // ── Notify parent of active tab so subnav-level UI can react ──────────────
@@ -137,6 +167,19 @@ export function InventoryPage({
   }, [filters.activeTab, onActiveTabChange]);
   filtersRef.current = filters;
 
+  // Large orgs show the first page while the rest loads in the background.
+  // Meanwhile a narrowed view (search, tab, location, column filter) is
+  // fetched from the server so it lists every match, not just the loaded ones.
+  useEffect(() => {
+    if (!data.loadingRemaining) return;
+    const tab = filters.activeFilter === "missingPricing" ? "all" : filters.activeFilter;
+    const locationId = filters.effectiveLocationId || null;
+    const search = filters.debouncedSearchTerm.trim();
+    if (!search && !locationId && tab === "all" && Object.keys(filters.groupableFilters).length === 0) return;
+    void data.mergeQueriedRows({ search, locationId, tab, filters: filters.groupableFilters });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [data.loadingRemaining, filters.debouncedSearchTerm, filters.activeFilter, filters.effectiveLocationId, filters.groupableFilters]);
+
   // Aggregate scopes — "All Locations" and a station's "· all" roll-up — are
   // read-only views (a station isn't a leaf, so stock can't live on it).
   // Writes (Add Row, Import, per-location columns) require a specific leaf.
@@ -318,6 +361,51 @@ export function InventoryPage({
     else if (initialAction === "download-template") handleDownloadTemplate();
   }, [data.loading, initialAction]);
 
+  // ── Labels + scan-to-find ───────────────────────────────────────────────
+  // A location label scopes the page. An item label scopes to the lot's own
+  // location, searches its name (same as openInInventory) and selects the
+  // row. Selection is applied from an effect once the new scope has rendered,
+  // because switching locations clears selection (useInventoryData).
+  const [showLabelDialog, setShowLabelDialog] = useState(false);
+  const [showScanDialog, setShowScanDialog] = useState(false);
+  const [scanFocusRowId, setScanFocusRowId] = useState<string | null>(null);
+
+  const handleScanTarget = (target: ScanTarget): string | null => {
+    if (target.kind === "location") {
+      if (!filters.locationById.has(target.id)) return "That location no longer exists.";
+      onSelectedLocationIdChange(target.id);
+      setShowScanDialog(false);
+      return null;
+    }
+    const row = data.rows.find((r) => r.id === target.id);
+    if (!row) return "That item is no longer in inventory.";
+    if (row.locationId) onSelectedLocationIdChange(row.locationId);
+    filters.setActiveTabRaw("all");
+    filters.setSearchTerm(String(row.values.itemName ?? "").trim());
+    setScanFocusRowId(row.id);
+    setShowScanDialog(false);
+    return null;
+  };
+
+  useEffect(() => {
+    if (!scanFocusRowId) return;
+    if (!filters.filteredRows.some(({ row }) => row.id === scanFocusRowId)) return;
+    filters.setSelectedRowIds(new Set([scanFocusRowId]));
+    data.setSelectedRowId(scanFocusRowId);
+    setScanFocusRowId(null);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [scanFocusRowId, filters.filteredRows]);
+
+  const initialScanFired = useRef(false);
+  useEffect(() => {
+    // Wait for every page: the scanned lot may not be in the first one.
+    if (initialScanFired.current || data.loading || data.loadingRemaining || !initialScan) return;
+    initialScanFired.current = true;
+    const error = handleScanTarget(initialScan);
+    if (error) toast.error(error);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [data.loading, data.loadingRemaining, initialScan]);
+
   // ── Loading state ─────────────────────────────────────────────────────────
   if (data.loading) {
     return (
@@ -339,9 +427,11 @@ export function InventoryPage({
     );
   }
 
-  // Inline mode (LogUsage) hides the table-scoped controls
-  // like search that don't apply to the form view.
-  const isInlineMode = filters.activeTab === "logUsage";
+  // Inline modes (Log Usage, Count, As Of, Reorder Points) hide the
+  // table-scoped controls like search that don't apply to the form view.
+  const isInlineMode =
+    filters.activeTab === "logUsage" || filters.activeTab === "cycleCount" || filters.activeTab === "asOf" ||
+    filters.activeTab === "reorderPoints";
 
   // ── Main render ───────────────────────────────────────────────────────────
   return (
@@ -410,6 +500,44 @@ export function InventoryPage({
                   Log Usage
                 </button>
               ) : null}
+              {canLogUsage ? (
+                <button
+                  type="button"
+                  className={`inventory-toolbar-action${filters.activeTab === "cycleCount" ? " active" : ""}`}
+                  onClick={() => filters.setActiveTabRaw("cycleCount")}
+                  title="Physical cycle counts"
+                >
+                  <ClipboardList size={14} aria-hidden="true" /> Count
+                </button>
+              ) : null}
+              <button
+                type="button"
+                className={`inventory-toolbar-action${filters.activeTab === "asOf" ? " active" : ""}`}
+                onClick={() => filters.setActiveTabRaw("asOf")}
+                title="Inventory at a past date and time"
+              >
+                <History size={14} aria-hidden="true" /> As Of
+              </button>
+              {canManageInventoryColumns ? (
+                <button
+                  type="button"
+                  className={`inventory-toolbar-action${filters.activeTab === "reorderPoints" ? " active" : ""}`}
+                  onClick={() => filters.setActiveTabRaw("reorderPoints")}
+                  title="Recommended min and par from usage and lead times"
+                >
+                  <Gauge size={14} aria-hidden="true" /> Reorder Points
+                </button>
+              ) : null}
+              {!isInlineMode ? (
+                <button
+                  type="button"
+                  className="inventory-toolbar-action"
+                  onClick={() => setShowScanDialog(true)}
+                  title="Scan an item or location label"
+                >
+                  <ScanLine size={14} aria-hidden="true" /> Scan
+                </button>
+              ) : null}
             </div>
             {!isInlineMode && (
               <div className="inventory-controls-row inventory-controls-row--mobile inventory-controls-row--mobile-search">
@@ -488,6 +616,44 @@ export function InventoryPage({
                   Log Usage
                 </button>
               ) : null}
+              {canLogUsage ? (
+                <button
+                  type="button"
+                  className={`inventory-toolbar-action${filters.activeTab === "cycleCount" ? " active" : ""}`}
+                  onClick={() => filters.setActiveTabRaw("cycleCount")}
+                  title="Physical cycle counts"
+                >
+                  <ClipboardList size={14} aria-hidden="true" /> Count
+                </button>
+              ) : null}
+              <button
+                type="button"
+                className={`inventory-toolbar-action${filters.activeTab === "asOf" ? " active" : ""}`}
+                onClick={() => filters.setActiveTabRaw("asOf")}
+                title="Inventory at a past date and time"
+              >
+                <History size={14} aria-hidden="true" /> As Of
+              </button>
+              {canManageInventoryColumns ? (
+                <button
+                  type="button"
+                  className={`inventory-toolbar-action${filters.activeTab === "reorderPoints" ? " active" : ""}`}
+                  onClick={() => filters.setActiveTabRaw("reorderPoints")}
+                  title="Recommended min and par from usage and lead times"
+                >
+                  <Gauge size={14} aria-hidden="true" /> Reorder Points
+                </button>
+              ) : null}
+              {!isInlineMode ? (
+                <button
+                  type="button"
+                  className="inventory-toolbar-action"
+                  onClick={() => setShowScanDialog(true)}
+                  title="Scan an item or location label"
+                >
+                  <ScanLine size={14} aria-hidden="true" /> Scan
+                </button>
+              ) : null}
 
               {!isInlineMode && (
                 <InventoryToolbar
@@ -571,6 +737,16 @@ export function InventoryPage({
                     </div>
                   </details>
                 ) : null}
+                {!isMobile && data.rows.length > 0 ? (
+                  <button
+                    type="button"
+                    className="inventory-toolbar-action"
+                    onClick={() => setShowLabelDialog(true)}
+                    title="Print QR labels for items or locations"
+                  >
+                    <Printer size={14} aria-hidden="true" /> Labels
+                  </button>
+                ) : null}
                 {data.canEditTable && !isMobile && (isAggregateScope || currentLocation) ? (
                   <button
                     type="button"
@@ -614,6 +790,18 @@ export function InventoryPage({
                         </div>
                       </details>
                     ) : null}
+                    {/* Transfer splits a single lot (part of its quantity goes
+                     *  elsewhere), so it only applies to one row at a time. */}
+                    {filters.showLocationPills && filters.sortedLocations.length > 1 && filters.selectedRowIds.size === 1 ? (
+                      <button
+                        type="button"
+                        className="inventory-toolbar-action"
+                        onClick={data.onRequestTransferSelectedRow}
+                        title="Send part of this item's quantity to another location"
+                      >
+                        Transfer…
+                      </button>
+                    ) : null}
                     {/* Unified Remove: opens the reason-picker dialog for
                      *  every selected row. Replaces the previous separate
                      *  Delete (qty-zero only) and Retire (Expired tab only)
@@ -698,8 +886,27 @@ export function InventoryPage({
         {filters.activeTab === "logUsage" ? (
           <InventoryUsagePage
             selectedLocationId={selectedLocationId}
+            onSelectedLocationIdChange={onSelectedLocationIdChange}
             canEditInventory={canEditInventory}
           />
+        ) : filters.activeTab === "cycleCount" ? (
+          <CycleCountPanel
+            selectedLocationId={filters.effectiveLocationId}
+            locations={data.locations}
+            canEditInventory={canEditInventory}
+          />
+        ) : filters.activeTab === "asOf" ? (
+          <AsOfPanel
+            selectedLocationId={filters.effectiveLocationId}
+            locations={data.locations}
+            visibleColumns={filters.visibleColumns}
+            getReadOnlyCellText={data.getReadOnlyCellText}
+          />
+        ) : filters.activeTab === "reorderPoints" && canManageInventoryColumns ? (
+          <ReorderPointsPanel
+            selectedLocationId={filters.effectiveLocationId}
+            locations={data.locations}
+          />
         ) : (
           <>
             {filters.activeTab === "expired" && canEditInventory && filters.filteredRows.length > 0 && (
@@ -749,12 +956,14 @@ export function InventoryPage({
                 beginCellEditSession={data.beginCellEditSession}
                 endCellEditSession={data.endCellEditSession}
                 getDaysUntilExpiration={filters.getDaysUntilExpiration}
+                expirationWarningDaysFor={filters.expirationWarningDaysFor}
                 isEditingLinkCell={data.isEditingLinkCell}
                 setEditingLinkCell={data.setEditingLinkCell}
                 activeTab={filters.activeTab}
                 availableVendors={data.registeredVendors}
                 onAddVendor={canManageInventoryColumns ? handleAddVendor : undefined}
                 vendorPricing={vendorPricingByName}
+                supplyForecast={supplyForecast}
               />
             ) : (
               <InventoryDesktopTable
@@ -800,6 +1009,7 @@ export function InventoryPage({
                 onAddVendor={canManageInventoryColumns ? handleAddVendor : undefined}
                 vendorPricing={vendorPricingByName}
                 onOpenItemDetails={canEditInventory ? setDetailItemId : undefined}
+                supplyForecast={supplyForecast}
               />
             )}
 
@@ -886,6 +1096,47 @@ export function InventoryPage({
             onCancel={data.onCancelAdjustQuantity}
           />
         ) : null}
+
+        {data.saveConflicts[0] ? (
+          <SaveConflictDialog
+            key={data.saveConflicts[0].rowId}
+            conflict={data.saveConflicts[0]}
+            columns={data.columns}
+            onResolve={data.onResolveSaveConflict}
+            onRestore={data.onResolveDeletedConflict}
+          />
+        ) : null}
+
+        {data.transferTarget ? (
+          <TransferItemDialog
+            itemName={data.transferTarget.itemName}
+            currentQty={data.transferTarget.currentQty}
+            unit={data.transferTarget.unit}
+            sourceLocationId={data.transferTarget.locationId}
+            locations={filters.sortedLocations}
+            loading={data.saving}
+            onConfirm={data.onConfirmTransfer}
+            onCancel={data.onCancelTransfer}
+          />
+        ) : null}
+
+        {showLabelDialog ? (
+          <LabelPrintDialog
+            selectedRows={data.rows.filter((r) => filters.selectedRowIds.has(r.id))}
+            visibleRows={filters.filteredRows.map(({ row }) => row)}
+            scopeLocationIds={locationsInScope(filters.sortedLocations, filters.effectiveLocationId)}
+            locations={filters.sortedLocations}
+            onClose={() => setShowLabelDialog(false)}
+          />
+        ) : null}
+
+        {showScanDialog ? (
+          <ScanDialog
+            title="Scan to find"
+            onScan={handleScanTarget}
+            onClose={() => setShowScanDialog(false)}
+          />
+        ) : null}
       </div>
 
       {isMobile && canEditInventory && data.canEditTable && !isAggregateScope && (
@@ -16,11 +16,14 @@ import { History, Plus, Trash2, X } from "lucide-react";
 import {
   upsertItemVendorPricing,
   deleteItemVendorPricing,
+  fetchReorderRecommendations,
   isVendorPricingConflictError,
   type ItemVendorPricingEntry,
+  type ReorderRecommendation,
 } from "../../lib/inventoryApi";
 import { formatCurrency, parseCurrency } from "../../lib/currency";
 import { dimensionForUnit } from "../../lib/uom";
+import { normalizeGtin } from "../../lib/gtin";
 import { VendorSelect } from "../ReorderTab";
 import { useToast } from "../shared/Toast";
 
@@ -79,6 +82,9 @@ type Draft = {
   packAmountUnit: string;
   packCost: string;
   reorderUrl: string;
+  /** Vendor barcode (UPC/EAN/GTIN). Blank when the vendor ships the
+   *  manufacturer's code — receive also matches the item-level GTIN. */
+  gtin: string;
   /** Optimistic-lock token. Empty string for new (not-yet-persisted) rows. */
   expectedLastUpdatedAt: string;
   /** The inventory ROW this entry is stored on. Because pricing is aggregated
@@ -100,6 +106,7 @@ const blankDraft = (): Draft => ({
   packAmountUnit: "",
   packCost: "",
   reorderUrl: "",
+  gtin: "",
   expectedLastUpdatedAt: "",
   sourceItemId: "",
 });
@@ -121,6 +128,7 @@ const draftFromEntry = (entry: ItemVendorPricingEntry): Draft => {
     packAmountUnit: entry.packAmountUnit ?? "",
     packCost: entry.packCost !== undefined ? formatCurrency(entry.packCost) : "",
     reorderUrl: entry.reorderUrl ?? "",
+    gtin: entry.gtin ?? "",
     expectedLastUpdatedAt: entry.lastUpdatedAt,
     sourceItemId: entry.itemId,
   };
@@ -202,6 +210,22 @@ export function ItemDetailModal({
   const [editing, setEditing] = useState<string | "new" | null>(null);
   const [draft, setDraft] = useState<Draft>(blankDraft());
   const [saving, setSaving] = useState(false);
+  const [recommendation, setRecommendation] = useState<{ itemId: string; value: ReorderRecommendation | null } | null>(null);
+
+  // Recommended min / par for this item at its location. Informational —
+  // a failed or empty load just leaves the line out.
+  useEffect(() => {
+    let cancelled = false;
+    fetchReorderRecommendations({ itemId })
+      .then((result) => {
+        if (!cancelled) setRecommendation({ itemId, value: result.recommendations[0] ?? null });
+      })
+      .catch(() => { /* non-fatal: no recommendation line */ });
+    return () => {
+      cancelled = true;
+    };
+  }, [itemId]);
+  const currentRecommendation = recommendation?.itemId === itemId ? recommendation.value : null;
 
   // Esc closes the modal — fast escape hatch when nothing's being edited.
   useEffect(() => {
@@ -310,6 +334,12 @@ export function ItemDetailModal({
       }
     }
 
+    let gtin: string | undefined;
+    if (draft.gtin.trim()) {
+      gtin = normalizeGtin(draft.gtin) ?? undefined;
+      if (!gtin) { toast.error("Barcode isn't a valid UPC/EAN/GTIN."); return; }
+    }
+
     setSaving(true);
     try {
       // Edits target the entry's own lot row (draft.sourceItemId); new entries
@@ -323,6 +353,7 @@ export function ItemDetailModal({
         ...(packAmountUnit ? { packAmountUnit } : {}),
         ...(packCost !== undefined ? { packCost } : {}),
         ...(draft.reorderUrl.trim() ? { reorderUrl: draft.reorderUrl.trim() } : {}),
+        ...(gtin ? { gtin } : {}),
         ...(draft.expectedLastUpdatedAt
           ? { expectedLastUpdatedAt: draft.expectedLastUpdatedAt }
           : {}),
@@ -449,6 +480,20 @@ export function ItemDetailModal({
         </header>
 
         <div className="item-detail-modal-body">
+          {currentRecommendation ? (
+            <p
+              className="item-detail-modal-reorder"
+              title={`Based on about ${Math.round(currentRecommendation.dailyUsage * 10) / 10}/day of usage and a ${Math.round(currentRecommendation.leadTimeDays)}-day lead time, with ${Math.ceil(currentRecommendation.safetyStock)} safety stock.`}
+            >
+              Min {currentRecommendation.currentMin}
+              {currentRecommendation.reorderPoint !== currentRecommendation.currentMin ? (
+                <> · <strong>recommended {currentRecommendation.reorderPoint}</strong></>
+              ) : <> · matches the recommendation</>}
+              {currentRecommendation.recommendedPar !== null ? (
+                <> · par {currentRecommendation.recommendedPar} (orders of {currentRecommendation.orderQuantity})</>
+              ) : null}
+            </p>
+          ) : null}
           {/* 1h.7: soft mixed-unit notice. Doesn't block anything — just
            *  tells the user why best-price comparison can't pick a winner
            *  when their vendors aren't priced in comparable units. */}
@@ -483,6 +528,9 @@ export function ItemDetailModal({
                         <span className="item-detail-row-pricing">
                           {renderPricingSummary(entry)}
                         </span>
+                        {entry.gtin ? (
+                          <span className="item-detail-row-pricing">Barcode {entry.gtin}</span>
+                        ) : null}
                         {entry.reorderUrl ? (
                           <a
                             href={entry.reorderUrl}
@@ -588,6 +636,7 @@ function PricingForm({
   // Reorder URL is optional — hide behind a "+ Add reorder URL" disclosure
   // until needed. Auto-revealed when editing a row that already has one.
   const [showUrl, setShowUrl] = useState<boolean>(Boolean(draft.reorderUrl.trim()));
+  const [showGtin, setShowGtin] = useState<boolean>(Boolean(draft.gtin.trim()));
   // Unit-of-measure capture is hidden for now (EMS warm market). The
   // `tracksUnits` / `allowedUnits` props stay in the API for callers, but
   // the form ignores them so every org sees the same simplified shape.
@@ -727,6 +776,34 @@ function PricingForm({
             />
           </label>
         ) : null}
+
+        {!showGtin ? (
+          <div className="item-detail-pricing-field item-detail-pricing-field--wide item-detail-pricing-add-row">
+            <button
+              type="button"
+              className="button button-ghost button-sm item-detail-pricing-add-btn"
+              onClick={() => setShowGtin(true)}
+              disabled={saving}
+            >
+              <Plus size={14} /> Add vendor barcode
+            </button>
+          </div>
+        ) : null}
+
+        {showGtin ? (
+          <label className="item-detail-pricing-field item-detail-pricing-field--wide">
+            <span className="field-label">Vendor barcode (UPC / GTIN)</span>
+            <input
+              className="field"
+              type="text"
+              inputMode="numeric"
+              placeholder="Scan or type the code on the case"
+              value={draft.gtin}
+              onChange={(e) => update({ gtin: e.target.value })}
+              disabled={saving}
+            />
+          </label>
+        ) : null}
       </div>
       <div className="item-detail-pricing-actions">
         <button
@@ -0,0 +1,193 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { InventoryLocation, InventoryRow } from "./inventoryTypes";
+import { isStation, locationPath } from "../../lib/locationTree";
+import { buildScanUrl } from "../../lib/scanLinks";
+import {
+  LABEL_TEMPLATES,
+  buildLabelPdf,
+  downloadLabelPdf,
+  type LabelSpec,
+  type LabelTemplateId,
+} from "../../lib/labelPdf";
+import { useToast } from "../shared/Toast";
+
+type LabelSource = "selected" | "view" | "locations";
+
+export type LabelPrintDialogProps = {
+  /** Rows currently checked in the grid. */
+  selectedRows: InventoryRow[];
+  /** Every row the current tab/search/scope shows. */
+  visibleRows: InventoryRow[];
+  /** Location leaves in the current scope — the ones stock lives on. */
+  scopeLocationIds: Set<string>;
+  locations: InventoryLocation[];
+  onClose: () => void;
+};
+
+const TEMPLATE_STORAGE_KEY = "wickops.labels.template";
+
+const loadTemplate = (): LabelTemplateId => {
+  try {
+    const saved = localStorage.getItem(TEMPLATE_STORAGE_KEY);
+    if (saved && saved in LABEL_TEMPLATES) return saved as LabelTemplateId;
+  } catch { /* noop */ }
+  return "5160";
+};
+
+/**
+ * Printable QR label sheets for inventory rows or location leaves. Each QR
+ * encodes a scan deep link (lib/scanLinks.ts), so the in-app scanner or any
+ * phone camera lands on the item or scopes to the location. Rendered fully
+ * client-side — nothing is stored.
+ */
+export function LabelPrintDialog({
+  selectedRows,
+  visibleRows,
+  scopeLocationIds,
+  locations,
+  onClose,
+}: LabelPrintDialogProps) {
+  const toast = useToast();
+  const [source, setSource] = useState<LabelSource>(selectedRows.length > 0 ? "selected" : "view");
+  const [templateId, setTemplateId] = useState<LabelTemplateId>(loadTemplate);
+  const [skipText, setSkipText] = useState("0");
+  const cancelRef = useRef<HTMLButtonElement | null>(null);
+  const titleId = "label-print-dialog-title";
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    document.addEventListener("keydown", onKey);
+    return () => document.removeEventListener("keydown", onKey);
+  }, [onClose]);
+
+  useEffect(() => {
+    requestAnimationFrame(() => cancelRef.current?.focus());
+  }, []);
+
+  const leafLocations = useMemo(
+    () => locations.filter((l) => scopeLocationIds.has(l.id) && !isStation(locations, l.id)),
+    [locations, scopeLocationIds],
+  );
+
+  const labels = useMemo((): LabelSpec[] => {
+    if (source === "locations") {
+      return leafLocations.map((loc) => ({
+        qrText: buildScanUrl({ kind: "location", id: loc.id }),
+        title: loc.name,
+        lines: [locationPath(locations, loc.id)],
+      }));
+    }
+    const rows = source === "selected" ? selectedRows : visibleRows;
+    return rows
+      .filter((row) => String(row.values.itemName ?? "").trim())
+      .map((row) => {
+        const expiration = String(row.values.expirationDate ?? "").trim();
+        return {
+          qrText: buildScanUrl({ kind: "item", id: row.id }),
+          title: String(row.values.itemName ?? "").trim(),
+          lines: [
+            row.locationId ? locationPath(locations, row.locationId) : "",
+            expiration ? `Exp ${expiration.slice(0, 10)}` : "",
+          ],
+        };
+      });
+  }, [source, leafLocations, locations, selectedRows, visibleRows]);
+
+  const template = LABEL_TEMPLATES[templateId];
+  const perSheet = template.columns * template.rows;
+  const skip = Math.min(Math.max(0, Math.floor(Number(skipText) || 0)), perSheet - 1);
+  const sheets = labels.length > 0 ? Math.ceil((labels.length + skip) / perSheet) : 0;
+
+  const handleDownload = () => {
+    if (labels.length === 0) return;
+    try {
+      localStorage.setItem(TEMPLATE_STORAGE_KEY, templateId);
+    } catch { /* noop */ }
+    try {
+      const pdf = buildLabelPdf(templateId, labels, skip);
+      const stamp = new Date().toISOString().slice(0, 10);
+      downloadLabelPdf(`wickops-labels-${source === "locations" ? "locations" : "items"}-${stamp}.pdf`, pdf);
+      onClose();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not build the label sheet.");
+    }
+  };
+
+  return (
+    <div
+      className="confirm-dialog-overlay"
+      role="presentation"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div
+        className="confirm-dialog remove-item-dialog"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+      >
+        <div className="confirm-dialog-body">
+          <h3 id={titleId} className="confirm-dialog-title">Print labels</h3>
+          <p className="confirm-dialog-message">
+            Each label has a QR code. Scan it from Inventory or Log Usage — or
+            with any phone camera — to jump to the item or location.
+          </p>
+
+          <label className="adjust-qty-field">
+            <span className="adjust-qty-field-label">Labels for</span>
+            <select value={source} onChange={(e) => setSource(e.currentTarget.value as LabelSource)}>
+              <option value="selected" disabled={selectedRows.length === 0}>
+                Selected items ({selectedRows.length})
+              </option>
+              <option value="view">Items in this view ({visibleRows.length})</option>
+              <option value="locations">Locations ({leafLocations.length})</option>
+            </select>
+          </label>
+
+          <label className="adjust-qty-field">
+            <span className="adjust-qty-field-label">Label sheet</span>
+            <select value={templateId} onChange={(e) => setTemplateId(e.currentTarget.value as LabelTemplateId)}>
+              {Object.values(LABEL_TEMPLATES).map((t) => (
+                <option key={t.id} value={t.id}>
+                  {t.name}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="adjust-qty-field">
+            <span className="adjust-qty-field-label">Skip positions on first sheet</span>
+            <input
+              type="text"
+              inputMode="numeric"
+              pattern="[0-9]*"
+              value={skipText}
+              onChange={(e) => setSkipText(e.currentTarget.value)}
+              aria-label="Label positions to skip"
+            />
+            <span className="adjust-qty-delta">
+              {labels.length} label{labels.length === 1 ? "" : "s"} · {sheets} sheet{sheets === 1 ? "" : "s"}
+            </span>
+          </label>
+        </div>
+
+        <div className="confirm-dialog-actions">
+          <button ref={cancelRef} type="button" className="button button-secondary" onClick={onClose}>
+            Cancel
+          </button>
+          <button
+            type="button"
+            className="button button-primary"
+            onClick={handleDownload}
+            disabled={labels.length === 0}
+          >
+            Download PDF
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
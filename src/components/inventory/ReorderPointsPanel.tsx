@@ -0,0 +1,234 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { LoadingState } from "../shared/LoadingState";
+import { useToast } from "../shared/Toast";
+import { buildLocationPickerEntries, locationPath } from "../../lib/locationTree";
+import { formatCurrency } from "../../lib/currency";
+import {
+  acceptReorderRecommendations,
+  fetchReorderRecommendations,
+  type InventoryLocation,
+  type ReorderRecommendation,
+} from "../../lib/inventoryApi";
+import { forecastKey } from "../../lib/forecast";
+
+type ReorderPointsPanelProps = {
+  /** Current inventory scope — preselected as the location to review. */
+  selectedLocationId: string;
+  locations: InventoryLocation[];
+};
+
+const LEAD_TIME_SOURCE_LABELS: Record<ReorderRecommendation["leadTimeSource"], string> = {
+  item: "this item's orders",
+  vendor: "this vendor's orders",
+  org: "all orders",
+  default: "no orders yet — assumed",
+};
+
+const keyOf = (r: ReorderRecommendation) => forecastKey(r.itemName, r.locationId);
+
+/** Whether accepting would change anything. */
+const differs = (r: ReorderRecommendation): boolean =>
+  r.reorderPoint !== r.currentMin || (r.recommendedPar !== null && r.recommendedPar !== r.currentPar);
+
+const round1 = (n: number): number => Math.round(n * 10) / 10;
+
+/**
+ * Admin review of data-driven reorder points. Each item with usage in the
+ * last 90 days gets a recommended min (usage over the observed lead time
+ * plus safety stock) and par (min plus the economic order quantity).
+ * Accepting the selected rows writes them onto every lot of the item at
+ * that location, logged in Activity as item edits.
+ */
+export function ReorderPointsPanel({ selectedLocationId, locations }: ReorderPointsPanelProps) {
+  const toast = useToast();
+  const [locationId, setLocationId] = useState(selectedLocationId);
+  const [result, setResult] = useState<{ locationId: string; windowDays: number; recommendations: ReorderRecommendation[] } | null>(null);
+  const [loadError, setLoadError] = useState("");
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const entries = useMemo(() => buildLocationPickerEntries(locations), [locations]);
+
+  const load = useCallback(async () => {
+    try {
+      const next = await fetchReorderRecommendations({ locationId: locationId || undefined });
+      setResult({ locationId, ...next });
+      setSelected(new Set(next.recommendations.filter(differs).map(keyOf)));
+      setLoadError("");
+    } catch (err) {
+      setLoadError(err instanceof Error ? err.message : "Failed to load reorder recommendations.");
+    }
+  }, [locationId]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const current = result?.locationId === locationId ? result : null;
+  const rows = useMemo(
+    () => (current?.recommendations ?? []).filter((r) => showUnchanged || differs(r)),
+    [current, showUnchanged],
+  );
+  const selectedRows = rows.filter((r) => selected.has(keyOf(r)));
+  const allSelected = rows.length > 0 && selectedRows.length === rows.length;
+
+  const toggle = (key: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const accept = async () => {
+    if (selectedRows.length === 0) return;
+    setBusy(true);
+    try {
+      const { updatedCount, busyCount } = await acceptReorderRecommendations(selectedRows.map((r) => ({
+        itemName: r.itemName,
+        locationId: r.locationId,
+        minQuantity: r.reorderPoint,
+        ...(r.recommendedPar !== null ? { parQuantity: r.recommendedPar } : {}),
+      })));
+      toast.success(`Updated ${updatedCount} row${updatedCount === 1 ? "" : "s"}.`);
+      if (busyCount > 0) {
+        toast.info(`${busyCount} row${busyCount === 1 ? " was" : "s were"} being edited and left as they are — accept again to retry.`);
+      }
+      await load();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to accept reorder recommendations.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="usage-card reorder-points">
+      <header className="usage-header">
+        <div className="usage-header-row">
+          <h2 className="usage-title">Reorder Points</h2>
+        </div>
+        <p className="usage-instructions">
+          Recommended min and par from the last {current?.windowDays ?? 90} days of logged usage and
+          how long orders actually take to arrive. Min covers usage over the lead time plus safety
+          stock; par adds the most economical order size for items with a unit cost.
+        </p>
+      </header>
+
+      <div className="cycle-count-start">
+        <div className="cycle-count-start-row">
+          <select
+            className="field"
+            aria-label="Location"
+            value={locationId}
+            onChange={(e) => setLocationId(e.target.value)}
+            disabled={busy}
+          >
+            <option value="">All Locations</option>
+            {entries.map((entry) => (
+              <option key={entry.id} value={entry.id}>
+                {entry.label}{entry.isStation ? " (all)" : ""}
+              </option>
+            ))}
+          </select>
+          <label className="reorder-points-toggle">
+            <input
+              type="checkbox"
+              checked={showUnchanged}
+              onChange={(e) => setShowUnchanged(e.target.checked)}
+            />
+            Show items already at their recommendation
+          </label>
+        </div>
+        {loadError ? <p className="field-error" role="alert">{loadError}</p> : null}
+      </div>
+
+      {!current && !loadError ? (
+        <LoadingState variant="card" message="Analyzing usage and lead times…" />
+      ) : current && rows.length === 0 ? (
+        <p className="usage-activity-subtitle">
+          {current.recommendations.length === 0
+            ? "No usage logged here in the window — nothing to recommend yet."
+            : "Every item already matches its recommendation."}
+        </p>
+      ) : current ? (
+        <>
+          <div className="as-of-summary">
+            <span className="cycle-count-list-meta">
+              {selectedRows.length} of {rows.length} selected
+            </span>
+            <button
+              type="button"
+              className="button button-primary button-sm"
+              onClick={() => void accept()}
+              disabled={busy || selectedRows.length === 0}
+            >
+              {busy ? "Saving…" : `Accept ${selectedRows.length} selected`}
+            </button>
+          </div>
+          <div className="inventory-table-wrap">
+            <table className="inventory-table">
+              <thead>
+                <tr>
+                  <th>
+                    <input
+                      type="checkbox"
+                      aria-label="Select all"
+                      checked={allSelected}
+                      onChange={() => setSelected(allSelected ? new Set() : new Set(rows.map(keyOf)))}
+                    />
+                  </th>
+                  <th>Item</th>
+                  <th>Location</th>
+                  <th>Use / day</th>
+                  <th>Lead time</th>
+                  <th>Min</th>
+                  <th>Par</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((r) => {
+                  const key = keyOf(r);
+                  return (
+                    <tr key={key}>
+                      <td>
+                        <input
+                          type="checkbox"
+                          aria-label={`Select ${r.itemName}`}
+                          checked={selected.has(key)}
+                          onChange={() => toggle(key)}
+                        />
+                      </td>
+                      <td>{r.itemName}</td>
+                      <td>{locationPath(locations, r.locationId)}</td>
+                      <td>{round1(r.dailyUsage)}</td>
+                      <td title={`From ${LEAD_TIME_SOURCE_LABELS[r.leadTimeSource]}`}>
+                        {round1(r.leadTimeDays)} d
+                      </td>
+                      <td title={`Includes ${Math.ceil(r.safetyStock)} safety stock`}>
+                        {r.currentMin} → <strong>{r.reorderPoint}</strong>
+                      </td>
+                      <td
+                        title={r.orderQuantity !== null && r.unitCost !== null
+                          ? `Orders of ${r.orderQuantity} at ${formatCurrency(r.unitCost)} each`
+                          : "Add a unit cost to get a par recommendation"}
+                      >
+                        {r.recommendedPar !== null ? (
+                          <>{r.currentPar} → <strong>{r.recommendedPar}</strong></>
+                        ) : (
+                          <span className="reorder-points-muted">{r.currentPar || "—"}</span>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </>
+      ) : null}
+    </div>
+  );
+}
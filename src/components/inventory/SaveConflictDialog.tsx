@@ -0,0 +1,135 @@
+import { useEffect, useRef, useState } from "react";
+import type { InventoryColumn } from "../../lib/inventoryApi";
+import type { SaveConflictState } from "./inventoryTypes";
+
+export type SaveConflictDialogProps = {
+  conflict: SaveConflictState;
+  /** Used for field labels; keys without a column fall back to the raw key. */
+  columns: InventoryColumn[];
+  /** Per-field pick for an edited row. */
+  onResolve: (choices: Record<string, "server" | "yours">) => void;
+  /** Answer for a row someone else deleted: true restores the user's copy. */
+  onRestore: (restore: boolean) => void;
+};
+
+const displayValue = (value: string | number | boolean | null): string => {
+  if (value === null || value === "") return "(empty)";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value);
+};
+
+/**
+ * Shown when an item save was rejected because someone else saved the same
+ * row first. The grid already shows their version; each field both sides
+ * changed gets a Theirs / Mine choice, pre-set to Mine. Fields only one side
+ * changed are listed pre-set to that side so the user can still overrule the
+ * automatic merge. Mirrors AdjustQuantityDialog's structure.
+ */
+export function SaveConflictDialog({ conflict, columns, onResolve, onRestore }: SaveConflictDialogProps) {
+  const [choices, setChoices] = useState<Record<string, "server" | "yours">>(() =>
+    Object.fromEntries(conflict.fields.map((f) => [f.key, f.auto ?? "yours"])),
+  );
+  const cancelRef = useRef<HTMLButtonElement | null>(null);
+  const titleId = "save-conflict-dialog-title";
+
+  // Escape keeps their version — the safe default, since nothing is lost
+  // that the user can't retype.
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key !== "Escape") return;
+      if (conflict.deleted) onRestore(false);
+      else onResolve({});
+    };
+    document.addEventListener("keydown", onKey);
+    return () => document.removeEventListener("keydown", onKey);
+  }, [conflict.deleted, onResolve, onRestore]);
+
+  useEffect(() => {
+    requestAnimationFrame(() => cancelRef.current?.focus());
+  }, []);
+
+  const labelFor = (key: string) => columns.find((c) => c.key === key)?.label ?? key;
+
+  if (conflict.deleted) {
+    return (
+      <div className="confirm-dialog-overlay" role="presentation">
+        <div className="confirm-dialog" role="dialog" aria-modal="true" aria-labelledby={titleId}>
+          <div className="confirm-dialog-body">
+            <h3 id={titleId} className="confirm-dialog-title">
+              "{conflict.itemName}" was deleted
+            </h3>
+            <p className="confirm-dialog-message">
+              Someone else deleted this item while you were editing it. Restore it with your changes,
+              or let the delete stand?
+            </p>
+          </div>
+          <div className="confirm-dialog-actions">
+            <button
+              ref={cancelRef}
+              type="button"
+              className="button button-secondary"
+              onClick={() => onRestore(false)}
+            >
+              Discard my changes
+            </button>
+            <button type="button" className="button button-primary" onClick={() => onRestore(true)}>
+              Restore my version
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="confirm-dialog-overlay" role="presentation">
+      <div className="confirm-dialog save-conflict-dialog" role="dialog" aria-modal="true" aria-labelledby={titleId}>
+        <div className="confirm-dialog-body">
+          <h3 id={titleId} className="confirm-dialog-title">
+            "{conflict.itemName}" changed while you were editing
+          </h3>
+          <p className="confirm-dialog-message">
+            Someone else saved this item first. Pick which value to keep for each field.
+          </p>
+          <table className="save-conflict-table">
+            <thead>
+              <tr>
+                <th scope="col">Field</th>
+                <th scope="col">Theirs</th>
+                <th scope="col">Mine</th>
+              </tr>
+            </thead>
+            <tbody>
+              {conflict.fields.map((field) => (
+                <tr key={field.key} className={field.auto === null ? "save-conflict-row-both" : undefined}>
+                  <th scope="row">{labelFor(field.key)}</th>
+                  {(["server", "yours"] as const).map((side) => (
+                    <td key={side}>
+                      <label className="save-conflict-choice">
+                        <input
+                          type="radio"
+                          name={`save-conflict-${field.key}`}
+                          checked={choices[field.key] === side}
+                          onChange={() => setChoices((prev) => ({ ...prev, [field.key]: side }))}
+                        />
+                        <span>{displayValue(side === "server" ? field.server : field.yours)}</span>
+                      </label>
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <div className="confirm-dialog-actions">
+          <button ref={cancelRef} type="button" className="button button-secondary" onClick={() => onResolve({})}>
+            Keep theirs
+          </button>
+          <button type="button" className="button button-primary" onClick={() => onResolve(choices)}>
+            Save my picks
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
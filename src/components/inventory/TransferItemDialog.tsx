@@ -0,0 +1,171 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { InventoryLocation } from "./inventoryTypes";
+import { buildLocationPickerEntries } from "../../lib/locationTree";
+
+/** Outcome the parent acts on: how much to send and where. */
+export type TransferItemChoice = {
+  quantity: number;
+  locationId: string;
+};
+
+export type TransferItemDialogProps = {
+  /** Item name shown in the title for context. */
+  itemName: string;
+  /** On-hand count of the source lot. Caps the transfer quantity. */
+  currentQty: number;
+  /** Optional unit label ("lb", "ct") shown beside the input. */
+  unit?: string;
+  /** Leaf the source lot lives on — excluded from the destination list. */
+  sourceLocationId?: string;
+  locations: InventoryLocation[];
+  onConfirm: (choice: TransferItemChoice) => void;
+  onCancel: () => void;
+  /** While the parent is saving, disable inputs and show a loading label. */
+  loading?: boolean;
+};
+
+/**
+ * Partial-quantity transfer dialog. Reached from the toolbar's Transfer
+ * action with a single row selected. Unlike Move (which relocates whole
+ * rows), this splits the lot: the source keeps the remainder and the server
+ * merges the transferred amount into a matching lot at the destination or
+ * creates one. Mirrors AdjustQuantityDialog's structure.
+ */
+export function TransferItemDialog({
+  itemName,
+  currentQty,
+  unit,
+  sourceLocationId,
+  locations,
+  onConfirm,
+  onCancel,
+  loading = false,
+}: TransferItemDialogProps) {
+  const [qtyText, setQtyText] = useState("");
+  const [locationId, setLocationId] = useState("");
+  const cancelRef = useRef<HTMLButtonElement | null>(null);
+  const titleId = "transfer-item-dialog-title";
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape" && !loading) onCancel();
+    };
+    document.addEventListener("keydown", onKey);
+    return () => document.removeEventListener("keydown", onKey);
+  }, [onCancel, loading]);
+
+  useEffect(() => {
+    requestAnimationFrame(() => cancelRef.current?.focus());
+  }, []);
+
+  // Stations are valid targets — the server routes them into their default
+  // bucket, same as Move.
+  const destinations = useMemo(
+    () => buildLocationPickerEntries(locations).filter((entry) => entry.id !== sourceLocationId),
+    [locations, sourceLocationId],
+  );
+
+  const parsedQty = useMemo(() => {
+    const n = Number(qtyText);
+    return qtyText.trim() !== "" && Number.isFinite(n) ? n : NaN;
+  }, [qtyText]);
+
+  const unitSuffix = (unit ?? "").trim();
+  const canConfirm =
+    !loading &&
+    locationId !== "" &&
+    Number.isFinite(parsedQty) &&
+    parsedQty > 0 &&
+    parsedQty <= currentQty;
+
+  const handleConfirm = () => {
+    if (!canConfirm) return;
+    onConfirm({ quantity: parsedQty, locationId });
+  };
+
+  return (
+    <div
+      className="confirm-dialog-overlay"
+      role="presentation"
+      onClick={(e) => {
+        if (e.target === e.currentTarget && !loading) onCancel();
+      }}
+    >
+      <div
+        className="confirm-dialog remove-item-dialog"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+      >
+        <div className="confirm-dialog-body">
+          <h3 id={titleId} className="confirm-dialog-title">
+            Transfer "{itemName}"
+          </h3>
+          <p className="confirm-dialog-message">
+            Send part of this stock to another location. The rest stays here;
+            both sides are recorded as one transfer in the activity log.
+          </p>
+
+          <label className="adjust-qty-field">
+            <span className="adjust-qty-field-label">Quantity to transfer</span>
+            <div className="inventory-number-with-unit">
+              <input
+                type="text"
+                inputMode="numeric"
+                pattern="[0-9]*"
+                value={qtyText}
+                onChange={(e) => setQtyText(e.currentTarget.value)}
+                disabled={loading}
+                aria-label="Quantity to transfer"
+              />
+              {unitSuffix && <span className="inventory-unit-suffix">{unitSuffix}</span>}
+            </div>
+            <span className="adjust-qty-delta">
+              {currentQty}
+              {unitSuffix ? ` ${unitSuffix}` : ""} on hand
+              {Number.isFinite(parsedQty) && parsedQty > 0 && parsedQty <= currentQty
+                ? ` → ${currentQty - parsedQty} left here`
+                : ""}
+            </span>
+          </label>
+
+          <label className="adjust-qty-field">
+            <span className="adjust-qty-field-label">Destination</span>
+            <select
+              value={locationId}
+              onChange={(e) => setLocationId(e.currentTarget.value)}
+              disabled={loading}
+            >
+              <option value="" disabled>Choose a location…</option>
+              {destinations.map((entry) => (
+                <option key={entry.id} value={entry.id}>
+                  {entry.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div className="confirm-dialog-actions">
+          <button
+            ref={cancelRef}
+            type="button"
+            className="button button-secondary"
+            onClick={onCancel}
+            disabled={loading}
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            className="button button-primary"
+            onClick={handleConfirm}
+            disabled={!canConfirm}
+          >
+            {loading ? "Transferring…" : "Transfer"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -5,34 +5,46 @@ import {
   importInventoryCsv,
   isDeleteBlockedError,
   isInventoryProvisioningError,
+  isSaveConflictError,
   loadInventoryBootstrap,
+  loadInventoryChanges,
   loadInventoryItems,
+  mergeInventoryChanges,
   moveInventoryItems,
+  queryInventoryItems,
   saveInventoryItems,
   saveInventoryItemsSync,
+  transferInventoryItem,
   type ColumnVisibilityOverrides,
+  type InventoryChanges,
   type InventoryColumn,
+  type InventoryItemQuery,
   type InventoryLocation,
   type InventoryRow,
+  type InventorySaveConflict,
   type ItemVendorPricingEntry,
 } from "../../../lib/inventoryApi";
 import { pickLoadingLine } from "../../../lib/loadingLines";
 import { clearPendingSave, readPendingSave, stashPendingSave } from "../../../lib/pendingInventorySave";
+import { isMutationQueuedError } from "../../../lib/offlineQueue";
 import { formatCurrency, isCurrencyColumnKey, parseCurrency } from "../../../lib/currency";
 import type {
   ActiveTab,
   CsvImportDialogState,
   InventorySnapshot,
   PasteImportDialogState,
+  SaveConflictState,
 } from "../inventoryTypes";
 import {
   AUTOSAVE_DELAY_MS,
+  CHANGES_POLL_MS,
   DEFAULT_PROVISIONING_RETRY_MS,
   NUMBER_COLUMN_KEYS,
   UNDO_HISTORY_LIMIT,
 } from "../inventoryTypes";
-import { buildRowsSignature, createBlankInventoryRow, normalizeHeaderKey } from "../inventoryUtils";
+import { buildRowsSignature, createBlankInventoryRow, mergeConflictingValues, normalizeHeaderKey } from "../inventoryUtils";
 import { isStation, defaultBucketChildId } from "../../../lib/locationTree";
+import { DEFAULT_EXPIRATION_SETTINGS, type ExpirationSettings } from "../../../lib/expiration";
 import { useToast } from "../../shared/Toast";
 
 interface UseInventoryDataParams {
@@ -65,6 +77,10 @@ interface UseInventoryDataParams {
   setCurrentPage: React.Dispatch<React.SetStateAction<number>>;
 }
 
+// Rows fetched to fill in a view while the remaining pages load -- the
+// endpoint's page cap, many times what one grid page shows
+const VIEW_PREFETCH_LIMIT = 1000;
+
 // Keys that, when edited, indicate an order has arrived -- auto-clear orderedAt
 const ORDERED_CLEAR_KEYS = new Set(["quantity", "expirationDate"]);
 
@@ -87,10 +103,20 @@ export function useInventoryData({
   setCurrentPage,
 }: UseInventoryDataParams) {
   const toast = useToast();
-  const canEditTable = canEditInventory && activeTab !== "logUsage";
+  /** When the grid is showing this device's saved copy because the server
+   *  was unreachable at load (ms timestamp of that copy). Read-only until a
+   *  live load replaces it. */
+  const [offlineSince, setOfflineSince] = useState<number | null>(null);
+  const canEditTable =
+    canEditInventory && offlineSince === null && activeTab !== "logUsage" && activeTab !== "cycleCount" &&
+    activeTab !== "asOf" && activeTab !== "reorderPoints";
 
   // ── Core state ──
   const [loading, setLoading] = useState(true);
+  /** True while pages past the bootstrap's first are still streaming in. The
+   *  grid is usable meanwhile; views are completed from the server (see
+   *  mergeQueriedRows). */
+  const [loadingRemaining, setLoadingRemaining] = useState(false);
   const [loadError, setLoadError] = useState<string>("");
   const [loadingMessage, setLoadingMessage] = useState(() => pickLoadingLine());
   const [organizationId, setOrganizationId] = useState("");
@@ -106,6 +132,9 @@ export function useInventoryData({
   const [editingDateCell, setEditingDateCell] = useState<{ rowId: string; columnKey: string } | null>(null);
   const [saving, setSaving] = useState(false);
   const [showSaved, setShowSaved] = useState(false);
+  /** Rows whose save was rejected as stale and need the user to pick, cell by
+   *  cell, between their edit and the one saved elsewhere. Shown one at a time. */
+  const [saveConflicts, setSaveConflicts] = useState<SaveConflictState[]>([]);
   const [importingCsv, setImportingCsv] = useState(false);
   const [csvImportDialog, setCsvImportDialog] = useState<CsvImportDialogState | null>(null);
   const [pasteImportDialog, setPasteImportDialog] = useState<PasteImportDialogState | null>(null);
@@ -126,6 +155,9 @@ export function useInventoryData({
   // 1h.7: org-wide UoM gate. Default false (EMS-style) — i modal
   // hides Amount/Unit fields. Pantry/restaurant orgs flip on in Settings.
   const [tracksUnits, setTracksUnits] = useState<boolean>(false);
+  // Per-org "expiring soon" window (default / column rules / per-item column).
+  const [expirationSettings, setExpirationSettings] =
+    useState<ExpirationSettings>(DEFAULT_EXPIRATION_SETTINGS);
   const [migrationToastShown, setMigrationToastShown] = useState(false);
   /** Open-state for the unified Remove dialog. The rowIds are captured at
    *  the moment of opening so subsequent selection changes don't shift the
@@ -138,6 +170,11 @@ export function useInventoryData({
   const [adjustTarget, setAdjustTarget] = useState<
     { rowId: string; itemName: string; currentQty: number; unit?: string } | null
   >(null);
+  // Partial-quantity transfer dialog target. Single-row only — a transfer
+  // splits one lot, so the quantity is always relative to that row.
+  const [transferTarget, setTransferTarget] = useState<
+    { rowId: string; itemName: string; currentQty: number; unit?: string; locationId?: string } | null
+  >(null);
   const [userColumnOverrides, setUserColumnOverrides] = useState<ColumnVisibilityOverrides>({});
 
   // ── Refs ──
@@ -172,6 +209,9 @@ export function useInventoryData({
   const restoringSnapshotRef = useRef(false);
   const lastSavedSnapshotRef = useRef<Map<string, string>>(new Map());
   const pendingNewLocationRef = useRef<string | null>(null);
+  /** Where the next change-feed poll starts; null until a bootstrap supplies
+   *  one (or the feed gave up and only a reload will catch up). */
+  const changesCursorRef = useRef<string | null>(null);
   const onSaveRef = useRef<(silent?: boolean) => Promise<void>>(async () => {});
 
   // ── Ref sync ──
@@ -202,10 +242,22 @@ export function useInventoryData({
     );
     const persistedRows = bootstrap.items;
     setOrganizationId(String(bootstrap.access?.organizationId ?? ""));
+    changesCursorRef.current = bootstrap.changesCursor;
+    setOfflineSince(bootstrap.offlineSince);
+    if (bootstrap.offlineSince !== null) {
+      const savedAt = new Date(bootstrap.offlineSince).toLocaleString("en-US", {
+        month: "short",
+        day: "numeric",
+        hour: "numeric",
+        minute: "2-digit",
+      });
+      toast.info(`You're offline. Showing the inventory saved on this device (${savedAt}); editing is paused.`);
+    }
     setLocations(bootstrap.locations ?? []);
     setRegisteredVendors(bootstrap.registeredVendors ?? []);
     setAllowedUnits(bootstrap.allowedUnits ?? []);
     setTracksUnits(bootstrap.tracksUnits ?? false);
+    setExpirationSettings(bootstrap.expirationSettings ?? DEFAULT_EXPIRATION_SETTINGS);
     // 1g: index vendor-pricing rows by itemId → vendorLower → entry. Bootstrap
     // returns a flat array; transformed once on apply so reads in the modal
     // and Shop are O(1).
@@ -278,10 +330,19 @@ export function useInventoryData({
     }
 
     try {
-      await saveInventoryItems(stash.rows, stash.deletedRowIds);
+      let conflicts: InventorySaveConflict[] = [];
+      try {
+        await saveInventoryItems(stash.rows, stash.deletedRowIds);
+      } catch (err) {
+        // Someone else edited those rows while this device was offline. The
+        // rest of the stash landed; the stale rows go to the merge dialog.
+        if (!isSaveConflictError(err)) throw err;
+        conflicts = err.conflicts;
+      }
       clearPendingSave();
       const fresh = await loadInventoryBootstrap();
       applyBootstrap(fresh);
+      if (conflicts.length > 0) receiveSaveConflicts(conflicts, "stash");
       toast.success(
         `Restored ${pendingCount} unsaved ${pendingCount === 1 ? "change" : "changes"} from your last session.`,
       );
@@ -836,6 +897,11 @@ export function useInventoryData({
     try {
       await moveInventoryItems(Array.from(idsToMove), targetLocationId);
     } catch (err: any) {
+      // Queued for replay: keep the optimistic move, it lands on reconnect.
+      if (isMutationQueuedError(err)) {
+        toast.info(err.message);
+        return;
+      }
       // Revert the optimistic update on failure. Reload bootstrap to be safe —
       // partial moves are possible if the server moved some but not all.
       try {
@@ -846,6 +912,105 @@ export function useInventoryData({
     }
   };
 
+  /** Partial-quantity transfer. Opens the dialog for the single selected row;
+   *  whole-row relocation stays on Move. */
+  const onRequestTransferSelectedRow = () => {
+    if (!canEditTable) return;
+    const rowId = selectedRowIds.size === 1
+      ? Array.from(selectedRowIds)[0]
+      : (selectedRowIds.size === 0 ? selectedRowId : null);
+    if (!rowId) return;
+    const row = rowsRef.current.find((r) => r.id === rowId);
+    if (!row) return;
+    const currentQty = Number(row.values.quantity ?? 0);
+    setTransferTarget({
+      rowId,
+      itemName: String(row.values.itemName ?? "").trim() || "this item",
+      currentQty: Number.isFinite(currentQty) ? currentQty : 0,
+      unit:
+        String(row.values.displayUnit ?? "").trim() ||
+        String(row.values.unit ?? "").trim() ||
+        undefined,
+      locationId: row.locationId,
+    });
+  };
+
+  const onCancelTransfer = () => setTransferTarget(null);
+
+  const onConfirmTransfer = async (input: { quantity: number; locationId: string }) => {
+    const target = transferTarget;
+    if (!target || !canEditTable) {
+      setTransferTarget(null);
+      return;
+    }
+    savingRef.current = true;
+    setSaving(true);
+    try {
+      // The server conditions the decrement on the stored row, so flush any
+      // pending edit to it first rather than failing with a stale conflict.
+      if (dirtyRowIdsRef.current.has(target.rowId)) {
+        savingRef.current = false;
+        await onSaveRef.current(false);
+        savingRef.current = true;
+      }
+      const result = await transferInventoryItem(target.rowId, input.quantity, input.locationId);
+      // Apply both sides locally and mark them saved so autosave doesn't
+      // resend what the server already wrote. No undo snapshot: rolling the
+      // grid back would replay as plain qty edits, not a reverse transfer.
+      const touched: InventoryRow[] = [];
+      setRows((prev) => {
+        const source = prev.find((r) => r.id === target.rowId);
+        let next = prev.map((row) => {
+          if (row.id === result.sourceItemId) {
+            const updated = { ...row, values: { ...row.values, quantity: result.sourceQuantity } };
+            touched.push(updated);
+            return updated;
+          }
+          if (row.id === result.destItemId) {
+            const updated = { ...row, values: { ...row.values, quantity: result.destQuantity } };
+            touched.push(updated);
+            return updated;
+          }
+          return row;
+        });
+        if (source && !prev.some((r) => r.id === result.destItemId)) {
+          const values: InventoryRow["values"] = { ...source.values, quantity: result.destQuantity };
+          delete values.orderedAt;
+          delete values.reorderCheckedAt;
+          const created: InventoryRow = {
+            id: result.destItemId,
+            position: source.position,
+            locationId: result.destLocationId,
+            values,
+            createdAt: new Date().toISOString(),
+          };
+          touched.push(created);
+          next = [...next, created];
+        }
+        rowsRef.current = next;
+        return next;
+      });
+      const nextSnap = new Map(lastSavedSnapshotRef.current);
+      for (const row of touched) nextSnap.set(row.id, serializeRowForSnapshot(row, row.position));
+      lastSavedSnapshotRef.current = nextSnap;
+      setSelectedRowIds(new Set());
+      setTransferTarget(null);
+      toast.success(`Transferred ${input.quantity} ${target.itemName}`);
+    } catch (err) {
+      // Queued for replay. The new lot's id comes from the server, so the
+      // grid picks both sides up from the change feed once it lands.
+      if (isMutationQueuedError(err)) {
+        setTransferTarget(null);
+        toast.info(err.message);
+        return;
+      }
+      toast.error(err instanceof Error ? err.message : "Failed to transfer item");
+    } finally {
+      savingRef.current = false;
+      setSaving(false);
+    }
+  };
+
   // ── Display helpers ──
   const getReadOnlyCellText = (column: InventoryColumn, value: unknown): string => {
     if (column.type === "date") {
@@ -880,6 +1045,33 @@ export function useInventoryData({
   const serializeRowForSnapshot = (row: InventoryRow, position: number) =>
     JSON.stringify({ values: row.values, position });
 
+  /** Ids of rows with nothing waiting to save: they match their snapshot at
+   *  their current index. */
+  const findCleanRowIds = (currentRows: InventoryRow[], snap: Map<string, string>) => {
+    const clean = new Set<string>();
+    currentRows.forEach((row, i) => {
+      if (snap.get(row.id) === serializeRowForSnapshot(row, i)) clean.add(row.id);
+    });
+    return clean;
+  };
+
+  /** Re-snapshot after rows were inserted or removed by something other than
+   *  the user. The snapshot includes the index, so without this every row
+   *  below the change would look moved and autosave would resend it.
+   *  `savedAs` overrides what a row's saved state is (e.g. the server copy
+   *  under a merge the user still has to save). */
+  const reindexSnapshot = (
+    nextRows: InventoryRow[],
+    snap: Map<string, string>,
+    clean: Set<string>,
+    savedAs: Map<string, InventoryRow> = new Map(),
+  ) => {
+    nextRows.forEach((row, i) => {
+      const saved = savedAs.get(row.id) ?? (clean.has(row.id) ? row : null);
+      if (saved) snap.set(row.id, serializeRowForSnapshot(saved, i));
+    });
+  };
+
   /** Return rows that differ from the last-saved snapshot, with positions set.
    *  Skips new blank rows (no createdAt, all values at defaults) -- those
    *  shouldn't auto-save until the user has filled something in. */
@@ -910,6 +1102,210 @@ export function useInventoryData({
     return changed;
   };
 
+  /** Adopt the server versions a save returned, so the next save of those
+   *  rows isn't mistaken for a stale write. Values are left alone — the user
+   *  may have kept typing while the request was in flight. */
+  const applySavedVersions = (versions: Record<string, string>) => {
+    if (Object.keys(versions).length === 0) return;
+    setRows((prev) => {
+      let changed = false;
+      const next = prev.map((row) => {
+        const version = versions[row.id];
+        if (!version || row.updatedAt === version) return row;
+        changed = true;
+        return { ...row, updatedAt: version };
+      });
+      if (!changed) return prev;
+      rowsRef.current = next;
+      return next;
+    });
+  };
+
+  /**
+   * Take in rows a save rejected as stale. Each conflicted row is reset to the
+   * server's copy (so autosave can't clobber it), then:
+   *  - "merge": three-way merge against the last-saved snapshot. Fields only
+   *    one side touched merge silently and the row re-saves on the next
+   *    autosave; fields both sides changed queue the merge dialog.
+   *  - "stash": same, for a replayed offline save — there's no reliable base,
+   *    so every differing field is the user's call.
+   *  - "discard": the user's edit is dropped (retire / adjust, where replaying
+   *    a quantity computed from stale stock would record the wrong delta).
+   * Rows someone else deleted leave the grid and queue a restore-or-discard.
+   */
+  const receiveSaveConflicts = (conflicts: InventorySaveConflict[], mode: "merge" | "stash" | "discard") => {
+    const byId = new Map(conflicts.map((c) => [c.id, c]));
+    const snap = new Map(lastSavedSnapshotRef.current);
+    const clean = findCleanRowIds(rowsRef.current, snap);
+    const savedAs = new Map<string, InventoryRow>();
+    const queued: SaveConflictState[] = [];
+    const mergedNames: string[] = [];
+    const resaveIds: string[] = [];
+    const settledIds = new Set<string>();
+
+    const nextRows = rowsRef.current.flatMap((row) => {
+      const conflict = byId.get(row.id);
+      if (!conflict) return [row];
+      const yours = mode === "stash" ? conflict.yours.values : row.values;
+      if (!conflict.server) {
+        snap.delete(row.id);
+        settledIds.add(row.id);
+        if (mode !== "discard") {
+          queued.push({
+            rowId: row.id,
+            itemName: conflict.itemName,
+            deleted: true,
+            fields: [],
+            yourValues: yours,
+            yourLocationId: conflict.yours.locationId ?? row.locationId ?? null,
+          });
+        }
+        return [];
+      }
+      const serverRow: InventoryRow = {
+        ...row,
+        values: conflict.server.values,
+        locationId: conflict.server.locationId ?? row.locationId,
+        updatedAt: conflict.server.updatedAt,
+      };
+      savedAs.set(row.id, serverRow);
+      settledIds.add(row.id);
+      if (mode === "discard") return [serverRow];
+
+      let base: InventoryRow["values"] | null = null;
+      if (mode === "merge") {
+        try {
+          base = (JSON.parse(lastSavedSnapshotRef.current.get(row.id) ?? "null") as { values?: InventoryRow["values"] } | null)?.values ?? null;
+        } catch {
+          base = null;
+        }
+      }
+      const { merged, fields } = mergeConflictingValues(base, conflict.server.values, yours);
+      if (fields.length === 0) return [serverRow];
+      if (fields.some((f) => f.auto === null)) {
+        queued.push({
+          rowId: row.id,
+          itemName: conflict.itemName,
+          deleted: false,
+          fields,
+          yourValues: yours,
+          yourLocationId: row.locationId ?? null,
+        });
+        return [serverRow];
+      }
+      // Only the version moved (e.g. a transfer this user just made) — resend
+      // quietly. Otherwise say that someone else's edit was folded in.
+      if (base && mergeConflictingValues(base, conflict.server.values, base).fields.length > 0) {
+        mergedNames.push(conflict.itemName);
+      }
+      resaveIds.push(row.id);
+      return [{ ...serverRow, values: merged }];
+    });
+
+    reindexSnapshot(nextRows, snap, clean, savedAs);
+    setRows(nextRows);
+    rowsRef.current = nextRows;
+    lastSavedSnapshotRef.current = snap;
+    setDirtyRowIds((prev) => {
+      const next = new Set(prev);
+      for (const id of settledIds) next.delete(id);
+      for (const id of resaveIds) next.add(id);
+      dirtyRowIdsRef.current = next;
+      return next;
+    });
+    // Rolling back past the reset would resurrect the stale copy.
+    setUndoStack([]);
+    setRedoStack([]);
+    if (queued.length > 0) {
+      setSaveConflicts((prev) => [...prev.filter((c) => !byId.has(c.rowId)), ...queued]);
+    }
+    if (mergedNames.length > 0) {
+      toast.info(
+        mergedNames.length === 1
+          ? `Someone else also edited "${mergedNames[0]}" — their changes were merged with yours.`
+          : `Someone else also edited ${mergedNames.length} of these items — their changes were merged with yours.`,
+      );
+    }
+  };
+
+  /** Close the current merge-dialog entry. `choices` maps each field to
+   *  "server" or "yours"; fields left out keep the server's value, which the
+   *  grid already shows. Picking any of yours re-saves the row. */
+  const onResolveSaveConflict = (choices: Record<string, "server" | "yours">) => {
+    const conflict = saveConflicts[0];
+    if (!conflict) return;
+    setSaveConflicts((prev) => prev.slice(1));
+    const picks = conflict.fields.filter((f) => choices[f.key] === "yours");
+    if (conflict.deleted || picks.length === 0) return;
+    setRows((prev) => {
+      const next = prev.map((row) => {
+        if (row.id !== conflict.rowId) return row;
+        const values = { ...row.values };
+        for (const f of picks) {
+          if (f.yours === null) delete values[f.key];
+          else values[f.key] = f.yours;
+        }
+        return { ...row, values };
+      });
+      rowsRef.current = next;
+      return next;
+    });
+    markRowsDirty([conflict.rowId]);
+  };
+
+  /** Answer for a row someone else deleted: put it back with this user's
+   *  values (saved as a new row), or let the delete stand. */
+  const onResolveDeletedConflict = (restore: boolean) => {
+    const conflict = saveConflicts[0];
+    if (!conflict) return;
+    setSaveConflicts((prev) => prev.slice(1));
+    if (!restore) return;
+    setRows((prev) => {
+      const restored: InventoryRow = {
+        id: conflict.rowId,
+        position: prev.length,
+        locationId: conflict.yourLocationId ?? undefined,
+        values: { ...conflict.yourValues },
+      };
+      const next = [...prev.filter((r) => r.id !== conflict.rowId), restored];
+      rowsRef.current = next;
+      return next;
+    });
+    markRowsDirty([conflict.rowId]);
+  };
+
+  /** Fold other writers' changes from the change feed into the grid. Rows with
+   *  anything unsaved (edited, open in an editor, or pending delete) are left
+   *  alone; if the same row changed remotely, their save comes back as a
+   *  conflict and goes through the merge dialog. */
+  const applyInventoryChanges = (changes: InventoryChanges) => {
+    if (changes.locations) setLocations(changes.locations);
+    if (changes.columns) {
+      setColumns([...changes.columns].sort((a, b) => Number(a.sortOrder ?? 0) - Number(b.sortOrder ?? 0)));
+    }
+    const current = rowsRef.current;
+    const snap = new Map(lastSavedSnapshotRef.current);
+    const clean = findCleanRowIds(current, snap);
+    const keep = new Set<string>(deletedRowIdsRef.current);
+    for (const row of current) if (!clean.has(row.id)) keep.add(row.id);
+    if (editingRowIdRef.current) keep.add(editingRowIdRef.current);
+    if (recentlyEditedRowIdRef.current) keep.add(recentlyEditedRowIdRef.current);
+
+    const nextRows = mergeInventoryChanges(current, changes, keep);
+    if (nextRows === current) return;
+    for (const item of changes.items) if (!keep.has(item.id)) clean.add(item.id);
+    for (const id of changes.deletedIds) if (!keep.has(id)) snap.delete(id);
+    reindexSnapshot(nextRows, snap, clean);
+    setRows(nextRows);
+    rowsRef.current = nextRows;
+    lastSavedSnapshotRef.current = snap;
+    setSelectedRowIds((prev) => {
+      const live = new Set(nextRows.map((r) => r.id));
+      const next = new Set(Array.from(prev).filter((id) => live.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  };
+
   /** Diff current rows against last-saved snapshot, save any changes + deletions.
    *  No dependency on dirtyRowIds for detecting edits -- purely snapshot-based. */
   const onSave = async (silent = false) => {
@@ -956,11 +1352,23 @@ export function useInventoryData({
     savingRef.current = true;
     setSaving(true);
     try {
-      await saveInventoryItems(rowsToSave, pendingDeleted);
+      // A conflict is a partial success: every other row landed, the stale
+      // ones are handed to receiveSaveConflicts once the bookkeeping is done.
+      let versions: Record<string, string>;
+      let conflicts: InventorySaveConflict[] = [];
+      try {
+        ({ versions } = await saveInventoryItems(rowsToSave, pendingDeleted));
+      } catch (err) {
+        if (!isSaveConflictError(err)) throw err;
+        versions = err.versions;
+        conflicts = err.conflicts;
+      }
+      const conflictIds = new Set(conflicts.map((c) => c.id));
+      const savedRows = changedRows.filter((r) => !conflictIds.has(r.id));
 
       // Update snapshot to reflect what was just saved
       const nextSnap = new Map(snap);
-      for (const row of changedRows) {
+      for (const row of savedRows) {
         nextSnap.set(row.id, serializeRowForSnapshot(row, row.position));
       }
       for (const id of pendingDeleted) {
@@ -999,8 +1407,10 @@ export function useInventoryData({
         });
       }
 
+      applySavedVersions(versions);
+
       // Also clear dirtyRowIds for the saved rows (keeps UI indicators accurate)
-      const savedIds = new Set(changedRows.map((r) => r.id));
+      const savedIds = new Set(savedRows.map((r) => r.id));
       setDirtyRowIds((prev) => {
         const next = new Set(prev);
         for (const id of savedIds) next.delete(id);
@@ -1013,8 +1423,12 @@ export function useInventoryData({
       pruningRef.current = false;
       // Save reached the server — drop any durable stash from a prior failure.
       clearPendingSave();
-      setShowSaved(true);
-      window.setTimeout(() => setShowSaved(false), 2000);
+      if (conflicts.length > 0) {
+        receiveSaveConflicts(conflicts, "merge");
+      } else {
+        setShowSaved(true);
+        window.setTimeout(() => setShowSaved(false), 2000);
+      }
     } catch (err: any) {
       if (isDeleteBlockedError(err)) {
         // The server rejects deletes for any row that still has stock on hand.
@@ -1180,6 +1594,38 @@ export function useInventoryData({
     }
   };
 
+  /** Append rows fetched after the bootstrap, skipping any already loaded, and
+   *  snapshot them so autosave doesn't flag them dirty. */
+  const appendLoadedRows = (loaded: InventoryRow[]) => {
+    setRows((prev) => {
+      const known = new Set(prev.map((r) => r.id));
+      const fresh = loaded.filter((r) => !known.has(r.id));
+      if (fresh.length === 0) return prev;
+      const next = [...prev, ...fresh];
+      rowsRef.current = next;
+      const snap = lastSavedSnapshotRef.current;
+      for (let i = 0; i < fresh.length; i++) {
+        const row = fresh[i];
+        snap.set(row.id, JSON.stringify({ values: row.values, position: prev.length + i }));
+      }
+      return next;
+    });
+  };
+
+  /** Fill in the current view while the remaining pages are still loading:
+   *  ask the server for the view's first page (GET /inventory/items/query)
+   *  and merge in rows that haven't arrived yet. No-op once everything is
+   *  loaded, since the grid then filters locally. */
+  const mergeQueriedRows = async (query: InventoryItemQuery) => {
+    if (!loadingRemaining) return;
+    try {
+      const page = await queryInventoryItems({ ...query, limit: VIEW_PREFETCH_LIMIT });
+      appendLoadedRows(page.items);
+    } catch {
+      // The background pages still bring these rows in.
+    }
+  };
+
   // ── Effects ──
 
   // Bootstrap loading with provisioning retry + paginated fetch of remaining items
@@ -1215,35 +1661,26 @@ export function useInventoryData({
         }
       }
 
-      // 2. Fetch remaining pages in the background
+      // 2. Show the first page, and fetch the rest in the background
+      if (!cancelled) setLoading(false);
       if (bootstrap?.nextToken) {
+        setLoadingRemaining(true);
         let token: string | null = bootstrap.nextToken;
         while (token && !cancelled) {
           try {
             const page = await loadInventoryItems(token);
             if (cancelled) return;
             token = page.nextToken;
-            // Append new rows and update snapshot so autosave doesn't flag them dirty
-            setRows((prev) => {
-              const next = [...prev, ...page.items];
-              rowsRef.current = next;
-              const snap = lastSavedSnapshotRef.current;
-              for (let i = 0; i < page.items.length; i++) {
-                const row = page.items[i];
-                snap.set(row.id, JSON.stringify({ values: row.values, position: prev.length + i }));
-              }
-              return next;
-            });
+            appendLoadedRows(page.items);
           } catch {
             // Non-critical: user has first page, remaining pages failed
             console.warn("Failed to load remaining inventory pages");
             break;
           }
         }
+        if (!cancelled) setLoadingRemaining(false);
       }
 
-      if (!cancelled) setLoading(false);
-
       // After load settles, replay any save stranded by a prior offline session.
       // rowsRef now holds all pages, so the genuine-diff check is accurate.
       if (!cancelled && bootstrap) {
@@ -1257,6 +1694,79 @@ export function useInventoryData({
     };
   }, []);
 
+  // Change feed: pick up other users' edits without a reload. Polls while the
+  // tab is visible and catches up as soon as it's focused again.
+  useEffect(() => {
+    if (loading) return;
+    let cancelled = false;
+    let inFlight = false;
+    const poll = async () => {
+      const since = changesCursorRef.current;
+      if (!since || inFlight || savingRef.current || document.visibilityState === "hidden") return;
+      inFlight = true;
+      try {
+        const changes = await loadInventoryChanges(since);
+        if (cancelled) return;
+        if (!changes) {
+          // Asleep too long to replay. Reload outright when nothing local is
+          // unsaved and one page holds everything; otherwise stop polling
+          // rather than drop edits or rows.
+          const current = rowsRef.current;
+          const allClean =
+            findCleanRowIds(current, lastSavedSnapshotRef.current).size === current.length &&
+            deletedRowIdsRef.current.size === 0;
+          const fresh = allClean ? await loadInventoryBootstrap() : null;
+          if (cancelled) return;
+          if (fresh && !fresh.nextToken) applyBootstrap(fresh);
+          else changesCursorRef.current = null;
+          return;
+        }
+        // A save that started meanwhile isn't in the snapshot yet, so merging
+        // now could roll it back. The next tick replays the same window.
+        if (savingRef.current) return;
+        changesCursorRef.current = changes.cursor;
+        applyInventoryChanges(changes);
+      } catch {
+        // Transient; the next tick retries from the same cursor.
+      } finally {
+        inFlight = false;
+      }
+    };
+    const interval = window.setInterval(() => void poll(), CHANGES_POLL_MS);
+    const onFocus = () => void poll();
+    window.addEventListener("focus", onFocus);
+    document.addEventListener("visibilitychange", onFocus);
+    return () => {
+      cancelled = true;
+      window.clearInterval(interval);
+      window.removeEventListener("focus", onFocus);
+      document.removeEventListener("visibilitychange", onFocus);
+    };
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [loading]);
+
+  // Showing the offline copy: swap in a live load as soon as the connection
+  // is back. Nothing can be dirty — the grid is read-only meanwhile.
+  useEffect(() => {
+    if (offlineSince === null) return;
+    const onOnline = async () => {
+      try {
+        const fresh = await loadInventoryBootstrap();
+        if (fresh.offlineSince !== null) return;
+        if (fresh.nextToken) {
+          toast.info("You're back online. Reload to see the latest inventory.");
+          return;
+        }
+        applyBootstrap(fresh);
+      } catch {
+        // Still unreachable; the next online event retries.
+      }
+    };
+    window.addEventListener("online", onOnline);
+    return () => window.removeEventListener("online", onOnline);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [offlineSince]);
+
   // Loading message rotation
   useEffect(() => {
     if (!loading) return;
@@ -1575,10 +2085,22 @@ export function useInventoryData({
     savingRef.current = true;
     setSaving(true);
     try {
-      await saveInventoryItems([...retiredRowsToSave, ...stubsToCreate], [], {
-        retireMetadata,
-        skeletonRowIds: stubsToCreate.map((s) => s.id),
-      });
+      let versions: Record<string, string> = {};
+      let queued = false;
+      try {
+        ({ versions } = await saveInventoryItems([...retiredRowsToSave, ...stubsToCreate], [], {
+          retireMetadata,
+          skeletonRowIds: stubsToCreate.map((s) => s.id),
+          offlineLabel: "Retire items",
+        }));
+      } catch (err) {
+        // Queued for replay: treat the rows as saved so autosave doesn't send
+        // the same retire again as a plain edit.
+        if (!isMutationQueuedError(err)) throw err;
+        toast.info(err.message);
+        queued = true;
+      }
+      applySavedVersions(versions);
       const snap = lastSavedSnapshotRef.current;
       const nextSnap = new Map(snap);
       for (const row of retiredRowsToSave) {
@@ -1595,9 +2117,19 @@ export function useInventoryData({
         dirtyRowIdsRef.current = next;
         return next;
       });
-      setShowSaved(true);
-      window.setTimeout(() => setShowSaved(false), 2000);
+      if (!queued) {
+        setShowSaved(true);
+        window.setTimeout(() => setShowSaved(false), 2000);
+      }
     } catch (err: any) {
+      if (isSaveConflictError(err)) {
+        // The retire quantity was read from a stale row. Show current stock
+        // and let the user retire again rather than recording a wrong delta.
+        applySavedVersions(err.versions);
+        receiveSaveConflicts(err.conflicts, "discard");
+        toast.error("Some of these items changed on another device. Check the current quantity and retire again.");
+        return;
+      }
       toast.error(err?.message ?? "Failed to retire items");
     } finally {
       savingRef.current = false;
@@ -1667,14 +2199,25 @@ export function useInventoryData({
     savingRef.current = true;
     setSaving(true);
     try {
-      await saveInventoryItems([updatedRow], [], {
-        adjustMetadata: {
-          [target.rowId]: {
-            reason: input.reason,
-            ...(input.notes ? { notes: input.notes } : {}),
+      let versions: Record<string, string> = {};
+      let queued = false;
+      try {
+        ({ versions } = await saveInventoryItems([updatedRow], [], {
+          adjustMetadata: {
+            [target.rowId]: {
+              reason: input.reason,
+              ...(input.notes ? { notes: input.notes } : {}),
+            },
           },
-        },
-      });
+          offlineLabel: "Adjust quantity",
+        }));
+      } catch (err) {
+        // Queued for replay — same handling as a queued retire.
+        if (!isMutationQueuedError(err)) throw err;
+        toast.info(err.message);
+        queued = true;
+      }
+      applySavedVersions(versions);
       const snap = lastSavedSnapshotRef.current;
       const nextSnap = new Map(snap);
       nextSnap.set(updatedRow.id, serializeRowForSnapshot(updatedRow, updatedRow.position));
@@ -1685,10 +2228,18 @@ export function useInventoryData({
         dirtyRowIdsRef.current = next;
         return next;
       });
-      setShowSaved(true);
-      window.setTimeout(() => setShowSaved(false), 2000);
+      if (!queued) {
+        setShowSaved(true);
+        window.setTimeout(() => setShowSaved(false), 2000);
+      }
       setAdjustTarget(null);
     } catch (err: any) {
+      if (isSaveConflictError(err)) {
+        receiveSaveConflicts(err.conflicts, "discard");
+        setAdjustTarget(null);
+        toast.error(`"${target.itemName}" changed on another device. Check the current count and adjust again.`);
+        return;
+      }
       toast.error(err?.message ?? "Failed to adjust quantity");
     } finally {
       savingRef.current = false;
@@ -1708,6 +2259,8 @@ export function useInventoryData({
   return {
     // Loading
     loading,
+    loadingRemaining,
+    mergeQueriedRows,
     loadError,
     loadingMessage,
     // Org
@@ -1764,6 +2317,8 @@ export function useInventoryData({
     // surfaces Amount/Unit fields.
     tracksUnits,
     setTracksUnits,
+    // Expiration warning window — read by the Expiring tab + mobile cards.
+    expirationSettings,
     // Vendor pricing (1g) — Map<itemId, Map<vendorLower, entry>>. Item-detail
     // modal reads from this; on save it patches the map directly so the next
     // render reflects the change without a bootstrap roundtrip.
@@ -1780,6 +2335,15 @@ export function useInventoryData({
     onRequestAdjustQuantity,
     onConfirmAdjustQuantity,
     onCancelAdjustQuantity,
+    // Partial-quantity transfer between locations
+    transferTarget,
+    onRequestTransferSelectedRow,
+    onConfirmTransfer,
+    onCancelTransfer,
+    // Stale-save conflicts awaiting a per-cell merge (first one is shown)
+    saveConflicts,
+    onResolveSaveConflict,
+    onResolveDeletedConflict,
     // Refs
     importInputRef,
     selectAllCheckboxRef,
@@ -10,6 +10,7 @@ import type {
 import type { InventoryLocation } from "../../../lib/inventoryApi";
 import { locationsInScope, locationPath } from "../../../lib/locationTree";
 import { ROWS_PER_PAGE } from "../inventoryTypes";
+import { isExpiringSoon, resolveExpirationWarningDays, type ExpirationSettings } from "../../../lib/expiration";
 
 interface UseInventoryFiltersParams {
   rows: InventoryRow[];
@@ -41,6 +42,9 @@ interface UseInventoryFiltersParams {
    *  power the "Missing pricing" filter — items with no entry in this map
    *  have no recorded vendor history at all. */
   vendorPricing: Map<string, Map<string, unknown>>;
+  /** Org "expiring soon" configuration. Each row's Expiring Soon cutoff is
+   *  resolved from it (per-item column → column rule → org default). */
+  expirationSettings: ExpirationSettings;
 }
 
 /** Sentinel id for the "All Locations" view. Empty string keeps it
@@ -154,12 +158,13 @@ export function useInventoryFilters({
   editingOriginalIndexRef,
   sortEpoch,
   vendorPricing,
+  expirationSettings,
 }: UseInventoryFiltersParams) {
   // ── Tab state ──
   // "retired" and "pendingSubmissions" were previously stored here.
   // Retired items are now only visible via the Activity page.
   // Pending submissions moved to the Activity page too.
-  const VALID_TABS: ActiveTab[] = ["all", "expired", "exp30", "exp60", "lowStock", "missingPricing", "logUsage"];
+  const VALID_TABS: ActiveTab[] = ["all", "expired", "exp30", "exp60", "lowStock", "missingPricing", "logUsage", "cycleCount", "asOf", "reorderPoints"];
   const [activeTab, setActiveTabInternal] = useState<ActiveTab>(() => {
     if (initialFilter) return initialFilter;
     try {
@@ -185,7 +190,8 @@ export function useInventoryFilters({
   };
 
   const activeFilter: InventoryFilter =
-    activeTab === "logUsage" ? "all" : activeTab;
+    activeTab === "logUsage" || activeTab === "cycleCount" || activeTab === "asOf" || activeTab === "reorderPoints"
+      ? "all" : activeTab;
   const setActiveFilter = (f: InventoryFilter) => setActiveTabRaw(f);
 
   // When navigating from dashboard with a filter, sync the tab
@@ -384,6 +390,10 @@ export function useInventoryFilters({
     return name ? `${row.locationId}::${name}` : `id:${row.id}`;
   };
 
+  /** This row's "expiring soon" window in days. */
+  const expirationWarningDaysFor = (row: InventoryRow): number =>
+    resolveExpirationWarningDays(row.values, expirationSettings);
+
   const tabCounts = useMemo(() => {
     let expired = 0;
     let exp30 = 0;
@@ -404,7 +414,7 @@ export function useInventoryFilters({
       // Today (daysUntil === 0) counts as expired: by end-of-day the item is past.
       const isExpired = !isRetired && daysUntil !== null && daysUntil <= 0;
       if (isExpired) expired++;
-      if (!isRetired && daysUntil !== null && daysUntil > 0 && daysUntil <= 30) exp30++;
+      if (!isRetired && isExpiringSoon(row.values, expirationSettings)) exp30++;
       if (!isRetired && daysUntil !== null && daysUntil > 0 && daysUntil <= 60) exp60++;
       // Retired rows are hidden from the inventory grid (see filteredRows), so
       // they shouldn't inflate the Low Stock badge count either — the Reorder
@@ -424,7 +434,7 @@ export function useInventoryFilters({
       if (!isRetired && !hasAnyPricing) missingPricing++;
     }
     return { expired, exp30, exp60, lowStock: lowItemKeys.size, retired, missingPricing };
-  }, [rows, effectiveLocationId, vendorPricing, lowStockItemKeys]);
+  }, [rows, effectiveLocationId, vendorPricing, lowStockItemKeys, expirationSettings]);
 
   // ── THE BIG filteredRows memo ──
   const filteredRows = useMemo(() => {
@@ -485,7 +495,9 @@ export function useInventoryFilters({
           passesTab = rowHasMinQuantity(row) && lowStockItemKeys.has(lowStockKeyForRow(row));
         }
         if (activeFilter === "expired") passesTab = daysUntil !== null && daysUntil <= 0;
-        if (activeFilter === "exp30") passesTab = daysUntil !== null && daysUntil > 0 && daysUntil <= 30;
+        // "exp30" is the Expiring Soon tab — the key predates configurable
+        // windows; the cutoff is now per row.
+        if (activeFilter === "exp30") passesTab = isExpiringSoon(row.values, expirationSettings);
         if (activeFilter === "exp60") passesTab = daysUntil !== null && daysUntil > 0 && daysUntil <= 60;
         if (activeFilter === "missingPricing") {
           passesTab = (vendorPricing.get(row.id)?.size ?? 0) === 0;
@@ -632,6 +644,7 @@ export function useInventoryFilters({
     sortEpoch,
     vendorPricing,
     lowStockItemKeys,
+    expirationSettings,
   ]);
 
   const filteredRowIds = useMemo(
@@ -724,6 +737,7 @@ export function useInventoryFilters({
     setSelectedRowIds,
     // Helpers exported for use in data hook / components
     getDaysUntilExpiration,
+    expirationWarningDaysFor,
     toDateInputValue,
     normalizeDateForSearch,
   };
@@ -5,9 +5,10 @@ export type {
   InventoryLocation,
   InventoryRow,
 } from "../../lib/inventoryApi";
+import type { ScanTarget } from "../../lib/scanLinks";
 
 export type InventoryFilter = "all" | "expired" | "exp30" | "exp60" | "lowStock" | "missingPricing";
-export type ActiveTab = InventoryFilter | "logUsage";
+export type ActiveTab = InventoryFilter | "logUsage" | "cycleCount" | "asOf" | "reorderPoints";
 export type SortDirection = "asc" | "desc";
 
 export type InventoryInitialAction = "import-csv" | "paste-import" | "download-template";
@@ -25,6 +26,9 @@ export interface InventoryPageProps {
   initialSearch?: string;
   initialEditCell?: { rowId: string; columnKey: string };
   initialAction?: InventoryInitialAction;
+  /** Label deep link (`?scan=`) the app was opened with — resolved once rows
+   *  load, exactly like an in-app scan. */
+  initialScan?: ScanTarget;
   /** Currently-scoped location id. Empty string means "All Locations". `null`
    *  means "no preference saved" — the page picks the first location. */
   selectedLocationId: string | null;
@@ -58,8 +62,32 @@ export type InventorySnapshot = {
   selectedRowId: string | null;
 };
 
-export const NUMBER_COLUMN_KEYS = new Set(["quantity", "minQuantity"]);
+/** One field that differs between the server's copy of a row and the user's
+ *  unsaved copy. `auto` is set when only one side actually changed it since
+ *  the row was loaded, so that side wins without asking. */
+export type SaveConflictField = {
+  key: string;
+  server: string | number | boolean | null;
+  yours: string | number | boolean | null;
+  auto: "server" | "yours" | null;
+};
+
+/** A row whose save was rejected as stale, queued for the merge dialog. */
+export type SaveConflictState = {
+  rowId: string;
+  itemName: string;
+  /** True when someone else deleted the row; the choice is restore or discard. */
+  deleted: boolean;
+  fields: SaveConflictField[];
+  /** The user's full unsaved values, kept for a restore. */
+  yourValues: import("../../lib/inventoryApi").InventoryRow["values"];
+  yourLocationId: string | null;
+};
+
+export const NUMBER_COLUMN_KEYS = new Set(["quantity", "minQuantity", "parQuantity"]);
 export const AUTOSAVE_DELAY_MS = 3000;
+/** How often an open grid polls the change feed for other users' edits. */
+export const CHANGES_POLL_MS = 15000;
 export const ROWS_PER_PAGE = 50;
 export const UNDO_HISTORY_LIMIT = 80;
 export const COLUMN_WIDTHS_STORAGE_KEY_PREFIX = "wickops.inventory.columnWidths:";
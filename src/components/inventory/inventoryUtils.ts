@@ -1,4 +1,4 @@
-import type { InventoryColumn, InventoryRow } from "./inventoryTypes";
+import type { InventoryColumn, InventoryRow, SaveConflictField } from "./inventoryTypes";
 
 export const normalizeHeaderKey = (value: string): string => value.trim().toLowerCase();
 
@@ -65,3 +65,50 @@ export const groupRowsByParent = (rows: InventoryRow[]): Map<string, InventoryRo
   }
   return out;
 };
+
+/** Values the server maintains (lot links, retire/order markers). A merge
+ *  always takes the server's copy of these rather than asking the user. */
+const SYSTEM_VALUE_KEYS = new Set([
+  "parentItemId",
+  "retiredAt",
+  "retiredQty",
+  "retirementReason",
+  "orderedAt",
+  "reorderCheckedAt",
+]);
+
+const sameCell = (a: unknown, b: unknown): boolean => {
+  const norm = (v: unknown) => (v === null || v === undefined || v === "" ? "" : String(v));
+  return norm(a) === norm(b);
+};
+
+/**
+ * Three-way merge of a row whose save came back as a conflict. `base` is the
+ * copy the user started editing from (null when unknown), `server` the current
+ * stored copy, `yours` the unsaved copy. Fields only one side changed merge
+ * automatically; fields both sides changed differently are left for the user
+ * (`auto: null`). `merged` applies every automatic choice and keeps the
+ * server's value for the undecided ones.
+ */
+export const mergeConflictingValues = (
+  base: InventoryRow["values"] | null,
+  server: InventoryRow["values"],
+  yours: InventoryRow["values"],
+): { merged: InventoryRow["values"]; fields: SaveConflictField[] } => {
+  const merged: InventoryRow["values"] = { ...server };
+  const fields: SaveConflictField[] = [];
+  const keys = new Set([...Object.keys(server), ...Object.keys(yours)]);
+  for (const key of keys) {
+    if (SYSTEM_VALUE_KEYS.has(key)) continue;
+    const serverValue = server[key] ?? null;
+    const yourValue = yours[key] ?? null;
+    if (sameCell(serverValue, yourValue)) continue;
+    const baseValue = base ? base[key] ?? null : undefined;
+    let auto: SaveConflictField["auto"] = null;
+    if (base && sameCell(baseValue, yourValue)) auto = "server";
+    else if (base && sameCell(baseValue, serverValue)) auto = "yours";
+    if (auto === "yours") merged[key] = yourValue;
+    fields.push({ key, server: serverValue, yours: yourValue, auto });
+  }
+  return { merged, fields };
+};
@@ -0,0 +1,219 @@
+import { useEffect, useRef, useState } from "react";
+import { parseScanPayload, type ScanTarget } from "../../lib/scanLinks";
+
+// BarcodeDetector ships in Chromium/Android and Safari 17+ but isn't in the
+// TS DOM lib yet — declare just the surface we use.
+type DetectedBarcode = { rawValue: string };
+type BarcodeDetectorInstance = { detect: (source: HTMLVideoElement) => Promise<DetectedBarcode[]> };
+type BarcodeDetectorCtor = new (options?: { formats?: string[] }) => BarcodeDetectorInstance;
+
+const getBarcodeDetector = (): BarcodeDetectorCtor | null =>
+  (window as unknown as { BarcodeDetector?: BarcodeDetectorCtor }).BarcodeDetector ?? null;
+
+const hasCamera = (): boolean => typeof navigator.mediaDevices?.getUserMedia === "function";
+
+const SCAN_INTERVAL_MS = 250;
+
+// Retail/case symbologies for manufacturer barcodes, on top of our QR labels.
+const PRODUCT_BARCODE_FORMATS = ["ean_13", "ean_8", "upc_a", "upc_e", "code_128", "itf"];
+
+export type ScanDialogProps = {
+  /** Dialog heading, e.g. "Scan to find" or "Scan to log usage". */
+  title: string;
+  /** Resolve a decoded label. Return an error message to keep the dialog
+   *  open (e.g. the item was deleted); return null once handled. */
+  onScan: (target: ScanTarget) => string | null;
+  /** When set, the scanner also reads product barcodes and hands any
+   *  payload that isn't a WickOps label here, with the same return contract
+   *  as `onScan`. */
+  onBarcode?: (code: string) => string | null;
+  onClose: () => void;
+};
+
+/**
+ * Camera scanner for WickOps QR labels. Uses the browser's BarcodeDetector on
+ * the rear camera when available; the text field below always works too —
+ * for browsers without a detector, and for USB/Bluetooth scanners that type
+ * the payload followed by Enter.
+ */
+export function ScanDialog({ title, onScan, onBarcode, onClose }: ScanDialogProps) {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const [manualText, setManualText] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [cameraState, setCameraState] = useState<"starting" | "live" | "unavailable">(
+    getBarcodeDetector() && hasCamera() ? "starting" : "unavailable",
+  );
+  const titleId = "scan-dialog-title";
+  // Fixed for the dialog's lifetime — the detector is built once.
+  const formatsRef = useRef(onBarcode ? ["qr_code", ...PRODUCT_BARCODE_FORMATS] : ["qr_code"]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    document.addEventListener("keydown", onKey);
+    return () => document.removeEventListener("keydown", onKey);
+  }, [onClose]);
+
+  // Shared by camera and text input. Unknown payloads (a product barcode, a
+  // random URL) report and keep scanning.
+  const handlePayload = (text: string): boolean => {
+    const target = parseScanPayload(text);
+    if (!target && onBarcode) {
+      const message = onBarcode(text.trim());
+      setError(message);
+      return message === null;
+    }
+    if (!target) {
+      setError("That code isn't a WickOps label.");
+      return false;
+    }
+    const message = onScan(target);
+    setError(message);
+    return message === null;
+  };
+  // The camera loop outlives renders; read the latest handler through a ref.
+  const handlePayloadRef = useRef(handlePayload);
+  useEffect(() => {
+    handlePayloadRef.current = handlePayload;
+  });
+
+  useEffect(() => {
+    const Detector = getBarcodeDetector();
+    if (!Detector || !hasCamera()) {
+      requestAnimationFrame(() => inputRef.current?.focus());
+      return;
+    }
+    let cancelled = false;
+    let stream: MediaStream | null = null;
+    let timer: number | undefined;
+    let lastRaw = "";
+
+    const tick = async (detector: BarcodeDetectorInstance) => {
+      const video = videoRef.current;
+      if (cancelled || !video) return;
+      try {
+        if (video.readyState >= 2) {
+          const codes = await detector.detect(video);
+          const raw = codes[0]?.rawValue ?? "";
+          // The same code stays in frame for many ticks — only act when it
+          // changes, so an error message isn't re-triggered every 250ms.
+          if (raw && raw !== lastRaw) {
+            lastRaw = raw;
+            if (handlePayloadRef.current(raw)) return;
+          }
+        }
+      } catch {
+        // A single failed frame is harmless; keep polling.
+      }
+      if (!cancelled) timer = window.setTimeout(() => void tick(detector), SCAN_INTERVAL_MS);
+    };
+
+    (async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: { ideal: "environment" } },
+          audio: false,
+        });
+        if (cancelled) {
+          stream.getTracks().forEach((t) => t.stop());
+          return;
+        }
+        const video = videoRef.current;
+        if (!video) return;
+        video.srcObject = stream;
+        await video.play();
+        setCameraState("live");
+        void tick(new Detector({ formats: formatsRef.current }));
+      } catch {
+        // Permission denied or no camera — fall back to typed input.
+        if (!cancelled) {
+          setCameraState("unavailable");
+          inputRef.current?.focus();
+        }
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      if (timer !== undefined) window.clearTimeout(timer);
+      stream?.getTracks().forEach((t) => t.stop());
+    };
+  }, []);
+
+  const submitManual = () => {
+    if (!manualText.trim()) return;
+    if (handlePayload(manualText)) setManualText("");
+  };
+
+  return (
+    <div
+      className="confirm-dialog-overlay"
+      role="presentation"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div
+        className="confirm-dialog remove-item-dialog"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+      >
+        <div className="confirm-dialog-body">
+          <h3 id={titleId} className="confirm-dialog-title">{title}</h3>
+          {cameraState !== "unavailable" ? (
+            <video
+              ref={videoRef}
+              muted
+              playsInline
+              style={{ width: "100%", maxHeight: "50vh", borderRadius: "8px", background: "#000", objectFit: "cover" }}
+            />
+          ) : (
+            <p className="confirm-dialog-message">
+              Camera scanning isn't available in this browser. Use a handheld
+              scanner or paste the label link below.
+            </p>
+          )}
+          {cameraState === "starting" ? (
+            <p className="confirm-dialog-message">Starting camera…</p>
+          ) : null}
+
+          <label className="adjust-qty-field">
+            <span className="adjust-qty-field-label">{onBarcode ? "Label or barcode" : "Label code"}</span>
+            <input
+              ref={inputRef}
+              type="text"
+              value={manualText}
+              placeholder={onBarcode ? "Scan or type a label link or UPC" : "Scan or paste a label link"}
+              onChange={(e) => setManualText(e.currentTarget.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  submitManual();
+                }
+              }}
+              aria-label={onBarcode ? "Label or barcode" : "Label code"}
+            />
+          </label>
+          {error ? <p className="field-error" role="alert">{error}</p> : null}
+        </div>
+
+        <div className="confirm-dialog-actions">
+          <button type="button" className="button button-secondary" onClick={onClose}>
+            Cancel
+          </button>
+          <button
+            type="button"
+            className="button button-primary"
+            onClick={submitManual}
+            disabled={!manualText.trim()}
+          >
+            Go
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+// ── Budget helpers ───────────────────────────────────────────────────────────
+// Which budgets a purchase counts toward, and whether a new order would push
+// any of them over. Mirrors budgetCovers in the backend's budgets.ts so the
+// order form warns about exactly the budgets the dashboard burns down.
+
+import type { BudgetStatus, InventoryBudget, InventoryLocation } from "./inventoryApi";
+import { locationsInScope } from "./locationTree";
+
+/** Local "YYYY-MM-DD" for a date — budgets are whole days. */
+export const toIsoDay = (d: Date): string =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+
+/** True when `day` falls inside the budget's period. */
+export const budgetIsCurrent = (budget: InventoryBudget, day: string): boolean =>
+  day >= budget.periodStart && day <= budget.periodEnd;
+
+/** True when spend at `locationId` on an item with `values` counts toward the
+ *  budget. */
+export const budgetCovers = (
+  budget: InventoryBudget,
+  locations: InventoryLocation[],
+  locationId: string,
+  values: Record<string, unknown>,
+): boolean => {
+  if (budget.locationId && !locationsInScope(locations, budget.locationId).has(locationId)) return false;
+  if (budget.columnKey) {
+    const cell = String(values[budget.columnKey] ?? "").trim().toLowerCase();
+    if (!cell || cell !== (budget.columnValue ?? "").toLowerCase()) return false;
+  }
+  return true;
+};
+
+/** One priced line of an order being composed. */
+export type BudgetOrderLine = { locationId: string; values: Record<string, unknown>; amount: number };
+
+export type BudgetOverrun = {
+  budget: BudgetStatus;
+  /** This order's share of the budget. */
+  orderAmount: number;
+  /** Received + committed + this order. */
+  projected: number;
+};
+
+/** Current budgets this order would take over their amount. */
+export const findBudgetOverruns = (
+  budgets: BudgetStatus[],
+  lines: BudgetOrderLine[],
+  locations: InventoryLocation[],
+  today: string,
+): BudgetOverrun[] => {
+  const overruns: BudgetOverrun[] = [];
+  for (const budget of budgets) {
+    if (!budgetIsCurrent(budget, today)) continue;
+    const orderAmount = lines
+      .filter((line) => budgetCovers(budget, locations, line.locationId, line.values))
+      .reduce((sum, line) => sum + line.amount, 0);
+    if (orderAmount <= 0) continue;
+    const projected = budget.actual + budget.committed + orderAmount;
+    if (projected > budget.amount) overruns.push({ budget, orderAmount, projected });
+  }
+  return overruns;
+};
@@ -0,0 +1,28 @@
+/** Build a CSV from rows of cells and hand it to the browser as a download.
+ *  Cells with commas, quotes or newlines are quoted per RFC 4180. Used by the
+ *  analytics breakdowns and the recall-response report. */
+export function downloadCsv(filename: string, rows: string[][]) {
+  const csv = rows
+    .map((row) => row
+      .map((cell) => {
+        const s = String(cell ?? "");
+        return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+      })
+      .join(","))
+    .join("\n");
+  downloadText(filename, csv, "text/csv;charset=utf-8");
+}
+
+/** Hand already-built file text to the browser as a download — e.g. the
+ *  server-built activity export. */
+export function downloadText(filename: string, text: string, type: string) {
+  const blob = new Blob([text], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
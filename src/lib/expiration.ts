@@ -29,3 +29,67 @@ export const isExpired = (value: string | number | boolean | null | undefined):
   const d = getDaysUntilExpiration(value);
   return d !== null && d <= 0;
 };
+
+// ── "Expiring soon" window ──────────────────────────────────────────────────
+// Per-org configuration (Settings → Expiration Warnings). Mirrors the backend
+// ExpirationSettings + resolveExpirationWarningDays in alerts.ts so the
+// Expiring tab and the dashboard/alert summary agree on every lot.
+
+/** Org default when nothing is configured. */
+export const DEFAULT_EXPIRATION_WARNING_DAYS = 30;
+export const MAX_EXPIRATION_WARNING_DAYS = 1825;
+
+/** Column-value override, e.g. Category = "Narcotics" → 7 days. */
+export type ExpirationWarningRule = {
+  columnKey: string;
+  value: string;
+  warningDays: number;
+};
+
+export type ExpirationSettings = {
+  defaultWarningDays: number;
+  /** Number column whose per-row value, when set, is that lot's window. */
+  itemColumnKey?: string;
+  rules: ExpirationWarningRule[];
+};
+
+export const DEFAULT_EXPIRATION_SETTINGS: ExpirationSettings = {
+  defaultWarningDays: DEFAULT_EXPIRATION_WARNING_DAYS,
+  rules: [],
+};
+
+/** Whole days in [1, MAX]; null for blank / invalid so resolution falls
+ *  through to the next tier. */
+export const parseWarningDays = (raw: unknown): number | null => {
+  if (raw === null || raw === undefined || raw === "") return null;
+  const n = Number(raw);
+  if (!Number.isFinite(n)) return null;
+  const days = Math.floor(n);
+  return days >= 1 && days <= MAX_EXPIRATION_WARNING_DAYS ? days : null;
+};
+
+/** The "expiring soon" window for one lot: its own value in the per-item
+ *  column → first matching column rule → org default. */
+export const resolveExpirationWarningDays = (
+  values: Record<string, string | number | boolean | null | undefined>,
+  settings: ExpirationSettings,
+): number => {
+  if (settings.itemColumnKey) {
+    const own = parseWarningDays(values[settings.itemColumnKey]);
+    if (own !== null) return own;
+  }
+  for (const rule of settings.rules) {
+    const cell = String(values[rule.columnKey] ?? "").trim().toLowerCase();
+    if (cell && cell === rule.value.toLowerCase()) return rule.warningDays;
+  }
+  return settings.defaultWarningDays;
+};
+
+/** Not expired, but inside the lot's warning window. */
+export const isExpiringSoon = (
+  values: Record<string, string | number | boolean | null | undefined>,
+  settings: ExpirationSettings,
+): boolean => {
+  const d = getDaysUntilExpiration(values.expirationDate);
+  return d !== null && d > 0 && d <= resolveExpirationWarningDays(values, settings);
+};
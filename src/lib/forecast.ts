@@ -0,0 +1,125 @@
+// ── Usage forecast helpers ──────────────────────────────────────────────────
+// Days of supply and projected stock-out from the consumption rates served by
+// GET /inventory/forecast. On-hand comes from the live rows so the figures
+// follow edits without a refetch. An item is "at risk" when it would run out
+// before its next typical order cycle — even while still above its min.
+
+import { useEffect, useState } from "react";
+import {
+  fetchUsageForecast,
+  type ConsumptionRate,
+  type ForecastMethod,
+  type InventoryRow,
+  type UsageForecast,
+} from "./inventoryApi";
+import { isExpired } from "./expiration";
+
+export const FORECAST_METHOD_STORAGE_KEY = "wickops.forecastMethod";
+
+export const FORECAST_METHOD_LABELS: Record<ForecastMethod, string> = {
+  "moving-average": "Moving average",
+  "weighted-trend": "Weighted trend",
+};
+
+const isForecastMethod = (value: unknown): value is ForecastMethod =>
+  value === "moving-average" || value === "weighted-trend";
+
+export const loadForecastMethod = (): ForecastMethod => {
+  try {
+    const raw = window.localStorage.getItem(FORECAST_METHOD_STORAGE_KEY);
+    return isForecastMethod(raw) ? raw : "moving-average";
+  } catch {
+    return "moving-average";
+  }
+};
+
+export const saveForecastMethod = (method: ForecastMethod): void => {
+  try {
+    window.localStorage.setItem(FORECAST_METHOD_STORAGE_KEY, method);
+  } catch {
+    // No-op: storage may be unavailable in private mode or locked environments.
+  }
+};
+
+/** (location, lowercased name) — matches forecastKey in the backend's
+ *  forecast.ts and the Shop list's item key. */
+export const forecastKey = (itemName: string, locationId: string): string =>
+  `${locationId}#${itemName.trim().toLowerCase()}`;
+
+export type SupplyForecast = {
+  dailyRate: number;
+  /** On-hand ÷ daily rate. */
+  daysOfSupply: number;
+  stockOutDate: Date;
+  orderCycleDays: number;
+  /** Runs out before the next typical order would arrive. */
+  atRisk: boolean;
+};
+
+/** Rates keyed by forecastKey. */
+export const indexRates = (forecast: UsageForecast | null): Map<string, ConsumptionRate> =>
+  new Map((forecast?.rates ?? []).map((rate) => [forecastKey(rate.itemName, rate.locationId), rate]));
+
+/** Usable on-hand per forecastKey: retired and expired lots don't count. */
+export const onHandByKey = (rows: InventoryRow[]): Map<string, number> => {
+  const totals = new Map<string, number>();
+  for (const row of rows) {
+    const name = String(row.values.itemName ?? "").trim();
+    if (!name || row.values.retiredAt || isExpired(row.values.expirationDate)) continue;
+    const key = forecastKey(name, String(row.locationId ?? ""));
+    const qty = Number(row.values.quantity);
+    totals.set(key, (totals.get(key) ?? 0) + (Number.isFinite(qty) ? Math.max(0, qty) : 0));
+  }
+  return totals;
+};
+
+/** Project `onHand` forward at the item's rate. Null without usage history. */
+export const projectSupply = (
+  onHand: number,
+  rate: ConsumptionRate | undefined,
+  now = new Date(),
+): SupplyForecast | null => {
+  if (!rate || rate.dailyRate <= 0) return null;
+  const daysOfSupply = Math.max(0, onHand) / rate.dailyRate;
+  return {
+    dailyRate: rate.dailyRate,
+    daysOfSupply,
+    stockOutDate: new Date(now.getTime() + daysOfSupply * 24 * 60 * 60 * 1000),
+    orderCycleDays: rate.orderCycleDays,
+    atRisk: daysOfSupply < rate.orderCycleDays,
+  };
+};
+
+/** "3 days", "<1 day", "90+ days". */
+export const formatDaysOfSupply = (days: number): string => {
+  if (days < 1) return "<1 day";
+  if (days >= 90) return "90+ days";
+  const whole = Math.floor(days);
+  return `${whole} day${whole === 1 ? "" : "s"}`;
+};
+
+/** Hover text: the rate and projected stock-out date behind a figure. */
+export const describeSupply = (supply: SupplyForecast): string => {
+  const perDay = supply.dailyRate >= 10 ? Math.round(supply.dailyRate) : Math.round(supply.dailyRate * 10) / 10;
+  const out = supply.stockOutDate.toLocaleDateString(undefined, { month: "short", day: "numeric" });
+  return `Using about ${perDay}/day — runs out around ${out}. Usually reordered every ${Math.round(supply.orderCycleDays)} days.`;
+};
+
+/** Fetch the forecast for `method`; null until it arrives (or if it fails —
+ *  the forecast is an enhancement, never a blocker). */
+export const useUsageForecast = (method: ForecastMethod, enabled = true): UsageForecast | null => {
+  const [forecast, setForecast] = useState<UsageForecast | null>(null);
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+    fetchUsageForecast({ method })
+      .then((result) => {
+        if (!cancelled) setForecast(result);
+      })
+      .catch(() => { /* non-fatal: no forecast figures */ });
+    return () => {
+      cancelled = true;
+    };
+  }, [method, enabled]);
+  return enabled && forecast?.method === method ? forecast : null;
+};
@@ -0,0 +1,23 @@
+// Manufacturer barcodes (UPC-A, EAN-8/13, GTIN-14). Mirrors the backend
+// amplify/functions/inventoryApi/src/gtin.ts — the server is authoritative and
+// rejects bad codes, this copy lets the receive form match scans locally.
+
+const GTIN_LENGTHS = new Set([8, 12, 13, 14]);
+
+const hasValidCheckDigit = (digits: string): boolean => {
+  let sum = 0;
+  for (let i = digits.length - 2, weight = 3; i >= 0; i -= 1, weight = weight === 3 ? 1 : 3) {
+    sum += Number(digits[i]) * weight;
+  }
+  return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1]);
+};
+
+/** Digits of a well-formed GTIN (spaces/dashes stripped), or null. */
+export const normalizeGtin = (raw: unknown): string | null => {
+  const digits = String(raw ?? "").replace(/[\s-]/g, "");
+  if (!/^\d+$/.test(digits) || !GTIN_LENGTHS.has(digits.length)) return null;
+  return hasValidCheckDigit(digits) ? digits : null;
+};
+
+/** Comparison key — a 12-digit UPC-A and its 13-digit EAN form match. */
+export const gtinMatchKey = (gtin: string): string => gtin.padStart(14, "0");
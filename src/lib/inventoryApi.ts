@@ -1,6 +1,14 @@
 import { authFetch, getCachedAuthToken } from "./authFetch";
 import type { AppModuleKey } from "./moduleRegistry";
 import { locationPath } from "./locationTree";
+import { DEFAULT_EXPIRATION_SETTINGS, parseWarningDays, type ExpirationSettings } from "./expiration";
+import {
+  MutationQueuedError,
+  enqueueMutation,
+  isOfflineFailure,
+  readOfflineCache,
+  writeOfflineCache,
+} from "./offlineQueue";
 export type { AppModuleKey };
 
 const normalizeBaseUrl = (value?: string) => (value ?? "").replace(/\/+$/, "");
@@ -88,12 +96,19 @@ export type InventoryRow = {
   locationId?: string;
   values: Record<string, string | number | boolean | null>;
   createdAt?: string;
+  /** Server version (`updatedAtCustom`) this copy of the row was read at.
+   *  Sent back on save so a row someone else changed meanwhile comes back as
+   *  a conflict instead of being overwritten. Absent on never-saved rows. */
+  updatedAt?: string;
 };
 
 export type InventoryUsageEntryInput = {
   itemId: string;
   quantityUsed: number;
   notes?: string;
+  /** Item-level entry: `itemId` names the logical item and the server draws
+   *  its lots at that location earliest-expiration first. */
+  fefo?: boolean;
 };
 
 export class InventoryProvisioningError extends Error {
@@ -127,6 +142,38 @@ export class DeleteBlockedError extends Error {
 export const isDeleteBlockedError = (value: unknown): value is DeleteBlockedError =>
   value instanceof DeleteBlockedError;
 
+/** One row the server refused to save because it changed (or was deleted)
+ *  after this client loaded it. */
+export type InventorySaveConflict = {
+  id: string;
+  itemName: string;
+  /** The row as it is now on the server; null when it was deleted. */
+  server: { values: InventoryRow["values"]; locationId: string | null; updatedAt: string } | null;
+  /** What this client tried to save. */
+  yours: { values: InventoryRow["values"]; locationId: string | null };
+};
+
+/**
+ * Thrown when a save came back listing rows that someone else changed since
+ * they were loaded. The save itself went through: every other row in the
+ * batch was written, and `versions` carries their new server versions so the
+ * caller can keep its copies current.
+ */
+export class SaveConflictError extends Error {
+  readonly conflicts: InventorySaveConflict[];
+  readonly versions: Record<string, string>;
+
+  constructor(message: string, conflicts: InventorySaveConflict[], versions: Record<string, string>) {
+    super(message);
+    this.name = "SaveConflictError";
+    this.conflicts = conflicts;
+    this.versions = versions;
+  }
+}
+
+export const isSaveConflictError = (value: unknown): value is SaveConflictError =>
+  value instanceof SaveConflictError;
+
 const requireBaseUrl = () => {
   if (!INVENTORY_API_BASE_URL) {
     throw new Error("Missing VITE_INVENTORY_API_BASE_URL");
@@ -134,6 +181,40 @@ const requireBaseUrl = () => {
   return INVENTORY_API_BASE_URL;
 };
 
+/**
+ * authFetch for operations that change stock or move an order or count along
+ * and must survive a dead connection: usage and its undos, retires, quantity
+ * adjustments, moves, transfers, item deletes outside the grid, restock
+ * create/place/approve/reject/receive/close, and cycle-count submit/post/
+ * cancel. Each call carries a fresh Idempotency-Key; if the request can't
+ * reach the server it is queued for replay (see offlineQueue.ts) and
+ * MutationQueuedError is thrown. Grid autosave has its own stash
+ * (pendingInventorySave.ts). Admin and config calls (columns, locations,
+ * vendors, pricing, budgets, keys, webhooks, settings) stay on plain
+ * authFetch: their response is the point (a secret, a new id), and replaying
+ * them blind hours later would surprise.
+ */
+const queueableFetch = async (
+  url: string,
+  init: { method: "POST" | "DELETE"; body?: string },
+  label: string,
+): Promise<Response> => {
+  const id = crypto.randomUUID();
+  try {
+    return await authFetch(url, {
+      ...init,
+      headers: { "Content-Type": "application/json", "Idempotency-Key": id },
+    });
+  } catch (err) {
+    if (!isOfflineFailure(err)) throw err;
+    const queued = await enqueueMutation({ id, label, url, method: init.method, body: init.body ?? null });
+    if (!queued) throw err;
+    throw new MutationQueuedError(label);
+  }
+};
+
+const BOOTSTRAP_CACHE_KEY = "inventory-bootstrap";
+
 const getApiErrorMessage = async (res: Response, fallback: string): Promise<string> => {
   const text = (await res.text()).trim();
   if (!text) return fallback;
@@ -175,31 +256,55 @@ export const loadInventoryBootstrap = async (): Promise<{
    *  EMS-style flow. Pantry/restaurant orgs flip this on in Settings to
    *  unlock weight/volume capture and $/lb price-trend math. */
   tracksUnits: boolean;
+  /** Per-org "expiring soon" window. Defaults to 30 days org-wide when
+   *  the org hasn't configured anything (or on older servers). */
+  expirationSettings: ExpirationSettings;
   columnVisibilityOverrides: ColumnVisibilityOverrides;
   nextToken: string | null;
+  /** Where to start polling loadInventoryChanges from. Null on servers that
+   *  predate the change feed. */
+  changesCursor: string | null;
   /** Set when the server just ran a schema migration; clients render a toast. */
   migrationNotice: { message: string } | null;
+  /** Set (to when it was cached) when the server couldn't be reached and this
+   *  is the last bootstrap saved on the device. Treat it as read-only. */
+  offlineSince: number | null;
 }> => {
   const base = requireBaseUrl();
-  const res = await authFetch(`${base}/inventory/bootstrap`);
-  if (res.status === 202) {
-    let payload: InventoryProvisioningPayload | null = null;
-    try {
-      payload = (await res.json()) as InventoryProvisioningPayload;
-    } catch {
-      payload = null;
+  const res = await authFetch(`${base}/inventory/bootstrap`).catch((err: unknown) => {
+    if (isOfflineFailure(err)) return null;
+    throw err;
+  });
+  let data;
+  let offlineSince: number | null = null;
+  if (!res) {
+    const cached = await readOfflineCache<ReturnType<typeof JSON.parse>>(BOOTSTRAP_CACHE_KEY);
+    if (!cached) throw new Error("You're offline and this device has no saved copy of the inventory yet.");
+    // The cursor and notice belonged to that earlier load. A nextToken left
+    // over means later pages never arrived; browse what was cached.
+    data = { ...cached.value, changesCursor: null, migrationNotice: null, nextToken: null };
+    offlineSince = cached.cachedAt;
+  } else {
+    if (res.status === 202) {
+      let payload: InventoryProvisioningPayload | null = null;
+      try {
+        payload = (await res.json()) as InventoryProvisioningPayload;
+      } catch {
+        payload = null;
+      }
+      if (payload?.code === "INVENTORY_STORAGE_PROVISIONING") {
+        throw new InventoryProvisioningError(
+          payload.error ?? "Inventory storage is still provisioning",
+          Number(payload.retryAfterMs ?? 2000),
+        );
+      }
     }
-    if (payload?.code === "INVENTORY_STORAGE_PROVISIONING") {
-      throw new InventoryProvisioningError(
-        payload.error ?? "Inventory storage is still provisioning",
-        Number(payload.retryAfterMs ?? 2000),
-      );
+    if (!res.ok) {
+      throw new Error((await res.text()) || "Failed to load inventory bootstrap");
     }
+    data = await res.json();
+    void writeOfflineCache(BOOTSTRAP_CACHE_KEY, data);
   }
-  if (!res.ok) {
-    throw new Error((await res.text()) || "Failed to load inventory bootstrap");
-  }
-  const data = await res.json();
   return {
     access: data.access as InventoryAccess,
     columns: (data.columns ?? []) as InventoryColumn[],
@@ -210,6 +315,7 @@ export const loadInventoryBootstrap = async (): Promise<{
         locationId: item.locationId,
         values: parseValues(item.valuesJson),
         createdAt: item.createdAt,
+        updatedAt: item.updatedAtCustom,
       }))
       .sort((a, b) => a.position - b.position),
     locations: Array.isArray(data.locations)
@@ -227,15 +333,34 @@ export const loadInventoryBootstrap = async (): Promise<{
     // Default false so legacy bootstrap responses (and 202 retry path)
     // stay in the EMS-style flow until users explicitly opt in.
     tracksUnits: typeof data.tracksUnits === "boolean" ? data.tracksUnits : false,
+    expirationSettings: parseExpirationSettings(data.expirationSettings),
     columnVisibilityOverrides: (data.columnVisibilityOverrides ?? {}) as ColumnVisibilityOverrides,
     nextToken: data.nextToken ?? null,
+    changesCursor: typeof data.changesCursor === "string" ? data.changesCursor : null,
     migrationNotice:
       data.migrationNotice && typeof data.migrationNotice.message === "string"
         ? { message: String(data.migrationNotice.message) }
         : null,
+    offlineSince,
   };
 };
 
+/** Extend the offline bootstrap copy with the page fetched for `token`. Only
+ *  the page that continues the cached copy is appended, so pages from a
+ *  superseded load can't interleave with a newer one. */
+const appendCachedBootstrapPage = async (
+  token: string,
+  page: { items?: unknown[]; nextToken?: string | null },
+): Promise<void> => {
+  const cached = await readOfflineCache<{ items?: unknown[]; nextToken?: string | null }>(BOOTSTRAP_CACHE_KEY);
+  if (!cached || cached.value.nextToken !== token) return;
+  await writeOfflineCache(BOOTSTRAP_CACHE_KEY, {
+    ...cached.value,
+    items: [...(cached.value.items ?? []), ...(page.items ?? [])],
+    nextToken: page.nextToken ?? null,
+  });
+};
+
 /** Fetch a page of inventory items (used to load remaining pages after bootstrap). */
 export const loadInventoryItems = async (
   nextToken: string,
@@ -248,6 +373,7 @@ export const loadInventoryItems = async (
     throw new Error((await res.text()) || "Failed to load inventory items");
   }
   const data = await res.json();
+  void appendCachedBootstrapPage(nextToken, data);
   return {
     items: ((data.items ?? []) as ApiItem[])
       .map((item) => ({
@@ -256,12 +382,219 @@ export const loadInventoryItems = async (
         locationId: item.locationId,
         values: parseValues(item.valuesJson),
         createdAt: item.createdAt,
+        updatedAt: item.updatedAtCustom,
       }))
       .sort((a, b) => a.position - b.position),
     nextToken: data.nextToken ?? null,
   };
 };
 
+/** Server-side view of the grid (GET /inventory/items/query). `filters` maps
+ *  groupable column keys to a cell value; `total` counts every match, or is
+ *  null for the whole inventory in grid order, which is read only as far as
+ *  each page needs. */
+export type InventoryItemQuery = {
+  search?: string;
+  locationId?: string | null;
+  tab?: "all" | "lowStock" | "expired" | "exp30" | "exp60";
+  filters?: Record<string, string>;
+  sort?: { key: string; direction: "asc" | "desc" } | null;
+  limit?: number;
+  cursor?: string | null;
+};
+
+export const queryInventoryItems = async (
+  query: InventoryItemQuery,
+): Promise<{ items: InventoryRow[]; total: number | null; nextCursor: string | null }> => {
+  const base = requireBaseUrl();
+  const params = new URLSearchParams();
+  if (query.search) params.set("q", query.search);
+  if (query.locationId) params.set("locationId", query.locationId);
+  if (query.tab) params.set("tab", query.tab);
+  for (const [key, value] of Object.entries(query.filters ?? {})) params.set(`filter.${key}`, value);
+  if (query.sort) {
+    params.set("sort", query.sort.key);
+    params.set("direction", query.sort.direction);
+  }
+  if (query.limit) params.set("limit", String(query.limit));
+  if (query.cursor) params.set("cursor", query.cursor);
+  const res = await authFetch(`${base}/inventory/items/query?${params}`);
+  if (!res.ok) {
+    throw new Error((await res.text()) || "Failed to query inventory items");
+  }
+  const data = await res.json();
+  return {
+    // Server order is the query's order — don't re-sort by position.
+    items: ((data.items ?? []) as ApiItem[]).map((item) => ({
+      id: item.id,
+      position: Number(item.position ?? 0),
+      locationId: item.locationId,
+      values: parseValues(item.valuesJson),
+      createdAt: item.createdAt,
+      updatedAt: item.updatedAtCustom,
+    })),
+    total: data.total === null || data.total === undefined ? null : Number(data.total),
+    nextCursor: data.nextCursor ?? null,
+  };
+};
+
+/** The grid as it stood at a past instant, rebuilt server-side from the
+ *  activity log (GET /inventory/items/as-of). `importsWithUpdates` counts CSV
+ *  imports since then whose in-place updates couldn't be rewound. */
+export type InventoryAsOf = {
+  at: string;
+  items: InventoryRow[];
+  replayed: number;
+  importsWithUpdates: number;
+};
+
+export const fetchInventoryAsOf = async (at: string, locationId?: string | null): Promise<InventoryAsOf> => {
+  const base = requireBaseUrl();
+  const params = new URLSearchParams({ at });
+  if (locationId) params.set("locationId", locationId);
+  const res = await authFetch(`${base}/inventory/items/as-of?${params}`);
+  if (!res.ok) {
+    throw new Error(await getApiErrorMessage(res, "Failed to load the inventory for that time."));
+  }
+  const data = await res.json();
+  return {
+    at: String(data.at ?? at),
+    items: ((data.items ?? []) as ApiItem[]).map((item) => ({
+      id: item.id,
+      position: Number(item.position ?? 0),
+      locationId: item.locationId,
+      values: parseValues(item.valuesJson),
+      createdAt: item.createdAt,
+      updatedAt: item.updatedAtCustom,
+    })),
+    replayed: Number(data.replayed ?? 0),
+    importsWithUpdates: Number(data.importsWithUpdates ?? 0),
+  };
+};
+
+export type ValuationMethod = "fifo" | "average" | "vendor";
+
+/** Totals for one location or one value of the grouping column. */
+export type ValuationBucket = { key: string; quantity: number; value: number; rows: number };
+
+export type ValuedRow = {
+  itemId: string;
+  parentItemId: string;
+  itemName: string;
+  locationId: string;
+  group: string;
+  quantity: number;
+  /** Null when nothing priced the item. */
+  unitCost: number | null;
+  value: number;
+  costSource: "receipts" | "vendor" | "item" | "none";
+};
+
+/** What the stock on hand is worth (GET /inventory/valuation). `at` is null
+ *  for a valuation of the inventory as it is now. */
+export type InventoryValuation = {
+  at: string | null;
+  method: ValuationMethod;
+  groupBy: string;
+  totalValue: number;
+  totalQuantity: number;
+  unvaluedQuantity: number;
+  byLocation: ValuationBucket[];
+  byGroup: ValuationBucket[];
+  rows: ValuedRow[];
+};
+
+export const fetchInventoryValuation = async (options: {
+  method: ValuationMethod;
+  at?: string | null;
+  locationId?: string | null;
+  groupBy?: string | null;
+}): Promise<InventoryValuation> => {
+  const base = requireBaseUrl();
+  const params = new URLSearchParams({ method: options.method });
+  if (options.at) params.set("at", options.at);
+  if (options.locationId) params.set("locationId", options.locationId);
+  if (options.groupBy) params.set("groupBy", options.groupBy);
+  const res = await authFetch(`${base}/inventory/valuation?${params}`);
+  if (!res.ok) {
+    throw new Error(await getApiErrorMessage(res, "Failed to load the inventory valuation."));
+  }
+  return (await res.json()) as InventoryValuation;
+};
+
+/** What other writers changed since a cursor. `locations` / `columns` are the
+ *  full current lists, or null when neither changed. */
+export type InventoryChanges = {
+  cursor: string;
+  items: InventoryRow[];
+  deletedIds: string[];
+  locations: InventoryLocation[] | null;
+  columns: InventoryColumn[] | null;
+};
+
+/** Poll the change feed. Resolves null when the cursor is too old to replay —
+ *  the caller should take a fresh bootstrap instead. */
+export const loadInventoryChanges = async (since: string): Promise<InventoryChanges | null> => {
+  const base = requireBaseUrl();
+  const params = new URLSearchParams({ since });
+  const res = await authFetch(`${base}/inventory/changes?${params}`);
+  if (res.status === 410) return null;
+  if (!res.ok) {
+    throw new Error((await res.text()) || "Failed to load inventory changes");
+  }
+  const data = await res.json();
+  return {
+    cursor: String(data.cursor ?? since),
+    items: ((data.items ?? []) as ApiItem[]).map((item) => ({
+      id: item.id,
+      position: Number(item.position ?? 0),
+      locationId: item.locationId,
+      values: parseValues(item.valuesJson),
+      createdAt: item.createdAt,
+      updatedAt: item.updatedAtCustom,
+    })),
+    deletedIds: Array.isArray(data.deletedIds) ? (data.deletedIds as string[]) : [],
+    locations: Array.isArray(data.locations)
+      ? (data.locations as InventoryLocation[]).filter((l) => l && typeof l.id === "string")
+      : null,
+    columns: Array.isArray(data.columns) ? (data.columns as InventoryColumn[]) : null,
+  };
+};
+
+/**
+ * Fold a change-feed result into a list of rows. Rows already at the incoming
+ * version are left as they are (usually this client's own save coming back);
+ * rows in `keep` are never touched, so callers can protect unsaved edits. New
+ * rows are appended in server order. Returns the same array when nothing
+ * changed, so callers can skip a re-render.
+ */
+export const mergeInventoryChanges = (
+  rows: InventoryRow[],
+  changes: Pick<InventoryChanges, "items" | "deletedIds">,
+  keep: ReadonlySet<string> = new Set(),
+): InventoryRow[] => {
+  const incoming = new Map(changes.items.map((item) => [item.id, item]));
+  const deleted = new Set(changes.deletedIds.filter((id) => !keep.has(id)));
+  let changed = false;
+  const next = rows.flatMap((row) => {
+    if (deleted.has(row.id)) {
+      changed = true;
+      return [];
+    }
+    const update = incoming.get(row.id);
+    incoming.delete(row.id);
+    if (!update || keep.has(row.id) || (update.updatedAt && update.updatedAt === row.updatedAt)) return [row];
+    changed = true;
+    return [{ ...row, values: update.values, locationId: update.locationId, updatedAt: update.updatedAt }];
+  });
+  for (const item of incoming.values()) {
+    if (keep.has(item.id)) continue;
+    changed = true;
+    next.push(item);
+  }
+  return changed ? next : rows;
+};
+
 export const saveUserColumnVisibility = async (
   overrides: ColumnVisibilityOverrides,
 ): Promise<void> => {
@@ -354,27 +687,32 @@ export const saveInventoryItems = async (
      *  server stamps `skeleton: true` on their ITEM_CREATE audit events so
      *  the activity feed can filter them out. */
     skeletonRowIds?: string[];
+    /** Queue the save for replay when offline (see queueableFetch), under
+     *  this label. Grid autosave leaves it unset: its unsaved diff is stashed
+     *  and merged on reconnect instead (pendingInventorySave.ts). */
+    offlineLabel?: string;
   },
-): Promise<void> => {
+): Promise<{ versions: Record<string, string> }> => {
   const base = requireBaseUrl();
-  const res = await authFetch(`${base}/inventory/items/save`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      rows: rows.map((row, index) => ({
-        id: row.id,
-        position: index,
-        locationId: row.locationId,
-        values: row.values,
-        createdAt: row.createdAt,
-      })),
-      deletedRowIds,
-      ...(options?.restockMetadata ? { restockMetadata: options.restockMetadata } : {}),
-      ...(options?.retireMetadata ? { retireMetadata: options.retireMetadata } : {}),
-      ...(options?.adjustMetadata ? { adjustMetadata: options.adjustMetadata } : {}),
-      ...(options?.skeletonRowIds && options.skeletonRowIds.length > 0 ? { skeletonRowIds: options.skeletonRowIds } : {}),
-    }),
+  const url = `${base}/inventory/items/save`;
+  const body = JSON.stringify({
+    rows: rows.map((row, index) => ({
+      id: row.id,
+      position: index,
+      locationId: row.locationId,
+      values: row.values,
+      createdAt: row.createdAt,
+      ...(row.updatedAt ? { expectedUpdatedAt: row.updatedAt } : {}),
+    })),
+    deletedRowIds,
+    ...(options?.restockMetadata ? { restockMetadata: options.restockMetadata } : {}),
+    ...(options?.retireMetadata ? { retireMetadata: options.retireMetadata } : {}),
+    ...(options?.adjustMetadata ? { adjustMetadata: options.adjustMetadata } : {}),
+    ...(options?.skeletonRowIds && options.skeletonRowIds.length > 0 ? { skeletonRowIds: options.skeletonRowIds } : {}),
   });
+  const res = options?.offlineLabel
+    ? await queueableFetch(url, { method: "POST", body }, options.offlineLabel)
+    : await authFetch(url, { method: "POST", headers: { "Content-Type": "application/json" }, body });
 
   if (!res.ok) {
     if (res.status === 409) {
@@ -399,6 +737,49 @@ export const saveInventoryItems = async (
     }
     throw new Error((await res.text()) || "Failed to save inventory");
   }
+  const data = (await res.json().catch(() => ({}))) as {
+    versions?: Record<string, string>;
+    conflicts?: InventorySaveConflict[];
+  };
+  if (data.conflicts && data.conflicts.length > 0) {
+    throw new SaveConflictError(
+      data.conflicts.length === 1
+        ? `"${data.conflicts[0].itemName}" was changed by someone else. Review both versions and save again.`
+        : `${data.conflicts.length} items were changed by someone else. Review both versions and save again.`,
+      data.conflicts,
+      data.versions ?? {},
+    );
+  }
+  return { versions: data.versions ?? {} };
+};
+
+/** Write the same field patch (e.g. stamping or clearing `orderedAt`) onto
+ *  whole rows. The patch is the only change the caller means to make, so a row
+ *  someone else edited meanwhile is retried once on top of the server's copy
+ *  instead of overwriting it; rows deleted meanwhile are dropped. */
+export const saveInventoryValuePatch = async (
+  rows: InventoryRow[],
+  patch: InventoryRow["values"],
+): Promise<{ versions: Record<string, string> }> => {
+  try {
+    return await saveInventoryItems(rows.map((row) => ({ ...row, values: { ...row.values, ...patch } })));
+  } catch (err) {
+    if (!isSaveConflictError(err)) throw err;
+    const byId = new Map(rows.map((row) => [row.id, row]));
+    const retry = err.conflicts.flatMap((conflict) => {
+      const row = byId.get(conflict.id);
+      if (!row || !conflict.server) return [];
+      return [{
+        ...row,
+        locationId: conflict.server.locationId ?? row.locationId,
+        values: { ...conflict.server.values, ...patch },
+        updatedAt: conflict.server.updatedAt,
+      }];
+    });
+    if (retry.length === 0) return { versions: err.versions };
+    const { versions } = await saveInventoryItems(retry);
+    return { versions: { ...err.versions, ...versions } };
+  }
 };
 
 /** Synchronous, fire-and-forget save using `keepalive` + cached auth token.
@@ -426,6 +807,7 @@ export const saveInventoryItemsSync = (
           locationId: row.locationId,
           values: row.values,
           createdAt: row.createdAt,
+          ...(row.updatedAt ? { expectedUpdatedAt: row.updatedAt } : {}),
         })),
         deletedRowIds,
       }),
@@ -483,7 +865,7 @@ export const pruneZeroQtyRows = async (
   }
 
   if (idsToDelete.length > 0) {
-    await saveInventoryItems([], idsToDelete);
+    await saveInventoryItems([], idsToDelete, { offlineLabel: "Remove empty lots" });
   }
 };
 
@@ -495,11 +877,11 @@ export const submitInventoryUsage = async (
   entryCount: number;
 }> => {
   const base = requireBaseUrl();
-  const res = await authFetch(`${base}/inventory/usage/submit`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ entries }),
-  });
+  const res = await queueableFetch(
+    `${base}/inventory/usage/submit`,
+    { method: "POST", body: JSON.stringify({ entries }) },
+    "Log usage",
+  );
   if (!res.ok) {
     throw new Error(await getApiErrorMessage(res, "Usage submission failed."));
   }
@@ -521,11 +903,11 @@ export const undoUsageEvent = async (
   itemId: string,
 ): Promise<{ ok: boolean }> => {
   const base = requireBaseUrl();
-  const res = await authFetch(`${base}/inventory/usage/undo`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ eventId, itemId }),
-  });
+  const res = await queueableFetch(
+    `${base}/inventory/usage/undo`,
+    { method: "POST", body: JSON.stringify({ eventId, itemId }) },
+    "Undo usage",
+  );
   if (!res.ok) {
     throw new Error(await getApiErrorMessage(res, "Failed to undo usage event."));
   }
@@ -542,11 +924,11 @@ export const undoRetireEvent = async (
   itemId: string,
 ): Promise<{ ok: boolean }> => {
   const base = requireBaseUrl();
-  const res = await authFetch(`${base}/inventory/items/undo-retire`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ eventId, itemId }),
-  });
+  const res = await queueableFetch(
+    `${base}/inventory/items/undo-retire`,
+    { method: "POST", body: JSON.stringify({ eventId, itemId }) },
+    "Undo retire",
+  );
   if (!res.ok) {
     throw new Error(await getApiErrorMessage(res, "Failed to undo retire event."));
   }
@@ -943,6 +1325,222 @@ export const revokeSupportAccess = async (): Promise<SupportAccessStatus> => {
   };
 };
 
+// ─── Org API Keys ─────────────────────────────────────────────────────────────
+
+/** An org API key as listed in Settings. The secret is never part of this —
+ *  it's returned once, by createApiKey. */
+export type ApiKey = {
+  /** Server-side id (a hash of the secret). Used to revoke. */
+  id: string;
+  name: string;
+  /** Leading characters of the secret, so owners can tell keys apart. */
+  prefix: string;
+  role: string;
+  modules: AppModuleKey[];
+  status: "active" | "revoked";
+  createdAt: string;
+  createdByEmail: string;
+  lastUsedAt: string | null;
+  requestCount: number;
+  revokedAt: string | null;
+};
+
+export type ApiKeyList = {
+  keys: ApiKey[];
+  /** Roles a key may carry (owner rights are never delegated to a key). */
+  roles: string[];
+  /** Modules a new key may be scoped to — the org's enabled modules. */
+  availableModules: AppModuleKey[];
+};
+
+const toApiKey = (k: Record<string, unknown>): ApiKey => ({
+  id: String(k.id ?? ""),
+  name: String(k.name ?? ""),
+  prefix: String(k.prefix ?? ""),
+  role: String(k.role ?? ""),
+  modules: (Array.isArray(k.modules) ? k.modules : []) as AppModuleKey[],
+  status: k.status === "active" ? "active" : "revoked",
+  createdAt: String(k.createdAt ?? ""),
+  createdByEmail: String(k.createdByEmail ?? ""),
+  lastUsedAt: k.lastUsedAt ? String(k.lastUsedAt) : null,
+  requestCount: Number(k.requestCount ?? 0) || 0,
+  revokedAt: k.revokedAt ? String(k.revokedAt) : null,
+});
+
+export const listApiKeys = async (): Promise<ApiKeyList> => {
+  const base = requireBaseUrl();
+  const res = await authFetch(`${base}/inventory/api-keys`);
+  if (!res.ok) throw new Error(await getApiErrorMessage(res, "Failed to load API keys."));
+  const data = await res.json();
+  return {
+    keys: (Array.isArray(data.keys) ? data.keys : []).map(toApiKey),
+    roles: Array.isArray(data.roles) ? data.roles.map(String) : [],
+    availableModules: (Array.isArray(data.availableModules) ? data.availableModules : []) as AppModuleKey[],
+  };
+};
+
+/** Issue a key. The returned `secret` is shown once and can't be fetched again. */
+export const createApiKey = async (input: {
+  name: string;
+  role: string;
+  modules: AppModuleKey[];
+}): Promise<{ key: ApiKey; secret: string }> => {
+  const base = requireBaseUrl();
+  const res = await authFetch(`${base}/inventory/api-keys`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  });
+  if (!res.ok) throw new Error(await getApiErrorMessage(res, "Failed to create API key."));
+  const data = await res.json();
+  return { key: toApiKey(data.key ?? {}), secret: String(data.secret ?? "") };
+};
+
+export const revokeApiKey = async (keyId: string): Promise<ApiKey> => {
+  const base = requireBaseUrl();
+  const res = await authFetch(`${base}/inventory/api-keys/${encodeURIComponent(keyId)}`, {
+    method: "DELETE",
+  });
+  if (!res.ok) throw new Error(await getApiErrorMessage(res, "Failed to revoke API key."));
+  const data = await res.json();
+  return toApiKey(data.key ?? {});
+};
+
+// ─── Webhooks ─────────────────────────────────────────────────────────────────
+
+/** An outbound webhook subscription as listed in Settings. Like API keys, the
+ *  signing secret is returned once, by createWebhook. */
+export type WebhookSubscription = {
+  id: string;
+  url: string;
+  description: string;
+  /** Audit actions (plus the derived STOCK_BELOW_PAR) this endpoint receives. */
+  events: string[];
+  active: boolean;
+  createdAt: string;
+  createdByEmail: string;
+  updatedAt: string | null;
+};
+
+export type WebhookDeliveryStatus = "pending" | "succeeded" | "retrying" | "failed";
+
+export type WebhookDelivery = {
+  id: string;
+  subscriptionId: string;
+  eventType: string;
+  /** The exact JSON body that was POSTed. */
+  payloadJson: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  createdAt: string;
+  lastAttemptAt: string | null;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  responseSnippet: string | null;
+  nextAttemptAt: string | null;
+};
+
+const toWebhookSubscription = (w: Record<string, unknown>): WebhookSubscription => ({
+  id: String(w.id ?? ""),
+  url: String(w.url ?? ""),
+  description: String(w.description ?? ""),
+  events: Array.isArray(w.events) ? w.events.map(String) : [],
+  active: w.active === true,
+  createdAt: String(w.createdAt ?? ""),
+  createdByEmail: String(w.createdByEmail ?? ""),
+  updatedAt: w.updatedAt ? String(w.updatedAt) : null,
+});
+
+const toWebhookDelivery = (d: Record<string, unknown>): WebhookDelivery => ({
+  id: String(d.id ?? ""),
+  subscriptionId: String(d.subscriptionId ?? ""),
+  eventType: String(d.eventType ?? ""),
+  payloadJson: String(d.payloadJson ?? ""),
+  status: (["pending", "succeeded", "retrying", "failed"].includes(String(d.status))
+    ? d.status
+    : "pending") as WebhookDeliveryStatus,
+  attempts: Number(d.attempts ?? 0) || 0,
+  createdAt: String(d.createdAt ?? ""),
+  lastAttemptAt: d.lastAttemptAt ? String(d.lastAttemptAt) : null,
+  lastStatusCode: d.lastStatusCode == null ? null : Number(d.lastStatusCode),
+  lastError: d.lastError ? String(d.lastError) : null,
+  responseSnippet: d.responseSnippet ? String(d.responseSnippet) : null,
+  nextAttemptAt: d.nextAttemptAt ? String(d.nextAttemptAt) : null,
+});
+
+export const listWebhooks = async (): Promise<{ subscriptions: WebhookSubscription[]; eventTypes: string[] }> => {
+  const base = requireBaseUrl();
+  const res = await authFetch(`${base}/inventory/webhooks`);
+  if (!res.ok) throw new Error(await getApiErrorMessage(res, "Failed to load webhooks."));
+  const data = await res.json();
+  return {
+    subscriptions: (Array.isArray(data.subscriptions) ? data.subscriptions : []).map(toWebhookSubscription),
+    eventTypes: Array.isArray(data.eventTypes) ? data.eventTypes.map(String) : [],
+  };
+};
+
+/** Add a subscription. The returned `secret` is shown once and can't be fetched again. */
+export const createWebhook = async (input: {
+  url: string;
+  events: string[];
+  description?: string;
+}): Promise<{ subscription: WebhookSubscription; secret: string }> => {
+  const base = requireBaseUrl();
+  const res = await authFetch(`${base}/inventory/webhooks`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  });
+  if (!res.ok) throw new Error(await getApiErrorMessage(res, "Failed to create webhook."));
+  const data = await res.json();
+  return { subscription: toWebhookSubscription(data.subscription ?? {}), secret: String(data.secret ?? "") };
+};
+
+export const updateWebhook = async (
+  id: string,
+  patch: { url?: string; events?: string[]; description?: string; active?: boolean },
+): Promise<WebhookSubscription> => {
+  const base = requireBaseUrl();
+  const res = await authFetch(`${base}/inventory/webhooks/${encodeURIComponent(id)}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(patch),
+  });
+  if (!res.ok) throw new Error(await getApiErrorMessage(res, "Failed to update webhook."));
+  const data = await res.json();
+  return toWebhookSubscription(data.subscription ?? {});
+};
+
+export const deleteWebhook = async (id: string): Promise<void> => {
+  const base = requireBaseUrl();
+  const res = await authFetch(`${base}/inventory/webhooks/${encodeURIComponent(id)}`, {
+    method: "DELETE",
+  });
+  if (!res.ok) throw new Error(await getApiErrorMessage(res, "Failed to delete webhook."));
+};
+
+/** Most recent deliveries (newest first), optionally for one subscription. */
+export const listWebhookDeliveries = async (subscriptionId?: string): Promise<WebhookDelivery[]> => {
+  const base = requireBaseUrl();
+  const qs = subscriptionId ? `?subscriptionId=${encodeURIComponent(subscriptionId)}` : "";
+  const res = await authFetch(`${base}/inventory/webhooks/deliveries${qs}`);
+  if (!res.ok) throw new Error(await getApiErrorMessage(res, "Failed to load webhook deliveries."));
+  const data = await res.json();
+  return (Array.isArray(data.deliveries) ? data.deliveries : []).map(toWebhookDelivery);
+};
+
+/** Resend a delivery's original payload now. Returns the delivery with the
+ *  outcome of this attempt. */
+export const redeliverWebhook = async (deliveryId: string): Promise<WebhookDelivery> => {
+  const base = requireBaseUrl();
+  const res = await authFetch(`${base}/inventory/webhooks/deliveries/${encodeURIComponent(deliveryId)}/redeliver`, {
+    method: "POST",
+  });
+  if (!res.ok) throw new Error(await getApiErrorMessage(res, "Failed to redeliver webhook."));
+  const data = await res.json();
+  return toWebhookDelivery(data.delivery ?? {});
+};
+
 // ─── Org Module Management ────────────────────────────────────────────────────
 
 export type OrgModulesState = {
@@ -1076,6 +1674,60 @@ export const fetchInventoryAlertSummary = async (): Promise<InventoryAlertSummar
   }
 };
 
+// ─── Alert Email Digest ───────────────────────────────────────────────────────
+
+export type AlertDigestCadence = "daily" | "weekly";
+
+/** The signed-in user's expiration / low-stock email digest subscription.
+ *  `locationIds` empty = every location. Mirrors the backend type. */
+export type AlertDigestSubscription = {
+  enabled: boolean;
+  cadence: AlertDigestCadence;
+  locationIds: string[];
+  updatedAt?: string;
+  lastSentAt?: string;
+};
+
+export type AlertDigestState = {
+  subscription: AlertDigestSubscription;
+  /** Address the digest is sent to (the account email). Empty if unknown. */
+  email: string;
+};
+
+const parseAlertDigestState = (data: Record<string, unknown>): AlertDigestState => {
+  const sub = (data.subscription ?? {}) as Record<string, unknown>;
+  return {
+    subscription: {
+      enabled: sub.enabled === true,
+      cadence: sub.cadence === "weekly" ? "weekly" : "daily",
+      locationIds: Array.isArray(sub.locationIds) ? sub.locationIds.map(String) : [],
+      updatedAt: typeof sub.updatedAt === "string" ? sub.updatedAt : undefined,
+      lastSentAt: typeof sub.lastSentAt === "string" ? sub.lastSentAt : undefined,
+    },
+    email: String(data.email ?? ""),
+  };
+};
+
+export const getAlertDigestSubscription = async (): Promise<AlertDigestState> => {
+  const base = requireBaseUrl();
+  const res = await authFetch(`${base}/inventory/alert-digest`);
+  if (!res.ok) throw new Error(await getApiErrorMessage(res, "Failed to load email digest settings."));
+  return parseAlertDigestState(await res.json());
+};
+
+export const saveAlertDigestSubscription = async (
+  subscription: Pick<AlertDigestSubscription, "enabled" | "cadence" | "locationIds">,
+): Promise<AlertDigestState> => {
+  const base = requireBaseUrl();
+  const res = await authFetch(`${base}/inventory/alert-digest`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(subscription),
+  });
+  if (!res.ok) throw new Error(await getApiErrorMessage(res, "Failed to save email digest settings."));
+  return parseAlertDigestState(await res.json());
+};
+
 // ─── Location Registry (id-keyed post-restructure) ───────────────────────────
 
 /** Try to extract a human-readable error from a JSON response body. */
@@ -1227,16 +1879,53 @@ export const moveInventoryItems = async (
   locationId: string,
 ): Promise<{ movedCount: number }> => {
   const base = requireBaseUrl();
-  const res = await authFetch(`${base}/inventory/items/move`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ rowIds, locationId }),
-  });
+  const res = await queueableFetch(
+    `${base}/inventory/items/move`,
+    { method: "POST", body: JSON.stringify({ rowIds, locationId }) },
+    "Move items",
+  );
   if (!res.ok) throw new Error(await getApiErrorMessage(res, "Failed to move items"));
   const data = await res.json();
   return { movedCount: Number(data.movedCount ?? 0) };
 };
 
+export type TransferInventoryItemResult = {
+  sourceItemId: string;
+  sourceQuantity: number;
+  /** Row the stock landed on — an existing lot when `merged`, else a new one. */
+  destItemId: string;
+  /** Leaf the stock landed on (a station resolves to its default bucket). */
+  destLocationId: string;
+  destQuantity: number;
+  merged: boolean;
+};
+
+/** Partial-quantity transfer: splits one lot, decrementing the source row and
+ *  creating or topping up the matching lot at the destination leaf. Emits one
+ *  ITEM_TRANSFER audit event covering both sides. */
+export const transferInventoryItem = async (
+  rowId: string,
+  quantity: number,
+  locationId: string,
+): Promise<TransferInventoryItemResult> => {
+  const base = requireBaseUrl();
+  const res = await queueableFetch(
+    `${base}/inventory/items/transfer`,
+    { method: "POST", body: JSON.stringify({ rowId, quantity, locationId }) },
+    "Transfer stock",
+  );
+  if (!res.ok) throw new Error(await getApiErrorMessage(res, "Failed to transfer item"));
+  const data = await res.json();
+  return {
+    sourceItemId: String(data.sourceItemId ?? rowId),
+    sourceQuantity: Number(data.sourceQuantity ?? 0),
+    destItemId: String(data.destItemId ?? ""),
+    destLocationId: String(data.destLocationId ?? locationId),
+    destQuantity: Number(data.destQuantity ?? 0),
+    merged: data.merged === true,
+  };
+};
+
 /**
  * Update the per-location attachments on a custom column. Setting an empty
  * array hides the column everywhere; setting all location ids attaches it
@@ -1500,6 +2189,22 @@ export const updateItemPricing = async (updates: Array<{
   return res.json();
 };
 
+/** Attach a manufacturer barcode to an item. Applies to every lot sharing
+ *  the item's name; 409 when the code already belongs to another item. */
+export const linkItemGtin = async (
+  itemId: string,
+  gtin: string,
+): Promise<{ gtin: string; updatedItemIds: string[] }> => {
+  const res = await authFetch(`${INVENTORY_API_BASE_URL}/inventory/items/gtin`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ itemId, gtin }),
+  });
+  if (!res.ok) throw new Error(await getApiErrorMessage(res, "Failed to link barcode."));
+  const data = (await res.json()) as { gtin: string; updatedItemIds?: string[] };
+  return { gtin: data.gtin, updatedItemIds: Array.isArray(data.updatedItemIds) ? data.updatedItemIds : [] };
+};
+
 export const fetchAuditFeed = async (params: {
   limit?: number;
   cursor?: string;
@@ -1536,6 +2241,129 @@ export const fetchItemHistory = async (
   return res.json();
 };
 
+/** Filters for the activity export. Timestamps are ISO; `actions` empty = all. */
+export type AuditExportFilters = {
+  startAfter?: string;
+  endBefore?: string;
+  actions?: string[];
+  userId?: string;
+  locationId?: string;
+  itemName?: string;
+};
+
+/** Export the activity log (admin-only), following the server's pages until
+ *  done. Resolves the full file text: CSV, or a JSON document of flattened
+ *  events. `onProgress` gets the running row count after each page. */
+export const exportAuditLog = async (
+  format: "csv" | "json",
+  filters: AuditExportFilters,
+  onProgress?: (rowCount: number) => void,
+): Promise<string> => {
+  const base = new URLSearchParams({ format });
+  if (filters.startAfter) base.set("startAfter", filters.startAfter);
+  if (filters.endBefore) base.set("endBefore", filters.endBefore);
+  if (filters.actions && filters.actions.length > 0) base.set("action", filters.actions.join(","));
+  if (filters.userId) base.set("userId", filters.userId);
+  if (filters.locationId) base.set("locationId", filters.locationId);
+  if (filters.itemName) base.set("itemName", filters.itemName);
+  const csvChunks: string[] = [];
+  const events: unknown[] = [];
+  let rowCount = 0;
+  let cursor: string | null = null;
+  do {
+    const qs = new URLSearchParams(base);
+    if (cursor) qs.set("cursor", cursor);
+    const res = await authFetch(`${INVENTORY_API_BASE_URL}/inventory/audit/export?${qs}`);
+    if (!res.ok) throw new Error(await getApiErrorMessage(res, "Failed to export activity."));
+    const page = (await res.json()) as { csv?: string; events?: unknown[]; rowCount?: number; nextCursor?: string | null };
+    if (format === "csv" && page.csv) csvChunks.push(page.csv);
+    if (format === "json" && Array.isArray(page.events)) events.push(...page.events);
+    rowCount += Number(page.rowCount ?? 0);
+    onProgress?.(rowCount);
+    cursor = page.nextCursor ?? null;
+  } while (cursor);
+  if (format === "csv") return csvChunks.join("\n");
+  return JSON.stringify({ exportedAt: new Date().toISOString(), filters, events }, null, 2);
+};
+
+/** How long the org keeps its activity log. The first `hotDays` are served
+ *  from the live audit table; older events come from the archive. */
+export type AuditRetention = {
+  retentionYears: number;
+  hotDays: number;
+  options: number[];
+};
+
+const toAuditRetention = (data: Partial<AuditRetention>): AuditRetention => ({
+  retentionYears: Number(data.retentionYears ?? 0),
+  hotDays: Number(data.hotDays ?? 365),
+  options: Array.isArray(data.options) ? data.options.map(Number) : [],
+});
+
+export const fetchAuditRetention = async (): Promise<AuditRetention> => {
+  const res = await authFetch(`${INVENTORY_API_BASE_URL}/inventory/audit/retention`);
+  if (!res.ok) throw new Error(await getApiErrorMessage(res, "Failed to load activity retention."));
+  return toAuditRetention(await res.json());
+};
+
+/** Owner-only. Shortening the period lets the next archive sweep delete
+ *  archived events older than the new limit. */
+export const saveAuditRetention = async (retentionYears: number): Promise<AuditRetention> => {
+  const res = await authFetch(`${INVENTORY_API_BASE_URL}/inventory/audit/retention`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ retentionYears }),
+  });
+  if (!res.ok) throw new Error(await getApiErrorMessage(res, "Failed to save activity retention."));
+  return toAuditRetention(await res.json());
+};
+
+/** A break in the activity log's hash chain, as reported by the verifier. */
+export type AuditChainIssue = {
+  kind: "missing" | "altered" | "broken_link" | "duplicate" | "unchained" | "head_mismatch" | "unbacked_undo";
+  seq?: number;
+  fromSeq?: number;
+  toSeq?: number;
+  eventId?: string;
+  action?: string;
+  timestamp?: string;
+};
+
+export type AuditVerification = {
+  /** Chained events whose hash and link were checked. */
+  checked: number;
+  /** Events from before the chain existed (not verifiable). */
+  legacy: number;
+  /** Events that aged out of hot retention and are no longer in the table. */
+  expired: number;
+  issues: AuditChainIssue[];
+  issuesTruncated: boolean;
+  /** Chain length when the walk began. */
+  headSeq: number;
+};
+
+/** Verify the activity log's hash chain (owner-only), following the server's
+ *  pages until the walk is done. `onProgress` gets the running checked count. */
+export const verifyAuditLog = async (onProgress?: (checked: number) => void): Promise<AuditVerification> => {
+  const result: AuditVerification = { checked: 0, legacy: 0, expired: 0, issues: [], issuesTruncated: false, headSeq: 0 };
+  let cursor: string | null = null;
+  do {
+    const qs = cursor ? `?${new URLSearchParams({ cursor })}` : "";
+    const res = await authFetch(`${INVENTORY_API_BASE_URL}/inventory/audit/verify${qs}`);
+    if (!res.ok) throw new Error(await getApiErrorMessage(res, "Failed to verify the activity log."));
+    const page = (await res.json()) as Partial<AuditVerification> & { nextCursor?: string | null };
+    result.checked += Number(page.checked ?? 0);
+    result.legacy += Number(page.legacy ?? 0);
+    result.expired += Number(page.expired ?? 0);
+    if (Array.isArray(page.issues)) result.issues.push(...page.issues);
+    result.issuesTruncated = result.issuesTruncated || !!page.issuesTruncated;
+    if (!cursor) result.headSeq = Number(page.headSeq ?? 0);
+    onProgress?.(result.checked);
+    cursor = page.nextCursor ?? null;
+  } while (cursor);
+  return result;
+};
+
 /** History for a LOGICAL item (by name) — merges the audit events of every lot
  *  row that shares this name, so a multi-lot item (expiration lots, per-location
  *  rows) reads as one item. Returns a bounded merged list (no cursor). */
@@ -1548,6 +2376,35 @@ export const fetchItemHistoryByName = async (
   return res.json();
 };
 
+/** A row holding the traced lot/serial code right now. */
+export type LotTraceHolding = {
+  itemId: string;
+  itemName: string;
+  locationId: string;
+  locationName: string;
+  quantity: number;
+  retired: boolean;
+  expirationDate?: string;
+  lotNumber?: string;
+  serialNumber?: string;
+};
+
+export type LotTraceResponse = {
+  code: string;
+  holdings: LotTraceHolding[];
+  /** Every event that stamped the code, oldest first. */
+  events: AuditEvent[];
+};
+
+/** Recall trace for a lot or serial number: where it is now and everything
+ *  that happened to it (received, moved, used, retired, adjusted). */
+export const fetchLotTrace = async (code: string): Promise<LotTraceResponse> => {
+  const url = `${INVENTORY_API_BASE_URL}/inventory/audit/lot-trace?code=${encodeURIComponent(code)}`;
+  const res = await authFetch(url);
+  if (!res.ok) throw new Error(await getApiErrorMessage(res, "Failed to trace lot."));
+  return res.json();
+};
+
 export const fetchAuditAnalytics = async (params: {
   period: "7d" | "30d" | "90d";
   /** When true, the server also returns a `previous` aggregation for the same
@@ -1663,6 +2520,9 @@ export type RestockOrderItem = {
   // For freeform items: pack cost (price per box). Persisted to the new
   // inventory row on receive.
   packCost?: number;
+  /** Manufacturer barcode (UPC/EAN/GTIN) snapshotted at order time so the
+   *  receive form can match a scan to this line. */
+  gtin?: string;
   // ── 1b: amount/UoM/price model (additive) ─────────────────────────────────
   // Mirrors the backend RestockOrderItem extension. See
   // amplify/functions/inventoryApi/src/types.ts for full notes. Optional in
@@ -1686,6 +2546,11 @@ export type RestockReceiveLine = {
   itemId: string;
   qtyThisReceive: number;
   expirationDate?: string;
+  /** Manufacturer lot code. A code the destination doesn't hold yet lands as
+   *  a new lot row. */
+  lotNumber?: string;
+  /** Serialized unit — the server requires qtyThisReceive === 1. */
+  serialNumber?: string;
   unitCost?: number;
   addToInventory?: boolean;
 };
@@ -1701,7 +2566,10 @@ export type RestockReceiveEvent = {
 export type RestockOrder = {
   id: string;
   orgId: string;
-  status: "open" | "partial" | "closed";
+  /** "draft" = generated from par levels, not yet placed with the vendor.
+   *  "pending_approval" = held by an approval rule until an approver
+   *  approves (→ open) or rejects (→ closed) it. */
+  status: "draft" | "pending_approval" | "open" | "partial" | "closed";
   vendor?: string;
   notes?: string;
   createdAt: string;
@@ -1711,6 +2579,15 @@ export type RestockOrder = {
   receives: RestockReceiveEvent[];
   closedAt?: string;
   closedByName?: string;
+  /** Names of the approval rules the order matched, and its total then. */
+  approvalReasons?: string[];
+  approvalTotal?: number;
+  approvalDecision?: "approved" | "rejected";
+  approvalDecidedAt?: string;
+  approvalDecidedByName?: string;
+  approvalNote?: string;
+  /** The caller may approve or reject this held order. */
+  canDecide?: boolean;
 };
 
 export const listRestockOrders = async (): Promise<RestockOrder[]> => {
@@ -1736,6 +2613,9 @@ export const createRestockOrder = async (payload: {
     minQuantity?: number;
     packSize?: number;
     packCost?: number;
+    /** Manufacturer barcode for freeform lines. Linked items fall back to
+     *  the item's stored GTIN server-side. */
+    gtin?: string;
     /** 1b: optional amount/UoM/price triplet. Server derives
      *  pricePerCanonical from these via uom.ts; clients don't compute it. */
     purchaseAmount?: number;
@@ -1745,12 +2625,12 @@ export const createRestockOrder = async (payload: {
      *  when absent so older clients keep working. */
     dimension?: "count" | "weight" | "volume";
   }>;
-}): Promise<{ orderId: string }> => {
-  const res = await authFetch(`${INVENTORY_API_BASE_URL}/inventory/restock/orders`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(payload),
-  });
+}): Promise<{ orderId: string; status: RestockOrder["status"] }> => {
+  const res = await queueableFetch(
+    `${INVENTORY_API_BASE_URL}/inventory/restock/orders`,
+    { method: "POST", body: JSON.stringify(payload) },
+    "Create order",
+  );
   if (!res.ok) throw new Error(await getApiErrorMessage(res, "Failed to create restock order."));
   return res.json();
 };
@@ -1767,11 +2647,11 @@ export const receiveRestockOrder = async (
   // info/log filtering. If even this doesn't appear in the console, the
   // frontend is serving stale code — hard refresh required.
   console.warn("[receive] →", { orderId, payload });
-  const res = await authFetch(`${INVENTORY_API_BASE_URL}/inventory/restock/orders/${encodeURIComponent(orderId)}/receive`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(payload),
-  });
+  const res = await queueableFetch(
+    `${INVENTORY_API_BASE_URL}/inventory/restock/orders/${encodeURIComponent(orderId)}/receive`,
+    { method: "POST", body: JSON.stringify(payload) },
+    "Receive order",
+  );
   if (!res.ok) {
     const msg = await getApiErrorMessage(res, "Failed to receive restock order.");
     console.error("[receive] ← FAILED", res.status, msg);
@@ -1791,16 +2671,149 @@ export const receiveRestockOrder = async (
 };
 
 export const closeRestockOrder = async (orderId: string, note?: string): Promise<void> => {
-  const res = await authFetch(`${INVENTORY_API_BASE_URL}/inventory/restock/orders/${encodeURIComponent(orderId)}/close`, {
+  const res = await queueableFetch(
+    `${INVENTORY_API_BASE_URL}/inventory/restock/orders/${encodeURIComponent(orderId)}/close`,
+    { method: "POST", ...(note && note.trim() ? { body: JSON.stringify({ note: note.trim() }) } : {}) },
+    "Close order",
+  );
+  if (!res.ok) throw new Error(await getApiErrorMessage(res, "Failed to close restock order."));
+};
+
+/** Place a draft order with its vendor (draft → open, or pending_approval
+ *  when an approval rule holds it). */
+export const placeRestockOrder = async (orderId: string): Promise<{ status: RestockOrder["status"] }> => {
+  const res = await queueableFetch(
+    `${INVENTORY_API_BASE_URL}/inventory/restock/orders/${encodeURIComponent(orderId)}/place`,
+    { method: "POST" },
+    "Place order",
+  );
+  if (!res.ok) throw new Error(await getApiErrorMessage(res, "Failed to place restock order."));
+  return res.json();
+};
+
+// ─── Order approvals ──────────────────────────────────────────────────────────
+
+/** Holds matching orders for sign-off. Every condition that's set must
+ *  match; a location covers its sublocations. */
+export type OrderApprovalRule = {
+  id: string;
+  name: string;
+  minTotal?: number;
+  vendor?: string;
+  locationId?: string;
+};
+
+export type OrderApprovalSettings = {
+  rules: OrderApprovalRule[];
+  approverRoles: string[];
+  roleOptions: string[];
+  /** The caller holds one of the approver roles. */
+  canApprove: boolean;
+};
+
+export type OrderApprovalDecisionNotice = {
+  orderId: string;
+  vendor: string;
+  total: number;
+  decision: "approved" | "rejected";
+  decidedAt: string;
+  decidedByName: string;
+  note?: string;
+};
+
+export const fetchOrderApprovalSettings = async (): Promise<OrderApprovalSettings> => {
+  const res = await authFetch(`${requireBaseUrl()}/inventory/restock/approval-settings`);
+  if (!res.ok) throw new Error(await getApiErrorMessage(res, "Failed to load order approval rules."));
+  return res.json();
+};
+
+/** Admin: replace the rules and approver roles. Rules without an id are new. */
+export const saveOrderApprovalSettings = async (settings: {
+  rules: Array<Omit<OrderApprovalRule, "id"> & { id?: string }>;
+  approverRoles: string[];
+}): Promise<OrderApprovalSettings> => {
+  const res = await authFetch(`${requireBaseUrl()}/inventory/restock/approval-settings`, {
     method: "POST",
-    ...(note && note.trim()
-      ? {
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ note: note.trim() }),
-        }
-      : {}),
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(settings),
   });
-  if (!res.ok) throw new Error(await getApiErrorMessage(res, "Failed to close restock order."));
+  if (!res.ok) throw new Error(await getApiErrorMessage(res, "Failed to save order approval rules."));
+  return res.json();
+};
+
+export const approveRestockOrder = async (orderId: string, note?: string): Promise<void> => {
+  const res = await queueableFetch(
+    `${requireBaseUrl()}/inventory/restock/orders/${encodeURIComponent(orderId)}/approve`,
+    { method: "POST", body: JSON.stringify(note && note.trim() ? { note: note.trim() } : {}) },
+    "Approve order",
+  );
+  if (!res.ok) throw new Error(await getApiErrorMessage(res, "Failed to approve the order."));
+};
+
+/** Reject a held order; `note` (the reason) is required. */
+export const rejectRestockOrder = async (orderId: string, note: string): Promise<void> => {
+  const res = await queueableFetch(
+    `${requireBaseUrl()}/inventory/restock/orders/${encodeURIComponent(orderId)}/reject`,
+    { method: "POST", body: JSON.stringify({ note: note.trim() }) },
+    "Reject order",
+  );
+  if (!res.ok) throw new Error(await getApiErrorMessage(res, "Failed to reject the order."));
+};
+
+/** Decisions on the caller's own orders they haven't dismissed, and how many
+ *  orders are waiting on them as an approver. */
+export const fetchApprovalNotices = async (): Promise<{
+  decisions: OrderApprovalDecisionNotice[];
+  awaitingCount: number;
+}> => {
+  const res = await authFetch(`${requireBaseUrl()}/inventory/restock/approval-notices`);
+  if (!res.ok) throw new Error(await getApiErrorMessage(res, "Failed to load approval notices."));
+  return res.json();
+};
+
+export const dismissApprovalNotice = async (orderId: string): Promise<void> => {
+  const res = await authFetch(
+    `${requireBaseUrl()}/inventory/restock/orders/${encodeURIComponent(orderId)}/dismiss-approval`,
+    { method: "POST" },
+  );
+  if (!res.ok) throw new Error(await getApiErrorMessage(res, "Failed to dismiss the notice."));
+};
+
+export type GeneratedRestockLine = {
+  itemId: string;
+  itemName: string;
+  locationId: string;
+  onHand: number;
+  minQuantity: number;
+  parQuantity?: number;
+  /** Outstanding qty already on unclosed orders for this item + location. */
+  onOrder: number;
+  qtyOrdered: number;
+  unitCost?: number;
+  packSize?: number;
+};
+
+export type GeneratedRestockOrders = {
+  /** One per preferred vendor. `orderId` is set once the draft is created. */
+  orders: Array<{ vendor: string; lines: GeneratedRestockLine[]; orderId?: string; error?: string }>;
+  /** Below-min items that couldn't be ordered (e.g. no vendor). */
+  skipped: Array<{ itemName: string; locationId: string; reason: string }>;
+};
+
+/** Plan draft restock orders that fill every below-min item back to par.
+ *  With `preview` nothing is created. `locationId` narrows to a location and
+ *  its sublocations. */
+export const generateRestockOrders = async (options: {
+  locationId?: string;
+  preview?: boolean;
+}): Promise<GeneratedRestockOrders> => {
+  const res = await authFetch(`${INVENTORY_API_BASE_URL}/inventory/restock/generate`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(options),
+  });
+  if (!res.ok) throw new Error(await getApiErrorMessage(res, "Failed to generate restock orders."));
+  return res.json();
 };
 
 // ─── Price history (1d) ───────────────────────────────────────────────────────
@@ -1884,6 +2897,9 @@ export type ItemVendorPricingEntry = {
 
   packLabel?: string;
   reorderUrl?: string;
+  /** Vendor-specific barcode (a case GTIN-14, say) when it differs from the
+   *  item's own. Receive matches scans against both. */
+  gtin?: string;
   /** Optimistic-lock token. Pass back on the next upsert as
    *  `expectedLastUpdatedAt` to detect concurrent edits. */
   lastUpdatedAt: string;
@@ -1907,6 +2923,8 @@ export const upsertItemVendorPricing = async (input: {
   packCost?: number;
   packLabel?: string;
   reorderUrl?: string;
+  /** Empty string clears. Server rejects malformed codes with 400. */
+  gtin?: string;
   expectedLastUpdatedAt?: string;
   expectAnyVersion?: boolean;
 }): Promise<ItemVendorPricingEntry> => {
@@ -1995,6 +3013,427 @@ export const setAllowedUnits = async (
   };
 };
 
+// ─── Expiration warning window ────────────────────────────────────────────────
+
+const parseExpirationSettings = (raw: unknown): ExpirationSettings => {
+  if (!raw || typeof raw !== "object") return DEFAULT_EXPIRATION_SETTINGS;
+  const data = raw as Record<string, unknown>;
+  const itemColumnKey = typeof data.itemColumnKey === "string" ? data.itemColumnKey.trim() : "";
+  return {
+    defaultWarningDays:
+      parseWarningDays(data.defaultWarningDays) ?? DEFAULT_EXPIRATION_SETTINGS.defaultWarningDays,
+    ...(itemColumnKey ? { itemColumnKey } : {}),
+    rules: (Array.isArray(data.rules) ? data.rules : [])
+      .map((r: Record<string, unknown>) => ({
+        columnKey: String(r?.columnKey ?? ""),
+        value: String(r?.value ?? ""),
+        warningDays: parseWarningDays(r?.warningDays) ?? 0,
+      }))
+      .filter((r) => r.columnKey && r.value && r.warningDays > 0),
+  };
+};
+
+export const loadExpirationSettings = async (): Promise<ExpirationSettings> => {
+  const res = await authFetch(`${INVENTORY_API_BASE_URL}/inventory/expiration-settings`);
+  if (!res.ok) throw new Error(await getApiErrorMessage(res, "Failed to load expiration warnings."));
+  return parseExpirationSettings(await res.json());
+};
+
+/** Replace the org's expiration warning configuration. Admin-only; the
+ *  server validates column keys and day ranges. */
+export const saveExpirationSettings = async (
+  settings: ExpirationSettings,
+): Promise<ExpirationSettings> => {
+  const res = await authFetch(`${INVENTORY_API_BASE_URL}/inventory/expiration-settings`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(settings),
+  });
+  if (!res.ok) throw new Error(await getApiErrorMessage(res, "Failed to save expiration warnings."));
+  return parseExpirationSettings(await res.json());
+};
+
+// ─── Budgets ──────────────────────────────────────────────────────────────────
+
+/** A supply budget for one fiscal period, scoped to a location (a station
+ *  covers its sublocations) and/or one value of a groupable column. */
+export type InventoryBudget = {
+  id: string;
+  name: string;
+  locationId?: string;
+  columnKey?: string;
+  columnValue?: string;
+  /** Inclusive "YYYY-MM-DD" bounds. */
+  periodStart: string;
+  periodEnd: string;
+  amount: number;
+};
+
+/** A budget with its spend: `actual` received, `committed` still to arrive on
+ *  open orders, and the share of the period gone by (`elapsed`, 0–1). */
+export type BudgetStatus = InventoryBudget & {
+  actual: number;
+  committed: number;
+  remaining: number;
+  status: "ok" | "warning" | "over";
+  elapsed: number;
+  byMonth: Array<{ month: string; actual: number }>;
+};
+
+export const listBudgets = async (): Promise<BudgetStatus[]> => {
+  const res = await authFetch(`${requireBaseUrl()}/inventory/budgets`);
+  if (!res.ok) throw new Error(await getApiErrorMessage(res, "Failed to load budgets."));
+  const data = await res.json();
+  return (data.budgets ?? []) as BudgetStatus[];
+};
+
+/** Create a budget, or replace the one with `id`. Admin-only. */
+export const saveBudget = async (
+  budget: Omit<InventoryBudget, "id"> & { id?: string },
+): Promise<InventoryBudget> => {
+  const res = await authFetch(`${requireBaseUrl()}/inventory/budgets`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(budget),
+  });
+  if (!res.ok) throw new Error(await getApiErrorMessage(res, "Failed to save the budget."));
+  const data = await res.json();
+  return data.budget as InventoryBudget;
+};
+
+export const deleteBudget = async (id: string): Promise<void> => {
+  const res = await authFetch(`${requireBaseUrl()}/inventory/budgets/${encodeURIComponent(id)}`, {
+    method: "DELETE",
+  });
+  if (!res.ok) throw new Error(await getApiErrorMessage(res, "Failed to delete the budget."));
+};
+
+// ─── Usage forecast ───────────────────────────────────────────────────────────
+
+export type ForecastMethod = "moving-average" | "weighted-trend";
+
+/** Consumption at one location for one item (grouped by lowercased name). */
+export type ConsumptionRate = {
+  itemName: string;
+  locationId: string;
+  dailyRate: number;
+  usedInWindow: number;
+  /** Typical days between receipts — the org's when the item has no history. */
+  orderCycleDays: number;
+};
+
+export type UsageForecast = {
+  method: ForecastMethod;
+  windowDays: number;
+  orderCycleDays: number;
+  rates: ConsumptionRate[];
+};
+
+export const fetchUsageForecast = async (options: {
+  method: ForecastMethod;
+  windowDays?: number;
+}): Promise<UsageForecast> => {
+  const params = new URLSearchParams({ method: options.method });
+  if (options.windowDays) params.set("windowDays", String(options.windowDays));
+  const res = await authFetch(`${requireBaseUrl()}/inventory/forecast?${params}`);
+  if (!res.ok) {
+    throw new Error(await getApiErrorMessage(res, "Failed to load the usage forecast."));
+  }
+  return (await res.json()) as UsageForecast;
+};
+
+// ─── Reorder-point recommendations ────────────────────────────────────────────
+
+/** Recommended min (reorder point) and par for one item at one location. */
+export type ReorderRecommendation = {
+  itemName: string;
+  locationId: string;
+  /** Highest min / par across the item's lots there today. */
+  currentMin: number;
+  currentPar: number;
+  unitCost: number | null;
+  vendor: string;
+  dailyUsage: number;
+  leadTimeDays: number;
+  leadTimeSource: "item" | "vendor" | "org" | "default";
+  safetyStock: number;
+  reorderPoint: number;
+  /** Economic order quantity; null when the item has no unit cost. */
+  orderQuantity: number | null;
+  recommendedPar: number | null;
+};
+
+export const fetchReorderRecommendations = async (options: {
+  locationId?: string;
+  itemId?: string;
+} = {}): Promise<{ windowDays: number; recommendations: ReorderRecommendation[] }> => {
+  const params = new URLSearchParams();
+  if (options.locationId) params.set("locationId", options.locationId);
+  if (options.itemId) params.set("itemId", options.itemId);
+  const qs = params.toString();
+  const res = await authFetch(`${requireBaseUrl()}/inventory/reorder-recommendations${qs ? `?${qs}` : ""}`);
+  if (!res.ok) {
+    throw new Error(await getApiErrorMessage(res, "Failed to load reorder recommendations."));
+  }
+  return res.json();
+};
+
+/** Admin: write accepted recommendations onto every lot of each item at its
+ *  location. Each changed lot is logged as an item edit in Activity;
+ *  `busyCount` lots kept changing under the write and were left as they are. */
+export const acceptReorderRecommendations = async (items: Array<{
+  itemName: string;
+  locationId: string;
+  minQuantity: number;
+  parQuantity?: number;
+}>): Promise<{ updatedCount: number; busyCount: number }> => {
+  const res = await authFetch(`${requireBaseUrl()}/inventory/reorder-recommendations/accept`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ items }),
+  });
+  if (!res.ok) {
+    throw new Error(await getApiErrorMessage(res, "Failed to accept reorder recommendations."));
+  }
+  return res.json();
+};
+
+// ─── Cycle counts ─────────────────────────────────────────────────────────────
+
+export type CycleCountStatus = "open" | "posted" | "cancelled";
+
+export type CycleCountSessionSummary = {
+  id: string;
+  status: CycleCountStatus;
+  locationId: string;
+  locationName: string;
+  notes?: string;
+  createdAt: string;
+  createdByName: string;
+  closedAt?: string;
+  closedByName?: string;
+  lineCount: number;
+  countedLineCount: number;
+  /** Present once posted. */
+  result?: {
+    adjustedCount: number;
+    unchangedCount: number;
+    uncountedCount: number;
+    skippedCount: number;
+    netDelta: number;
+  };
+};
+
+/** A line on the blind count sheet — no book quantity. */
+export type CycleCountSheetLine = {
+  itemId: string;
+  itemName: string;
+  locationId: string;
+  locationName: string;
+  expirationDate?: string;
+  lotNumber?: string;
+  serialNumber?: string;
+  /** What the current user entered, or null if they haven't counted it. */
+  myCount: number | null;
+  /** How many people have counted this lot so far. */
+  counterCount: number;
+};
+
+export type CycleCountSheet = {
+  session: CycleCountSessionSummary;
+  lines: CycleCountSheetLine[];
+};
+
+export type CycleCountEntry = {
+  userId: string;
+  userName: string;
+  qty: number;
+  countedAt: string;
+};
+
+export type CycleCountVarianceLine = {
+  itemId: string;
+  itemName: string;
+  locationId: string;
+  locationName: string;
+  expirationDate?: string;
+  lotNumber?: string;
+  serialNumber?: string;
+  bookQtyAtOpen: number;
+  /** Live on-hand; null when the lot was deleted or retired mid-count. */
+  currentQty: number | null;
+  countedQty: number | null;
+  /** What posting sets the lot to: the count plus movement since open. */
+  postedQty: number | null;
+  /** postedQty − currentQty: what posting applies. */
+  variance: number | null;
+  movedSinceOpen: boolean;
+  countsDisagree: boolean;
+  counts: CycleCountEntry[];
+};
+
+export const listCycleCounts = async (): Promise<CycleCountSessionSummary[]> => {
+  const res = await authFetch(`${INVENTORY_API_BASE_URL}/inventory/cycle-counts`);
+  if (!res.ok) throw new Error(await getApiErrorMessage(res, "Failed to load counts."));
+  const data = (await res.json()) as { sessions?: CycleCountSessionSummary[] };
+  return Array.isArray(data.sessions) ? data.sessions : [];
+};
+
+/** Open a count of a location (a station covers its sublocations). Editors
+ *  only; 409 when an open count already covers any of the same shelves. */
+export const openCycleCount = async (
+  locationId: string,
+  notes?: string,
+): Promise<CycleCountSessionSummary> => {
+  const res = await authFetch(`${INVENTORY_API_BASE_URL}/inventory/cycle-counts`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ locationId, ...(notes ? { notes } : {}) }),
+  });
+  if (!res.ok) throw new Error(await getApiErrorMessage(res, "Failed to start the count."));
+  const data = (await res.json()) as { session: CycleCountSessionSummary };
+  return data.session;
+};
+
+export const loadCycleCountSheet = async (sessionId: string): Promise<CycleCountSheet> => {
+  const res = await authFetch(
+    `${INVENTORY_API_BASE_URL}/inventory/cycle-counts/${encodeURIComponent(sessionId)}`,
+  );
+  if (!res.ok) throw new Error(await getApiErrorMessage(res, "Failed to load the count."));
+  return res.json();
+};
+
+/** Record the current user's counts. `qty: null` takes back an entry. */
+export const submitCycleCounts = async (
+  sessionId: string,
+  counts: Array<{ itemId: string; qty: number | null }>,
+): Promise<CycleCountSheet> => {
+  const res = await queueableFetch(
+    `${INVENTORY_API_BASE_URL}/inventory/cycle-counts/${encodeURIComponent(sessionId)}/counts`,
+    { method: "POST", body: JSON.stringify({ counts }) },
+    "Submit counts",
+  );
+  if (!res.ok) throw new Error(await getApiErrorMessage(res, "Failed to save counts."));
+  return res.json();
+};
+
+export const loadCycleCountVariance = async (
+  sessionId: string,
+): Promise<{ session: CycleCountSessionSummary; lines: CycleCountVarianceLine[] }> => {
+  const res = await authFetch(
+    `${INVENTORY_API_BASE_URL}/inventory/cycle-counts/${encodeURIComponent(sessionId)}/variance`,
+  );
+  if (!res.ok) throw new Error(await getApiErrorMessage(res, "Failed to load the variance report."));
+  return res.json();
+};
+
+/** Apply every counted line as a recount adjustment and close the session.
+ *  409 when counts arrived after the report was loaded. */
+export const postCycleCount = async (sessionId: string): Promise<{
+  adjustedCount: number;
+  unchangedCount: number;
+  uncountedCount: number;
+  skippedCount: number;
+  netDelta: number;
+  skipped: Array<{ itemId: string; itemName: string; reason: string }>;
+}> => {
+  const res = await queueableFetch(
+    `${INVENTORY_API_BASE_URL}/inventory/cycle-counts/${encodeURIComponent(sessionId)}/post`,
+    { method: "POST" },
+    "Post count",
+  );
+  if (!res.ok) throw new Error(await getApiErrorMessage(res, "Failed to post the count."));
+  return res.json();
+};
+
+export const cancelCycleCount = async (sessionId: string): Promise<void> => {
+  const res = await queueableFetch(
+    `${INVENTORY_API_BASE_URL}/inventory/cycle-counts/${encodeURIComponent(sessionId)}/cancel`,
+    { method: "POST" },
+    "Cancel count",
+  );
+  if (!res.ok) throw new Error(await getApiErrorMessage(res, "Failed to cancel the count."));
+};
+
+// ── Recalls ────────────────────────────────────────────────────────────────
+
+/** What a recall covers. `lotNumbers` match a row's lot or serial number;
+ *  an expiration range narrows to dated lots inside it (inclusive). */
+export type RecallCriteria = {
+  itemName: string;
+  lotNumbers?: string[];
+  expiresFrom?: string;
+  expiresTo?: string;
+};
+
+/** An on-hand row the recall covers. */
+export type RecallMatch = {
+  itemId: string;
+  itemName: string;
+  locationId: string;
+  /** "Station › Cabinet" path for sublocations. */
+  locationName: string;
+  quantity: number;
+  expirationDate?: string;
+  lotNumber?: string;
+  serialNumber?: string;
+};
+
+export type RecallPreview = {
+  criteria: RecallCriteria;
+  matches: RecallMatch[];
+  totalQuantity: number;
+  /** Set when more rows match than one recall may pull; narrow the criteria. */
+  tooMany?: boolean;
+  maxRows?: number;
+};
+
+/** The recall-response report: what was pulled, per row and per location. */
+export type RecallReport = {
+  recallId: string;
+  reference: string;
+  executedAt: string;
+  executedBy: string;
+  criteria: RecallCriteria;
+  notes?: string;
+  lines: Array<RecallMatch & { qtyPulled: number }>;
+  byLocation: Array<{ locationId: string; locationName: string; qtyPulled: number; rowCount: number }>;
+  totalPulled: number;
+  skippedCount: number;
+};
+
+export const previewRecall = async (criteria: RecallCriteria): Promise<RecallPreview> => {
+  const res = await authFetch(`${INVENTORY_API_BASE_URL}/inventory/recalls/preview`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(criteria),
+  });
+  if (!res.ok) throw new Error(await getApiErrorMessage(res, "Failed to find affected stock."));
+  return res.json();
+};
+
+/** Retire the selected rows as recalled under one reference. Rows used up or
+ *  edited out of the recall since the preview come back in `skipped`. */
+export const executeRecall = async (
+  criteria: RecallCriteria,
+  params: { reference: string; notes?: string; itemIds: string[] },
+): Promise<{ report: RecallReport; skipped: Array<{ itemId: string; reason: string }> }> => {
+  const res = await authFetch(`${INVENTORY_API_BASE_URL}/inventory/recalls`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ...criteria, ...params }),
+  });
+  if (!res.ok) throw new Error(await getApiErrorMessage(res, "Failed to run the recall."));
+  return res.json();
+};
+
+export const listRecalls = async (): Promise<RecallReport[]> => {
+  const res = await authFetch(`${INVENTORY_API_BASE_URL}/inventory/recalls`);
+  if (!res.ok) throw new Error(await getApiErrorMessage(res, "Failed to load recalls."));
+  const data = (await res.json()) as { recalls?: RecallReport[] };
+  return Array.isArray(data.recalls) ? data.recalls : [];
+};
+
 export const createBillingPortalSession = async (): Promise<string> => {
   if (!CORE_API_BASE_URL) {
     throw new Error("Missing VITE_API_BASE_URL");
@@ -0,0 +1,245 @@
+// ── Printable label sheets ───────────────────────────────────────────────────
+// Builds a Letter-size PDF of QR labels laid out on a standard Avery sheet.
+// Hand-written PDF (one content stream per page, built-in Helvetica) rather
+// than a PDF library: the output is a handful of rectangles and short strings,
+// and QR modules drawn as vector squares stay crisp on any printer.
+//
+// Coordinates are PDF points (1/72"), origin bottom-left. Layout numbers come
+// from Avery's published templates; sheets feed with the top edge first.
+
+import { create as createQrCode } from "qrcode";
+
+export type LabelTemplateId = "5160" | "5163" | "22805";
+
+export type LabelTemplate = {
+  id: LabelTemplateId;
+  name: string;
+  columns: number;
+  rows: number;
+  /** Label size, points. */
+  width: number;
+  height: number;
+  /** Distance from the sheet's top-left corner to the first label. */
+  marginTop: number;
+  marginLeft: number;
+  /** Label origin to next label origin. */
+  pitchX: number;
+  pitchY: number;
+};
+
+const IN = 72;
+const PAGE_WIDTH = 8.5 * IN;
+const PAGE_HEIGHT = 11 * IN;
+
+export const LABEL_TEMPLATES: Record<LabelTemplateId, LabelTemplate> = {
+  "5160": {
+    id: "5160",
+    name: 'Avery 5160 — 1" × 2⅝", 30 per sheet',
+    columns: 3,
+    rows: 10,
+    width: 2.625 * IN,
+    height: 1 * IN,
+    marginTop: 0.5 * IN,
+    marginLeft: 0.1875 * IN,
+    pitchX: 2.75 * IN,
+    pitchY: 1 * IN,
+  },
+  "5163": {
+    id: "5163",
+    name: 'Avery 5163 — 2" × 4", 10 per sheet',
+    columns: 2,
+    rows: 5,
+    width: 4 * IN,
+    height: 2 * IN,
+    marginTop: 0.5 * IN,
+    marginLeft: 0.15625 * IN,
+    pitchX: 4.1875 * IN,
+    pitchY: 2 * IN,
+  },
+  "22805": {
+    id: "22805",
+    name: 'Avery 22805 — 1½" square, 24 per sheet',
+    columns: 4,
+    rows: 6,
+    width: 1.5 * IN,
+    height: 1.5 * IN,
+    marginTop: 0.625 * IN,
+    marginLeft: 0.6875 * IN,
+    pitchX: 1.875 * IN,
+    pitchY: 1.65 * IN,
+  },
+};
+
+export type LabelSpec = {
+  /** Encoded into the QR code (a scan deep link). */
+  qrText: string;
+  /** Bold first line — item name or location name. */
+  title: string;
+  /** Smaller lines under the title (location path, expiration, …). */
+  lines?: string[];
+};
+
+const PADDING = 0.08 * IN;
+
+// Helvetica has no metrics table here; 0.55em is a safe average for mixed
+// case so truncation errs toward cutting early rather than overflowing.
+const approxTextWidth = (text: string, fontSize: number) => text.length * fontSize * 0.55;
+
+const truncateToWidth = (text: string, fontSize: number, maxWidth: number): string => {
+  if (approxTextWidth(text, fontSize) <= maxWidth) return text;
+  let out = text;
+  while (out.length > 1 && approxTextWidth(`${out}…`, fontSize) > maxWidth) out = out.slice(0, -1);
+  return `${out.trimEnd()}…`;
+};
+
+// Standard-14 fonts use WinAnsiEncoding: Latin-1 maps straight through (as
+// octal escapes, so the file stays 7-bit and byte offsets equal string
+// offsets); the ellipsis has its own code point; anything else becomes "?".
+const pdfString = (text: string): string => {
+  let out = "";
+  for (const ch of text) {
+    const code = ch.codePointAt(0) ?? 63;
+    if (ch === "(" || ch === ")" || ch === "\\") out += `\\${ch}`;
+    else if (ch === "…") out += "\\205";
+    else if (code >= 32 && code < 127) out += ch;
+    else if (code >= 160 && code <= 255) out += `\\${code.toString(8)}`;
+    else out += "?";
+  }
+  return `(${out})`;
+};
+
+const num = (n: number) => (Math.round(n * 100) / 100).toString();
+
+/** QR modules as filled rectangles, merging horizontal runs per row. */
+const drawQr = (text: string, x: number, y: number, size: number): string => {
+  const { modules } = createQrCode(text, { errorCorrectionLevel: "M" });
+  // 4-module quiet zone on each side is part of the spec; the label padding
+  // covers some of it, so budget 2 modules inside the drawn square.
+  const cells = modules.size + 4;
+  const unit = size / cells;
+  const ops: string[] = ["0 g"];
+  for (let r = 0; r < modules.size; r += 1) {
+    let c = 0;
+    while (c < modules.size) {
+      if (!modules.get(r, c)) {
+        c += 1;
+        continue;
+      }
+      const start = c;
+      while (c < modules.size && modules.get(r, c)) c += 1;
+      const rx = x + (start + 2) * unit;
+      const ry = y + size - (r + 3) * unit;
+      ops.push(`${num(rx)} ${num(ry)} ${num((c - start) * unit)} ${num(unit)} re`);
+    }
+  }
+  ops.push("f");
+  return ops.join("\n");
+};
+
+const drawText = (text: string, font: "F1" | "F2", size: number, x: number, y: number) =>
+  `BT /${font} ${num(size)} Tf ${num(x)} ${num(y)} Td ${pdfString(text)} Tj ET`;
+
+const drawLabel = (template: LabelTemplate, label: LabelSpec, left: number, bottom: number): string => {
+  const ops: string[] = [];
+  const innerW = template.width - PADDING * 2;
+  const innerH = template.height - PADDING * 2;
+  const lines = (label.lines ?? []).filter((l) => l.trim());
+
+  // Square labels stack the QR over a one-line caption; rectangles put the
+  // QR on the left and text to its right.
+  if (template.width / template.height < 1.3) {
+    const captionSize = 7;
+    const qrSize = Math.min(innerW, innerH - captionSize - 3);
+    const qrX = left + (template.width - qrSize) / 2;
+    const qrY = bottom + PADDING + captionSize + 3;
+    ops.push(drawQr(label.qrText, qrX, qrY, qrSize));
+    const caption = truncateToWidth(label.title, captionSize, innerW);
+    const capX = left + (template.width - approxTextWidth(caption, captionSize)) / 2;
+    ops.push(drawText(caption, "F2", captionSize, Math.max(left + PADDING, capX), bottom + PADDING));
+    return ops.join("\n");
+  }
+
+  const qrSize = innerH;
+  ops.push(drawQr(label.qrText, left + PADDING, bottom + PADDING, qrSize));
+  const textX = left + PADDING * 2 + qrSize;
+  const textW = template.width - (textX - left) - PADDING;
+  const titleSize = template.height >= 2 * IN ? 14 : 9;
+  const lineSize = template.height >= 2 * IN ? 10 : 7;
+  const maxLines = Math.max(0, Math.floor((innerH - titleSize - 2) / (lineSize + 2)));
+  let cursor = bottom + template.height - PADDING - titleSize;
+  ops.push(drawText(truncateToWidth(label.title, titleSize, textW), "F2", titleSize, textX, cursor));
+  for (const line of lines.slice(0, maxLines)) {
+    cursor -= lineSize + 2;
+    ops.push(drawText(truncateToWidth(line, lineSize, textW), "F1", lineSize, textX, cursor));
+  }
+  return ops.join("\n");
+};
+
+/**
+ * Render labels onto as many sheets as needed. `skip` leaves that many
+ * positions blank on the first sheet so a partly used sheet can be reused.
+ */
+export const buildLabelPdf = (
+  templateId: LabelTemplateId,
+  labels: LabelSpec[],
+  skip = 0,
+): Blob => {
+  const template = LABEL_TEMPLATES[templateId];
+  const perPage = template.columns * template.rows;
+  const slots: Array<LabelSpec | null> = [...Array<null>(Math.max(0, Math.min(skip, perPage - 1))).fill(null), ...labels];
+  const pageStreams: string[] = [];
+  for (let start = 0; start < slots.length; start += perPage) {
+    const ops: string[] = [];
+    slots.slice(start, start + perPage).forEach((label, index) => {
+      if (!label) return;
+      const col = index % template.columns;
+      const row = Math.floor(index / template.columns);
+      const left = template.marginLeft + col * template.pitchX;
+      const bottom = PAGE_HEIGHT - template.marginTop - row * template.pitchY - template.height;
+      ops.push(drawLabel(template, label, left, bottom));
+    });
+    pageStreams.push(ops.join("\n"));
+  }
+  if (pageStreams.length === 0) pageStreams.push("");
+
+  // Object layout: 1 catalog, 2 pages, 3-4 fonts, then (page, content) pairs.
+  const objects: string[] = [];
+  const pageIds = pageStreams.map((_, i) => 5 + i * 2);
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`;
+  objects[3] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>";
+  objects[4] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>";
+  pageStreams.forEach((stream, i) => {
+    const pageId = pageIds[i];
+    objects[pageId] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`;
+  });
+
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id += 1) {
+    offsets[id] = pdf.length;
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xrefAt = pdf.length;
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id += 1) {
+    pdf += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefAt}\n%%EOF\n`;
+  return new Blob([pdf], { type: "application/pdf" });
+};
+
+/** Trigger a browser download of a generated sheet. */
+export const downloadLabelPdf = (filename: string, pdf: Blob) => {
+  const url = URL.createObjectURL(pdf);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,378 @@
+import { authFetch, getCachedAuthToken } from "./authFetch";
+
+/** Durable offline support, backed by IndexedDB:
+ *
+ *  - A mutation queue. Field operations (usage, retires, moves, receives,
+ *    counts) that can't reach the server are stored here and replayed in the
+ *    order they were made once the connection is back. Every queued request
+ *    carries an Idempotency-Key, so a replay of a request that did land the
+ *    first time is answered from the server's record instead of applied twice.
+ *    A replay the server rejects is kept as "failed" for the user to retry or
+ *    discard; it doesn't block the operations queued after it.
+ *  - A read cache for the last bootstrap, so the inventory can still be
+ *    browsed (read-only) with no connection.
+ *
+ *  Everything is scoped to the signed-in user, so a shared station tablet
+ *  never replays or shows another account's data. The grid's own unsaved-diff
+ *  stash (pendingInventorySave.ts) stays separate — it merges against current
+ *  rows on replay rather than re-sending requests. */
+
+const DB_NAME = "wickops-offline";
+const DB_VERSION = 1;
+const MUTATIONS_STORE = "mutations";
+const CACHE_STORE = "cache";
+
+/** Queued mutations older than this are dropped rather than replayed; the
+ *  server keeps idempotency records a little longer (14 days). */
+const MAX_QUEUE_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+const SYNC_INTERVAL_MS = 30_000;
+
+export type QueuedMutation = {
+  /** IndexedDB key; ascending = the order the user made the changes. */
+  seq?: number;
+  /** Also sent as the Idempotency-Key. */
+  id: string;
+  userKey: string;
+  /** Human label for the sync panel, e.g. "Log usage". */
+  label: string;
+  url: string;
+  method: "POST" | "DELETE";
+  body: string | null;
+  queuedAt: number;
+  attempts: number;
+  status: "pending" | "failed";
+  /** The server's rejection message once status is "failed". */
+  error?: string;
+};
+
+export type OfflineQueueState = {
+  online: boolean;
+  syncing: boolean;
+  pending: number;
+  failed: QueuedMutation[];
+};
+
+/**
+ * Thrown by a queueable API call that couldn't reach the server: the request
+ * was stored and will be sent on reconnect. Callers should close their dialog
+ * and tell the user, not report a failure.
+ */
+export class MutationQueuedError extends Error {
+  readonly label: string;
+
+  constructor(label: string) {
+    super(`You're offline. "${label}" was saved on this device and will sync when you reconnect.`);
+    this.name = "MutationQueuedError";
+    this.label = label;
+  }
+}
+
+export const isMutationQueuedError = (value: unknown): value is MutationQueuedError =>
+  value instanceof MutationQueuedError;
+
+/** True for a failure that means "no connection", as opposed to a server
+ *  answer: fetch rejects with a TypeError, and the auth refresh fails too. */
+export const isOfflineFailure = (err: unknown): boolean =>
+  (typeof navigator !== "undefined" && navigator.onLine === false) || err instanceof TypeError;
+
+/** The Cognito `sub` of the last token authFetch used, or null before the
+ *  first authenticated call. */
+const currentUserKey = (): string | null => {
+  const token = getCachedAuthToken();
+  if (!token) return null;
+  try {
+    const payload = token.split(".")[1].replace(/-/g, "+").replace(/_/g, "/");
+    const parsed = JSON.parse(atob(payload)) as { sub?: unknown };
+    return typeof parsed.sub === "string" ? parsed.sub : null;
+  } catch {
+    return null;
+  }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(MUTATIONS_STORE)) {
+          db.createObjectStore(MUTATIONS_STORE, { keyPath: "seq", autoIncrement: true });
+        }
+        if (!db.objectStoreNames.contains(CACHE_STORE)) {
+          db.createObjectStore(CACHE_STORE, { keyPath: "key" });
+        }
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  op: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const req = op(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(req.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// ── Read cache ──────────────────────────────────────────────────────────────
+
+/** Store `value` for the signed-in user. Best-effort: quota or private-mode
+ *  failures just mean no offline copy. */
+export const writeOfflineCache = async (key: string, value: unknown): Promise<void> => {
+  const userKey = currentUserKey();
+  if (!userKey) return;
+  try {
+    await runRequest(CACHE_STORE, "readwrite", (store) =>
+      store.put({ key: `${userKey}:${key}`, value, cachedAt: Date.now() }),
+    );
+  } catch {
+    // Best-effort.
+  }
+};
+
+/** The signed-in user's cached copy of `key`, with when it was cached. */
+export const readOfflineCache = async <T>(key: string): Promise<{ value: T; cachedAt: number } | null> => {
+  const userKey = currentUserKey();
+  if (!userKey) return null;
+  try {
+    const row = await runRequest<{ value: T; cachedAt: number } | undefined>(CACHE_STORE, "readonly", (store) =>
+      store.get(`${userKey}:${key}`),
+    );
+    return row ? { value: row.value, cachedAt: row.cachedAt } : null;
+  } catch {
+    return null;
+  }
+};
+
+/** Drop every cached read. Called on sign-out so the next person on a shared
+ *  device can't browse this account's inventory offline. Queued mutations are
+ *  kept — they're scoped to their user and replay when that user is back. */
+export const clearOfflineCache = async (): Promise<void> => {
+  try {
+    await runRequest(CACHE_STORE, "readwrite", (store) => store.clear());
+  } catch {
+    // Nothing cached, or storage unavailable.
+  }
+};
+
+// ── Mutation queue ──────────────────────────────────────────────────────────
+
+let state: OfflineQueueState = {
+  online: typeof navigator === "undefined" ? true : navigator.onLine,
+  syncing: false,
+  pending: 0,
+  failed: [],
+};
+const listeners = new Set<(next: OfflineQueueState) => void>();
+
+const setState = (patch: Partial<OfflineQueueState>) => {
+  state = { ...state, ...patch };
+  for (const listener of listeners) listener(state);
+};
+
+export const getOfflineQueueState = (): OfflineQueueState => state;
+
+/** Listen for queue/connection changes. Returns the unsubscribe function. */
+export const subscribeOfflineQueue = (listener: (next: OfflineQueueState) => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const listOwnMutations = async (): Promise<QueuedMutation[]> => {
+  const userKey = currentUserKey();
+  if (!userKey) return [];
+  const all = await runRequest<QueuedMutation[]>(MUTATIONS_STORE, "readonly", (store) => store.getAll());
+  return all.filter((m) => m.userKey === userKey).sort((a, b) => Number(a.seq) - Number(b.seq));
+};
+
+const refreshState = async () => {
+  try {
+    const own = await listOwnMutations();
+    setState({
+      pending: own.filter((m) => m.status === "pending").length,
+      failed: own.filter((m) => m.status === "failed"),
+    });
+  } catch {
+    // IndexedDB unavailable — nothing is ever queued, so nothing to show.
+  }
+};
+
+/** Store a mutation for replay. Resolves false when it couldn't be stored
+ *  (no signed-in user, storage unavailable) so the caller can fail instead. */
+export const enqueueMutation = async (
+  entry: Pick<QueuedMutation, "id" | "label" | "url" | "method" | "body">,
+): Promise<boolean> => {
+  const userKey = currentUserKey();
+  if (!userKey) return false;
+  const row: QueuedMutation = {
+    ...entry,
+    userKey,
+    queuedAt: Date.now(),
+    attempts: 0,
+    status: "pending",
+  };
+  try {
+    await runRequest(MUTATIONS_STORE, "readwrite", (store) => store.add(row));
+  } catch {
+    return false;
+  }
+  await refreshState();
+  return true;
+};
+
+const putMutation = (row: QueuedMutation) =>
+  runRequest(MUTATIONS_STORE, "readwrite", (store) => store.put(row));
+
+const deleteMutation = (seq: number) =>
+  runRequest(MUTATIONS_STORE, "readwrite", (store) => store.delete(seq));
+
+const readErrorMessage = async (res: Response): Promise<string> => {
+  const text = await res.text().catch(() => "");
+  try {
+    const parsed = JSON.parse(text) as { error?: unknown };
+    if (typeof parsed.error === "string" && parsed.error) return parsed.error;
+  } catch {
+    // Not JSON.
+  }
+  return text || `The server rejected this change (${res.status}).`;
+};
+
+/** A replayed item save that landed but skipped rows someone else changed
+ *  while it waited (items/save lists them as `conflicts`). Null otherwise. */
+const skippedConflictMessage = async (res: Response): Promise<string | null> => {
+  const body = (await res.json().catch(() => null)) as { conflicts?: Array<{ itemName?: unknown }> } | null;
+  const conflicts = Array.isArray(body?.conflicts) ? body.conflicts : [];
+  if (conflicts.length === 0) return null;
+  return conflicts.length === 1
+    ? `"${String(conflicts[0].itemName ?? "An item")}" was changed by someone else before this was sent, so it wasn't saved. The rest was.`
+    : `${conflicts.length} items were changed by someone else before this was sent, so they weren't saved. The rest was.`;
+};
+
+const isInProgressResponse = async (res: Response): Promise<boolean> => {
+  const body = (await res.json().catch(() => null)) as { code?: unknown } | null;
+  return body?.code === "IDEMPOTENCY_IN_PROGRESS";
+};
+
+let syncInFlight: Promise<void> | null = null;
+
+/**
+ * Send queued mutations, oldest first. Stops at the first one that can't get
+ * an answer (still offline, server error, still processing) so order is kept;
+ * a definite rejection (4xx), or a save that skipped rows changed meanwhile,
+ * marks that one failed and moves on.
+ */
+export const syncOfflineQueue = (): Promise<void> => {
+  if (syncInFlight) return syncInFlight;
+  syncInFlight = (async () => {
+    let own: QueuedMutation[];
+    try {
+      own = await listOwnMutations();
+    } catch {
+      return;
+    }
+    const pending = own.filter((m) => m.status === "pending");
+    if (pending.length === 0 || !navigator.onLine) return;
+    setState({ syncing: true });
+    try {
+      for (const mutation of pending) {
+        if (Date.now() - mutation.queuedAt > MAX_QUEUE_AGE_MS) {
+          await putMutation({ ...mutation, status: "failed", error: "Not sent within 7 days; discarded as stale." });
+          continue;
+        }
+        let res: Response;
+        try {
+          res = await authFetch(mutation.url, {
+            method: mutation.method,
+            headers: {
+              "Content-Type": "application/json",
+              "Idempotency-Key": mutation.id,
+            },
+            ...(mutation.body !== null ? { body: mutation.body } : {}),
+          });
+        } catch {
+          break;
+        }
+        const attempted = { ...mutation, attempts: mutation.attempts + 1 };
+        if (res.ok && res.status !== 202) {
+          const skipped = await skippedConflictMessage(res.clone());
+          if (skipped) await putMutation({ ...attempted, status: "failed", error: skipped });
+          else await deleteMutation(Number(mutation.seq));
+          continue;
+        }
+        // Provisioning, a concurrent copy still running, or a server fault:
+        // none of these is an answer. Keep it in line for the next sync.
+        const notAnswered =
+          res.status === 202 ||
+          res.status >= 500 ||
+          (res.status === 409 && (await isInProgressResponse(res.clone())));
+        if (notAnswered) {
+          await putMutation(attempted);
+          break;
+        }
+        await putMutation({ ...attempted, status: "failed", error: await readErrorMessage(res) });
+      }
+    } finally {
+      await refreshState();
+      setState({ syncing: false });
+    }
+  })().finally(() => {
+    syncInFlight = null;
+  });
+  return syncInFlight;
+};
+
+/** Put a failed mutation back in line and try to send it now. */
+export const retryQueuedMutation = async (seq: number): Promise<void> => {
+  const row = await runRequest<QueuedMutation | undefined>(MUTATIONS_STORE, "readonly", (store) => store.get(seq));
+  if (!row) return;
+  await putMutation({ ...row, status: "pending", error: undefined, queuedAt: Date.now() });
+  await refreshState();
+  await syncOfflineQueue();
+};
+
+/** Drop a failed mutation for good. */
+export const discardQueuedMutation = async (seq: number): Promise<void> => {
+  await deleteMutation(seq);
+  await refreshState();
+};
+
+/** Start tracking connectivity and replaying the queue: now, whenever the
+ *  browser comes back online, and periodically while anything is pending.
+ *  Returns a stop function for the owning effect. */
+export const startOfflineSync = (): (() => void) => {
+  const onOnline = () => {
+    setState({ online: true });
+    void syncOfflineQueue();
+  };
+  const onOffline = () => setState({ online: false });
+  window.addEventListener("online", onOnline);
+  window.addEventListener("offline", onOffline);
+  const interval = window.setInterval(() => {
+    void refreshState().then(() => {
+      if (state.pending > 0) void syncOfflineQueue();
+    });
+  }, SYNC_INTERVAL_MS);
+  void refreshState().then(() => syncOfflineQueue());
+  return () => {
+    window.removeEventListener("online", onOnline);
+    window.removeEventListener("offline", onOffline);
+    window.clearInterval(interval);
+  };
+};
@@ -0,0 +1,62 @@
+// ── Label deep links ─────────────────────────────────────────────────────────
+// Printed labels carry a QR code that encodes a plain https URL:
+//   https://<app>/?scan=i.<itemId>      an inventory row (one lot)
+//   https://<app>/?scan=l.<locationId>  a location
+//
+// A URL (not a bare id) so a phone's stock camera app opens the right screen
+// with no WickOps-specific scanner. The in-app scanner reads the same payload
+// and skips the page load. Ids are opaque UUIDs, so the link leaks nothing a
+// signed-out viewer could use.
+
+export type ScanTarget = { kind: "item" | "location"; id: string };
+
+export const SCAN_PARAM = "scan";
+
+const PREFIX_BY_KIND: Record<ScanTarget["kind"], string> = { item: "i", location: "l" };
+const ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+const parseToken = (token: string): ScanTarget | null => {
+  const match = /^([il])\.(.+)$/.exec(token.trim());
+  if (!match || !ID_PATTERN.test(match[2])) return null;
+  return { kind: match[1] === "i" ? "item" : "location", id: match[2] };
+};
+
+/** Build the URL printed into a label's QR code. */
+export const buildScanUrl = (target: ScanTarget, origin: string = window.location.origin): string => {
+  const url = new URL("/", origin);
+  url.searchParams.set(SCAN_PARAM, `${PREFIX_BY_KIND[target.kind]}.${target.id}`);
+  return url.toString();
+};
+
+/**
+ * Decode whatever a scanner produced: a full label URL (any origin, so labels
+ * printed from a staging build still resolve), or the bare `i.<id>` token a
+ * keyboard-wedge reader might be configured to emit. Anything else → null.
+ */
+export const parseScanPayload = (text: string): ScanTarget | null => {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+  try {
+    const url = new URL(trimmed);
+    const token = url.searchParams.get(SCAN_PARAM);
+    return token ? parseToken(token) : null;
+  } catch {
+    return parseToken(trimmed);
+  }
+};
+
+/** Read (and optionally strip) a scan target from the current page URL. */
+export const takeScanTargetFromLocation = (strip = true): ScanTarget | null => {
+  try {
+    const url = new URL(window.location.href);
+    const token = url.searchParams.get(SCAN_PARAM);
+    if (!token) return null;
+    if (strip) {
+      url.searchParams.delete(SCAN_PARAM);
+      window.history.replaceState(window.history.state, "", `${url.pathname}${url.search}${url.hash}`);
+    }
+    return parseToken(token);
+  } catch {
+    return null;
+  }
+};